@@ -40,8 +40,13 @@ const SYNC_TAGS = {
   BOOKING_RETRY: 'booking-retry',
   OFFLINE_ACTIONS: 'offline-actions',
   ANALYTICS: 'analytics-sync',
+  TICKET_CHECKINS: 'ticket-checkins',
 };
 
+// IndexedDB layout - keep in sync with src/services/offlineCheckInService.ts
+const DB_NAME = 'GemaOfflineDB';
+const DB_VERSION = 2;
+
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing service worker...');
@@ -354,6 +359,8 @@ self.addEventListener('sync', (event) => {
     event.waitUntil(processFailedRequests());
   } else if (event.tag === SYNC_TAGS.BOOKING_RETRY) {
     event.waitUntil(retryBookings());
+  } else if (event.tag === SYNC_TAGS.TICKET_CHECKINS) {
+    event.waitUntil(processCheckInQueue());
   }
 });
 
@@ -387,6 +394,74 @@ async function processFailedRequests() {
   }
 }
 
+// Replay check-ins queued by the ticket scanner while offline. The server answers per item:
+// accepted/duplicate leave the queue, conflicts (scanned first on another device) and
+// rejections stay for staff to review.
+async function processCheckInQueue() {
+  const db = await openDB();
+  const pending = (await idbRequest(
+    db.transaction(['checkin_queue'], 'readonly').objectStore('checkin_queue').getAll()
+  )).filter((item) => item.status === 'pending');
+
+  if (pending.length === 0) return;
+
+  // Check-ins from one device all share the same endpoint
+  const byUrl = pending.reduce((groups, item) => {
+    (groups[item.syncUrl] = groups[item.syncUrl] || []).push(item);
+    return groups;
+  }, {});
+
+  for (const [syncUrl, items] of Object.entries(byUrl)) {
+    const response = await fetch(syncUrl, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        checkIns: items.map((item) => ({
+          clientId: item.id,
+          eventId: item.eventId,
+          ticketId: item.ticketId,
+          deviceId: item.deviceId,
+          scannedAt: item.scannedAt,
+          location: item.location,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      // Throwing makes the browser retry the sync later
+      throw new Error(`Check-in sync failed with status ${response.status}`);
+    }
+
+    const payload = await response.json();
+    const results = new Map(((payload.data && payload.data.results) || []).map((result) => [result.clientId, result]));
+
+    const tx = db.transaction(['checkin_queue'], 'readwrite');
+    const store = tx.objectStore('checkin_queue');
+    items.forEach((item) => {
+      const result = results.get(item.id);
+      if (!result) {
+        store.put({ ...item, attempts: item.attempts + 1 });
+      } else if (result.status === 'accepted' || result.status === 'duplicate') {
+        store.delete(item.id);
+      } else if (result.status === 'conflict') {
+        store.put({ ...item, status: 'conflict', lastError: result.message, conflict: result.existingCheckIn });
+      } else {
+        store.put({ ...item, status: 'rejected', lastError: result.message || 'Check-in rejected' });
+      }
+    });
+    await new Promise((resolve, reject) => {
+      tx.oncomplete = resolve;
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Let open scanner pages refresh their pending counts
+  const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clientList.forEach((client) => client.postMessage({ type: 'CHECKIN_SYNC_COMPLETE' }));
+  console.log('[SW] Synced queued check-ins:', pending.length);
+}
+
 // Push notification event
 self.addEventListener('push', (event) => {
   if (!event.data) return;
@@ -453,7 +528,7 @@ self.addEventListener('notificationclick', (event) => {
 // Simple IndexedDB helper
 function openDB() {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open('GemaOfflineDB', 1);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
     
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
@@ -465,8 +540,24 @@ function openDB() {
         const store = db.createObjectStore('failed_requests', { keyPath: 'id', autoIncrement: true });
         store.createIndex('timestamp', 'timestamp', { unique: false });
       }
+
+      // Offline ticket check-in (manifests downloaded by staff, check-ins waiting to sync)
+      if (!db.objectStoreNames.contains('checkin_manifests')) {
+        db.createObjectStore('checkin_manifests', { keyPath: 'eventId' });
+      }
+      if (!db.objectStoreNames.contains('checkin_queue')) {
+        const store = db.createObjectStore('checkin_queue', { keyPath: 'id' });
+        store.createIndex('eventId', 'eventId', { unique: false });
+      }
     };
   });
 }
 
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
 console.log('[SW] Service worker loaded successfully');
\ No newline at end of file
@@ -0,0 +1,135 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Reports translation keys that exist in the reference language (en) but are
+ * missing or empty in another locale under public/locales. Exits non-zero when
+ * anything is missing so CI can block untranslated releases.
+ *
+ * Usage: node scripts/check-translations.cjs [--strict]
+ *   --strict  also fail on keys that only exist in a translated locale
+ */
+
+const LOCALES_DIR = path.join(__dirname, '..', 'public', 'locales');
+const REFERENCE_LANGUAGE = 'en';
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+/**
+ * Flatten nested JSON into dot-separated keys, folding plural forms into their
+ * base key since each language has its own set of plural suffixes
+ */
+function flattenKeys(value, prefix = '', result = new Map()) {
+  Object.entries(value).forEach(([key, child]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+
+    if (child && typeof child === 'object' && !Array.isArray(child)) {
+      flattenKeys(child, fullKey, result);
+      return;
+    }
+
+    const baseKey = fullKey.replace(PLURAL_SUFFIX, '');
+    const isEmpty = typeof child !== 'string' || child.trim() === '';
+    // A plural group is only empty when every form is empty
+    result.set(baseKey, result.has(baseKey) ? result.get(baseKey) && isEmpty : isEmpty);
+  });
+
+  return result;
+}
+
+function readNamespace(language, namespace) {
+  const filePath = path.join(LOCALES_DIR, language, `${namespace}.json`);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    return flattenKeys(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch (err) {
+    console.error(`❌ ${language}/${namespace}.json is not valid JSON: ${err.message}`);
+    process.exitCode = 1;
+    return new Map();
+  }
+}
+
+function listNamespaces(language) {
+  return fs
+    .readdirSync(path.join(LOCALES_DIR, language))
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort();
+}
+
+function main() {
+  const strict = process.argv.includes('--strict');
+
+  if (!fs.existsSync(path.join(LOCALES_DIR, REFERENCE_LANGUAGE))) {
+    console.error(`❌ Reference locale not found at ${path.join(LOCALES_DIR, REFERENCE_LANGUAGE)}`);
+    process.exit(1);
+  }
+
+  const languages = fs
+    .readdirSync(LOCALES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && entry.name !== REFERENCE_LANGUAGE)
+    .map(entry => entry.name)
+    .sort();
+
+  const namespaces = listNamespaces(REFERENCE_LANGUAGE);
+  let missingCount = 0;
+  let extraCount = 0;
+
+  console.log(`🌐 Checking ${languages.join(', ')} against ${REFERENCE_LANGUAGE} (${namespaces.length} namespaces)\n`);
+
+  languages.forEach(language => {
+    const problems = [];
+
+    namespaces.forEach(namespace => {
+      const reference = readNamespace(REFERENCE_LANGUAGE, namespace);
+      const translated = readNamespace(language, namespace);
+
+      if (!translated) {
+        problems.push(`  ${namespace}.json is missing (${reference.size} keys)`);
+        missingCount += reference.size;
+        return;
+      }
+
+      reference.forEach((_, key) => {
+        if (!translated.has(key)) {
+          problems.push(`  missing  ${namespace}:${key}`);
+          missingCount++;
+        } else if (translated.get(key)) {
+          problems.push(`  empty    ${namespace}:${key}`);
+          missingCount++;
+        }
+      });
+
+      translated.forEach((_, key) => {
+        if (!reference.has(key)) {
+          problems.push(`  unused   ${namespace}:${key}`);
+          extraCount++;
+        }
+      });
+    });
+
+    listNamespaces(language)
+      .filter(namespace => !namespaces.includes(namespace))
+      .forEach(namespace => {
+        problems.push(`  unused   ${namespace}.json has no ${REFERENCE_LANGUAGE} counterpart`);
+        extraCount++;
+      });
+
+    if (problems.length === 0) {
+      console.log(`✅ ${language}: complete`);
+    } else {
+      console.log(`⚠️  ${language}:`);
+      problems.forEach(problem => console.log(problem));
+    }
+  });
+
+  console.log(`\n📊 Missing or empty: ${missingCount}, unused: ${extraCount}`);
+
+  if (missingCount > 0 || (strict && extraCount > 0)) {
+    process.exit(1);
+  }
+}
+
+main();
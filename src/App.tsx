@@ -10,6 +10,7 @@ import Layout from '@components/layout/Layout';
 import AdminLayout from '@components/layout/AdminLayout';
 import LoadingSpinner from '@components/common/LoadingSpinner';
 import ScrollToTop from '@components/common/ScrollToTop';
+import ImpersonationBanner from '@components/layout/ImpersonationBanner';
 
 // Page Components (Lazy loaded for better performance)
 const HomePage = React.lazy(() => import(/* webpackChunkName: "home" */ './pages/HomePage'));
@@ -23,6 +24,8 @@ const VendorsPage = React.lazy(() => import(/* webpackChunkName: "vendors" */ '.
 const VendorPage = React.lazy(() => import(/* webpackChunkName: "vendors" */ './pages/VendorPage'));
 const SearchPage = React.lazy(() => import(/* webpackChunkName: "search" */ './pages/SearchPage'));
 const BookingPage = React.lazy(() => import(/* webpackChunkName: "booking" */ './pages/BookingPage'));
+const WaitlistClaimPage = React.lazy(() => import(/* webpackChunkName: "booking" */ './pages/WaitlistClaimPage'));
+const TicketTransferPage = React.lazy(() => import(/* webpackChunkName: "booking" */ './pages/TicketTransferPage'));
 const CartPage = React.lazy(() => import(/* webpackChunkName: "cart" */ './pages/CartPage'));
 const CheckoutPage = React.lazy(() => import(/* webpackChunkName: "payment" */ './pages/CheckoutPage'));
 const PaymentSuccessPage = React.lazy(() => import(/* webpackChunkName: "payment" */ './pages/PaymentSuccessPage'));
@@ -87,6 +90,8 @@ const AdminBlogCategoriesPage = React.lazy(() => import(/* webpackChunkName: "ad
 const AdminCouponsPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminCouponsPage'));
 const AdminAnalyticsPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminAnalyticsPage'));
 const AdminSettingsPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminSettingsPage'));
+const AdminAuditLogPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminAuditLogPage'));
+const AdminRolesPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminRolesPage'));
 const EmployeeManagement = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/EmployeeManagement'));
 const AdminAffiliateAnalyticsPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminAffiliateAnalyticsPage'));
 const AdminPartnershipsPage = React.lazy(() => import(/* webpackChunkName: "admin" */ './pages/admin/AdminPartnershipsPage'));
@@ -134,7 +139,7 @@ import { AppDispatch } from '@/store';
 function AppContent() {
   const location = useLocation();
   const { loading, isInitialized } = useAuth();
-  const { currentLanguage } = useLanguage();
+  const { isRTL } = useLanguage();
   const dispatch = useDispatch<AppDispatch>();
 
   // Fetch social settings on app load
@@ -142,12 +147,6 @@ function AppContent() {
     dispatch(fetchSocialSettings());
   }, [dispatch]);
 
-  // Set document direction based on language
-  useEffect(() => {
-    document.documentElement.dir = currentLanguage === 'ar' ? 'rtl' : 'ltr';
-    document.documentElement.lang = currentLanguage || 'en';
-  }, [currentLanguage]);
-
   // Show loading spinner while checking authentication
   // Wait for auth initialization to complete before rendering routes
   if (!isInitialized || loading) {
@@ -162,7 +161,7 @@ function AppContent() {
     <>
       <ScrollToTop />
       <Toaster
-        position="top-right"
+        position={isRTL ? 'top-left' : 'top-right'}
         toastOptions={{
           duration: 4000,
           // Success toast - Glassmorphism with green tint
@@ -361,6 +360,20 @@ function AppContent() {
                 </Suspense>
               </ProtectedRoute>
             } />
+            <Route path="waitlist/claim/:token" element={
+              <ProtectedRoute>
+                <Suspense fallback={<LoadingSpinner />}>
+                  <WaitlistClaimPage />
+                </Suspense>
+              </ProtectedRoute>
+            } />
+            <Route path="tickets/transfer/:token" element={
+              <ProtectedRoute>
+                <Suspense fallback={<LoadingSpinner />}>
+                  <TicketTransferPage />
+                </Suspense>
+              </ProtectedRoute>
+            } />
             <Route path="cart" element={
               <Suspense fallback={<LoadingSpinner />}>
                 <CartPage />
@@ -531,7 +544,7 @@ function AppContent() {
 
             {/* Booking Management */}
             <Route path="bookings" element={
-              <VendorRoute>
+              <VendorRoute staffPermission="bookings.view">
                 <Suspense fallback={<LoadingSpinner />}>
                   <VendorBookingsPage />
                 </Suspense>
@@ -563,14 +576,14 @@ function AppContent() {
 
             {/* Analytics & Reports */}
             <Route path="analytics" element={
-              <VendorRoute>
+              <VendorRoute staffPermission="revenue.view">
                 <Suspense fallback={<LoadingSpinner />}>
                   <AnalyticsDashboard />
                 </Suspense>
               </VendorRoute>
             } />
             <Route path="analytics/events/:eventId" element={
-              <VendorRoute>
+              <VendorRoute staffPermission="revenue.view">
                 <Suspense fallback={<LoadingSpinner />}>
                   <EventPerformance />
                 </Suspense>
@@ -613,7 +626,7 @@ function AppContent() {
 
             {/* Registration Management */}
             <Route path="events/:eventId/registrations" element={
-              <VendorRoute>
+              <VendorRoute staffPermission="registrations.view">
                 <Suspense fallback={<LoadingSpinner />}>
                   <VendorRegistrationsDashboard />
                 </Suspense>
@@ -627,7 +640,7 @@ function AppContent() {
               </VendorRoute>
             } />
             <Route path="registrations/:registrationId" element={
-              <VendorRoute>
+              <VendorRoute staffPermission="registrations.view">
                 <Suspense fallback={<LoadingSpinner />}>
                   <RegistrationDetailPage />
                 </Suspense>
@@ -893,6 +906,24 @@ function AppContent() {
                 </Suspense>
               </AdminRoute>
             } />
+
+            {/* Audit Log */}
+            <Route path="audit-log" element={
+              <AdminRoute>
+                <Suspense fallback={<LoadingSpinner />}>
+                  <AdminAuditLogPage />
+                </Suspense>
+              </AdminRoute>
+            } />
+
+            {/* Roles & Permissions */}
+            <Route path="roles" element={
+              <AdminRoute>
+                <Suspense fallback={<LoadingSpinner />}>
+                  <AdminRolesPage />
+                </Suspense>
+              </AdminRoute>
+            } />
           </Route>
 
           {/* Auth Routes (without layout) */}
@@ -913,6 +944,7 @@ function AppContent() {
           } />
         </Routes>
       </AnimatePresence>
+      <ImpersonationBanner />
     </>
   );
 }
@@ -922,7 +954,18 @@ function App() {
   // Note: Redux Provider and PersistGate are set up in main.tsx
   // This prevents double wrapping and potential state issues
   // Note: Stripe Elements are provided by StripeElementsWrapper in payment components
-  return <AppContent />;
+  // Note: translations are fetched over HTTP, so wait for the initial namespaces here
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center">
+          <LoadingSpinner size="large" />
+        </div>
+      }
+    >
+      <AppContent />
+    </Suspense>
+  );
 }
 
 export default App;
\ No newline at end of file
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { usePermissions } from '@/hooks/usePermissions';
 
 const AdminNavigation: React.FC = () => {
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState<boolean>(false);
+  const { canAccessAdminPath } = usePermissions();
 
-  const navigationItems = [
+  const allNavigationItems = [
     { name: 'Dashboard', path: '/admin', icon: 'dashboard' },
     { name: 'Users', path: '/admin/users', icon: 'users' },
     { name: 'Events', path: '/admin/events', icon: 'calendar' },
@@ -22,6 +24,8 @@ const AdminNavigation: React.FC = () => {
     { name: 'Settings', path: '/admin/settings', icon: 'settings' }
   ];
 
+  const navigationItems = allNavigationItems.filter((item) => canAccessAdminPath(item.path));
+
   const getIconSvg = (iconName: string) => {
     switch (iconName) {
       case 'dashboard':
@@ -0,0 +1,42 @@
+import React from 'react';
+
+import type { AuditLogEntry } from '../../types/audit';
+import { formatAuditValue, getAuditChanges } from '../../utils/auditUtils';
+
+interface AuditChangeListProps {
+  entry: Pick<AuditLogEntry, 'before' | 'after'>;
+}
+
+/**
+ * Before/after table of the fields an audited action changed
+ */
+const AuditChangeList: React.FC<AuditChangeListProps> = ({ entry }) => {
+  const changes = getAuditChanges(entry.before, entry.after);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No field changes recorded</p>;
+  }
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pe-3 font-medium">Field</th>
+          <th className="py-1 pe-3 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {changes.map((change) => (
+          <tr key={change.path} className="align-top">
+            <td className="py-1 pe-3 font-mono text-gray-700">{change.path}</td>
+            <td className="py-1 pe-3 text-red-700 break-all">{formatAuditValue(change.before)}</td>
+            <td className="py-1 text-green-700 break-all">{formatAuditValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default AuditChangeList;
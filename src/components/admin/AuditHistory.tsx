@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+
+import auditAPI from '../../services/api/auditAPI';
+import type { AuditEntityType, AuditLogEntry } from '../../types/audit';
+import { formatAuditAction } from '../../utils/auditUtils';
+import AuditChangeList from './AuditChangeList';
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+  className?: string;
+}
+
+/**
+ * Audit trail of one user, vendor, event or order, for its admin detail view
+ */
+const AuditHistory: React.FC<AuditHistoryProps> = ({ entityType, entityId, className = '' }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        const history = await auditAPI.getEntityAuditLog(entityType, entityId);
+        if (!cancelled) {
+          setEntries(history);
+          setError(null);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || 'Failed to load audit history');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId]);
+
+  if (isLoading) {
+    return (
+      <div className={`flex justify-center py-6 ${className}`}>
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className={`text-sm text-red-600 ${className}`}>{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className={`text-sm text-gray-500 ${className}`}>No admin actions have been recorded yet.</p>;
+  }
+
+  return (
+    <ol className={`space-y-3 ${className}`}>
+      {entries.map((entry) => (
+        <li key={entry._id} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm font-medium text-gray-900">{formatAuditAction(entry.action)}</p>
+            <time className="text-xs text-gray-500" dateTime={entry.createdAt}>
+              {new Date(entry.createdAt).toLocaleString()}
+            </time>
+          </div>
+          <p className="text-xs text-gray-600 mb-2">
+            by {entry.actor?.name || 'System'}
+            {entry.actor?.email && ` (${entry.actor.email})`}
+            {entry.actor?.impersonatorId && ' during an admin "view as" session'}
+          </p>
+          {entry.reason && (
+            <p className="text-xs text-gray-700 mb-2">
+              <span className="font-medium">Reason:</span> {entry.reason}
+            </p>
+          )}
+          <AuditChangeList entry={entry} />
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default AuditHistory;
@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface AuditReasonFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string | null;
+  required?: boolean;
+  id?: string;
+}
+
+/**
+ * Reason input for privileged actions; the text is stored with the action in the audit log
+ */
+const AuditReasonField: React.FC<AuditReasonFieldProps> = ({
+  value,
+  onChange,
+  error,
+  required = true,
+  id = 'audit-reason',
+}) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+      Reason for this change{required ? ' *' : ' (optional)'}
+    </label>
+    <textarea
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      rows={2}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      placeholder="Recorded in the audit log"
+    />
+    {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+  </div>
+);
+
+export default AuditReasonField;
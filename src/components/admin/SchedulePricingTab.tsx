@@ -1,5 +1,12 @@
-import React from 'react';
-import { Plus, Trash2, Calendar, DollarSign, Users, Star, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { Plus, Trash2, Calendar, DollarSign, Users, Star, X, Repeat } from 'lucide-react';
+import RecurrenceBuilderModal from '../schedule/RecurrenceBuilderModal';
+import SeriesScheduleCard from '../schedule/SeriesScheduleCard';
+import TicketTypesEditor from '../schedule/TicketTypesEditor';
+import ReservedSeatingSettings from '../schedule/ReservedSeatingSettings';
+import type { EventTicketType, ScheduleRecurrenceRule } from '../../types/event';
+import type { EventSeatingSettings } from '../../types/seating';
+import { getTicketTypeId } from '../../utils/ticketTypeUtils';
 
 interface Schedule {
   id: string;
@@ -16,6 +23,8 @@ interface Schedule {
   specialDates?: string[];
   priority?: number;
   isOverride?: boolean;
+  seriesId?: string; // Set on rows generated by a repeating schedule
+  ticketPrices?: Record<string, string>; // Per-date ticket type prices; blank uses the ticket type's price
 }
 
 interface SchedulePricingTabProps {
@@ -24,12 +33,28 @@ interface SchedulePricingTabProps {
   capacity: string;
   basePrice: string; // Admin can set base price
   errors: Record<string, string>;
-  onScheduleChange: (index: number, field: keyof Schedule, value: string | boolean | string[] | number) => void;
+  onScheduleChange: (
+    index: number,
+    field: keyof Schedule,
+    value: string | boolean | string[] | number | Record<string, string>
+  ) => void;
   onAddSchedule: (isSpecialDate?: boolean) => void;
   onRemoveSchedule: (index: number) => void;
   onCurrencyChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
   onCapacityChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onBasePriceChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  // Repeating schedules; the builder is only offered when the page handles series
+  recurrenceRules?: ScheduleRecurrenceRule[];
+  onSaveSeries?: (rule: ScheduleRecurrenceRule) => void;
+  onRemoveSeries?: (seriesId: string) => void;
+  onRemoveOccurrence?: (index: number) => void;
+  onResetOccurrence?: (index: number) => void;
+  // Ticket types; the editor is only shown when the page handles them
+  ticketTypes?: EventTicketType[];
+  onTicketTypesChange?: (ticketTypes: EventTicketType[]) => void;
+  // Reserved seating at a venue with a seat map
+  seating?: EventSeatingSettings;
+  onSeatingChange?: (seating: EventSeatingSettings) => void;
 }
 
 const SchedulePricingTab: React.FC<SchedulePricingTabProps> = ({
@@ -44,7 +69,231 @@ const SchedulePricingTab: React.FC<SchedulePricingTabProps> = ({
   onCurrencyChange,
   onCapacityChange,
   onBasePriceChange,
+  recurrenceRules = [],
+  onSaveSeries,
+  onRemoveSeries,
+  onRemoveOccurrence,
+  onResetOccurrence,
+  ticketTypes = [],
+  onTicketTypesChange,
+  seating = { reservedSeating: false },
+  onSeatingChange,
 }) => {
+  const [isSeriesBuilderOpen, setIsSeriesBuilderOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<ScheduleRecurrenceRule | null>(null);
+  const seriesIds = new Set(recurrenceRules.map(({ id }) => id));
+
+  const openSeriesBuilder = (rule: ScheduleRecurrenceRule | null = null) => {
+    setEditingSeries(rule);
+    setIsSeriesBuilderOpen(true);
+  };
+
+  const renderScheduleFields = (schedule: Schedule, index: number) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Start Date */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {schedule.isSpecialDate ? 'Date Range Start (optional)' : 'Start Date'} {!schedule.isSpecialDate && <span className="text-red-500">*</span>}
+        </label>
+        <input
+          type="date"
+          value={schedule.startDate}
+          onChange={(e) => onScheduleChange(index, 'startDate', e.target.value)}
+          className={`w-full px-3 py-2 border ${
+            errors[`schedule_${index}_startDate`] ? 'border-red-500' : 'border-gray-300'
+          } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
+        />
+        {errors[`schedule_${index}_startDate`] && (
+          <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_startDate`]}</p>
+        )}
+      </div>
+
+      {/* End Date */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {schedule.isSpecialDate ? 'Date Range End (optional)' : 'End Date'} {!schedule.isSpecialDate && <span className="text-red-500">*</span>}
+        </label>
+        <input
+          type="date"
+          value={schedule.endDate}
+          onChange={(e) => onScheduleChange(index, 'endDate', e.target.value)}
+          className={`w-full px-3 py-2 border ${
+            errors[`schedule_${index}_endDate`] ? 'border-red-500' : 'border-gray-300'
+          } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
+        />
+        {errors[`schedule_${index}_endDate`] && (
+          <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_endDate`]}</p>
+        )}
+      </div>
+
+      {/* Start Time */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Start Time
+        </label>
+        <input
+          type="time"
+          value={schedule.startTime || ''}
+          onChange={(e) => onScheduleChange(index, 'startTime', e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      {/* End Time */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          End Time
+        </label>
+        <input
+          type="time"
+          value={schedule.endTime || ''}
+          onChange={(e) => onScheduleChange(index, 'endTime', e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      {/* Available Seats */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Available Seats <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="number"
+          value={schedule.unlimitedSeats ? '' : schedule.availableSeats}
+          onChange={(e) => onScheduleChange(index, 'availableSeats', e.target.value)}
+          min="1"
+          disabled={schedule.unlimitedSeats}
+          className={`w-full px-3 py-2 border ${
+            errors[`schedule_${index}_availableSeats`] ? 'border-red-500' : 'border-gray-300'
+          } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary ${
+            schedule.unlimitedSeats ? 'bg-gray-100 cursor-not-allowed' : ''
+          }`}
+          placeholder={schedule.unlimitedSeats ? 'Unlimited' : 'e.g. 30'}
+        />
+        {errors[`schedule_${index}_availableSeats`] && (
+          <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_availableSeats`]}</p>
+        )}
+
+        {/* Unlimited Capacity Checkbox */}
+        <div className="mt-2">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={schedule.unlimitedSeats || false}
+              onChange={(e) => onScheduleChange(index, 'unlimitedSeats', e.target.checked)}
+              className="mr-2 h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+            />
+            Unlimited Capacity (ideal for online events)
+          </label>
+        </div>
+
+        {/* Override Checkbox */}
+        {!schedule.seriesId && (
+          <div className="mt-2">
+            <label className="flex items-center text-sm text-gray-600" title="When checked, this schedule's price/seats will override base schedules for overlapping dates">
+              <input
+                type="checkbox"
+                checked={schedule.isOverride || false}
+                onChange={(e) => onScheduleChange(index, 'isOverride', e.target.checked)}
+                className="mr-2 h-4 w-4 text-amber-500 focus:ring-amber-500 border-gray-300 rounded"
+              />
+              Override (takes priority over other schedules for same dates)
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Price */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {schedule.isSpecialDate ? 'Special Price' : 'Price'} ({currency}) <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="number"
+          value={schedule.price}
+          onChange={(e) => onScheduleChange(index, 'price', e.target.value)}
+          min="0"
+          step="0.01"
+          className={`w-full px-3 py-2 border ${
+            errors[`schedule_${index}_price`] ? 'border-red-500' : 'border-gray-300'
+          } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
+          placeholder={schedule.isSpecialDate ? 'e.g. 35.00 (special pricing)' : 'e.g. 25.00'}
+        />
+        {errors[`schedule_${index}_price`] && (
+          <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_price`]}</p>
+        )}
+      </div>
+
+      {/* Total Seats (Admin-specific field) */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Total Seats (Capacity Tracking)
+        </label>
+        <input
+          type="number"
+          value={schedule.totalSeats || ''}
+          onChange={(e) => onScheduleChange(index, 'totalSeats', e.target.value)}
+          min="0"
+          disabled={schedule.unlimitedSeats}
+          className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary ${
+            schedule.unlimitedSeats ? 'bg-gray-100 cursor-not-allowed' : ''
+          }`}
+          placeholder="e.g. 50"
+        />
+        <p className="mt-1 text-xs text-gray-500">Total capacity for this schedule</p>
+      </div>
+
+      {/* Priority (Admin-specific field) */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Priority (Higher = More Important)
+        </label>
+        <input
+          type="number"
+          value={schedule.priority || 0}
+          onChange={(e) => onScheduleChange(index, 'priority', parseInt(e.target.value) || 0)}
+          min="0"
+          max="100"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+          placeholder="0 (default)"
+        />
+        <p className="mt-1 text-xs text-gray-500">Higher priority schedules take precedence</p>
+      </div>
+
+      {/* Per-date ticket type prices */}
+      {ticketTypes.length > 0 && (
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Ticket prices for these dates ({currency})
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {ticketTypes.map((ticketType) => {
+              const ticketTypeId = getTicketTypeId(ticketType);
+
+              return (
+                <div key={ticketTypeId} className="flex items-center gap-2">
+                  <span className="w-1/2 truncate text-sm text-gray-600">{ticketType.name || 'Unnamed ticket'}</span>
+                  <input
+                    type="number"
+                    value={schedule.ticketPrices?.[ticketTypeId] ?? ''}
+                    onChange={(e) =>
+                      onScheduleChange(index, 'ticketPrices', { ...schedule.ticketPrices, [ticketTypeId]: e.target.value })
+                    }
+                    min="0"
+                    step="0.01"
+                    className="w-1/2 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
+                    placeholder={String(ticketType.price)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Leave blank to use the ticket type's own price and tiers</p>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Basic Pricing Info */}
@@ -137,6 +386,16 @@ const SchedulePricingTab: React.FC<SchedulePricingTabProps> = ({
               <Star className="w-4 h-4 mr-2" />
               Add Special Dates
             </button>
+            {onSaveSeries && (
+              <button
+                type="button"
+                onClick={() => openSeriesBuilder()}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Repeat className="w-4 h-4 mr-2" />
+                Repeating Schedule
+              </button>
+            )}
           </div>
         </div>
 
@@ -160,7 +419,23 @@ const SchedulePricingTab: React.FC<SchedulePricingTabProps> = ({
           </div>
         ) : (
           <div className="space-y-4">
-            {schedules.map((schedule, index) => (
+            {recurrenceRules.map((rule) => (
+              <SeriesScheduleCard
+                key={rule.id}
+                rule={rule}
+                rows={schedules
+                  .map((schedule, index) => ({ schedule, index }))
+                  .filter(({ schedule }) => schedule.seriesId === rule.id)}
+                currency={currency}
+                onEditSeries={() => openSeriesBuilder(rule)}
+                onRemoveSeries={() => onRemoveSeries?.(rule.id)}
+                onEditOccurrence={(index) => onScheduleChange(index, 'isOverride', true)}
+                onResetOccurrence={(index) => onResetOccurrence?.(index)}
+                onRemoveOccurrence={(index) => onRemoveOccurrence?.(index)}
+                renderFields={renderScheduleFields}
+              />
+            ))}
+            {schedules.map((schedule, index) => seriesIds.has(schedule.seriesId || '') ? null : (
               <div
                 key={schedule.id}
                 className={`rounded-lg p-4 shadow-sm ${
@@ -252,180 +527,40 @@ const SchedulePricingTab: React.FC<SchedulePricingTabProps> = ({
                   </div>
                 )}
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {/* Start Date */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      {schedule.isSpecialDate ? 'Date Range Start (optional)' : 'Start Date'} {!schedule.isSpecialDate && <span className="text-red-500">*</span>}
-                    </label>
-                    <input
-                      type="date"
-                      value={schedule.startDate}
-                      onChange={(e) => onScheduleChange(index, 'startDate', e.target.value)}
-                      className={`w-full px-3 py-2 border ${
-                        errors[`schedule_${index}_startDate`] ? 'border-red-500' : 'border-gray-300'
-                      } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
-                    />
-                    {errors[`schedule_${index}_startDate`] && (
-                      <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_startDate`]}</p>
-                    )}
-                  </div>
-
-                  {/* End Date */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      {schedule.isSpecialDate ? 'Date Range End (optional)' : 'End Date'} {!schedule.isSpecialDate && <span className="text-red-500">*</span>}
-                    </label>
-                    <input
-                      type="date"
-                      value={schedule.endDate}
-                      onChange={(e) => onScheduleChange(index, 'endDate', e.target.value)}
-                      className={`w-full px-3 py-2 border ${
-                        errors[`schedule_${index}_endDate`] ? 'border-red-500' : 'border-gray-300'
-                      } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
-                    />
-                    {errors[`schedule_${index}_endDate`] && (
-                      <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_endDate`]}</p>
-                    )}
-                  </div>
-
-                  {/* Start Time */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Start Time
-                    </label>
-                    <input
-                      type="time"
-                      value={schedule.startTime || ''}
-                      onChange={(e) => onScheduleChange(index, 'startTime', e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
-                    />
-                  </div>
-
-                  {/* End Time */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      End Time
-                    </label>
-                    <input
-                      type="time"
-                      value={schedule.endTime || ''}
-                      onChange={(e) => onScheduleChange(index, 'endTime', e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
-                    />
-                  </div>
-
-                  {/* Available Seats */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Available Seats <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="number"
-                      value={schedule.unlimitedSeats ? '' : schedule.availableSeats}
-                      onChange={(e) => onScheduleChange(index, 'availableSeats', e.target.value)}
-                      min="1"
-                      disabled={schedule.unlimitedSeats}
-                      className={`w-full px-3 py-2 border ${
-                        errors[`schedule_${index}_availableSeats`] ? 'border-red-500' : 'border-gray-300'
-                      } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary ${
-                        schedule.unlimitedSeats ? 'bg-gray-100 cursor-not-allowed' : ''
-                      }`}
-                      placeholder={schedule.unlimitedSeats ? 'Unlimited' : 'e.g. 30'}
-                    />
-                    {errors[`schedule_${index}_availableSeats`] && (
-                      <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_availableSeats`]}</p>
-                    )}
-
-                    {/* Unlimited Capacity Checkbox */}
-                    <div className="mt-2">
-                      <label className="flex items-center text-sm text-gray-600">
-                        <input
-                          type="checkbox"
-                          checked={schedule.unlimitedSeats || false}
-                          onChange={(e) => onScheduleChange(index, 'unlimitedSeats', e.target.checked)}
-                          className="mr-2 h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
-                        />
-                        Unlimited Capacity (ideal for online events)
-                      </label>
-                    </div>
-
-                    {/* Override Checkbox */}
-                    <div className="mt-2">
-                      <label className="flex items-center text-sm text-gray-600" title="When checked, this schedule's price/seats will override base schedules for overlapping dates">
-                        <input
-                          type="checkbox"
-                          checked={schedule.isOverride || false}
-                          onChange={(e) => onScheduleChange(index, 'isOverride', e.target.checked)}
-                          className="mr-2 h-4 w-4 text-amber-500 focus:ring-amber-500 border-gray-300 rounded"
-                        />
-                        Override (takes priority over other schedules for same dates)
-                      </label>
-                    </div>
-                  </div>
-
-                  {/* Price */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      {schedule.isSpecialDate ? 'Special Price' : 'Price'} ({currency}) <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="number"
-                      value={schedule.price}
-                      onChange={(e) => onScheduleChange(index, 'price', e.target.value)}
-                      min="0"
-                      step="0.01"
-                      className={`w-full px-3 py-2 border ${
-                        errors[`schedule_${index}_price`] ? 'border-red-500' : 'border-gray-300'
-                      } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
-                      placeholder={schedule.isSpecialDate ? 'e.g. 35.00 (special pricing)' : 'e.g. 25.00'}
-                    />
-                    {errors[`schedule_${index}_price`] && (
-                      <p className="mt-1 text-sm text-red-500">{errors[`schedule_${index}_price`]}</p>
-                    )}
-                  </div>
-
-                  {/* Total Seats (Admin-specific field) */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Total Seats (Capacity Tracking)
-                    </label>
-                    <input
-                      type="number"
-                      value={schedule.totalSeats || ''}
-                      onChange={(e) => onScheduleChange(index, 'totalSeats', e.target.value)}
-                      min="0"
-                      disabled={schedule.unlimitedSeats}
-                      className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary ${
-                        schedule.unlimitedSeats ? 'bg-gray-100 cursor-not-allowed' : ''
-                      }`}
-                      placeholder="e.g. 50"
-                    />
-                    <p className="mt-1 text-xs text-gray-500">Total capacity for this schedule</p>
-                  </div>
-
-                  {/* Priority (Admin-specific field) */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Priority (Higher = More Important)
-                    </label>
-                    <input
-                      type="number"
-                      value={schedule.priority || 0}
-                      onChange={(e) => onScheduleChange(index, 'priority', parseInt(e.target.value) || 0)}
-                      min="0"
-                      max="100"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary"
-                      placeholder="0 (default)"
-                    />
-                    <p className="mt-1 text-xs text-gray-500">Higher priority schedules take precedence</p>
-                  </div>
-                </div>
+                {renderScheduleFields(schedule, index)}
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {onTicketTypesChange && (
+        <TicketTypesEditor
+          ticketTypes={ticketTypes}
+          currency={currency}
+          errors={errors}
+          onChange={onTicketTypesChange}
+        />
+      )}
+
+      {onSeatingChange && (
+        <ReservedSeatingSettings settings={seating} errors={errors} onChange={onSeatingChange} />
+      )}
+
+      {onSaveSeries && (
+        <RecurrenceBuilderModal
+          isOpen={isSeriesBuilderOpen}
+          rule={editingSeries}
+          currency={currency}
+          defaultSeats={capacity}
+          defaultPrice={basePrice}
+          onClose={() => setIsSeriesBuilderOpen(false)}
+          onSave={(rule) => {
+            onSaveSeries(rule);
+            setIsSeriesBuilderOpen(false);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,262 @@
+import React from 'react';
+import { Armchair, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import Input from '../ui/Input';
+import type { VenueSeatMap, VenueSeatSection } from '../../types/seating';
+import {
+  createSeatMap,
+  createSeatSection,
+  getSeatMapBounds,
+  getSeatMapCapacity,
+  SEAT_SIZE,
+  toggleAccessibleSeat,
+  updateSeatSection,
+} from '../../utils/seatMapUtils';
+
+interface SeatMapEditorProps {
+  seatMap: VenueSeatMap | null;
+  errors: Record<string, string>;
+  onChange: (seatMap: VenueSeatMap | null) => void;
+}
+
+const ACCESSIBLE_COLOR = '#8b5cf6';
+
+/**
+ * Venue seat map: sections of rows laid out on a plan, with a live preview where
+ * clicking a seat marks it as accessible
+ */
+const SeatMapEditor: React.FC<SeatMapEditorProps> = ({ seatMap, errors, onChange }) => {
+  const updateSection = (index: number, changes: Partial<Omit<VenueSeatSection, 'seats' | 'id'>>) => {
+    if (!seatMap) return;
+    onChange({
+      ...seatMap,
+      sections: seatMap.sections.map((section, i) => (i === index ? updateSeatSection(section, changes) : section)),
+    });
+  };
+
+  const handleSeatClick = (sectionIndex: number, seatId: string) => {
+    if (!seatMap) return;
+    onChange({
+      ...seatMap,
+      sections: seatMap.sections.map((section, i) =>
+        i === sectionIndex ? toggleAccessibleSeat(section, seatId) : section
+      ),
+    });
+  };
+
+  const addSection = () => {
+    const base = seatMap || createSeatMap();
+    onChange({ ...base, sections: [...base.sections, createSeatSection(base)] });
+  };
+
+  const fieldError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-sm text-red-600">{errors[key]}</p> : null;
+
+  const numberValue = (value: string) => (value === '' ? 0 : Number(value));
+
+  const bounds = seatMap ? getSeatMapBounds(seatMap) : { width: 800, height: 600 };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Armchair className="w-5 h-5 mr-2" />
+          Seat Map
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-gray-900">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={!!seatMap}
+            onChange={(e) => {
+              if (e.target.checked) {
+                const map = createSeatMap();
+                onChange({ ...map, sections: [createSeatSection(map)] });
+              } else if (window.confirm('Remove the seat map? Events using reserved seating at this venue will fall back to general admission.')) {
+                onChange(null);
+              }
+            }}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className="ml-2 text-sm text-gray-700">
+            This venue has reserved seating
+          </span>
+        </label>
+
+        {seatMap && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Stage label</label>
+                <Input
+                  value={seatMap.stageLabel || ''}
+                  onChange={(e) => onChange({ ...seatMap, stageLabel: e.target.value })}
+                  placeholder="STAGE"
+                />
+              </div>
+              <div className="flex items-end text-sm text-gray-600">
+                {seatMap.sections.length} sections · {getSeatMapCapacity(seatMap)} seats
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {seatMap.sections.map((section, index) => {
+                const key = (field: string) => `seatSection_${index}_${field}`;
+
+                return (
+                  <div key={section.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-sm font-medium text-gray-900">
+                        {section.name || `Section ${index + 1}`} ({section.seats.length} seats)
+                      </h4>
+                      <button
+                        type="button"
+                        onClick={() => onChange({ ...seatMap, sections: seatMap.sections.filter((_, i) => i !== index) })}
+                        className="text-red-600 hover:text-red-700"
+                        title="Remove section"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      <div className="col-span-2">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                        <Input
+                          value={section.name}
+                          onChange={(e) => updateSection(index, { name: e.target.value })}
+                          placeholder="e.g. Stalls"
+                          error={errors[key('name')]}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Seat type</label>
+                        <select
+                          value={section.type}
+                          onChange={(e) => updateSection(index, { type: e.target.value as VenueSeatSection['type'] })}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        >
+                          <option value="standard">Standard</option>
+                          <option value="premium">Premium</option>
+                          <option value="vip">VIP</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Colour</label>
+                        <input
+                          type="color"
+                          value={section.color}
+                          onChange={(e) => updateSection(index, { color: e.target.value })}
+                          className="h-10 w-full border border-gray-300 rounded-md"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">First row</label>
+                        <Input
+                          value={section.rowStart}
+                          onChange={(e) => updateSection(index, { rowStart: e.target.value })}
+                          placeholder="A"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Rows</label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={section.rows}
+                          onChange={(e) => updateSection(index, { rows: numberValue(e.target.value) })}
+                          error={errors[key('rows')]}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Seats per row</label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={section.seatsPerRow}
+                          onChange={(e) => updateSection(index, { seatsPerRow: numberValue(e.target.value) })}
+                          error={errors[key('seatsPerRow')]}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">X</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={section.x}
+                            onChange={(e) => updateSection(index, { x: numberValue(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Y</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={section.y}
+                            onChange={(e) => updateSection(index, { y: numberValue(e.target.value) })}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                    {fieldError(key('rowStart'))}
+                    {fieldError(key('position'))}
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              type="button"
+              onClick={addSection}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Section
+            </button>
+
+            {/* Preview */}
+            <div>
+              <p className="text-xs text-gray-500 mb-2">
+                Preview. Click a seat to mark it as accessible.
+              </p>
+              <div className="border rounded-lg overflow-auto bg-gray-50" style={{ maxHeight: '420px' }}>
+                <svg width={bounds.width} height={bounds.height} viewBox={`0 0 ${bounds.width} ${bounds.height}`}>
+                  <rect x={bounds.width / 2 - 100} y={50} width={200} height={30} fill="#4b5563" rx={5} />
+                  <text x={bounds.width / 2} y={70} textAnchor="middle" fill="white" fontSize="14" fontWeight="bold">
+                    {seatMap.stageLabel || 'STAGE'}
+                  </text>
+                  {seatMap.sections.map((section, sectionIndex) => (
+                    <g key={section.id}>
+                      <text x={section.x} y={section.y - 6} fill="#374151" fontSize="12" fontWeight="bold">
+                        {section.name}
+                      </text>
+                      {section.seats.map((seat) => (
+                        <rect
+                          key={seat.id}
+                          x={seat.x}
+                          y={seat.y}
+                          width={SEAT_SIZE}
+                          height={SEAT_SIZE}
+                          rx={3}
+                          fill={seat.type === 'accessible' ? ACCESSIBLE_COLOR : section.color}
+                          className="cursor-pointer hover:opacity-70"
+                          onClick={() => handleSeatClick(sectionIndex, seat.id)}
+                        >
+                          <title>{seat.id}</title>
+                        </rect>
+                      ))}
+                    </g>
+                  ))}
+                </svg>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeatMapEditor;
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { lazy, Suspense } from 'react';
 import { X, MapPin, Users, Calendar, Phone, Mail, Globe, DollarSign, Shield, Star, Edit, Trash2, CheckCircle, XCircle } from 'lucide-react';
 import { format } from 'date-fns';
+import { isValidCoordinates } from '../../utils/mapUtils';
+
+const LocationMap = lazy(() => import('../map/LocationMap'));
 
 interface Venue {
   id: string;
@@ -181,6 +184,16 @@ const VenueDetailsModal: React.FC<VenueDetailsModalProps> = ({
                       Coordinates: {venue.coordinates.lat}, {venue.coordinates.lng}
                     </p>
                   )}
+                  {isValidCoordinates(venue.coordinates) && (
+                    <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+                      <LocationMap
+                        position={venue.coordinates}
+                        title={venue.name}
+                        address={[venue.address.street, venue.address.city].filter(Boolean).join(', ')}
+                        className="h-48 mt-2"
+                      />
+                    </Suspense>
+                  )}
                 </div>
               </div>
 
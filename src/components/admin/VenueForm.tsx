@@ -9,6 +9,9 @@ import Input from '../ui/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import ImageUpload from '../ui/ImageUpload';
 import adminAPI from '../../services/api/adminAPI';
+import SeatMapEditor from './SeatMapEditor';
+import type { VenueSeatMap } from '../../types/seating';
+import { finalizeSeatMap, validateSeatMap } from '../../utils/seatMapUtils';
 
 // Validation schema
 const venueSchema = yup.object().shape({
@@ -95,6 +98,8 @@ const VenueForm: React.FC<VenueFormProps> = ({
   const [safetyFeatures, setSafetyFeatures] = useState<string[]>(venue?.safetyFeatures || []);
   const [certifications, setCertifications] = useState<string[]>(venue?.certifications || []);
   const [images, setImages] = useState<string[]>(venue?.images || []);
+  const [seatMap, setSeatMap] = useState<VenueSeatMap | null>(venue?.seatMap?.sections?.length ? venue.seatMap : null);
+  const [seatMapErrors, setSeatMapErrors] = useState<Record<string, string>>({});
   const [newItem, setNewItem] = useState({ facilities: '', amenities: '', safetyFeatures: '', certifications: '' });
 
   const daysOfWeek = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
@@ -186,6 +191,13 @@ const VenueForm: React.FC<VenueFormProps> = ({
   };
 
   const handleFormSubmit = async (data: any) => {
+    const nextSeatMapErrors = seatMap ? validateSeatMap(seatMap) : {};
+    setSeatMapErrors(nextSeatMapErrors);
+    if (Object.keys(nextSeatMapErrors).length > 0) {
+      toast.error('Please fix the seat map errors');
+      return;
+    }
+
     try {
       const submitData = {
         ...data,
@@ -193,7 +205,8 @@ const VenueForm: React.FC<VenueFormProps> = ({
         amenities,
         safetyFeatures,
         certifications,
-        images
+        images,
+        seatMap: seatMap ? finalizeSeatMap(seatMap) : null
       };
 
       await onSubmit(submitData);
@@ -987,6 +1000,9 @@ const VenueForm: React.FC<VenueFormProps> = ({
         </CardContent>
       </Card>
 
+      {/* Seat Map */}
+      <SeatMapEditor seatMap={seatMap} errors={seatMapErrors} onChange={setSeatMap} />
+
       {/* Images */}
       <Card>
         <CardHeader>
@@ -1,21 +1,28 @@
 import React from 'react';
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '@/store';
 import LoadingSpinner from '../common/LoadingSpinner';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Permission } from '@/types/permission';
 
 interface AdminRouteProps {
   children?: React.ReactNode;
   redirectPath?: string;
+  // Any one of these opens the route; by default the permission mapped to the current admin path
+  permission?: Permission | Permission[];
 }
 
 const AdminRoute: React.FC<AdminRouteProps> = ({
   children,
   redirectPath = '/login',
+  permission,
 }) => {
+  const location = useLocation();
   const { isAuthenticated, isInitialized, user, loading } = useSelector(
     (state: RootState) => state.auth
   );
+  const { permissions, hasAnyPermission, canAccessAdminPath, getDefaultAdminPath } = usePermissions();
 
   // Wait for auth initialization before making routing decisions
   if (!isInitialized || loading) {
@@ -26,10 +33,24 @@ const AdminRoute: React.FC<AdminRouteProps> = ({
     );
   }
 
-  if (!isAuthenticated || !user || user.role !== 'admin') {
+  if (!isAuthenticated || !user) {
     return <Navigate to={redirectPath} replace />;
   }
 
+  // Signed in, but the assigned role grants no admin section
+  if (permissions.length === 0) {
+    return <Navigate to="/" replace />;
+  }
+
+  const isAllowed = permission
+    ? hasAnyPermission(Array.isArray(permission) ? permission : [permission])
+    : canAccessAdminPath(location.pathname);
+
+  if (!isAllowed) {
+    // Staff with a limited role land on the first section they can open
+    return <Navigate to={getDefaultAdminPath() || '/'} replace />;
+  }
+
   return children ? <>{children}</> : <Outlet />;
 };
 
@@ -2,6 +2,7 @@ import React from 'react';
 import { Navigate, Outlet } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
 import LoadingSpinner from '../common/LoadingSpinner';
 
 interface EmployeeRouteProps {
@@ -16,6 +17,7 @@ const EmployeeRoute: React.FC<EmployeeRouteProps> = ({
   const { isAuthenticated, isInitialized, user, loading } = useSelector(
     (state: RootState) => state.auth
   );
+  const { hasPermission } = usePermissions();
 
   // Wait for auth initialization before making routing decisions
   if (!isInitialized || loading) {
@@ -26,8 +28,8 @@ const EmployeeRoute: React.FC<EmployeeRouteProps> = ({
     );
   }
 
-  // Check if user is authenticated and has employee role
-  if (!isAuthenticated || !user || (user.role !== 'employee' && user.role !== 'admin')) {
+  // Employees get in by role; admins need the employee management permission
+  if (!isAuthenticated || !user || (user.role !== 'employee' && !hasPermission('employees.manage'))) {
     return <Navigate to={redirectPath} replace />;
   }
 
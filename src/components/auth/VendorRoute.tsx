@@ -2,18 +2,23 @@ import React from 'react';
 import { Navigate, Outlet } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { StaffPermission } from '@/types/permission';
 import LoadingSpinner from '../common/LoadingSpinner';
 
 interface VendorRouteProps {
   children?: React.ReactNode;
   redirectPath?: string;
+  staffPermission?: StaffPermission; // Also lets in vendor staff who hold this permission
 }
 
 const VendorRoute: React.FC<VendorRouteProps> = ({
   children,
   redirectPath = '/login',
+  staffPermission,
 }) => {
   const { isAuthenticated, isInitialized, user, loading } = useSelector((state: RootState) => state.auth);
+  const { hasStaffPermission } = usePermissions();
 
   // Wait for auth initialization before making routing decisions
   if (!isInitialized || loading) {
@@ -25,10 +30,15 @@ const VendorRoute: React.FC<VendorRouteProps> = ({
   }
 
   // Check if user is authenticated and has vendor role
-  if (!isAuthenticated || !user || user.role !== 'vendor') {
+  if (!isAuthenticated || !user) {
     return <Navigate to={redirectPath} replace />;
   }
 
+  const isAllowedStaff = user.role === 'employee' && !!staffPermission && hasStaffPermission(staffPermission);
+  if (user.role !== 'vendor' && !isAllowedStaff) {
+    return <Navigate to={user.role === 'employee' ? '/employee' : redirectPath} replace />;
+  }
+
   return children ? <>{children}</> : <Outlet />;
 };
 
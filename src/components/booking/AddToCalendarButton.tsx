@@ -0,0 +1,47 @@
+import React from 'react';
+import { toast } from 'react-hot-toast';
+import { CalendarPlus } from 'lucide-react';
+
+import { getDefaultTimezone } from '../../utils/dateUtils';
+import {
+  buildICalendar,
+  CalendarEvent,
+  downloadCalendarFile,
+  getCalendarFileName,
+} from '../../utils/icalUtils';
+
+interface AddToCalendarButtonProps {
+  events: CalendarEvent[];
+  fileName?: string;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Downloads an .ics file for a booking, in the venue's timezone
+ */
+const AddToCalendarButton: React.FC<AddToCalendarButtonProps> = ({
+  events,
+  fileName,
+  label = 'Add to Calendar',
+  className = 'w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors',
+}) => {
+  const handleClick = () => {
+    if (events.length === 0) {
+      toast.error('This booking has no date to add yet');
+      return;
+    }
+
+    const ics = buildICalendar(events, { timezone: getDefaultTimezone() });
+    downloadCalendarFile(fileName || getCalendarFileName(events[0].title), ics);
+  };
+
+  return (
+    <button type="button" onClick={handleClick} className={className}>
+      <CalendarPlus className="w-4 h-4 mr-2" />
+      {label}
+    </button>
+  );
+};
+
+export default AddToCalendarButton;
@@ -12,7 +12,9 @@ import {
   Share2,
   Clock,
   Star,
-  QrCode
+  QrCode,
+  Armchair,
+  CalendarPlus
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -27,7 +29,17 @@ import Button from '../ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import Badge from '../ui/Badge';
 import QRCodeModal from './QRCodeModal';
+import TicketBreakdown from './TicketBreakdown';
 import { generateBookingQRWithEventData, extractEventDates } from '../../utils/qrcode.utils';
+import { buildTicketLines, getTicketLinesTotal } from '../../utils/ticketTypeUtils';
+import { formatSeatList } from '../../utils/seatMapUtils';
+import { getDefaultTimezone } from '../../utils/dateUtils';
+import {
+  buildBookingCalendarEvent,
+  buildICalendar,
+  downloadCalendarFile,
+  getCalendarFileName,
+} from '../../utils/icalUtils';
 
 interface BookingConfirmationProps {
   event: Event;
@@ -64,8 +76,15 @@ const BookingConfirmation: React.FC<BookingConfirmationProps> = ({
   // QR Code modal state
   const [showQRModal, setShowQRModal] = useState(false);
 
+  const bookedSchedule = event.dateSchedule?.find(schedule => schedule._id === bookingFlow.scheduleId);
+
   // Calculate totals
-  const subtotal = event.price * participants.length;
+  const ticketLines = buildTicketLines(
+    event.ticketTypes || [],
+    bookingFlow.ticketSelection || {},
+    bookedSchedule
+  );
+  const subtotal = ticketLines.length > 0 ? getTicketLinesTotal(ticketLines) : event.price * participants.length;
   const discount = bookingFlow.couponCode ? subtotal * 0.1 : 0;
   const serviceFee = subtotal * 0.05;
   const tax = (subtotal - discount + serviceFee) * 0.05;
@@ -98,6 +117,27 @@ const BookingConfirmation: React.FC<BookingConfirmationProps> = ({
     // In real app, this would trigger actual file download
   };
 
+  // Handle calendar export for the booked date
+  const handleAddToCalendar = () => {
+    const calendarEvent = buildBookingCalendarEvent({
+      id: bookingData.bookingId,
+      title: event.title,
+      schedule: bookedSchedule || event.dateSchedule?.[0],
+      location: event.location,
+      description: `Booking ${bookingData.bookingId} for ${participants.length} participant${participants.length === 1 ? '' : 's'}`,
+      url: `${window.location.origin}/events/${event._id}`,
+    });
+
+    if (!calendarEvent) {
+      toast.error('This booking has no date to add yet');
+      return;
+    }
+    downloadCalendarFile(
+      getCalendarFileName(event.title),
+      buildICalendar([calendarEvent], { timezone: getDefaultTimezone() })
+    );
+  };
+
   // Handle email resend
   const handleResendEmail = () => {
     toast.success('Confirmation email sent to all participants');
@@ -123,7 +163,7 @@ const BookingConfirmation: React.FC<BookingConfirmationProps> = ({
       </div>
 
       {/* Quick Actions */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Button
           variant="primary"
           onClick={handleDownloadTickets}
@@ -149,6 +189,14 @@ const BookingConfirmation: React.FC<BookingConfirmationProps> = ({
         >
           Share Event
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleAddToCalendar}
+          leftIcon={<CalendarPlus className="w-4 h-4" />}
+          fullWidth
+        >
+          Add to Calendar
+        </Button>
       </div>
 
 
@@ -230,6 +278,12 @@ const BookingConfirmation: React.FC<BookingConfirmationProps> = ({
                   <Users className="w-4 h-4 mr-2 text-gray-500" />
                   <span>{participants.length} participant{participants.length !== 1 ? 's' : ''}</span>
                 </div>
+                {bookingFlow.seatIds?.length > 0 && (
+                  <div className="flex items-center">
+                    <Armchair className="w-4 h-4 mr-2 text-gray-500" />
+                    <span>Seats {formatSeatList(bookingFlow.seatIds)}</span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -238,9 +292,14 @@ const BookingConfirmation: React.FC<BookingConfirmationProps> = ({
               <h4 className="font-semibold">Payment Details</h4>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>Subtotal ({participants.length} × {event.currency} {event.price})</span>
+                  <span>
+                    {ticketLines.length > 0
+                      ? `Subtotal (${participants.length} tickets)`
+                      : `Subtotal (${participants.length} × ${event.currency} ${event.price})`}
+                  </span>
                   <span>{event.currency} {subtotal.toFixed(2)}</span>
                 </div>
+                {ticketLines.length > 0 && <TicketBreakdown lines={ticketLines} currency={event.currency} className="ps-3" />}
                 {discount > 0 && (
                   <div className="flex justify-between text-green-600">
                     <span>Discount ({bookingFlow.couponCode})</span>
@@ -1,18 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { format, parseISO, isValid } from 'date-fns';
-import { Calendar, Clock, MapPin, Users, Plus, Minus, Tag, Loader2, Sparkles, Gift, TrendingUp, X, Star, Check, ChevronRight, Ticket, DollarSign } from 'lucide-react';
+import { Calendar, Clock, MapPin, Users, Plus, Minus, Tag, Loader2, Sparkles, Gift, TrendingUp, X, Star, Check, ChevronRight, Ticket, DollarSign, Armchair } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 import { AppDispatch } from '../../store';
-import { setBookingParticipants, addParticipant, setCouponCode, setBookingSchedule, selectBookingFlow } from '../../store/slices/bookingsSlice';
+import { setBookingParticipants, addParticipant, setCouponCode, setCouponDiscount, setBookingSchedule, setBookingTicketSelection, setBookingSeats, selectBookingFlow } from '../../store/slices/bookingsSlice';
+import { getCouponPricingDiscount } from '../../utils/couponUtils';
 import { Event, EventDateSchedule } from '../../types/event';
 import couponAPI, { CouponValidation } from '../../services/api/couponAPI';
+import {
+  buildTicketLines,
+  expandTicketSelection,
+  getSelectionQuantity,
+  getTicketLinesTotal,
+  getTicketTypePrice,
+  MAX_TICKETS_PER_BOOKING,
+  TicketSelection,
+  validateTicketSelection,
+} from '../../utils/ticketTypeUtils';
 
 import Button from '../ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import EventDatePicker from '../ui/EventDatePicker';
 import Badge from '../ui/Badge';
+import TicketTypeSelector from './TicketTypeSelector';
+import TicketBreakdown from './TicketBreakdown';
+import BookingSeat from '../business/BookingSeat';
+import type { BookableSeat } from '../../types/seating';
+import { formatSeatList } from '../../utils/seatMapUtils';
 
 interface BookingDetailsProps {
   event: Event;
@@ -22,6 +38,7 @@ interface BookingDetailsProps {
     schedule?: EventDateSchedule;
     totalPrice?: string;
     currency?: string;
+    ticketSelection?: TicketSelection;
   } | null;
   onNext: () => void;
 }
@@ -63,12 +80,51 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
     initialData?.schedule || null
   );
   const [quantity, setQuantity] = useState(initialData?.quantity || 1);
+  const [ticketSelection, setTicketSelection] = useState<TicketSelection>(
+    () => initialData?.ticketSelection || bookingFlow.ticketSelection || {}
+  );
   const [couponCode, setCouponCodeLocal] = useState(bookingFlow.couponCode || '');
   const [couponError, setCouponError] = useState<string | null>(null);
   const [appliedDiscount, setAppliedDiscount] = useState<number>(0);
   const [isValidatingCoupon, setIsValidatingCoupon] = useState(false);
   const [validatedCoupon, setValidatedCoupon] = useState<CouponValidation | null>(null);
 
+  // Seats held by a waitlist offer aren't counted in availableSeats, but they're this family's to book
+  const waitlistClaim = bookingFlow.waitlistClaim;
+  const claimedSeats =
+    waitlistClaim && selectedSchedule && waitlistClaim.dateScheduleId === (selectedSchedule._id || selectedSchedule.id)
+      ? waitlistClaim.seats
+      : 0;
+  const seatsAvailable = (selectedSchedule?.availableSeats || 0) + claimedSeats;
+
+  // Events with ticket types are booked per type; others keep the single quantity counter
+  const ticketTypes = event.ticketTypes || [];
+  const usesTicketTypes = ticketTypes.length > 0;
+  const ticketLines = usesTicketTypes ? buildTicketLines(ticketTypes, ticketSelection, selectedSchedule) : [];
+  const seatCount = usesTicketTypes ? getSelectionQuantity(ticketSelection) : quantity;
+
+  // Reserved seating: one picked seat per ticket, for the chosen date
+  const selectedScheduleId = selectedSchedule?._id || selectedSchedule?.id;
+  const usesSeatMap = !!event.reservedSeating && !!event.venueId;
+  const previousScheduleId = useRef(selectedScheduleId);
+
+  useEffect(() => {
+    // Seats belong to one date; a different date starts a fresh pick
+    if (previousScheduleId.current !== selectedScheduleId) {
+      previousScheduleId.current = selectedScheduleId;
+      dispatch(setBookingSeats([]));
+    }
+  }, [selectedScheduleId, dispatch]);
+
+  const handleSeatsSelected = useCallback(
+    (seats: BookableSeat[]) => dispatch(setBookingSeats(seats.map((seat) => seat.id))),
+    [dispatch]
+  );
+
+  // Order amount before service fee and tax
+  const getSubtotal = () =>
+    usesTicketTypes ? getTicketLinesTotal(ticketLines) : (selectedSchedule?.price || event.price) * quantity;
+
   // Initialize schedule from initialData if available
   useEffect(() => {
     if (initialData?.schedule && (initialData.schedule._id || initialData.schedule.id)) {
@@ -77,10 +133,17 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
     }
   }, [initialData?.schedule, dispatch]);
 
-  // Initialize participants based on quantity
   useEffect(() => {
-    if (quantity !== bookingFlow.participants.length) {
-      const participants = Array.from({ length: quantity }, (_, index) => ({
+    dispatch(setBookingTicketSelection(usesTicketTypes ? ticketSelection : {}));
+  }, [usesTicketTypes, ticketSelection, dispatch]);
+
+  // Initialize participants based on quantity, each holding one ticket type when the event has them
+  useEffect(() => {
+    const seatTypes = usesTicketTypes ? expandTicketSelection(ticketTypes, ticketSelection) : [];
+    const typesChanged = seatTypes.some((ticketTypeId, index) => bookingFlow.participants[index]?.ticketTypeId !== ticketTypeId);
+
+    if (seatCount !== bookingFlow.participants.length || typesChanged) {
+      const participants = Array.from({ length: seatCount }, (_, index) => ({
         id: `participant-${index + 1}`,
         name: '',
         email: '',
@@ -90,10 +153,11 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
         emergencyContact: undefined,
         specialRequirements: '',
         dietaryRestrictions: [],
+        ticketTypeId: seatTypes[index],
       }));
       dispatch(setBookingParticipants(participants));
     }
-  }, [quantity, dispatch, bookingFlow.participants.length]);
+  }, [seatCount, ticketSelection, dispatch, bookingFlow.participants.length]);
 
   // Handle date selection with safe date parsing
   const handleDateSelect = (date: Date) => {
@@ -124,7 +188,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
   // Handle quantity change
   const handleQuantityChange = (newQuantity: number) => {
     // For unlimited seats, use 100 as reasonable max for UI, otherwise use availableSeats
-    const maxSeats = selectedSchedule?.unlimitedSeats ? 100 : (selectedSchedule?.availableSeats || 10);
+    const maxSeats = selectedSchedule?.unlimitedSeats ? 100 : (seatsAvailable || 10);
     if (newQuantity < 1) return;
     if (newQuantity > maxSeats && !selectedSchedule?.unlimitedSeats) {
       toast.error(`Only ${maxSeats} seats available for this date`);
@@ -146,8 +210,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
     }
 
     // Calculate current order amount (subtotal before service fee and tax)
-    const basePrice = selectedSchedule?.price || event.price;
-    const orderAmount = basePrice * quantity;
+    const orderAmount = getSubtotal();
 
     setIsValidatingCoupon(true);
     setCouponError(null);
@@ -174,6 +237,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
         setValidatedCoupon(validationData);
         setAppliedDiscount(validationData.discountAmount);
         dispatch(setCouponCode(validationData.coupon.code));
+        dispatch(setCouponDiscount(getCouponPricingDiscount(validationData.coupon)));
         setCouponError(null);
 
         // Special handling for free_shipping type
@@ -194,6 +258,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
         setAppliedDiscount(0);
         setValidatedCoupon(null);
         dispatch(setCouponCode(''));
+        dispatch(setCouponDiscount(null));
       }
     } catch (error: any) {
       // Handle specific validation errors from backend
@@ -222,6 +287,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
       setAppliedDiscount(0);
       setValidatedCoupon(null);
       dispatch(setCouponCode(''));
+      dispatch(setCouponDiscount(null));
       toast.error(errorMessage);
     } finally {
       setIsValidatingCoupon(false);
@@ -234,6 +300,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
     setAppliedDiscount(0);
     setValidatedCoupon(null);
     dispatch(setCouponCode(''));
+    dispatch(setCouponDiscount(null));
     toast.success('Coupon removed');
   };
 
@@ -243,8 +310,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
     setCouponError(null);
 
     // Calculate current order amount (subtotal before service fee and tax)
-    const basePrice = selectedSchedule?.price || event.price;
-    const orderAmount = basePrice * quantity;
+    const orderAmount = getSubtotal();
 
     setIsValidatingCoupon(true);
 
@@ -261,6 +327,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
         setValidatedCoupon(validationData);
         setAppliedDiscount(validationData.discountAmount);
         dispatch(setCouponCode(validationData.coupon.code));
+        dispatch(setCouponDiscount(getCouponPricingDiscount(validationData.coupon)));
         setCouponError(null);
         toast.success(
           `${validationData.coupon.name} applied! Saved ${event.currency} ${validationData.discountAmount.toFixed(2)}`
@@ -270,6 +337,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
         setAppliedDiscount(0);
         setValidatedCoupon(null);
         dispatch(setCouponCode(''));
+        dispatch(setCouponDiscount(null));
       }
     } catch (error: any) {
       let errorMessage = 'Invalid coupon code';
@@ -293,6 +361,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
       setAppliedDiscount(0);
       setValidatedCoupon(null);
       dispatch(setCouponCode(''));
+      dispatch(setCouponDiscount(null));
       toast.error(errorMessage);
     } finally {
       setIsValidatingCoupon(false);
@@ -301,8 +370,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
 
   // Calculate total price with backend-validated discount
   const calculateTotal = () => {
-    const basePrice = selectedSchedule?.price || event.price;
-    const subtotal = basePrice * quantity;
+    const subtotal = getSubtotal();
     // Use discount amount directly from backend validation (not percentage calculation)
     const discountAmount = appliedDiscount || 0;
     const total = Math.max(0, subtotal - discountAmount);
@@ -312,7 +380,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
   const { subtotal, discountAmount, total } = calculateTotal();
 
   // Check if can proceed to next step
-  const canProceed = selectedDate && selectedSchedule && quantity > 0;
+  const canProceed = selectedDate && selectedSchedule && seatCount > 0;
 
   const handleNext = () => {
     if (!canProceed) {
@@ -321,8 +389,26 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
     }
 
     // Skip seat validation for unlimited seats
-    if (selectedSchedule && !selectedSchedule.unlimitedSeats && quantity > selectedSchedule.availableSeats) {
-      toast.error(`Only ${selectedSchedule.availableSeats} seats available for this date`);
+    if (selectedSchedule && !selectedSchedule.unlimitedSeats && seatCount > seatsAvailable) {
+      toast.error(`Only ${seatsAvailable} seats available for this date`);
+      return;
+    }
+
+    if (usesTicketTypes) {
+      const ticketError = validateTicketSelection(
+        ticketTypes,
+        ticketSelection,
+        selectedSchedule && { ...selectedSchedule, availableSeats: seatsAvailable },
+        MAX_TICKETS_PER_BOOKING
+      );
+      if (ticketError) {
+        toast.error(ticketError);
+        return;
+      }
+    }
+
+    if (usesSeatMap && bookingFlow.seatIds.length !== seatCount) {
+      toast.error(`Please choose ${seatCount} ${seatCount === 1 ? 'seat' : 'seats'} on the seat map`);
       return;
     }
 
@@ -419,6 +505,16 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
             onDateSelect={handleDateSelect}
           />
 
+          {waitlistClaim && claimedSeats > 0 && (
+            <div className="mt-4 flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+              <Clock className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {claimedSeats} {claimedSeats === 1 ? 'seat is' : 'seats are'} held for you from the waitlist until{' '}
+                <strong>{formatSafeDate(waitlistClaim.expiresAt, 'PPp')}</strong>
+              </span>
+            </div>
+          )}
+
           {selectedSchedule && (
             <div className="mt-6 relative overflow-hidden rounded-xl border-2 border-blue-300 bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 shadow-lg">
               <div className="absolute top-0 right-0 w-32 h-32 bg-blue-400/10 rounded-full -mr-16 -mt-16"></div>
@@ -433,7 +529,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
                     </span>
                   </div>
                   <div className="px-3 py-1 bg-blue-500 text-white text-xs font-bold rounded-full shadow-md">
-                    {selectedSchedule.unlimitedSeats ? '∞ Unlimited' : `${selectedSchedule.availableSeats} Seats Left`}
+                    {selectedSchedule.unlimitedSeats ? '∞ Unlimited' : `${seatsAvailable} Seats Left`}
                   </div>
                 </div>
 
@@ -451,7 +547,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
                       </div>
                     </div>
 
-                    {!selectedSchedule.unlimitedSeats && selectedSchedule.availableSeats <= 10 && (
+                    {!selectedSchedule.unlimitedSeats && !claimedSeats && selectedSchedule.availableSeats <= 10 && (
                       <div className="flex items-center space-x-1 text-xs text-orange-600 font-medium">
                         <Sparkles className="w-3 h-3" />
                         <span>Filling up fast!</span>
@@ -460,9 +556,12 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
                   </div>
 
                   <div className="text-right bg-white/80 backdrop-blur-sm rounded-lg p-3 shadow-md border border-blue-200">
-                    <div className="text-xs text-gray-500 mb-1">Price per person</div>
+                    <div className="text-xs text-gray-500 mb-1">{usesTicketTypes ? 'Tickets from' : 'Price per person'}</div>
                     <div className="text-2xl font-bold text-blue-700">
-                      {event.currency} {selectedSchedule.price || event.price}
+                      {event.currency}{' '}
+                      {usesTicketTypes
+                        ? Math.min(...ticketTypes.map((ticketType) => getTicketTypePrice(ticketType, selectedSchedule).price))
+                        : selectedSchedule.price || event.price}
                     </div>
                   </div>
                 </div>
@@ -489,78 +588,122 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
           </CardTitle>
         </CardHeader>
         <CardContent className="p-8">
-          <div className="max-w-md mx-auto">
-            {/* Quantity Counter */}
-            <div className="flex items-center justify-center space-x-6 mb-6">
-              <button
-                onClick={() => handleQuantityChange(quantity - 1)}
-                disabled={quantity <= 1}
-                className={`
-                  w-14 h-14 rounded-full bg-gradient-to-br from-red-500 to-pink-500 text-white
-                  flex items-center justify-center shadow-lg
-                  hover:shadow-xl hover:scale-110 active:scale-95
-                  transition-all duration-200
-                  ${quantity <= 1 ? 'opacity-50 cursor-not-allowed' : 'hover:from-red-600 hover:to-pink-600'}
-                `}
-              >
-                <Minus className="w-6 h-6" />
-              </button>
-
-              <div className="relative">
-                <div className="absolute inset-0 bg-gradient-to-br from-green-400 to-emerald-500 rounded-2xl blur-lg opacity-30 animate-pulse"></div>
-                <div className="relative bg-white border-4 border-green-400 rounded-2xl px-8 py-4 shadow-xl">
-                  <div className="text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-600 to-emerald-600 text-center">
-                    {quantity}
-                  </div>
-                  <div className="text-xs text-gray-600 text-center mt-1 font-medium uppercase tracking-wide">
-                    {quantity === 1 ? 'Ticket' : 'Tickets'}
+          {usesTicketTypes ? (
+            <TicketTypeSelector
+              ticketTypes={ticketTypes}
+              selection={ticketSelection}
+              schedule={selectedSchedule && { ...selectedSchedule, availableSeats: seatsAvailable }}
+              currency={event.currency}
+              maxTickets={selectedSchedule?.unlimitedSeats ? MAX_TICKETS_PER_BOOKING : Math.min(MAX_TICKETS_PER_BOOKING, seatsAvailable)}
+              onChange={setTicketSelection}
+            />
+          ) : (
+            <div className="max-w-md mx-auto">
+              {/* Quantity Counter */}
+              <div className="flex items-center justify-center space-x-6 mb-6">
+                <button
+                  onClick={() => handleQuantityChange(quantity - 1)}
+                  disabled={quantity <= 1}
+                  className={`
+                    w-14 h-14 rounded-full bg-gradient-to-br from-red-500 to-pink-500 text-white
+                    flex items-center justify-center shadow-lg
+                    hover:shadow-xl hover:scale-110 active:scale-95
+                    transition-all duration-200
+                    ${quantity <= 1 ? 'opacity-50 cursor-not-allowed' : 'hover:from-red-600 hover:to-pink-600'}
+                  `}
+                >
+                  <Minus className="w-6 h-6" />
+                </button>
+
+                <div className="relative">
+                  <div className="absolute inset-0 bg-gradient-to-br from-green-400 to-emerald-500 rounded-2xl blur-lg opacity-30 animate-pulse"></div>
+                  <div className="relative bg-white border-4 border-green-400 rounded-2xl px-8 py-4 shadow-xl">
+                    <div className="text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-600 to-emerald-600 text-center">
+                      {quantity}
+                    </div>
+                    <div className="text-xs text-gray-600 text-center mt-1 font-medium uppercase tracking-wide">
+                      {quantity === 1 ? 'Ticket' : 'Tickets'}
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <button
-                onClick={() => handleQuantityChange(quantity + 1)}
-                disabled={quantity >= 10 || (!selectedSchedule?.unlimitedSeats && quantity >= (selectedSchedule?.availableSeats || 10))}
-                className={`
-                  w-14 h-14 rounded-full bg-gradient-to-br from-green-500 to-emerald-500 text-white
-                  flex items-center justify-center shadow-lg
-                  hover:shadow-xl hover:scale-110 active:scale-95
-                  transition-all duration-200
-                  ${(quantity >= 10 || (!selectedSchedule?.unlimitedSeats && quantity >= (selectedSchedule?.availableSeats || 10))) ? 'opacity-50 cursor-not-allowed' : 'hover:from-green-600 hover:to-emerald-600'}
-                `}
-              >
-                <Plus className="w-6 h-6" />
-              </button>
-            </div>
+                <button
+                  onClick={() => handleQuantityChange(quantity + 1)}
+                  disabled={quantity >= 10 || (!selectedSchedule?.unlimitedSeats && quantity >= (seatsAvailable || 10))}
+                  className={`
+                    w-14 h-14 rounded-full bg-gradient-to-br from-green-500 to-emerald-500 text-white
+                    flex items-center justify-center shadow-lg
+                    hover:shadow-xl hover:scale-110 active:scale-95
+                    transition-all duration-200
+                    ${(quantity >= 10 || (!selectedSchedule?.unlimitedSeats && quantity >= (seatsAvailable || 10))) ? 'opacity-50 cursor-not-allowed' : 'hover:from-green-600 hover:to-emerald-600'}
+                  `}
+                >
+                  <Plus className="w-6 h-6" />
+                </button>
+              </div>
 
-            {/* Info Bar */}
-            <div className="bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 rounded-xl p-4 border border-indigo-200">
-              <div className="flex items-center justify-between text-sm">
-                <div className="flex items-center space-x-2">
-                  <div className="w-8 h-8 bg-indigo-500 rounded-lg flex items-center justify-center">
-                    <Check className="w-4 h-4 text-white" />
+              {/* Info Bar */}
+              <div className="bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 rounded-xl p-4 border border-indigo-200">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-8 h-8 bg-indigo-500 rounded-lg flex items-center justify-center">
+                      <Check className="w-4 h-4 text-white" />
+                    </div>
+                    <span className="text-gray-700 font-medium">
+                      {selectedSchedule?.unlimitedSeats ? 'Capacity:' : 'Maximum capacity:'}
+                    </span>
                   </div>
-                  <span className="text-gray-700 font-medium">
-                    {selectedSchedule?.unlimitedSeats ? 'Capacity:' : 'Maximum capacity:'}
+                  <span className="text-lg font-bold text-indigo-600">
+                    {selectedSchedule?.unlimitedSeats ? '∞ Unlimited' : `${seatsAvailable || 10} seats`}
                   </span>
                 </div>
-                <span className="text-lg font-bold text-indigo-600">
-                  {selectedSchedule?.unlimitedSeats ? '∞ Unlimited' : `${selectedSchedule?.availableSeats || 10} seats`}
-                </span>
-              </div>
 
-              {/* Progress Bar */}
-              <div className="mt-3 bg-white/50 rounded-full h-2 overflow-hidden">
-                <div
-                  className="h-full bg-gradient-to-r from-green-400 to-emerald-500 transition-all duration-500 rounded-full"
-                  style={{ width: `${(quantity / (selectedSchedule?.availableSeats || 10)) * 100}%` }}
-                ></div>
+                {/* Progress Bar */}
+                <div className="mt-3 bg-white/50 rounded-full h-2 overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-green-400 to-emerald-500 transition-all duration-500 rounded-full"
+                    style={{ width: `${(quantity / (seatsAvailable || 10)) * 100}%` }}
+                  ></div>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Seat Selection */}
+      {usesSeatMap && selectedScheduleId && seatCount > 0 && (
+        <Card className="border-2 border-gray-100 hover:border-green-200 transition-all duration-300 hover:shadow-lg">
+          <CardHeader className="bg-gradient-to-r from-green-50 to-emerald-50 border-b border-gray-100">
+            <CardTitle className="flex items-center">
+              <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center mr-3 shadow-md">
+                <Armchair className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <div className="text-lg font-bold text-gray-900">Choose Your Seats</div>
+                <div className="text-xs text-gray-500 font-normal">
+                  {bookingFlow.seatIds.length} of {seatCount} seats picked
+                </div>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4">
+            <BookingSeat
+              key={selectedScheduleId}
+              eventId={event._id}
+              dateScheduleId={selectedScheduleId}
+              price={selectedSchedule?.price || event.price}
+              currency={event.currency}
+              maxSeats={seatCount}
+              initialSelectedSeats={bookingFlow.seatIds}
+              onSeatsSelected={handleSeatsSelected}
+              showSummary={!usesTicketTypes}
+              className="shadow-none"
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Coupon Code - Enhanced UI */}
       <Card className="overflow-hidden border-2 border-dashed border-purple-200 bg-gradient-to-br from-purple-50 via-pink-50 to-orange-50">
         <CardHeader className="pb-3">
@@ -749,7 +892,9 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
             <div>
               <div className="text-sm font-medium text-gray-700">Subtotal</div>
               <div className="text-xs text-gray-500">
-                {quantity} × {event.currency} {selectedSchedule?.price || event.price}
+                {usesTicketTypes
+                  ? `${seatCount} ${seatCount === 1 ? 'ticket' : 'tickets'}`
+                  : `${quantity} × ${event.currency} ${selectedSchedule?.price || event.price}`}
               </div>
             </div>
             <div className="text-lg font-bold text-gray-900">
@@ -757,6 +902,15 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
             </div>
           </div>
 
+          {ticketLines.length > 0 && <TicketBreakdown lines={ticketLines} currency={event.currency} className="px-4" />}
+
+          {usesSeatMap && bookingFlow.seatIds.length > 0 && (
+            <div className="flex justify-between px-4 text-sm">
+              <span className="text-gray-600">Seats</span>
+              <span className="font-medium text-gray-900">{formatSeatList(bookingFlow.seatIds)}</span>
+            </div>
+          )}
+
           {/* Discount - if applied */}
           {appliedDiscount > 0 && validatedCoupon && (
             <div className="relative overflow-hidden">
@@ -848,7 +1002,7 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
             <div className="flex items-center space-x-4 text-sm">
               <div className="flex items-center space-x-2 px-3 py-2 bg-blue-50 rounded-lg">
                 <Ticket className="w-4 h-4 text-blue-600" />
-                <span className="font-semibold text-blue-900">{quantity} {quantity === 1 ? 'Ticket' : 'Tickets'}</span>
+                <span className="font-semibold text-blue-900">{seatCount} {seatCount === 1 ? 'Ticket' : 'Tickets'}</span>
               </div>
               <div className="flex items-center space-x-2 px-3 py-2 bg-green-50 rounded-lg">
                 <DollarSign className="w-4 h-4 text-green-600" />
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { CalendarPlus, Copy, RefreshCw, Rss } from 'lucide-react';
+
+import ConfirmDialog from '../common/ConfirmDialog';
+import calendarAPI from '../../services/api/calendarAPI';
+import type { CalendarFeed, CalendarFeedScope } from '../../types/calendar';
+import { toWebcalUrl } from '../../utils/icalUtils';
+
+interface CalendarFeedCardProps {
+  scope: CalendarFeedScope;
+  title: string;
+  description: string;
+  className?: string;
+}
+
+type PendingAction = 'reset' | 'revoke' | null;
+
+/**
+ * Private subscription link for a calendar app. Anyone with the link can read the feed, so it
+ * can be reset (new link, old one stops working) or turned off.
+ */
+const CalendarFeedCard: React.FC<CalendarFeedCardProps> = ({ scope, title, description, className = '' }) => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    calendarAPI
+      .getFeed(scope)
+      .then((result) => {
+        if (!cancelled) setFeed(result);
+      })
+      .catch(() => {
+        // No feed yet or the request failed; either way offer to create one
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      setFeed(await calendarAPI.createFeed(scope));
+      toast.success(feed ? 'Calendar link reset. Update it in your calendar app.' : 'Calendar link created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create calendar link');
+    } finally {
+      setIsSaving(false);
+      setPendingAction(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsSaving(true);
+    try {
+      await calendarAPI.revokeFeed(scope);
+      setFeed(null);
+      toast.success('Calendar link turned off');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to turn off calendar link');
+    } finally {
+      setIsSaving(false);
+      setPendingAction(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success('Calendar link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 p-6 ${className}`}>
+      <div className="flex items-start">
+        <Rss className="w-5 h-5 text-primary mr-3 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          <p className="text-sm text-gray-600 mt-1">{description}</p>
+
+          {isLoading ? (
+            <div className="h-10 bg-gray-100 rounded-lg animate-pulse mt-4" />
+          ) : feed ? (
+            <>
+              <div className="flex items-center mt-4 gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={(e) => e.target.select()}
+                  aria-label="Calendar subscription link"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-gray-50"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+                >
+                  <Copy className="w-4 h-4 mr-1" />
+                  Copy
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Keep this link private. Created {format(new Date(feed.createdAt), 'MMM d, yyyy')}
+                {feed.lastAccessedAt && `, last synced ${format(new Date(feed.lastAccessedAt), 'MMM d, yyyy h:mm a')}`}.
+              </p>
+              <div className="flex flex-wrap gap-2 mt-4">
+                <a
+                  href={toWebcalUrl(feed.url)}
+                  className="inline-flex items-center px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark text-sm"
+                >
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Subscribe in calendar app
+                </a>
+                <button
+                  type="button"
+                  onClick={() => setPendingAction('reset')}
+                  disabled={isSaving}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm disabled:opacity-50"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Reset link
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPendingAction('revoke')}
+                  disabled={isSaving}
+                  className="inline-flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 text-sm disabled:opacity-50"
+                >
+                  Turn off
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="inline-flex items-center mt-4 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark text-sm disabled:opacity-50"
+            >
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              {isSaving ? 'Creating link...' : 'Create calendar link'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={pendingAction !== null}
+        onClose={() => setPendingAction(null)}
+        onConfirm={pendingAction === 'reset' ? handleCreate : handleRevoke}
+        title={pendingAction === 'reset' ? 'Reset Calendar Link' : 'Turn Off Calendar Link'}
+        message={
+          pendingAction === 'reset'
+            ? 'The current link will stop working. Calendars subscribed to it need the new link.'
+            : 'The link will stop working and subscribed calendars will stop updating.'
+        }
+        confirmText={pendingAction === 'reset' ? 'Reset' : 'Turn off'}
+        cancelText="Cancel"
+        type={pendingAction === 'reset' ? 'warning' : 'danger'}
+        isLoading={isSaving}
+      />
+    </div>
+  );
+};
+
+export default CalendarFeedCard;
@@ -1,4 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { FieldConditionGroup } from '@/types/registration';
+import { getVisibleFields } from '@/utils/registrationFormUtils';
 
 interface RegistrationField {
   id: string;
@@ -19,6 +21,8 @@ interface RegistrationField {
   section?: string;
   order: number;
   helpText?: string;
+  visibleWhen?: FieldConditionGroup;
+  requiredWhen?: FieldConditionGroup;
 }
 
 interface RegistrationConfig {
@@ -39,21 +43,41 @@ interface DynamicRegistrationFormProps {
   participantIndex: number;
   onDataChange: (participantIndex: number, data: Record<string, any>) => void;
   initialData?: Record<string, any>;
+  prefill?: Record<string, any>; // Answers filled from a saved child, keyed by field id
 }
 
 const DynamicRegistrationForm: React.FC<DynamicRegistrationFormProps> = ({
   config,
   participantIndex,
   onDataChange,
-  initialData = {}
+  initialData = {},
+  prefill
 }) => {
   const [formData, setFormData] = useState<Record<string, any>>(initialData);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Fields shown for the current answers, with conditional requirements resolved
+  const visibleFields = useMemo(
+    () => getVisibleFields(config?.fields || [], formData),
+    [config?.fields, formData]
+  );
+
   useEffect(() => {
-    // Notify parent of changes
-    onDataChange(participantIndex, formData);
-  }, [formData, participantIndex, onDataChange]);
+    // Notify parent of changes, leaving out answers to fields that are now hidden
+    const visibleFieldIds = new Set(visibleFields.map(field => field.id));
+    const visibleData = Object.fromEntries(
+      Object.entries(formData).filter(([fieldId]) => visibleFieldIds.has(fieldId))
+    );
+    onDataChange(participantIndex, visibleData);
+  }, [formData, visibleFields, participantIndex, onDataChange]);
+
+  // Filling from a saved child only replaces the fields it has answers for
+  useEffect(() => {
+    if (prefill && Object.keys(prefill).length > 0) {
+      setFormData(prev => ({ ...prev, ...prefill }));
+      setErrors(prev => Object.fromEntries(Object.entries(prev).filter(([fieldId]) => !(fieldId in prefill))));
+    }
+  }, [prefill]);
 
   const handleInputChange = (fieldId: string, value: any) => {
     setFormData(prev => ({
@@ -285,7 +309,7 @@ const DynamicRegistrationForm: React.FC<DynamicRegistrationFormProps> = ({
   };
 
   // Group fields by section
-  const fieldsBySection = config.fields
+  const fieldsBySection = [...visibleFields]
     .sort((a, b) => a.order - b.order)
     .reduce((acc, field) => {
       const section = field.section || 'General Information';
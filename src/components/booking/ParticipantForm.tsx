@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { User, Phone, Mail, Calendar, Heart, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
 import toast from 'react-hot-toast';
@@ -7,14 +7,19 @@ import { AppDispatch } from '../../store';
 import {
   updateParticipant,
   updateParticipantRegistrationData,
+  selectBookingFlow,
   selectBookingParticipants
 } from '../../store/slices/bookingsSlice';
 import { Event } from '../../types/event';
 import { BookingParticipant } from '../../services/api/bookingAPI';
+import { describeAgeLimit, getTicketTypeId, isAgeAllowed } from '../../utils/ticketTypeUtils';
+import { childToParticipant, getEventAgeDate, mapChildToRegistrationFields } from '../../utils/childProfileUtils';
+import type { ChildProfile } from '../../types/family';
 
 import Button from '../ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import DynamicRegistrationForm from './DynamicRegistrationForm';
+import ChildProfilePicker from '../profile/ChildProfilePicker';
 
 interface ParticipantFormProps {
   event: Event;
@@ -29,9 +34,17 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
 }) => {
   const dispatch = useDispatch<AppDispatch>();
   const participants = useSelector(selectBookingParticipants);
+  const bookingFlow = useSelector(selectBookingFlow);
 
   const [errors, setErrors] = useState<Record<number, Record<string, string>>>({});
   const [dynamicRegistrationData, setDynamicRegistrationData] = useState<Record<number, any>>({});
+  const [registrationPrefill, setRegistrationPrefill] = useState<Record<number, Record<string, any>>>({});
+
+  // Ages are checked on the date being booked
+  const ageDate = useMemo(
+    () => getEventAgeDate(event.dateSchedule, bookingFlow.scheduleId),
+    [event.dateSchedule, bookingFlow.scheduleId]
+  );
 
   // Debug logging for registration config
   useEffect(() => {
@@ -46,6 +59,11 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
   }, [event]);
 
   // Validate participant data
+  const getParticipantTicketType = (participant: BookingParticipant) =>
+    participant.ticketTypeId
+      ? event.ticketTypes?.find(ticketType => getTicketTypeId(ticketType) === participant.ticketTypeId)
+      : undefined;
+
   const validateParticipant = (participant: BookingParticipant, index: number): boolean => {
     const participantErrors: Record<string, string> = {};
 
@@ -67,6 +85,12 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
       participantErrors.age = `Age must be between ${event.ageRange[0]} and ${event.ageRange[1]} years`;
     }
 
+    // Ticket types can narrow the event's age range (e.g. a child ticket)
+    const ticketType = getParticipantTicketType(participant);
+    if (!participantErrors.age && participant.age && ticketType && !isAgeAllowed(ticketType, participant.age)) {
+      participantErrors.age = `${ticketType.name} tickets are for ${describeAgeLimit(ticketType)?.toLowerCase()}`;
+    }
+
     if (participant.emergencyContact?.name && !participant.emergencyContact.phone) {
       participantErrors.emergencyPhone = 'Emergency contact phone is required';
     }
@@ -113,6 +137,31 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
     }));
   };
 
+  // Fill a participant (and the vendor's registration fields) from a saved child
+  const handleFillFromChild = (index: number, child: ChildProfile) => {
+    const participant = participants[index];
+    const details = childToParticipant(child, ageDate);
+
+    dispatch(updateParticipant({
+      index,
+      participant: {
+        ...details,
+        gender: details.gender || participant.gender,
+        emergencyContact: details.emergencyContact || participant.emergencyContact,
+        specialRequirements: details.specialRequirements || participant.specialRequirements,
+      }
+    }));
+
+    if (event.registrationConfig?.enabled) {
+      setRegistrationPrefill(prev => ({
+        ...prev,
+        [index]: mapChildToRegistrationFields(child, event.registrationConfig?.fields || [], ageDate)
+      }));
+    }
+
+    setErrors(prev => ({ ...prev, [index]: {} }));
+  };
+
   // Handle emergency contact changes
   const handleEmergencyContactChange = (
     index: number,
@@ -205,6 +254,11 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
             <CardTitle className="flex items-center text-lg">
               <User className="w-5 h-5 mr-2" />
               Participant {index + 1}
+              {getParticipantTicketType(participant) && (
+                <span className="ml-2 text-sm bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
+                  {getParticipantTicketType(participant)?.name}
+                </span>
+              )}
               {participants.length > 1 && index === 0 && (
                 <span className="ml-2 text-sm bg-primary text-white px-2 py-1 rounded-full">
                   Primary
@@ -213,6 +267,13 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
             </CardTitle>
           </CardHeader>
           <CardContent className="p-6 space-y-6">
+            <ChildProfilePicker
+              ageDate={ageDate}
+              ageRange={event.ageRange}
+              selectedId={participant.childProfileId}
+              onSelect={(child) => handleFillFromChild(index, child)}
+            />
+
             {/* Basic Information */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -418,6 +479,7 @@ const ParticipantForm: React.FC<ParticipantFormProps> = ({
                   participantIndex={index}
                   onDataChange={handleDynamicDataChange}
                   initialData={dynamicRegistrationData[index]}
+                  prefill={registrationPrefill[index]}
                 />
               </div>
             )}
@@ -10,7 +10,6 @@ import StripePaymentElement from '../payment/StripePaymentElement';
 import { getRegionalPaymentMethods, getPreferredPaymentMethod, shouldShowRegulatoryWarning, getRegulatoryMessage } from '../../utils/paymentConfig';
 import { getEnvironmentInfo, getPaymentMethodAvailability } from '../../utils/environmentUtils';
 import { formatCurrency, getDefaultCurrency } from '../../utils/currencyUtils';
-import { useCurrencyContext } from '../../contexts/CurrencyContext';
 import {
   setPaymentMethod,
   setAgreedToTerms,
@@ -19,10 +18,16 @@ import {
   selectCheckout,
   createPaymentIntent,
 } from '../../store/slices/bookingsSlice';
+import { selectImpersonation } from '../../store/slices/authSlice';
 import { Event } from '../../types/event';
 import bookingAPI, { InitiateBookingData } from '../../services/api/bookingAPI';
 import { useErrorHandler } from '../../utils/errorHandler';
-import vendorPaymentService, { VendorPaymentInfo } from '../../services/vendorPaymentService';
+import { calculatePricing } from '../../utils/pricingUtils';
+import { buildTicketLines, toPricingLines, toTicketRequest } from '../../utils/ticketTypeUtils';
+import { usePricingConfig } from '../../hooks/usePricingConfig';
+import PriceBreakdown from '../checkout/PriceBreakdown';
+import ImpersonationNotice from '../common/ImpersonationNotice';
+import TicketBreakdown from './TicketBreakdown';
 import { logger } from '../../utils/logger';
 
 import Button from '../ui/Button';
@@ -48,6 +53,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
   const bookingFlow = useSelector(selectBookingFlow);
   const participants = useSelector(selectBookingParticipants);
   const checkout = useSelector(selectCheckout);
+  // Admins viewing as this user can see the payment step but never pay
+  const isImpersonating = !!useSelector(selectImpersonation);
   const { handleError } = useErrorHandler();
 
   // Local state
@@ -59,9 +66,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
   const [agreedToTerms, setAgreedToTermsLocal] = useState(bookingFlow.agreedToTerms);
   const [agreedToPrivacy, setAgreedToPrivacy] = useState(false);
   const [marketingConsent, setMarketingConsent] = useState(false);
-  const [vendorPaymentInfo, setVendorPaymentInfo] = useState<VendorPaymentInfo | null>(null);
 
-  const { currencyInfo } = useCurrencyContext();
 
   // Payment methods configuration with environment-based settings
   const regionalMethods = getRegionalPaymentMethods();
@@ -81,32 +86,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     return undefined;
   }, [event.vendorId]);
 
-  // Fetch vendor payment info on mount
-  useEffect(() => {
-    const fetchVendorPaymentInfo = async () => {
-      if (stableVendorId) {
-        // Valid vendorId - fetch payment info
-        const info = await vendorPaymentService.getVendorPaymentInfo(stableVendorId);
-        setVendorPaymentInfo(info);
-      } else {
-        // Invalid or missing vendorId - use platform defaults
-        logger.warn('Invalid or missing vendorId, using platform payment defaults', {
-          vendorId: event.vendorId,
-          hasVendorId: !!event.vendorId,
-          isObject: typeof event.vendorId === 'object'
-        });
-        setVendorPaymentInfo({
-          vendorId: 'platform',
-          hasCustomStripe: false,
-          stripePublishableKey: null,
-          serviceFeeRate: 5,
-          usePlatformStripe: true,
-        });
-      }
-    };
-
-    fetchVendorPaymentInfo();
-  }, [stableVendorId, event.vendorId]);
+  // System rates plus the vendor's fee override (no platform fee when the vendor uses its own Stripe)
+  const pricingConfig = usePricingConfig([stableVendorId]);
 
   const paymentMethods = [
     {
@@ -157,6 +138,13 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     dispatch(setAgreedToTerms(agreedToTerms));
   }, [agreedToTerms, dispatch]);
 
+  // Per-type lines for events sold as ticket types, priced for the booked date
+  const ticketLines = buildTicketLines(
+    event.ticketTypes || [],
+    bookingFlow.ticketSelection || {},
+    event.dateSchedule?.find(schedule => schedule._id === bookingFlow.scheduleId)
+  );
+
   // Create payment intent when Stripe is selected and we don't have one yet
   useEffect(() => {
     if (selectedPaymentMethod === 'stripe' && !checkout?.clientSecret && participants.length > 0) {
@@ -169,7 +157,10 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           eventId: event._id,
           participants: participants.length,
           dateScheduleId: dateScheduleId,
-          currency: currencyInfo.code, // Pass the active currency code
+          currency: event.currency, // Charge in the event's settlement currency, not the display currency
+          waitlistClaimToken: bookingFlow.waitlistClaim?.token,
+          ticketSelection: ticketLines.length > 0 ? bookingFlow.ticketSelection : undefined,
+          seatIds: bookingFlow.seatIds?.length ? bookingFlow.seatIds : undefined,
         }));
       } else {
         logger.warn('No schedule ID found in booking flow. User must select a schedule.');
@@ -177,35 +168,16 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     }
   }, [selectedPaymentMethod, checkout?.clientSecret, participants.length, event._id, bookingFlow.scheduleId, dispatch]);
 
-  // Calculate total amount
-  const calculateTotal = () => {
-    const basePrice = schedulePrice || event.price;
-    const participantCount = participants.length;
-    const subtotal = basePrice * participantCount;
-
-    // Apply discount if coupon is applied
-    const discountAmount = bookingFlow.couponCode ? subtotal * 0.1 : 0; // 10% discount example
-
-    // Service fee based on vendor payment settings
-    // If vendor has custom Stripe, no service fee. Otherwise, use vendor's commission rate
-    const serviceFeeRate = vendorPaymentInfo?.serviceFeeRate || 5; // Default 5%
-    const serviceFee = vendorPaymentInfo?.usePlatformStripe !== false ? (subtotal * (serviceFeeRate / 100)) : 0;
-
-    const tax = (subtotal - discountAmount + serviceFee) * 0.05; // 5% tax
-    const total = subtotal - discountAmount + serviceFee + tax;
-
-    return {
-      subtotal,
-      discountAmount,
-      serviceFee,
-      serviceFeeRate,
-      tax,
-      total,
-      hasVendorStripe: vendorPaymentInfo?.hasCustomStripe || false,
-    };
-  };
-
-  const { subtotal, discountAmount, serviceFee, serviceFeeRate, tax, total, hasVendorStripe } = calculateTotal();
+  // Calculate total amount with the shared pricing engine
+  const pricing = calculatePricing(
+    ticketLines.length > 0
+      ? toPricingLines(ticketLines, event._id, stableVendorId)
+      : [{ id: event._id, vendorId: stableVendorId, unitPrice: schedulePrice || event.price, quantity: participants.length }],
+    pricingConfig,
+    bookingFlow.couponDiscount,
+    event.currency || getDefaultCurrency()
+  );
+  const { total } = pricing;
 
   // Handle payment method selection
   const handlePaymentMethodChange = (method: string) => {
@@ -293,7 +265,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
 
   // Handle payment initiation
   const handleInitiatePayment = async () => {
-    if (!validateForm()) return;
+    if (isImpersonating || !validateForm()) return;
 
     setProcessing(true);
     setPaymentError(null);
@@ -320,7 +292,10 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
             dateScheduleId,
             seats: participants.length,
             paymentMethod: 'test',
-            participants: participants
+            participants: participants,
+            waitlistClaimToken: bookingFlow.waitlistClaim?.token,
+            tickets: ticketLines.length > 0 ? toTicketRequest(bookingFlow.ticketSelection) : undefined,
+            seatIds: bookingFlow.seatIds?.length ? bookingFlow.seatIds : undefined
           });
 
           orderId = initiateResponse.orderId;
@@ -484,7 +459,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       </Card>
 
       {/* Real Stripe Elements */}
-      {selectedPaymentMethod === 'stripe' && checkout?.clientSecret && (
+      {selectedPaymentMethod === 'stripe' && checkout?.clientSecret && !isImpersonating && (
         <StripeElementsWrapper
           clientSecret={checkout.clientSecret}
           vendorId={stableVendorId}
@@ -544,49 +519,14 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           <CardTitle>Payment Summary</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
-            <div className="flex justify-between">
-              <span>Subtotal ({participants.length} participants)</span>
-              <span>{formatCurrency(subtotal, event.currency || getDefaultCurrency())}</span>
-            </div>
-
-            {discountAmount > 0 && (
-              <div className="flex justify-between text-green-600">
-                <span>Discount ({bookingFlow.couponCode})</span>
-                <span>-{formatCurrency(discountAmount, event.currency || getDefaultCurrency())}</span>
-              </div>
-            )}
-
-            {hasVendorStripe ? (
-              <div className="flex justify-between text-sm text-green-600">
-                <span className="flex items-center">
-                  Service Fee
-                  <Info className="w-3 h-3 ml-1" aria-label="No service fee - vendor payment" />
-                </span>
-                <span className="font-medium">Free</span>
-              </div>
-            ) : (
-              <div className="flex justify-between text-sm text-gray-600">
-                <span className="flex items-center">
-                  Service Fee ({serviceFeeRate}%)
-                  <Info className="w-3 h-3 ml-1" aria-label="Platform payment processing fee" />
-                </span>
-                <span>{formatCurrency(serviceFee, event.currency || getDefaultCurrency())}</span>
-              </div>
-            )}
-
-            <div className="flex justify-between text-sm text-gray-600">
-              <span>Tax (5%)</span>
-              <span>{formatCurrency(tax, event.currency || getDefaultCurrency())}</span>
-            </div>
-
-            <div className="border-t pt-3">
-              <div className="flex justify-between text-lg font-bold">
-                <span>Total Amount</span>
-                <span>{formatCurrency(total, event.currency || getDefaultCurrency())}</span>
-              </div>
-            </div>
-          </div>
+          {ticketLines.length > 0 && (
+            <TicketBreakdown lines={ticketLines} currency={event.currency} className="mb-3 pb-3 border-b border-gray-200" />
+          )}
+          <PriceBreakdown
+            breakdown={pricing}
+            subtotalLabel={`Subtotal (${participants.length} participants)`}
+            className="space-y-3"
+          />
         </CardContent>
       </Card>
 
@@ -657,6 +597,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         </div>
       )}
 
+      <ImpersonationNotice />
+
       {/* Security Notice */}
       <div className="bg-green-50 border border-green-200 rounded-lg p-4">
         <div className="flex items-start">
@@ -673,7 +615,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
 
       {/* Action Buttons - Only show for non-Stripe payments or when Stripe is not ready */}
       {/* For Stripe payments, StripePaymentElement has its own submit button */}
-      {!(selectedPaymentMethod === 'stripe' && checkout?.clientSecret) && (
+      {!(selectedPaymentMethod === 'stripe' && checkout?.clientSecret && !isImpersonating) && (
         <div className="flex justify-between">
           <Button
             variant="outline"
@@ -685,7 +627,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           <Button
             variant="primary"
             onClick={handleInitiatePayment}
-            disabled={processing || !agreedToTerms || !agreedToPrivacy}
+            disabled={processing || !agreedToTerms || !agreedToPrivacy || isImpersonating}
             loading={processing}
             size="lg"
           >
@@ -695,7 +637,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       )}
 
       {/* Back button for Stripe payments (when payment element is shown) */}
-      {selectedPaymentMethod === 'stripe' && checkout?.clientSecret && (
+      {selectedPaymentMethod === 'stripe' && checkout?.clientSecret && !isImpersonating && (
         <div className="flex justify-start">
           <Button
             variant="outline"
@@ -0,0 +1,80 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+
+import { formatTicketSchedule, TicketDocument } from '../../utils/ticketPdfUtils';
+
+interface PrintableTicketProps {
+  ticket: TicketDocument;
+}
+
+/**
+ * Print layout for one ticket, sized to fill an A4 or Letter sheet. Mirrors the PDF ticket.
+ */
+const PrintableTicket: React.FC<PrintableTicketProps> = ({ ticket }) => (
+  <div className="ticket-print-page bg-white text-gray-900 p-10">
+    <div className="border-2 border-gray-200 rounded-xl overflow-hidden">
+      <div className="bg-primary text-white px-8 py-6 flex items-end justify-between">
+        <div>
+          <p className="text-3xl font-bold">Kidrove</p>
+          <p className="text-sm">Event Ticket</p>
+        </div>
+        {ticket.orderNumber && <p className="text-sm">Order {ticket.orderNumber}</p>}
+      </div>
+
+      <div className="px-8 py-6 space-y-4">
+        <h1 className="text-3xl font-bold">{ticket.eventTitle}</h1>
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-500">Date &amp; time</p>
+          <p className="text-lg">{formatTicketSchedule(ticket)}</p>
+        </div>
+        {ticket.venue && (
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500">Venue</p>
+            <p className="text-lg">{ticket.venue}</p>
+          </div>
+        )}
+
+        <div className="flex items-start gap-8 pt-2">
+          <div className="border-2 border-gray-200 p-3 flex-shrink-0">
+            <QRCodeSVG value={ticket.qrValue} size={220} level="M" />
+          </div>
+          <div className="space-y-3">
+            <div>
+              <p className="text-xs font-semibold uppercase text-gray-500">Attendee</p>
+              <p className="text-lg">{ticket.attendeeName}</p>
+            </div>
+            {ticket.ticketType && (
+              <div>
+                <p className="text-xs font-semibold uppercase text-gray-500">Ticket type</p>
+                <p className="text-lg">{ticket.ticketType}</p>
+              </div>
+            )}
+            {ticket.seatNumber && (
+              <div>
+                <p className="text-xs font-semibold uppercase text-gray-500">Seat</p>
+                <p className="text-lg">{ticket.seatNumber}</p>
+              </div>
+            )}
+            <div>
+              <p className="text-xs font-semibold uppercase text-gray-500">Ticket number</p>
+              <p className="text-lg font-mono">{ticket.ticketNumber}</p>
+            </div>
+          </div>
+        </div>
+
+        {ticket.participants && ticket.participants.length > 1 && (
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500">Participants on this order</p>
+            <p className="text-lg">{ticket.participants.join(', ')}</p>
+          </div>
+        )}
+      </div>
+
+      <p className="px-8 py-4 bg-gray-50 text-sm text-gray-600">
+        Show this QR code at the venue entrance, on your phone or printed. Each QR code can only be scanned once.
+      </p>
+    </div>
+  </div>
+);
+
+export default PrintableTicket;
@@ -4,7 +4,7 @@ import { QrCode, X } from 'lucide-react';
 import Modal from '../ui/Modal';
 import QRCodeGenerator from '../ui/QRCodeGenerator';
 import Button from '../ui/Button';
-import { QRCodeData, generateSecureQRData, getQRDisplayInfo, validateQRData } from '../../utils/qrcode.utils';
+import { QRCodeData, generateSecureQRData, getQRDisplayInfo, parseQRData } from '../../utils/qrcode.utils';
 
 interface QRCodeModalProps {
   isOpen: boolean;
@@ -27,7 +27,7 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({
   const qrCodeString = generateSecureQRData(qrData);
 
   // Get display information
-  const displayInfo = getQRDisplayInfo(validateQRData(qrCodeString).data!);
+  const displayInfo = getQRDisplayInfo(parseQRData(qrCodeString)!);
 
   // Use provided title/subtitle or fallback to generated ones
   const finalTitle = title || displayInfo.title;
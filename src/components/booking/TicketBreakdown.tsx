@@ -0,0 +1,32 @@
+import React from 'react';
+import type { TicketLine } from '../../utils/ticketTypeUtils';
+
+interface TicketBreakdownProps {
+  lines: TicketLine[];
+  currency: string;
+  className?: string;
+}
+
+/**
+ * One row per ticket type in a booking or order summary, e.g. "2 × Child · AED 50.00"
+ */
+const TicketBreakdown: React.FC<TicketBreakdownProps> = ({ lines, currency, className = '' }) => (
+  <div className={`space-y-1 ${className}`}>
+    {lines.map((line) => (
+      <div key={line.ticketTypeId} className="flex justify-between text-sm">
+        <span className="text-gray-600">
+          {line.quantity} × {line.name}
+          {line.tierLabel && <span className="ms-1 text-xs text-green-700">({line.tierLabel})</span>}
+          <span className="ms-1 text-xs text-gray-400">
+            @ {currency} {line.unitPrice.toFixed(2)}
+          </span>
+        </span>
+        <span className="text-gray-900">
+          {currency} {line.total.toFixed(2)}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default TicketBreakdown;
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Calendar, MapPin, Clock, User, Download, Eye, AlertCircle, QrCode as QrCodeIcon } from 'lucide-react';
+import TicketPrintButton from './TicketPrintButton';
 import { generateTicketQRData, extractEventDates } from '../../utils/qrcode.utils';
+import { toTicketDocument } from '../../utils/ticketPdfUtils';
 
 interface TicketProps {
   ticket: {
@@ -13,7 +15,7 @@ interface TicketProps {
     attendeeEmail: string;
     price: number;
     currency: string;
-    status: 'active' | 'used' | 'cancelled' | 'expired';
+    status: 'active' | 'used' | 'cancelled' | 'expired' | 'transferred';
     validFrom: string;
     validUntil: string;
     eventId: {
@@ -46,6 +48,8 @@ const TicketCard: React.FC<TicketProps> = ({ ticket, onViewTicket, onDownloadTic
         return 'bg-red-100 text-red-800';
       case 'expired':
         return 'bg-gray-100 text-gray-800';
+      case 'transferred':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -154,7 +158,7 @@ const TicketCard: React.FC<TicketProps> = ({ ticket, onViewTicket, onDownloadTic
         </div>
 
         {/* Action Buttons */}
-        <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t border-gray-100">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4 pt-4 border-t border-gray-100">
           <button
             onClick={() => onViewTicket?.(ticket)}
             className="flex items-center justify-center gap-1 px-3 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark transition-colors text-sm"
@@ -173,11 +177,19 @@ const TicketCard: React.FC<TicketProps> = ({ ticket, onViewTicket, onDownloadTic
 
           <button
             onClick={() => onShowQRCode?.(ticket)}
-            className="flex items-center justify-center gap-1 px-3 py-2 border border-primary text-primary rounded-lg hover:bg-primary hover:text-white transition-colors text-sm"
+            disabled={ticket.status === 'transferred'}
+            className="flex items-center justify-center gap-1 px-3 py-2 border border-primary text-primary rounded-lg hover:bg-primary hover:text-white transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <QrCodeIcon className="w-4 h-4" />
             QR Code
           </button>
+
+          {ticket.status !== 'transferred' && (
+            <TicketPrintButton
+              tickets={[toTicketDocument(ticket, { qrValue: qrCodeData })]}
+              className="flex items-center justify-center gap-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            />
+          )}
         </div>
       </div>
     </div>
@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import { X, Download, Calendar, MapPin, Clock, User, Hash, QrCode as QrCodeIcon } from 'lucide-react';
+import { X, Download, Calendar, MapPin, Clock, User, Hash, QrCode as QrCodeIcon, UserPlus } from 'lucide-react';
 import QRCodeModal from './QRCodeModal';
+import TicketPrintButton from './TicketPrintButton';
+import TicketResendButton from './TicketResendButton';
+import TicketTransferModal from './TicketTransferModal';
 import { generateTicketQRData, extractEventDates } from '../../utils/qrcode.utils';
+import { toTicketDocument } from '../../utils/ticketPdfUtils';
 
 interface TicketModalProps {
   ticket: {
@@ -14,7 +18,7 @@ interface TicketModalProps {
     attendeeEmail: string;
     price: number;
     currency: string;
-    status: 'active' | 'used' | 'cancelled' | 'expired';
+    status: 'active' | 'used' | 'cancelled' | 'expired' | 'transferred';
     validFrom: string;
     validUntil: string;
     eventId: {
@@ -37,6 +41,7 @@ interface TicketModalProps {
 
 const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDownload }) => {
   const [showQRModal, setShowQRModal] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
 
   if (!isOpen) return null;
 
@@ -66,6 +71,8 @@ const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDo
         return 'text-red-600';
       case 'expired':
         return 'text-gray-600';
+      case 'transferred':
+        return 'text-purple-600';
       default:
         return 'text-gray-600';
     }
@@ -161,16 +168,24 @@ const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDo
 
             {/* QR Code Section */}
             <div className="flex flex-col items-center justify-center">
-              <div className="bg-white p-6 border-2 border-gray-200 rounded-lg shadow-sm">
-                <QRCodeSVG
-                  value={qrCodeData}
-                  size={200}
-                  style={{ height: "auto", maxWidth: "100%", width: "100%" }}
-                />
-              </div>
-              <p className="text-center text-sm text-gray-500 mt-3">
-                Present this QR code at the venue entrance
-              </p>
+              {ticket.status === 'transferred' ? (
+                <div className="p-6 bg-purple-50 border-2 border-purple-200 rounded-lg text-center text-sm text-purple-800">
+                  This ticket was transferred to someone else. Its QR code no longer works.
+                </div>
+              ) : (
+                <>
+                  <div className="bg-white p-6 border-2 border-gray-200 rounded-lg shadow-sm">
+                    <QRCodeSVG
+                      value={qrCodeData}
+                      size={200}
+                      style={{ height: "auto", maxWidth: "100%", width: "100%" }}
+                    />
+                  </div>
+                  <p className="text-center text-sm text-gray-500 mt-3">
+                    Present this QR code at the venue entrance
+                  </p>
+                </>
+              )}
 
               {ticket.status === 'active' && (
                 <div className="mt-4 text-center">
@@ -188,7 +203,7 @@ const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDo
           </div>
 
           {/* Action Buttons */}
-          <div className="grid grid-cols-3 gap-3 mt-6 pt-6 border-t border-gray-200">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-6 pt-6 border-t border-gray-200">
             <button
               onClick={() => onDownload?.(ticket)}
               className="flex items-center justify-center gap-2 px-4 py-3 bg-primary text-white rounded-lg hover:bg-primary-dark transition-colors"
@@ -198,11 +213,16 @@ const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDo
             </button>
             <button
               onClick={() => setShowQRModal(true)}
-              className="flex items-center justify-center gap-2 px-4 py-3 border border-primary text-primary rounded-lg hover:bg-primary hover:text-white transition-colors"
+              disabled={ticket.status === 'transferred'}
+              className="flex items-center justify-center gap-2 px-4 py-3 border border-primary text-primary rounded-lg hover:bg-primary hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <QrCodeIcon className="w-5 h-5" />
               QR Details
             </button>
+            <TicketPrintButton
+              tickets={ticket.status === 'transferred' ? [] : [toTicketDocument(ticket, { qrValue: qrCodeData })]}
+              className="flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            />
             <button
               onClick={onClose}
               className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -211,6 +231,19 @@ const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDo
             </button>
           </div>
 
+          {ticket.status === 'active' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+              <button
+                onClick={() => setShowTransferModal(true)}
+                className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+              >
+                <UserPlus className="w-4 h-4" />
+                Transfer Ticket
+              </button>
+              <TicketResendButton ticketId={ticket._id} />
+            </div>
+          )}
+
           {/* Footer Notice */}
           <div className="mt-6 p-4 bg-gray-50 rounded-lg">
             <p className="text-xs text-gray-600 text-center">
@@ -221,6 +254,15 @@ const TicketModal: React.FC<TicketModalProps> = ({ ticket, isOpen, onClose, onDo
         </div>
       </div>
 
+      {/* Transfer Modal */}
+      <TicketTransferModal
+        ticket={{ ...ticket, id: ticket._id }}
+        eventTitle={ticket.eventId.title}
+        eventStart={ticket.eventId.dateSchedule?.[0]?.startDate}
+        isOpen={showTransferModal}
+        onClose={() => setShowTransferModal(false)}
+      />
+
       {/* QR Code Modal */}
       <QRCodeModal
         isOpen={showQRModal}
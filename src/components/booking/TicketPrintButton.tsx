@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Printer } from 'lucide-react';
+
+import PrintableTicket from './PrintableTicket';
+import type { TicketDocument } from '../../utils/ticketPdfUtils';
+
+interface TicketPrintButtonProps {
+  tickets: TicketDocument[];
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Prints the tickets in their print layout, one per sheet, hiding the rest of the page
+ */
+const TicketPrintButton: React.FC<TicketPrintButtonProps> = ({
+  tickets,
+  label = 'Print',
+  className = 'flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors',
+}) => {
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  useEffect(() => {
+    if (!isPrinting) return;
+
+    const handleAfterPrint = () => setIsPrinting(false);
+    document.body.classList.add('printing-tickets');
+    window.addEventListener('afterprint', handleAfterPrint);
+    window.print();
+
+    return () => {
+      document.body.classList.remove('printing-tickets');
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, [isPrinting]);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsPrinting(true)}
+        disabled={tickets.length === 0}
+        className={`${className} disabled:opacity-50 disabled:cursor-not-allowed`}
+      >
+        <Printer className="w-4 h-4" />
+        {label}
+      </button>
+      {isPrinting &&
+        createPortal(
+          <div className="ticket-print-root">
+            {tickets.map((ticket) => (
+              <PrintableTicket key={ticket.ticketNumber} ticket={ticket} />
+            ))}
+          </div>,
+          document.body
+        )}
+    </>
+  );
+};
+
+export default TicketPrintButton;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Mail, MessageSquare, RotateCw } from 'lucide-react';
+
+import bookingAPI from '../../services/api/bookingAPI';
+import type { TicketDeliveryMethod } from '../../types/transfer';
+
+interface TicketResendButtonProps {
+  ticketId: string;
+  className?: string;
+}
+
+/**
+ * Sends the ticket again to the attendee's email or phone on file
+ */
+const TicketResendButton: React.FC<TicketResendButtonProps> = ({
+  ticketId,
+  className = 'w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors',
+}) => {
+  const [isChoosing, setIsChoosing] = useState(false);
+  const [sendingMethod, setSendingMethod] = useState<TicketDeliveryMethod | null>(null);
+
+  const handleResend = async (method: TicketDeliveryMethod) => {
+    try {
+      setSendingMethod(method);
+      await bookingAPI.resendTicket(ticketId, method);
+      toast.success(method === 'email' ? 'Ticket sent to your email' : 'Ticket sent by SMS');
+      setIsChoosing(false);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to resend ticket');
+    } finally {
+      setSendingMethod(null);
+    }
+  };
+
+  if (!isChoosing) {
+    return (
+      <button type="button" onClick={() => setIsChoosing(true)} className={className}>
+        <RotateCw className="w-4 h-4 mr-2" />
+        Resend
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      {([
+        { method: 'email', label: 'Email', Icon: Mail },
+        { method: 'sms', label: 'SMS', Icon: MessageSquare },
+      ] as { method: TicketDeliveryMethod; label: string; Icon: typeof Mail }[]).map(({ method, label, Icon }) => (
+        <button
+          key={method}
+          type="button"
+          onClick={() => handleResend(method)}
+          disabled={sendingMethod !== null}
+          className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-primary text-primary rounded-lg text-sm font-medium hover:bg-primary hover:text-white transition-colors disabled:opacity-50"
+        >
+          <Icon className="w-4 h-4 mr-2" />
+          {sendingMethod === method ? 'Sending...' : label}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={() => setIsChoosing(false)}
+        disabled={sendingMethod !== null}
+        className="px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default TicketResendButton;
@@ -0,0 +1,383 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ArrowLeft, CheckCircle, Clock, Mail, MessageSquare, Send, X } from 'lucide-react';
+
+import bookingAPI from '../../services/api/bookingAPI';
+import { selectImpersonation, selectUser } from '../../store/slices/authSlice';
+import ImpersonationNotice from '../common/ImpersonationNotice';
+import type { TicketDeliveryMethod, TicketTransfer, TicketTransferData } from '../../types/transfer';
+import {
+  getPendingTransfer,
+  getTransferBlocker,
+  getTransferRecipientContact,
+  normalizeTransferData,
+  sortTransferHistory,
+  TransferErrors,
+  validateTransferRecipient,
+} from '../../utils/ticketTransferUtils';
+
+interface TicketTransferModalProps {
+  ticket: {
+    id: string;
+    ticketNumber: string;
+    attendeeName: string;
+    status: string;
+    checkInDetails?: { isCheckedIn: boolean };
+  };
+  eventTitle: string;
+  eventStart?: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onTransferChange?: (transfers: TicketTransfer[]) => void;
+}
+
+type Step = 'details' | 'confirm' | 'sent';
+
+const STATUS_STYLES: Record<TicketTransfer['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  expired: 'bg-gray-100 text-gray-800',
+};
+
+const emptyForm: TicketTransferData = {
+  method: 'email',
+  recipientName: '',
+  recipientEmail: '',
+  recipientPhone: '',
+  message: '',
+};
+
+/**
+ * Hand a ticket to someone else. The recipient gets an acceptance link by email or SMS; the
+ * ticket and its QR stay valid for the sender until they accept.
+ */
+const TicketTransferModal: React.FC<TicketTransferModalProps> = ({
+  ticket,
+  eventTitle,
+  eventStart,
+  isOpen,
+  onClose,
+  onTransferChange,
+}) => {
+  const user = useSelector(selectUser);
+  const isImpersonating = !!useSelector(selectImpersonation);
+  const [step, setStep] = useState<Step>('details');
+  const [form, setForm] = useState<TicketTransferData>(emptyForm);
+  const [errors, setErrors] = useState<TransferErrors>({});
+  const [transfers, setTransfers] = useState<TicketTransfer[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setStep('details');
+    setForm(emptyForm);
+    setErrors({});
+    setIsLoadingHistory(true);
+    bookingAPI
+      .getTicketTransfers(ticket.id)
+      .then(setTransfers)
+      .catch(() => setTransfers([]))
+      .finally(() => setIsLoadingHistory(false));
+  }, [isOpen, ticket.id]);
+
+  if (!isOpen) return null;
+
+  const pendingTransfer = getPendingTransfer(transfers);
+  const blocker = getTransferBlocker(ticket, transfers, eventStart);
+  const history = sortTransferHistory(transfers);
+
+  const updateTransfers = (next: TicketTransfer[]) => {
+    setTransfers(next);
+    onTransferChange?.(next);
+  };
+
+  const handleChange = (field: keyof TicketTransferData, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleReview = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validateTransferRecipient(form, user?.email);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length === 0) {
+      setStep('confirm');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (isImpersonating) return;
+
+    try {
+      setIsSubmitting(true);
+      const transfer = await bookingAPI.transferTicket(ticket.id, normalizeTransferData(form));
+      updateTransfers([transfer, ...transfers]);
+      setStep('sent');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to transfer ticket');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelTransfer = async (transfer: TicketTransfer) => {
+    if (isImpersonating) return;
+    if (!window.confirm(`Cancel the transfer to ${transfer.recipientName}? Their link will stop working.`)) return;
+
+    try {
+      setIsSubmitting(true);
+      await bookingAPI.cancelTicketTransfer(ticket.id, transfer._id);
+      updateTransfers(
+        transfers.map((item) => (item._id === transfer._id ? { ...item, status: 'cancelled' as const } : item))
+      );
+      toast.success('Transfer cancelled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to cancel transfer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const contact = form.method === 'email' ? form.recipientEmail : form.recipientPhone;
+
+  const renderDetails = () => {
+    if (pendingTransfer) {
+      return (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="font-medium text-yellow-900 flex items-center">
+            <Clock className="w-4 h-4 mr-2" />
+            Waiting for {pendingTransfer.recipientName} to accept
+          </p>
+          <p className="text-sm text-yellow-800 mt-1">
+            Sent to {getTransferRecipientContact(pendingTransfer)}
+            {pendingTransfer.expiresAt && ` · expires ${format(new Date(pendingTransfer.expiresAt), 'MMM d, h:mm a')}`}.
+            Your QR code keeps working until they accept.
+          </p>
+          <button
+            type="button"
+            onClick={() => handleCancelTransfer(pendingTransfer)}
+            disabled={isSubmitting || isImpersonating}
+            className="mt-3 px-3 py-1.5 text-sm border border-yellow-300 text-yellow-900 rounded-lg hover:bg-yellow-100 disabled:opacity-50"
+          >
+            Cancel transfer
+          </button>
+        </div>
+      );
+    }
+
+    if (blocker) {
+      return <p className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700">{blocker}</p>;
+    }
+
+    if (isImpersonating) {
+      return <ImpersonationNotice />;
+    }
+
+    return (
+      <form onSubmit={handleReview} className="space-y-4">
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">Send the ticket by</p>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { method: 'email', label: 'Email', Icon: Mail },
+              { method: 'sms', label: 'SMS', Icon: MessageSquare },
+            ] as { method: TicketDeliveryMethod; label: string; Icon: typeof Mail }[]).map(({ method, label, Icon }) => (
+              <button
+                key={method}
+                type="button"
+                onClick={() => handleChange('method', method)}
+                className={`flex items-center justify-center px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                  form.method === method
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="recipientName" className="block text-sm font-medium text-gray-700 mb-1">
+            Recipient's name
+          </label>
+          <input
+            id="recipientName"
+            type="text"
+            value={form.recipientName}
+            onChange={(e) => handleChange('recipientName', e.target.value)}
+            placeholder="e.g. Grandma"
+            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary focus:border-primary ${
+              errors.recipientName ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {errors.recipientName && <p className="mt-1 text-sm text-red-600">{errors.recipientName}</p>}
+        </div>
+
+        {form.method === 'email' ? (
+          <div>
+            <label htmlFor="recipientEmail" className="block text-sm font-medium text-gray-700 mb-1">
+              Recipient's email
+            </label>
+            <input
+              id="recipientEmail"
+              type="email"
+              value={form.recipientEmail}
+              onChange={(e) => handleChange('recipientEmail', e.target.value)}
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary focus:border-primary ${
+                errors.recipientEmail ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.recipientEmail && <p className="mt-1 text-sm text-red-600">{errors.recipientEmail}</p>}
+          </div>
+        ) : (
+          <div>
+            <label htmlFor="recipientPhone" className="block text-sm font-medium text-gray-700 mb-1">
+              Recipient's mobile number
+            </label>
+            <input
+              id="recipientPhone"
+              type="tel"
+              value={form.recipientPhone}
+              onChange={(e) => handleChange('recipientPhone', e.target.value)}
+              placeholder="+971 50 123 4567"
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary focus:border-primary ${
+                errors.recipientPhone ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.recipientPhone && <p className="mt-1 text-sm text-red-600">{errors.recipientPhone}</p>}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="transferMessage" className="block text-sm font-medium text-gray-700 mb-1">
+            Message (optional)
+          </label>
+          <textarea
+            id="transferMessage"
+            rows={2}
+            value={form.message}
+            onChange={(e) => handleChange('message', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+          />
+        </div>
+
+        <button
+          type="submit"
+          className="w-full px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark transition-colors"
+        >
+          Review transfer
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Transfer Ticket</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {eventTitle} · {ticket.attendeeName} · #{ticket.ticketNumber.slice(-8)}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {isLoadingHistory ? (
+            <div className="h-32 bg-gray-100 rounded-lg animate-pulse" />
+          ) : step === 'details' ? (
+            renderDetails()
+          ) : step === 'confirm' ? (
+            <div className="space-y-4">
+              <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700 space-y-1">
+                <p>
+                  <span className="font-medium">To:</span> {form.recipientName.trim()} ({contact?.trim()})
+                </p>
+                <p>
+                  <span className="font-medium">Sent by:</span> {form.method === 'email' ? 'Email' : 'SMS'}
+                </p>
+                {form.message?.trim() && (
+                  <p>
+                    <span className="font-medium">Message:</span> {form.message.trim()}
+                  </p>
+                )}
+              </div>
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                When {form.recipientName.trim()} accepts, the ticket moves to them with a new QR code and your
+                current QR code stops working. You can cancel the transfer until then.
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setStep('details')}
+                  disabled={isSubmitting}
+                  className="flex-1 inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirm}
+                  disabled={isSubmitting || isImpersonating}
+                  className="flex-1 inline-flex items-center justify-center px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  {isSubmitting ? 'Sending...' : 'Send transfer'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="text-center py-4">
+              <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+              <p className="font-medium text-gray-900">Transfer sent to {form.recipientName.trim()}</p>
+              <p className="text-sm text-gray-600 mt-1">
+                We'll let you know when they accept. Your QR code keeps working until then.
+              </p>
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Transfer history</h3>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {history.map((transfer) => (
+                  <li key={transfer._id} className="flex items-center justify-between px-4 py-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{transfer.recipientName}</p>
+                      <p className="text-gray-500 truncate">
+                        {getTransferRecipientContact(transfer)} · {format(new Date(transfer.createdAt), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                    <span
+                      className={`ml-3 inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[transfer.status]}`}
+                    >
+                      {transfer.status.charAt(0).toUpperCase() + transfer.status.slice(1)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TicketTransferModal;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Minus, Plus, Tag } from 'lucide-react';
+import type { EventDateSchedule, EventTicketType } from '../../types/event';
+import {
+  canAddTicket,
+  describeAgeLimit,
+  getActivePriceTier,
+  getTicketTypeId,
+  getTicketTypePrice,
+  getTicketTypeRemaining,
+  TicketSelection,
+} from '../../utils/ticketTypeUtils';
+
+interface TicketTypeSelectorProps {
+  ticketTypes: EventTicketType[];
+  selection: TicketSelection;
+  schedule?: EventDateSchedule | null;
+  currency: string;
+  maxTickets: number; // Cap on the whole booking (seats left, per-booking limit)
+  onChange: (selection: TicketSelection) => void;
+}
+
+/**
+ * Quantity per ticket type with the price in effect for the chosen date
+ */
+const TicketTypeSelector: React.FC<TicketTypeSelectorProps> = ({
+  ticketTypes,
+  selection,
+  schedule,
+  currency,
+  maxTickets,
+  onChange,
+}) => {
+  const setQuantity = (ticketTypeId: string, quantity: number) => {
+    onChange({ ...selection, [ticketTypeId]: Math.max(0, quantity) });
+  };
+
+  return (
+    <div className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+      {ticketTypes.map((ticketType) => {
+        const ticketTypeId = getTicketTypeId(ticketType);
+        const quantity = selection[ticketTypeId] || 0;
+        const { price, tierLabel } = getTicketTypePrice(ticketType, schedule);
+        const tier = tierLabel ? getActivePriceTier(ticketType) : undefined;
+        const remaining = getTicketTypeRemaining(ticketType, schedule);
+        const ageLimit = describeAgeLimit(ticketType);
+        const canAdd = canAddTicket(ticketType, selection, schedule, maxTickets);
+
+        return (
+          <div key={ticketTypeId} className="flex items-center justify-between gap-4 p-4">
+            <div className="min-w-0">
+              <div className="font-semibold text-gray-900">{ticketType.name}</div>
+              {ticketType.description && <div className="text-xs text-gray-500">{ticketType.description}</div>}
+              <div className="mt-1 flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-bold text-gray-900">
+                  {currency} {price.toFixed(2)}
+                </span>
+                {tierLabel && price !== ticketType.price && (
+                  <span className="text-xs text-gray-400 line-through">
+                    {currency} {ticketType.price.toFixed(2)}
+                  </span>
+                )}
+                {tierLabel && (
+                  <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                    <Tag className="me-1 h-3 w-3" />
+                    {tierLabel}
+                    {tier && ` until ${new Date(`${tier.endsAt}T00:00:00`).toLocaleDateString()}`}
+                  </span>
+                )}
+                {ageLimit && <span className="text-xs text-gray-500">{ageLimit}</span>}
+                {remaining !== undefined && remaining <= 10 && (
+                  <span className="text-xs font-medium text-orange-600">
+                    {remaining === 0 ? 'Sold out' : `Only ${remaining} left`}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-shrink-0 items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setQuantity(ticketTypeId, quantity - 1)}
+                disabled={quantity <= 0}
+                className="flex h-9 w-9 items-center justify-center rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40"
+                aria-label={`Remove one ${ticketType.name} ticket`}
+              >
+                <Minus className="h-4 w-4" />
+              </button>
+              <span className="w-6 text-center text-lg font-bold text-gray-900">{quantity}</span>
+              <button
+                type="button"
+                onClick={() => setQuantity(ticketTypeId, quantity + 1)}
+                disabled={!canAdd}
+                className="flex h-9 w-9 items-center justify-center rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40"
+                aria-label={`Add one ${ticketType.name} ticket`}
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TicketTypeSelector;
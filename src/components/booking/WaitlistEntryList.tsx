@@ -0,0 +1,145 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { Clock } from 'lucide-react';
+import { AppDispatch } from '@/store';
+import {
+  leaveWaitlist,
+  selectIsWaitlistLoading,
+  selectLeavingWaitlistId,
+  selectWaitlistEntries,
+  selectWaitlistError,
+} from '@/store/slices/waitlistSlice';
+import type { WaitlistEntry, WaitlistStatus } from '@/types/waitlist';
+import {
+  formatTimeRemaining,
+  getClaimPath,
+  getOfferTimeRemaining,
+  isOfferActive,
+  isOpenEntry,
+} from '@/utils/waitlistUtils';
+import { getEventImage } from '@/utils/imageFallbacks';
+
+const STATUS_LABELS: Record<WaitlistStatus, { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'bg-blue-100 text-blue-800' },
+  offered: { label: 'Seats offered', className: 'bg-green-100 text-green-800' },
+  claimed: { label: 'Booked', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Offer expired', className: 'bg-yellow-100 text-yellow-800' },
+  declined: { label: 'Declined', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Left', className: 'bg-gray-100 text-gray-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+};
+
+/**
+ * The family's waitlist entries for the "Waitlist" tab on My Bookings
+ */
+const WaitlistEntryList: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const entries = useSelector(selectWaitlistEntries);
+  const isLoading = useSelector(selectIsWaitlistLoading);
+  const error = useSelector(selectWaitlistError);
+  const leavingId = useSelector(selectLeavingWaitlistId);
+
+  // Open entries first, most recent activity first within each group
+  const sortedEntries = [...entries].sort(
+    (a, b) =>
+      Number(isOpenEntry(b)) - Number(isOpenEntry(a)) ||
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+
+  if (isLoading && entries.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Loading your waitlist...</div>;
+  }
+
+  if (error && entries.length === 0) {
+    return <div className="text-center py-8 text-red-600">{error}</div>;
+  }
+
+  if (sortedEntries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">You're not on any waitlists</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          When a date is sold out, join its waitlist from the event page and it will show up here.
+        </p>
+      </div>
+    );
+  }
+
+  const renderStatus = (entry: WaitlistEntry) => {
+    // An offer past its deadline reads as expired even before the backend catches up
+    const status = entry.status === 'offered' && !isOfferActive(entry) ? 'expired' : entry.status;
+    const { label, className } = STATUS_LABELS[status];
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}>
+        {label}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {sortedEntries.map((entry) => {
+        const title = entry.event?.title || 'Event';
+        const offerActive = isOfferActive(entry);
+
+        return (
+          <div key={entry._id} className="flex gap-4 border rounded-lg p-4 shadow-sm">
+            <img
+              src={getEventImage(entry.event?.images, title, 160, 160)}
+              alt={title}
+              className="w-20 h-20 rounded object-cover flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <Link to={`/events/${entry.eventId}`} className="font-semibold text-gray-900 hover:text-primary">
+                  {title}
+                </Link>
+                {renderStatus(entry)}
+              </div>
+              <div className="text-sm text-gray-500 space-y-0.5">
+                {entry.schedule?.startDateTime && (
+                  <p>{new Date(entry.schedule.startDateTime).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                )}
+                <p>
+                  {entry.participants} {entry.participants === 1 ? 'participant' : 'participants'}
+                  {entry.status === 'waiting' && entry.position > 0 && (
+                    <> · Position <span className="font-semibold text-gray-900">#{entry.position}</span></>
+                  )}
+                </p>
+                {offerActive && (
+                  <p className="flex items-center text-green-700 font-medium">
+                    <Clock className="w-4 h-4 me-1" />
+                    Claim within {formatTimeRemaining(getOfferTimeRemaining(entry.offerExpiresAt))}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-col gap-2 justify-center">
+              {offerActive && entry.claimToken && (
+                <Link
+                  to={getClaimPath(entry.claimToken)}
+                  className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+                >
+                  Claim seats
+                </Link>
+              )}
+              {entry.status === 'waiting' && (
+                <button
+                  type="button"
+                  onClick={() => dispatch(leaveWaitlist(entry._id))}
+                  disabled={leavingId === entry._id}
+                  className="inline-flex items-center justify-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-60"
+                >
+                  {leavingId === entry._id ? 'Leaving...' : 'Leave waitlist'}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WaitlistEntryList;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { Clock, Minus, Plus, Users } from 'lucide-react';
+import { AppDispatch } from '../../store';
+import {
+  fetchMyWaitlist,
+  joinWaitlist,
+  leaveWaitlist,
+  selectIsJoiningWaitlist,
+  selectLeavingWaitlistId,
+  selectWaitlistEntries,
+  selectWaitlistHasLoaded,
+} from '../../store/slices/waitlistSlice';
+import { useAuthContext } from '@/contexts/AuthContext';
+import {
+  formatTimeRemaining,
+  getActiveWaitlistEntry,
+  getClaimPath,
+  getOfferTimeRemaining,
+  isOfferActive,
+} from '../../utils/waitlistUtils';
+
+interface WaitlistPanelProps {
+  eventId: string;
+  dateScheduleId: string;
+  maxParticipants?: number;
+}
+
+/**
+ * Shown in place of booking when the selected schedule is sold out: join the waitlist,
+ * see your place in it, or follow the claim link once seats are offered.
+ */
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ eventId, dateScheduleId, maxParticipants = 10 }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const location = useLocation();
+  const { isAuthenticated } = useAuthContext();
+  const entries = useSelector(selectWaitlistEntries);
+  const hasLoaded = useSelector(selectWaitlistHasLoaded);
+  const isJoining = useSelector(selectIsJoiningWaitlist);
+  const leavingId = useSelector(selectLeavingWaitlistId);
+  const [participants, setParticipants] = useState(1);
+
+  useEffect(() => {
+    if (isAuthenticated && !hasLoaded) {
+      dispatch(fetchMyWaitlist());
+    }
+  }, [isAuthenticated, hasLoaded, dispatch]);
+
+  const entry = getActiveWaitlistEntry(entries, eventId, dateScheduleId);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+        <p className="font-semibold mb-1">This date is sold out</p>
+        <p className="mb-3">Join the waitlist and we'll send you a link to book if seats free up.</p>
+        <Link
+          to="/login"
+          state={{ from: location }}
+          className="inline-block px-4 py-2 rounded-lg bg-amber-500 text-white font-semibold hover:bg-amber-600"
+        >
+          Log in to join the waitlist
+        </Link>
+      </div>
+    );
+  }
+
+  if (entry && isOfferActive(entry) && entry.claimToken) {
+    return (
+      <div className="rounded-xl border border-green-200 bg-green-50 p-4 text-sm text-green-900">
+        <p className="font-semibold mb-1">Seats are being held for you</p>
+        <p className="flex items-center mb-3">
+          <Clock className="w-4 h-4 me-1.5" />
+          Claim within {formatTimeRemaining(getOfferTimeRemaining(entry.offerExpiresAt))}
+        </p>
+        <Link
+          to={getClaimPath(entry.claimToken)}
+          className="block w-full py-3 rounded-xl text-center font-bold bg-green-600 text-white hover:bg-green-700"
+        >
+          Claim {entry.participants} {entry.participants === 1 ? 'seat' : 'seats'}
+        </Link>
+      </div>
+    );
+  }
+
+  if (entry) {
+    return (
+      <div className="rounded-xl border border-blue-200 bg-blue-50 p-4 text-sm text-blue-900">
+        <p className="font-semibold mb-1">You're on the waitlist</p>
+        <p className="mb-3">
+          Position <strong>#{entry.position}</strong> for {entry.participants}{' '}
+          {entry.participants === 1 ? 'participant' : 'participants'}. We'll email you a claim link if seats free up.
+        </p>
+        <button
+          type="button"
+          onClick={() => dispatch(leaveWaitlist(entry._id))}
+          disabled={leavingId === entry._id}
+          className="px-4 py-2 rounded-lg border border-blue-300 bg-white font-medium hover:bg-blue-100 disabled:opacity-60"
+        >
+          {leavingId === entry._id ? 'Leaving...' : 'Leave waitlist'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 space-y-3">
+      <div>
+        <p className="font-semibold mb-1">This date is sold out</p>
+        <p>Join the waitlist and we'll send you a link to book if seats free up.</p>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="flex items-center font-medium">
+          <Users className="w-4 h-4 me-1.5" />
+          Participants
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setParticipants(Math.max(1, participants - 1))}
+            disabled={participants <= 1}
+            className="w-8 h-8 flex items-center justify-center rounded-lg bg-white border border-amber-200 disabled:opacity-50"
+            aria-label="Fewer participants"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <span className="w-6 text-center font-bold">{participants}</span>
+          <button
+            type="button"
+            onClick={() => setParticipants(Math.min(maxParticipants, participants + 1))}
+            disabled={participants >= maxParticipants}
+            className="w-8 h-8 flex items-center justify-center rounded-lg bg-white border border-amber-200 disabled:opacity-50"
+            aria-label="More participants"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={() => dispatch(joinWaitlist({ eventId, dateScheduleId, participants }))}
+        disabled={isJoining || !hasLoaded}
+        className="w-full py-3 rounded-xl font-bold bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-60"
+      >
+        {isJoining ? 'Joining...' : 'Join Waitlist'}
+      </button>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
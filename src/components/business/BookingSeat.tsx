@@ -1,33 +1,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { toast } from 'react-hot-toast';
+import seatingAPI from '../../services/api/seatingAPI';
+import type { BookableSeat, BookableSeatSection, ScheduleSeatAvailability } from '../../types/seating';
+import { applySeatAvailability, SEAT_SIZE } from '../../utils/seatMapUtils';
 
-interface Seat {
-  id: string;
-  row: string;
-  number: number;
-  section?: string;
-  type: 'standard' | 'premium' | 'vip' | 'accessible';
-  status: 'available' | 'selected' | 'reserved' | 'sold';
-  price: number;
-  x: number;
-  y: number;
-}
-
-interface SeatSection {
-  id: string;
-  name: string;
-  type: 'standard' | 'premium' | 'vip';
-  color: string;
-  seats: Seat[];
-}
+type Seat = BookableSeat;
 
 interface BookingSeatProps {
   eventId: string;
-  venueId: string;
-  dateScheduleId?: string;
+  dateScheduleId: string;
+  price: number; // Price per seat for the chosen date
+  currency?: string;
   maxSeats?: number;
   onSeatsSelected?: (seats: Seat[]) => void;
-  onPriceChange?: (totalPrice: number) => void;
   initialSelectedSeats?: string[];
   disabled?: boolean;
   showLegend?: boolean;
@@ -37,75 +22,43 @@ interface BookingSeatProps {
 
 const BookingSeat: React.FC<BookingSeatProps> = ({
   eventId,
-  venueId,
   dateScheduleId,
+  price,
+  currency = 'AED',
   maxSeats = 8,
   onSeatsSelected,
-  onPriceChange,
   initialSelectedSeats = [],
   disabled = false,
   showLegend = true,
   showSummary = true,
   className = ''
 }) => {
-  const [sections, setSections] = useState<SeatSection[]>([]);
+  const [availability, setAvailability] = useState<ScheduleSeatAvailability | null>(null);
   const [selectedSeats, setSelectedSeats] = useState<string[]>(initialSelectedSeats);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [hoveredSeat, setHoveredSeat] = useState<string | null>(null);
   const [zoomLevel, setZoomLevel] = useState(1);
-  const [viewBox, setViewBox] = useState({ x: 0, y: 0, width: 800, height: 600 });
 
   useEffect(() => {
     loadSeatMap();
-  }, [eventId, venueId, dateScheduleId]);
-
-  useEffect(() => {
-    if (onSeatsSelected) {
-      const seats = getAllSeats().filter(seat => selectedSeats.includes(seat.id));
-      onSeatsSelected(seats);
-    }
-    
-    if (onPriceChange) {
-      const totalPrice = selectedSeats.reduce((sum, seatId) => {
-        const seat = getAllSeats().find(s => s.id === seatId);
-        return sum + (seat?.price || 0);
-      }, 0);
-      onPriceChange(totalPrice);
-    }
-  }, [selectedSeats, onSeatsSelected, onPriceChange]);
+  }, [eventId, dateScheduleId]);
 
+  // Sold and reserved states come from the backend for this date schedule
   const loadSeatMap = async () => {
     setLoading(true);
     setError('');
 
     try {
-      // Mock data - replace with actual API call
-      const mockSections: SeatSection[] = [
-        {
-          id: 'section-a',
-          name: 'Section A - Premium',
-          type: 'premium',
-          color: '#f59e0b',
-          seats: generateSeats('A', 10, 15, 150, 'premium', 100, 100)
-        },
-        {
-          id: 'section-b',
-          name: 'Section B - Standard',
-          type: 'standard',
-          color: '#3b82f6',
-          seats: generateSeats('B', 15, 20, 100, 'standard', 100, 300)
-        },
-        {
-          id: 'section-c',
-          name: 'Section C - VIP',
-          type: 'vip',
-          color: '#dc2626',
-          seats: generateSeats('C', 5, 8, 300, 'vip', 400, 150)
-        }
-      ];
-
-      setSections(mockSections);
+      const seatAvailability = await seatingAPI.getScheduleSeats(eventId, dateScheduleId);
+      setAvailability(seatAvailability);
+
+      // Drop seats someone else booked since they were picked
+      const stillFree = selectedSeats.filter(seatId => !seatAvailability.unavailable[seatId]);
+      if (stillFree.length !== selectedSeats.length) {
+        toast.error('Some of your seats were just taken. Please choose again.');
+        updateSelection(stillFree, seatAvailability);
+      }
     } catch (error: any) {
       console.error('Failed to load seat map:', error);
       setError('Failed to load seat map');
@@ -115,50 +68,32 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
     }
   };
 
-  // Helper function to generate seats for a section
-  const generateSeats = (
-    rowPrefix: string,
-    rows: number,
-    seatsPerRow: number,
-    price: number,
-    type: Seat['type'],
-    startX: number,
-    startY: number
-  ): Seat[] => {
-    const seats: Seat[] = [];
-    const seatSize = 25;
-    const seatGap = 5;
-
-    for (let row = 0; row < rows; row++) {
-      for (let seatNum = 1; seatNum <= seatsPerRow; seatNum++) {
-        const seatId = `${rowPrefix}${row + 1}-${seatNum}`;
-        const randomStatus = Math.random();
-        let status: Seat['status'] = 'available';
-        
-        if (randomStatus < 0.1) status = 'sold';
-        else if (randomStatus < 0.15) status = 'reserved';
+  const sections: BookableSeatSection[] = useMemo(
+    () => (availability ? applySeatAvailability(availability, price, selectedSeats) : []),
+    [availability, price, selectedSeats]
+  );
 
-        seats.push({
-          id: seatId,
-          row: `${rowPrefix}${row + 1}`,
-          number: seatNum,
-          section: rowPrefix,
-          type,
-          status: selectedSeats.includes(seatId) ? 'selected' : status,
-          price,
-          x: startX + (seatNum - 1) * (seatSize + seatGap),
-          y: startY + row * (seatSize + seatGap)
-        });
-      }
-    }
+  const allSeats = useMemo(() => {
+    return sections.flatMap(section => section.seats);
+  }, [sections]);
 
-    return seats;
+  const viewBox = {
+    x: 0,
+    y: 0,
+    width: availability?.seatMap.width || 800,
+    height: availability?.seatMap.height || 600
   };
 
-  // Get all seats from all sections
-  const getAllSeats = useMemo(() => {
-    return sections.flatMap(section => section.seats);
-  }, [sections]);
+  const updateSelection = (seatIds: string[], seatAvailability = availability) => {
+    setSelectedSeats(seatIds);
+    if (onSeatsSelected && seatAvailability) {
+      onSeatsSelected(
+        applySeatAvailability(seatAvailability, price, seatIds)
+          .flatMap(section => section.seats)
+          .filter(seat => seatIds.includes(seat.id))
+      );
+    }
+  };
 
   // Handle seat click
   const handleSeatClick = (seat: Seat) => {
@@ -179,7 +114,7 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
       newSelectedSeats = [...selectedSeats, seat.id];
     }
 
-    setSelectedSeats(newSelectedSeats);
+    updateSelection(newSelectedSeats);
   };
 
   // Get seat color based on status
@@ -208,17 +143,13 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-AE', {
       style: 'currency',
-      currency: 'AED',
+      currency,
     }).format(price);
   };
 
   // Calculate totals
-  const totalPrice = selectedSeats.reduce((sum, seatId) => {
-    const seat = getAllSeats().find(s => s.id === seatId);
-    return sum + (seat?.price || 0);
-  }, 0);
-
-  const selectedSeatDetails = getAllSeats().filter(seat => selectedSeats.includes(seat.id));
+  const selectedSeatDetails = allSeats.filter(seat => selectedSeats.includes(seat.id));
+  const totalPrice = selectedSeatDetails.reduce((sum, seat) => sum + seat.price, 0);
 
   if (loading) {
     return (
@@ -294,7 +225,7 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
               fontSize="14"
               fontWeight="bold"
             >
-              STAGE
+              {availability?.seatMap.stageLabel || 'STAGE'}
             </text>
 
             {/* Sections and Seats */}
@@ -302,8 +233,8 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
               <g key={section.id}>
                 {/* Section Label */}
                 <text
-                  x={section.seats[0]?.x - 20}
-                  y={section.seats[0]?.y - 10}
+                  x={section.x}
+                  y={section.y - 6}
                   fill="#374151"
                   fontSize="12"
                   fontWeight="bold"
@@ -317,8 +248,8 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
                     <rect
                       x={seat.x}
                       y={seat.y}
-                      width={20}
-                      height={20}
+                      width={SEAT_SIZE}
+                      height={SEAT_SIZE}
                       fill={getSeatColor(seat)}
                       stroke={getSeatBorder(seat)}
                       strokeWidth={1}
@@ -333,7 +264,7 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
                       onMouseLeave={() => setHoveredSeat(null)}
                     />
                     <text
-                      x={seat.x + 10}
+                      x={seat.x + SEAT_SIZE / 2}
                       y={seat.y + 14}
                       textAnchor="middle"
                       fill={seat.status === 'selected' || seat.status === 'sold' ? 'white' : '#374151'}
@@ -388,7 +319,7 @@ const BookingSeat: React.FC<BookingSeatProps> = ({
               {selectedSeatDetails.map(seat => (
                 <div key={seat.id} className="flex justify-between text-sm">
                   <span>
-                    {seat.section}{seat.row} - Seat {seat.number}
+                    {seat.section} · Row {seat.row}, Seat {seat.number}
                     {seat.type !== 'standard' && (
                       <span className="ml-1 text-xs text-gray-500">({seat.type})</span>
                     )}
@@ -1,12 +1,24 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { toast } from 'react-hot-toast';
 import { couponAPI } from '../../services/api/index';
 import type { CouponValidation } from '../../services/api/index';
 import LoadingSpinner from '../common/LoadingSpinner';
+import CouponEligibility from '../checkout/CouponEligibility';
+import { AppDispatch } from '../../store';
+import { fetchActiveCoupons, selectActiveCoupons } from '../../store/slices/couponsSlice';
+import {
+  evaluateCoupon,
+  findCouponByCode,
+  CouponCartLine,
+  CouponCustomerContext
+} from '../../utils/couponUtils';
 
 interface CouponValidatorProps {
   orderId?: string;
   orderAmount: number;
+  lines?: CouponCartLine[];
+  customer?: CouponCustomerContext;
   currency?: string;
   onValidCoupon?: (validation: CouponValidation) => void;
   onInvalidCoupon?: (error: string) => void;
@@ -19,6 +31,8 @@ interface CouponValidatorProps {
 const CouponValidator: React.FC<CouponValidatorProps> = ({
   orderId,
   orderAmount,
+  lines = [],
+  customer,
   currency = 'AED',
   onValidCoupon,
   onInvalidCoupon,
@@ -33,6 +47,22 @@ const CouponValidator: React.FC<CouponValidatorProps> = ({
   const [error, setError] = useState<string>('');
   const [debounceTimer, setDebounceTimer] = useState<NodeJS.Timeout | null>(null);
 
+  const dispatch = useDispatch<AppDispatch>();
+  const activeCoupons = useSelector(selectActiveCoupons) || [];
+
+  // Public coupon rules are needed for the client-side preview
+  useEffect(() => {
+    if (lines.length > 0 && activeCoupons.length === 0) {
+      dispatch(fetchActiveCoupons());
+    }
+  }, [lines.length, activeCoupons.length, dispatch]);
+
+  // Explain per line item why the typed code applies or not, before the server validates it
+  const preview = useMemo(() => {
+    const coupon = findCouponByCode(activeCoupons, couponCode);
+    return coupon && lines.length > 0 ? evaluateCoupon(coupon, lines, customer) : null;
+  }, [activeCoupons, couponCode, lines, customer]);
+
   // Debounced validation
   const validateCoupon = useCallback(async (code: string) => {
     if (!code.trim()) {
@@ -174,6 +204,9 @@ const CouponValidator: React.FC<CouponValidatorProps> = ({
         )}
       </div>
 
+      {/* Rule preview before server validation */}
+      {!appliedCoupon && <CouponEligibility evaluation={preview} currency={currency} />}
+
       {/* Status Messages */}
       {error && (
         <div className="flex items-start p-3 bg-red-50 border border-red-200 rounded-md">
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Check, X, AlertCircle, Info } from 'lucide-react';
+import { CouponEvaluation } from '../../utils/couponUtils';
+
+interface CouponEligibilityProps {
+  evaluation: CouponEvaluation | null;
+  currency?: string;
+  className?: string;
+}
+
+/**
+ * Explains, per cart line, why a coupon applies or not. Shown as a preview
+ * while the customer types a code, before the server validates it.
+ */
+const CouponEligibility: React.FC<CouponEligibilityProps> = ({
+  evaluation,
+  currency = 'AED',
+  className = '',
+}) => {
+  if (!evaluation) {
+    return null;
+  }
+
+  const format = (amount: number) => `${currency} ${amount.toFixed(2)}`;
+
+  return (
+    <div className={`rounded-md border p-3 text-sm ${evaluation.isValid ? 'border-green-200 bg-green-50' : 'border-amber-200 bg-amber-50'} ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className={`font-medium ${evaluation.isValid ? 'text-green-800' : 'text-amber-800'}`}>
+          {evaluation.isValid
+            ? `${evaluation.code} should save you ${format(evaluation.discountAmount)}`
+            : `${evaluation.code} doesn't apply to this order yet`}
+        </span>
+        {evaluation.isCapped && (
+          <span className="text-xs text-gray-600">Maximum discount reached</span>
+        )}
+      </div>
+
+      {evaluation.orderIssues.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {evaluation.orderIssues.map(issue => (
+            <li key={issue.reason} className="flex items-start text-amber-800">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {evaluation.lines.length > 0 && (
+        <ul className="space-y-1">
+          {evaluation.lines.map(line => (
+            <li key={line.lineId} className="flex items-start justify-between">
+              <span className="flex items-start">
+                {line.eligible ? (
+                  <Check className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                ) : (
+                  <X className="w-4 h-4 mr-2 mt-0.5 text-red-500 flex-shrink-0" />
+                )}
+                <span>
+                  <span className="text-gray-900">{line.title || 'Item'}</span>
+                  {!line.eligible && (
+                    <span className="block text-xs text-gray-600">
+                      {line.issues.map(issue => issue.message).join(' • ')}
+                    </span>
+                  )}
+                </span>
+              </span>
+              {line.eligible && line.discount > 0 && (
+                <span className="text-green-700 whitespace-nowrap">-{format(line.discount)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="flex items-center text-xs text-gray-500 mt-2">
+        <Info className="w-3 h-3 mr-1" />
+        Final discount is confirmed when you pay.
+      </p>
+    </div>
+  );
+};
+
+export default CouponEligibility;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import {
   Tag,
@@ -15,12 +15,30 @@ import toast from 'react-hot-toast';
 import Button from '../ui/Button';
 import { Card, CardContent } from '../ui/Card';
 import Badge from '../ui/Badge';
-import { RootState, AppDispatch } from '../../store';
-import { validateCoupon, clearValidationResult } from '../../store/slices/couponsSlice';
+import CouponEligibility from './CouponEligibility';
+import { AppDispatch } from '../../store';
+import {
+  validateCoupon,
+  clearValidationResult,
+  fetchActiveCoupons,
+  selectActiveCoupons,
+  selectValidationResult,
+  selectValidationError,
+  selectCouponsValidating
+} from '../../store/slices/couponsSlice';
+import {
+  evaluateCoupon,
+  findCouponByCode,
+  CouponCartLine,
+  CouponCustomerContext
+} from '../../utils/couponUtils';
 
 interface CouponValidatorProps {
   orderAmount: number;
   eventIds?: string[];
+  lines?: CouponCartLine[];
+  customer?: CouponCustomerContext;
+  currency?: string;
   onCouponApplied?: (coupon: any, discount: number) => void;
   onCouponRemoved?: () => void;
   appliedCoupon?: any;
@@ -29,53 +47,58 @@ interface CouponValidatorProps {
 const CouponValidator: React.FC<CouponValidatorProps> = ({
   orderAmount,
   eventIds = [],
+  lines = [],
+  customer,
+  currency = 'AED',
   onCouponApplied,
   onCouponRemoved,
   appliedCoupon: initialAppliedCoupon
 }) => {
   const dispatch = useDispatch<AppDispatch>();
-  const { validatedCoupon, loading, error } = useSelector((state: RootState) => state.coupons);
+  const activeCoupons = useSelector(selectActiveCoupons) || [];
+  const validationResult = useSelector(selectValidationResult);
+  const error = useSelector(selectValidationError);
+  const isValidating = useSelector(selectCouponsValidating);
 
   const [couponCode, setCouponCode] = useState('');
   const [appliedCoupon, setAppliedCoupon] = useState(initialAppliedCoupon);
+  const [appliedDiscount, setAppliedDiscount] = useState(0);
   const [isExpanded, setIsExpanded] = useState(false);
 
+  // Public coupon rules are needed for the client-side preview
   useEffect(() => {
-    if (validatedCoupon && !appliedCoupon) {
-      const discount = calculateDiscount(validatedCoupon);
-      setAppliedCoupon(validatedCoupon);
-      onCouponApplied?.(validatedCoupon, discount);
-      toast.success(`Coupon applied! You saved ${formatDiscount(validatedCoupon, discount)}`);
+    if (isExpanded && activeCoupons.length === 0) {
+      dispatch(fetchActiveCoupons());
     }
-  }, [validatedCoupon, appliedCoupon, onCouponApplied]);
+  }, [isExpanded, activeCoupons.length, dispatch]);
 
-  const calculateDiscount = (coupon: any): number => {
-    switch (coupon.type) {
-      case 'percentage':
-        const percentDiscount = (orderAmount * coupon.value) / 100;
-        return coupon.maxDiscount
-          ? Math.min(percentDiscount, coupon.maxDiscount)
-          : percentDiscount;
-      case 'fixed_amount':
-        return Math.min(coupon.value, orderAmount);
-      case 'free_shipping':
-        // Assuming shipping cost is passed or calculated elsewhere
-        return 0; // This would be the shipping amount
-      default:
-        return 0;
+  // Explain per line item why the typed code applies or not, before the server validates it
+  const preview = useMemo(() => {
+    const coupon = findCouponByCode(activeCoupons, couponCode);
+    return coupon && lines.length > 0 ? evaluateCoupon(coupon, lines, customer) : null;
+  }, [activeCoupons, couponCode, lines, customer]);
+
+  useEffect(() => {
+    if (validationResult?.isValid && !appliedCoupon) {
+      const coupon = validationResult.coupon;
+      const discount = validationResult.discountAmount;
+      setAppliedCoupon(coupon);
+      setAppliedDiscount(discount);
+      onCouponApplied?.(coupon, discount);
+      toast.success(`Coupon applied! You saved ${formatDiscount(coupon, discount)}`);
     }
-  };
+  }, [validationResult, appliedCoupon, onCouponApplied]);
 
   const formatDiscount = (coupon: any, discount: number): string => {
     switch (coupon.type) {
       case 'percentage':
-        return `${coupon.currency || 'AED'} ${discount.toFixed(2)} (${coupon.value}% off)`;
+        return `${currency} ${discount.toFixed(2)} (${coupon.value}% off)`;
       case 'fixed_amount':
-        return `${coupon.currency || 'AED'} ${discount.toFixed(2)}`;
+        return `${currency} ${discount.toFixed(2)}`;
       case 'free_shipping':
         return 'Free shipping';
       default:
-        return `${coupon.currency || 'AED'} ${discount.toFixed(2)}`;
+        return `${currency} ${discount.toFixed(2)}`;
     }
   };
 
@@ -113,6 +136,7 @@ const CouponValidator: React.FC<CouponValidatorProps> = ({
 
   const handleRemoveCoupon = () => {
     setAppliedCoupon(null);
+    setAppliedDiscount(0);
     dispatch(clearValidationResult());
     onCouponRemoved?.();
     toast.success('Coupon removed');
@@ -165,7 +189,7 @@ const CouponValidator: React.FC<CouponValidatorProps> = ({
                   Discount Applied
                 </span>
                 <span className="text-lg font-bold text-green-800">
-                  -{formatDiscount(appliedCoupon, calculateDiscount(appliedCoupon))}
+                  -{formatDiscount(appliedCoupon, appliedDiscount)}
                 </span>
               </div>
               {appliedCoupon.description && (
@@ -203,16 +227,16 @@ const CouponValidator: React.FC<CouponValidatorProps> = ({
                       onKeyPress={handleKeyPress}
                       placeholder="Enter coupon code"
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 uppercase"
-                      disabled={loading.validate}
+                      disabled={isValidating}
                     />
                   </div>
                   <Button
                     variant="primary"
                     onClick={handleApplyCoupon}
-                    loading={loading.validate}
-                    disabled={!couponCode.trim() || loading.validate}
+                    loading={isValidating}
+                    disabled={!couponCode.trim() || isValidating}
                   >
-                    {loading.validate ? (
+                    {isValidating ? (
                       <Loader2 className="w-4 h-4 animate-spin" />
                     ) : (
                       'Apply'
@@ -220,6 +244,8 @@ const CouponValidator: React.FC<CouponValidatorProps> = ({
                   </Button>
                 </div>
 
+                <CouponEligibility evaluation={preview} currency={currency} />
+
                 {error && (
                   <div className="flex items-center space-x-2 text-red-600 text-sm">
                     <AlertCircle className="w-4 h-4" />
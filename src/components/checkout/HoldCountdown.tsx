@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Clock, Loader2, RefreshCw } from 'lucide-react';
+import {
+  CartHoldSummary,
+  formatCountdown,
+  getHoldSecondsLeft,
+  HOLD_WARNING_SECONDS,
+} from '../../utils/holdUtils';
+
+interface HoldCountdownProps {
+  summary: CartHoldSummary;
+  onExpire: () => void;
+  onRecheck: () => void;
+  isRechecking?: boolean;
+  className?: string;
+}
+
+/**
+ * Time left on the cart's seat holds. Shared by cart and checkout; once a hold runs out
+ * it offers to check availability and hold the seats again.
+ */
+const HoldCountdown: React.FC<HoldCountdownProps> = ({
+  summary,
+  onExpire,
+  onRecheck,
+  isRechecking = false,
+  className = '',
+}) => {
+  const { t } = useTranslation('checkout');
+  const [secondsLeft, setSecondsLeft] = useState(() =>
+    summary.expiresAt ? getHoldSecondsLeft(summary.expiresAt) : 0
+  );
+
+  // The pages pass a new onExpire on every render; the expiry alone drives the timer
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    if (!summary.expiresAt) return;
+    const expiresAt = summary.expiresAt;
+
+    const tick = () => {
+      const seconds = getHoldSecondsLeft(expiresAt);
+      setSecondsLeft(seconds);
+      if (seconds === 0) {
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [summary.expiresAt]);
+
+  if (!summary.needsHolds) return null;
+
+  // The first hold is still being requested, so there is nothing to count down yet
+  if (summary.isPending && (!summary.expiresAt || secondsLeft === 0)) {
+    return (
+      <div className={`p-4 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800 ${className}`}>
+        <p className="font-medium flex items-center">
+          <Loader2 className="w-4 h-4 me-2 flex-shrink-0 animate-spin" />
+          {t('holdPending')}
+        </p>
+      </div>
+    );
+  }
+
+  if (!summary.allHeld || !summary.expiresAt || secondsLeft === 0) {
+    return (
+      <div className={`p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-800 ${className}`}>
+        <p className="font-medium flex items-center mb-1">
+          <AlertTriangle className="w-4 h-4 me-2 flex-shrink-0" />
+          {t('holdExpired')}
+        </p>
+        <p className="mb-3">{t('holdExpiredHelp')}</p>
+        <button
+          type="button"
+          onClick={onRecheck}
+          disabled={isRechecking}
+          className="inline-flex items-center px-3 py-1.5 bg-white border border-red-300 rounded-md text-red-700 hover:bg-red-100 disabled:opacity-60"
+        >
+          <RefreshCw className={`w-4 h-4 me-2 ${isRechecking ? 'animate-spin' : ''}`} />
+          {isRechecking ? t('checkingAvailability') : t('recheckAvailability')}
+        </button>
+      </div>
+    );
+  }
+
+  const isWarning = secondsLeft <= HOLD_WARNING_SECONDS;
+
+  return (
+    <div
+      className={`p-4 border rounded-md text-sm ${
+        isWarning ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-blue-50 border-blue-200 text-blue-800'
+      } ${className}`}
+      role="timer"
+      aria-live={isWarning ? 'polite' : 'off'}
+    >
+      <p className="font-medium flex items-center">
+        <Clock className="w-4 h-4 me-2 flex-shrink-0" />
+        {t(isWarning ? 'holdWarning' : 'holdActive', { time: formatCountdown(secondsLeft) })}
+      </p>
+      <p className="mt-1">{t('holdExplainer')}</p>
+    </div>
+  );
+};
+
+export default HoldCountdown;
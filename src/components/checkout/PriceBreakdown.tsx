@@ -0,0 +1,114 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Info } from 'lucide-react';
+import { PricingBreakdown } from '../../utils/pricingUtils';
+import { useCurrencyContext } from '../../contexts/CurrencyContext';
+
+interface PriceBreakdownProps {
+  breakdown: PricingBreakdown;
+  subtotalLabel?: string;
+  vendorNames?: Record<string, string>;
+  onRemoveDiscount?: () => void;
+  className?: string;
+}
+
+/**
+ * Renders a pricing breakdown line by line. Shared by cart, checkout and
+ * booking so every summary shows the same fees, VAT and rounding.
+ */
+const PriceBreakdown: React.FC<PriceBreakdownProps> = ({
+  breakdown,
+  subtotalLabel,
+  vendorNames = {},
+  onRemoveDiscount,
+  className = '',
+}) => {
+  const { t } = useTranslation('checkout');
+  const { formatPrice, formatDualPrice } = useCurrencyContext();
+  const format = (amount: number) => formatPrice(amount, breakdown.currency);
+  const totalInDisplayCurrency = formatDualPrice(breakdown.total, breakdown.currency);
+  const showPerVendorFees = breakdown.vendorFees.length > 1;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">{subtotalLabel ?? t('subtotal')}</span>
+        <span>{format(breakdown.subtotal)}</span>
+      </div>
+
+      {breakdown.discount > 0 && (
+        <div className="flex justify-between text-sm text-green-600">
+          <span className="flex items-center">
+            {breakdown.discountCode ? t('discountWithCode', { code: breakdown.discountCode }) : t('discount')}
+            {onRemoveDiscount && (
+              <button
+                type="button"
+                onClick={onRemoveDiscount}
+                className="ms-2 text-xs text-red-500 hover:text-red-700"
+              >
+                {t('remove')}
+              </button>
+            )}
+          </span>
+          <span>-{format(breakdown.discount)}</span>
+        </div>
+      )}
+
+      {showPerVendorFees ? (
+        breakdown.vendorFees.map(fee => (
+          <div key={fee.vendorId} className="flex justify-between text-sm text-gray-600">
+            <span>
+              {vendorNames[fee.vendorId]
+                ? t('serviceFeeVendor', { vendor: vendorNames[fee.vendorId], rate: fee.rate })
+                : t('serviceFeeRate', { rate: fee.rate })}
+            </span>
+            <span>{fee.amount > 0 ? format(fee.amount) : t('free')}</span>
+          </div>
+        ))
+      ) : breakdown.serviceFee > 0 ? (
+        <div className="flex justify-between text-sm text-gray-600">
+          <span className="flex items-center">
+            {t('serviceFeeRate', { rate: breakdown.vendorFees[0]?.rate ?? 0 })}
+            <Info className="w-3 h-3 ms-1" aria-label={t('serviceFeeHint')} />
+          </span>
+          <span>{format(breakdown.serviceFee)}</span>
+        </div>
+      ) : breakdown.subtotal > 0 ? (
+        <div className="flex justify-between text-sm text-green-600">
+          <span className="flex items-center">
+            {t('serviceFee')}
+            <Info className="w-3 h-3 ms-1" aria-label={t('noServiceFeeHint')} />
+          </span>
+          <span className="font-medium">{t('free')}</span>
+        </div>
+      ) : null}
+
+      <div className="flex justify-between text-sm text-gray-600">
+        <span>{t('vat', { rate: breakdown.taxRate })}</span>
+        <span>{format(breakdown.tax)}</span>
+      </div>
+
+      {breakdown.rounding !== 0 && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{t('rounding')}</span>
+          <span>{breakdown.rounding > 0 ? '' : '-'}{format(Math.abs(breakdown.rounding))}</span>
+        </div>
+      )}
+
+      <div className="border-t pt-2">
+        <div className="flex justify-between font-bold">
+          <span>{t('total')}</span>
+          <span>{format(breakdown.total)}</span>
+        </div>
+        {totalInDisplayCurrency.isConverted && (
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>{t('chargedIn', { currency: breakdown.currency })}</span>
+            <span>≈ {totalInDisplayCurrency.converted}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PriceBreakdown;
@@ -7,6 +7,7 @@ import 'swiper/css/navigation';
 import 'swiper/css/pagination';
 import { Scrollbar, Navigation, Pagination, Autoplay } from 'swiper/modules';
 import { FaArrowRight, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
+import { useLanguageContext } from '../../contexts/LanguageContext';
 
 // Default fallback categories with placeholder images
 const defaultCategories = [
@@ -94,6 +95,7 @@ const transformCategory = (category: Category): Category => {
 
 function CategoryCarousel({ categories = [] }: CategoryCarouselProps) {
   const navigate = useNavigate();
+  const { direction } = useLanguageContext();
 
   // Transform API categories and filter out categories with 0 events
   const transformedApiCategories = categories
@@ -136,12 +138,14 @@ function CategoryCarousel({ categories = [] }: CategoryCarouselProps) {
             onClick={handleViewAllCategories}
             className="flex items-center gap-2 text-gray-900 bg-white hover:bg-gray-50 transition-all duration-300 px-4 py-2 rounded-full font-medium shadow-sm"
           >
-            View All Categories <FaArrowRight size={14} />
+            View All Categories <FaArrowRight size={14} className="rtl:rotate-180" />
           </button>
         </div>
 
         <div className="relative">
           <Swiper
+            key={direction}
+            dir={direction}
             slidesPerView={1.5}
             spaceBetween={20}
             pagination={{ 
@@ -203,7 +207,7 @@ function CategoryCarousel({ categories = [] }: CategoryCarouselProps) {
                       className="mt-4 w-8 h-8 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300"
                       style={{ backgroundColor: 'var(--accent-color)', color: 'white' }}
                     >
-                      <FaArrowRight size={12} />
+                      <FaArrowRight size={12} className="rtl:rotate-180" />
                     </div>
                   </div>
                 </div>
@@ -211,12 +215,12 @@ function CategoryCarousel({ categories = [] }: CategoryCarouselProps) {
             ))}
           </Swiper>
           
-          <button className="swiper-button-prev absolute left-0 top-1/2 -translate-y-1/2 -translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg">
-            <FaChevronLeft size={16} style={{ color: 'var(--primary-color)' }} />
+          <button className="swiper-button-prev absolute start-0 top-1/2 -translate-y-1/2 -translate-x-4 rtl:translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg">
+            <FaChevronLeft size={16} className="rtl:rotate-180" style={{ color: 'var(--primary-color)' }} />
           </button>
           
-          <button className="swiper-button-next absolute right-0 top-1/2 -translate-y-1/2 translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg">
-            <FaChevronRight size={16} style={{ color: 'var(--primary-color)' }} />
+          <button className="swiper-button-next absolute end-0 top-1/2 -translate-y-1/2 translate-x-4 rtl:-translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg">
+            <FaChevronRight size={16} className="rtl:rotate-180" style={{ color: 'var(--primary-color)' }} />
           </button>
         </div>
       </div>
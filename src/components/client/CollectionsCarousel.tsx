@@ -5,6 +5,7 @@ import 'keen-slider/keen-slider.min.css';
 import { FaChevronRight, FaChevronLeft, FaArrowRight, FaRedo } from 'react-icons/fa';
 import collectionsAPI, { Collection } from '../../services/api/collectionsAPI';
 import { generatePlaceholder } from '../../utils/placeholderImage';
+import { useLanguageContext } from '../../contexts/LanguageContext';
 
 // Mock data for fallback when API is unavailable
 type MockCollection = {
@@ -65,9 +66,11 @@ const CollectionsCarousel: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [usingMockData, setUsingMockData] = useState(false);
+  const { isRTL } = useLanguageContext();
 
   const [sliderRef, instanceRef] = useKeenSlider<HTMLDivElement>({
     loop: true,
+    rtl: isRTL,
     slides: {
       perView: 1.2,
       spacing: 16,
@@ -216,7 +219,7 @@ const CollectionsCarousel: React.FC = () => {
             onClick={handleViewAllClick}
             className="flex items-center gap-2 text-white bg-black/30 hover:bg-black/40 transition-all duration-300 px-4 py-2 rounded-full font-medium focus:outline-none focus:ring-2 focus:ring-white/50"
           >
-            View All Collections <FaArrowRight size={14} />
+            View All Collections <FaArrowRight size={14} className="rtl:rotate-180" />
           </button>
         </div>
         
@@ -271,7 +274,7 @@ const CollectionsCarousel: React.FC = () => {
                     aria-label={`View ${item.title} collection`}
                     tabIndex={-1}
                   >
-                    <FaChevronRight size={12} />
+                    <FaChevronRight size={12} className="rtl:rotate-180" />
                   </button>
                 </div>
               </div>
@@ -294,18 +297,18 @@ const CollectionsCarousel: React.FC = () => {
           
           <button
             onClick={() => instanceRef.current?.prev()}
-            className="absolute left-0 top-1/2 -translate-y-1/2 -translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg"
+            className="absolute start-0 top-1/2 -translate-y-1/2 -translate-x-4 rtl:translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg"
             style={{ color: 'var(--primary-color, #008EC7)' }}
           >
-            <FaChevronLeft size={16} />
+            <FaChevronLeft size={16} className="rtl:rotate-180" />
           </button>
 
           <button
             onClick={() => instanceRef.current?.next()}
-            className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg"
+            className="absolute end-0 top-1/2 -translate-y-1/2 translate-x-4 rtl:-translate-x-4 w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center z-10 hover:shadow-lg"
             style={{ color: 'var(--primary-color, #008EC7)' }}
           >
-            <FaChevronRight size={16} />
+            <FaChevronRight size={16} className="rtl:rotate-180" />
           </button>
         </div>
         
@@ -1,7 +1,11 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
+import { Trans, useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
 import { FaMapMarkerAlt, FaChild, FaCalendar, FaClock, FaEye, FaStar } from 'react-icons/fa';
 import { getPlaceholderUrl } from '../../utils/placeholderImage';
+import { formatDateForUAE, formatEventTime, formatNumber } from '../../utils/dateUtils';
+import PriceDisplay from '../common/PriceDisplay';
 
 export interface EventCardProps {
   _id?: string;
@@ -39,20 +43,11 @@ export interface EventCardProps {
   showStats?: boolean;
 }
 
-// Utility functions
-const formatPrice = (price?: number, currency: string = 'AED'): string => {
-  if (!price) return '';
-  return new Intl.NumberFormat('en-AE', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 0,
-  }).format(price);
-};
-
+// Utility functions (empty string means "not announced yet"; the card renders the translated fallback)
 const getEventLocation = (location?: EventCardProps['location']): string => {
-  if (!location) return 'Location TBD';
+  if (!location) return '';
   if (typeof location === 'string') return location;
-  return location.city || location.address || 'Location TBD';
+  return location.city || location.address || '';
 };
 
 const getEventImage = (event: EventCardProps): string => {
@@ -61,43 +56,42 @@ const getEventImage = (event: EventCardProps): string => {
   return getPlaceholderUrl('eventCard', event.title);
 };
 
-const getAgeGroup = (event: EventCardProps): string => {
-  console.log("event",event);
+const getAgeGroup = (event: EventCardProps, t: TFunction): string => {
   if (event.ageGroup) return event.ageGroup;
   if (event.ageRange) {
-    return `${event.ageRange[0]}-${event.ageRange[1]} years`;
+    return t('ageRange', { min: event.ageRange[0], max: event.ageRange[1] });
   }
   return '';
 };
 
 const getEventDate = (event: EventCardProps): string => {
-  if (event.date) return new Date(event.date).toLocaleDateString();
+  if (event.date) return formatDateForUAE(event.date, { includeTime: false });
   if (event.dateSchedule?.[0]) {
-    return new Date(event.dateSchedule[0].startDate).toLocaleDateString();
+    return formatDateForUAE(event.dateSchedule[0].startDate, { includeTime: false });
   }
-  return 'Date TBD';
+  return '';
 };
 
 const getEventTime = (event: EventCardProps): string => {
   if (event.dateSchedule?.[0]) {
-    const start = new Date(event.dateSchedule[0].startDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    const end = new Date(event.dateSchedule[0].endDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const start = formatEventTime(event.dateSchedule[0].startDate);
+    const end = formatEventTime(event.dateSchedule[0].endDate);
     return `${start} - ${end}`;
   }
-  return '10:00 AM - 4:00 PM';
+  return '';
 };
 
-const formatViewCount = (count?: number): string => {
+const formatViewCount = (t: TFunction, count?: number): string => {
   if (!count) return '';
-  if (count >= 1000) {
-    return `${(count / 1000).toFixed(1)}k views`;
-  }
-  return `${count} views`;
+  return t('views', {
+    count,
+    formattedCount: formatNumber(count, { notation: 'compact', maximumFractionDigits: 1 }),
+  });
 };
 
 const formatRating = (rating?: number): string => {
   if (!rating) return '';
-  return rating.toFixed(1);
+  return formatNumber(rating, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
 };
 
 const EventCard: React.FC<EventCardProps> = ({ 
@@ -107,10 +101,12 @@ const EventCard: React.FC<EventCardProps> = ({
   ...event 
 }) => {
   const navigate = useNavigate();
+  const { t } = useTranslation('events');
   
   const eventId = event.id || event._id || '';
   const eventImage = getEventImage(event);
-  const ageGroup = getAgeGroup(event);
+  const ageGroup = getAgeGroup(event, t);
+  const eventDate = getEventDate(event) || t('dateTbd');
   
   const handleClick = () => {
     if (eventId) {
@@ -145,15 +141,15 @@ const EventCard: React.FC<EventCardProps> = ({
           }}
         />
         {ageGroup && (
-          <div className="absolute top-3 right-3 bg-white rounded-full px-3 py-1 text-sm font-semibold shadow-sm" 
+          <div className="absolute top-3 end-3 bg-white rounded-full px-3 py-1 text-sm font-semibold shadow-sm" 
                style={{ color: 'var(--primary-color)' }}>
-            <FaChild className="inline mr-1" />
-            Ages {ageGroup}
+            <FaChild className="inline me-1" />
+            {t('ages', { range: ageGroup })}
           </div>
         )}
         {event.isFeatured && (
-          <div className="absolute top-3 left-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white text-xs font-bold px-2 py-1 rounded-full shadow-sm">
-            FEATURED
+          <div className="absolute top-3 start-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white text-xs font-bold px-2 py-1 rounded-full shadow-sm">
+            {t('featuredBadge')}
           </div>
         )}
       </div>
@@ -171,20 +167,20 @@ const EventCard: React.FC<EventCardProps> = ({
 
         <div className="space-y-2 mb-3">
           <div className="flex items-center text-gray-700 text-sm">
-            <FaMapMarkerAlt className="mr-2 flex-shrink-0" style={{ color: 'var(--primary-color)' }} />
-            <p className="truncate">{getEventLocation(event.location)}</p>
+            <FaMapMarkerAlt className="me-2 flex-shrink-0" style={{ color: 'var(--primary-color)' }} />
+            <p className="truncate">{getEventLocation(event.location) || t('locationTbd')}</p>
           </div>
           
           {variant !== 'compact' && (
             <>
               <div className="flex items-center text-gray-700 text-sm">
-                <FaCalendar className="mr-2 flex-shrink-0" style={{ color: 'var(--primary-color)' }} />
-                <p>{getEventDate(event)}</p>
+                <FaCalendar className="me-2 flex-shrink-0" style={{ color: 'var(--primary-color)' }} />
+                <p>{eventDate}</p>
               </div>
               
               <div className="flex items-center text-gray-700 text-sm">
-                <FaClock className="mr-2 flex-shrink-0" style={{ color: 'var(--primary-color)' }} />
-                <p>{getEventTime(event)}</p>
+                <FaClock className="me-2 flex-shrink-0" style={{ color: 'var(--primary-color)' }} />
+                <p>{getEventTime(event) || t('timeTbd')}</p>
               </div>
             </>
           )}
@@ -196,7 +192,7 @@ const EventCard: React.FC<EventCardProps> = ({
             {event.viewsCount && (
               <div className="flex items-center gap-1">
                 <FaEye className="text-blue-500" />
-                <span>{formatViewCount(event.viewsCount)}</span>
+                <span>{formatViewCount(t, event.viewsCount)}</span>
               </div>
             )}
             {event.rating && (
@@ -215,14 +211,14 @@ const EventCard: React.FC<EventCardProps> = ({
           <div>
             {event.price ? (
               <>
-                <span className="text-xs text-gray-700">Starting from</span>
-                <div className="font-bold text-lg" style={{ color: 'var(--primary-color)' }}>
-                  {formatPrice(event.price, event.currency)}
+                <span className="text-xs text-gray-700">{t('startingFrom')}</span>
+                <div style={{ color: 'var(--primary-color)' }}>
+                  <PriceDisplay amount={event.price} currency={event.currency} size="lg" bold amountClassName="" />
                 </div>
               </>
             ) : (
               <div className="text-sm text-gray-700">
-                {getEventDate(event)}
+                {eventDate}
               </div>
             )}
           </div>
@@ -238,14 +234,16 @@ const EventCard: React.FC<EventCardProps> = ({
               handleClick();
             }}
           >
-            View Details
+            {t('viewDetails')}
           </button>
         </div>
 
         {event.vendorId?.businessName && variant === 'featured' && (
           <div className="mt-3 pt-3 border-t border-gray-100">
             <p className="text-xs text-gray-700">
-              By <span className="font-medium">{event.vendorId.businessName}</span>
+              <Trans t={t} i18nKey="byVendor" values={{ vendor: event.vendorId.businessName }}>
+                By <span className="font-medium">{'{{vendor}}'}</span>
+              </Trans>
             </p>
           </div>
         )}
@@ -7,6 +7,7 @@ import "swiper/css/pagination";
 import { FaStar, FaStarHalfAlt, FaRegStar, FaQuoteLeft } from "react-icons/fa";
 import reviewsAPI from '../../services/api/reviewsAPI';
 import { Review, TestimonialReview } from '../../types/review';
+import { useLanguageContext } from '../../contexts/LanguageContext';
 
 // Fallback reviews for when API is unavailable
 const fallbackReviews: TestimonialReview[] = [
@@ -60,6 +61,7 @@ export default function ReviewCarouselSwiper() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [usingFallback, setUsingFallback] = useState(false);
+  const { direction } = useLanguageContext();
 
   useEffect(() => {
     const fetchReviews = async () => {
@@ -173,6 +175,8 @@ export default function ReviewCarouselSwiper() {
           </div>
         ) : (
           <Swiper
+            key={direction}
+            dir={direction}
             modules={[Navigation, Pagination, Autoplay]}
             navigation
             pagination={{ clickable: true }}
@@ -1,16 +1,20 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { AlertCircle, CheckCircle, X } from 'lucide-react';
 
 interface ConfirmDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: (reason: string) => void;
   title: string;
   message: string;
   confirmText?: string;
   cancelText?: string;
   type?: 'danger' | 'warning' | 'info' | 'success';
   isLoading?: boolean;
+  // Asks for a reason before confirming, e.g. for the audit log; confirm stays disabled until
+  // validateReason returns null
+  reasonLabel?: string;
+  validateReason?: (reason: string) => string | null;
 }
 
 const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
@@ -22,10 +26,24 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   confirmText = 'Confirm',
   cancelText = 'Cancel',
   type = 'warning',
-  isLoading = false
+  isLoading = false,
+  reasonLabel,
+  validateReason,
 }) => {
+  const [reason, setReason] = useState('');
+  const [reasonTouched, setReasonTouched] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setReasonTouched(false);
+    }
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const reasonError = reasonLabel && validateReason ? validateReason(reason) : null;
+
   const getTypeStyles = () => {
     switch (type) {
       case 'danger':
@@ -81,7 +99,7 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
               <div className={`mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full ${iconBg} sm:mx-0 sm:h-10 sm:w-10`}>
                 <Icon className={`h-6 w-6 ${iconColor}`} aria-hidden="true" />
               </div>
-              <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left">
+              <div className={`mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left${reasonLabel ? ' w-full' : ''}`}>
                 <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
                   {title}
                 </h3>
@@ -90,15 +108,31 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
                     {message}
                   </p>
                 </div>
+                {reasonLabel && (
+                  <div className="mt-4">
+                    <label htmlFor="confirm-dialog-reason" className="block text-sm font-medium text-gray-700 mb-1">
+                      {reasonLabel}
+                    </label>
+                    <textarea
+                      id="confirm-dialog-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      onBlur={() => setReasonTouched(true)}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {reasonTouched && reasonError && <p className="mt-1 text-xs text-red-600">{reasonError}</p>}
+                  </div>
+                )}
               </div>
             </div>
           </div>
           <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
             <button
               type="button"
-              disabled={isLoading}
+              disabled={isLoading || !!reasonError}
               className={`w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 ${buttonBg} text-base font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-${type === 'danger' ? 'red' : type === 'warning' ? 'yellow' : 'blue'}-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed`}
-              onClick={onConfirm}
+              onClick={() => onConfirm(reason.trim())}
             >
               {isLoading ? (
                 <>
@@ -5,6 +5,7 @@ import {
   FaExchangeAlt,
 } from 'react-icons/fa';
 import { useCurrencyContext } from '../../contexts/CurrencyContext';
+import { BASE_CURRENCY, CurrencyCode } from '../../utils/currencyUtils';
 
 interface CurrencySelectorProps {
   className?: string;
@@ -25,17 +26,28 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({
     isAutoDetected,
     isLoading: contextLoading,
     exchangeRates,
-    fromCurrency,
-    toCurrency
+    ratesUpdatedAt,
+    rateFreshness
   } = useCurrencyContext();
 
   const [showDropdown, setShowDropdown] = useState(false);
 
-  const handleCurrencySelect = (currencyCode: string) => {
-    changeCurrency(currencyCode as any);
+  const handleCurrencySelect = (currencyCode: CurrencyCode) => {
+    changeCurrency(currencyCode);
     setShowDropdown(false);
   };
 
+  const formatRate = (code: CurrencyCode) => {
+    const rate = exchangeRates[code];
+    return rate ? rate.toFixed(rate >= 10 ? 2 : 4) : '—';
+  };
+
+  const ratesStatus = rateFreshness === 'fallback'
+    ? 'Indicative rates'
+    : ratesUpdatedAt
+      ? `Rates updated ${new Date(ratesUpdatedAt).toLocaleString()}`
+      : null;
+
   if (compact) {
     return (
       <div className={`relative ${className}`}>
@@ -104,6 +116,11 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({
               Auto-detected
             </span>
           )}
+          {rateFreshness !== 'fresh' && !contextLoading && (
+            <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full">
+              {rateFreshness === 'stale' ? 'Rates out of date' : 'Rates unavailable'}
+            </span>
+          )}
         </div>
       </div>
 
@@ -129,7 +146,11 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({
 
         {showRates && (
           <div className="mt-3 text-xs text-gray-500">
-            1 {fromCurrency} = {exchangeRates[toCurrency] / exchangeRates[fromCurrency]} {toCurrency}
+            <div>1 {BASE_CURRENCY} = {formatRate(currentCurrency)} {currentCurrency}</div>
+            {ratesStatus && (
+              <div className={rateFreshness === 'fresh' ? '' : 'text-amber-600'}>{ratesStatus}</div>
+            )}
+            <div>Prices are charged in each event's own currency.</div>
           </div>
         )}
       </div>
@@ -155,9 +176,9 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({
                 </div>
                 <div className="text-right">
                   <div className="font-medium text-gray-900">{currency.symbol}</div>
-                  {showRates && exchangeRates && fromCurrency && toCurrency && (
+                  {showRates && (
                     <div className="text-xs text-gray-500">
-                      Rate: {exchangeRates[currency.code] / exchangeRates[fromCurrency]}
+                      Rate: {formatRate(currency.code)}
                     </div>
                   )}
                 </div>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Swiper, SwiperSlide } from 'swiper/react';
 import { Navigation, Pagination, Autoplay, Keyboard } from 'swiper/modules';
+import { useLanguageContext } from '../../contexts/LanguageContext';
 
 // Import Swiper styles
 import 'swiper/css';
@@ -24,6 +25,8 @@ export const ImageCarousel: React.FC<ImageCarouselProps> = ({
   autoplay = false,
   showThumbnails = false
 }) => {
+  const { direction } = useLanguageContext();
+
   // If no images or only one image, render single image without carousel controls
   if (!images || images.length === 0) {
     return null;
@@ -44,6 +47,9 @@ export const ImageCarousel: React.FC<ImageCarouselProps> = ({
   return (
     <div className={className}>
       <Swiper
+        // Swiper reads the direction once on init, so remount when the language flips
+        key={direction}
+        dir={direction}
         modules={[Navigation, Pagination, Autoplay, Keyboard]}
         navigation
         pagination={{ clickable: true }}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { FaUserSecret } from 'react-icons/fa';
+import { selectImpersonation } from '../../store/slices/authSlice';
+import { IMPERSONATION_BLOCKED_MESSAGE } from '../../utils/impersonationUtils';
+
+interface ImpersonationNoticeProps {
+  className?: string;
+}
+
+/**
+ * Explains why a form's actions are disabled while an admin is viewing as another user
+ */
+const ImpersonationNotice: React.FC<ImpersonationNoticeProps> = ({ className = '' }) => {
+  const session = useSelector(selectImpersonation);
+  if (!session) return null;
+
+  return (
+    <div className={`flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 ${className}`}>
+      <FaUserSecret className="w-4 h-4 flex-shrink-0" />
+      <span>{IMPERSONATION_BLOCKED_MESSAGE}</span>
+    </div>
+  );
+};
+
+export default ImpersonationNotice;
@@ -1,24 +1,28 @@
 import React from 'react';
 import { useCurrencyContext } from '../../contexts/CurrencyContext';
+import { formatDateForUAE } from '../../utils/dateUtils';
 
 interface PriceDisplayProps {
   amount: number;
-  fromCurrency?: 'INR' | 'AED' | 'USD' | 'EUR' | 'GBP';
+  // Currency the price is charged in (the event's settlement currency)
+  currency?: string;
   showConversionNote?: boolean;
   className?: string;
+  amountClassName?: string;
   size?: 'sm' | 'md' | 'lg' | 'xl';
   bold?: boolean;
 }
 
 const PriceDisplay: React.FC<PriceDisplayProps> = ({
   amount,
-  fromCurrency = 'INR',
+  currency = 'AED',
   showConversionNote = true,
   className = '',
+  amountClassName = 'text-gray-900',
   size = 'md',
   bold = false,
 }) => {
-  const { formatPrice, formatPriceWithConversion, currentCurrency, currencyInfo } = useCurrencyContext();
+  const { formatDualPrice, rateFreshness, ratesUpdatedAt } = useCurrencyContext();
 
   // Size mappings
   const sizeClasses = {
@@ -35,17 +39,23 @@ const PriceDisplay: React.FC<PriceDisplayProps> = ({
     xl: 'text-sm',
   };
 
-  const displayAmount = formatPrice(amount, fromCurrency);
-  const showNote = showConversionNote && currentCurrency !== 'INR' && fromCurrency === 'INR';
+  const { settlement, converted, isConverted } = formatDualPrice(amount, currency);
+  const showNote = showConversionNote && isConverted;
+  const rateHint = rateFreshness === 'fresh'
+    ? undefined
+    : ratesUpdatedAt
+      ? `Exchange rate from ${formatDateForUAE(ratesUpdatedAt, { includeTime: false })}`
+      : 'Approximate exchange rate';
 
   return (
     <div className={`inline-flex flex-col ${className}`}>
-      <span className={`${sizeClasses[size]} ${bold ? 'font-bold' : 'font-semibold'} text-gray-900`}>
-        {displayAmount}
+      <span className={`${sizeClasses[size]} ${bold ? 'font-bold' : 'font-semibold'} ${amountClassName}`}>
+        {settlement}
       </span>
       {showNote && (
-        <span className={`${conversionNoteSizeClasses[size]} text-gray-500 mt-0.5`}>
-          (~₹{amount.toFixed(2)} will be charged)
+        <span className={`${conversionNoteSizeClasses[size]} text-gray-500 mt-0.5`} title={rateHint}>
+          ≈ {converted}
+          {rateFreshness !== 'fresh' && <span className="ms-1 text-amber-600">*</span>}
         </span>
       )}
     </div>
@@ -28,6 +28,7 @@ import type { Payment, PaymentStatus, PaymentMethodType } from '../../services/a
 import LoadingSpinner from '../common/LoadingSpinner';
 import Modal from '../interactive/Modal';
 import DataTable from '../interactive/DataTable';
+import TaxDocumentsButton from '../order/TaxDocumentsButton';
 
 interface PaymentHistoryProps {
   userId?: string;
@@ -664,6 +665,18 @@ const PaymentHistory: React.FC<PaymentHistoryProps> = ({
                 </div>
               </div>
             )}
+
+            {/* Tax invoice and credit notes */}
+            {selectedPayment.orderId && ['completed', 'refunded', 'partially_refunded'].includes(selectedPayment.status) && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Tax Documents</h4>
+                <TaxDocumentsButton
+                  orderId={selectedPayment.orderId}
+                  label="Download tax invoice"
+                  className="inline-flex items-center px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                />
+              </div>
+            )}
           </div>
         )}
       </Modal>
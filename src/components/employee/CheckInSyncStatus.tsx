@@ -0,0 +1,70 @@
+import React from 'react';
+import { Wifi, WifiOff, RefreshCw, UploadCloud, AlertTriangle } from 'lucide-react';
+import type { CheckInConnectionState } from '../../types/checkIn';
+
+interface CheckInSyncStatusProps {
+  connectionState: CheckInConnectionState;
+  pendingCount: number;
+  conflictCount: number;
+  lastSyncedAt?: string | null;
+  onSyncNow?: () => void;
+}
+
+const CONNECTION_DISPLAY: Record<CheckInConnectionState, { label: string; icon: typeof Wifi; className: string }> = {
+  online: { label: 'Online', icon: Wifi, className: 'bg-green-100 text-green-800' },
+  offline: { label: 'Offline', icon: WifiOff, className: 'bg-gray-800 text-white' },
+  syncing: { label: 'Syncing', icon: RefreshCw, className: 'bg-blue-100 text-blue-800' },
+};
+
+/**
+ * Connection and sync-queue indicator for the ticket scanner
+ */
+const CheckInSyncStatus: React.FC<CheckInSyncStatusProps> = ({
+  connectionState,
+  pendingCount,
+  conflictCount,
+  lastSyncedAt,
+  onSyncNow,
+}) => {
+  const { label, icon: Icon, className } = CONNECTION_DISPLAY[connectionState];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="status" aria-live="polite">
+      <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${className}`}>
+        <Icon className={`h-4 w-4 me-1.5 ${connectionState === 'syncing' ? 'animate-spin' : ''}`} />
+        {label}
+      </span>
+
+      {pendingCount > 0 ? (
+        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+          <UploadCloud className="h-4 w-4 me-1.5" />
+          {pendingCount} check-in{pendingCount === 1 ? '' : 's'} waiting to sync
+        </span>
+      ) : (
+        lastSyncedAt && (
+          <span className="text-xs text-gray-500">
+            All check-ins synced at {new Date(lastSyncedAt).toLocaleTimeString()}
+          </span>
+        )
+      )}
+
+      {conflictCount > 0 && (
+        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
+          <AlertTriangle className="h-4 w-4 me-1.5" />
+          {conflictCount} need{conflictCount === 1 ? 's' : ''} review
+        </span>
+      )}
+
+      {connectionState === 'online' && pendingCount > 0 && onSyncNow && (
+        <button
+          onClick={onSyncNow}
+          className="text-sm font-medium text-primary hover:underline"
+        >
+          Sync now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CheckInSyncStatus;
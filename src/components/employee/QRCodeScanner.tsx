@@ -1,41 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
 import QrScanner from 'qr-scanner';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Camera, X, CheckCircle, XCircle, AlertCircle, Clock } from 'lucide-react';
+import { Camera, X, CheckCircle, XCircle, AlertCircle, Clock, WifiOff } from 'lucide-react';
+import type { TicketVerificationResult, TicketVerificationStatus } from '../../types/checkIn';
+import ticketSignatureService from '../../services/ticketSignatureService';
+import type { SecureQRData } from '../../utils/qrcode.utils';
+import type { QRVerificationFailure } from '../../utils/qrSignature';
 
-interface TicketVerificationResult {
-  success: boolean;
-  status: 'verified' | 'expired' | 'invalid' | 'already_used' | 'not_yet_valid';
-  message: string;
-  data?: {
-    ticket: {
-      id: string;
-      ticketNumber: string;
-      attendeeName: string;
-      attendeeEmail: string;
-      attendeePhone?: string;
-      ticketType: string;
-      seatNumber?: string;
-      price: number;
-      currency: string;
-      eventTitle: string;
-      eventDate: string;
-      eventLocation: string;
-      scanCount: number;
-      validUntil: string;
-      checkInTime?: string;
-      usedAt?: string;
-      usedBy?: string;
-      expiredAt?: string;
-      validFrom?: string;
-    };
-  };
-}
+// How a failed signature check is shown to staff
+const SIGNATURE_FAILURE_STATUS: Record<QRVerificationFailure, TicketVerificationStatus> = {
+  malformed: 'invalid',
+  unsigned: 'invalid',
+  unknown_key: 'invalid',
+  forged: 'invalid',
+  expired: 'expired',
+  not_yet_valid: 'not_yet_valid',
+  replayed: 'already_used',
+};
 
 interface QRCodeScannerProps {
   eventId?: string;
   onVerificationResult: (result: TicketVerificationResult) => void;
-  onCheckIn?: (ticketId: string) => void;
+  // Resolve false when the check-in did not go through
+  onCheckIn?: (ticketId: string) => void | boolean | Promise<void | boolean>;
+  // Local verification (e.g. against a downloaded manifest); resolve null to verify online
+  verifyTicket?: (qrData: string) => Promise<TicketVerificationResult | null>;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -44,6 +33,7 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
   eventId,
   onVerificationResult,
   onCheckIn,
+  verifyTicket,
   isOpen,
   onClose,
 }) => {
@@ -54,6 +44,7 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
   const [showResult, setShowResult] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const qrScannerRef = useRef<QrScanner | null>(null);
+  const signedDataRef = useRef<SecureQRData | null>(null);
 
   // Start camera and QR scanner
   const startScanning = async () => {
@@ -107,17 +98,41 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
     setIsVerifying(true);
     
     try {
-      // Call API to verify the QR code
-      const response = await fetch(`/api/tickets/verify-qr${eventId ? `/${eventId}` : ''}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify({ qrCodeData: qrData }),
-      });
+      // Signed codes are checked against the published keys before anything else. Legacy
+      // unsigned codes can only be looked up by the server, never in the offline manifest
+      const signature = await ticketSignatureService.verify(qrData);
+      signedDataRef.current = signature.isValid ? signature.data || null : null;
+
+      let result: TicketVerificationResult | null = null;
+      if (signature.reason === 'unsigned' && !navigator.onLine) {
+        result = {
+          success: false,
+          status: SIGNATURE_FAILURE_STATUS.unsigned,
+          message: 'Unsigned QR codes can only be checked while online',
+        };
+      } else if (!signature.isValid && signature.reason && signature.reason !== 'unsigned') {
+        result = {
+          success: false,
+          status: SIGNATURE_FAILURE_STATUS[signature.reason],
+          message: signature.error || 'QR code could not be verified',
+        };
+      } else if (verifyTicket && signature.isValid) {
+        result = await verifyTicket(qrData);
+      }
 
-      const result: TicketVerificationResult = await response.json();
+      if (!result) {
+        // Call API to verify the QR code
+        const response = await fetch(`/api/tickets/verify-qr${eventId ? `/${eventId}` : ''}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          },
+          body: JSON.stringify({ qrCodeData: qrData }),
+        });
+
+        result = (await response.json()) as TicketVerificationResult;
+      }
       
       setLastScanResult(result);
       setShowResult(true);
@@ -151,7 +166,10 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
     if (!lastScanResult?.data?.ticket.id || !onCheckIn) return;
 
     try {
-      await onCheckIn(lastScanResult.data.ticket.id);
+      const checkedIn = await onCheckIn(lastScanResult.data.ticket.id);
+      if (checkedIn !== false && signedDataRef.current) {
+        ticketSignatureService.markUsed(signedDataRef.current);
+      }
       setShowResult(false);
       setLastScanResult(null);
     } catch (error) {
@@ -285,6 +303,13 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
                   </h4>
                   
                   <p className="text-gray-600 mb-4">{lastScanResult.message}</p>
+
+                  {lastScanResult.offline && (
+                    <p className="inline-flex items-center text-xs text-gray-500 -mt-2 mb-4">
+                      <WifiOff className="h-3.5 w-3.5 me-1" />
+                      Checked against the downloaded ticket list
+                    </p>
+                  )}
                 </div>
 
                 {/* Ticket Details */}
@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { FaSort, FaSortUp, FaSortDown, FaSearch, FaFilter, FaEye, FaEdit, FaTrash } from 'react-icons/fa';
+import { useTranslation } from 'react-i18next';
 import LoadingSpinner from '../common/LoadingSpinner';
 
 export interface Column<T = any> {
@@ -13,6 +14,13 @@ export interface Column<T = any> {
   className?: string;
 }
 
+// Physical left/right become start/end so columns mirror in RTL
+const toLogicalAlign = (align?: Column['align']) => {
+  if (align === 'left') return 'start';
+  if (align === 'right') return 'end';
+  return align;
+};
+
 export interface ActionButton<T = any> {
   key: string;
   label: string;
@@ -57,19 +65,20 @@ function DataTable<T = any>({
   pagination,
   actions,
   searchable = false,
-  searchPlaceholder = 'Search...',
+  searchPlaceholder,
   onSearch,
   filterable = false,
   onFilter,
   rowKey = '_id' as keyof T,
   className = '',
-  emptyText = 'No data available',
+  emptyText,
   rowClassName,
   onRowClick,
   selectable = false,
   selectedRowKeys = [],
   onSelectionChange
 }: DataTableProps<T>) {
+  const { t } = useTranslation('common');
   const [sortKey, setSortKey] = useState<string>('');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [searchValue, setSearchValue] = useState('');
@@ -187,21 +196,21 @@ function DataTable<T = any>({
           <div className="flex flex-col sm:flex-row gap-4">
             {searchable && (
               <div className="flex-1 relative">
-                <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+                <FaSearch className="absolute start-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
                 <input
                   type="text"
-                  placeholder={searchPlaceholder}
+                  placeholder={searchPlaceholder ?? t('table.searchPlaceholder')}
                   value={searchValue}
                   onChange={(e) => handleSearch(e.target.value)}
-                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className="w-full ps-10 pe-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
             )}
             
             {filterable && (
               <button className="flex items-center px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50">
-                <FaFilter className="mr-2" size={14} />
-                Filters
+                <FaFilter className="me-2" size={14} />
+                {t('table.filters')}
               </button>
             )}
           </div>
@@ -214,7 +223,7 @@ function DataTable<T = any>({
           <thead className="bg-gray-50">
             <tr>
               {selectable && (
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-12">
+                <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider w-12">
                   <input
                     type="checkbox"
                     checked={isAllSelected}
@@ -230,13 +239,13 @@ function DataTable<T = any>({
               {columns.map((column) => (
                 <th
                   key={column.key}
-                  className={`px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${
+                  className={`px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider ${
                     column.sortable ? 'cursor-pointer hover:bg-gray-100' : ''
                   } ${column.className || ''}`}
-                  style={{ width: column.width, textAlign: column.align }}
+                  style={{ width: column.width, textAlign: toLogicalAlign(column.align) }}
                   onClick={() => column.sortable && handleSort(column.key)}
                 >
-                  <div className="flex items-center space-x-1">
+                  <div className="flex items-center space-x-1 rtl:space-x-reverse">
                     <span>{column.title}</span>
                     {column.sortable && renderSortIcon(column.key)}
                   </div>
@@ -244,8 +253,8 @@ function DataTable<T = any>({
               ))}
               
               {actions && actions.length > 0 && (
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
+                <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t('table.actions')}
                 </th>
               )}
             </tr>
@@ -261,7 +270,7 @@ function DataTable<T = any>({
             ) : filteredData.length === 0 ? (
               <tr>
                 <td colSpan={columns.length + (selectable ? 1 : 0) + (actions ? 1 : 0)} className="px-4 py-8 text-center text-gray-500">
-                  {emptyText}
+                  {emptyText ?? t('table.noData')}
                 </td>
               </tr>
             ) : (
@@ -296,7 +305,7 @@ function DataTable<T = any>({
                       <td
                         key={column.key}
                         className={`px-4 py-3 whitespace-nowrap ${column.className || ''}`}
-                        style={{ textAlign: column.align }}
+                        style={{ textAlign: toLogicalAlign(column.align) }}
                       >
                         {column.render 
                           ? column.render(record[column.key as keyof T], record, index)
@@ -307,7 +316,7 @@ function DataTable<T = any>({
                     
                     {actions && actions.length > 0 && (
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
-                        <div className="flex items-center space-x-2">
+                        <div className="flex items-center space-x-2 rtl:space-x-reverse">
                           {actions.map((action) => {
                             if (action.show && !action.show(record)) return null;
                             
@@ -346,7 +355,7 @@ function DataTable<T = any>({
                 disabled={pagination.current <= 1}
                 className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Previous
+                {t('previous')}
               </button>
               <button
                 onClick={() => {
@@ -356,30 +365,24 @@ function DataTable<T = any>({
                   }
                 }}
                 disabled={pagination.current >= Math.ceil(pagination.total / pagination.pageSize)}
-                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                className="ms-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Next
+                {t('next')}
               </button>
             </div>
             
             <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
               <div>
                 <p className="text-sm text-gray-700">
-                  Showing{' '}
-                  <span className="font-medium">
-                    {Math.min((pagination.current - 1) * pagination.pageSize + 1, pagination.total)}
-                  </span>{' '}
-                  to{' '}
-                  <span className="font-medium">
-                    {Math.min(pagination.current * pagination.pageSize, pagination.total)}
-                  </span>{' '}
-                  of{' '}
-                  <span className="font-medium">{pagination.total}</span>{' '}
-                  results
+                  {t('table.showing', {
+                    from: Math.min((pagination.current - 1) * pagination.pageSize + 1, pagination.total),
+                    to: Math.min(pagination.current * pagination.pageSize, pagination.total),
+                    total: pagination.total,
+                  })}
                 </p>
               </div>
               
-              <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-4 rtl:space-x-reverse">
                 {pagination.showSizeChanger && pagination.pageSizeOptions && (
                   <select
                     value={pagination.pageSize}
@@ -387,18 +390,18 @@ function DataTable<T = any>({
                     className="border border-gray-300 rounded-md px-3 py-1 text-sm"
                   >
                     {pagination.pageSizeOptions.map(size => (
-                      <option key={size} value={size}>{size} / page</option>
+                      <option key={size} value={size}>{t('table.perPage', { size })}</option>
                     ))}
                   </select>
                 )}
                 
-                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px rtl:space-x-reverse">
                   <button
                     onClick={() => pagination.current > 1 && pagination.onChange(pagination.current - 1, pagination.pageSize)}
                     disabled={pagination.current <= 1}
-                    className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    className="relative inline-flex items-center px-2 py-2 rounded-s-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Previous
+                    {t('previous')}
                   </button>
                   
                   {/* Page numbers */}
@@ -453,9 +456,9 @@ function DataTable<T = any>({
                       }
                     }}
                     disabled={pagination.current >= Math.ceil(pagination.total / pagination.pageSize)}
-                    className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    className="relative inline-flex items-center px-2 py-2 rounded-e-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Next
+                    {t('next')}
                   </button>
                 </nav>
               </div>
@@ -4,6 +4,7 @@ import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '@store/index';
 import { logoutUser } from '@store/slices/authSlice';
 import toast from 'react-hot-toast';
+import { usePermissions } from '@/hooks/usePermissions';
 
 const AdminLayout: React.FC = () => {
   const location = useLocation();
@@ -12,8 +13,9 @@ const AdminLayout: React.FC = () => {
   const { user } = useSelector((state: RootState) => state.auth);
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true);
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState<boolean>(false);
+  const { canAccessAdminPath } = usePermissions();
 
-  const navigationItems = [
+  const allNavigationItems = [
     {
       name: 'Dashboard',
       path: '/admin',
@@ -149,6 +151,24 @@ const AdminLayout: React.FC = () => {
         </svg>
       )
     },
+    {
+      name: 'Audit Log',
+      path: '/admin/audit-log',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+        </svg>
+      )
+    },
+    {
+      name: 'Roles',
+      path: '/admin/roles',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+        </svg>
+      )
+    },
     {
       name: 'Settings',
       path: '/admin/settings',
@@ -161,6 +181,9 @@ const AdminLayout: React.FC = () => {
     },
   ];
 
+  // Staff only see the sections their role opens
+  const navigationItems = allNavigationItems.filter((item) => canAccessAdminPath(item.path));
+
   const isActive = (path: string) => {
     if (path === '/admin') {
       return location.pathname === '/admin';
@@ -185,14 +208,14 @@ const AdminLayout: React.FC = () => {
 
       {/* Sidebar */}
       <aside
-        className={`fixed top-0 left-0 z-30 h-full bg-gradient-to-b from-gray-900 via-gray-800 to-gray-900 text-white transition-all duration-300 ${
+        className={`fixed top-0 start-0 z-30 h-full bg-gradient-to-b from-gray-900 via-gray-800 to-gray-900 text-white transition-all duration-300 ${
           isSidebarOpen ? 'w-64' : 'w-20'
-        } ${isMobileSidebarOpen ? 'translate-x-0' : '-translate-x-full'} lg:translate-x-0 shadow-2xl`}
+        } ${isMobileSidebarOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full'} lg:translate-x-0 lg:rtl:translate-x-0 shadow-2xl`}
       >
         {/* Logo Area */}
         <div className="flex items-center justify-between h-16 px-4 border-b border-gray-700">
           {isSidebarOpen && (
-            <Link to="/admin" className="flex items-center space-x-3">
+            <Link to="/admin" className="flex items-center space-x-3 rtl:space-x-reverse">
               <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center font-bold text-white shadow-lg">
                 G
               </div>
@@ -205,7 +228,7 @@ const AdminLayout: React.FC = () => {
             onClick={() => setIsSidebarOpen(!isSidebarOpen)}
             className="hidden lg:block p-2 rounded-lg hover:bg-gray-700 transition-colors"
           >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <svg className="w-5 h-5 rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               {isSidebarOpen ? (
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 19l-7-7 7-7m8 14l-7-7 7-7" />
               ) : (
@@ -233,11 +256,11 @@ const AdminLayout: React.FC = () => {
                 {item.icon}
               </span>
               {isSidebarOpen && (
-                <span className="ml-3 font-medium">{item.name}</span>
+                <span className="ms-3 font-medium">{item.name}</span>
               )}
               {isSidebarOpen && isActive(item.path) && (
-                <span className="ml-auto">
-                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                <span className="ms-auto">
+                  <svg className="w-5 h-5 rtl:rotate-180" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
                   </svg>
                 </span>
@@ -248,7 +271,7 @@ const AdminLayout: React.FC = () => {
 
         {/* User Profile */}
         <div className="border-t border-gray-700 p-4">
-          <div className={`flex items-center ${isSidebarOpen ? 'space-x-3' : 'justify-center'}`}>
+          <div className={`flex items-center ${isSidebarOpen ? 'space-x-3 rtl:space-x-reverse' : 'justify-center'}`}>
             <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-semibold shadow-lg">
               {user?.firstName?.charAt(0) || 'A'}
             </div>
@@ -265,7 +288,7 @@ const AdminLayout: React.FC = () => {
       </aside>
 
       {/* Main Content Area */}
-      <div className={`transition-all duration-300 ${isSidebarOpen ? 'lg:ml-64' : 'lg:ml-20'}`}>
+      <div className={`transition-all duration-300 ${isSidebarOpen ? 'lg:ms-64' : 'lg:ms-20'}`}>
         {/* Top Header */}
         <header className="bg-white shadow-sm sticky top-0 z-10">
           <div className="flex items-center justify-between h-16 px-4 sm:px-6 lg:px-8">
@@ -281,7 +304,7 @@ const AdminLayout: React.FC = () => {
               </button>
 
               {/* Breadcrumb */}
-              <div className="ml-4 lg:ml-0">
+              <div className="ms-4 lg:ms-0">
                 <h1 className="text-xl font-semibold text-gray-800">
                   {navigationItems.find(item => isActive(item.path))?.name || 'Admin Panel'}
                 </h1>
@@ -289,13 +312,13 @@ const AdminLayout: React.FC = () => {
             </div>
 
             {/* Right Section */}
-            <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-4 rtl:space-x-reverse">
               {/* Back to Site */}
               <Link
                 to="/"
                 className="hidden sm:flex items-center px-3 py-2 text-sm font-medium text-gray-700 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
               >
-                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <svg className="w-4 h-4 me-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
                 </svg>
                 Back to Site
@@ -306,7 +329,7 @@ const AdminLayout: React.FC = () => {
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
                 </svg>
-                <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
+                <span className="absolute top-1 end-1 w-2 h-2 bg-red-500 rounded-full"></span>
               </button>
 
               {/* Logout */}
@@ -314,7 +337,7 @@ const AdminLayout: React.FC = () => {
                 onClick={handleLogout}
                 className="flex items-center px-3 py-2 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
               >
-                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <svg className="w-5 h-5 me-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
                 </svg>
                 <span className="hidden sm:inline">Logout</span>
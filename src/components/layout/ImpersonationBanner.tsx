@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { FaUserSecret } from 'react-icons/fa';
+import {
+  endImpersonation,
+  getCurrentUser,
+  logoutUser,
+  selectImpersonation,
+  selectUser,
+} from '../../store/slices/authSlice';
+import type { AppDispatch } from '../../store';
+import {
+  IMPERSONATION_BLOCKED_MESSAGE,
+  formatImpersonationCountdown,
+  getImpersonationSecondsLeft,
+} from '../../utils/impersonationUtils';
+
+/**
+ * Shown on every page while an admin is viewing the app as another user. Ends the session when
+ * the admin exits or the time box runs out. If the server can't end it (usually because it has
+ * already expired), the banner reloads whoever the session cookies now belong to: the admin goes
+ * back to the users list, anyone else is logged out.
+ */
+const ImpersonationBanner: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const session = useSelector(selectImpersonation);
+  const user = useSelector(selectUser);
+  const [secondsLeft, setSecondsLeft] = useState(() => (session ? getImpersonationSecondsLeft(session) : 0));
+  const [isExiting, setIsExiting] = useState(false);
+  const isExitingRef = useRef(false);
+  // The session the countdown already tried to end, so a session the server still reports as
+  // active after it expired isn't ended over and over
+  const autoExitedRef = useRef<string | null>(null);
+
+  const handleExit = useCallback(async () => {
+    if (isExitingRef.current) return;
+    isExitingRef.current = true;
+    setIsExiting(true);
+    try {
+      await dispatch(endImpersonation()).unwrap();
+      navigate('/admin/users');
+    } catch (error) {
+      console.error('Failed to end impersonation:', error);
+      const result = await dispatch(getCurrentUser());
+      if (!getCurrentUser.fulfilled.match(result)) {
+        navigate('/login');
+      } else if (result.payload.role === 'admin') {
+        navigate('/admin/users');
+      } else if (!result.payload.impersonation) {
+        await dispatch(logoutUser());
+        navigate('/login');
+      }
+    } finally {
+      isExitingRef.current = false;
+      setIsExiting(false);
+    }
+  }, [dispatch, navigate]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    setSecondsLeft(getImpersonationSecondsLeft(session));
+    const timer = setInterval(() => setSecondsLeft(getImpersonationSecondsLeft(session)), 1000);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  useEffect(() => {
+    if (session && secondsLeft === 0 && autoExitedRef.current !== session._id) {
+      autoExitedRef.current = session._id;
+      handleExit();
+    }
+  }, [session, secondsLeft, handleExit]);
+
+  if (!session || !user) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Keeps page content clear of the fixed banner */}
+      <div className="h-14" aria-hidden="true" />
+      <div
+        className="fixed bottom-0 left-0 right-0 z-[60] bg-amber-500 text-gray-900 shadow-lg"
+        role="status"
+        aria-live="polite"
+      >
+        <div className="max-w-7xl mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <FaUserSecret className="w-5 h-5 flex-shrink-0" />
+            <span className="truncate">
+              Viewing as <strong>{user.firstName} {user.lastName}</strong> ({user.role}) &middot;{' '}
+              {IMPERSONATION_BLOCKED_MESSAGE}
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="font-mono tabular-nums" title="Time left in this session">
+              {formatImpersonationCountdown(secondsLeft)}
+            </span>
+            <button
+              onClick={handleExit}
+              disabled={isExiting}
+              className="px-3 py-1 bg-gray-900 text-white rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              {isExiting ? 'Exiting...' : 'Exit'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ImpersonationBanner;
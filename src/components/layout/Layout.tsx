@@ -1,7 +1,9 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import { Outlet, Link, useNavigate } from 'react-router-dom';
 import { useSelector, useDispatch } from 'react-redux';
+import { useTranslation } from 'react-i18next';
 import { useCart } from '@/contexts/CartContext';
+import { useLanguageContext } from '@/contexts/LanguageContext';
 import { RootState, AppDispatch } from '@/store';
 import { logoutUser } from '@/store/slices/authSlice';
 import {
@@ -10,18 +12,15 @@ import {
   selectCategoriesLoading
 } from '@/store/slices/categoriesSlice';
 import { selectSocialSettings } from '@/store/slices/settingsSlice';
-// Commented out - notification system disabled
-// import {
-//   fetchNotifications,
-//   selectUnreadCount
-// } from '@/store/slices/notificationsSlice';
-// import NotificationDropdown from './NotificationDropdown';
+import NotificationDropdown from './NotificationDropdown';
 import NewsletterSubscription from './NewsletterSubscription';
 import ConnectionStatus from './ConnectionStatus';
 import CurrencySelector from '@/components/common/CurrencySelector';
 import { useRealTimeData } from '@/hooks/useRealTimeData';
+import { useRealTimeUpdates } from '@/hooks/useRealTimeUpdates';
 import ErrorBoundary from '@/components/common/ErrorBoundary';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { usePermissions } from '@/hooks/usePermissions';
 import kidroveLogo from '/assets/images/KidRove-Logo.png';
 import kidroveLogoWhite from '/assets/images/KidRove-Logo-white.png';
 import {
@@ -57,22 +56,25 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
   const [scrolled, setScrolled] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [profileDropdownOpen, setProfileDropdownOpen] = useState(false);
-  const [currentLanguage, setCurrentLanguage] = useState({ code: 'en', name: 'English' });
   
   const { cartCount } = useCart();
+  const { t } = useTranslation(['navigation', 'common']);
+  const { currentLanguage, changeLanguage } = useLanguageContext();
   const { isAuthenticated, user } = useSelector((state: RootState) => state.auth);
+  const { permissions, canAccessAdminPath } = usePermissions();
   const featuredCategories = useSelector(selectFeaturedCategories);
   const categoriesLoading = useSelector(selectCategoriesLoading);
   const socialSettings = useSelector(selectSocialSettings);
-  // const unreadNotificationsCount = useSelector(selectUnreadCount); // Commented out - notification system disabled
 
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Real-time data updates
+  // Live updates over the real-time channel; poll for notifications whenever it isn't open
+  const { isConnected: realTimeConnected } = useRealTimeUpdates({ enabled: isAuthenticated });
+
   useRealTimeData({
-    enableNotifications: false, // Disabled - notification system disabled
+    enableNotifications: !realTimeConnected,
     enableCategories: true,
     notificationInterval: 30000, // 30 seconds
     categoryInterval: 300000, // 5 minutes
@@ -152,11 +154,9 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
     return `https://ui-avatars.com/api/?name=${encodeURIComponent(initials)}&background=1a73e8&color=fff&size=32&rounded=true`;
   };
 
-  const handleLanguageChange = useCallback((language: { code: string; name: string }) => {
-    setCurrentLanguage(language);
-    // TODO: Implement actual language change logic (i18n)
-    console.log('Language changed to:', language);
-  }, []);
+  const toggleLanguage = () => {
+    changeLanguage(currentLanguage === 'ar' ? 'en' : 'ar');
+  };
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50 overflow-x-hidden">
@@ -169,7 +169,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
         >
           <div className="max-w-screen-xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex justify-center items-center text-sm">
             {/* Left: Social Icons */}
-            <div className="hidden md:flex space-x-4">
+            <div className="hidden md:flex space-x-4 rtl:space-x-reverse">
               {socialSettings.facebookUrl && (
                 <a href={socialSettings.facebookUrl} target="_blank" rel="noopener noreferrer" className="hover:opacity-80 transition-opacity duration-300 flex items-center justify-center w-7 h-7 rounded-full bg-white/10">
                   <FaFacebookF size={14} />
@@ -216,9 +216,9 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
 
               {/* Language Selector */}
               {/* <div className="flex items-center space-x-1 cursor-pointer hover:opacity-80 transition-opacity duration-300"
-                   onClick={() => handleLanguageChange({ code: 'en', name: 'English' })}>
+                   onClick={toggleLanguage}>
                 <MdLanguage size={16} />
-                <span>{currentLanguage.name}</span>
+                <span>{t(`common:languages.${currentLanguage}`)}</span>
               </div> */}
             {/* </div> */}
           </div>
@@ -226,7 +226,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
 
         {/* Main Navigation Bar */}
         <div
-          className={`w-full fixed left-0 z-50 transition-all duration-300 ${scrolled ? 'shadow-md' : ''}`}
+          className={`w-full fixed start-0 z-50 transition-all duration-300 ${scrolled ? 'shadow-md' : ''}`}
           style={{ 
             backgroundColor: scrolled ? 'var(--primary-color)' : 'white',
             top: scrolled ? 0 : 'auto'
@@ -241,41 +241,51 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
             </div>
 
             {/* Desktop Nav Links */}
-            <nav className="hidden md:flex space-x-8">
+            <nav className="hidden md:flex space-x-8 rtl:space-x-reverse">
               <Link
                 to="/search"
                 className={`text-sm font-medium hover:opacity-80 transition-opacity duration-300 ${scrolled ? 'text-white' : 'text-gray-900'}`}
               >
-                Find Activities
+                {t('findActivities')}
               </Link>
               <Link
                 to="/blog"
                 className={`text-sm font-medium hover:opacity-80 transition-opacity duration-300 ${scrolled ? 'text-white' : 'text-gray-900'}`}
               >
-                Blog
+                {t('blog')}
               </Link>
               <Link
                 to="/about"
                 className={`text-sm font-medium hover:opacity-80 transition-opacity duration-300 ${scrolled ? 'text-white' : 'text-gray-900'}`}
               >
-                Kidzapp Go
+                {t('kidzappGo')}
               </Link>
               <Link
                 to="/faq"
                 className={`text-sm font-medium hover:opacity-80 transition-opacity duration-300 ${scrolled ? 'text-white' : 'text-gray-900'}`}
               >
-                FAQ
+                {t('faq')}
               </Link>
               <Link
                 to="/contact"
                 className={`text-sm font-medium hover:opacity-80 transition-opacity duration-300 ${scrolled ? 'text-white' : 'text-gray-900'}`}
               >
-                Get In Touch
+                {t('getInTouch')}
               </Link>
             </nav>
 
             {/* Desktop: User Actions */}
-            <div className="hidden md:flex items-center space-x-4">
+            <div className="hidden md:flex items-center space-x-4 rtl:space-x-reverse">
+              <button
+                type="button"
+                onClick={toggleLanguage}
+                className="flex items-center gap-1 text-sm font-medium hover:opacity-80 transition-opacity duration-300"
+                style={{ color: scrolled ? 'white' : 'var(--primary-color)' }}
+                aria-label={t('common:language')}
+              >
+                <MdLanguage size={16} />
+                <span>{t(`common:languages.${currentLanguage === 'ar' ? 'en' : 'ar'}`)}</span>
+              </button>
               <Link 
                 to="/search"
                 className="p-2 rounded-full text-white hover:shadow-md transition-all duration-300" 
@@ -298,17 +308,17 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                 <FaShoppingCart size={14} />
                 {cartCount > 0 && (
                   <span 
-                    className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center animate-pulse"
+                    className="absolute -top-1 -end-1 bg-red-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center animate-pulse"
                   >
                     {cartCount}
                   </span>
                 )}
               </Link> */}
 
-              {/* Notifications - Commented out - notification system disabled */}
-              {/* {isAuthenticated && (
+              {/* Notifications */}
+              {isAuthenticated && (
                 <NotificationDropdown className="relative" />
-              )} */}
+              )}
               {isAuthenticated && user ? (
                 <div className="relative" ref={dropdownRef}>
                   <button 
@@ -331,7 +341,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                     <span className="hidden md:inline">{getUserDisplayName()}</span>
                     {/* Commented out - notification system disabled */}
                     {/* {unreadNotificationsCount > 0 && (
-                      <span className="bg-red-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center ml-1">
+                      <span className="bg-red-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center ms-1">
                         {unreadNotificationsCount > 9 ? '9+' : unreadNotificationsCount}
                       </span>
                     )} */}
@@ -339,7 +349,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                   </button>
 
                   {profileDropdownOpen && (
-                    <div className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-50">
+                    <div className="absolute end-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-50">
                       <div className="px-4 py-3 border-b border-gray-200">
                         <p className="text-sm font-medium text-gray-900">{getUserDisplayName()}</p>
                         <p className="text-sm text-gray-700">{user.email}</p>
@@ -354,8 +364,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                         className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                         onClick={() => setProfileDropdownOpen(false)}
                       >
-                        <FaTachometerAlt className="mr-3" />
-                        Dashboard
+                        <FaTachometerAlt className="me-3" />
+                        {t('menu.dashboard')}
                       </Link>
                       
                       <Link 
@@ -363,8 +373,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                         className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                         onClick={() => setProfileDropdownOpen(false)}
                       >
-                        <FaUser className="mr-3" />
-                        View Profile
+                        <FaUser className="me-3" />
+                        {t('menu.viewProfile')}
                       </Link>
                       
                       {(user.role === 'customer') && (
@@ -374,8 +384,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaTicketAlt className="mr-3" />
-                            My Bookings
+                            <FaTicketAlt className="me-3" />
+                            {t('bookings')}
                           </Link>
                           
                           <Link 
@@ -383,8 +393,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaHeart className="mr-3" />
-                            Favorites
+                            <FaHeart className="me-3" />
+                            {t('favorites')}
                           </Link>
                         </>
                       )}
@@ -396,8 +406,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaTicketAlt className="mr-3" />
-                            My Events
+                            <FaTicketAlt className="me-3" />
+                            {t('menu.myEvents')}
                           </Link>
                           
                           <Link 
@@ -405,8 +415,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaCalendarPlus className="mr-3" />
-                            Create Event
+                            <FaCalendarPlus className="me-3" />
+                            {t('menu.createEvent')}
                           </Link>
                           
                           <Link 
@@ -414,8 +424,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaFileAlt className="mr-3" />
-                            Bookings
+                            <FaFileAlt className="me-3" />
+                            {t('menu.vendorBookings')}
                           </Link>
                           
                           <Link 
@@ -423,8 +433,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaChartBar className="mr-3" />
-                            Analytics
+                            <FaChartBar className="me-3" />
+                            {t('menu.analytics')}
                           </Link>
                           
                           <Link 
@@ -432,58 +442,68 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                             onClick={() => setProfileDropdownOpen(false)}
                           >
-                            <FaCog className="mr-3" />
-                            Vendor Settings
+                            <FaCog className="me-3" />
+                            {t('menu.vendorSettings')}
                           </Link>
                         </>
                       )}
                       
-                      {user.role === 'admin' && (
+                      {permissions.length > 0 && (
                         <>
-                          <Link 
-                            to="/admin/users"
-                            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                            onClick={() => setProfileDropdownOpen(false)}
-                          >
-                            <FaUser className="mr-3" />
-                            Manage Users
-                          </Link>
+                          {canAccessAdminPath('/admin/users') && (
+                            <Link 
+                              to="/admin/users"
+                              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                              onClick={() => setProfileDropdownOpen(false)}
+                            >
+                              <FaUser className="me-3" />
+                              {t('menu.manageUsers')}
+                            </Link>
+                          )}
                           
-                          <Link 
-                            to="/admin/events"
-                            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                            onClick={() => setProfileDropdownOpen(false)}
-                          >
-                            <FaTicketAlt className="mr-3" />
-                            Manage Events
-                          </Link>
+                          {canAccessAdminPath('/admin/events') && (
+                            <Link 
+                              to="/admin/events"
+                              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                              onClick={() => setProfileDropdownOpen(false)}
+                            >
+                              <FaTicketAlt className="me-3" />
+                              {t('menu.manageEvents')}
+                            </Link>
+                          )}
                           
-                          <Link 
-                            to="/admin/venues"
-                            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                            onClick={() => setProfileDropdownOpen(false)}
-                          >
-                            <FaCog className="mr-3" />
-                            Manage Venues
-                          </Link>
+                          {canAccessAdminPath('/admin/venues') && (
+                            <Link 
+                              to="/admin/venues"
+                              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                              onClick={() => setProfileDropdownOpen(false)}
+                            >
+                              <FaCog className="me-3" />
+                              {t('menu.manageVenues')}
+                            </Link>
+                          )}
                           
-                          <Link 
-                            to="/admin/categories"
-                            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                            onClick={() => setProfileDropdownOpen(false)}
-                          >
-                            <FaCog className="mr-3" />
-                            Manage Categories
-                          </Link>
+                          {canAccessAdminPath('/admin/categories') && (
+                            <Link 
+                              to="/admin/categories"
+                              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                              onClick={() => setProfileDropdownOpen(false)}
+                            >
+                              <FaCog className="me-3" />
+                              {t('menu.manageCategories')}
+                            </Link>
+                          )}
                           
-                          <Link 
-                            to="/admin/orders"
-                            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                            onClick={() => setProfileDropdownOpen(false)}
-                          >
-                            <FaTicketAlt className="mr-3" />
-                            Manage Orders
-                          </Link>
+                          {canAccessAdminPath('/admin/orders') && (
+                            <Link 
+                              to="/admin/orders"
+                              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                              onClick={() => setProfileDropdownOpen(false)}
+                            >
+                              <FaTicketAlt className="me-3" />
+                              {t('menu.manageOrders')}
+                            </Link>
+                          )}
                         </>
                       )}
                       
@@ -492,8 +512,8 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                           onClick={handleLogout}
                           className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                         >
-                          <FaSignOutAlt className="mr-3" />
-                          Logout
+                          <FaSignOutAlt className="me-3" />
+                          {t('logout')}
                         </button>
                       </div>
                     </div>
@@ -509,13 +529,13 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                   }}
                 >
                   <FaUser size={14} />
-                  Login
+                  {t('login')}
                 </Link>
               )}
             </div>
 
             {/* Mobile: Menu Toggle */}
-            <div className="md:hidden flex items-center space-x-3">
+            <div className="md:hidden flex items-center space-x-3 rtl:space-x-reverse">
               <Link 
                 to="/search"
                 className="p-2 rounded-full text-white hover:shadow-md transition-all duration-300" 
@@ -531,7 +551,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                 <FaShoppingCart size={14} />
                 {cartCount > 0 && (
                   <span 
-                    className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center"
+                    className="absolute -top-1 -end-1 bg-red-500 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center"
                   >
                     {cartCount}
                   </span>
@@ -551,18 +571,26 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
           {mobileMenuOpen && (
             <div className="md:hidden bg-white shadow-lg absolute w-full">
               <div className="px-4 py-6 space-y-4">
-                <Link to="/search" className="block py-2 text-base font-medium text-gray-900">Find Activities</Link>
-                <Link to="/blog" className="block py-2 text-base font-medium text-gray-900">Blog</Link>
-                <Link to="/about" className="block py-2 text-base font-medium text-gray-900">Kidzapp Go</Link>
-                <Link to="/contact" className="block py-2 text-base font-medium text-gray-900">Get In Touch</Link>
+                <button
+                  type="button"
+                  onClick={toggleLanguage}
+                  className="flex items-center gap-2 py-2 text-base font-medium text-gray-900"
+                >
+                  <MdLanguage size={18} />
+                  {t(`common:languages.${currentLanguage === 'ar' ? 'en' : 'ar'}`)}
+                </button>
+                <Link to="/search" className="block py-2 text-base font-medium text-gray-900">{t('findActivities')}</Link>
+                <Link to="/blog" className="block py-2 text-base font-medium text-gray-900">{t('blog')}</Link>
+                <Link to="/about" className="block py-2 text-base font-medium text-gray-900">{t('kidzappGo')}</Link>
+                <Link to="/contact" className="block py-2 text-base font-medium text-gray-900">{t('getInTouch')}</Link>
                 {/* <Link to="/cart" className="flex items-center py-2 text-base font-medium text-gray-900">
-                  <FaShoppingCart className="mr-2" size={14} />
-                  Cart {cartCount > 0 && <span className="ml-2 bg-red-500 text-white text-xs rounded-full px-2 py-1">{cartCount}</span>}
+                  <FaShoppingCart className="me-2" size={14} />
+                  {t('cart')} {cartCount > 0 && <span className="ms-2 bg-red-500 text-white text-xs rounded-full px-2 py-1">{cartCount}</span>}
                 </Link> */}
 
                 {/* Currency Selector - Mobile */}
                 {/* <div className="py-2">
-                  <p className="text-sm text-gray-700 mb-2">Select Currency</p>
+                  <p className="text-sm text-gray-700 mb-2">{t('selectCurrency')}</p>
                   <CurrencySelector compact={true} />
                 </div> */}
 
@@ -583,7 +611,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                         className="block py-2 text-base font-medium text-gray-900"
                         onClick={() => setMobileMenuOpen(false)}
                       >
-                        Dashboard
+                        {t('menu.dashboard')}
                       </Link>
                       
                       <Link
@@ -591,7 +619,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                         className="block py-2 text-base font-medium text-gray-900"
                         onClick={() => setMobileMenuOpen(false)}
                       >
-                        View Profile
+                        {t('menu.viewProfile')}
                       </Link>
 
                       {(user.role === 'customer') && (
@@ -601,7 +629,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="block py-2 text-base font-medium text-gray-900"
                             onClick={() => setMobileMenuOpen(false)}
                           >
-                            My Bookings
+                            {t('bookings')}
                           </Link>
 
                           <Link
@@ -609,7 +637,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                             className="block py-2 text-base font-medium text-gray-900"
                             onClick={() => setMobileMenuOpen(false)}
                           >
-                            Favorites
+                            {t('favorites')}
                           </Link>
                         </>
                       )}
@@ -620,7 +648,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                         style={{ backgroundColor: 'var(--accent-color)' }}
                       >
                         <FaSignOutAlt size={14} />
-                        Logout
+                        {t('logout')}
                       </button>
                     </div>
                   ) : (
@@ -630,7 +658,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                       style={{ backgroundColor: 'var(--primary-color)' }}
                     >
                       <FaUser size={14} />
-                      Login / Register
+                      {t('login')} / {t('register')}
                     </Link>
                   )}
                 </div>
@@ -657,9 +685,9 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
             <div className="col-span-1">
               <img src={kidroveLogo} alt="Kidzapp Logo" className="h-8 w-auto mb-4" />
               <p className="text-gray-700 text-sm mb-4">
-                Discover and book the best activities for your kids in the UAE.
+                {t('footer.tagline')}
               </p>
-              <div className="flex space-x-3">
+              <div className="flex space-x-3 rtl:space-x-reverse">
                 {socialSettings.facebookUrl && (
                   <a href={socialSettings.facebookUrl} target="_blank" rel="noopener noreferrer" className="hover:opacity-80 transition-opacity duration-300 flex items-center justify-center w-8 h-8 rounded-full" style={{ backgroundColor: 'var(--primary-color)', color: 'white' }}>
                     <FaFacebookF size={14} />
@@ -690,19 +718,19 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
             
             {/* Quick Links */}
             <div className="col-span-1">
-              <h3 className="font-semibold mb-4 text-gray-900">Quick Links</h3>
+              <h3 className="font-semibold mb-4 text-gray-900">{t('footer.quickLinks')}</h3>
               <ul className="space-y-2">
-                <li><Link to="/about" className="text-gray-700 hover:text-gray-900 text-sm">About Us</Link></li>
-                <li><Link to="/blog" className="text-gray-700 hover:text-gray-900 text-sm">Blog</Link></li>
-                <li><Link to="/contact" className="text-gray-700 hover:text-gray-900 text-sm">Contact Us</Link></li>
-                <li><Link to="/faq" className="text-gray-700 hover:text-gray-900 text-sm">FAQs</Link></li>
-                <li><Link to="/partner-with-us" className="text-gray-700 hover:text-gray-900 text-sm">Partner with Us</Link></li>
+                <li><Link to="/about" className="text-gray-700 hover:text-gray-900 text-sm">{t('footer.aboutUs')}</Link></li>
+                <li><Link to="/blog" className="text-gray-700 hover:text-gray-900 text-sm">{t('blog')}</Link></li>
+                <li><Link to="/contact" className="text-gray-700 hover:text-gray-900 text-sm">{t('footer.contactUs')}</Link></li>
+                <li><Link to="/faq" className="text-gray-700 hover:text-gray-900 text-sm">{t('footer.faqs')}</Link></li>
+                <li><Link to="/partner-with-us" className="text-gray-700 hover:text-gray-900 text-sm">{t('footer.partnerWithUs')}</Link></li>
               </ul>
             </div>
 
             {/* Categories - Dynamic */}
             <div className="col-span-1">
-              <h3 className="font-semibold mb-4 text-gray-900">Categories</h3>
+              <h3 className="font-semibold mb-4 text-gray-900">{t('footer.categories')}</h3>
               <ul className="space-y-2">
                 {categoriesLoading ? (
                   <div className="space-y-2">
@@ -725,7 +753,7 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                   ))
                 )}
                 {featuredCategories.length === 0 && !categoriesLoading && (
-                  <li className="text-gray-700 text-sm italic">No categories available</li>
+                  <li className="text-gray-700 text-sm italic">{t('footer.noCategories')}</li>
                 )}
               </ul>
             </div>
@@ -736,11 +764,11 @@ const Layout: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
 
           <div className="border-t border-gray-200 mt-8 pt-8 flex flex-col md:flex-row justify-between items-center">
             <p className="text-gray-700 text-sm">
-              &copy; {new Date().getFullYear()} Kidzapp. All rights reserved.
+              {t('footer.copyright', { year: new Date().getFullYear() })}
             </p>
-            <div className="mt-4 md:mt-0 flex space-x-6">
-              <Link to="/privacy" className="text-gray-700 hover:text-gray-900 text-sm">Privacy Policy</Link>
-              <Link to="/terms" className="text-gray-700 hover:text-gray-900 text-sm">Terms of Service</Link>
+            <div className="mt-4 md:mt-0 flex space-x-6 rtl:space-x-reverse">
+              <Link to="/privacy" className="text-gray-700 hover:text-gray-900 text-sm">{t('footer.privacyPolicy')}</Link>
+              <Link to="/terms" className="text-gray-700 hover:text-gray-900 text-sm">{t('footer.termsOfService')}</Link>
             </div>
           </div>
         </div>
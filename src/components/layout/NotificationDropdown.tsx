@@ -7,7 +7,7 @@ import {
   fetchUserNotifications,
   markAsRead,
   markAllAsRead,
-  selectNotifications,
+  selectUserNotifications,
   selectUnreadCount,
   selectNotificationsLoading
 } from '@/store/slices/notificationsSlice';
@@ -22,7 +22,7 @@ const NotificationDropdown: React.FC<NotificationDropdownProps> = ({ className =
   const dropdownRef = useRef<HTMLDivElement>(null);
   
   const dispatch = useDispatch<AppDispatch>();
-  const notifications = useSelector(selectNotifications);
+  const notifications = useSelector(selectUserNotifications);
   const unreadCount = useSelector(selectUnreadCount);
   const loading = useSelector(selectNotificationsLoading);
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
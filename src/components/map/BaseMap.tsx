@@ -0,0 +1,37 @@
+import React from 'react';
+import { MapContainer, TileLayer } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { config } from '../../config';
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, GeoPoint } from '../../utils/mapUtils';
+
+interface BaseMapProps {
+  center?: GeoPoint;
+  zoom?: number;
+  className?: string;
+  scrollWheelZoom?: boolean;
+  children?: React.ReactNode;
+}
+
+/**
+ * Leaflet map with the configured tile server (VITE_MAP_TILE_URL)
+ */
+const BaseMap: React.FC<BaseMapProps> = ({
+  center = DEFAULT_MAP_CENTER,
+  zoom = DEFAULT_MAP_ZOOM,
+  className = 'h-64',
+  scrollWheelZoom = false,
+  children,
+}) => (
+  <MapContainer
+    center={[center.lat, center.lng]}
+    zoom={zoom}
+    maxZoom={config.map.maxZoom}
+    scrollWheelZoom={scrollWheelZoom}
+    className={`w-full z-0 ${className}`}
+  >
+    <TileLayer url={config.map.tileUrl} attribution={config.map.attribution} maxZoom={config.map.maxZoom} />
+    {children}
+  </MapContainer>
+);
+
+export default BaseMap;
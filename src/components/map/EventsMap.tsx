@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Circle, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { LocateFixed, Crosshair, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import BaseMap from './BaseMap';
+import { eventPinIcon, getClusterIcon, radiusHandleIcon, searchCenterIcon } from './mapIcons';
+import {
+  clampRadius,
+  clusterMarkers,
+  DEFAULT_MAP_CENTER,
+  destinationPoint,
+  distanceKm,
+  GeoPoint,
+  MapMarker,
+  SEARCH_RADIUS_LIMITS,
+  SearchArea,
+} from '../../utils/mapUtils';
+
+export interface EventMapItem {
+  id: string;
+  position: GeoPoint;
+  title: string;
+  href: string;
+  subtitle?: string;
+  priceLabel?: string;
+  imageUrl?: string;
+}
+
+interface EventsMapProps {
+  items: EventMapItem[];
+  area?: SearchArea | null;
+  defaultRadius?: number;
+  onAreaChange?: (area: SearchArea | null) => void;
+  loading?: boolean;
+  className?: string;
+}
+
+const EventPopupContent: React.FC<{ item: EventMapItem }> = ({ item }) => (
+  <Link to={item.href} className="flex gap-3 w-56 !text-gray-900 no-underline">
+    {item.imageUrl && <img src={item.imageUrl} alt="" className="w-16 h-16 rounded object-cover flex-shrink-0" />}
+    <div className="min-w-0">
+      <p className="font-semibold line-clamp-2 !m-0">{item.title}</p>
+      {item.subtitle && <p className="text-xs text-gray-500 !m-0 !mt-1">{item.subtitle}</p>}
+      {item.priceLabel && <p className="text-sm font-medium text-primary !m-0 !mt-1">{item.priceLabel}</p>}
+    </div>
+  </Link>
+);
+
+/**
+ * Event markers, clustered by screen distance and re-clustered as the user zooms
+ */
+const ClusteredMarkers: React.FC<{ items: EventMapItem[] }> = ({ items }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(
+    () =>
+      clusterMarkers<EventMapItem>(
+        items.map((item) => ({ id: item.id, position: item.position, data: item })),
+        zoom
+      ),
+    [items, zoom]
+  );
+
+  const zoomToCluster = (markers: MapMarker<EventMapItem>[]) => {
+    map.fitBounds(L.latLngBounds(markers.map(({ position }) => [position.lat, position.lng])), { padding: [48, 48] });
+  };
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        const position: [number, number] = [cluster.position.lat, cluster.position.lng];
+
+        if (cluster.markers.length === 1) {
+          return (
+            <Marker key={cluster.id} position={position} icon={eventPinIcon}>
+              <Popup>
+                <EventPopupContent item={cluster.markers[0].data} />
+              </Popup>
+            </Marker>
+          );
+        }
+
+        // Events at the same spot never split apart, so list them instead of zooming
+        const samePlace = cluster.markers.every(({ position: p }) => distanceKm(p, cluster.position) < 0.01);
+
+        return (
+          <Marker
+            key={cluster.id}
+            position={position}
+            icon={getClusterIcon(cluster.markers.length)}
+            eventHandlers={samePlace ? undefined : { click: () => zoomToCluster(cluster.markers) }}
+          >
+            {samePlace && (
+              <Popup>
+                <div className="space-y-3 max-h-64 overflow-y-auto">
+                  {cluster.markers.map(({ id, data }) => (
+                    <EventPopupContent key={id} item={data} />
+                  ))}
+                </div>
+              </Popup>
+            )}
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
+
+/**
+ * Search radius: drag the centre to move it, or the handle on the edge to resize it
+ */
+const SearchAreaLayer: React.FC<{ area: SearchArea; onChange?: (area: SearchArea) => void }> = ({ area, onChange }) => {
+  const map = useMap();
+  const [radius, setRadius] = useState(area.radius);
+
+  useEffect(() => {
+    setRadius(area.radius);
+  }, [area.radius]);
+
+  // Keep the whole area in view when it moves or changes size
+  useEffect(() => {
+    map.fitBounds(L.latLng(area.lat, area.lng).toBounds(area.radius * 2000), { padding: [24, 24] });
+  }, [map, area.lat, area.lng, area.radius]);
+
+  const handle = destinationPoint(area, radius, 90);
+
+  return (
+    <>
+      <Circle
+        center={[area.lat, area.lng]}
+        radius={radius * 1000}
+        pathOptions={{ color: '#3b82f6', fillColor: '#3b82f6', fillOpacity: 0.08, weight: 2 }}
+      />
+      <Marker
+        position={[area.lat, area.lng]}
+        icon={searchCenterIcon}
+        draggable={!!onChange}
+        eventHandlers={{
+          dragend: (e) => {
+            const { lat, lng } = (e.target as L.Marker).getLatLng();
+            onChange?.({ lat, lng, radius: area.radius });
+          },
+        }}
+      />
+      {onChange && (
+        <Marker
+          position={[handle.lat, handle.lng]}
+          icon={radiusHandleIcon}
+          draggable
+          eventHandlers={{
+            drag: (e) => setRadius(clampRadius(distanceKm(area, (e.target as L.Marker).getLatLng()))),
+            dragend: (e) => {
+              onChange({ ...area, radius: clampRadius(distanceKm(area, (e.target as L.Marker).getLatLng())) });
+            },
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+// Fit the map to the results once they arrive, unless a search area is driving the view
+const FitToItems: React.FC<{ items: EventMapItem[]; disabled: boolean }> = ({ items, disabled }) => {
+  const map = useMap();
+  const fittedRef = useRef(false);
+
+  useEffect(() => {
+    if (disabled || fittedRef.current || items.length === 0) return;
+    map.fitBounds(L.latLngBounds(items.map(({ position }) => [position.lat, position.lng])), {
+      padding: [48, 48],
+      maxZoom: 14,
+    });
+    fittedRef.current = true;
+  }, [map, items, disabled]);
+
+  return null;
+};
+
+// Exposes the map's centre to the toolbar, which sits outside the map container
+const CenterTracker: React.FC<{ onMove: (center: GeoPoint) => void }> = ({ onMove }) => {
+  const map = useMapEvents({
+    moveend: () => onMove(map.getCenter()),
+  });
+  return null;
+};
+
+/**
+ * Map view of search results with marker clustering, "near me" and a draggable radius filter
+ */
+const EventsMap: React.FC<EventsMapProps> = ({
+  items,
+  area,
+  defaultRadius = 25,
+  onAreaChange,
+  loading = false,
+  className = 'h-[32rem]',
+}) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const centerRef = useRef<GeoPoint>(DEFAULT_MAP_CENTER);
+
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not supported by this browser');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setIsLocating(false);
+        onAreaChange?.({ lat: coords.latitude, lng: coords.longitude, radius: area?.radius || defaultRadius });
+      },
+      () => {
+        setIsLocating(false);
+        toast.error('Could not get your location. Check the location permission for this site.');
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const handleSearchHere = () => {
+    onAreaChange?.({ ...centerRef.current, radius: area?.radius || defaultRadius });
+  };
+
+  return (
+    <div className="relative">
+      <BaseMap className={className} scrollWheelZoom>
+        <ClusteredMarkers items={items} />
+        <FitToItems items={items} disabled={!!area} />
+        <CenterTracker onMove={(center) => (centerRef.current = center)} />
+        {area && <SearchAreaLayer area={area} onChange={onAreaChange} />}
+      </BaseMap>
+
+      {onAreaChange && (
+        <div className="absolute top-3 end-3 z-[1000] flex flex-col items-end gap-2">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleNearMe}
+              disabled={isLocating}
+              className="inline-flex items-center px-3 py-2 bg-white text-gray-800 text-sm font-medium rounded-lg shadow hover:bg-gray-50 disabled:opacity-60"
+            >
+              <LocateFixed className={`h-4 w-4 me-1.5 ${isLocating ? 'animate-pulse' : ''}`} />
+              {isLocating ? 'Locating...' : 'Near me'}
+            </button>
+            <button
+              type="button"
+              onClick={handleSearchHere}
+              className="inline-flex items-center px-3 py-2 bg-white text-gray-800 text-sm font-medium rounded-lg shadow hover:bg-gray-50"
+            >
+              <Crosshair className="h-4 w-4 me-1.5" />
+              Search this area
+            </button>
+          </div>
+
+          {area && (
+            <div className="bg-white rounded-lg shadow px-3 py-2 w-60">
+              <div className="flex items-center justify-between text-sm text-gray-700 mb-1">
+                <label htmlFor="map-search-radius">Within {area.radius} km</label>
+                <button
+                  type="button"
+                  onClick={() => onAreaChange(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                  aria-label="Clear search area"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <input
+                id="map-search-radius"
+                type="range"
+                min={SEARCH_RADIUS_LIMITS.min}
+                max={SEARCH_RADIUS_LIMITS.max}
+                value={area.radius}
+                onChange={(e) => onAreaChange({ ...area, radius: clampRadius(Number(e.target.value)) })}
+                className="w-full accent-primary"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {loading && (
+        <div className="absolute inset-0 z-[1000] flex items-center justify-center bg-white/50 rounded-lg pointer-events-none">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      )}
+
+      {!loading && items.length === 0 && (
+        <div className="absolute bottom-4 inset-x-0 z-[1000] flex justify-center pointer-events-none">
+          <span className="bg-white rounded-full shadow px-4 py-2 text-sm text-gray-600">
+            No events with a map location match these filters
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventsMap;
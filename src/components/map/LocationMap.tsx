@@ -0,0 +1,32 @@
+import React from 'react';
+import { Marker, Popup } from 'react-leaflet';
+import BaseMap from './BaseMap';
+import { eventPinIcon } from './mapIcons';
+import { GeoPoint, getDirectionsUrl } from '../../utils/mapUtils';
+
+interface LocationMapProps {
+  position: GeoPoint;
+  title?: string;
+  address?: string;
+  zoom?: number;
+  className?: string;
+}
+
+/**
+ * Map of a single event or venue location
+ */
+const LocationMap: React.FC<LocationMapProps> = ({ position, title, address, zoom = 15, className }) => (
+  <BaseMap center={position} zoom={zoom} className={className}>
+    <Marker position={[position.lat, position.lng]} icon={eventPinIcon}>
+      <Popup>
+        {title && <p className="font-semibold text-gray-900 !m-0">{title}</p>}
+        {address && <p className="text-gray-600 !mt-1 !mb-2">{address}</p>}
+        <a href={getDirectionsUrl(position)} target="_blank" rel="noopener noreferrer">
+          Get directions
+        </a>
+      </Popup>
+    </Marker>
+  </BaseMap>
+);
+
+export default LocationMap;
@@ -0,0 +1,43 @@
+import L from 'leaflet';
+
+// Markers are drawn with divIcons styled in index.css, so no marker images need to be served
+// alongside the bundle
+
+export const eventPinIcon = L.divIcon({
+  className: '',
+  html: '<span class="map-pin"></span>',
+  iconSize: [28, 28],
+  iconAnchor: [14, 28],
+  popupAnchor: [0, -26],
+});
+
+export const searchCenterIcon = L.divIcon({
+  className: '',
+  html: '<span class="map-search-center"></span>',
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+export const radiusHandleIcon = L.divIcon({
+  className: '',
+  html: '<span class="map-radius-handle" title="Drag to change the search radius"></span>',
+  iconSize: [18, 18],
+  iconAnchor: [9, 9],
+});
+
+const clusterIconCache = new Map<number, L.DivIcon>();
+
+export const getClusterIcon = (count: number): L.DivIcon => {
+  let icon = clusterIconCache.get(count);
+  if (!icon) {
+    const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+    icon = L.divIcon({
+      className: '',
+      html: `<span class="map-cluster" style="width:${size}px;height:${size}px">${count}</span>`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+    clusterIconCache.set(count, icon);
+  }
+  return icon;
+};
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { X, AlertTriangle, Loader2, CheckCircle } from 'lucide-react';
+import { useSelector } from 'react-redux';
 import api from '../../services/api';
+import { selectImpersonation } from '../../store/slices/authSlice';
+import ImpersonationNotice from '../common/ImpersonationNotice';
 
 interface CancelOrderModalProps {
   isOpen: boolean;
@@ -49,6 +52,7 @@ const CancelOrderModal: React.FC<CancelOrderModalProps> = ({
   const [step, setStep] = useState<'confirm' | 'result'>('confirm');
   const [canCancel, setCanCancel] = useState(true);
   const [cantCancelReason, setCantCancelReason] = useState<string | null>(null);
+  const isImpersonating = !!useSelector(selectImpersonation);
 
   // Calculate refund amount (subtotal is the ticket price, which is refundable)
   // Non-refundable = serviceFee + tax
@@ -73,6 +77,7 @@ const CancelOrderModal: React.FC<CancelOrderModalProps> = ({
   }, [isOpen, eventDate]);
 
   const handleCancel = async () => {
+    if (isImpersonating) return;
     setIsLoading(true);
     setError(null);
 
@@ -141,6 +146,7 @@ const CancelOrderModal: React.FC<CancelOrderModalProps> = ({
 
             {step === 'confirm' ? (
               <div className="mt-4">
+                <ImpersonationNotice className="mb-4" />
                 {!canCancel ? (
                   <div className="rounded-md bg-red-50 p-4">
                     <div className="flex">
@@ -280,7 +286,7 @@ const CancelOrderModal: React.FC<CancelOrderModalProps> = ({
                   <button
                     type="button"
                     onClick={handleCancel}
-                    disabled={isLoading}
+                    disabled={isLoading || isImpersonating}
                     className="inline-flex w-full justify-center rounded-md bg-red-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 sm:ml-3 sm:w-auto disabled:opacity-50"
                   >
                     {isLoading ? (
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FileText } from 'lucide-react';
+
+import invoiceAPI from '../../services/api/invoiceAPI';
+import type { OrderTaxDocuments, TaxDocumentRecord } from '../../types/invoice';
+import { TAX_DOCUMENT_TITLES } from '../../utils/invoiceUtils';
+import { downloadTaxDocumentPdf } from '../../utils/invoicePdfUtils';
+
+interface TaxDocumentsButtonProps {
+  orderId: string;
+  label?: string;
+  iconOnly?: boolean;
+  className?: string;
+}
+
+/**
+ * Downloads an order's tax invoice as a bilingual PDF. Once the order has credit notes for
+ * refunds, the button opens a list of all the order's documents instead.
+ */
+const TaxDocumentsButton: React.FC<TaxDocumentsButtonProps> = ({
+  orderId,
+  label = 'Tax Invoice (PDF)',
+  iconOnly = false,
+  className = 'w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50',
+}) => {
+  const [data, setData] = useState<OrderTaxDocuments | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Documents are fetched per order, so a different order starts again
+  useEffect(() => {
+    setData(null);
+    setIsMenuOpen(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isMenuOpen]);
+
+  const download = (taxDocuments: OrderTaxDocuments, record: TaxDocumentRecord) => {
+    try {
+      downloadTaxDocumentPdf(taxDocuments.order, record);
+      setIsMenuOpen(false);
+    } catch (error) {
+      console.error('Error creating tax document PDF:', error);
+      toast.error('Failed to create the PDF');
+    }
+  };
+
+  const handleClick = async () => {
+    if (isMenuOpen) {
+      setIsMenuOpen(false);
+      return;
+    }
+
+    let taxDocuments = data;
+    if (!taxDocuments) {
+      try {
+        setIsLoading(true);
+        taxDocuments = await invoiceAPI.getOrderTaxDocuments(orderId);
+        setData(taxDocuments);
+      } catch (error: any) {
+        console.error('Error fetching tax documents:', error);
+        toast.error(error.response?.data?.message || 'Failed to load the tax invoice');
+        return;
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    if (taxDocuments.documents.length === 0) {
+      toast.error('A tax invoice is issued once the order has been paid');
+    } else if (taxDocuments.documents.length === 1) {
+      download(taxDocuments, taxDocuments.documents[0]);
+    } else {
+      setIsMenuOpen(true);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isLoading}
+        className={className}
+        title={iconOnly ? label : undefined}
+        aria-label={iconOnly ? label : undefined}
+      >
+        <FileText className={iconOnly ? 'w-4 h-4' : 'w-4 h-4 mr-2'} />
+        {!iconOnly && (isLoading ? 'Loading...' : label)}
+      </button>
+
+      {isMenuOpen && data && (
+        <div className="absolute right-0 z-20 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+          {data.documents.map((record) => (
+            <button
+              key={record._id}
+              type="button"
+              onClick={() => download(data, record)}
+              className="w-full text-left px-4 py-2 hover:bg-gray-50"
+            >
+              <span className="block text-sm font-medium text-gray-900">{TAX_DOCUMENT_TITLES[record.type].en}</span>
+              <span className="block text-xs text-gray-500">{record.number}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxDocumentsButton;
@@ -0,0 +1,109 @@
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Baby } from 'lucide-react';
+
+import { AppDispatch } from '../../store';
+import { selectIsAuthenticated } from '../../store/slices/authSlice';
+import {
+  fetchChildProfiles,
+  selectChildProfiles,
+  selectChildProfilesLoaded,
+  selectChildProfilesLoadFailed,
+  selectIsChildProfilesLoading,
+} from '../../store/slices/familySlice';
+import type { ChildProfile } from '../../types/family';
+import { getChildEligibility } from '../../utils/childProfileUtils';
+
+interface ChildProfilePickerProps {
+  ageDate: Date;
+  ageRange?: [number, number];
+  selectedId?: string;
+  onSelect: (child: ChildProfile) => void;
+  className?: string;
+}
+
+/**
+ * One-click fill from the children saved under Family on the profile. Children outside the
+ * event's age range on the event date can't be picked.
+ */
+const ChildProfilePicker: React.FC<ChildProfilePickerProps> = ({
+  ageDate,
+  ageRange,
+  selectedId,
+  onSelect,
+  className = '',
+}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const isAuthenticated = useSelector(selectIsAuthenticated);
+  const children = useSelector(selectChildProfiles);
+  const hasLoaded = useSelector(selectChildProfilesLoaded);
+  const isLoading = useSelector(selectIsChildProfilesLoading);
+  const loadFailed = useSelector(selectChildProfilesLoadFailed);
+
+  // After a failed fetch, only the retry link fetches again
+  useEffect(() => {
+    if (isAuthenticated && !hasLoaded && !isLoading && !loadFailed) {
+      dispatch(fetchChildProfiles());
+    }
+  }, [dispatch, isAuthenticated, hasLoaded, isLoading, loadFailed]);
+
+  if (isAuthenticated && loadFailed && !hasLoaded) {
+    return (
+      <p className={`text-xs text-gray-500 ${className}`}>
+        Couldn't load your saved children.{' '}
+        <button type="button" onClick={() => dispatch(fetchChildProfiles())} className="text-blue-700 hover:underline">
+          Try again
+        </button>
+      </p>
+    );
+  }
+
+  if (!isAuthenticated || children.length === 0) return null;
+
+  return (
+    <div className={`p-3 bg-blue-50 border border-blue-100 rounded-lg ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-blue-900 flex items-center">
+          <Baby className="w-4 h-4 mr-2" />
+          Fill from a saved child
+        </p>
+        <Link to="/profile?tab=family" className="text-xs text-blue-700 hover:underline">
+          Manage family
+        </Link>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {children.map((child) => {
+          const { age, error } = getChildEligibility(child, ageRange, ageDate);
+          const isSelected = child._id === selectedId;
+
+          return (
+            <button
+              key={child._id}
+              type="button"
+              onClick={() => onSelect(child)}
+              disabled={!!error}
+              title={error || undefined}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                isSelected
+                  ? 'bg-primary text-white border-primary'
+                  : error
+                    ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
+                    : 'bg-white text-gray-800 border-gray-300 hover:border-primary'
+              }`}
+            >
+              {child.name} <span className={isSelected ? 'text-white/80' : 'text-gray-500'}>({age})</span>
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Ages on {format(ageDate, 'MMM d, yyyy')}
+        {ageRange ? `. This event is for ages ${ageRange[0]}–${ageRange[1]}.` : ''}
+      </p>
+    </div>
+  );
+};
+
+export default ChildProfilePicker;
@@ -0,0 +1,435 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { FaChild, FaEdit, FaPlus, FaSave, FaSpinner, FaTrash } from 'react-icons/fa';
+
+import { AnimatedButton, HoverCard } from '@/components/animations';
+import ConfirmDialog from '@/components/common/ConfirmDialog';
+import { AppDispatch } from '@/store';
+import {
+  createChildProfile,
+  deleteChildProfile,
+  fetchChildProfiles,
+  selectChildProfiles,
+  selectChildProfilesLoaded,
+  selectChildProfilesLoadFailed,
+  selectIsChildProfilesLoading,
+  selectIsSavingChildProfile,
+  updateChildProfile,
+} from '@/store/slices/familySlice';
+import type { ChildProfile, ChildProfileData } from '@/types/family';
+import { getAgeOnDate } from '@/utils/childProfileUtils';
+
+interface ChildFormData {
+  name: string;
+  dateOfBirth: string;
+  gender: '' | 'male' | 'female' | 'other';
+  allergies: string;
+  medicalConditions: string;
+  emergencyName: string;
+  emergencyPhone: string;
+  emergencyRelationship: string;
+  specialRequirements: string;
+}
+
+const emptyForm: ChildFormData = {
+  name: '',
+  dateOfBirth: '',
+  gender: '',
+  allergies: '',
+  medicalConditions: '',
+  emergencyName: '',
+  emergencyPhone: '',
+  emergencyRelationship: '',
+  specialRequirements: '',
+};
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toFormData = (child: ChildProfile): ChildFormData => ({
+  name: child.name,
+  dateOfBirth: child.dateOfBirth.slice(0, 10),
+  gender: child.gender || '',
+  allergies: (child.allergies || []).join(', '),
+  medicalConditions: (child.medicalConditions || []).join(', '),
+  emergencyName: child.emergencyContact?.name || '',
+  emergencyPhone: child.emergencyContact?.phone || '',
+  emergencyRelationship: child.emergencyContact?.relationship || '',
+  specialRequirements: child.specialRequirements || '',
+});
+
+const toChildProfileData = (form: ChildFormData): ChildProfileData => ({
+  name: form.name.trim(),
+  dateOfBirth: form.dateOfBirth,
+  gender: form.gender || undefined,
+  allergies: splitList(form.allergies),
+  medicalConditions: splitList(form.medicalConditions),
+  emergencyContact: form.emergencyName.trim() || form.emergencyPhone.trim()
+    ? {
+        name: form.emergencyName.trim(),
+        phone: form.emergencyPhone.trim(),
+        relationship: form.emergencyRelationship,
+      }
+    : undefined,
+  specialRequirements: form.specialRequirements.trim() || undefined,
+});
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Children saved on the account, offered as one-click fill when booking or registering
+ */
+const FamilyTab: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const children = useSelector(selectChildProfiles);
+  const hasLoaded = useSelector(selectChildProfilesLoaded);
+  const isLoading = useSelector(selectIsChildProfilesLoading);
+  const loadFailed = useSelector(selectChildProfilesLoadFailed);
+  const isSaving = useSelector(selectIsSavingChildProfile);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ChildFormData>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [childToDelete, setChildToDelete] = useState<ChildProfile | null>(null);
+
+  useEffect(() => {
+    if (!hasLoaded && !loadFailed) {
+      dispatch(fetchChildProfiles());
+    }
+  }, [dispatch, hasLoaded, loadFailed]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setErrors({});
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const startEdit = (child: ChildProfile) => {
+    setFormData(toFormData(child));
+    setErrors({});
+    setEditingId(child._id);
+    setShowForm(true);
+  };
+
+  const updateField = (field: keyof ChildFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!formData.name.trim()) newErrors.name = 'Name is required';
+    if (!formData.dateOfBirth) newErrors.dateOfBirth = 'Date of birth is required';
+    else if (formData.dateOfBirth > today) newErrors.dateOfBirth = 'Date of birth cannot be in the future';
+    if (formData.emergencyName.trim() && !formData.emergencyPhone.trim()) {
+      newErrors.emergencyPhone = 'Emergency contact phone is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const data = toChildProfileData(formData);
+    try {
+      if (editingId) {
+        await dispatch(updateChildProfile({ id: editingId, data })).unwrap();
+      } else {
+        await dispatch(createChildProfile(data)).unwrap();
+      }
+      resetForm();
+    } catch {
+      // The thunk has already shown the error
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!childToDelete) return;
+    await dispatch(deleteChildProfile(childToDelete._id));
+    setChildToDelete(null);
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] ? <p className="mt-1 text-sm text-red-600">{errors[field]}</p> : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Family</h3>
+          <p className="text-sm text-gray-600">
+            Save your children once and fill their details in one click when booking or registering.
+          </p>
+        </div>
+        <AnimatedButton
+          onClick={() => { resetForm(); setShowForm(true); }}
+          className="bg-blue-600 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-blue-700 transition-colors"
+        >
+          <FaPlus />
+          Add Child
+        </AnimatedButton>
+      </div>
+
+      {isLoading && !hasLoaded && (
+        <div className="flex items-center gap-2 text-gray-600">
+          <FaSpinner className="animate-spin" />
+          Loading your family...
+        </div>
+      )}
+
+      {loadFailed && !hasLoaded && (
+        <div className="flex items-center gap-2 text-gray-600">
+          Couldn't load your family.
+          <button type="button" onClick={() => dispatch(fetchChildProfiles())} className="text-primary hover:underline">
+            Try again
+          </button>
+        </div>
+      )}
+
+      {hasLoaded && children.length === 0 && !showForm && (
+        <div className="bg-gray-50 rounded-2xl p-8 text-center text-gray-600">
+          <FaChild className="mx-auto mb-3 text-gray-400" size={32} />
+          No children saved yet.
+        </div>
+      )}
+
+      {/* Children List */}
+      <div className="grid gap-4">
+        {children.map(child => (
+          <HoverCard key={child._id} className="bg-white p-6 rounded-2xl border border-gray-200">
+            <div className="flex justify-between items-start">
+              <div className="flex-1">
+                <h4 className="font-semibold text-gray-900">
+                  {child.name}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {getAgeOnDate(child.dateOfBirth, new Date())} years
+                  </span>
+                </h4>
+                <p className="text-sm text-gray-600">
+                  Born {format(new Date(`${child.dateOfBirth.slice(0, 10)}T00:00:00`), 'MMM d, yyyy')}
+                  {child.gender && <span className="capitalize"> · {child.gender}</span>}
+                </p>
+                {(child.allergies?.length || child.medicalConditions?.length) ? (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {child.allergies?.map(allergy => (
+                      <span key={`allergy-${allergy}`} className="px-2 py-1 bg-red-50 text-red-700 text-xs rounded-full">
+                        {allergy}
+                      </span>
+                    ))}
+                    {child.medicalConditions?.map(condition => (
+                      <span key={`condition-${condition}`} className="px-2 py-1 bg-amber-50 text-amber-700 text-xs rounded-full">
+                        {condition}
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+                {child.emergencyContact?.name && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    Emergency: {child.emergencyContact.name}
+                    {child.emergencyContact.relationship && ` (${child.emergencyContact.relationship})`}
+                    {' · '}{child.emergencyContact.phone}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => startEdit(child)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <FaEdit />
+                </button>
+                <button
+                  onClick={() => setChildToDelete(child)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  disabled={isSaving}
+                >
+                  <FaTrash />
+                </button>
+              </div>
+            </div>
+          </HoverCard>
+        ))}
+      </div>
+
+      {/* Add/Edit Child Form */}
+      <AnimatePresence>
+        {showForm && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <HoverCard className="bg-white p-6 rounded-2xl border border-gray-200">
+              <h4 className="text-lg font-semibold mb-4">
+                {editingId ? 'Edit Child' : 'Add Child'}
+              </h4>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => updateField('name', e.target.value)}
+                      className={inputClassName}
+                      placeholder="Child's full name"
+                    />
+                    {fieldError('name')}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Date of Birth *</label>
+                    <input
+                      type="date"
+                      value={formData.dateOfBirth}
+                      max={today}
+                      onChange={(e) => updateField('dateOfBirth', e.target.value)}
+                      className={inputClassName}
+                    />
+                    {fieldError('dateOfBirth')}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Gender</label>
+                    <select
+                      value={formData.gender}
+                      onChange={(e) => updateField('gender', e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="">Prefer not to say</option>
+                      <option value="male">Male</option>
+                      <option value="female">Female</option>
+                      <option value="other">Other</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Allergies</label>
+                    <input
+                      type="text"
+                      value={formData.allergies}
+                      onChange={(e) => updateField('allergies', e.target.value)}
+                      className={inputClassName}
+                      placeholder="e.g., Peanuts, Penicillin"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Separate with commas</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Medical Conditions</label>
+                    <input
+                      type="text"
+                      value={formData.medicalConditions}
+                      onChange={(e) => updateField('medicalConditions', e.target.value)}
+                      className={inputClassName}
+                      placeholder="e.g., Asthma"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Separate with commas</p>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Emergency Contact</label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <input
+                      type="text"
+                      value={formData.emergencyName}
+                      onChange={(e) => updateField('emergencyName', e.target.value)}
+                      className={inputClassName}
+                      placeholder="Contact name"
+                    />
+                    <div>
+                      <input
+                        type="tel"
+                        value={formData.emergencyPhone}
+                        onChange={(e) => updateField('emergencyPhone', e.target.value)}
+                        className={inputClassName}
+                        placeholder="Contact phone"
+                      />
+                      {fieldError('emergencyPhone')}
+                    </div>
+                    <select
+                      value={formData.emergencyRelationship}
+                      onChange={(e) => updateField('emergencyRelationship', e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="">Relationship</option>
+                      <option value="parent">Parent</option>
+                      <option value="guardian">Guardian</option>
+                      <option value="sibling">Sibling</option>
+                      <option value="grandparent">Grandparent</option>
+                      <option value="other">Other</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Special Requirements</label>
+                  <textarea
+                    value={formData.specialRequirements}
+                    onChange={(e) => updateField('specialRequirements', e.target.value)}
+                    rows={3}
+                    className={inputClassName}
+                    placeholder="Anything organisers should know, e.g. needs help with stairs"
+                  />
+                </div>
+
+                <div className="flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <AnimatedButton
+                    type="submit"
+                    disabled={isSaving}
+                    className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+                  >
+                    {isSaving ? (
+                      <>
+                        <FaSpinner className="animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <FaSave />
+                        {editingId ? 'Update' : 'Add'} Child
+                      </>
+                    )}
+                  </AnimatedButton>
+                </div>
+              </form>
+            </HoverCard>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <ConfirmDialog
+        isOpen={!!childToDelete}
+        onClose={() => setChildToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Remove Child"
+        message={`Remove ${childToDelete?.name || 'this child'} from your family? Past bookings are not affected.`}
+        confirmText="Remove"
+        cancelText="Cancel"
+        type="danger"
+        isLoading={isSaving}
+      />
+    </div>
+  );
+};
+
+export default FamilyTab;
@@ -314,6 +314,7 @@ const FormBuilder: React.FC<FormBuilderProps> = ({ eventId, onSaveSuccess }) =>
                     <FormBuilderFieldEditor
                       key={field.id}
                       field={field}
+                      allFields={formBuilder.config?.fields}
                       onUpdate={(updates) => handleFieldUpdate(index, updates)}
                       onRemove={() => handleFieldRemove(index)}
                       isSelected={formBuilder.selectedFieldId === field.id}
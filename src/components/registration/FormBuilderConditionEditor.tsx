@@ -0,0 +1,153 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { ConditionOperator, FieldCondition, FieldConditionGroup, FormField } from '@/types/registration';
+import { operatorNeedsValue } from '@/utils/registrationFormUtils';
+import Button from '@/components/ui/Button';
+
+interface FormBuilderConditionEditorProps {
+  title: string;
+  description: string;
+  group?: FieldConditionGroup;
+  sourceFields: FormField[]; // Fields the rule can look at
+  onChange: (group: FieldConditionGroup | undefined) => void;
+}
+
+const OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'is_not_empty', label: 'is answered' },
+  { value: 'is_empty', label: 'is not answered' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+];
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500';
+
+const FormBuilderConditionEditor: React.FC<FormBuilderConditionEditorProps> = ({
+  title,
+  description,
+  group,
+  sourceFields,
+  onChange,
+}) => {
+  const conditions = group?.conditions || [];
+
+  const updateConditions = (nextConditions: FieldCondition[]) => {
+    onChange(nextConditions.length > 0 ? { match: group?.match || 'all', conditions: nextConditions } : undefined);
+  };
+
+  const updateCondition = (index: number, updates: Partial<FieldCondition>) => {
+    updateConditions(conditions.map((condition, i) => (i === index ? { ...condition, ...updates } : condition)));
+  };
+
+  const renderValueInput = (condition: FieldCondition, index: number) => {
+    if (!operatorNeedsValue(condition.operator)) return null;
+
+    const source = sourceFields.find((field) => field.id === condition.fieldId);
+    if (source?.options?.length) {
+      return (
+        <select
+          value={condition.value || ''}
+          onChange={(e) => updateCondition(index, { value: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">Select an option</option>
+          {source.options.filter(Boolean).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={source?.type === 'number' ? 'number' : 'text'}
+        value={condition.value || ''}
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+        placeholder="Value"
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h5 className="text-sm font-medium text-gray-800">{title}</h5>
+        <p className="text-xs text-gray-500">{description}</p>
+      </div>
+
+      {conditions.length > 1 && (
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <span>Match</span>
+          <select
+            value={group?.match || 'all'}
+            onChange={(e) => onChange({ match: e.target.value as FieldConditionGroup['match'], conditions })}
+            className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">all conditions</option>
+            <option value="any">any condition</option>
+          </select>
+        </div>
+      )}
+
+      {conditions.map((condition, index) => (
+        <div key={`condition-${index}`} className="grid grid-cols-[1fr_auto] gap-2 p-2 bg-white border border-gray-200 rounded-lg">
+          <div className="space-y-2">
+            <select
+              value={condition.fieldId}
+              onChange={(e) => updateCondition(index, { fieldId: e.target.value, value: '' })}
+              className={inputClassName}
+            >
+              <option value="">Select a field</option>
+              {sourceFields.map((field) => (
+                <option key={field.id} value={field.id}>
+                  {field.label || 'Untitled Field'}
+                </option>
+              ))}
+            </select>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value as ConditionOperator })}
+                className={inputClassName}
+              >
+                {OPERATORS.map((operator) => (
+                  <option key={operator.value} value={operator.value}>
+                    {operator.label}
+                  </option>
+                ))}
+              </select>
+              {renderValueInput(condition, index)}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => updateConditions(conditions.filter((_, i) => i !== index))}
+            className="self-start p-1.5 hover:bg-red-50 rounded-lg text-red-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => updateConditions([...conditions, { fieldId: '', operator: 'equals', value: '' }])}
+        disabled={sourceFields.length === 0}
+        leftIcon={<Plus className="w-4 h-4" />}
+        className="w-full"
+      >
+        Add Condition
+      </Button>
+    </div>
+  );
+};
+
+export default FormBuilderConditionEditor;
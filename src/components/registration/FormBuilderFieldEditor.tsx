@@ -1,10 +1,13 @@
 import React from 'react';
 import { FormField, FieldType } from '@/types/registration';
-import { X, Plus, Trash2, GripVertical } from 'lucide-react';
+import { X, Plus, Trash2, GripVertical, GitBranch } from 'lucide-react';
 import Button from '@/components/ui/Button';
+import { isInputField } from '@/utils/registrationFormUtils';
+import FormBuilderConditionEditor from './FormBuilderConditionEditor';
 
 interface FormBuilderFieldEditorProps {
   field: FormField;
+  allFields?: FormField[]; // Used to build show/require conditions
   onUpdate: (field: Partial<FormField>) => void;
   onRemove: () => void;
   isSelected: boolean;
@@ -45,6 +48,7 @@ const FIELD_TYPES: { value: FieldType; label: string }[] = [
 
 const FormBuilderFieldEditor: React.FC<FormBuilderFieldEditorProps> = ({
   field,
+  allFields = [],
   onUpdate,
   onRemove,
   isSelected,
@@ -52,6 +56,10 @@ const FormBuilderFieldEditor: React.FC<FormBuilderFieldEditorProps> = ({
 }) => {
   const requiresOptions = ['dropdown', 'radio', 'checkbox'].includes(field.type);
   const isFileType = field.type === 'file';
+  const conditionSourceFields = allFields.filter(
+    (other) => other.id !== field.id && isInputField(other) && other.type !== 'file'
+  );
+  const hasConditions = !!field.visibleWhen?.conditions.length || !!field.requiredWhen?.conditions.length;
 
   return (
     <div
@@ -70,6 +78,11 @@ const FormBuilderFieldEditor: React.FC<FormBuilderFieldEditorProps> = ({
           <GripVertical className="w-5 h-5 text-gray-400 cursor-move" />
           <span className="font-semibold text-gray-900">{field.label || 'Untitled Field'}</span>
           {field.required && <span className="text-xs text-red-500 font-bold">*</span>}
+          {hasConditions && (
+            <span title="Has conditional logic">
+              <GitBranch className="w-4 h-4 text-purple-500" />
+            </span>
+          )}
         </div>
         <button
           onClick={(e) => {
@@ -267,6 +280,33 @@ const FormBuilderFieldEditor: React.FC<FormBuilderFieldEditorProps> = ({
             </div>
           )}
 
+          {/* Conditional Logic */}
+          <div className="border-t pt-3 space-y-4">
+            <h4 className="text-sm font-semibold text-gray-900">Conditional Logic</h4>
+            {conditionSourceFields.length === 0 ? (
+              <p className="text-xs text-gray-500">Add more fields to show or require this one based on their answers.</p>
+            ) : (
+              <>
+                <FormBuilderConditionEditor
+                  title="Show this field only when"
+                  description="Hidden fields are skipped by validation and left out of the submission."
+                  group={field.visibleWhen}
+                  sourceFields={conditionSourceFields}
+                  onChange={(visibleWhen) => onUpdate({ visibleWhen })}
+                />
+                {isInputField(field) && !field.required && (
+                  <FormBuilderConditionEditor
+                    title="Make this field required when"
+                    description="Otherwise the field stays optional."
+                    group={field.requiredWhen}
+                    sourceFields={conditionSourceFields}
+                    onChange={(requiredWhen) => onUpdate({ requiredWhen })}
+                  />
+                )}
+              </>
+            )}
+          </div>
+
           {/* Validation Settings */}
           {['text', 'textarea', 'email', 'tel'].includes(field.type) && (
             <div className="border-t pt-3 space-y-3">
@@ -1,6 +1,7 @@
-import React from 'react';
-import { FormField } from '@/types/registration';
-import { Eye } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { FormField, RegistrationFormValues } from '@/types/registration';
+import { Eye, RotateCcw } from 'lucide-react';
+import { getVisibleFields } from '@/utils/registrationFormUtils';
 import RegistrationFormField from './RegistrationFormField';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 
@@ -9,8 +10,14 @@ interface FormBuilderPreviewProps {
 }
 
 const FormBuilderPreview: React.FC<FormBuilderPreviewProps> = ({ fields }) => {
+  // Preview answers stay local so vendors can try out their conditional rules
+  const [previewData, setPreviewData] = useState<RegistrationFormValues>({});
+
+  const visibleFields = useMemo(() => getVisibleFields(fields, previewData), [fields, previewData]);
+  const hiddenCount = fields.length - visibleFields.length;
+
   // Group fields by section
-  const groupedFields = fields.reduce((acc, field) => {
+  const groupedFields = visibleFields.reduce((acc, field) => {
     const section = field.section || 'General Information';
     if (!acc[section]) {
       acc[section] = [];
@@ -34,12 +41,29 @@ const FormBuilderPreview: React.FC<FormBuilderPreviewProps> = ({ fields }) => {
   return (
     <div className="space-y-6">
       <div className="bg-blue-50 border-l-4 border-blue-500 p-4 rounded-r-lg">
-        <div className="flex items-center">
-          <Eye className="w-5 h-5 text-blue-600 mr-2" />
-          <p className="text-sm font-medium text-blue-800">
-            Preview Mode - This is how participants will see your form
-          </p>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center">
+            <Eye className="w-5 h-5 text-blue-600 me-2" />
+            <p className="text-sm font-medium text-blue-800">
+              Preview Mode - This is how participants will see your form. Answer questions to try your conditional rules.
+            </p>
+          </div>
+          {Object.keys(previewData).length > 0 && (
+            <button
+              type="button"
+              onClick={() => setPreviewData({})}
+              className="flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-900 whitespace-nowrap"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Clear answers
+            </button>
+          )}
         </div>
+        {hiddenCount > 0 && (
+          <p className="mt-2 text-xs text-blue-700">
+            {hiddenCount} field{hiddenCount === 1 ? ' is' : 's are'} hidden by conditional rules
+          </p>
+        )}
       </div>
 
       {Object.entries(groupedFields).map(([section, sectionFields]) => (
@@ -52,9 +76,8 @@ const FormBuilderPreview: React.FC<FormBuilderPreviewProps> = ({ fields }) => {
               <RegistrationFormField
                 key={field.id}
                 field={field}
-                value=""
-                onChange={() => {}}
-                disabled={true}
+                value={previewData[field.id] ?? ''}
+                onChange={(value) => setPreviewData((prev) => ({ ...prev, [field.id]: value }))}
               />
             ))}
           </CardContent>
@@ -1,12 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
-import { FileText, Send, Save, Loader2, CheckCircle, XCircle, AlertCircle, Calendar, CreditCard, Clock } from 'lucide-react';
+import { FileText, Send, Save, Loader2, CheckCircle, XCircle, AlertCircle, Calendar, CreditCard, Clock, ChevronLeft, ChevronRight } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 import { AppDispatch } from '@/store';
 import {
   fetchRegistrationConfig,
+  fetchRegistrationDraft,
+  saveRegistrationDraft,
   submitRegistration,
   updateRegistrationFormField,
   updateRegistrationFormFile,
@@ -16,10 +18,21 @@ import {
   selectRegistrationSubmitError,
   selectRegistrationPayment,
 } from '@/store/slices/registrationsSlice';
-import { RegistrationData } from '@/types/registration';
 import { Event } from '@/types/event';
+import {
+  buildRegistrationData,
+  findFirstIncompleteStep,
+  getVisibleFields,
+  registrationDataToFormValues,
+  splitFieldsIntoSteps,
+  validateFields,
+} from '@/utils/registrationFormUtils';
+import { getEventAgeDate, mapChildToRegistrationFields } from '@/utils/childProfileUtils';
+import type { ChildProfile } from '@/types/family';
 
 import RegistrationFormField from './RegistrationFormField';
+import RegistrationStepIndicator from './RegistrationStepIndicator';
+import ChildProfilePicker from '../profile/ChildProfilePicker';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
@@ -29,6 +42,8 @@ interface PublicRegistrationFormProps {
   onSuccess?: () => void;
 }
 
+const AUTOSAVE_DELAY = 3000; // ms after the last change
+
 const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event, onSuccess }) => {
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
@@ -40,16 +55,34 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoadingConfig, setIsLoadingConfig] = useState(true);
-
-  // Load registration configuration on mount
+  const [currentStep, setCurrentStep] = useState(0);
+  const [completedSteps, setCompletedSteps] = useState<number[]>([]);
+  // Autosave stays off until any saved draft has been merged in, so it can't be overwritten
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+  const [filledChildId, setFilledChildId] = useState<string | undefined>();
+  const hasUnsavedChanges = useRef(false);
+  const formTopRef = useRef<HTMLDivElement>(null);
+
+  // Load registration configuration and any saved draft on mount
   useEffect(() => {
     const loadConfig = async () => {
       try {
         setIsLoadingConfig(true);
-        await dispatch(fetchRegistrationConfig(event._id)).unwrap();
+        const config = await dispatch(fetchRegistrationConfig(event._id)).unwrap();
+        const draft = await dispatch(fetchRegistrationDraft(event._id)).unwrap().catch(() => null);
+
+        if (draft && config?.fields) {
+          const draftValues = registrationDataToFormValues(draft.registrationData || []);
+          const steps = splitFieldsIntoSteps(getVisibleFields(config.fields, draftValues));
+          const resumeAt = findFirstIncompleteStep(steps, draftValues);
+          setCurrentStep(resumeAt);
+          setCompletedSteps(steps.slice(0, resumeAt).map((step) => step.index));
+          toast.success('Welcome back! We restored your saved answers.');
+        }
       } catch (error: any) {
         toast.error(error || 'Failed to load registration form');
       } finally {
+        setIsDraftChecked(true);
         setIsLoadingConfig(false);
       }
     };
@@ -62,77 +95,41 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
     };
   }, [event._id, dispatch]);
 
-  // Validate individual field
-  const validateField = (fieldId: string, value: any): string | null => {
-    const field = registrationForm.config?.fields.find((f) => f.id === fieldId);
-    if (!field) return null;
-
-    // Required validation
-    if (field.required && !value) {
-      return `${field.label} is required`;
-    }
-
-    // Email validation
-    if (field.type === 'email' && value) {
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(value)) {
-        return 'Please enter a valid email address';
-      }
-    }
-
-    // Min/Max length validation
-    if (field.validation?.minLength && value.length < field.validation.minLength) {
-      return `Minimum ${field.validation.minLength} characters required`;
-    }
-    if (field.validation?.maxLength && value.length > field.validation.maxLength) {
-      return `Maximum ${field.validation.maxLength} characters allowed`;
-    }
-
-    // Number range validation
-    if (field.type === 'number') {
-      const numValue = parseFloat(value);
-      if (field.validation?.min !== undefined && numValue < field.validation.min) {
-        return `Minimum value is ${field.validation.min}`;
-      }
-      if (field.validation?.max !== undefined && numValue > field.validation.max) {
-        return `Maximum value is ${field.validation.max}`;
-      }
-    }
+  // Conditional rules are re-applied on every answer, so steps can appear or disappear
+  const visibleFields = useMemo(
+    () => getVisibleFields(registrationForm.config?.fields || [], registrationForm.formData),
+    [registrationForm.config, registrationForm.formData]
+  );
+  const steps = useMemo(() => splitFieldsIntoSteps(visibleFields), [visibleFields]);
+  const activeStep = steps[currentStep];
+  const isLastStep = currentStep >= steps.length - 1;
 
-    // Pattern validation
-    if (field.validation?.pattern && value) {
-      const regex = new RegExp(field.validation.pattern);
-      if (!regex.test(value)) {
-        return 'Invalid format';
-      }
+  useEffect(() => {
+    if (steps.length > 0 && currentStep > steps.length - 1) {
+      setCurrentStep(steps.length - 1);
     }
+  }, [steps.length, currentStep]);
+
+  const saveDraft = useCallback(() => {
+    if (!registrationForm.config) return;
+    hasUnsavedChanges.current = false;
+    dispatch(saveRegistrationDraft({
+      eventId: event._id,
+      registrationData: buildRegistrationData(registrationForm.config.fields, registrationForm.formData),
+    }));
+  }, [dispatch, event._id, registrationForm.config, registrationForm.formData]);
+
+  // Autosave a draft shortly after the parent stops typing
+  useEffect(() => {
+    if (!isDraftChecked || !hasUnsavedChanges.current || isSubmitting) return;
 
-    return null;
-  };
-
-  // Validate all fields
-  const validateAllFields = (): boolean => {
-    if (!registrationForm.config) return false;
-
-    const newErrors: Record<string, string> = {};
-    let isValid = true;
-
-    registrationForm.config.fields.forEach((field) => {
-      const value = registrationForm.formData[field.id];
-      const error = validateField(field.id, value);
-
-      if (error) {
-        newErrors[field.id] = error;
-        isValid = false;
-      }
-    });
-
-    setErrors(newErrors);
-    return isValid;
-  };
+    const timer = setTimeout(saveDraft, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [registrationForm.formData, isDraftChecked, isSubmitting, saveDraft]);
 
   // Handle field change
   const handleFieldChange = (fieldId: string, value: any) => {
+    hasUnsavedChanges.current = true;
     dispatch(updateRegistrationFormField({ fieldId, value }));
 
     // Clear error for this field
@@ -145,38 +142,90 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
     }
   };
 
+  // Fill every field that matches a saved child's details
+  const ageDate = useMemo(() => getEventAgeDate(event.dateSchedule), [event.dateSchedule]);
+
+  const handleFillFromChild = (child: ChildProfile) => {
+    if (!registrationForm.config) return;
+
+    const values = mapChildToRegistrationFields(child, registrationForm.config.fields, ageDate);
+    if (Object.keys(values).length === 0) {
+      toast.error('None of the questions on this form match saved child details');
+      return;
+    }
+
+    Object.entries(values).forEach(([fieldId, value]) => handleFieldChange(fieldId, value));
+    setFilledChildId(child._id);
+    toast.success(`Filled in ${child.name}'s details`);
+  };
+
   // Handle file change
   const handleFileChange = (fieldId: string, file: File | null) => {
     dispatch(updateRegistrationFormFile({ fieldId, file }));
   };
 
-  // Handle submit
-  const handleSubmit = async (saveAsDraft: boolean = false) => {
-    // Validate if not saving as draft
-    if (!saveAsDraft && !validateAllFields()) {
-      toast.error('Please fill in all required fields correctly');
+  const goToStep = (index: number) => {
+    setCurrentStep(index);
+    formTopRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Validate the current step before moving on
+  const handleNext = () => {
+    if (!activeStep) return;
+
+    const stepErrors = validateFields(activeStep.fields, registrationForm.formData);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length > 0) {
+      toast.error('Please complete this step before continuing');
       return;
     }
 
+    setCompletedSteps((prev) => (prev.includes(currentStep) ? prev : [...prev, currentStep]));
+    if (hasUnsavedChanges.current) {
+      saveDraft();
+    }
+    goToStep(currentStep + 1);
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    goToStep(Math.max(currentStep - 1, 0));
+  };
+
+  // Handle submit
+  const handleSubmit = async (saveAsDraft: boolean = false) => {
     if (!registrationForm.config) {
       toast.error('Registration configuration not loaded');
       return;
     }
 
+    // Validate every visible field if not saving as draft, and send the parent back to the first problem
+    if (!saveAsDraft) {
+      const allErrors = validateFields(visibleFields, registrationForm.formData);
+      if (Object.keys(allErrors).length > 0) {
+        setErrors(allErrors);
+        const firstInvalidStep = steps.findIndex((step) => step.fields.some((field) => allErrors[field.id]));
+        if (firstInvalidStep !== -1 && firstInvalidStep !== currentStep) {
+          goToStep(firstInvalidStep);
+        }
+        toast.error('Please fill in all required fields correctly');
+        return;
+      }
+    }
+
     try {
       // Prepare registration data
-      const registrationData: RegistrationData[] = registrationForm.config.fields.map((field) => ({
-        fieldId: field.id,
-        fieldLabel: field.label,
-        fieldType: field.type,
-        value: registrationForm.formData[field.id] || null,
-      }));
-
-      // Prepare files
+      const registrationData = buildRegistrationData(registrationForm.config.fields, registrationForm.formData);
+
+      // Prepare files (uploads for hidden fields are dropped with their answers)
+      const visibleFieldIds = new Set(visibleFields.map((field) => field.id));
       const files = Object.entries(registrationForm.files)
+        .filter(([fieldId]) => visibleFieldIds.has(fieldId))
         .map(([_, file]) => file)
         .filter(Boolean);
 
+      hasUnsavedChanges.current = false;
+
       // Submit registration
       const result = await dispatch(
         submitRegistration({
@@ -187,6 +236,10 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
         })
       ).unwrap();
 
+      if (saveAsDraft) {
+        return;
+      }
+
       // If payment is required, redirect to payment
       if (result.data.payment) {
         toast.success('Registration created! Redirecting to payment...');
@@ -195,7 +248,6 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
         console.log('Payment required:', result.data.payment);
         if (onSuccess) onSuccess();
       } else {
-        toast.success(saveAsDraft ? 'Draft saved successfully!' : 'Registration submitted successfully!');
         if (onSuccess) onSuccess();
       }
     } catch (error: any) {
@@ -203,15 +255,15 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
     }
   };
 
-  // Group fields by section
-  const groupedFields = registrationForm.config?.fields.reduce((acc, field) => {
+  // Group the active step's fields by section
+  const groupedFields = activeStep?.fields.reduce((acc, field) => {
     const section = field.section || 'General Information';
     if (!acc[section]) {
       acc[section] = [];
     }
     acc[section].push(field);
     return acc;
-  }, {} as Record<string, typeof registrationForm.config.fields>);
+  }, {} as Record<string, typeof activeStep.fields>);
 
   // Loading state
   if (isLoadingConfig) {
@@ -301,8 +353,43 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
         </CardContent>
       </Card>
 
+      {/* Step Progress */}
+      {steps.length > 1 && (
+        <div ref={formTopRef}>
+          <Card>
+            <CardContent className="p-6">
+              <RegistrationStepIndicator
+                steps={steps}
+                currentStep={currentStep}
+                completedSteps={completedSteps}
+                onStepClick={goToStep}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Registration Form */}
-      <form onSubmit={(e) => { e.preventDefault(); handleSubmit(false); }} className="space-y-6">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isLastStep) {
+            handleSubmit(false);
+          } else {
+            handleNext();
+          }
+        }}
+        className="space-y-6"
+      >
+        {currentStep === 0 && (
+          <ChildProfilePicker
+            ageDate={ageDate}
+            ageRange={event.ageRange}
+            selectedId={filledChildId}
+            onSelect={handleFillFromChild}
+          />
+        )}
+
         {groupedFields && Object.entries(groupedFields).map(([section, fields]) => (
           <Card key={section}>
             <CardHeader className="bg-gray-50 border-b">
@@ -331,7 +418,7 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
         {submitError && (
           <div className="p-4 bg-red-50 border-l-4 border-red-500 rounded-r-lg">
             <div className="flex items-start">
-              <XCircle className="w-5 h-5 text-red-500 mt-0.5 mr-3" />
+              <XCircle className="w-5 h-5 text-red-500 mt-0.5 me-3" />
               <div className="flex-1">
                 <p className="text-sm font-medium text-red-800">{submitError}</p>
               </div>
@@ -343,32 +430,77 @@ const PublicRegistrationForm: React.FC<PublicRegistrationFormProps> = ({ event,
         <Card className="sticky bottom-0 shadow-xl border-2 border-gray-200">
           <CardContent className="p-6">
             <div className="flex flex-col sm:flex-row items-center gap-4">
+              {currentStep > 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={handleBack}
+                  disabled={isSubmitting}
+                  leftIcon={<ChevronLeft className="w-5 h-5 rtl:rotate-180" />}
+                  className="w-full sm:w-auto"
+                >
+                  Back
+                </Button>
+              )}
+
               <Button
                 type="button"
                 variant="outline"
                 onClick={() => handleSubmit(true)}
-                disabled={isSubmitting}
+                disabled={isSubmitting || registrationForm.isSavingDraft}
                 leftIcon={<Save className="w-5 h-5" />}
                 className="w-full sm:w-auto"
               >
                 Save as Draft
               </Button>
 
-              <Button
-                type="submit"
-                variant="primary"
-                disabled={isSubmitting}
-                leftIcon={
-                  isSubmitting ? (
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                  ) : (
-                    <Send className="w-5 h-5" />
-                  )
-                }
-                className="w-full sm:flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-              >
-                {isSubmitting ? 'Submitting...' : 'Submit Registration'}
-              </Button>
+              {isLastStep ? (
+                <Button
+                  type="submit"
+                  variant="primary"
+                  disabled={isSubmitting}
+                  leftIcon={
+                    isSubmitting ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Send className="w-5 h-5" />
+                    )
+                  }
+                  className="w-full sm:flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                >
+                  {isSubmitting ? 'Submitting...' : 'Submit Registration'}
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  variant="primary"
+                  disabled={isSubmitting}
+                  rightIcon={<ChevronRight className="w-5 h-5 rtl:rotate-180" />}
+                  className="w-full sm:flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                >
+                  Next: {steps[currentStep + 1]?.title}
+                </Button>
+              )}
+            </div>
+
+            {/* Draft Status */}
+            <div className="flex items-center justify-center gap-2 text-xs mt-4">
+              {registrationForm.isSavingDraft ? (
+                <span className="flex items-center gap-1 text-gray-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Saving draft...
+                </span>
+              ) : registrationForm.draftError ? (
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertCircle className="w-3 h-3" />
+                  {registrationForm.draftError}
+                </span>
+              ) : registrationForm.lastSavedAt ? (
+                <span className="flex items-center gap-1 text-green-600">
+                  <CheckCircle className="w-3 h-3" />
+                  Draft saved at {new Date(registrationForm.lastSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              ) : null}
             </div>
 
             <p className="text-xs text-gray-500 text-center mt-4">
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { RegistrationFormStep } from '@/utils/registrationFormUtils';
+
+interface RegistrationStepIndicatorProps {
+  steps: RegistrationFormStep[];
+  currentStep: number;
+  completedSteps: number[];
+  onStepClick?: (index: number) => void;
+}
+
+/**
+ * Progress bar and step list for a registration form split by pagebreak fields.
+ * Steps already visited can be revisited by clicking them.
+ */
+const RegistrationStepIndicator: React.FC<RegistrationStepIndicatorProps> = ({
+  steps,
+  currentStep,
+  completedSteps,
+  onStepClick,
+}) => {
+  const progress = Math.round(((currentStep + 1) / steps.length) * 100);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900">
+          Step {currentStep + 1} of {steps.length}: {steps[currentStep]?.title}
+        </span>
+        <span className="text-gray-500">{progress}% complete</span>
+      </div>
+
+      <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-blue-600 to-indigo-600 transition-all duration-300"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <ol className="hidden sm:flex items-center gap-2">
+        {steps.map((step) => {
+          const isCurrent = step.index === currentStep;
+          const isCompleted = completedSteps.includes(step.index) && !isCurrent;
+          const canVisit = !!onStepClick && (isCompleted || step.index < currentStep);
+
+          return (
+            <li key={step.index} className="flex-1 min-w-0">
+              <button
+                type="button"
+                onClick={() => canVisit && onStepClick?.(step.index)}
+                disabled={!canVisit}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                  isCurrent
+                    ? 'bg-blue-50 text-blue-700 border border-blue-200'
+                    : isCompleted
+                      ? 'text-green-700 hover:bg-green-50'
+                      : 'text-gray-500'
+                } ${canVisit ? 'cursor-pointer' : 'cursor-default'}`}
+              >
+                <span
+                  className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center ${
+                    isCurrent
+                      ? 'bg-blue-600 text-white'
+                      : isCompleted
+                        ? 'bg-green-500 text-white'
+                        : 'bg-gray-200 text-gray-600'
+                  }`}
+                >
+                  {isCompleted ? <Check className="w-3.5 h-3.5" /> : step.index + 1}
+                </span>
+                <span className="truncate">{step.title}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default RegistrationStepIndicator;
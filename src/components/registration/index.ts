@@ -1,2 +1,3 @@
 export { default as RegistrationFormField } from './RegistrationFormField';
 export { default as PublicRegistrationForm } from './PublicRegistrationForm';
+export { default as RegistrationStepIndicator } from './RegistrationStepIndicator';
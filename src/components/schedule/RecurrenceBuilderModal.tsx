@@ -0,0 +1,360 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarDays, Repeat, X } from 'lucide-react';
+import type { ScheduleRecurrenceFrequency, ScheduleRecurrenceRule } from '../../types/event';
+import {
+  createRecurrenceRule,
+  describeRecurrence,
+  expandRecurrence,
+  MAX_SERIES_OCCURRENCES,
+  validateRecurrence,
+  WEEKDAY_LABELS,
+} from '../../utils/recurrenceUtils';
+
+interface RecurrenceBuilderModalProps {
+  isOpen: boolean;
+  rule?: ScheduleRecurrenceRule | null; // Existing series to edit; a new one is started otherwise
+  currency: string;
+  defaultSeats?: string;
+  defaultPrice?: string;
+  onClose: () => void;
+  onSave: (rule: ScheduleRecurrenceRule) => void;
+}
+
+const PREVIEW_LIMIT = 60;
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary';
+
+const formatPreviewDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Builds a repeating series (daily, weekly or chosen weekdays) and previews the dates it expands into
+ */
+const RecurrenceBuilderModal: React.FC<RecurrenceBuilderModalProps> = ({
+  isOpen,
+  rule: initialRule,
+  currency,
+  defaultSeats,
+  defaultPrice,
+  onClose,
+  onSave,
+}) => {
+  const [rule, setRule] = useState<ScheduleRecurrenceRule>(() => createRecurrenceRule());
+  const [endMode, setEndMode] = useState<'count' | 'date'>('count');
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const next = initialRule || {
+      ...createRecurrenceRule(),
+      availableSeats: parseInt(defaultSeats || '') || 0,
+      price: parseFloat(defaultPrice || '') || 0,
+    };
+    setRule(next);
+    setEndMode(next.count ? 'count' : 'date');
+    setShowErrors(false);
+  }, [isOpen, initialRule, defaultSeats, defaultPrice]);
+
+  const preview = useMemo(() => expandRecurrence(rule), [rule]);
+  const errors = useMemo(() => validateRecurrence(rule), [rule]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<ScheduleRecurrenceRule>) => setRule((prev) => ({ ...prev, ...changes }));
+
+  const handleFrequencyChange = (frequency: ScheduleRecurrenceFrequency) => {
+    // Seed custom weekdays with the start date's day so the preview isn't empty
+    const startDay = rule.startDate ? new Date(`${rule.startDate}T00:00:00Z`).getUTCDay() : undefined;
+    update({
+      frequency,
+      weekdays: frequency === 'custom' && rule.weekdays.length === 0 && startDay !== undefined ? [startDay] : rule.weekdays,
+    });
+  };
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: rule.weekdays.includes(day) ? rule.weekdays.filter((d) => d !== day) : [...rule.weekdays, day].sort(),
+    });
+
+  const toggleExcluded = (date: string) =>
+    update({
+      excludedDates: rule.excludedDates.includes(date)
+        ? rule.excludedDates.filter((d) => d !== date)
+        : [...rule.excludedDates, date].sort(),
+    });
+
+  const handleEndModeChange = (mode: 'count' | 'date') => {
+    setEndMode(mode);
+    update(mode === 'count' ? { count: rule.count || 12, endDate: undefined } : { count: undefined });
+  };
+
+  const handleSave = () => {
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSave(rule);
+  };
+
+  const fieldError = (field: string) =>
+    showErrors && errors[field] ? <p className="mt-1 text-sm text-red-500">{errors[field]}</p> : null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-end justify-center p-4 sm:items-center sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="relative transform overflow-hidden rounded-lg bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-2xl">
+          <div className="px-4 pt-5 pb-4 sm:p-6 space-y-5">
+            <div className="flex items-start justify-between">
+              <h3 className="flex items-center text-lg font-semibold text-gray-900">
+                <Repeat className="w-5 h-5 mr-2 text-primary" />
+                {initialRule ? 'Edit Repeating Schedule' : 'Create Repeating Schedule'}
+              </h3>
+              <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {/* Pattern */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Repeats</label>
+                <select
+                  value={rule.frequency}
+                  onChange={(e) => handleFrequencyChange(e.target.value as ScheduleRecurrenceFrequency)}
+                  className={inputClass}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="custom">On chosen weekdays</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Every ({rule.frequency === 'daily' ? 'days' : 'weeks'})
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={rule.interval}
+                  onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Starts on <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  value={rule.startDate}
+                  onChange={(e) => update({ startDate: e.target.value })}
+                  className={inputClass}
+                />
+                {fieldError('startDate')}
+              </div>
+            </div>
+
+            {rule.frequency === 'custom' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">On</label>
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleWeekday(day)}
+                      className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                        rule.weekdays.includes(day)
+                          ? 'bg-primary text-white border-primary'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {fieldError('weekdays')}
+              </div>
+            )}
+
+            {/* End */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+              <div className="flex flex-col sm:flex-row gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="radio" checked={endMode === 'count'} onChange={() => handleEndModeChange('count')} />
+                  After
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_SERIES_OCCURRENCES}
+                    value={rule.count || ''}
+                    disabled={endMode !== 'count'}
+                    onChange={(e) => update({ count: parseInt(e.target.value) || undefined })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-100"
+                  />
+                  sessions
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="radio" checked={endMode === 'date'} onChange={() => handleEndModeChange('date')} />
+                  On
+                  <input
+                    type="date"
+                    value={rule.endDate || ''}
+                    disabled={endMode !== 'date'}
+                    onChange={(e) => update({ endDate: e.target.value || undefined })}
+                    className="px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-100"
+                  />
+                </label>
+              </div>
+              {fieldError('count')}
+              {fieldError('endDate')}
+            </div>
+
+            {/* Session details shared by every date */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                <input
+                  type="time"
+                  value={rule.startTime || ''}
+                  onChange={(e) => update({ startTime: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                <input
+                  type="time"
+                  value={rule.endTime || ''}
+                  onChange={(e) => update({ endTime: e.target.value })}
+                  className={inputClass}
+                />
+                {fieldError('endTime')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Seats</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={rule.unlimitedSeats ? '' : rule.availableSeats || ''}
+                  disabled={rule.unlimitedSeats}
+                  placeholder={rule.unlimitedSeats ? 'Unlimited' : 'e.g. 12'}
+                  onChange={(e) => update({ availableSeats: parseInt(e.target.value) || 0 })}
+                  className={`${inputClass} disabled:bg-gray-100`}
+                />
+                {fieldError('availableSeats')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Price ({currency})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rule.price}
+                  onChange={(e) => update({ price: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+                {fieldError('price')}
+              </div>
+            </div>
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={rule.unlimitedSeats || false}
+                onChange={(e) => update({ unlimitedSeats: e.target.checked })}
+                className="mr-2 h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+              />
+              Unlimited Capacity
+            </label>
+
+            {/* Preview */}
+            <div className="border-t pt-4">
+              <div className="flex items-center justify-between mb-2">
+                <p className="flex items-center text-sm font-medium text-gray-900">
+                  <CalendarDays className="w-4 h-4 mr-1.5" />
+                  {preview.length} {preview.length === 1 ? 'date' : 'dates'} · {describeRecurrence(rule)}
+                </p>
+                <input
+                  type="date"
+                  title="Skip a date, e.g. a public holiday"
+                  onChange={(e) => {
+                    if (e.target.value && !rule.excludedDates.includes(e.target.value)) toggleExcluded(e.target.value);
+                    e.target.value = '';
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mb-2">Click a date to skip it, or pick holidays to skip with the date field.</p>
+              <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+                {preview.slice(0, PREVIEW_LIMIT).map((date) => (
+                  <button
+                    key={date}
+                    type="button"
+                    onClick={() => toggleExcluded(date)}
+                    className="px-2 py-1 rounded bg-blue-50 text-blue-800 text-xs border border-blue-200 hover:bg-red-50 hover:text-red-700 hover:border-red-200"
+                  >
+                    {formatPreviewDate(date)}
+                  </button>
+                ))}
+                {preview.length > PREVIEW_LIMIT && (
+                  <span className="px-2 py-1 text-xs text-gray-500">+{preview.length - PREVIEW_LIMIT} more</span>
+                )}
+              </div>
+              {rule.excludedDates.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-3">
+                  <span className="text-xs text-gray-500 py-1">Skipped:</span>
+                  {rule.excludedDates.map((date) => (
+                    <span
+                      key={date}
+                      className="inline-flex items-center px-2 py-1 rounded bg-gray-100 text-gray-500 text-xs line-through"
+                    >
+                      {formatPreviewDate(date)}
+                      <button
+                        type="button"
+                        onClick={() => toggleExcluded(date)}
+                        className="ml-1 no-underline text-gray-400 hover:text-gray-600"
+                        aria-label="Stop skipping this date"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {initialRule && (
+              <p className="text-xs text-gray-500">
+                Dates that stay in the series keep their bookings. Dates edited on their own keep their own settings.
+              </p>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-primary hover:bg-primary-dark"
+            >
+              {initialRule ? 'Update Series' : `Create ${preview.length} ${preview.length === 1 ? 'Date' : 'Dates'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceBuilderModal;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Armchair } from 'lucide-react';
+import seatingAPI, { SeatedVenue } from '../../services/api/seatingAPI';
+import type { EventSeatingSettings } from '../../types/seating';
+import { getSeatMapCapacity } from '../../utils/seatMapUtils';
+
+interface ReservedSeatingSettingsProps {
+  settings: EventSeatingSettings;
+  errors: Record<string, string>;
+  onChange: (settings: EventSeatingSettings) => void;
+}
+
+/**
+ * Opt an event into reserved seating at a venue that has a seat map
+ */
+const ReservedSeatingSettings: React.FC<ReservedSeatingSettingsProps> = ({ settings, errors, onChange }) => {
+  const [venues, setVenues] = useState<SeatedVenue[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!settings.reservedSeating || venues.length > 0) return;
+
+    const loadVenues = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+        setVenues(await seatingAPI.getSeatedVenues());
+      } catch (error: any) {
+        console.error('Error loading venues with seat maps:', error);
+        setLoadError('Could not load venues with seat maps');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVenues();
+  }, [settings.reservedSeating, venues.length]);
+
+  const selectedVenue = venues.find((venue) => venue._id === settings.venueId);
+
+  return (
+    <div className="border-t pt-6">
+      <h3 className="text-lg font-semibold text-gray-900">
+        <Armchair className="inline w-5 h-5 mr-2" />
+        Reserved Seating
+      </h3>
+      <label className="mt-3 flex items-center">
+        <input
+          type="checkbox"
+          checked={settings.reservedSeating}
+          onChange={(e) => onChange({ ...settings, reservedSeating: e.target.checked })}
+          className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+        />
+        <span className="ml-2 text-sm text-gray-700">Let families pick their seats from the venue seat map</span>
+      </label>
+
+      {settings.reservedSeating && (
+        <div className="mt-4 max-w-md">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Venue <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={settings.venueId || ''}
+            onChange={(e) => onChange({ ...settings, venueId: e.target.value || undefined })}
+            disabled={isLoading}
+            className={`w-full px-3 py-2 border ${
+              errors.seatingVenue ? 'border-red-500' : 'border-gray-300'
+            } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`}
+          >
+            <option value="">{isLoading ? 'Loading venues...' : 'Select a venue'}</option>
+            {venues.map((venue) => (
+              <option key={venue._id} value={venue._id}>
+                {venue.name}
+                {venue.address?.city ? ` (${venue.address.city})` : ''}
+              </option>
+            ))}
+          </select>
+          {errors.seatingVenue && <p className="mt-1 text-sm text-red-500">{errors.seatingVenue}</p>}
+          {loadError && <p className="mt-1 text-sm text-red-500">{loadError}</p>}
+          {!isLoading && !loadError && venues.length === 0 && (
+            <p className="mt-1 text-sm text-gray-500">No venues have a seat map yet. An admin can add one on the venue.</p>
+          )}
+          {selectedVenue && (
+            <p className="mt-2 text-sm text-gray-600">
+              {getSeatMapCapacity(selectedVenue.seatMap)} seats. Seats per date are capped at the seat map.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReservedSeatingSettings;
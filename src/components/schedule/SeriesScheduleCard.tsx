@@ -0,0 +1,142 @@
+import React from 'react';
+import { Pencil, Repeat, RotateCcw, Trash2, X } from 'lucide-react';
+import type { ScheduleRecurrenceRule } from '../../types/event';
+import { describeRecurrence, SeriesScheduleRow } from '../../utils/recurrenceUtils';
+
+interface SeriesScheduleCardProps<T extends SeriesScheduleRow> {
+  rule: ScheduleRecurrenceRule;
+  rows: Array<{ schedule: T; index: number }>;
+  currency: string;
+  onEditSeries: () => void;
+  onRemoveSeries: () => void;
+  onEditOccurrence: (index: number) => void;
+  onResetOccurrence: (index: number) => void;
+  onRemoveOccurrence: (index: number) => void;
+  renderFields: (schedule: T, index: number) => React.ReactNode; // Full editor for one-off exceptions
+}
+
+const formatRowDate = (date: string) =>
+  date
+    ? new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        timeZone: 'UTC',
+      })
+    : 'No date';
+
+/**
+ * A repeating series in the schedule editor: edited as a whole, with individual dates
+ * that can be turned into exceptions or dropped
+ */
+const SeriesScheduleCard = <T extends SeriesScheduleRow>({
+  rule,
+  rows,
+  currency,
+  onEditSeries,
+  onRemoveSeries,
+  onEditOccurrence,
+  onResetOccurrence,
+  onRemoveOccurrence,
+  renderFields,
+}: SeriesScheduleCardProps<T>) => {
+  const exceptions = rows.filter(({ schedule }) => schedule.isOverride).length;
+
+  return (
+    <div className="rounded-lg p-4 shadow-sm bg-blue-50 border-2 border-blue-200">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-900">
+            <Repeat className="w-4 h-4 mr-1.5 text-blue-600" />
+            Repeating Schedule · {rows.length} {rows.length === 1 ? 'date' : 'dates'}
+          </h4>
+          <p className="text-sm text-gray-600 mt-1">
+            {describeRecurrence(rule)}
+            {rule.startTime && ` · ${rule.startTime}${rule.endTime ? `–${rule.endTime}` : ''}`}
+            {` · ${rule.unlimitedSeats ? 'Unlimited seats' : `${rule.availableSeats} seats`} · ${currency} ${rule.price}`}
+          </p>
+          {exceptions > 0 && (
+            <p className="text-xs text-purple-700 mt-1">
+              {exceptions} {exceptions === 1 ? 'date has' : 'dates have'} its own settings
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onEditSeries}
+            className="inline-flex items-center px-3 py-1.5 border border-blue-300 rounded-md text-sm font-medium text-blue-700 bg-white hover:bg-blue-100"
+          >
+            <Pencil className="w-4 h-4 mr-1" />
+            Edit Series
+          </button>
+          <button
+            type="button"
+            onClick={onRemoveSeries}
+            className="text-red-600 hover:text-red-700 focus:outline-none"
+            title="Remove series"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-md border border-blue-100 divide-y divide-gray-100 max-h-96 overflow-y-auto">
+        {rows.map(({ schedule, index }) => (
+          <div key={schedule.id} className="px-3 py-2">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-3">
+                <span className="font-medium text-gray-900 w-36">{formatRowDate(schedule.startDate)}</span>
+                <span className="text-gray-500">
+                  {schedule.startTime || '--:--'}–{schedule.endTime || '--:--'}
+                </span>
+                <span className="text-gray-500">{schedule.unlimitedSeats ? '∞' : schedule.availableSeats} seats</span>
+                <span className="text-gray-500">
+                  {currency} {schedule.price}
+                </span>
+                {schedule.isOverride && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                    Exception
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {schedule.isOverride ? (
+                  <button
+                    type="button"
+                    onClick={() => onResetOccurrence(index)}
+                    className="text-gray-500 hover:text-gray-700"
+                    title="Use series settings"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onEditOccurrence(index)}
+                    className="text-gray-500 hover:text-gray-700"
+                    title="Edit this date only"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemoveOccurrence(index)}
+                  className="text-red-500 hover:text-red-700"
+                  title="Remove this date"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {schedule.isOverride && <div className="mt-3 mb-1">{renderFields(schedule, index)}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesScheduleCard;
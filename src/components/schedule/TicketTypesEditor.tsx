@@ -0,0 +1,236 @@
+import React from 'react';
+import { Clock, Plus, Ticket, Trash2 } from 'lucide-react';
+import type { EventTicketPriceTier, EventTicketType } from '../../types/event';
+import { createPriceTier, createTicketType } from '../../utils/ticketTypeUtils';
+
+interface TicketTypesEditorProps {
+  ticketTypes: EventTicketType[];
+  currency: string;
+  errors: Record<string, string>;
+  onChange: (ticketTypes: EventTicketType[]) => void;
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  } rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary`;
+
+// Blank optional number fields are stored as undefined rather than 0
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+/**
+ * Ticket types for an event (child, accompanying adult, sibling, member...), each with its own
+ * price, optional per-date capacity share, age limits and time-based price tiers
+ */
+const TicketTypesEditor: React.FC<TicketTypesEditorProps> = ({ ticketTypes, currency, errors, onChange }) => {
+  const updateTicketType = (index: number, changes: Partial<EventTicketType>) => {
+    onChange(ticketTypes.map((ticketType, i) => (i === index ? { ...ticketType, ...changes } : ticketType)));
+  };
+
+  const updateTier = (index: number, tierIndex: number, changes: Partial<EventTicketPriceTier>) => {
+    const tiers = ticketTypes[index].priceTiers || [];
+    updateTicketType(index, { priceTiers: tiers.map((tier, i) => (i === tierIndex ? { ...tier, ...changes } : tier)) });
+  };
+
+  const fieldError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-sm text-red-500">{errors[key]}</p> : null;
+
+  return (
+    <div className="border-t pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            <Ticket className="inline w-5 h-5 mr-2" />
+            Ticket Types
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Optional. Sell different tickets such as child, accompanying adult or member, each with its own price
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...ticketTypes, createTicketType()])}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Ticket Type
+        </button>
+      </div>
+
+      {ticketTypes.length === 0 ? (
+        <p className="text-sm text-gray-500 bg-gray-50 rounded-lg p-4">
+          No ticket types. Every seat is sold at the schedule price.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {ticketTypes.map((ticketType, index) => {
+            const key = (field: string) => `ticketType_${index}_${field}`;
+
+            return (
+              <div key={ticketType.id} className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="text-sm font-medium text-gray-900">{ticketType.name || `Ticket Type #${index + 1}`}</h4>
+                  <button
+                    type="button"
+                    onClick={() => onChange(ticketTypes.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-700 focus:outline-none"
+                    title="Remove ticket type"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Name <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={ticketType.name}
+                      onChange={(e) => updateTicketType(index, { name: e.target.value })}
+                      className={inputClass(!!errors[key('name')])}
+                      placeholder="e.g. Child"
+                    />
+                    {fieldError(key('name'))}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Price ({currency}) <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      value={ticketType.price}
+                      onChange={(e) => updateTicketType(index, { price: Number(e.target.value) })}
+                      min="0"
+                      step="0.01"
+                      className={inputClass(!!errors[key('price')])}
+                    />
+                    {fieldError(key('price'))}
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                    <input
+                      type="text"
+                      value={ticketType.description || ''}
+                      onChange={(e) => updateTicketType(index, { description: e.target.value })}
+                      className={inputClass()}
+                      placeholder="e.g. One adult must accompany children under 6"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Seats per date</label>
+                    <input
+                      type="number"
+                      value={ticketType.capacity ?? ''}
+                      onChange={(e) => updateTicketType(index, { capacity: optionalNumber(e.target.value) })}
+                      min="1"
+                      className={inputClass(!!errors[key('capacity')])}
+                      placeholder="Shares the date's seats"
+                    />
+                    {fieldError(key('capacity'))}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Min age</label>
+                      <input
+                        type="number"
+                        value={ticketType.minAge ?? ''}
+                        onChange={(e) => updateTicketType(index, { minAge: optionalNumber(e.target.value) })}
+                        min="0"
+                        className={inputClass()}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Max age</label>
+                      <input
+                        type="number"
+                        value={ticketType.maxAge ?? ''}
+                        onChange={(e) => updateTicketType(index, { maxAge: optionalNumber(e.target.value) })}
+                        min="0"
+                        className={inputClass(!!errors[key('maxAge')])}
+                      />
+                    </div>
+                    <div className="col-span-2">{fieldError(key('maxAge'))}</div>
+                  </div>
+                </div>
+
+                {/* Price tiers */}
+                <div className="mt-4 p-3 bg-gray-50 rounded-md">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="flex items-center text-sm font-medium text-gray-700">
+                      <Clock className="w-4 h-4 mr-1" />
+                      Price tiers
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => updateTicketType(index, { priceTiers: [...(ticketType.priceTiers || []), createPriceTier()] })}
+                      className="inline-flex items-center text-sm text-primary hover:text-primary-dark"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add tier
+                    </button>
+                  </div>
+                  {(ticketType.priceTiers || []).length === 0 ? (
+                    <p className="text-xs text-gray-500">e.g. an early-bird price until a date, then the regular price</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {(ticketType.priceTiers || []).map((tier, tierIndex) => (
+                        <div key={tier.id}>
+                          <div className="grid grid-cols-[1fr_8rem_10rem_auto] gap-2 items-center">
+                            <input
+                              type="text"
+                              value={tier.label}
+                              onChange={(e) => updateTier(index, tierIndex, { label: e.target.value })}
+                              className={inputClass()}
+                              placeholder="Early bird"
+                            />
+                            <input
+                              type="number"
+                              value={tier.price}
+                              onChange={(e) => updateTier(index, tierIndex, { price: Number(e.target.value) })}
+                              min="0"
+                              step="0.01"
+                              className={inputClass(!!errors[key(`tier_${tierIndex}_price`)])}
+                              title={`Price (${currency})`}
+                            />
+                            <input
+                              type="date"
+                              value={tier.endsAt}
+                              onChange={(e) => updateTier(index, tierIndex, { endsAt: e.target.value })}
+                              className={inputClass(!!errors[key(`tier_${tierIndex}_endsAt`)])}
+                              title="Last day of this price"
+                            />
+                            <button
+                              type="button"
+                              onClick={() =>
+                                updateTicketType(index, {
+                                  priceTiers: (ticketType.priceTiers || []).filter((_, i) => i !== tierIndex),
+                                })
+                              }
+                              className="text-red-500 hover:text-red-700"
+                              title="Remove tier"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                          {fieldError(key(`tier_${tierIndex}_endsAt`)) || fieldError(key(`tier_${tierIndex}_price`))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TicketTypesEditor;
@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { clsx } from 'clsx';
+import { useTranslation } from 'react-i18next';
 import { 
   ChevronUp, 
   ChevronDown, 
@@ -101,7 +102,7 @@ const DataTable = <T extends Record<string, any>>({
   title,
   subtitle,
   actions,
-  emptyMessage = 'No data available',
+  emptyMessage,
   className,
   tableClassName,
   showSearch = true,
@@ -113,6 +114,7 @@ const DataTable = <T extends Record<string, any>>({
   responsive = true,
   compact = false,
 }: DataTableProps<T>) => {
+  const { t } = useTranslation('common');
   const [localSearchQuery, setLocalSearchQuery] = useState(searchQuery);
 
   // Memoized filtered and sorted data for local operations
@@ -209,7 +211,7 @@ const DataTable = <T extends Record<string, any>>({
               {showSearch && (
                 <div className="relative">
                   <Input
-                    placeholder="Search..."
+                    placeholder={t('table.searchPlaceholder')}
                     value={localSearchQuery}
                     onChange={(e) => handleSearch(e.target.value)}
                     leftIcon={<Search className="h-4 w-4" />}
@@ -285,7 +287,7 @@ const DataTable = <T extends Record<string, any>>({
                 <th
                   key={column.key}
                   className={clsx(
-                    'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider',
+                    'px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider',
                     column.sortable && 'cursor-pointer hover:bg-gray-100',
                     column.headerClassName
                   )}
@@ -329,7 +331,7 @@ const DataTable = <T extends Record<string, any>>({
             {!loading && !error && processedData.length === 0 && (
               <tr>
                 <td colSpan={columns.length + (selectable ? 1 : 0)} className="px-6 py-12 text-center">
-                  <p className="text-gray-500">{emptyMessage}</p>
+                  <p className="text-gray-500">{emptyMessage ?? t('table.noData')}</p>
                 </td>
               </tr>
             )}
@@ -391,7 +393,7 @@ const DataTable = <T extends Record<string, any>>({
         <div className="px-6 py-4 border-t border-gray-200">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 text-sm text-gray-700">
-              <span>Showing</span>
+              <span>{t('table.showingPrefix')}</span>
               <select
                 className="border border-gray-300 rounded px-2 py-1 text-sm"
                 value={pagination.pageSize}
@@ -401,7 +403,7 @@ const DataTable = <T extends Record<string, any>>({
                   <option key={size} value={size}>{size}</option>
                 ))}
               </select>
-              <span>of {pagination.total} results</span>
+              <span>{t('table.ofResults', { total: pagination.total })}</span>
             </div>
 
             <div className="flex items-center gap-2">
@@ -410,13 +412,13 @@ const DataTable = <T extends Record<string, any>>({
                 size="sm"
                 onClick={() => onPageChange?.(pagination.page - 1)}
                 disabled={pagination.page <= 1}
-                leftIcon={<ChevronLeft className="h-4 w-4" />}
+                leftIcon={<ChevronLeft className="h-4 w-4 rtl:rotate-180" />}
               >
-                Previous
+                {t('previous')}
               </Button>
               
               <span className="px-3 py-1 text-sm text-gray-700">
-                Page {pagination.page} of {Math.ceil(pagination.total / pagination.pageSize)}
+                {t('table.page', { page: pagination.page, pages: Math.ceil(pagination.total / pagination.pageSize) })}
               </span>
               
               <Button
@@ -424,9 +426,9 @@ const DataTable = <T extends Record<string, any>>({
                 size="sm"
                 onClick={() => onPageChange?.(pagination.page + 1)}
                 disabled={pagination.page >= Math.ceil(pagination.total / pagination.pageSize)}
-                rightIcon={<ChevronRight className="h-4 w-4" />}
+                rightIcon={<ChevronRight className="h-4 w-4 rtl:rotate-180" />}
               >
-                Next
+                {t('next')}
               </Button>
             </div>
           </div>
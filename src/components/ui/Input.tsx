@@ -129,7 +129,7 @@ const Input = forwardRef<HTMLInputElement, InputProps>(
           {/* Left Icon */}
           {leftIcon && (
             <div className={clsx(
-              'absolute left-3 top-1/2 transform -translate-y-1/2 pointer-events-none',
+              'absolute start-3 top-1/2 transform -translate-y-1/2 pointer-events-none',
               hasError ? 'text-red-500' : success ? 'text-green-500' : 'text-gray-400'
             )}>
               <span className={iconSize}>{leftIcon}</span>
@@ -142,8 +142,8 @@ const Input = forwardRef<HTMLInputElement, InputProps>(
             type={isPassword ? (showPassword ? 'text' : 'password') : type}
             className={clsx(
               baseInputClasses,
-              leftIcon && (variant === 'flushed' ? 'pl-6' : 'pl-10'),
-              (rightIcon || isPassword || clearable || hasError || success || loading) && 'pr-10'
+              leftIcon && (variant === 'flushed' ? 'ps-6' : 'ps-10'),
+              (rightIcon || isPassword || clearable || hasError || success || loading) && 'pe-10'
             )}
             disabled={disabled || loading}
             value={value}
@@ -153,7 +153,7 @@ const Input = forwardRef<HTMLInputElement, InputProps>(
           />
 
           {/* Right Side Icons */}
-          <div className="absolute right-3 top-1/2 transform -translate-y-1/2 flex items-center space-x-1">
+          <div className="absolute end-3 top-1/2 transform -translate-y-1/2 flex items-center space-x-1 rtl:space-x-reverse">
             {/* Loading Spinner */}
             {loading && (
               <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent"></div>
@@ -19,6 +19,18 @@ export const config = {
    */
   apiUrl: import.meta.env.VITE_API_URL || import.meta.env.VITE_API_BASE_URL || '',
 
+  /**
+   * Map tiles
+   * Any XYZ tile server works, so a self-hosted tile server can replace OpenStreetMap
+   */
+  map: {
+    tileUrl: import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution:
+      import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19,
+  },
+
   /**
    * Default author information (for blogs, etc.)
    */
@@ -1,42 +1,56 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, ReactNode } from 'react';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import {
   addToCart,
   removeFromCart,
   updateQuantity,
+  updateTicketQuantity,
   applyCoupon,
   removeCoupon,
+  clearCart as clearCartItems,
+  expireHolds,
+  holdCartItems,
+  releaseHolds,
+  syncItemHold,
   selectCartItems,
   selectCartSummary,
   selectAppliedCoupon,
   selectCartItemsCount,
-  CartItem
+  setPricingConfig,
+  getCartCouponEvaluation,
+  getCouponCartLines,
+  AppliedCartCoupon,
+  CartItem,
+  CartSummary
 } from '../store/slices/cartSlice';
-import { toast } from 'react-hot-toast';
+import couponAPI, { Coupon, CouponValidation } from '../services/api/couponAPI';
+import { CouponEvaluation, evaluateCoupon, findCouponByCode, getCouponPricingDiscount } from '../utils/couponUtils';
+import { usePricingConfig } from '../hooks/usePricingConfig';
+import type { TicketLine } from '../utils/ticketTypeUtils';
+import { CartHoldSummary, getCartHoldSummary, isHoldActive } from '../utils/holdUtils';
 
 interface CartContextType {
   cartItems: CartItem[];
   cartCount: number;
-  cartSummary: {
-    subtotal: number;
-    tax: number;
-    serviceFee: number;
-    discount: number;
-    total: number;
-    currency: string;
-  };
-  coupon: {
-    code: string;
-    discount: number;
-    type: 'percentage' | 'fixed';
-  } | null;
-  addItemToCart: (event: any, quantity: number) => void;
+  cartSummary: CartSummary;
+  coupon: AppliedCartCoupon | null;
+  couponEvaluation: CouponEvaluation | null;
+  addItemToCart: (event: any, quantity: number, ticketLines?: TicketLine[]) => void;
   removeItemFromCart: (itemId: string) => void;
   updateItemQuantity: (itemId: string, quantity: number) => void;
-  applyCouponCode: (code: string) => boolean;
+  updateItemTicketQuantity: (itemId: string, ticketTypeId: string, quantity: number) => void;
+  applyCouponCode: (code: string) => Promise<CouponApplyResult>;
   removeCouponCode: () => void;
-  isValidCoupon: (code: string) => boolean;
   isItemInCart: (itemId: string, selectedDate?: string) => boolean;
+  clearCart: () => void;
+  holdSummary: CartHoldSummary;
+  holdAllItems: () => Promise<boolean>;
+  expireCartHolds: () => void;
+}
+
+export interface CouponApplyResult {
+  applied: boolean;
+  message?: string;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -53,13 +67,6 @@ interface CartProviderProps {
   children: ReactNode;
 }
 
-// Mock coupon codes for demo purposes
-const VALID_COUPONS = [
-  { code: 'WELCOME10', discount: 10, type: 'percentage' as const },
-  { code: 'SUMMER20', discount: 20, type: 'percentage' as const },
-  { code: 'FLAT50', discount: 50, type: 'fixed' as const }
-];
-
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const dispatch = useAppDispatch();
   const cartItems = useAppSelector(selectCartItems);
@@ -67,42 +74,129 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const coupon = useAppSelector(selectAppliedCoupon);
   const cartCount = useAppSelector(selectCartItemsCount);
 
-  const addItemToCart = (event: any, quantity: number) => {
+  // Keep cart totals in sync with system pricing settings and vendor fee overrides
+  const pricingConfig = usePricingConfig(cartItems.map(item => item.event.vendorId?._id));
+
+  useEffect(() => {
+    dispatch(setPricingConfig(pricingConfig));
+  }, [dispatch, pricingConfig]);
+
+  // A persisted cart may come back long after its holds ran out on the server
+  useEffect(() => {
+    dispatch(expireHolds());
+  }, [dispatch]);
+
+  const holdSummary = useMemo(() => getCartHoldSummary(cartItems), [cartItems]);
+  const couponEvaluation = useMemo(() => getCartCouponEvaluation(cartItems, coupon), [cartItems, coupon]);
+
+  const releaseItemHold = (item?: CartItem) => {
+    if (isHoldActive(item?.hold)) {
+      dispatch(releaseHolds([item.hold.id]));
+    }
+  };
+
+  const addItemToCart = (event: any, quantity: number, ticketLines?: TicketLine[]) => {
     // Note: Toast notification is handled by the Redux slice
     dispatch(addToCart({
       event,
       quantity,
       selectedDate: event.date, // Pass the selected date from the event
-      participants: []
+      participants: [],
+      ticketLines,
+      dateScheduleId: event.schedule?._id
     }));
+    // Holds the new item's seats, or grows the hold when it was merged into an existing item
+    dispatch(holdCartItems());
   };
 
   const removeItemFromCart = (itemId: string) => {
+    releaseItemHold(cartItems.find(item => item.id === itemId));
     dispatch(removeFromCart(itemId));
   };
 
   const updateItemQuantity = (itemId: string, quantity: number) => {
+    if (quantity <= 0) {
+      releaseItemHold(cartItems.find(item => item.id === itemId));
+    }
     dispatch(updateQuantity({ itemId, quantity }));
+    if (quantity > 0) {
+      dispatch(syncItemHold(itemId));
+    }
   };
 
-  const isValidCoupon = (code: string): boolean => {
-    return VALID_COUPONS.some(coupon => coupon.code === code);
+  const updateItemTicketQuantity = (itemId: string, ticketTypeId: string, quantity: number) => {
+    const item = cartItems.find(item => item.id === itemId);
+    const currentLine = item?.ticketLines?.find(line => line.ticketTypeId === ticketTypeId);
+    const remaining = (item?.quantity || 0) - (currentLine?.quantity || 0) + Math.max(0, quantity);
+
+    if (remaining <= 0) {
+      releaseItemHold(item);
+    }
+    dispatch(updateTicketQuantity({ itemId, ticketTypeId, quantity }));
+    if (remaining > 0) {
+      dispatch(syncItemHold(itemId));
+    }
+  };
+
+  // After payment the holds have become bookings, so they are not released here
+  const clearCart = () => {
+    dispatch(clearCartItems());
   };
 
-  const applyCouponCode = (code: string): boolean => {
-    const couponToApply = VALID_COUPONS.find(coupon => coupon.code === code);
-    
-    if (couponToApply) {
-      dispatch(applyCoupon({
-        code: couponToApply.code,
-        discount: couponToApply.discount,
-        type: couponToApply.type
-      }));
-      return true;
+  // Stable so pages can hold seats from effects
+  const holdAllItems = useCallback(async (): Promise<boolean> => {
+    return dispatch(holdCartItems()).unwrap();
+  }, [dispatch]);
+
+  const expireCartHolds = useCallback(() => {
+    dispatch(expireHolds());
+  }, [dispatch]);
+
+  // The server decides whether the code is valid; the public coupon rules then explain,
+  // per item, what the discount covers as the cart changes
+  const applyCouponCode = async (code: string): Promise<CouponApplyResult> => {
+    const lines = getCouponCartLines(cartItems);
+
+    let validation: CouponValidation;
+    try {
+      const response = await couponAPI.validateCoupon(
+        code.trim().toUpperCase(),
+        cartSummary.subtotal,
+        Array.from(new Set(lines.map(line => line.eventId)))
+      );
+      validation = response?.data || response;
+    } catch (error: any) {
+      return { applied: false, message: error.response?.data?.message };
     }
-    
-    toast.error('Invalid coupon code');
-    return false;
+
+    if (!validation?.isValid) {
+      return { applied: false };
+    }
+
+    let rules: Coupon | null = null;
+    try {
+      const response = await couponAPI.getActiveCoupons();
+      rules = findCouponByCode<Coupon>(response?.data || [], validation.coupon.code);
+    } catch (error) {
+      console.warn('Coupon rules unavailable, applying the validated discount to the whole cart', error);
+    }
+
+    if (rules) {
+      const evaluation = evaluateCoupon(rules, lines);
+      if (!evaluation.isValid) {
+        return { applied: false, message: evaluation.orderIssues[0]?.message };
+      }
+    }
+
+    const discount = getCouponPricingDiscount({ ...validation.coupon, maximumDiscount: rules?.maximumDiscount });
+    dispatch(applyCoupon({
+      code: validation.coupon.code,
+      type: discount?.type || 'fixed',
+      discount: discount?.value || 0,
+      maxDiscount: discount?.maxDiscount,
+      rules: rules || undefined,
+    }));
+    return { applied: true };
   };
 
   const removeCouponCode = () => {
@@ -123,13 +217,18 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     cartCount,
     cartSummary,
     coupon,
+    couponEvaluation,
     addItemToCart,
     removeItemFromCart,
     updateItemQuantity,
+    updateItemTicketQuantity,
     applyCouponCode,
     removeCouponCode,
-    isValidCoupon,
-    isItemInCart
+    isItemInCart,
+    clearCart,
+    holdSummary,
+    holdAllItems,
+    expireCartHolds
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -1,212 +1,145 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001';
-
-type Currency = 'AED' | 'INR' | 'USD' | 'EUR' | 'GBP';
-
-interface CurrencyInfo {
-  code: Currency;
-  name: string;
-  symbol: string;
-  flag: string;
-  decimals: number;
-  locale: string;
-}
-
-interface ExchangeRates {
-  [key: string]: number;
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import {
+  CurrencyCode,
+  CurrencyConfig,
+  ExchangeRates,
+  SUPPORTED_CURRENCIES,
+  formatCurrency,
+  getSupportedCurrencies,
+  isValidCurrency,
+  normalizeCurrencyCode
+} from '../utils/currencyUtils';
+import currencyService, {
+  ExchangeRateSnapshot,
+  RateFreshness,
+  getRateFreshness
+} from '../services/currencyService';
+import { useLanguageContext } from './LanguageContext';
+
+type Currency = CurrencyCode;
+
+export interface DualPrice {
+  settlement: string;
+  converted: string | null;
+  isConverted: boolean;
 }
 
 interface CurrencyContextType {
   currentCurrency: Currency;
   changeCurrency: (currency: Currency) => void;
-  formatPrice: (amount: number, currencyCode?: Currency) => string;
-  formatPriceWithConversion: (amount: number, fromCurrency: Currency) => string;
-  convertCurrency: (amount: number, fromCurrency: Currency, toCurrency: Currency) => number;
+  formatPrice: (amount: number, currencyCode?: string) => string;
+  formatPriceWithConversion: (amount: number, fromCurrency: string) => string;
+  formatDualPrice: (amount: number, settlementCurrency: string) => DualPrice;
+  convertCurrency: (amount: number, fromCurrency: string, toCurrency?: string) => number | null;
   currencySymbol: string;
-  currencyInfo: CurrencyInfo;
+  currencyInfo: CurrencyConfig;
   exchangeRates: ExchangeRates;
-  fetchExchangeRates: () => Promise<void>;
+  ratesUpdatedAt: string | null;
+  rateFreshness: RateFreshness;
+  fetchExchangeRates: (force?: boolean) => Promise<void>;
   autoDetectCurrency: () => Promise<void>;
-  fromCurrency: Currency;
-  toCurrency: Currency;
   isAutoDetected: boolean;
-  supportedCurrencies: CurrencyInfo[];
+  supportedCurrencies: CurrencyConfig[];
   isLoading: boolean;
 }
 
-export const CURRENCY_INFO: Record<Currency, CurrencyInfo> = {
-  AED: { code: 'AED', name: 'UAE Dirham', symbol: 'د.إ', flag: '🇦🇪', decimals: 2, locale: 'ar-AE' },
-  INR: { code: 'INR', name: 'Indian Rupee', symbol: '₹', flag: '🇮🇳', decimals: 2, locale: 'en-IN' },
-  USD: { code: 'USD', name: 'US Dollar', symbol: '$', flag: '🇺🇸', decimals: 2, locale: 'en-US' },
-  EUR: { code: 'EUR', name: 'Euro', symbol: '€', flag: '🇪🇺', decimals: 2, locale: 'en-EU' },
-  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', flag: '🇬🇧', decimals: 2, locale: 'en-GB' },
-};
+export const CURRENCY_INFO = SUPPORTED_CURRENCIES;
 
 const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
 
 export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [currentCurrency, setCurrentCurrency] = useState<Currency>(() => {
-    const storedCurrency = localStorage.getItem('currency');
-    return (storedCurrency as Currency) || 'AED';
+    return normalizeCurrencyCode(localStorage.getItem('currency'));
   });
-  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>({});
+  const [snapshot, setSnapshot] = useState<ExchangeRateSnapshot>(() => currencyService.getSnapshot());
   const [isAutoDetected, setIsAutoDetected] = useState<boolean>(() => {
-    const storedAutoDetected = localStorage.getItem('currencyAutoDetected');
-    return storedAutoDetected === 'true';
+    return localStorage.getItem('currencyAutoDetected') === 'true';
   });
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [fromCurrency, setFromCurrency] = useState<Currency>('INR'); // Default from currency
-  const [toCurrency, setToCurrency] = useState<Currency>('AED'); // Default to currency
-
-  const isInitialized = React.useRef(false);
+  // Digits and separators follow the UI language rather than the currency's home locale
+  const { locale } = useLanguageContext();
 
-  const fetchExchangeRates = async () => {
+  const fetchExchangeRates = useCallback(async (force: boolean = false) => {
     setIsLoading(true);
     try {
-      // Add 5 second timeout to prevent hanging
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch(`${API_BASE_URL}/currency/rates`, {
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setExchangeRates(data.rates);
-    } catch (error) {
-      // Silently fail and use default exchange rates
-      console.warn('Currency rates unavailable, using default rates:', error);
-
-      // Set default exchange rates as fallback
-      setExchangeRates({
-        AED: 1,      // Base currency
-        USD: 0.27,   // 1 AED = 0.27 USD
-        EUR: 0.25,   // 1 AED = 0.25 EUR
-        GBP: 0.21,   // 1 AED = 0.21 GBP
-        INR: 22.5    // 1 AED = 22.5 INR
-      });
+      setSnapshot(await currencyService.getRates(force));
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
 
-  const autoDetectCurrency = async () => {
-    // Prevent repeated auto-detection calls if already detected in the session
+  const autoDetectCurrency = useCallback(async () => {
+    // Prevent repeated auto-detection calls if already detected
     if (localStorage.getItem('currencyAutoDetected') === 'true') {
-      setIsLoading(false);
       return;
     }
 
-    setIsLoading(true);
-    try {
-      // Add 5 second timeout to prevent hanging
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch(`${API_BASE_URL}/currency/detect`, {
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const detectedCurrencyCode = data.data.currency as Currency;
-
-      if (supportedCurrencies.some(c => c.code === detectedCurrencyCode)) {
-        setCurrentCurrency(detectedCurrencyCode);
-        localStorage.setItem('currencyAutoDetected', 'true'); // Persist auto-detected status
-      } else {
-        setCurrentCurrency('AED'); // Default to AED if detected currency is not supported
-        localStorage.setItem('currencyAutoDetected', 'false');
-      }
-    } catch (error) {
-      console.warn('Currency auto-detection unavailable, using default AED:', error);
-      setCurrentCurrency('AED'); // Default to AED on error
+    const detected = await currencyService.detectCurrency();
+    if (detected) {
+      setCurrentCurrency(detected);
+      setIsAutoDetected(true);
+      localStorage.setItem('currency', detected);
+      localStorage.setItem('currencyAutoDetected', 'true');
+    } else {
       localStorage.setItem('currencyAutoDetected', 'false');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, []);
 
   useEffect(() => {
-    console.log('CurrencyProvider useEffect triggered');
-    if (isInitialized.current) {
-      return;
-    }
-
     const initializeCurrency = async () => {
-      console.log('initializeCurrency called');
       await fetchExchangeRates();
 
-      const manuallySet = localStorage.getItem('currencyManuallySet');
-      const storedAutoDetected = localStorage.getItem('currencyAutoDetected');
-
-      if (!manuallySet && storedAutoDetected !== 'true') {
-        console.log('autoDetectCurrency called from initializeCurrency');
+      if (!localStorage.getItem('currencyManuallySet') && localStorage.getItem('currencyAutoDetected') !== 'true') {
         await autoDetectCurrency();
       }
-      isInitialized.current = true;
     };
 
     initializeCurrency();
 
     const refreshInterval = setInterval(() => {
-      console.log('setInterval: fetchExchangeRates called');
       fetchExchangeRates();
     }, 3600000); // Refresh every hour
-    return () => {
-      console.log('CurrencyProvider useEffect cleanup');
-      clearInterval(refreshInterval);
-    };
-  }, []); // Empty dependency array to run only once on mount
+
+    return () => clearInterval(refreshInterval);
+  }, [fetchExchangeRates, autoDetectCurrency]);
 
   const changeCurrency = (currency: Currency) => {
+    if (!isValidCurrency(currency)) return;
     setCurrentCurrency(currency);
+    setIsAutoDetected(false);
     localStorage.setItem('currency', currency);
     localStorage.setItem('currencyManuallySet', 'true');
   };
 
-  const convertCurrency = (amount: number, from: Currency, to: Currency): number => {
-    if (!exchangeRates[from] || !exchangeRates[to]) {
-      console.warn(`Exchange rates for ${from} or ${to} not available.`);
-      return amount; // Return original amount if rates are missing
-    }
-    // Convert amount from 'from' currency to USD, then from USD to 'to' currency
-    const amountInUSD = amount / exchangeRates[from];
-    return amountInUSD * exchangeRates[to];
+  const convertCurrency = (amount: number, from: string, to: string = currentCurrency): number | null => {
+    return currencyService.convert(amount, from, to);
   };
 
-  const formatPrice = (amount: number, currencyCode: Currency = currentCurrency): string => {
-    const { symbol, locale, decimals } = CURRENCY_INFO[currencyCode];
-
-    return new Intl.NumberFormat(locale, {
-      style: 'currency',
-      currency: currencyCode,
-      minimumFractionDigits: decimals,
-      maximumFractionDigits: decimals,
-    }).format(amount).replace(currencyCode, symbol);
+  const formatPrice = (amount: number, currencyCode: string = currentCurrency): string => {
+    return formatCurrency(amount, currencyCode, { locale });
   };
 
-  const formatPriceWithConversion = (amount: number, fromCurrency: Currency): string => {
-    const convertedAmount = convertCurrency(amount, fromCurrency, currentCurrency);
-    const fromCurrencyInfo = CURRENCY_INFO[fromCurrency];
-    const toCurrencyInfo = CURRENCY_INFO[currentCurrency];
+  // Price in the settlement currency plus, when it differs, an approximation in the viewer's currency
+  const formatDualPrice = (amount: number, settlementCurrency: string): DualPrice => {
+    const settlementCode = normalizeCurrencyCode(settlementCurrency);
+    const settlement = formatCurrency(amount, settlementCode, { locale });
 
-    return `~${formatPrice(convertedAmount)} (${formatPrice(amount, fromCurrency)} ${fromCurrencyInfo.code} = ${formatPrice(convertedAmount)} ${toCurrencyInfo.code})`;
+    if (settlementCode === currentCurrency) {
+      return { settlement, converted: null, isConverted: false };
+    }
+
+    const convertedAmount = convertCurrency(amount, settlementCode, currentCurrency);
+    return {
+      settlement,
+      converted: convertedAmount === null ? null : formatCurrency(convertedAmount, currentCurrency, { locale }),
+      isConverted: convertedAmount !== null,
+    };
   };
 
-  const supportedCurrencies = Object.values(CURRENCY_INFO);
+  const formatPriceWithConversion = (amount: number, fromCurrency: string): string => {
+    const { settlement, converted } = formatDualPrice(amount, fromCurrency);
+    return converted ? `~${converted} (${settlement})` : settlement;
+  };
 
   return (
     <CurrencyContext.Provider
@@ -215,16 +148,17 @@ export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         changeCurrency,
         formatPrice,
         formatPriceWithConversion,
+        formatDualPrice,
         convertCurrency,
-        currencySymbol: CURRENCY_INFO[currentCurrency].symbol,
-        currencyInfo: CURRENCY_INFO[currentCurrency],
-        exchangeRates,
+        currencySymbol: SUPPORTED_CURRENCIES[currentCurrency].symbol,
+        currencyInfo: SUPPORTED_CURRENCIES[currentCurrency],
+        exchangeRates: snapshot.rates,
+        ratesUpdatedAt: snapshot.fetchedAt,
+        rateFreshness: getRateFreshness(snapshot),
         fetchExchangeRates,
         autoDetectCurrency,
-        fromCurrency,
-        toCurrency,
         isAutoDetected,
-        supportedCurrencies,
+        supportedCurrencies: getSupportedCurrencies(),
         isLoading,
       }}
     >
@@ -239,4 +173,4 @@ export const useCurrencyContext = () => {
     throw new Error('useCurrencyContext must be used within a CurrencyProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -1,68 +1,67 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import i18n from 'i18next';
+import {
+  LANGUAGE_STORAGE_KEY,
+  RTL_LANGUAGES,
+  SUPPORTED_LANGUAGES,
+  SupportedLanguage
+} from '../i18n/config';
+import { getLocaleForLanguage, setActiveLanguage } from '../utils/dateUtils';
 
-type Language = 'en' | 'ar';
+type Language = SupportedLanguage;
 
 interface LanguageContextType {
   currentLanguage: Language;
   changeLanguage: (lang: Language) => void;
   isRTL: boolean;
+  direction: 'ltr' | 'rtl';
+  locale: string;
+  supportedLanguages: readonly Language[];
 }
 
 export const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
+const normalizeLanguage = (lang?: string | null): Language => {
+  const base = (lang || '').split('-')[0].toLowerCase();
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? (base as Language) : 'en';
+};
+
+// Mirror the whole document and point date/number formatting at the new locale
+const applyLanguage = (lang: Language) => {
+  document.documentElement.dir = RTL_LANGUAGES.includes(lang) ? 'rtl' : 'ltr';
+  document.documentElement.lang = lang;
+  setActiveLanguage(lang);
+};
+
 export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [currentLanguage, setCurrentLanguage] = useState<Language>('en');
-  const [isRTL, setIsRTL] = useState(false);
+  const [currentLanguage, setCurrentLanguage] = useState<Language>(() => {
+    const initial = normalizeLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY) || i18n.language);
+    applyLanguage(initial);
+    return initial;
+  });
 
   useEffect(() => {
-    // Initialize language from localStorage or browser preference
-    const initializeLanguage = () => {
-      const savedLanguage = localStorage.getItem('language') as Language;
-      if (savedLanguage) {
-        setCurrentLanguage(savedLanguage);
-        // Check if i18n is initialized before calling changeLanguage
-        if (i18n.isInitialized) {
-          i18n.changeLanguage(savedLanguage);
-        }
-        setIsRTL(savedLanguage === 'ar');
-        document.documentElement.dir = savedLanguage === 'ar' ? 'rtl' : 'ltr';
-        document.documentElement.lang = savedLanguage;
-      } else {
-        // Default to English
-        setCurrentLanguage('en');
-        if (i18n.isInitialized) {
-          i18n.changeLanguage('en');
-        }
-        setIsRTL(false);
-        document.documentElement.dir = 'ltr';
-        document.documentElement.lang = 'en';
-      }
+    // Follow i18next so changes made outside the context (e.g. the detector) stay in sync
+    const handleLanguageChanged = (lng: string) => {
+      const next = normalizeLanguage(lng);
+      applyLanguage(next);
+      setCurrentLanguage(next);
     };
 
-    // If i18n is already initialized, use it immediately
-    if (i18n.isInitialized) {
-      initializeLanguage();
-    } else {
-      // Otherwise, wait for i18n to be ready
-      i18n.on('initialized', initializeLanguage);
-      return () => {
-        i18n.off('initialized', initializeLanguage);
-      };
-    }
+    i18n.on('languageChanged', handleLanguageChanged);
+    return () => {
+      i18n.off('languageChanged', handleLanguageChanged);
+    };
   }, []);
 
-  const changeLanguage = (lang: Language) => {
+  const changeLanguage = useCallback((lang: Language) => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
+    applyLanguage(lang);
     setCurrentLanguage(lang);
-    // Only call i18n.changeLanguage if i18n is initialized
-    if (i18n.isInitialized) {
-      i18n.changeLanguage(lang);
-    }
-    localStorage.setItem('language', lang);
-    setIsRTL(lang === 'ar');
-    document.documentElement.dir = lang === 'ar' ? 'rtl' : 'ltr';
-    document.documentElement.lang = lang;
-  };
+    i18n.changeLanguage(lang);
+  }, []);
+
+  const isRTL = RTL_LANGUAGES.includes(currentLanguage);
 
   return (
     <LanguageContext.Provider
@@ -70,6 +69,9 @@ export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         currentLanguage,
         changeLanguage,
         isRTL,
+        direction: isRTL ? 'rtl' : 'ltr',
+        locale: getLocaleForLanguage(currentLanguage),
+        supportedLanguages: SUPPORTED_LANGUAGES,
       }}
     >
       {children}
@@ -83,4 +85,4 @@ export const useLanguageContext = () => {
     throw new Error('useLanguageContext must be used within a LanguageProvider');
   }
   return context;
-};
\ No newline at end of file
+};
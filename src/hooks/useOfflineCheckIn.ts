@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import offlineCheckInService from '../services/offlineCheckInService';
+import type {
+  CheckInConnectionState,
+  CheckInManifest,
+  QueuedCheckIn,
+  TicketVerificationResult,
+} from '../types/checkIn';
+
+/**
+ * Offline check-in state for one event: the downloaded manifest, the local queue and
+ * whether the scanner is online, offline or syncing
+ */
+export const useOfflineCheckIn = (eventId?: string) => {
+  const [manifest, setManifest] = useState<CheckInManifest | undefined>();
+  const [queue, setQueue] = useState<QueuedCheckIn[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(offlineCheckInService.isSyncing());
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState(offlineCheckInService.getLastSyncedAt());
+
+  const refresh = useCallback(async () => {
+    const [nextManifest, nextQueue] = await Promise.all([
+      eventId ? offlineCheckInService.getManifest(eventId) : Promise.resolve(undefined),
+      offlineCheckInService.getQueue(eventId || undefined),
+    ]);
+    setManifest(nextManifest);
+    setQueue(nextQueue);
+    setIsSyncing(offlineCheckInService.isSyncing());
+    setLastSyncedAt(offlineCheckInService.getLastSyncedAt());
+  }, [eventId]);
+
+  useEffect(() => {
+    refresh().catch((error) => console.error('Failed to load offline check-in data:', error));
+    return offlineCheckInService.subscribe(() => {
+      refresh().catch(() => undefined);
+    });
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const downloadManifest = useCallback(async () => {
+    if (!eventId) return;
+    setIsDownloading(true);
+    try {
+      setManifest(await offlineCheckInService.downloadManifest(eventId));
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [eventId]);
+
+  const verify = useCallback(
+    (qrData: string): Promise<TicketVerificationResult | null> =>
+      eventId ? offlineCheckInService.verify(eventId, qrData) : Promise.resolve(null),
+    [eventId]
+  );
+
+  const checkIn = useCallback(
+    (ticketId: string, location?: string) => {
+      if (!eventId) throw new Error('Select an event before checking in offline');
+      return offlineCheckInService.queueCheckIn(eventId, ticketId, location);
+    },
+    [eventId]
+  );
+
+  const pendingCount = queue.filter((item) => item.status === 'pending').length;
+  const connectionState: CheckInConnectionState = isSyncing ? 'syncing' : isOnline ? 'online' : 'offline';
+
+  return {
+    manifest,
+    queue,
+    pendingCount,
+    conflicts: queue.filter((item) => item.status !== 'pending'),
+    isOnline,
+    isSyncing,
+    isDownloading,
+    lastSyncedAt,
+    connectionState,
+    downloadManifest,
+    removeManifest: () => (eventId ? offlineCheckInService.removeManifest(eventId) : Promise.resolve()),
+    verify,
+    checkIn,
+    syncNow: () => offlineCheckInService.syncQueue(),
+    dismissQueueItem: (id: string) => offlineCheckInService.dismissQueueItem(id),
+  };
+};
+
+export default useOfflineCheckIn;
@@ -9,10 +9,22 @@ import {
   canManageGlobalSEO,
   getSEOPermissionLevel,
   validateSEOEditPermission,
+  getAdminPermissions,
+  hasPermission,
+  hasAnyPermission,
+  canAccessAdminPath,
+  getDefaultAdminPath,
   type User,
   type Event,
   type Blog
 } from '../utils/permissions';
+import {
+  filterEventsForStaff,
+  getStaffEventScope,
+  getStaffGrants,
+  hasStaffPermission,
+} from '../utils/staffPermissions';
+import type { Permission, StaffPermission } from '../types/permission';
 
 /**
  * Hook for managing user permissions throughout the app
@@ -20,10 +32,28 @@ import {
 export const usePermissions = () => {
   // Get current user from Redux store
   const user = useSelector((state: RootState) => state.auth?.user) as User | null;
+  const employeeDetails = useSelector((state: RootState) => state.auth?.user?.employeeDetails);
+  const isStaff = user?.role === 'employee';
 
   return {
     user,
 
+    // Admin permissions
+    permissions: getAdminPermissions(user),
+    hasPermission: (permission: Permission) => hasPermission(user, permission),
+    hasAnyPermission: (permissions: Permission[]) => hasAnyPermission(user, permissions),
+    canAccessAdminPath: (pathname: string) => canAccessAdminPath(user, pathname),
+    getDefaultAdminPath: () => getDefaultAdminPath(user),
+
+    // Vendor staff permissions. Only employees are limited; the routes decide who else gets in.
+    staffGrants: isStaff ? getStaffGrants(employeeDetails) : [],
+    hasStaffPermission: (permission: StaffPermission, eventId?: string) =>
+      !isStaff || hasStaffPermission(employeeDetails, permission, eventId),
+    getStaffEventScope: (permission: StaffPermission) =>
+      isStaff ? getStaffEventScope(employeeDetails, permission) : 'all' as const,
+    filterEventsForStaff: <T>(events: T[], permission: StaffPermission, getId: (event: T) => string) =>
+      isStaff ? filterEventsForStaff(events, employeeDetails, permission, getId) : events,
+
     // Event permissions
     canEditEventSEO: (event?: Event) => canEditEventSEO(user, event),
     canCreateEvent: () => canCreateEvent(user),
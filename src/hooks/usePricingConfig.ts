@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch } from '@/store';
+import {
+  fetchPricingSettings,
+  selectPricingSettings,
+  selectPricingSettingsLastFetched
+} from '@/store/slices/settingsSlice';
+import vendorPaymentService from '@/services/vendorPaymentService';
+import { PricingConfig, VendorPricingOverride } from '@utils/pricingUtils';
+
+const SETTINGS_TTL = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Builds the pricing config (system rates + vendor overrides) for the given vendors.
+ * System settings are fetched once and shared through Redux; vendor overrides reuse
+ * the cached vendorPaymentService lookups. A vendor whose lookup fails gets no override,
+ * so the system settings apply.
+ */
+export const usePricingConfig = (vendorIds: Array<string | undefined> = []): PricingConfig => {
+  const dispatch = useDispatch<AppDispatch>();
+  const settings = useSelector(selectPricingSettings);
+  const lastFetched = useSelector(selectPricingSettingsLastFetched);
+  const [vendorOverrides, setVendorOverrides] = useState<Record<string, VendorPricingOverride>>({});
+
+  // Stable key so the effect only reruns when the vendor set changes
+  const vendorKey = useMemo(
+    () => Array.from(new Set(vendorIds.filter((id): id is string => !!id))).sort().join(','),
+    [vendorIds]
+  );
+
+  useEffect(() => {
+    if (!lastFetched || Date.now() - lastFetched > SETTINGS_TTL) {
+      dispatch(fetchPricingSettings());
+    }
+  }, [dispatch, lastFetched]);
+
+  useEffect(() => {
+    if (!vendorKey) return;
+
+    let cancelled = false;
+
+    const loadOverrides = async () => {
+      const entries = await Promise.all(
+        vendorKey.split(',').map(async (vendorId): Promise<[string, VendorPricingOverride] | null> => {
+          const info = await vendorPaymentService.findVendorPaymentInfo(vendorId);
+          if (!info) return null;
+
+          return [vendorId, {
+            vendorId,
+            serviceFeePercentage: Number.isFinite(info.serviceFeeRate) ? info.serviceFeeRate : undefined,
+            // Vendors charging through their own Stripe account carry no platform fee
+            serviceFeeExempt: info.usePlatformStripe === false,
+          }];
+        })
+      );
+
+      if (!cancelled) {
+        setVendorOverrides(Object.fromEntries(entries.filter((entry): entry is [string, VendorPricingOverride] => !!entry)));
+      }
+    };
+
+    loadOverrides();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vendorKey]);
+
+  return useMemo(() => ({ settings, vendorOverrides }), [settings, vendorOverrides]);
+};
+
+export default usePricingConfig;
@@ -1,7 +1,7 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '@/store';
-import { fetchUserNotifications } from '@/store/slices/notificationsSlice';
+import { fetchUserNotifications, fetchUnreadCount } from '@/store/slices/notificationsSlice';
 import { fetchFeaturedCategories } from '@/store/slices/categoriesSlice';
 
 interface UseRealTimeDataOptions {
@@ -33,7 +33,10 @@ export const useRealTimeData = (options: UseRealTimeDataOptions = {}) => {
   const refreshNotifications = useCallback(async () => {
     if (isAuthenticated && enableNotifications) {
       try {
-        await dispatch(fetchUserNotifications({ limit: 20, unreadOnly: true })).unwrap();
+        await Promise.all([
+          dispatch(fetchUserNotifications({ limit: 20 })).unwrap(),
+          dispatch(fetchUnreadCount()).unwrap(),
+        ]);
 
         // Reset error state on successful request
         if (connectionError) {
@@ -1,254 +1,183 @@
-import { useEffect, useCallback, useRef } from 'react';
-import { useDispatch } from 'react-redux';
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch } from '../store';
+import {
+  addNotification,
+  markNotificationRead,
+  fetchUnreadCount,
+  setRealTimeConnection,
+  selectRealTimeConnection
+} from '../store/slices/notificationsSlice';
+import { upsertBooking } from '../store/slices/bookingsSlice';
+import { upsertVendorBooking } from '../store/slices/vendorSlice';
+import { updateEventSeats } from '../store/slices/eventsSlice';
+import { updatePayoutStatus } from '../store/slices/vendorPayoutSlice';
+import realTimeService, {
+  RealTimeMessage,
+  RealTimeMessageType,
+  RealTimeStatus
+} from '../services/realtimeService';
 
 interface UseRealTimeUpdatesOptions {
   enabled?: boolean;
-  reconnectInterval?: number;
-  maxReconnectAttempts?: number;
-  onConnect?: () => void;
-  onDisconnect?: () => void;
-  onError?: (error: Event) => void;
-  onMessage?: (data: any) => void;
+  onMessage?: (message: RealTimeMessage) => void;
 }
 
-interface RealTimeUpdate {
-  type: 'notification' | 'booking' | 'payment' | 'event_update' | 'user_activity';
-  action: 'create' | 'update' | 'delete';
-  data: any;
-  timestamp: string;
-  userId?: string;
-}
+/**
+ * Routes a real-time message to the slice that owns its data
+ */
+export const dispatchRealTimeMessage = (dispatch: AppDispatch, message: RealTimeMessage) => {
+  switch (message.type) {
+    case 'notification.created':
+      dispatch(addNotification(message.payload));
+      // Surface a browser notification when the tab is in the background
+      if ('Notification' in window && Notification.permission === 'granted' && document.visibilityState === 'hidden') {
+        new Notification(message.payload.title, {
+          body: message.payload.shortMessage || message.payload.message,
+          icon: '/favicon.ico',
+          badge: '/favicon.ico'
+        });
+      }
+      break;
+
+    case 'notification.read':
+      dispatch(markNotificationRead(message.payload.notificationId));
+      break;
+
+    case 'booking.created':
+    case 'booking.updated':
+      if (message.payload.scope === 'vendor') {
+        dispatch(upsertVendorBooking(message.payload.booking));
+      } else {
+        dispatch(upsertBooking(message.payload.booking));
+      }
+      break;
 
-export const useRealTimeUpdates = (options: UseRealTimeUpdatesOptions = {}) => {
-  const {
-    enabled = true,
-    reconnectInterval = 3000,
-    maxReconnectAttempts = 5,
-    onConnect,
-    onDisconnect,
-    onError,
-    onMessage
-  } = options;
+    case 'event.seats_updated':
+      dispatch(updateEventSeats(message.payload));
+      break;
 
-  const dispatch = useDispatch<AppDispatch>();
-  const websocketRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const isConnectedRef = useRef(false);
+    case 'payout.status_changed':
+      dispatch(updatePayoutStatus(message.payload));
+      break;
+  }
+};
 
-  const connect = useCallback(() => {
-    if (!enabled || websocketRef.current?.readyState === WebSocket.OPEN) {
-      return;
-    }
+/**
+ * Keeps the real-time connection open while enabled and feeds incoming messages into the store.
+ * Mount once (in the layout); use useRealTimeSubscription for additional listeners.
+ * When the status is 'polling' (or anything but 'open'), callers should fall back to useRealTimeData
+ * or useRealTimeFallback.
+ */
+export const useRealTimeUpdates = (options: UseRealTimeUpdatesOptions = {}) => {
+  const { enabled = true, onMessage } = options;
 
-    try {
-      // In a real implementation, this would connect to your WebSocket server
-      // For now, we'll simulate WebSocket connection
-      const wsUrl = import.meta.env.VITE_WS_URL || 'wss://gema-project.onrender.com/ws';
-      const token = localStorage.getItem('authToken');
-      
-      websocketRef.current = new WebSocket(`${wsUrl}?token=${token}`);
-
-      websocketRef.current.onopen = () => {
-        console.log('WebSocket connected');
-        isConnectedRef.current = true;
-        reconnectAttemptsRef.current = 0;
-        onConnect?.();
-      };
-
-      websocketRef.current.onmessage = (event) => {
-        try {
-          const update: RealTimeUpdate = JSON.parse(event.data);
-          handleRealTimeUpdate(update);
-          onMessage?.(update);
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-
-      websocketRef.current.onclose = () => {
-        console.log('WebSocket disconnected');
-        isConnectedRef.current = false;
-        onDisconnect?.();
-        
-        // Attempt to reconnect if enabled and within retry limits
-        if (enabled && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current++;
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, reconnectInterval);
-        }
-      };
-
-      websocketRef.current.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        onError?.(error);
-      };
-
-    } catch (error) {
-      console.error('Error creating WebSocket connection:', error);
-    }
-  }, [enabled, maxReconnectAttempts, reconnectInterval, onConnect, onDisconnect, onError, onMessage]);
+  const dispatch = useDispatch<AppDispatch>();
+  const [status, setStatus] = useState<RealTimeStatus>(realTimeService.getStatus());
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
 
-  const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-    }
-    
-    if (websocketRef.current) {
-      websocketRef.current.close();
-      websocketRef.current = null;
-    }
-    
-    isConnectedRef.current = false;
-  }, []);
+  useEffect(() => {
+    return realTimeService.onStatusChange((nextStatus) => {
+      setStatus(nextStatus);
+      dispatch(setRealTimeConnection(nextStatus === 'open'));
 
-  const handleRealTimeUpdate = useCallback((update: RealTimeUpdate) => {
-    switch (update.type) {
-      case 'notification':
-        // Dispatch notification update to Redux store
-        if (update.action === 'create') {
-          // dispatch(addNotification(update.data));
-          // Show browser notification if permission granted
-          if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification(update.data.title, {
-              body: update.data.message,
-              icon: '/favicon.ico',
-              badge: '/favicon.ico'
-            });
-          }
-        }
-        break;
-
-      case 'booking':
-        // Handle booking updates
-        if (update.action === 'create') {
-          // dispatch(addBooking(update.data));
-        } else if (update.action === 'update') {
-          // dispatch(updateBooking(update.data));
-        }
-        break;
-
-      case 'payment':
-        // Handle payment updates
-        if (update.action === 'update') {
-          // dispatch(updatePaymentStatus(update.data));
-        }
-        break;
-
-      case 'event_update':
-        // Handle event updates (seat availability, schedule changes, etc.)
-        if (update.action === 'update') {
-          // dispatch(updateEvent(update.data));
-        }
-        break;
-
-      case 'user_activity':
-        // Handle user activity updates
-        break;
-
-      default:
-        console.log('Unhandled real-time update type:', update.type);
-    }
+      // Catch up on anything missed while disconnected
+      if (nextStatus === 'open') {
+        dispatch(fetchUnreadCount());
+      }
+    });
   }, [dispatch]);
 
-  const sendMessage = useCallback((message: any) => {
-    if (websocketRef.current?.readyState === WebSocket.OPEN) {
-      websocketRef.current.send(JSON.stringify(message));
-    } else {
-      console.warn('WebSocket not connected, message not sent:', message);
-    }
-  }, []);
-
-  // Initialize connection on mount
   useEffect(() => {
-    if (enabled) {
-      connect();
+    if (!enabled) {
+      return;
     }
 
+    const unsubscribe = realTimeService.subscribe((message) => {
+      dispatchRealTimeMessage(dispatch, message);
+      onMessageRef.current?.(message);
+    });
+    realTimeService.connect();
+
     return () => {
-      disconnect();
+      unsubscribe();
+      realTimeService.disconnect();
     };
-  }, [enabled, connect, disconnect]);
+  }, [enabled, dispatch]);
 
   // Request notification permission
   useEffect(() => {
-    if ('Notification' in window && Notification.permission === 'default') {
-      Notification.requestPermission().then(permission => {
-        console.log('Notification permission:', permission);
-      });
+    if (enabled && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
     }
+  }, [enabled]);
+
+  const reconnect = useCallback(() => {
+    realTimeService.disconnect();
+    realTimeService.connect();
   }, []);
 
   return {
-    isConnected: isConnectedRef.current,
-    connect,
-    disconnect,
-    sendMessage,
-    reconnectAttempts: reconnectAttemptsRef.current
+    status,
+    isConnected: status === 'open',
+    isPolling: status === 'polling',
+    reconnect,
+    sendMessage: realTimeService.send.bind(realTimeService)
   };
 };
 
-// Hook for subscribing to specific real-time events
-export const useRealTimeSubscription = (
-  eventTypes: string[],
-  callback: (update: RealTimeUpdate) => void,
+/**
+ * Listen for specific message types on the shared connection without opening a new one
+ */
+export const useRealTimeSubscription = <T extends RealTimeMessageType>(
+  types: T[],
+  callback: (message: Extract<RealTimeMessage, { type: T }>) => void,
   enabled: boolean = true
 ) => {
-  const handleMessage = useCallback((update: RealTimeUpdate) => {
-    if (eventTypes.includes(update.type)) {
-      callback(update);
-    }
-  }, [eventTypes, callback]);
-
-  return useRealTimeUpdates({
-    enabled,
-    onMessage: handleMessage
-  });
-};
-
-// Hook for real-time notifications
-export const useRealTimeNotifications = () => {
-  const dispatch = useDispatch<AppDispatch>();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const typesKey = types.join(',');
 
-  const handleNotificationUpdate = useCallback((update: RealTimeUpdate) => {
-    if (update.type === 'notification') {
-      // Handle notification-specific updates
-      console.log('Real-time notification:', update);
-      
-      // Show toast notification
-      // toast.info(update.data.message);
+  useEffect(() => {
+    if (!enabled) {
+      return;
     }
-  }, [dispatch]);
 
-  return useRealTimeSubscription(['notification'], handleNotificationUpdate);
+    const wanted = typesKey.split(',');
+    return realTimeService.subscribe((message) => {
+      if (wanted.includes(message.type)) {
+        callbackRef.current(message as Extract<RealTimeMessage, { type: T }>);
+      }
+    });
+  }, [typesKey, enabled]);
 };
 
-// Hook for real-time booking updates
-export const useRealTimeBookings = () => {
-  const dispatch = useDispatch<AppDispatch>();
+/**
+ * Polling fallback for data a page keeps live over the channel: calls refresh on an interval
+ * while the channel isn't open and the tab is visible
+ */
+export const useRealTimeFallback = (
+  refresh: () => void,
+  interval: number = 30000,
+  enabled: boolean = true
+) => {
+  const isConnected = useSelector(selectRealTimeConnection);
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
 
-  const handleBookingUpdate = useCallback((update: RealTimeUpdate) => {
-    if (update.type === 'booking') {
-      console.log('Real-time booking update:', update);
-      
-      // Update booking state in Redux
-      switch (update.action) {
-        case 'create':
-          // dispatch(addBooking(update.data));
-          break;
-        case 'update':
-          // dispatch(updateBooking(update.data));
-          break;
-        case 'delete':
-          // dispatch(removeBooking(update.data.id));
-          break;
-      }
+  useEffect(() => {
+    if (!enabled || isConnected) {
+      return;
     }
-  }, [dispatch]);
 
-  return useRealTimeSubscription(['booking'], handleBookingUpdate);
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        refreshRef.current();
+      }
+    }, interval);
+    return () => clearInterval(timer);
+  }, [enabled, isConnected, interval]);
 };
 
-export default useRealTimeUpdates;
\ No newline at end of file
+export default useRealTimeUpdates;
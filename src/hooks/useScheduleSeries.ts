@@ -0,0 +1,58 @@
+import { Dispatch, SetStateAction, useCallback, useState } from 'react';
+import type { ScheduleRecurrenceRule } from '@/types/event';
+import { applyRecurrenceRule, excludeOccurrence, removeSeriesRows, SeriesScheduleRow } from '@utils/recurrenceUtils';
+
+/**
+ * Series state for the event create/edit pages. The pages own the schedule rows; this keeps the
+ * recurrence rules next to them and regenerates a series' rows whenever its rule is saved.
+ */
+export const useScheduleSeries = <T extends SeriesScheduleRow>(setSchedules: Dispatch<SetStateAction<T[]>>) => {
+  const [recurrenceRules, setRecurrenceRules] = useState<ScheduleRecurrenceRule[]>([]);
+
+  const applySeries = useCallback(
+    (rule: ScheduleRecurrenceRule) => {
+      setRecurrenceRules((prev) =>
+        prev.some(({ id }) => id === rule.id) ? prev.map((r) => (r.id === rule.id ? rule : r)) : [...prev, rule]
+      );
+      setSchedules((prev) => applyRecurrenceRule(prev, rule));
+    },
+    [setSchedules]
+  );
+
+  const removeSeries = useCallback(
+    (seriesId: string) => {
+      setRecurrenceRules((prev) => prev.filter(({ id }) => id !== seriesId));
+      setSchedules((prev) => removeSeriesRows(prev, seriesId));
+    },
+    [setSchedules]
+  );
+
+  // Delete one generated date, recording it on the rule so it doesn't come back on the next edit
+  const removeOccurrence = useCallback(
+    (row: T) => {
+      if (!row.seriesId) return;
+      setRecurrenceRules((prev) => prev.map((r) => (r.id === row.seriesId ? excludeOccurrence(r, row.startDate) : r)));
+      setSchedules((prev) => prev.filter(({ id }) => id !== row.id));
+    },
+    [setSchedules]
+  );
+
+  // Turn an exception back into a regular date of its series
+  const resetOccurrence = useCallback(
+    (row: T) => {
+      const rule = recurrenceRules.find(({ id }) => id === row.seriesId);
+      if (!rule) return;
+      setSchedules((prev) =>
+        applyRecurrenceRule(
+          prev.map((r) => (r.id === row.id ? { ...r, isOverride: false } : r)),
+          rule
+        )
+      );
+    },
+    [recurrenceRules, setSchedules]
+  );
+
+  return { recurrenceRules, setRecurrenceRules, applySeries, removeSeries, removeOccurrence, resetOccurrence };
+};
+
+export default useScheduleSeries;
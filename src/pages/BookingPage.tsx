@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, Suspense } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
+import { useTranslation } from 'react-i18next';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 import { ChevronLeft, ChevronRight, CheckCircle, Clock, CreditCard, Users, AlertCircle } from 'lucide-react';
@@ -10,6 +11,8 @@ import {
   setBookingEvent,
   setBookingSchedule,
   setBookingStep,
+  setBookingWaitlistClaim,
+  setBookingTicketSelection,
   resetBookingFlow,
   selectBookingFlow,
   selectBookingStep,
@@ -23,10 +26,14 @@ import {
 import eventsAPI from '../services/api/eventsAPI';
 import bookingAPI from '../services/api/bookingAPI';
 import { Event } from '../types/event';
+import type { WaitlistBookingClaim } from '../types/waitlist';
 import { useErrorHandler } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { ComponentErrorBoundary } from '../components/common/ErrorBoundary';
-import { calculatePricingWithDiscount } from '../utils/couponUtils';
+import { calculatePricing as calculatePricingBreakdown } from '../utils/pricingUtils';
+import { buildTicketLines, TicketSelection, toPricingLines } from '../utils/ticketTypeUtils';
+import { usePricingConfig } from '../hooks/usePricingConfig';
+import PriceBreakdown from '../components/checkout/PriceBreakdown';
 import { getCurrentPageUrl } from '../utils/urlHelper';
 import SEO from '../components/common/SEO';
 
@@ -38,52 +45,68 @@ import BookingDetails from '../components/booking/BookingDetails';
 import ParticipantForm from '../components/booking/ParticipantForm';
 import PaymentForm from '../components/booking/PaymentForm';
 import BookingConfirmation from '../components/booking/BookingConfirmation';
+import TicketBreakdown from '../components/booking/TicketBreakdown';
 
 // Fallback components in case of import errors
-const BookingStepsFallback = () => <div className="text-center p-4">Loading booking steps...</div>;
-const BookingDetailsFallback = ({ onNext }: any) => (
-  <Card>
-    <CardContent className="p-8 text-center">
-      <h3 className="text-lg font-semibold mb-4">Booking Details</h3>
-      <p className="text-gray-600 mb-6">Event booking details will appear here.</p>
-      <Button onClick={onNext}>Continue</Button>
-    </CardContent>
-  </Card>
-);
-const ParticipantFormFallback = ({ onNext, onPrev }: any) => (
-  <Card>
-    <CardContent className="p-8 text-center">
-      <h3 className="text-lg font-semibold mb-4">Participant Information</h3>
-      <p className="text-gray-600 mb-6">Participant form will appear here.</p>
-      <div className="flex justify-between">
-        <Button variant="outline" onClick={onPrev}>Back</Button>
-        <Button onClick={onNext}>Continue</Button>
-      </div>
-    </CardContent>
-  </Card>
-);
-const PaymentFormFallback = ({ onNext, onPrev }: any) => (
-  <Card>
-    <CardContent className="p-8 text-center">
-      <h3 className="text-lg font-semibold mb-4">Payment</h3>
-      <p className="text-gray-600 mb-6">Payment form will appear here.</p>
-      <div className="flex justify-between">
-        <Button variant="outline" onClick={onPrev}>Back</Button>
-        <Button onClick={onNext}>Complete Booking</Button>
-      </div>
-    </CardContent>
-  </Card>
-);
-const BookingConfirmationFallback = ({ onComplete }: any) => (
-  <Card>
-    <CardContent className="p-8 text-center">
-      <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
-      <h3 className="text-lg font-semibold mb-4">Booking Confirmed!</h3>
-      <p className="text-gray-600 mb-6">Your booking has been confirmed.</p>
-      <Button onClick={onComplete}>View Bookings</Button>
-    </CardContent>
-  </Card>
-);
+const BookingStepsFallback = () => {
+  const { t } = useTranslation('bookings');
+  return <div className="text-center p-4">{t('bookingPage.fallback.loadingSteps')}</div>;
+};
+const BookingDetailsFallback = ({ onNext }: any) => {
+  const { t } = useTranslation('bookings');
+  return (
+    <Card>
+      <CardContent className="p-8 text-center">
+        <h3 className="text-lg font-semibold mb-4">{t('bookingPage.fallback.detailsTitle')}</h3>
+        <p className="text-gray-600 mb-6">{t('bookingPage.fallback.detailsBody')}</p>
+        <Button onClick={onNext}>{t('bookingPage.continue')}</Button>
+      </CardContent>
+    </Card>
+  );
+};
+const ParticipantFormFallback = ({ onNext, onPrev }: any) => {
+  const { t } = useTranslation('bookings');
+  return (
+    <Card>
+      <CardContent className="p-8 text-center">
+        <h3 className="text-lg font-semibold mb-4">{t('bookingPage.fallback.participantsTitle')}</h3>
+        <p className="text-gray-600 mb-6">{t('bookingPage.fallback.participantsBody')}</p>
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={onPrev}>{t('bookingPage.back')}</Button>
+          <Button onClick={onNext}>{t('bookingPage.continue')}</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+const PaymentFormFallback = ({ onNext, onPrev }: any) => {
+  const { t } = useTranslation('bookings');
+  return (
+    <Card>
+      <CardContent className="p-8 text-center">
+        <h3 className="text-lg font-semibold mb-4">{t('bookingPage.fallback.paymentTitle')}</h3>
+        <p className="text-gray-600 mb-6">{t('bookingPage.fallback.paymentBody')}</p>
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={onPrev}>{t('bookingPage.back')}</Button>
+          <Button onClick={onNext}>{t('bookingPage.fallback.completeBooking')}</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+const BookingConfirmationFallback = ({ onComplete }: any) => {
+  const { t } = useTranslation('bookings');
+  return (
+    <Card>
+      <CardContent className="p-8 text-center">
+        <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-4">{t('bookingPage.fallback.confirmedTitle')}</h3>
+        <p className="text-gray-600 mb-6">{t('bookingPage.fallback.confirmedBody')}</p>
+        <Button onClick={onComplete}>{t('bookingPage.fallback.viewBookings')}</Button>
+      </CardContent>
+    </Card>
+  );
+};
 
 // Stripe payment is handled by StripePaymentElement component
 // No need for direct Stripe hooks in BookingPage
@@ -112,6 +135,7 @@ const BookingPage: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useDispatch<AppDispatch>();
   const { handleError } = useErrorHandler();
+  const { t } = useTranslation('bookings');
 
   // Redux state with error handling
   const [reduxError, setReduxError] = useState<string | null>(null);
@@ -151,7 +175,7 @@ const BookingPage: React.FC = () => {
         bookingFlowType: typeof bookingFlow,
         stack: err instanceof Error ? err.stack : undefined
       });
-      setReduxError('Failed to access booking state. Please refresh the page.');
+      setReduxError(t('bookingPage.stateError'));
     }
   }, [bookingFlow, currentStep, isCreating, createError, checkout, actualEventId]);
 
@@ -160,6 +184,9 @@ const BookingPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // System rates plus the event vendor's fee override
+  const pricingConfig = usePricingConfig([event?.vendorId?._id]);
+
   // Loading timeout protection - moved outside conditional block to fix hooks violation
   useEffect(() => {
     if (!loading) return; // Early return inside effect, not around hook
@@ -173,7 +200,7 @@ const BookingPage: React.FC = () => {
         });
         setLoading(false);
         if (!event && !error) {
-          setError('Loading timeout - please try again');
+          setError(t('bookingPage.loadingTimeout'));
         }
       }
     }, 15000); // 15 second timeout
@@ -194,6 +221,8 @@ const BookingPage: React.FC = () => {
     scheduleId?: string;
     totalPrice?: string;
     currency?: string;
+    waitlistClaim?: WaitlistBookingClaim; // Set when arriving from a waitlist claim link
+    ticketSelection?: TicketSelection; // Quantities per ticket type chosen on the event page
   } | null;
 
   useEffect(() => {
@@ -227,7 +256,7 @@ const BookingPage: React.FC = () => {
       if (!actualEventId) {
         logger.error('Missing event ID on booking page', { sessionId, url: getCurrentPageUrl() });
         navigate('/events');
-        toast.error('Event ID is required for booking');
+        toast.error(t('bookingPage.eventIdRequired'));
         return;
       }
 
@@ -238,7 +267,7 @@ const BookingPage: React.FC = () => {
           format: 'Expected 24-character hexadecimal MongoDB ObjectId'
         });
         navigate('/events');
-        toast.error('Invalid event ID format. Please select a valid event.');
+        toast.error(t('bookingPage.eventIdInvalid'));
         return;
       }
 
@@ -248,7 +277,7 @@ const BookingPage: React.FC = () => {
           actualEventId,
           hasReduxError: !!reduxError
         });
-        toast.error('Booking system is not ready. Please try again.');
+        toast.error(t('bookingPage.notReady'));
         return;
       }
 
@@ -269,6 +298,14 @@ const BookingPage: React.FC = () => {
           dispatch(setBookingSchedule(routeState.scheduleId));
         }
 
+        if (routeState?.waitlistClaim) {
+          dispatch(setBookingWaitlistClaim(routeState.waitlistClaim));
+        }
+
+        if (routeState?.ticketSelection) {
+          dispatch(setBookingTicketSelection(routeState.ticketSelection));
+        }
+
         // If we have event data from route state, use it
         if (routeState?.event && routeState.event._id === actualEventId) {
           logger.info('Using event data from route state', {
@@ -306,7 +343,7 @@ const BookingPage: React.FC = () => {
           eventId: actualEventId 
         });
         setError(apiError.message);
-        toast.error('Failed to load event details');
+        toast.error(t('bookingPage.loadFailed'));
       } finally {
         setLoading(false);
       }
@@ -369,7 +406,7 @@ const BookingPage: React.FC = () => {
         actualEventId,
         participantCount: bookingFlow.participants.length
       });
-      toast.error('Event information is missing. Please refresh and try again.');
+      toast.error(t('bookingPage.eventMissing'));
       return;
     }
 
@@ -388,7 +425,7 @@ const BookingPage: React.FC = () => {
         hasBookingFlowScheduleId: !!bookingFlow.scheduleId,
         actualEventId
       });
-      toast.error('Booking information is incomplete. Please go back to the event page and select a date/time.');
+      toast.error(t('bookingPage.incomplete'));
       navigate(`/events/${actualEventId}`);
       return;
     }
@@ -399,7 +436,7 @@ const BookingPage: React.FC = () => {
         eventId: actualEventId,
         participantCount: bookingFlow.participants?.length || 0
       });
-      toast.error('Please add at least one participant to continue.');
+      toast.error(t('bookingPage.participantRequired'));
       dispatch(setBookingStep('participants'));
       return;
     }
@@ -427,7 +464,7 @@ const BookingPage: React.FC = () => {
           orderId: checkout.orderId
         });
 
-        toast.loading('Finalizing your booking...');
+        toast.loading(t('bookingPage.finalizing'));
 
         // Confirm the booking with the backend using the existing payment intent
         if (!checkout.orderId) {
@@ -435,7 +472,7 @@ const BookingPage: React.FC = () => {
             paymentIntentId: checkout.paymentIntent,
             checkoutState: checkout
           });
-          throw new Error('Booking session expired. Please try again.');
+          throw new Error(t('bookingPage.sessionExpired'));
         }
 
         const confirmResponse = await bookingAPI.confirmBooking({
@@ -452,7 +489,7 @@ const BookingPage: React.FC = () => {
             hasBookingId: !!confirmResponse?.bookingId,
             paymentIntentId: checkout.paymentIntent
           });
-          throw new Error('Booking confirmation failed. Please contact support if payment was charged.');
+          throw new Error(t('bookingPage.confirmationFailed'));
         }
 
         logger.info('Booking confirmed successfully', confirmResponse);
@@ -473,18 +510,19 @@ const BookingPage: React.FC = () => {
 
       // Test payment flow: Initiate and confirm booking directly
       logger.info('Processing test payment booking', bookingSession);
-      toast.loading('Processing your booking...');
+      toast.loading(t('bookingPage.processing'));
 
       // Initiate booking with test payment
       const initiateResponse = await bookingAPI.initiateBooking({
         eventId: actualEventId,
         dateScheduleId: scheduleId,
         seats: bookingFlow.participants.length || 1,
-        paymentMethod: 'test' // Backend will handle test payment
+        paymentMethod: 'test', // Backend will handle test payment
+        waitlistClaimToken: bookingFlow.waitlistClaim?.token
       });
 
       if (!initiateResponse) {
-        throw new Error('Failed to initiate booking. Please try again.');
+        throw new Error(t('bookingPage.initiateFailed'));
       }
 
       if (!initiateResponse?.paymentIntentId || !initiateResponse?.orderId) {
@@ -493,7 +531,7 @@ const BookingPage: React.FC = () => {
           hasPaymentIntentId: !!initiateResponse?.paymentIntentId,
           hasOrderId: !!initiateResponse?.orderId
         });
-        throw new Error('Invalid booking initiation response. Please try again.');
+        throw new Error(t('bookingPage.initiateInvalid'));
       }
 
       logger.info('Booking initiated successfully', {
@@ -521,15 +559,15 @@ const BookingPage: React.FC = () => {
       });
 
       // Provide specific error messages based on error type
-      let errorMessage = 'Failed to complete booking. Please try again.';
+      let errorMessage = t('bookingPage.completeFailed');
 
       if (err instanceof Error) {
         if (err.message.includes('authentication')) {
-          errorMessage = 'Please log in to complete your booking.';
+          errorMessage = t('bookingPage.loginRequired');
         } else if (err.message.includes('seats') || err.message.includes('availability')) {
-          errorMessage = 'Selected seats are no longer available. Please try again.';
+          errorMessage = t('bookingPage.seatsUnavailable');
         } else if (err.message.includes('payment')) {
-          errorMessage = 'Payment processing failed. Please check your payment method.';
+          errorMessage = t('bookingPage.paymentFailed');
         }
       }
 
@@ -539,7 +577,7 @@ const BookingPage: React.FC = () => {
     
   // Helper function to handle booking confirmation after successful payment
   const handleBookingConfirmation = async (initiateResponse: any) => {
-    toast.loading('Finalizing your booking...');
+    toast.loading(t('bookingPage.finalizing'));
     
     try {
       const confirmResponse = await bookingAPI.confirmBooking({
@@ -556,7 +594,7 @@ const BookingPage: React.FC = () => {
           hasBookingId: !!confirmResponse?.bookingId,
           paymentIntentId: initiateResponse.paymentIntentId
         });
-        throw new Error('Booking confirmation failed. Please contact support if payment was charged.');
+        throw new Error(t('bookingPage.confirmationFailed'));
       }
 
       logger.info('Booking confirmed successfully', confirmResponse);
@@ -575,7 +613,7 @@ const BookingPage: React.FC = () => {
       return confirmResponse;
     } catch (error: any) {
       logger.error('Error confirming booking after successful payment', error);
-      toast.error(error?.message || 'Error finalizing booking. Please contact support.');
+      toast.error(error?.message || t('bookingPage.finalizeFailed'));
       throw error; // Re-throw to be caught by the parent try/catch
     }
   };
@@ -603,32 +641,28 @@ const BookingPage: React.FC = () => {
 
   // Calculate pricing with discounts
   const calculatePricing = () => {
-    if (!event) return { subtotal: 0, discount: 0, total: 0, discountPercentage: 0, serviceFee: 0, tax: 0, hasServiceFee: true };
-
     const participantCount = bookingFlow.participants.length || 1;
-    const pricePerTicket = routeState?.schedule?.price || event.price;
-    const subtotal = pricePerTicket * participantCount;
-
-    // For now, assume service fee applies (5%) - this could be made dynamic based on vendor
-    // In a real implementation, you'd fetch this from the vendor's payment settings
-    const hasServiceFee = true; // TODO: Get from vendor payment settings
-    const serviceFeeRate = 5; // TODO: Get from vendor payment settings
-
-    // Use centralized coupon utility for consistent calculation
-    const pricing = calculatePricingWithDiscount(subtotal, bookingFlow.couponCode, serviceFeeRate, hasServiceFee);
+    const pricePerTicket = routeState?.schedule?.price || event?.price || 0;
+    // Events sold as ticket types are priced per type rather than per seat
+    const ticketLines = buildTicketLines(event?.ticketTypes || [], bookingFlow.ticketSelection || {}, routeState?.schedule);
+
+    // Shared pricing engine: system fee/VAT settings, vendor override and the validated coupon
+    const pricing = calculatePricingBreakdown(
+      !event
+        ? []
+        : ticketLines.length > 0
+          ? toPricingLines(ticketLines, event._id, event.vendorId?._id)
+          : [{ id: event._id, vendorId: event.vendorId?._id, unitPrice: pricePerTicket, quantity: participantCount }],
+      pricingConfig,
+      bookingFlow.couponDiscount,
+      event?.currency
+    );
 
     return {
-      subtotal: pricing.subtotal,
-      discount: pricing.discount,
-      serviceFee: pricing.serviceFee,
-      tax: pricing.tax,
-      total: pricing.total,
+      ...pricing,
       pricePerTicket,
       participantCount,
-      discountPercentage: pricing.discountPercentage,
-      isValidCoupon: pricing.isValidCoupon,
-      couponError: pricing.couponError,
-      hasServiceFee: pricing.hasServiceFee
+      ticketLines
     };
   };
 
@@ -722,7 +756,7 @@ const BookingPage: React.FC = () => {
         default:
           return (
             <div className="text-center p-8">
-              <p className="text-gray-600">Invalid booking step</p>
+              <p className="text-gray-600">{t('bookingPage.invalidStep')}</p>
             </div>
           );
       }
@@ -737,14 +771,14 @@ const BookingPage: React.FC = () => {
         <Card>
           <CardContent className="p-8 text-center">
             <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-4">Component Error</h3>
-            <p className="text-gray-600 mb-6">Unable to load this booking step.</p>
+            <h3 className="text-lg font-semibold mb-4">{t('bookingPage.componentError')}</h3>
+            <p className="text-gray-600 mb-6">{t('bookingPage.componentErrorHelp')}</p>
             <div className="flex justify-center space-x-4">
               <Button variant="outline" onClick={() => window.location.reload()}>
-                Refresh Page
+                {t('bookingPage.refreshPage')}
               </Button>
               <Button variant="primary" onClick={() => navigate('/events')}>
-                Browse Events
+                {t('bookingPage.browseEvents')}
               </Button>
             </div>
           </CardContent>
@@ -767,7 +801,7 @@ const BookingPage: React.FC = () => {
             <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <AlertCircle className="w-8 h-8 text-red-600" />
             </div>
-            <CardTitle className="text-red-800">System Error</CardTitle>
+            <CardTitle className="text-red-800">{t('bookingPage.systemError')}</CardTitle>
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <p className="text-gray-600">{reduxError}</p>
@@ -777,14 +811,14 @@ const BookingPage: React.FC = () => {
                 onClick={() => window.location.reload()}
                 fullWidth
               >
-                Refresh Page
+                {t('bookingPage.refreshPage')}
               </Button>
               <Button
                 variant="primary"
                 onClick={() => navigate('/events')}
                 fullWidth
               >
-                Browse Events
+                {t('bookingPage.browseEvents')}
               </Button>
             </div>
           </CardContent>
@@ -805,9 +839,9 @@ const BookingPage: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary mx-auto mb-4"></div>
-          <h2 className="text-xl font-semibold text-gray-700">Loading Event Details...</h2>
-          <p className="text-gray-500 mt-2">Please wait while we prepare your booking</p>
-          <p className="text-xs text-gray-400 mt-4">Event ID: {actualEventId}</p>
+          <h2 className="text-xl font-semibold text-gray-700">{t('bookingPage.loadingTitle')}</h2>
+          <p className="text-gray-500 mt-2">{t('bookingPage.loadingHelp')}</p>
+          <p className="text-xs text-gray-400 mt-4">{t('bookingPage.eventId', { id: actualEventId })}</p>
           <p className="text-xs text-gray-400 mt-1">Render #{renderCount.current}</p>
         </div>
       </div>
@@ -828,7 +862,7 @@ const BookingPage: React.FC = () => {
             <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <AlertCircle className="w-8 h-8 text-red-600" />
             </div>
-            <CardTitle className="text-red-800">Booking Error</CardTitle>
+            <CardTitle className="text-red-800">{t('bookingPage.bookingError')}</CardTitle>
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <p className="text-gray-600">{error}</p>
@@ -839,14 +873,14 @@ const BookingPage: React.FC = () => {
                 leftIcon={<ChevronLeft className="w-4 h-4" />}
                 fullWidth
               >
-                Go Back
+                {t('bookingPage.goBack')}
               </Button>
               <Button
                 variant="primary"
                 onClick={() => navigate('/events')}
                 fullWidth
               >
-                Browse Events
+                {t('bookingPage.browseEvents')}
               </Button>
             </div>
           </CardContent>
@@ -868,9 +902,9 @@ const BookingPage: React.FC = () => {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
         <Card className="max-w-md w-full text-center p-6">
-          <h2 className="text-xl font-bold text-gray-800 mb-4">Event Not Found</h2>
+          <h2 className="text-xl font-bold text-gray-800 mb-4">{t('bookingPage.notFound')}</h2>
           <p className="text-gray-600 mb-6">
-            {error || "The event you're trying to book doesn't exist or has been removed."}
+            {error || t('bookingPage.notFoundHelp')}
           </p>
           <div className="space-y-3">
             <Button
@@ -884,17 +918,17 @@ const BookingPage: React.FC = () => {
               }}
               fullWidth
             >
-              Retry
+              {t('bookingPage.retry')}
             </Button>
             <Button
               variant="primary"
               onClick={() => navigate('/events')}
               fullWidth
             >
-              Browse Events
+              {t('bookingPage.browseEvents')}
             </Button>
           </div>
-          <p className="text-xs text-gray-400 mt-4">Event ID: {actualEventId}</p>
+          <p className="text-xs text-gray-400 mt-4">{t('bookingPage.eventId', { id: actualEventId })}</p>
           <p className="text-xs text-gray-400">Render #{renderCount.current}</p>
         </Card>
       </div>
@@ -929,8 +963,8 @@ const BookingPage: React.FC = () => {
   return (
     <>
       <SEO
-        title={`Book ${event.title} | Gema Events`}
-        description={`Complete your booking for ${event.title}. Secure payment and instant confirmation.`}
+        title={t('bookingPage.seoTitle', { title: event.title })}
+        description={t('bookingPage.seoDescription', { title: event.title })}
         noIndex={true}
         noFollow={true}
       />
@@ -946,16 +980,16 @@ const BookingPage: React.FC = () => {
                   className="inline-flex items-center text-gray-600 hover:text-gray-900 mb-2"
                 >
                   <ChevronLeft className="w-4 h-4 mr-1" />
-                  Back to Event
+                  {t('bookingPage.backToEvent')}
                 </button>
-                <h1 className="text-2xl font-bold text-gray-900">Complete Your Booking</h1>
+                <h1 className="text-2xl font-bold text-gray-900">{t('bookingPage.title')}</h1>
                 <p className="text-gray-600">{event.title}</p>
                 <p className="text-xs text-gray-400">Render #{renderCount.current} | Step: {currentStep}</p>
               </div>
               <div className="hidden sm:block">
                 <div className="flex items-center text-sm text-gray-500">
                   <Clock className="w-4 h-4 mr-1" />
-                  Session expires in 15 minutes
+                  {t('bookingPage.sessionExpires', { minutes: 15 })}
                 </div>
               </div>
             </div>
@@ -993,7 +1027,7 @@ const BookingPage: React.FC = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center">
                     <Users className="w-5 h-5 mr-2" />
-                    Order Summary
+                    {t('bookingPage.orderSummary')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -1016,37 +1050,18 @@ const BookingPage: React.FC = () => {
                       return (
                         <>
                           <div className="flex justify-between text-sm">
-                            <span>Participants:</span>
+                            <span>{t('bookingPage.participants')}</span>
                             <span>{pricing.participantCount}</span>
                           </div>
-                          <div className="flex justify-between text-sm">
-                            <span>Price per ticket:</span>
-                            <span>{event.currency} {pricing.pricePerTicket}</span>
-                          </div>
-                          <div className="flex justify-between text-sm">
-                            <span>Subtotal:</span>
-                            <span>{event.currency} {pricing.subtotal.toFixed(2)}</span>
-                          </div>
-                          {bookingFlow.couponCode && pricing.discount > 0 && (
-                            <div className="flex justify-between text-sm text-green-600">
-                              <span>Discount ({bookingFlow.couponCode} - {pricing.discountPercentage}%):</span>
-                              <span>-{event.currency} {pricing.discount.toFixed(2)}</span>
-                            </div>
-                          )}
-                          {pricing.hasServiceFee && pricing.serviceFee > 0 && (
+                          {pricing.ticketLines.length > 0 ? (
+                            <TicketBreakdown lines={pricing.ticketLines} currency={event.currency} />
+                          ) : (
                             <div className="flex justify-between text-sm">
-                              <span>Service Fee (5%):</span>
-                              <span>{event.currency} {pricing.serviceFee.toFixed(2)}</span>
+                              <span>{t('bookingPage.pricePerTicket')}</span>
+                              <span>{event.currency} {pricing.pricePerTicket}</span>
                             </div>
                           )}
-                          <div className="flex justify-between text-sm">
-                            <span>Tax (5%):</span>
-                            <span>{event.currency} {pricing.tax.toFixed(2)}</span>
-                          </div>
-                          <div className="border-t pt-2 flex justify-between font-semibold">
-                            <span>Total:</span>
-                            <span>{event.currency} {pricing.total.toFixed(2)}</span>
-                          </div>
+                          <PriceBreakdown breakdown={pricing} className="pt-2" />
                         </>
                       );
                     })()}
@@ -1056,17 +1071,17 @@ const BookingPage: React.FC = () => {
                   <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                     <div className="flex items-center text-green-800">
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      <span className="text-sm font-medium">Secure Payment</span>
+                      <span className="text-sm font-medium">{t('bookingPage.securePayment')}</span>
                     </div>
                     <p className="text-xs text-green-600 mt-1">
-                      Your payment information is protected by 256-bit SSL encryption
+                      {t('bookingPage.securePaymentHelp')}
                     </p>
                   </div>
 
                   {/* Payment Methods */}
                   <div className="flex items-center justify-center space-x-2 pt-2">
                     <CreditCard className="w-5 h-5 text-gray-400" />
-                    <span className="text-xs text-gray-500">Visa, Mastercard, PayPal accepted</span>
+                    <span className="text-xs text-gray-500">{t('bookingPage.acceptedCards')}</span>
                   </div>
                 </CardContent>
               </Card>
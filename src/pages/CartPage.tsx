@@ -1,27 +1,45 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 import { useCart } from '@/contexts/CartContext';
 import { FaTrash, FaMinus, FaPlus, FaArrowLeft, FaShoppingCart } from 'react-icons/fa';
 import LoadingSpinner from '@components/common/LoadingSpinner';
 import SEO from '../components/common/SEO';
+import PriceBreakdown from '../components/checkout/PriceBreakdown';
+import HoldCountdown from '../components/checkout/HoldCountdown';
+import CouponEligibility from '../components/checkout/CouponEligibility';
+import PriceDisplay from '../components/common/PriceDisplay';
+import { CartItem, getCartCurrencies } from '../store/slices/cartSlice';
+import { canAddTicket, getTicketTypeId, toTicketSelection } from '../utils/ticketTypeUtils';
+import { formatDateForUAE } from '../utils/dateUtils';
 
 const CartPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation('cart');
   const {
     cartItems,
     cartCount,
     cartSummary,
     coupon,
+    couponEvaluation,
     removeItemFromCart,
     updateItemQuantity,
+    updateItemTicketQuantity,
     applyCouponCode,
     removeCouponCode,
-    isValidCoupon
+    holdSummary,
+    holdAllItems,
+    expireCartHolds
   } = useCart();
 
   const [couponCode, setCouponCode] = useState('');
   const [couponError, setCouponError] = useState('');
   const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const [isRecheckingHolds, setIsRecheckingHolds] = useState(false);
+
+  // Each currency settles as a separate payment, so a mixed cart can't be checked out at once
+  const cartCurrencies = getCartCurrencies(cartItems);
+  const hasMixedCurrencies = cartCurrencies.length > 1;
 
   const handleQuantityChange = (itemId: string, newQuantity: number) => {
     if (newQuantity > 0) {
@@ -31,30 +49,47 @@ const CartPage: React.FC = () => {
     }
   };
 
+  // Same caps as booking directly: tickets per booking, seats left on the date and each type's share
+  const canAddItemTicket = (item: CartItem, ticketTypeId: string): boolean => {
+    const ticketType = item.event.ticketTypes?.find((type) => getTicketTypeId(type) === ticketTypeId);
+    const schedule = item.event.dateSchedule?.find((entry) => entry._id === item.dateScheduleId);
+    if (!ticketType) return false;
+
+    return canAddTicket(ticketType, toTicketSelection(item.ticketLines || []), schedule);
+  };
+
   const handleRemoveItem = (itemId: string) => {
     removeItemFromCart(itemId);
   };
 
-  const handleApplyCoupon = () => {
+  const handleApplyCoupon = async () => {
     if (!couponCode.trim()) {
-      setCouponError('Please enter a coupon code');
+      setCouponError(t('couponRequired'));
       return;
     }
 
     setIsApplyingCoupon(true);
     setCouponError('');
 
-    // Simulate API call delay
-    setTimeout(() => {
-      const isValid = isValidCoupon(couponCode);
-      if (isValid) {
-        applyCouponCode(couponCode);
+    try {
+      const result = await applyCouponCode(couponCode);
+      if (result.applied) {
         setCouponCode('');
       } else {
-        setCouponError('Invalid or expired coupon code');
+        setCouponError(result.message || t('couponInvalid'));
       }
+    } finally {
       setIsApplyingCoupon(false);
-    }, 800);
+    }
+  };
+
+  const handleRecheckHolds = async () => {
+    setIsRecheckingHolds(true);
+    try {
+      await holdAllItems();
+    } finally {
+      setIsRecheckingHolds(false);
+    }
   };
 
   const handleRemoveCoupon = () => {
@@ -62,7 +97,17 @@ const CartPage: React.FC = () => {
   };
 
   const handleProceedToCheckout = () => {
-    navigate('/checkout');
+    if (hasMixedCurrencies) {
+      return;
+    }
+
+    navigate('/checkout', {
+      state: {
+        cartItems,
+        cartSummary,
+        coupon
+      }
+    });
   };
 
   if (cartCount === 0) {
@@ -70,21 +115,21 @@ const CartPage: React.FC = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
           <Link to="/events" className="flex items-center text-primary hover:text-primary-dark mb-6">
-            <FaArrowLeft className="mr-2" />
-            Continue Shopping
+            <FaArrowLeft className="me-2 rtl:rotate-180" />
+            {t('continueShopping')}
           </Link>
           
           <div className="bg-white rounded-lg shadow-md p-8 text-center">
             <div className="w-20 h-20 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
               <FaShoppingCart className="text-gray-400 text-3xl" />
             </div>
-            <h2 className="text-2xl font-bold mb-4">Your cart is empty</h2>
-            <p className="text-gray-600 mb-6">Looks like you haven't added any events to your cart yet.</p>
+            <h2 className="text-2xl font-bold mb-4">{t('emptyTitle')}</h2>
+            <p className="text-gray-600 mb-6">{t('emptyMessage')}</p>
             <Link 
               to="/events" 
               className="inline-block bg-primary text-white px-6 py-3 rounded-md hover:bg-primary-dark transition-colors"
             >
-              Browse Events
+              {t('browseEvents')}
             </Link>
           </div>
         </div>
@@ -95,19 +140,19 @@ const CartPage: React.FC = () => {
   return (
     <>
       <SEO
-        title="Shopping Cart | Gema Events"
-        description="Review your selected events and proceed to checkout."
+        title={t('seoTitle')}
+        description={t('seoDescription')}
         noIndex={true}
         noFollow={true}
       />
       <div className="container mx-auto px-4 py-8">
       <div className="max-w-6xl mx-auto">
         <Link to="/events" className="flex items-center text-primary hover:text-primary-dark mb-6">
-          <FaArrowLeft className="mr-2" />
-          Continue Shopping
+          <FaArrowLeft className="me-2 rtl:rotate-180" />
+          {t('continueShopping')}
         </Link>
         
-        <h1 className="text-3xl font-bold mb-8">Your Cart ({cartCount} {cartCount === 1 ? 'item' : 'items'})</h1>
+        <h1 className="text-3xl font-bold mb-8">{t('title', { count: cartCount })}</h1>
         
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cart Items */}
@@ -123,45 +168,87 @@ const CartPage: React.FC = () => {
                         className="w-full h-full object-cover rounded-md"
                       />
                     </div>
-                    <div className="flex-grow sm:ml-6">
+                    <div className="flex-grow sm:ms-6">
                       <div className="flex flex-col sm:flex-row sm:justify-between">
                         <div>
                           <h3 className="text-lg font-semibold mb-1">{item.title}</h3>
                           <div className="text-sm text-gray-600 mb-2">
-                            <div>{new Date(item.date).toLocaleDateString()} • {item.time}</div>
+                            <div>{formatDateForUAE(item.date, { includeTime: false })} • {item.time}</div>
                             <div>{item.location}</div>
-                            <div>Organizer: {item.organizer}</div>
+                            <div>{t('organizer', { name: item.organizer })}</div>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <div className="text-lg font-semibold">${item.price ? item.price.toFixed(2) : '0.00'}</div>
+                        <div className="text-end">
+                          <PriceDisplay
+                            amount={(item.ticketLines?.length ? item.totalPrice : item.unitPrice) || 0}
+                            currency={item.currency}
+                            size="lg"
+                          />
                         </div>
                       </div>
+
+                      {/* Events sold as ticket types get a quantity per type */}
+                      {item.ticketLines?.length ? (
+                        <div className="mt-4 space-y-2">
+                          {item.ticketLines.map((line) => (
+                            <div key={line.ticketTypeId} className="flex justify-between items-center text-sm">
+                              <div className="flex items-center text-gray-700">
+                                {line.name}
+                                {line.tierLabel && <span className="ms-1 text-xs text-green-700">({line.tierLabel})</span>}
+                                <PriceDisplay amount={line.unitPrice} currency={item.currency} size="sm" className="ms-2" />
+                              </div>
+                              <div className="flex items-center">
+                                <button
+                                  onClick={() => updateItemTicketQuantity(item.id, line.ticketTypeId, line.quantity - 1)}
+                                  className="w-7 h-7 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 transition-colors"
+                                >
+                                  <FaMinus className="text-gray-600 text-xs" />
+                                </button>
+                                <span className="mx-3 w-6 text-center">{line.quantity}</span>
+                                <button
+                                  onClick={() => updateItemTicketQuantity(item.id, line.ticketTypeId, line.quantity + 1)}
+                                  disabled={!canAddItemTicket(item, line.ticketTypeId)}
+                                  className="w-7 h-7 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 transition-colors disabled:cursor-not-allowed disabled:opacity-40"
+                                >
+                                  <FaPlus className="text-gray-600 text-xs" />
+                                </button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
                       
                       <div className="flex justify-between items-center mt-4">
-                        <div className="flex items-center">
-                          <button 
-                            onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
-                            className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 transition-colors"
-                          >
-                            <FaMinus className="text-gray-600 text-xs" />
-                          </button>
-                          <span className="mx-3 w-8 text-center">{item.quantity}</span>
-                          <button 
-                            onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                            className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 transition-colors"
-                          >
-                            <FaPlus className="text-gray-600 text-xs" />
-                          </button>
-                        </div>
+                        {item.ticketLines?.length ? (
+                          <span className="text-sm text-gray-500">{t('ticketCount', { count: item.quantity })}</span>
+                        ) : (
+                          <div className="flex items-center">
+                            <button 
+                              onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                              className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 transition-colors"
+                            >
+                              <FaMinus className="text-gray-600 text-xs" />
+                            </button>
+                            <span className="mx-3 w-8 text-center">{item.quantity}</span>
+                            <button 
+                              onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                              className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 transition-colors"
+                            >
+                              <FaPlus className="text-gray-600 text-xs" />
+                            </button>
+                          </div>
+                        )}
                         <button 
                           onClick={() => handleRemoveItem(item.id)}
                           className="text-red-500 hover:text-red-700 transition-colors flex items-center"
                         >
-                          <FaTrash className="mr-1" />
-                          Remove
+                          <FaTrash className="me-1" />
+                          {t('remove')}
                         </button>
                       </div>
+                      {item.holdError && (
+                        <p className="mt-2 text-sm text-red-600">{item.holdError}</p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -172,49 +259,36 @@ const CartPage: React.FC = () => {
           {/* Order Summary */}
           <div>
             <div className="bg-white rounded-lg shadow-md p-6 sticky top-6">
-              <h2 className="text-xl font-bold mb-6">Order Summary</h2>
+              <h2 className="text-xl font-bold mb-6">{t('orderSummary')}</h2>
+
+              <HoldCountdown
+                summary={holdSummary}
+                onExpire={expireCartHolds}
+                onRecheck={handleRecheckHolds}
+                isRechecking={isRecheckingHolds}
+                className="mb-6"
+              />
               
-              <div className="space-y-4 mb-6">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Subtotal</span>
-                  <span>${cartSummary.subtotal ? cartSummary.subtotal.toFixed(2) : '0.00'}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Service Fee</span>
-                  <span>${cartSummary.serviceFee ? cartSummary.serviceFee.toFixed(2) : '0.00'}</span>
+              {hasMixedCurrencies ? (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+                  <p className="font-medium mb-1">{t('mixedCurrencies', { currencies: cartCurrencies.join(', ') })}</p>
+                  <p>{t('mixedCurrenciesHelp')}</p>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Tax</span>
-                  <span>${cartSummary.tax ? cartSummary.tax.toFixed(2) : '0.00'}</span>
-                </div>
-                
-                {coupon && (
-                  <div className="flex justify-between text-green-600">
-                    <span className="flex items-center">
-                      Discount ({coupon.code})
-                      <button 
-                        onClick={handleRemoveCoupon}
-                        className="ml-2 text-xs text-red-500 hover:text-red-700"
-                      >
-                        Remove
-                      </button>
-                    </span>
-                    <span>-${cartSummary.discount ? cartSummary.discount.toFixed(2) : '0.00'}</span>
-                  </div>
-                )}
-                
-                <div className="border-t border-gray-200 pt-4 mt-4">
-                  <div className="flex justify-between font-bold text-lg">
-                    <span>Total</span>
-                    <span>${cartSummary.total ? cartSummary.total.toFixed(2) : '0.00'}</span>
-                  </div>
-                </div>
-              </div>
+              ) : (
+                <>
+                  <PriceBreakdown
+                    breakdown={cartSummary}
+                    onRemoveDiscount={coupon ? handleRemoveCoupon : undefined}
+                    className="mb-6"
+                  />
+                  <CouponEligibility evaluation={couponEvaluation} currency={cartCurrencies[0]} className="mb-6" />
+                </>
+              )}
               
               {!coupon && (
                 <div className="mb-6">
                   <label htmlFor="coupon" className="block text-sm font-medium text-gray-700 mb-2">
-                    Apply Coupon Code
+                    {t('applyCoupon')}
                   </label>
                   <div className="flex">
                     <input
@@ -222,15 +296,15 @@ const CartPage: React.FC = () => {
                       id="coupon"
                       value={couponCode}
                       onChange={(e) => setCouponCode(e.target.value)}
-                      placeholder="Enter coupon code"
-                      className="flex-grow px-4 py-2 border rounded-l-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+                      placeholder={t('couponPlaceholder')}
+                      className="flex-grow px-4 py-2 border rounded-s-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
                     />
                     <button
                       onClick={handleApplyCoupon}
                       disabled={isApplyingCoupon}
-                      className="bg-primary text-white px-4 py-2 rounded-r-md hover:bg-primary-dark transition-colors disabled:bg-gray-400"
+                      className="bg-primary text-white px-4 py-2 rounded-e-md hover:bg-primary-dark transition-colors disabled:bg-gray-400"
                     >
-                      {isApplyingCoupon ? <LoadingSpinner size="small" /> : 'Apply'}
+                      {isApplyingCoupon ? <LoadingSpinner size="small" /> : t('apply')}
                     </button>
                   </div>
                   {couponError && <p className="text-red-500 text-sm mt-1">{couponError}</p>}
@@ -239,14 +313,15 @@ const CartPage: React.FC = () => {
               
               <button
                 onClick={handleProceedToCheckout}
-                className="w-full bg-primary text-white py-3 rounded-md hover:bg-primary-dark transition-colors font-medium"
+                disabled={hasMixedCurrencies}
+                className="w-full bg-primary text-white py-3 rounded-md hover:bg-primary-dark transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
               >
-                Proceed to Checkout
+                {t('proceedToCheckout')}
               </button>
               
               <div className="mt-6 text-center text-sm text-gray-500">
-                <p>Secure checkout powered by Stripe</p>
-                <p className="mt-2">Need help? <a href="#" className="text-primary hover:underline">Contact support</a></p>
+                <p>{t('secureCheckout')}</p>
+                <p className="mt-2">{t('needHelp')} <a href="#" className="text-primary hover:underline">{t('contactSupport')}</a></p>
               </div>
             </div>
           </div>
@@ -1,14 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useLocation, useNavigate, Link } from 'react-router-dom';
+import { useSelector } from 'react-redux';
+import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import { loadStripe } from '@stripe/stripe-js';
 import { Elements, CardElement, useStripe, useElements } from '@stripe/react-stripe-js';
-import { CartItem, CartSummary } from '../store/slices/cartSlice';
+import { AppliedCartCoupon, CartItem, CartSummary, getCartCouponEvaluation, getCartCurrencies } from '../store/slices/cartSlice';
 import { orderService } from '../services/order.service';
 import { useCart } from '../contexts/CartContext';
 import LoadingSpinner from '../components/common/LoadingSpinner';
+import ImpersonationNotice from '../components/common/ImpersonationNotice';
+import { selectImpersonation } from '../store/slices/authSlice';
 import { FaArrowLeft, FaCreditCard, FaShieldAlt } from 'react-icons/fa';
+import PriceBreakdown from '../components/checkout/PriceBreakdown';
+import CouponEligibility from '../components/checkout/CouponEligibility';
+import HoldCountdown from '../components/checkout/HoldCountdown';
+import { usePricingConfig } from '../hooks/usePricingConfig';
+import { calculatePricing, PricingBreakdown } from '../utils/pricingUtils';
+import { formatTicketSummary } from '../utils/ticketTypeUtils';
 let stripePromise: Promise<any> | null = null;
 
 // Initialize Stripe
@@ -31,11 +41,7 @@ interface BookingFormData {
 interface CartLocationState {
   cartItems: CartItem[];
   cartSummary: CartSummary;
-  coupon: {
-    code: string;
-    discount: number;
-    type: 'percentage' | 'fixed';
-  } | null;
+  coupon: AppliedCartCoupon | null;
 }
 
 interface BookingLocationState {
@@ -67,8 +73,10 @@ interface PaymentInfo {
 const StripeCheckoutForm: React.FC<{
   cartState: CartLocationState;
   bookingState: BookingLocationState;
+  bookingPricing: PricingBreakdown;
   billingInfo: BillingInfo;
   isCartCheckout: boolean;
+  holdsReady: boolean;
   onPaymentSuccess: (orderId: string) => void;
   onPaymentError: (error: string) => void;
   isProcessing: boolean;
@@ -76,8 +84,10 @@ const StripeCheckoutForm: React.FC<{
 }> = ({
   cartState,
   bookingState,
+  bookingPricing,
   billingInfo,
   isCartCheckout,
+  holdsReady,
   onPaymentSuccess,
   onPaymentError,
   isProcessing,
@@ -85,19 +95,29 @@ const StripeCheckoutForm: React.FC<{
 }) => {
   const stripe = useStripe();
   const elements = useElements();
-  const { clearCart } = useCart();
+  const { clearCart, cartItems } = useCart();
+  const { t } = useTranslation('bookings');
+  // Admins viewing as this user never pay on their behalf
+  const isImpersonating = !!useSelector(selectImpersonation);
 
   const handleStripeSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (isImpersonating) return;
     
     if (!stripe || !elements) {
-      onPaymentError('Stripe has not loaded yet. Please try again.');
+      onPaymentError(t('checkoutPage.stripeNotLoaded'));
       return;
     }
 
     const cardElement = elements.getElement(CardElement);
     if (!cardElement) {
-      onPaymentError('Card element not found. Please refresh and try again.');
+      onPaymentError(t('checkoutPage.cardElementMissing'));
+      return;
+    }
+
+    if (isCartCheckout && !holdsReady) {
+      onPaymentError(t('checkoutPage.holdExpired'));
       return;
     }
 
@@ -106,15 +126,16 @@ const StripeCheckoutForm: React.FC<{
     try {
       if (isCartCheckout) {
         // Cart-based payment processing with Stripe
+        // The live cart carries the seat holds taken on entering checkout
         const paymentIntent = await orderService.createCartPaymentIntent(
-          cartState.cartItems,
+          cartItems,
           cartState.cartSummary,
           billingInfo,
           cartState.coupon?.code
         );
 
         if (!paymentIntent.success || !paymentIntent.data) {
-          throw new Error('Failed to create payment intent');
+          throw new Error(t('checkoutPage.paymentIntentFailed'));
         }
 
         const { clientSecret, orderId } = paymentIntent.data;
@@ -142,7 +163,7 @@ const StripeCheckoutForm: React.FC<{
         );
 
         if (stripeError) {
-          throw new Error(stripeError.message || 'Payment failed');
+          throw new Error(stripeError.message || t('checkoutPage.paymentFailed'));
         }
 
         if (confirmedPayment?.status === 'succeeded') {
@@ -152,10 +173,10 @@ const StripeCheckoutForm: React.FC<{
           // Clear cart after successful payment
           clearCart();
           
-          toast.success('Payment successful! Order confirmed.');
+          toast.success(t('checkoutPage.paymentSuccess'));
           onPaymentSuccess(orderId);
         } else {
-          throw new Error('Payment was not completed successfully');
+          throw new Error(t('checkoutPage.paymentIncomplete'));
         }
       } else {
         // Single event booking - use existing simple flow for now
@@ -166,8 +187,9 @@ const StripeCheckoutForm: React.FC<{
             scheduleDate: bookingState.event.dateSchedule?.[0]?.date,
             quantity: bookingState.booking.quantity,
             unitPrice: bookingState.event.price,
-            totalPrice: bookingState.totalPrice,
-            currency: bookingState.event.currency || 'USD',
+            // Charge the total shown in the summary, not the one carried in route state
+            totalPrice: bookingPricing.total,
+            currency: bookingPricing.currency,
             participants: [{
               name: bookingState.booking.name,
               age: 0,
@@ -189,10 +211,10 @@ const StripeCheckoutForm: React.FC<{
         const result = await orderService.createOrder(orderData);
         
         if (result.success) {
-          toast.success('Order placed successfully!');
+          toast.success(t('checkoutPage.orderPlaced'));
           onPaymentSuccess(result.data.orderNumber);
         } else {
-          throw new Error(result.error || 'Order creation failed');
+          throw new Error(result.error || t('checkoutPage.orderFailed'));
         }
       }
     } catch (err: any) {
@@ -203,7 +225,7 @@ const StripeCheckoutForm: React.FC<{
         await orderService.handleFailedCartPayment(err.orderId, err.message);
       }
       
-      onPaymentError(err.message || 'Payment failed. Please try again.');
+      onPaymentError(err.message || t('checkoutPage.paymentRetry'));
     } finally {
       setIsProcessing(false);
     }
@@ -211,8 +233,10 @@ const StripeCheckoutForm: React.FC<{
 
   return (
     <form onSubmit={handleStripeSubmit} className="space-y-6">
+      <ImpersonationNotice />
+
       <div>
-        <h3 className="text-lg font-semibold mb-4">Card Information</h3>
+        <h3 className="text-lg font-semibold mb-4">{t('checkoutPage.cardInformation')}</h3>
         <div className="p-4 border border-gray-300 rounded-lg">
           <CardElement
             options={{
@@ -235,18 +259,18 @@ const StripeCheckoutForm: React.FC<{
       
       <button
         type="submit"
-        disabled={!stripe || isProcessing}
+        disabled={!stripe || isProcessing || isImpersonating}
         className="w-full bg-primary text-white py-3 px-4 rounded-lg font-semibold hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
       >
         {isProcessing ? (
           <>
             <LoadingSpinner />
-            <span className="ml-2">Processing Payment...</span>
+            <span className="ml-2">{t('checkoutPage.processingPayment')}</span>
           </>
         ) : (
           <>
             <FaShieldAlt className="mr-2" />
-            Complete Secure Payment
+            {t('checkoutPage.completePayment')}
           </>
         )}
       </button>
@@ -258,11 +282,14 @@ const CheckoutPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const location = useLocation();
   const navigate = useNavigate();
-  const { clearCart } = useCart();
+  const { clearCart, cartItems, holdSummary, holdAllItems, expireCartHolds } = useCart();
+  const isImpersonating = !!useSelector(selectImpersonation);
+  const { t } = useTranslation('bookings');
   
   const [paymentMethod, setPaymentMethod] = useState<string>('credit_card');
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [isHoldingSeats, setIsHoldingSeats] = useState<boolean>(false);
   
   const [billingInfo, setBillingInfo] = useState<BillingInfo>({
     firstName: '',
@@ -296,7 +323,7 @@ const CheckoutPage: React.FC = () => {
         } : {
           event: bookingState.event,
           booking: bookingState.booking,
-          totalPrice: bookingState.totalPrice
+          totalPrice: bookingPricing.total
         }),
         billingInfo,
         paymentMethod: 'stripe'
@@ -313,13 +340,30 @@ const CheckoutPage: React.FC = () => {
   const cartState = location.state as CartLocationState;
   const bookingState = location.state as BookingLocationState;
   const isCartCheckout = cartState?.cartItems && cartState.cartItems.length > 0;
+
+  // Single event bookings are priced with the same engine as the cart
+  const bookingPricingConfig = usePricingConfig([bookingState?.event?.vendorId?._id]);
+  const bookingPricing = calculatePricing(
+    bookingState?.event ? [{
+      id: bookingState.event._id,
+      vendorId: bookingState.event.vendorId?._id,
+      unitPrice: bookingState.event.price,
+      quantity: bookingState.booking?.quantity || 1,
+    }] : [],
+    bookingPricingConfig,
+    null,
+    bookingState?.event?.currency
+  );
   
   useEffect(() => {
     // Handle different checkout scenarios
     if (isCartCheckout) {
       // Cart-based checkout
       if (!cartState.cartItems || cartState.cartItems.length === 0) {
-        toast.error('No items in cart. Please add items before checkout.');
+        toast.error(t('checkoutPage.emptyCart'));
+        navigate('/cart');
+      } else if (getCartCurrencies(cartState.cartItems).length > 1) {
+        toast.error(t('checkoutPage.mixedCurrencies'));
         navigate('/cart');
       }
     } else {
@@ -330,6 +374,25 @@ const CheckoutPage: React.FC = () => {
     }
   }, [cartState, bookingState, navigate, id, isCartCheckout]);
 
+  // Hold (or renew) the cart's seats for the time it takes to pay
+  const handleHoldSeats = useCallback(async () => {
+    setIsHoldingSeats(true);
+    try {
+      await holdAllItems();
+    } finally {
+      setIsHoldingSeats(false);
+    }
+  }, [holdAllItems]);
+
+  useEffect(() => {
+    // Holding seats is a write, which an impersonation session can't make
+    if (isCartCheckout && !isImpersonating) {
+      handleHoldSeats();
+    }
+  }, [isCartCheckout, isImpersonating, handleHoldSeats]);
+
+  const holdsReady = !holdSummary.needsHolds || holdSummary.allHeld;
+
   // Helper functions for card validation
   const formatCardNumber = (value: string) => {
     const digits = value.replace(/\D/g, '');
@@ -356,26 +419,26 @@ const CheckoutPage: React.FC = () => {
     const newErrors: {[key: string]: string} = {};
 
     // Billing validation
-    if (!billingInfo.firstName.trim()) newErrors.firstName = 'First name is required';
-    if (!billingInfo.lastName.trim()) newErrors.lastName = 'Last name is required';
-    if (!billingInfo.email.trim()) newErrors.email = 'Email is required';
-    if (!/\S+@\S+\.\S+/.test(billingInfo.email)) newErrors.email = 'Email is invalid';
-    if (!billingInfo.phone.trim()) newErrors.phone = 'Phone is required';
-    if (!billingInfo.address.trim()) newErrors.address = 'Address is required';
-    if (!billingInfo.city.trim()) newErrors.city = 'City is required';
-    if (!billingInfo.zipCode.trim()) newErrors.zipCode = 'ZIP code is required';
+    if (!billingInfo.firstName.trim()) newErrors.firstName = t('checkoutPage.validation.firstNameRequired');
+    if (!billingInfo.lastName.trim()) newErrors.lastName = t('checkoutPage.validation.lastNameRequired');
+    if (!billingInfo.email.trim()) newErrors.email = t('checkoutPage.validation.emailRequired');
+    if (!/\S+@\S+\.\S+/.test(billingInfo.email)) newErrors.email = t('checkoutPage.validation.emailInvalid');
+    if (!billingInfo.phone.trim()) newErrors.phone = t('checkoutPage.validation.phoneRequired');
+    if (!billingInfo.address.trim()) newErrors.address = t('checkoutPage.validation.addressRequired');
+    if (!billingInfo.city.trim()) newErrors.city = t('checkoutPage.validation.cityRequired');
+    if (!billingInfo.zipCode.trim()) newErrors.zipCode = t('checkoutPage.validation.zipCodeRequired');
 
     // Payment validation (for credit card)
     if (paymentMethod === 'credit_card') {
       if (!paymentInfo.cardNumber || paymentInfo.cardNumber.replace(/\s/g, '').length < 13) {
-        newErrors.cardNumber = 'Please enter a valid card number';
+        newErrors.cardNumber = t('checkoutPage.validation.cardNumberInvalid');
       }
-      if (!paymentInfo.cardName.trim()) newErrors.cardName = 'Cardholder name is required';
+      if (!paymentInfo.cardName.trim()) newErrors.cardName = t('checkoutPage.validation.cardNameRequired');
       if (!paymentInfo.expiryDate || paymentInfo.expiryDate.length < 5) {
-        newErrors.expiryDate = 'Please enter a valid expiry date';
+        newErrors.expiryDate = t('checkoutPage.validation.expiryDateInvalid');
       }
       if (!paymentInfo.cvv || paymentInfo.cvv.length < 3) {
-        newErrors.cvv = 'Please enter a valid CVV';
+        newErrors.cvv = t('checkoutPage.validation.cvvInvalid');
       }
     }
 
@@ -388,7 +451,12 @@ const CheckoutPage: React.FC = () => {
     setError(null);
     
     if (!validateForm()) {
-      setError('Please fix the errors below');
+      setError(t('checkoutPage.fixErrors'));
+      return;
+    }
+
+    if (isCartCheckout && !holdsReady) {
+      setError(t('checkoutPage.holdExpired'));
       return;
     }
 
@@ -400,7 +468,7 @@ const CheckoutPage: React.FC = () => {
       if (isCartCheckout) {
         // Cart-based order
         orderData = {
-          items: cartState.cartItems.map(item => ({
+          items: cartItems.map(item => ({
             eventId: item.event._id,
             eventTitle: item.event.title,
             scheduleDate: item.selectedDate || item.event.dateSchedule?.[0]?.date,
@@ -408,7 +476,9 @@ const CheckoutPage: React.FC = () => {
             unitPrice: item.unitPrice,
             totalPrice: item.totalPrice,
             currency: item.currency,
-            participants: item.participants || []
+            participants: item.participants || [],
+            tickets: item.ticketLines?.map(({ ticketTypeId, quantity }) => ({ ticketTypeId, quantity })),
+            holdId: item.hold?.id
           })),
           billingAddress: billingInfo,
           paymentMethod: paymentMethod as 'stripe' | 'paypal',
@@ -425,8 +495,8 @@ const CheckoutPage: React.FC = () => {
             scheduleDate: bookingState.event.dateSchedule?.[0]?.date,
             quantity: bookingState.booking.quantity,
             unitPrice: bookingState.event.price,
-            totalPrice: bookingState.totalPrice,
-            currency: bookingState.event.currency || 'USD',
+            totalPrice: bookingPricing.total,
+            currency: bookingPricing.currency,
             participants: [{
               name: bookingState.booking.name,
               age: 0, // Default age
@@ -455,7 +525,7 @@ const CheckoutPage: React.FC = () => {
           clearCart();
         }
         
-        toast.success('Order placed successfully!');
+        toast.success(t('checkoutPage.orderPlaced'));
         
         // Redirect to success page
         navigate('/payment/success', {
@@ -468,20 +538,20 @@ const CheckoutPage: React.FC = () => {
             } : {
               event: bookingState.event,
               booking: bookingState.booking,
-              totalPrice: bookingState.totalPrice
+              totalPrice: bookingPricing.total
             }),
             billingInfo,
             paymentMethod
           }
         });
       } else {
-        throw new Error(result.error || 'Order creation failed');
+        throw new Error(result.error || t('checkoutPage.orderFailed'));
       }
       
     } catch (err: any) {
       console.error('Checkout error:', err);
-      setError(err.message || 'Checkout failed. Please try again.');
-      toast.error('Checkout failed. Please try again.');
+      setError(err.message || t('checkoutPage.checkoutFailed'));
+      toast.error(t('checkoutPage.checkoutFailed'));
     } finally {
       setIsProcessing(false);
     }
@@ -492,7 +562,7 @@ const CheckoutPage: React.FC = () => {
     return (
       <div className="container mx-auto px-4 py-8 text-center">
         <LoadingSpinner size="large" />
-        <p className="mt-4">Redirecting to cart...</p>
+        <p className="mt-4">{t('checkoutPage.redirectingToCart')}</p>
       </div>
     );
   }
@@ -501,7 +571,7 @@ const CheckoutPage: React.FC = () => {
     return (
       <div className="container mx-auto px-4 py-8 text-center">
         <LoadingSpinner size="large" />
-        <p className="mt-4">Redirecting to booking page...</p>
+        <p className="mt-4">{t('checkoutPage.redirectingToBooking')}</p>
       </div>
     );
   }
@@ -514,16 +584,16 @@ const CheckoutPage: React.FC = () => {
         className="flex items-center text-primary hover:text-primary-dark mb-6 transition-colors"
       >
         <FaArrowLeft className="mr-2" />
-        Back {isCartCheckout ? 'to Cart' : 'to Booking'}
+        {isCartCheckout ? t('checkoutPage.backToCart') : t('checkoutPage.backToBooking')}
       </button>
 
-      <h1 className="text-3xl font-bold mb-6">Checkout</h1>
+      <h1 className="text-3xl font-bold mb-6">{t('checkoutPage.title')}</h1>
 
       <div className="flex flex-col lg:flex-row gap-8">
         {/* Order Summary */}
         <div className="lg:w-1/3">
           <div className="bg-white rounded-lg shadow-md p-6 sticky top-6">
-            <h2 className="text-xl font-bold mb-4">Order Summary</h2>
+            <h2 className="text-xl font-bold mb-4">{t('checkoutPage.orderSummary')}</h2>
             
             {/* Items */}
             <div className="space-y-4 mb-6">
@@ -547,10 +617,12 @@ const CheckoutPage: React.FC = () => {
                       <div className="flex-1">
                         <h3 className="font-medium text-sm mb-1">{event.title}</h3>
                         <div className="text-xs text-gray-600 mb-1">
-                          {eventDate ? format(eventDate, 'MMM d, yyyy') : 'Date TBD'}
+                          {eventDate ? format(eventDate, 'MMM d, yyyy') : t('checkoutPage.dateTbd')}
                         </div>
                         <div className="text-xs text-gray-600">
-                          Qty: {item.quantity} × ${item.unitPrice.toFixed(2)}
+                          {item.ticketLines?.length
+                            ? formatTicketSummary(item.ticketLines)
+                            : t('checkoutPage.quantityLine', { quantity: item.quantity, price: `$${item.unitPrice.toFixed(2)}` })}
                         </div>
                       </div>
                       <div className="text-sm font-semibold">
@@ -571,78 +643,52 @@ const CheckoutPage: React.FC = () => {
                     <h3 className="font-medium text-sm mb-1">{bookingState.event.title}</h3>
                     <div className="text-xs text-gray-600 mb-1">
                       {bookingState.event.dateSchedule?.[0]?.date ? 
-                        format(new Date(bookingState.event.dateSchedule[0].date), 'MMM d, yyyy') : 'Date TBD'}
+                        format(new Date(bookingState.event.dateSchedule[0].date), 'MMM d, yyyy') : t('checkoutPage.dateTbd')}
                     </div>
                     <div className="text-xs text-gray-600">
-                      Qty: {bookingState.booking.quantity} × ${bookingState.event.price.toFixed(2)}
+                      {t('checkoutPage.quantityLine', { quantity: bookingState.booking.quantity, price: `$${bookingState.event.price.toFixed(2)}` })}
                     </div>
                   </div>
                   <div className="text-sm font-semibold">
-                    ${bookingState.totalPrice.toFixed(2)}
+                    ${bookingPricing.subtotal.toFixed(2)}
                   </div>
                 </div>
               )}
             </div>
             
+            {isCartCheckout && (
+              <HoldCountdown
+                summary={holdSummary}
+                onExpire={expireCartHolds}
+                onRecheck={handleHoldSeats}
+                isRechecking={isHoldingSeats}
+                className="mb-6"
+              />
+            )}
+
             {/* Summary */}
-            <div className="space-y-2 mb-6">
-              {isCartCheckout ? (
-                <>
-                  <div className="flex justify-between text-sm">
-                    <span>Subtotal:</span>
-                    <span>${cartState.cartSummary.subtotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Service Fee:</span>
-                    <span>${cartState.cartSummary.serviceFee.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Tax:</span>
-                    <span>${cartState.cartSummary.tax.toFixed(2)}</span>
-                  </div>
-                  {cartState.coupon && (
-                    <div className="flex justify-between text-sm text-green-600">
-                      <span>Discount ({cartState.coupon.code}):</span>
-                      <span>-${cartState.cartSummary.discount.toFixed(2)}</span>
-                    </div>
-                  )}
-                  <div className="border-t pt-2">
-                    <div className="flex justify-between font-bold">
-                      <span>Total:</span>
-                      <span>${cartState.cartSummary.total.toFixed(2)}</span>
-                    </div>
-                  </div>
-                </>
-              ) : (
-                <>
-                  <div className="flex justify-between text-sm">
-                    <span>Subtotal:</span>
-                    <span>${(bookingState.event.price * bookingState.booking.quantity).toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Service Fee:</span>
-                    <span>${(bookingState.event.price * bookingState.booking.quantity * 0.1).toFixed(2)}</span>
-                  </div>
-                  <div className="border-t pt-2">
-                    <div className="flex justify-between font-bold">
-                      <span>Total:</span>
-                      <span>${bookingState.totalPrice.toFixed(2)}</span>
-                    </div>
-                  </div>
-                </>
-              )}
-            </div>
+            <PriceBreakdown
+              breakdown={isCartCheckout ? cartState.cartSummary : bookingPricing}
+              className="mb-6"
+            />
+            {isCartCheckout && (
+              <CouponEligibility
+                evaluation={getCartCouponEvaluation(cartState.cartItems, cartState.coupon)}
+                currency={cartState.cartSummary.currency}
+                className="mb-6"
+              />
+            )}
           </div>
         </div>
         
         {/* Checkout Form */}
         <div className="lg:w-2/3">
           <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-2xl font-bold mb-6">Payment Details</h2>
+            <h2 className="text-2xl font-bold mb-6">{t('checkoutPage.paymentDetails')}</h2>
             
             {error && (
               <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6">
-                <p className="font-bold">Error</p>
+                <p className="font-bold">{t('checkoutPage.error')}</p>
                 <p>{error}</p>
               </div>
             )}
@@ -650,10 +696,10 @@ const CheckoutPage: React.FC = () => {
             <div className="space-y-6">
               {/* Billing Information */}
               <div>
-                <h3 className="text-lg font-semibold mb-4">Billing Information</h3>
+                <h3 className="text-lg font-semibold mb-4">{t('checkoutPage.billingInformation')}</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium mb-2">First Name *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.firstName')} *</label>
                     <input
                       type="text"
                       value={billingInfo.firstName}
@@ -666,7 +712,7 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label className="block text-sm font-medium mb-2">Last Name *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.lastName')} *</label>
                     <input
                       type="text"
                       value={billingInfo.lastName}
@@ -679,7 +725,7 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label className="block text-sm font-medium mb-2">Email *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.email')} *</label>
                     <input
                       type="email"
                       value={billingInfo.email}
@@ -692,7 +738,7 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label className="block text-sm font-medium mb-2">Phone *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.phone')} *</label>
                     <input
                       type="tel"
                       value={billingInfo.phone}
@@ -705,7 +751,7 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div className="md:col-span-2">
-                    <label className="block text-sm font-medium mb-2">Address *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.address')} *</label>
                     <input
                       type="text"
                       value={billingInfo.address}
@@ -718,7 +764,7 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label className="block text-sm font-medium mb-2">City *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.city')} *</label>
                     <input
                       type="text"
                       value={billingInfo.city}
@@ -731,7 +777,7 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div>
-                    <label className="block text-sm font-medium mb-2">ZIP Code *</label>
+                    <label className="block text-sm font-medium mb-2">{t('checkoutPage.zipCode')} *</label>
                     <input
                       type="text"
                       value={billingInfo.zipCode}
@@ -749,8 +795,10 @@ const CheckoutPage: React.FC = () => {
               <StripeCheckoutForm
                 cartState={cartState}
                 bookingState={bookingState}
+                bookingPricing={bookingPricing}
                 billingInfo={billingInfo}
                 isCartCheckout={isCartCheckout}
+                holdsReady={holdsReady}
                 onPaymentSuccess={handlePaymentSuccess}
                 onPaymentError={handlePaymentError}
                 isProcessing={isProcessing}
@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
+import { useTranslation } from 'react-i18next';
 import { useCart } from '@/contexts/CartContext';
 import { useAuthContext } from '@/contexts/AuthContext';
 import toast from 'react-hot-toast';
@@ -15,7 +16,8 @@ import { AppDispatch } from '../store';
 import {
   setBookingEvent,
   resetBookingFlow,
-  setBookingParticipants
+  setBookingParticipants,
+  setBookingTicketSelection
 } from '../store/slices/bookingsSlice';
 import { toggleFavorite } from '../store/slices/favoritesSlice';
 import { RootState } from '../store';
@@ -26,6 +28,25 @@ import Avatar from '../components/ui/Avatar';
 import StatCard from '../components/ui/StatCard';
 import { getEventImage, getVendorLogo, createImageErrorHandler } from '../utils/imageFallbacks';
 import ImageCarousel from '../components/common/ImageCarousel';
+import WaitlistPanel from '../components/booking/WaitlistPanel';
+import { useRealTimeFallback, useRealTimeSubscription } from '../hooks/useRealTimeUpdates';
+import { applySeatAvailability } from '../utils/realtimeUtils';
+import type { SeatAvailabilityUpdate } from '../services/realtimeService';
+import TicketTypeSelector from '../components/booking/TicketTypeSelector';
+import TicketBreakdown from '../components/booking/TicketBreakdown';
+import {
+  buildTicketLines,
+  expandTicketSelection,
+  getSelectionQuantity,
+  getTicketLinesTotal,
+  getTicketTypePrice,
+  MAX_TICKETS_PER_BOOKING,
+  TicketSelection,
+  validateTicketSelection,
+} from '../utils/ticketTypeUtils';
+import { getDirectionsUrl, isValidCoordinates } from '../utils/mapUtils';
+
+const LocationMap = lazy(() => import('../components/map/LocationMap'));
 
 // Mock data for when backend is unavailable
 const mockEvents = [
@@ -122,11 +143,13 @@ const EventDetailPage: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useDispatch<AppDispatch>();
   const { user } = useAuthContext();
+  const { t } = useTranslation('bookings');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [event, setEvent] = useState<any>(null);
   const [usingMockData, setUsingMockData] = useState(false);
   const [quantity, setQuantity] = useState(1);
+  const [ticketSelection, setTicketSelection] = useState<TicketSelection>({});
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [activeTab, setActiveTab] = useState('about'); // 'about', 'location', 'reviews', 'faqs'
   const [isClaimingEvent, setIsClaimingEvent] = useState(false);
@@ -168,6 +191,19 @@ const EventDetailPage: React.FC = () => {
     return currentSchedule?.availableSeats || event?.availableSpots || 0;
   }, [currentSchedule, event?.availableSpots]);
 
+  // Events sold as ticket types take a quantity per type instead of one counter
+  const ticketTypes = event?.ticketTypes || [];
+  const usesTicketTypes = ticketTypes.length > 0;
+  const ticketLines = useMemo(
+    () => buildTicketLines(event?.ticketTypes || [], ticketSelection, currentSchedule),
+    [event?.ticketTypes, ticketSelection, currentSchedule]
+  );
+  const ticketCount = usesTicketTypes ? getSelectionQuantity(ticketSelection) : quantity;
+  const ticketsSubtotal = usesTicketTypes ? getTicketLinesTotal(ticketLines) : currentPrice * quantity;
+  const startingPrice = usesTicketTypes
+    ? Math.min(...ticketTypes.map((ticketType: any) => getTicketTypePrice(ticketType, currentSchedule).price))
+    : currentPrice;
+
   // Favorites state
   const favorites = useSelector((state: RootState) => state.favorites.items);
   const isFavorite = favorites.some(fav => fav._id === event?._id);
@@ -186,7 +222,7 @@ const EventDetailPage: React.FC = () => {
 
         // Validate that we have event data
         if (!eventData || !eventData._id) {
-          throw new Error('Invalid event data received from API');
+          throw new Error(t('eventDetail.invalidData'));
         }
 
         // Transform the API data to match component expectations
@@ -197,7 +233,7 @@ const EventDetailPage: React.FC = () => {
 
         // Helper to format time (handles startTime/endTime fields or falls back to date-based extraction)
         const getScheduleTime = (schedule: any) => {
-          if (!schedule) return 'Time TBD';
+          if (!schedule) return t('eventDetail.timeTbd');
 
           // Use explicit time fields if available
           if (schedule.startTime && schedule.endTime) {
@@ -212,7 +248,7 @@ const EventDetailPage: React.FC = () => {
           }
 
           // Fallback for legacy data without time fields
-          return 'Time TBD';
+          return t('eventDetail.timeTbd');
         };
 
         const firstSchedule = eventData.dateSchedule?.[0];
@@ -227,8 +263,8 @@ const EventDetailPage: React.FC = () => {
           image: getEventImage(eventData.images, eventData.title, 800, 400),
           date: getScheduleDate(firstSchedule),
           time: getScheduleTime(firstSchedule),
-          location: eventData.location || { city: 'Location TBD', address: 'Address TBD', coordinates: {} },
-          ageRange: eventData.ageRange ? `${eventData.ageRange[0]}-${eventData.ageRange[1]} years` : 'All ages',
+          location: eventData.location || { city: t('eventDetail.locationTbd'), address: t('eventDetail.addressTbd'), coordinates: {} },
+          ageRange: eventData.ageRange ? t('eventDetail.ageRangeYears', { min: eventData.ageRange[0], max: eventData.ageRange[1] }) : t('eventDetail.allAges'),
           capacity: totalSeats,
           availableSpots: firstSchedule?.availableSeats || totalSeats,
           dateSchedule: (eventData.dateSchedule || []).map((schedule: any) => ({
@@ -243,17 +279,17 @@ const EventDetailPage: React.FC = () => {
             id: eventData.vendorId?._id || eventData.vendorId,
             name: eventData.vendorId?.firstName && eventData.vendorId?.lastName ?
               `${eventData.vendorId.firstName} ${eventData.vendorId.lastName}` :
-              'Event Organizer',
+              t('eventDetail.defaultOrganizer'),
             logo: getVendorLogo(undefined, eventData.vendorId?.firstName && eventData.vendorId?.lastName ?
               `${eventData.vendorId.firstName} ${eventData.vendorId.lastName}` :
-              'Event Organizer', 100),
+              t('eventDetail.defaultOrganizer'), 100),
             rating: 4.8
           },
           features: [
-            'Professional supervision',
-            'All materials included',
-            'Age-appropriate activities',
-            'Safe environment'
+            t('eventDetail.features.supervision'),
+            t('eventDetail.features.materials'),
+            t('eventDetail.features.ageAppropriate'),
+            t('eventDetail.features.safe')
           ],
           reviews: []
         };
@@ -268,7 +304,7 @@ const EventDetailPage: React.FC = () => {
         if (err && typeof err === 'object' && 'response' in err) {
           const axiosError = err as any;
           if (axiosError.response?.status === 404) {
-            setError('Event not found. This event may have been removed or the URL is incorrect.');
+            setError(t('eventDetail.notFoundError'));
             return;
           }
         }
@@ -279,9 +315,9 @@ const EventDetailPage: React.FC = () => {
         if (mockEvent) {
           setEvent(mockEvent);
           setUsingMockData(true);
-          setError('Unable to connect to the server. Showing default event data.');
+          setError(t('eventDetail.offlineFallback'));
         } else {
-          setError('Unable to load event details. Please check your internet connection and try again.');
+          setError(t('eventDetail.loadFailed'));
         }
       } finally {
         setIsLoading(false);
@@ -289,7 +325,31 @@ const EventDetailPage: React.FC = () => {
     };
 
     fetchEventDetails();
-  }, [id]);
+  }, [id, t]);
+
+  // Keep seat availability live over the real-time channel, polling the event while it isn't open
+  const applySeatUpdate = (update: SeatAvailabilityUpdate) => {
+    setEvent((prev: any) => prev && prev._id === update.eventId
+      ? { ...prev, dateSchedule: applySeatAvailability(prev.dateSchedule || [], update) }
+      : prev);
+  };
+
+  useRealTimeSubscription(['event.seats_updated'], (message) => applySeatUpdate(message.payload));
+
+  useRealTimeFallback(async () => {
+    try {
+      const eventData = await eventsAPI.getEventById(id!);
+      (eventData?.dateSchedule || []).forEach((schedule: any) => applySeatUpdate({
+        eventId: eventData._id,
+        scheduleId: schedule._id,
+        availableSeats: schedule.availableSeats,
+        soldSeats: schedule.soldSeats,
+        reservedSeats: schedule.reservedSeats,
+      }));
+    } catch (error) {
+      console.warn('Error refreshing seat availability:', error);
+    }
+  }, 60000, Boolean(id) && !usingMockData);
 
   if (isLoading) {
     return (
@@ -303,9 +363,9 @@ const EventDetailPage: React.FC = () => {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6" role="alert">
-          <p className="font-bold">Error</p>
+          <p className="font-bold">{t('eventDetail.error')}</p>
           <p>{error}</p>
-          <Link to="/events" className="mt-4 inline-block text-primary hover:underline">Browse other events</Link>
+          <Link to="/events" className="mt-4 inline-block text-primary hover:underline">{t('eventDetail.browseOther')}</Link>
         </div>
       </div>
     );
@@ -315,10 +375,10 @@ const EventDetailPage: React.FC = () => {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="text-center py-12">
-          <h2 className="text-2xl font-bold mb-4">Event Not Found</h2>
-          <p className="mb-6">The event you're looking for doesn't exist or has been removed.</p>
+          <h2 className="text-2xl font-bold mb-4">{t('eventDetail.notFound')}</h2>
+          <p className="mb-6">{t('eventDetail.notFoundHelp')}</p>
           <Link to="/events" className="bg-primary text-white px-6 py-2 rounded-md hover:bg-primary-dark transition-colors">
-            Browse Events
+            {t('eventDetail.browseEvents')}
           </Link>
         </div>
       </div>
@@ -352,7 +412,7 @@ const EventDetailPage: React.FC = () => {
   // Handle booking
   const handleBookNow = async () => {
     if (!event || !id) {
-      toast.error('Event information is not available');
+      toast.error(t('eventDetail.infoUnavailable'));
       return;
     }
 
@@ -372,13 +432,13 @@ const EventDetailPage: React.FC = () => {
         });
 
         // Confirm before redirecting
-        if (window.confirm('You will be redirected to an external website to complete your booking. Continue?')) {
+        if (window.confirm(t('eventDetail.externalRedirect'))) {
           window.open(event.externalBookingLink, '_blank', 'noopener,noreferrer');
         }
       } catch (error) {
         console.error('Error tracking affiliate click:', error);
         // Still redirect even if tracking fails
-        if (window.confirm('You will be redirected to an external website to complete your booking. Continue?')) {
+        if (window.confirm(t('eventDetail.externalRedirect'))) {
           window.open(event.externalBookingLink, '_blank', 'noopener,noreferrer');
         }
       }
@@ -387,21 +447,26 @@ const EventDetailPage: React.FC = () => {
 
     // Regular event booking flow
     if (!selectedDate) {
-      toast.error('Please select a date for your booking');
+      toast.error(t('eventDetail.selectDateError'));
       return;
     }
 
-    const currentPrice = getCurrentPrice();
     const currentAvailableSeats = getCurrentAvailableSeats();
     const currentSchedule = getCurrentSchedule();
 
-    if (quantity > currentAvailableSeats) {
-      toast.error(`Only ${currentAvailableSeats} seats available for the selected date`);
+    if (usesTicketTypes) {
+      const ticketError = validateTicketSelection(ticketTypes, ticketSelection, currentSchedule);
+      if (ticketError) {
+        toast.error(ticketError);
+        return;
+      }
+    } else if (quantity > currentAvailableSeats) {
+      toast.error(t('eventDetail.seatsLimit', { count: currentAvailableSeats }));
       return;
     }
 
     if (!currentSchedule || !currentSchedule._id) {
-      toast.error('Schedule information is not available for the selected date');
+      toast.error(t('eventDetail.scheduleUnavailable'));
       return;
     }
 
@@ -410,12 +475,14 @@ const EventDetailPage: React.FC = () => {
     dispatch(setBookingEvent(id));
 
     // Create initial participants based on quantity with validation
-    if (quantity < 1 || quantity > currentAvailableSeats) {
-      toast.error(`Invalid quantity. Please select between 1 and ${currentAvailableSeats} participants.`);
+    if (ticketCount < 1 || ticketCount > currentAvailableSeats) {
+      toast.error(t('eventDetail.invalidQuantity', { max: currentAvailableSeats }));
       return;
     }
 
-    const initialParticipants = Array.from({ length: quantity }, (_, index) => ({
+    // One participant per ticket, each holding its ticket type
+    const seatTypes = usesTicketTypes ? expandTicketSelection(ticketTypes, ticketSelection) : [];
+    const initialParticipants = Array.from({ length: ticketCount }, (_, index) => ({
       id: `participant-${index + 1}`,
       name: '',
       email: '',
@@ -425,47 +492,50 @@ const EventDetailPage: React.FC = () => {
       emergencyContact: undefined,
       specialRequirements: '',
       dietaryRestrictions: [],
+      ticketTypeId: seatTypes[index],
     }));
 
     dispatch(setBookingParticipants(initialParticipants));
+    dispatch(setBookingTicketSelection(usesTicketTypes ? ticketSelection : {}));
 
     // Navigate to booking page with event data including schedule ID
     navigate(`/booking/${id}`, {
       state: {
         event,
-        quantity,
+        quantity: ticketCount,
         selectedDate: selectedDate.toISOString(),
         schedule: currentSchedule,
         scheduleId: currentSchedule._id, // Include schedule ID for backend API
-        totalPrice: (currentPrice * quantity).toFixed(2),
-        currency: event.currency || 'AED'
+        totalPrice: ticketsSubtotal.toFixed(2),
+        currency: event.currency || 'AED',
+        ticketSelection: usesTicketTypes ? ticketSelection : undefined
       }
     });
 
-    toast.success('Starting your booking process...');
+    toast.success(t('eventDetail.startingBooking'));
   };
 
   // Handle claiming affiliate event
   const handleClaimEvent = async () => {
     if (!id) {
-      toast.error('Event information is not available');
+      toast.error(t('eventDetail.infoUnavailable'));
       return;
     }
 
-    if (!window.confirm('Are you sure you want to claim this event? Once claimed, it will be associated with your vendor account.')) {
+    if (!window.confirm(t('eventDetail.claim.confirm'))) {
       return;
     }
 
     setIsClaimingEvent(true);
     try {
       await affiliateEventAPI.claimEvent(id);
-      toast.success('Event claimed successfully! Redirecting to your dashboard...');
+      toast.success(t('eventDetail.claim.success'));
       setTimeout(() => {
         navigate('/vendor/dashboard');
       }, 2000);
     } catch (error: any) {
       console.error('Error claiming event:', error);
-      const errorMessage = error.response?.data?.message || error.message || 'Failed to claim event';
+      const errorMessage = error.response?.data?.message || error.message || t('eventDetail.claim.failed');
       toast.error(errorMessage);
     } finally {
       setIsClaimingEvent(false);
@@ -475,15 +545,27 @@ const EventDetailPage: React.FC = () => {
   // Handle add to cart
   const handleAddToCart = () => {
     if (!selectedDate) {
-      toast.error('Please select a date for your booking');
+      toast.error(t('eventDetail.selectDateError'));
+      return;
+    }
+
+    // The cart has no seat picker, so reserved seating events are booked directly
+    if (event.reservedSeating) {
+      toast.error(t('eventDetail.reservedSeatingCart'));
       return;
     }
 
     const currentPrice = getCurrentPrice();
     const currentAvailableSeats = getCurrentAvailableSeats();
 
-    if (quantity > currentAvailableSeats) {
-      toast.error(`Only ${currentAvailableSeats} seats available for the selected date`);
+    if (usesTicketTypes) {
+      const ticketError = validateTicketSelection(ticketTypes, ticketSelection, getCurrentSchedule());
+      if (ticketError) {
+        toast.error(ticketError);
+        return;
+      }
+    } else if (quantity > currentAvailableSeats) {
+      toast.error(t('eventDetail.seatsLimit', { count: currentAvailableSeats }));
       return;
     }
 
@@ -491,14 +573,14 @@ const EventDetailPage: React.FC = () => {
       id: event.id,
       title: event.title,
       price: currentPrice,
-      quantity: quantity,
+      quantity: ticketCount,
       image: event.image,
       date: selectedDate.toISOString(),
       time: event.time,
       location: event.location,
       organizer: event.organizer.name,
       schedule: getCurrentSchedule()
-    }, quantity);
+    }, ticketCount, usesTicketTypes ? ticketLines : undefined);
   };
 
   // Check if event is already in cart for the selected date
@@ -515,7 +597,7 @@ const EventDetailPage: React.FC = () => {
           text: event.description,
           url: window.location.href,
         });
-        toast.success('Shared successfully!');
+        toast.success(t('eventDetail.shared'));
       } catch (err) {
         // User cancelled share - do nothing
       }
@@ -523,9 +605,9 @@ const EventDetailPage: React.FC = () => {
       // Fallback: copy link to clipboard
       try {
         await navigator.clipboard.writeText(window.location.href);
-        toast.success('Link copied to clipboard!');
+        toast.success(t('eventDetail.linkCopied'));
       } catch (err) {
-        toast.error('Failed to copy link');
+        toast.error(t('eventDetail.copyFailed'));
       }
     }
   };
@@ -541,8 +623,8 @@ const EventDetailPage: React.FC = () => {
     if (!event?.vendorId) return;
 
     const { email, phone, firstName, lastName } = event.vendorId;
-    const subject = encodeURIComponent(`Inquiry about ${event.title}`);
-    const body = encodeURIComponent(`Hello ${firstName} ${lastName},\n\nI'm interested in your event "${event.title}".\n\n`);
+    const subject = encodeURIComponent(t('eventDetail.inquirySubject', { title: event.title }));
+    const body = encodeURIComponent(t('eventDetail.inquiryBody', { name: `${firstName} ${lastName}`, title: event.title }));
 
     // Open email client with pre-filled information
     window.location.href = `mailto:${email}?subject=${subject}&body=${body}`;
@@ -555,8 +637,8 @@ const EventDetailPage: React.FC = () => {
   };
 
   const breadcrumbs = event ? [
-    { name: 'Home', url: '/' },
-    { name: 'Events', url: '/events' },
+    { name: t('eventDetail.breadcrumbHome'), url: '/' },
+    { name: t('eventDetail.breadcrumbEvents'), url: '/events' },
     { name: event.title, url: `/events/${event.id}` }
   ] : [];
 
@@ -572,12 +654,12 @@ const EventDetailPage: React.FC = () => {
           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
           </svg>
-          Back to Events
+          {t('eventDetail.backToEvents')}
         </button>
 
         {usingMockData && (
           <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 mb-6" role="alert">
-            <p className="font-bold">Note</p>
+            <p className="font-bold">{t('eventDetail.note')}</p>
             <p>{error}</p>
           </div>
         )}
@@ -590,9 +672,9 @@ const EventDetailPage: React.FC = () => {
             <div className="flex flex-wrap items-center gap-2 mb-4">
               <Badge variant="default">{event.category}</Badge>
               {event.venueType && <Badge variant={event.venueType?.toLowerCase() as 'outdoor' | 'indoor'}>{event.venueType}</Badge>}
-              {event.isFeatured && <Badge variant="featured">✨ Featured</Badge>}
+              {event.isFeatured && <Badge variant="featured">✨ {t('eventDetail.featured')}</Badge>}
               <Badge variant="secondary">{event.type}</Badge>
-              {event.status === 'published' && <Badge variant="success">📋 Published</Badge>}
+              {event.status === 'published' && <Badge variant="success">📋 {t('eventDetail.published')}</Badge>}
             </div>
 
             <h1 className="text-3xl md:text-5xl lg:text-6xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-4 leading-tight">
@@ -630,7 +712,7 @@ const EventDetailPage: React.FC = () => {
                   <button
                     onClick={handleShare}
                     className="w-12 h-12 bg-gray-900/60 backdrop-blur-md rounded-full flex items-center justify-center text-white hover:bg-gray-900/70 transition-all duration-300 hover:scale-110"
-                    title="Share event"
+                    title={t('eventDetail.shareEvent')}
                   >
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
@@ -642,7 +724,7 @@ const EventDetailPage: React.FC = () => {
                         ? 'bg-red-500/80 text-white hover:bg-red-600/80'
                         : 'bg-gray-900/60 text-white hover:bg-gray-900/70'
                       }`}
-                    title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                    title={isFavorite ? t('eventDetail.removeFavorite') : t('eventDetail.addFavorite')}
                   >
                     <svg className="w-6 h-6" fill={isFavorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
@@ -659,7 +741,7 @@ const EventDetailPage: React.FC = () => {
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                         </svg>
-                        <span className="font-medium">{event.viewsCount || 120} views</span>
+                        <span className="font-medium">{t('eventDetail.views', { count: event.viewsCount || 120 })}</span>
                       </div>
 
                       <div className="flex items-center bg-black/30 backdrop-blur-md rounded-full px-4 py-2">
@@ -673,7 +755,7 @@ const EventDetailPage: React.FC = () => {
 
                     <div className="flex items-center space-x-2">
                       <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-                      <span className="text-sm font-medium">Available Now</span>
+                      <span className="text-sm font-medium">{t('eventDetail.availableNow')}</span>
                     </div>
                   </div>
                 </div>
@@ -715,7 +797,7 @@ const EventDetailPage: React.FC = () => {
                 </div>
                 <div>
                   <div className="font-medium">{getDisplayDate()}</div>
-                  <div className="text-sm text-gray-500">Event Date</div>
+                  <div className="text-sm text-gray-500">{t('eventDetail.eventDate')}</div>
                 </div>
               </div>
 
@@ -726,8 +808,8 @@ const EventDetailPage: React.FC = () => {
                   </svg>
                 </div>
                 <div>
-                  <div className="font-medium">{event.ageRange?.[0]} - {event.ageRange?.[1]} years</div>
-                  <div className="text-sm text-gray-500">Age Range</div>
+                  <div className="font-medium">{t('eventDetail.ageRangeYears', { min: event.ageRange?.[0], max: event.ageRange?.[1] })}</div>
+                  <div className="text-sm text-gray-500">{t('eventDetail.ageRange')}</div>
                 </div>
               </div>
             </div>
@@ -746,7 +828,7 @@ const EventDetailPage: React.FC = () => {
             {/* Stats Row */}
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
               <StatCard
-                title="Views"
+                title={t('eventDetail.stats.views')}
                 value={event.viewsCount || 0}
                 icon={
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -757,9 +839,9 @@ const EventDetailPage: React.FC = () => {
                 className="hover:shadow-lg transition-shadow"
               />
               <StatCard
-                title="Capacity"
+                title={t('eventDetail.stats.capacity')}
                 value={event.dateSchedule?.[0]?.totalSeats || 0}
-                subtitle="Total seats"
+                subtitle={t('eventDetail.stats.totalSeats')}
                 icon={
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -768,9 +850,9 @@ const EventDetailPage: React.FC = () => {
                 className="hover:shadow-lg transition-shadow"
               />
               <StatCard
-                title="Available"
+                title={t('eventDetail.stats.available')}
                 value={getCurrentAvailableSeats()}
-                subtitle={`${((getCurrentAvailableSeats() / (event.dateSchedule?.[0]?.totalSeats || 1)) * 100).toFixed(0)}% remaining`}
+                subtitle={t('eventDetail.stats.remaining', { percent: ((getCurrentAvailableSeats() / (event.dateSchedule?.[0]?.totalSeats || 1)) * 100).toFixed(0) })}
                 icon={
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -790,8 +872,8 @@ const EventDetailPage: React.FC = () => {
                     </svg>
                   </div>
                   <div>
-                    <div className="font-semibold text-red-800">⚡ Limited Availability!</div>
-                    <div className="text-red-600 text-sm">Only {getCurrentAvailableSeats()} spots remaining for this date</div>
+                    <div className="font-semibold text-red-800">⚡ {t('eventDetail.limitedAvailability')}</div>
+                    <div className="text-red-600 text-sm">{t('eventDetail.spotsRemaining', { count: getCurrentAvailableSeats() })}</div>
                   </div>
                 </div>
               </div>
@@ -806,26 +888,26 @@ const EventDetailPage: React.FC = () => {
                     className={`flex-1 py-4 px-6 text-center font-medium ${activeTab === 'about' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'}`}
                     onClick={() => setActiveTab('about')}
                   >
-                    About
+                    {t('eventDetail.tabs.about')}
                   </button>
                   <button
                     className={`flex-1 py-4 px-6 text-center font-medium ${activeTab === 'location' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'}`}
                     onClick={() => setActiveTab('location')}
                   >
-                    Location
+                    {t('eventDetail.tabs.location')}
                   </button>
                   <button
                     className={`flex-1 py-4 px-6 text-center font-medium ${activeTab === 'reviews' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'}`}
                     onClick={() => setActiveTab('reviews')}
                   >
-                    Reviews ({event.reviews.length})
+                    {t('eventDetail.tabs.reviews', { count: event.reviews.length })}
                   </button>
                   {event.faqs && event.faqs.length > 0 && (
                     <button
                       className={`flex-1 py-4 px-6 text-center font-medium ${activeTab === 'faqs' ? 'text-primary border-b-2 border-primary' : 'text-gray-500 hover:text-gray-700'}`}
                       onClick={() => setActiveTab('faqs')}
                     >
-                      FAQs ({event.faqs.length})
+                      {t('eventDetail.tabs.faqs', { count: event.faqs.length })}
                     </button>
                   )}
                 </div>
@@ -834,7 +916,7 @@ const EventDetailPage: React.FC = () => {
                   {/* About Tab */}
                   {activeTab === 'about' && (
                     <div>
-                      <h2 className="text-2xl font-bold mb-4 text-blue-600">About This Event</h2>
+                      <h2 className="text-2xl font-bold mb-4 text-blue-600">{t('eventDetail.aboutTitle')}</h2>
                       <div
                         className="text-gray-700 mb-6 leading-relaxed prose max-w-none"
                         dangerouslySetInnerHTML={{
@@ -847,17 +929,17 @@ const EventDetailPage: React.FC = () => {
                       />
 
                       <div className="bg-gray-50 p-4 rounded-lg mb-6 border border-gray-200">
-                        <h3 className="text-lg font-semibold mb-3 text-blue-600">Event Schedule</h3>
+                        <h3 className="text-lg font-semibold mb-3 text-blue-600">{t('eventDetail.scheduleTitle')}</h3>
                         <div className="flex items-center mb-2">
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-primary mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                           </svg>
                           <span className="font-medium text-gray-900">{getDisplayDate()}</span>
                         </div>
-                        <p className="text-gray-600 text-sm">Doors open 30 minutes before the event starts. Please arrive on time.</p>
+                        <p className="text-gray-600 text-sm">{t('eventDetail.doorsOpen')}</p>
                       </div>
 
-                      <h3 className="text-xl font-semibold mb-3 text-blue-600">Event Features</h3>
+                      <h3 className="text-xl font-semibold mb-3 text-blue-600">{t('eventDetail.featuresTitle')}</h3>
                       <ul className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
                         {event.features.map((feature: string, index: number) => (
                           <li key={index} className="flex items-center bg-gray-50 p-3 rounded-lg border border-gray-100">
@@ -870,15 +952,15 @@ const EventDetailPage: React.FC = () => {
                       </ul>
 
                       <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-                        <h3 className="text-lg font-semibold mb-3 text-blue-600">Additional Information</h3>
+                        <h3 className="text-lg font-semibold mb-3 text-blue-600">{t('eventDetail.additionalInfo')}</h3>
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                           <div>
-                            <div className="text-sm text-gray-500 mb-1">Age Range</div>
+                            <div className="text-sm text-gray-500 mb-1">{t('eventDetail.ageRange')}</div>
                             <div className="font-medium text-gray-900">{event.ageRange}</div>
                           </div>
                           <div>
-                            <div className="text-sm text-gray-500 mb-1">Capacity</div>
-                            <div className="font-medium text-gray-900">{event.capacity} participants</div>
+                            <div className="text-sm text-gray-500 mb-1">{t('eventDetail.stats.capacity')}</div>
+                            <div className="font-medium text-gray-900">{t('eventDetail.participantsCount', { count: event.capacity })}</div>
                           </div>
                         </div>
                       </div>
@@ -888,7 +970,7 @@ const EventDetailPage: React.FC = () => {
                   {/* Location Tab */}
                   {activeTab === 'location' && (
                     <div>
-                      <h2 className="text-2xl font-bold mb-4 text-blue-600">Event Location</h2>
+                      <h2 className="text-2xl font-bold mb-4 text-blue-600">{t('eventDetail.locationTitle')}</h2>
                       <div className="bg-gray-50 p-4 rounded-lg mb-6 border border-gray-200">
                         <div className="flex items-center mb-4">
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-primary mr-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -899,46 +981,63 @@ const EventDetailPage: React.FC = () => {
                             <h3 className="font-medium text-gray-900">
                               {event.location?.city && event.location?.address
                                 ? `${event.location.city}, ${event.location.address}`
-                                : event.location?.city || event.location?.address || 'Location TBD'}
+                                : event.location?.city || event.location?.address || t('eventDetail.locationTbd')}
                             </h3>
                             <p className="text-gray-600 text-sm">{event.location?.address}</p>
                           </div>
                         </div>
                         <div className="bg-gray-200 h-64 rounded-lg mb-4">
-                          {/* Map placeholder */}
-                          <div className="h-full flex items-center justify-center text-gray-500">
-                            Map view would be displayed here
-                          </div>
+                          {isValidCoordinates(event.location?.coordinates) ? (
+                            <Suspense fallback={<div className="h-full rounded-lg animate-pulse" />}>
+                              <LocationMap
+                                position={event.location.coordinates}
+                                title={event.title}
+                                address={event.location.address}
+                                className="h-64"
+                              />
+                            </Suspense>
+                          ) : (
+                            <div className="h-full flex items-center justify-center text-gray-500">
+                              {t('eventDetail.mapUnavailableEvent')}
+                            </div>
+                          )}
                         </div>
                         <div className="flex justify-between">
-                          <button className="text-primary hover:text-primary-dark flex items-center">
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
-                            </svg>
-                            Get Directions
-                          </button>
+                          {isValidCoordinates(event.location?.coordinates) && (
+                            <a
+                              href={getDirectionsUrl(event.location.coordinates)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary hover:text-primary-dark flex items-center"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                              </svg>
+                              {t('eventDetail.getDirections')}
+                            </a>
+                          )}
                           <button className="text-primary hover:text-primary-dark flex items-center">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                             </svg>
-                            Share Location
+                            {t('eventDetail.shareLocation')}
                           </button>
                         </div>
                       </div>
                       <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-gray-900">
-                        <h3 className="font-bold mb-3">Transportation Options</h3>
+                        <h3 className="font-bold mb-3">{t('eventDetail.transportTitle')}</h3>
                         <ul className="space-y-3">
                           <li className="flex items-center">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-primary mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path d="M9 19c-5 1.5-5-2.5-7-3m14 6v-3.87a3.37 3.37 0 0 0-.94-2.61c3.14-.35 6.44-1.54 6.44-7A5.44 5.44 0 0 0 20 4.77 5.07 5.07 0 0 0 19.91 1S18.73.65 16 2.48a13.38 13.38 0 0 0-7 0C6.27.65 5.09 1 5.09 1A5.07 5.07 0 0 0 5 4.77a5.44 5.44 0 0 0-1.5 3.78c0 5.42 3.3 6.61 6.44 7A3.37 3.37 0 0 0 9 18.13V22" />
                             </svg>
-                            <span>Public Transit: Bus lines 42, 56 stop nearby</span>
+                            <span>{t('eventDetail.transit')}</span>
                           </li>
                           <li className="flex items-center">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-primary mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
                             </svg>
-                            <span>Parking: Available on-site (limited spaces)</span>
+                            <span>{t('eventDetail.parking')}</span>
                           </li>
                         </ul>
                       </div>
@@ -949,9 +1048,9 @@ const EventDetailPage: React.FC = () => {
                   {activeTab === 'reviews' && (
                     <div>
                       <div className="flex justify-between items-center mb-6">
-                        <h2 className="text-2xl font-bold text-blue-600">Customer Reviews</h2>
+                        <h2 className="text-2xl font-bold text-blue-600">{t('eventDetail.reviewsTitle')}</h2>
                         <button className="bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition-colors">
-                          Write a Review
+                          {t('eventDetail.writeReview')}
                         </button>
                       </div>
 
@@ -989,13 +1088,13 @@ const EventDetailPage: React.FC = () => {
                                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
                                   </svg>
-                                  Helpful (12)
+                                  {t('eventDetail.helpful', { count: 12 })}
                                 </button>
                                 <button className="text-gray-500 hover:text-primary text-sm flex items-center">
                                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z" />
                                   </svg>
-                                  Reply
+                                  {t('eventDetail.reply')}
                                 </button>
                               </div>
                             </div>
@@ -1006,9 +1105,9 @@ const EventDetailPage: React.FC = () => {
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto text-gray-400 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
                           </svg>
-                          <p className="text-gray-600 mb-4">No reviews yet. Be the first to share your experience!</p>
+                          <p className="text-gray-600 mb-4">{t('eventDetail.noReviews')}</p>
                           <button className="bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition-colors">
-                            Write a Review
+                            {t('eventDetail.writeReview')}
                           </button>
                         </div>
                       )}
@@ -1018,7 +1117,7 @@ const EventDetailPage: React.FC = () => {
                   {/* FAQs Tab */}
                   {activeTab === 'faqs' && event.faqs && event.faqs.length > 0 && (
                     <div>
-                      <h2 className="text-2xl font-bold mb-6">Frequently Asked Questions</h2>
+                      <h2 className="text-2xl font-bold mb-6">{t('eventDetail.faqTitle')}</h2>
                       <div className="space-y-4">
                         {event.faqs.map((faq: any, index: number) => (
                           <div key={index} className="bg-gray-50 rounded-lg p-5 border border-gray-200 hover:border-primary-200 transition-colors">
@@ -1056,7 +1155,7 @@ const EventDetailPage: React.FC = () => {
                         <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                         </svg>
-                        Share
+                        {t('eventDetail.share')}
                       </button>
                       <button
                         onClick={handleToggleFavorite}
@@ -1068,7 +1167,7 @@ const EventDetailPage: React.FC = () => {
                         <svg className="w-5 h-5 mr-2" fill={isFavorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
                         </svg>
-                        {isFavorite ? 'Saved' : 'Save'}
+                        {isFavorite ? t('eventDetail.saved') : t('eventDetail.save')}
                       </button>
                     </div>
                   </CardContent>
@@ -1084,12 +1183,12 @@ const EventDetailPage: React.FC = () => {
             <Card variant="glass" className="sticky top-8 shadow-2xl">
               <CardHeader>
                 <CardTitle className="text-2xl flex items-center">
-                  🎫 Book Your Spot
+                  🎫 {t('eventDetail.bookYourSpot')}
                 </CardTitle>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">Starting from</span>
+                  <span className="text-sm text-gray-600">{t('eventDetail.startingFrom')}</span>
                   <div className="text-3xl font-bold bg-gradient-to-r from-primary-600 to-primary-800 bg-clip-text text-transparent">
-                    {event.currency || 'AED'} {currentPrice}
+                    {event.currency || 'AED'} {startingPrice}
                   </div>
                 </div>
 
@@ -1106,8 +1205,8 @@ const EventDetailPage: React.FC = () => {
                     </div>
                   </div>
                   <div className="flex justify-between text-sm text-gray-600">
-                    <span className="font-medium">{getCurrentAvailableSeats()} available</span>
-                    <span>{event.dateSchedule?.[0]?.totalSeats || 0} total</span>
+                    <span className="font-medium">{t('eventDetail.availableCount', { count: getCurrentAvailableSeats() })}</span>
+                    <span>{t('eventDetail.totalCount', { count: event.dateSchedule?.[0]?.totalSeats || 0 })}</span>
                   </div>
                 </div>
               </CardHeader>
@@ -1116,7 +1215,7 @@ const EventDetailPage: React.FC = () => {
                 {/* Date Selection */}
                 <div className="space-y-2">
                   <label className="block text-gray-700 text-sm font-semibold">
-                    📅 Select Date
+                    📅 {t('eventDetail.selectDate')}
                   </label>
                   <EventDatePicker
                     dateSchedules={event.dateSchedule || []}
@@ -1127,34 +1226,50 @@ const EventDetailPage: React.FC = () => {
                 </div>
 
                 {/* Quantity Selector */}
-                <div className="space-y-3">
-                  <label className="block text-gray-700 text-sm font-semibold">
-                    🎟️ Number of Tickets
-                  </label>
-                  <div className="flex items-center bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-2 border border-gray-200 shadow-inner">
-                    <button
-                      className="flex items-center justify-center w-12 h-12 bg-white text-gray-700 rounded-xl hover:bg-gray-100 hover:shadow-md transition-all focus:outline-none shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                      onClick={() => setQuantity(Math.max(1, quantity - 1))}
-                      disabled={quantity <= 1}
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
-                      </svg>
-                    </button>
-                    <div className="flex-1 text-center py-3 font-bold text-xl text-gray-900">
-                      {quantity}
+                {usesTicketTypes ? (
+                  <div className="space-y-3">
+                    <label className="block text-gray-700 text-sm font-semibold">
+                      🎟️ {t('eventDetail.tickets')}
+                    </label>
+                    <TicketTypeSelector
+                      ticketTypes={ticketTypes}
+                      selection={ticketSelection}
+                      schedule={currentSchedule}
+                      currency={event.currency || 'AED'}
+                      maxTickets={currentSchedule?.unlimitedSeats ? MAX_TICKETS_PER_BOOKING : Math.min(MAX_TICKETS_PER_BOOKING, getCurrentAvailableSeats())}
+                      onChange={setTicketSelection}
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <label className="block text-gray-700 text-sm font-semibold">
+                      🎟️ {t('eventDetail.numberOfTickets')}
+                    </label>
+                    <div className="flex items-center bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-2 border border-gray-200 shadow-inner">
+                      <button
+                        className="flex items-center justify-center w-12 h-12 bg-white text-gray-700 rounded-xl hover:bg-gray-100 hover:shadow-md transition-all focus:outline-none shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                        disabled={quantity <= 1}
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                        </svg>
+                      </button>
+                      <div className="flex-1 text-center py-3 font-bold text-xl text-gray-900">
+                        {quantity}
+                      </div>
+                      <button
+                        className="flex items-center justify-center w-12 h-12 bg-white text-gray-700 rounded-xl hover:bg-gray-100 hover:shadow-md transition-all focus:outline-none shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        onClick={() => setQuantity(Math.min(getCurrentAvailableSeats(), quantity + 1))}
+                        disabled={quantity >= getCurrentAvailableSeats()}
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                      </button>
                     </div>
-                    <button
-                      className="flex items-center justify-center w-12 h-12 bg-white text-gray-700 rounded-xl hover:bg-gray-100 hover:shadow-md transition-all focus:outline-none shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                      onClick={() => setQuantity(Math.min(getCurrentAvailableSeats(), quantity + 1))}
-                      disabled={quantity >= getCurrentAvailableSeats()}
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                      </svg>
-                    </button>
                   </div>
-                </div>
+                )}
 
                 {/* Enhanced Pricing Breakdown */}
                 <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-5 space-y-3 border border-gray-200">
@@ -1163,27 +1278,34 @@ const EventDetailPage: React.FC = () => {
                       <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 5v2m0 4v2m0 4v2M5 5a2 2 0 00-2 2v3a2 2 0 110 4v3a2 2 0 002 2h14a2 2 0 002-2v-3a2 2 0 110-4V7a2 2 0 00-2-2H5z" />
                       </svg>
-                      Tickets × {quantity}
+                      {t('eventDetail.ticketsTimes', { count: ticketCount })}
                     </span>
-                    <span className="font-semibold text-gray-900">{event.currency || 'AED'} {(currentPrice * quantity).toFixed(2)}</span>
+                    <span className="font-semibold text-gray-900">{event.currency || 'AED'} {ticketsSubtotal.toFixed(2)}</span>
                   </div>
+                  {usesTicketTypes && ticketLines.length > 0 && (
+                    <TicketBreakdown lines={ticketLines} currency={event.currency || 'AED'} className="ps-5" />
+                  )}
                   <div className="flex justify-between text-sm items-center">
                     <span className="text-gray-600 flex items-center">
                       <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
                       </svg>
-                      Service Fee (10%)
+                      {t('eventDetail.serviceFee', { rate: 10 })}
                     </span>
-                    <span className="font-semibold text-gray-900">{event.currency || 'AED'} {(currentPrice * quantity * 0.1).toFixed(2)}</span>
+                    <span className="font-semibold text-gray-900">{event.currency || 'AED'} {(ticketsSubtotal * 0.1).toFixed(2)}</span>
                   </div>
                   <div className="border-t border-gray-300 pt-3">
                     <div className="flex justify-between font-bold text-lg items-center">
-                      <span className="text-gray-900">Total</span>
-                      <span className="text-primary-600 text-2xl">{event.currency || 'AED'} {(currentPrice * quantity * 1.1).toFixed(2)}</span>
+                      <span className="text-gray-900">{t('eventDetail.total')}</span>
+                      <span className="text-primary-600 text-2xl">{event.currency || 'AED'} {(ticketsSubtotal * 1.1).toFixed(2)}</span>
                     </div>
                   </div>
                 </div>
 
+                {selectedDate && getCurrentAvailableSeats() === 0 && currentSchedule?._id && !event.isAffiliateEvent && (
+                  <WaitlistPanel eventId={event._id} dateScheduleId={currentSchedule._id} />
+                )}
+
                 {/* Action Buttons */}
                 <div className="space-y-3">
                   <button
@@ -1194,7 +1316,7 @@ const EventDetailPage: React.FC = () => {
                         : 'bg-gradient-to-r from-primary-500 to-primary-700 hover:from-primary-600 hover:to-primary-800 text-white shadow-lg hover:shadow-xl transform hover:-translate-y-1 hover:scale-105'
                       }`}
                   >
-                    {!selectedDate ? '📅 Select Date to Book' : getCurrentAvailableSeats() === 0 ? '❌ Sold Out' : '🎫 Book Now'}
+                    {!selectedDate ? `📅 ${t('eventDetail.selectDateToBook')}` : getCurrentAvailableSeats() === 0 ? `❌ ${t('eventDetail.soldOut')}` : `🎫 ${t('eventDetail.bookNow')}`}
                   </button>
 
                   <button
@@ -1205,7 +1327,7 @@ const EventDetailPage: React.FC = () => {
                         : 'bg-white text-primary-600 border-primary-200 hover:bg-primary-50 hover:border-primary-300 transform hover:-translate-y-0.5'
                       }`}
                   >
-                    {eventInCart ? '✅ Already in Cart' : !selectedDate ? '🛒 Select Date' : getCurrentAvailableSeats() === 0 ? '❌ Sold Out' : '🛒 Add to Cart'}
+                    {eventInCart ? `✅ ${t('eventDetail.alreadyInCart')}` : !selectedDate ? `🛒 ${t('eventDetail.selectDate')}` : getCurrentAvailableSeats() === 0 ? `❌ ${t('eventDetail.soldOut')}` : `🛒 ${t('eventDetail.addToCart')}`}
                   </button>
                 </div>
 
@@ -1214,7 +1336,7 @@ const EventDetailPage: React.FC = () => {
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
                   </svg>
-                  <span>🔒 Secure booking • No charge until confirmed</span>
+                  <span>🔒 {t('eventDetail.secureBooking')}</span>
                 </div>
               </CardContent>
             </Card>
@@ -1227,7 +1349,7 @@ const EventDetailPage: React.FC = () => {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-4m-5 0H9m0 0H5m0 0h2M7 7h3M7 10h3M7 13h3" />
                     </svg>
                   </div>
-                  Event Organizer
+                  {t('eventDetail.organizerTitle')}
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -1247,24 +1369,24 @@ const EventDetailPage: React.FC = () => {
                 </div>
 
                 <div className="bg-gray-50 rounded-lg p-3">
-                  <div className="text-sm font-medium text-gray-700 mb-1">Professional Event Organizer</div>
-                  <div className="text-xs text-gray-600">Specializing in {event.category?.toLowerCase() || 'general'} events for children</div>
+                  <div className="text-sm font-medium text-gray-700 mb-1">{t('eventDetail.professionalOrganizer')}</div>
+                  <div className="text-xs text-gray-600">{t('eventDetail.specializing', { category: event.category?.toLowerCase() || t('eventDetail.generalCategory') })}</div>
                 </div>
 
                 <div className="flex space-x-2">
                   <button
                     onClick={handleContactVendor}
                     className="flex-1 py-2 px-3 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 transition-colors"
-                    title="Send email to vendor"
+                    title={t('eventDetail.contactVendor')}
                   >
-                    Contact
+                    {t('eventDetail.contact')}
                   </button>
                   <button
                     onClick={handleViewVendorProfile}
                     className="flex-1 py-2 px-3 border border-primary-200 text-primary-600 text-sm rounded-lg hover:bg-primary-50 transition-colors"
-                    title="View vendor profile"
+                    title={t('eventDetail.viewVendorProfile')}
                   >
-                    View Profile
+                    {t('eventDetail.viewProfile')}
                   </button>
                 </div>
               </CardContent>
@@ -1280,7 +1402,7 @@ const EventDetailPage: React.FC = () => {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                     </svg>
                   </div>
-                  Event Location
+                  {t('eventDetail.locationTitle')}
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -1292,21 +1414,40 @@ const EventDetailPage: React.FC = () => {
                   </div>
                 </div>
 
-                <div className="bg-gray-50 rounded-lg h-32 flex items-center justify-center text-gray-500">
-                  <div className="text-center">
-                    <svg className="w-8 h-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
-                    </svg>
-                    <div className="text-sm">Interactive Map</div>
+                {isValidCoordinates(event.location?.coordinates) ? (
+                  <Suspense fallback={<div className="bg-gray-50 rounded-lg h-40 animate-pulse" />}>
+                    <LocationMap
+                      position={event.location.coordinates}
+                      title={event.title}
+                      address={event.location.address}
+                      zoom={14}
+                      className="h-40"
+                    />
+                  </Suspense>
+                ) : (
+                  <div className="bg-gray-50 rounded-lg h-32 flex items-center justify-center text-gray-500">
+                    <div className="text-center">
+                      <svg className="w-8 h-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                      </svg>
+                      <div className="text-sm">{t('eventDetail.mapUnavailable')}</div>
+                    </div>
                   </div>
-                </div>
+                )}
 
                 <div className="flex space-x-2">
-                  <button className="flex-1 py-2 px-3 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors">
-                    Get Directions
-                  </button>
+                  {isValidCoordinates(event.location?.coordinates) && (
+                    <a
+                      href={getDirectionsUrl(event.location.coordinates)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-1 py-2 px-3 bg-green-600 text-white text-sm text-center rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                      {t('eventDetail.getDirections')}
+                    </a>
+                  )}
                   <button className="flex-1 py-2 px-3 border border-green-200 text-green-600 text-sm rounded-lg hover:bg-green-50 transition-colors">
-                    Share Location
+                    {t('eventDetail.shareLocation')}
                   </button>
                 </div>
               </CardContent>
@@ -1321,32 +1462,32 @@ const EventDetailPage: React.FC = () => {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
                   </div>
-                  Event Details
+                  {t('eventDetail.detailsTitle')}
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="flex justify-between items-center py-2 border-b border-gray-100 text-gray-900">
-                  <span className="text-sm text-gray-600">Created</span>
+                  <span className="text-sm text-gray-600">{t('eventDetail.meta.created')}</span>
                   <span className="text-sm font-medium">{format(new Date(event.createdAt), 'MMM d, yyyy')}</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                  <span className="text-sm text-gray-600">Last Updated</span>
+                  <span className="text-sm text-gray-600">{t('eventDetail.meta.updated')}</span>
                   <span className="text-sm font-medium text-gray-900">{format(new Date(event.updatedAt), 'MMM d, yyyy')}</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                  <span className="text-sm text-gray-600">Event Type</span>
+                  <span className="text-sm text-gray-600">{t('eventDetail.meta.type')}</span>
                   <Badge variant="secondary" size="sm">{event.type}</Badge>
                 </div>
                 {event.venueType && (
                   <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                    <span className="text-sm text-gray-600">Venue Type</span>
+                    <span className="text-sm text-gray-600">{t('eventDetail.meta.venueType')}</span>
                     <Badge variant={event.venueType?.toLowerCase() as 'outdoor' | 'indoor'} size="sm">
                       {event.venueType}
                     </Badge>
                   </div>
                 )}
                 <div className="flex justify-between items-center py-2">
-                  <span className="text-sm text-gray-600">Status</span>
+                  <span className="text-sm text-gray-600">{t('eventDetail.meta.status')}</span>
                   <Badge variant="success" size="sm">✅ {event.status}</Badge>
                 </div>
               </CardContent>
@@ -1360,31 +1501,31 @@ const EventDetailPage: React.FC = () => {
                     <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z" />
                     </svg>
-                    Claim This Event
+                    {t('eventDetail.claim.title')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <p className="text-sm text-gray-700">
-                    This is an unclaimed affiliate event. As a verified vendor, you can claim this event and manage it under your account.
+                    {t('eventDetail.claim.description')}
                   </p>
                   <div className="bg-white rounded-lg p-3 space-y-2 text-sm">
                     <div className="flex items-start">
                       <svg className="w-5 h-5 text-green-500 mr-2 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>Manage event details and settings</span>
+                      <span>{t('eventDetail.claim.benefitManage')}</span>
                     </div>
                     <div className="flex items-start">
                       <svg className="w-5 h-5 text-green-500 mr-2 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>Track bookings and analytics</span>
+                      <span>{t('eventDetail.claim.benefitTrack')}</span>
                     </div>
                     <div className="flex items-start">
                       <svg className="w-5 h-5 text-green-500 mr-2 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>Become the official event provider</span>
+                      <span>{t('eventDetail.claim.benefitOfficial')}</span>
                     </div>
                   </div>
                   <button
@@ -1398,10 +1539,10 @@ const EventDetailPage: React.FC = () => {
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        Claiming...
+                        {t('eventDetail.claim.claiming')}
                       </span>
                     ) : (
-                      '🎯 Claim This Event'
+                      `🎯 ${t('eventDetail.claim.title')}`
                     )}
                   </button>
                 </CardContent>
@@ -1,10 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, lazy, Suspense } from 'react';
 import { Link } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
 import { format } from 'date-fns';
 import eventsAPI from '../services/api/eventsAPI';
 import { getPlaceholderUrl } from '../utils/placeholderImage';
+import { isValidCoordinates, isWithinArea, SearchArea } from '../utils/mapUtils';
+import { selectSearchPreferences, setSearchArea } from '../store/slices/searchSlice';
 import SEO from '@/components/common/SEO';
 
+// Leaflet is only downloaded once the map view is opened
+const EventsMap = lazy(() => import('../components/map/EventsMap'));
+
 // Mock data for when backend is unavailable
 const mockEvents = [
   {
@@ -70,6 +76,8 @@ const mockEvents = [
 ];
 
 const EventsPage: React.FC = () => {
+  const dispatch = useDispatch();
+  const { searchRadius } = useSelector(selectSearchPreferences);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [events, setEvents] = useState(mockEvents);
@@ -81,6 +89,8 @@ const EventsPage: React.FC = () => {
     searchQuery: ''
   });
   const [sortBy, setSortBy] = useState('date'); // 'date', 'price-low', 'price-high'
+  const [viewMode, setViewMode] = useState<'grid' | 'map'>('grid');
+  const [searchArea, setSearchAreaState] = useState<SearchArea | null>(null);
   
   // Simulate fetching data from backend
   useEffect(() => {
@@ -99,6 +109,7 @@ const EventsPage: React.FC = () => {
           image: event.images?.[0] || `https://via.placeholder.com/400x300?text=${encodeURIComponent(event.title)}`,
           date: event.dateSchedule?.[0]?.startDate || new Date().toISOString(),
           location: event.location?.city || event.location?.address || 'Location TBD',
+          coordinates: event.location?.coordinates,
           price: event.price || 0
         })) : []);
         setUsingMockData(false);
@@ -138,6 +149,17 @@ const EventsPage: React.FC = () => {
     }
   };
 
+  const handleAreaChange = (area: SearchArea | null) => {
+    setSearchAreaState(area);
+    dispatch(setSearchArea(area));
+  };
+
+  const resetAllFilters = () => {
+    setFilters({category: '', priceRange: [0, 100], date: '', searchQuery: ''});
+    setSortBy('date');
+    handleAreaChange(null);
+  };
+
   // Filter events based on search query and other filters
   const getFilteredEvents = () => {
     return events.filter(event => {
@@ -146,6 +168,12 @@ const EventsPage: React.FC = () => {
       
       // Apply price filter
       if (event.price > filters.priceRange[1]) return false;
+
+      // Apply map search area; events without a pin can't be placed inside it
+      if (searchArea) {
+        const coordinates = (event as any).coordinates;
+        if (!isValidCoordinates(coordinates) || !isWithinArea(coordinates, searchArea)) return false;
+      }
       
       // Apply date filter (simplified for demo)
       if (filters.date) {
@@ -289,10 +317,7 @@ const EventsPage: React.FC = () => {
           
           <button 
             className="w-full bg-primary text-white py-3 rounded-md hover:bg-primary-dark transition-colors font-medium"
-            onClick={() => {
-              setFilters({category: '', priceRange: [0, 100], date: '', searchQuery: ''});
-              setSortBy('date');
-            }}
+            onClick={resetAllFilters}
           >
             Reset All Filters
           </button>
@@ -304,24 +329,62 @@ const EventsPage: React.FC = () => {
             <div className="text-gray-600">
               <span className="font-medium">{filteredEvents.length}</span> events found
             </div>
-            <div className="hidden md:block">
-              <div className="flex items-center space-x-2">
-                <span className="text-sm text-gray-600">View:</span>
-                <button className="p-2 bg-primary text-white rounded-md">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-                  </svg>
-                </button>
-                <button className="p-2 bg-gray-200 text-gray-600 rounded-md">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
-                  </svg>
-                </button>
-              </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">View:</span>
+              <button
+                onClick={() => setViewMode('grid')}
+                aria-pressed={viewMode === 'grid'}
+                title="Grid view"
+                className={`p-2 rounded-md ${viewMode === 'grid' ? 'bg-primary text-white' : 'bg-gray-200 text-gray-600'}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setViewMode('map')}
+                aria-pressed={viewMode === 'map'}
+                title="Map view"
+                className={`p-2 rounded-md ${viewMode === 'map' ? 'bg-primary text-white' : 'bg-gray-200 text-gray-600'}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+              </button>
             </div>
           </div>
+
+          {searchArea && (
+            <div className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+              <span>Within {searchArea.radius} km of the selected point</span>
+              <button onClick={() => handleAreaChange(null)} className="text-primary hover:underline">
+                Clear
+              </button>
+            </div>
+          )}
+
+          {viewMode === 'map' && (
+            <Suspense fallback={<div className="h-[32rem] rounded-lg bg-gray-100 animate-pulse" />}>
+              <EventsMap
+                items={filteredEvents
+                  .filter(event => isValidCoordinates(event.coordinates))
+                  .map(event => ({
+                    id: event.id,
+                    position: event.coordinates,
+                    title: event.title,
+                    href: `/events/${event.id}`,
+                    subtitle: event.location,
+                    priceLabel: `${event.currency || 'AED'} ${event.price}`,
+                    imageUrl: event.image,
+                  }))}
+                area={searchArea}
+                defaultRadius={searchRadius}
+                onAreaChange={handleAreaChange}
+              />
+            </Suspense>
+          )}
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${viewMode === 'map' ? 'hidden' : ''}`}>
             {filteredEvents.map(event => {
               // Format date for display
               const eventDate = new Date(event.date);
@@ -384,10 +447,7 @@ const EventsPage: React.FC = () => {
               <h3 className="text-xl font-medium mb-2">No events found</h3>
               <p className="text-gray-600 mb-4">Try adjusting your filters or search query</p>
               <button 
-                onClick={() => {
-                  setFilters({category: '', priceRange: [0, 100], date: '', searchQuery: ''});
-                  setSortBy('date');
-                }}
+                onClick={resetAllFilters}
                 className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors"
               >
                 Reset All Filters
@@ -32,6 +32,7 @@ import {
   selectIsRegistrationLoading,
 } from '@/store/slices/registrationsSlice';
 import { selectUser } from '@/store/slices/authSlice';
+import { usePermissions } from '@/hooks/usePermissions';
 import { RegistrationStatus, RegistrationReviewStatus, FormField } from '@/types/registration';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
@@ -46,6 +47,7 @@ const RegistrationDetailPage: React.FC = () => {
   const registration = useSelector(selectCurrentRegistration);
   const isLoading = useSelector(selectIsRegistrationLoading);
   const currentUser = useSelector(selectUser);
+  const { hasStaffPermission } = usePermissions();
 
   const [reviewModalOpen, setReviewModalOpen] = useState(false);
   const [reviewAction, setReviewAction] = useState<RegistrationReviewStatus | null>(null);
@@ -58,10 +60,11 @@ const RegistrationDetailPage: React.FC = () => {
     }
   }, [registrationId, dispatch]);
 
-  // Check if current user is vendor
-  const isVendor = currentUser?.role === 'vendor';
+  // Vendors review registrations, as do staff allowed to approve them for this event
+  const isReviewer = currentUser?.role === 'vendor' ||
+    (currentUser?.role === 'employee' && hasStaffPermission('registrations.approve', registration?.eventId));
   const isOwner = registration && currentUser && registration.userId === currentUser._id;
-  const canReview = isVendor && registration?.status &&
+  const canReview = isReviewer && registration?.status &&
     [RegistrationStatus.SUBMITTED, RegistrationStatus.UNDER_REVIEW].includes(registration.status);
   const canWithdraw = isOwner && registration?.status &&
     [RegistrationStatus.DRAFT, RegistrationStatus.SUBMITTED, RegistrationStatus.UNDER_REVIEW].includes(registration.status);
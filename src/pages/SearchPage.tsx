@@ -1,13 +1,23 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, lazy, Suspense } from 'react';
 import { useSearchParams, Link, useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaSearch, FaFilter, FaTimes, FaStar, FaMapMarkerAlt, FaCalendarAlt, FaClock, FaUsers, FaTag } from 'react-icons/fa';
+import { FaSearch, FaFilter, FaTimes, FaStar, FaMapMarkerAlt, FaCalendarAlt, FaClock, FaUsers, FaTag, FaMap, FaThLarge } from 'react-icons/fa';
 import { SearchEvent, SearchFilters, CategoryOption, FilterOptions } from '../types/search';
 import { ApiService } from '../services/api';
+import { selectSearchPreferences, setSearchArea } from '../store/slices/searchSlice';
+import { isValidCoordinates, SearchArea } from '../utils/mapUtils';
+import type { EventMapItem } from '../components/map/EventsMap';
 import debounce from 'lodash/debounce'; // Import only debounce (not entire lodash library)
 import SEO from '@/components/common/SEO';
 import DOMPurify from 'isomorphic-dompurify';
 
+// Leaflet is only downloaded once the map view is opened
+const EventsMap = lazy(() => import('../components/map/EventsMap'));
+
+const LIST_PAGE_SIZE = 12;
+const MAP_PAGE_SIZE = 100;
+
 // FilterContent Component
 interface FilterContentProps {
   filters: SearchFilters;
@@ -316,6 +326,9 @@ const FilterContent: React.FC<FilterContentProps> = ({
 const SearchPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  const dispatch = useDispatch();
+  const { searchRadius } = useSelector(selectSearchPreferences);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>(searchParams.get('view') === 'map' ? 'map' : 'list');
   const query = searchParams.get('q') || '';
   const [events, setEvents] = useState<SearchEvent[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
@@ -348,10 +361,13 @@ const SearchPage: React.FC = () => {
       featured: searchParams.get('featured') === 'true' ? true : undefined,
       dateFrom: searchParams.get('dateFrom') || undefined,
       dateTo: searchParams.get('dateTo') || undefined,
+      lat: searchParams.get('lat') ? Number(searchParams.get('lat')) : undefined,
+      lng: searchParams.get('lng') ? Number(searchParams.get('lng')) : undefined,
+      radius: searchParams.get('radius') ? Number(searchParams.get('radius')) : undefined,
       sortBy: searchParams.get('sortBy') || 'createdAt',
       sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
       page: searchParams.get('page') ? Number(searchParams.get('page')) : 1,
-      limit: 12
+      limit: searchParams.get('view') === 'map' ? MAP_PAGE_SIZE : LIST_PAGE_SIZE
     };
   });
 
@@ -388,6 +404,11 @@ const SearchPage: React.FC = () => {
         if (searchFilters.featured !== undefined) params.featured = searchFilters.featured.toString();
         if (searchFilters.dateFrom) params.dateFrom = searchFilters.dateFrom;
         if (searchFilters.dateTo) params.dateTo = searchFilters.dateTo;
+        if (searchFilters.lat !== undefined && searchFilters.lng !== undefined && searchFilters.radius) {
+          params.lat = searchFilters.lat;
+          params.lng = searchFilters.lng;
+          params.radius = searchFilters.radius;
+        }
         
         // Fetch events from API using ApiService directly
         const response = await ApiService.get('/events', { params });
@@ -546,12 +567,18 @@ const SearchPage: React.FC = () => {
     if (filters.featured) params.set('featured', 'true');
     if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
     if (filters.dateTo) params.set('dateTo', filters.dateTo);
+    if (filters.lat !== undefined && filters.lng !== undefined && filters.radius) {
+      params.set('lat', filters.lat.toFixed(5));
+      params.set('lng', filters.lng.toFixed(5));
+      params.set('radius', filters.radius.toString());
+    }
+    if (viewMode === 'map') params.set('view', 'map');
     if (filters.sortBy && filters.sortBy !== 'createdAt') params.set('sortBy', filters.sortBy);
     if (filters.sortOrder && filters.sortOrder !== 'desc') params.set('sortOrder', filters.sortOrder);
     if (filters.page && filters.page !== 1) params.set('page', filters.page.toString());
 
     setSearchParams(params, { replace: false });
-  }, [filters, query, setSearchParams]);
+  }, [filters, query, viewMode, setSearchParams]);
 
   // Handle search submission
   const handleSearch = (e?: React.FormEvent) => {
@@ -571,9 +598,45 @@ const SearchPage: React.FC = () => {
       sortBy: 'createdAt',
       sortOrder: 'desc',
       page: 1,
-      limit: 12
+      limit: viewMode === 'map' ? MAP_PAGE_SIZE : LIST_PAGE_SIZE
     });
-  }, []);
+    dispatch(setSearchArea(null));
+  }, [viewMode, dispatch]);
+
+  const searchArea = useMemo<SearchArea | null>(
+    () =>
+      filters.lat !== undefined && filters.lng !== undefined && filters.radius
+        ? { lat: filters.lat, lng: filters.lng, radius: filters.radius }
+        : null,
+    [filters.lat, filters.lng, filters.radius]
+  );
+
+  const handleAreaChange = useCallback((area: SearchArea | null) => {
+    setFilters(prev => ({ ...prev, lat: area?.lat, lng: area?.lng, radius: area?.radius, page: 1 }));
+    dispatch(setSearchArea(area));
+  }, [dispatch]);
+
+  // The map shows a larger page of results so nearby events aren't cut off
+  const handleViewModeChange = (mode: 'list' | 'map') => {
+    setViewMode(mode);
+    setFilters(prev => ({ ...prev, page: 1, limit: mode === 'map' ? MAP_PAGE_SIZE : LIST_PAGE_SIZE }));
+  };
+
+  const mapItems = useMemo<EventMapItem[]>(
+    () =>
+      events
+        .filter(event => isValidCoordinates(event.location?.coordinates))
+        .map(event => ({
+          id: event._id,
+          position: event.location.coordinates,
+          title: event.title,
+          href: `/events/${event._id}`,
+          subtitle: [event.location.city, event.location.address].filter(Boolean).join(', '),
+          priceLabel: `${event.price} ${event.currency}`,
+          imageUrl: event.images?.[0],
+        })),
+    [events]
+  );
 
   // Handle pagination
   const handlePageChange = useCallback((newPage: number) => {
@@ -581,7 +644,8 @@ const SearchPage: React.FC = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, []);
 
-  if (loading) {
+  // The map stays mounted while results reload so dragging the radius doesn't reset it
+  if (loading && viewMode === 'list') {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex flex-col items-center justify-center min-h-[60vh]">
@@ -671,25 +735,56 @@ const SearchPage: React.FC = () => {
                 </span>
               )}
             </p>
+            {searchArea && (
+              <p className="text-sm text-gray-600 mt-1 flex items-center gap-2">
+                <FaMapMarkerAlt className="text-primary" />
+                Within {searchArea.radius} km of the selected point
+                <button onClick={() => handleAreaChange(null)} className="text-primary hover:underline">
+                  Clear
+                </button>
+              </p>
+            )}
           </div>
-          <div className="hidden md:flex items-center gap-2">
-            <label className="text-gray-600 text-sm">Sort by:</label>
-            <select
-              value={`${filters.sortBy || 'createdAt'}-${filters.sortOrder || 'desc'}`}
-              onChange={(e) => {
-                const [sortBy, sortOrder] = e.target.value.split('-');
-                setFilters(prev => ({ ...prev, sortBy, sortOrder: sortOrder as 'asc' | 'desc', page: 1 }));
-              }}
-              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary bg-white text-gray-900"
-              disabled={loading}
-            >
-              <option value="createdAt-desc">Newest First</option>
-              <option value="createdAt-asc">Oldest First</option>
-              <option value="price-asc">Price: Low to High</option>
-              <option value="price-desc">Price: High to Low</option>
-              <option value="viewsCount-desc">Most Popular</option>
-              <option value="title-asc">Name: A to Z</option>
-            </select>
+          <div className="flex items-center gap-4">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden" role="group" aria-label="Results view">
+              <button
+                type="button"
+                onClick={() => handleViewModeChange('list')}
+                aria-pressed={viewMode === 'list'}
+                className={`p-2 ${viewMode === 'list' ? 'bg-primary text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                title="List view"
+              >
+                <FaThLarge />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleViewModeChange('map')}
+                aria-pressed={viewMode === 'map'}
+                className={`p-2 ${viewMode === 'map' ? 'bg-primary text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                title="Map view"
+              >
+                <FaMap />
+              </button>
+            </div>
+            <div className="hidden md:flex items-center gap-2">
+              <label className="text-gray-600 text-sm">Sort by:</label>
+              <select
+                value={`${filters.sortBy || 'createdAt'}-${filters.sortOrder || 'desc'}`}
+                onChange={(e) => {
+                  const [sortBy, sortOrder] = e.target.value.split('-');
+                  setFilters(prev => ({ ...prev, sortBy, sortOrder: sortOrder as 'asc' | 'desc', page: 1 }));
+                }}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary bg-white text-gray-900"
+                disabled={loading}
+              >
+                <option value="createdAt-desc">Newest First</option>
+                <option value="createdAt-asc">Oldest First</option>
+                <option value="price-asc">Price: Low to High</option>
+                <option value="price-desc">Price: High to Low</option>
+                <option value="viewsCount-desc">Most Popular</option>
+                <option value="title-asc">Name: A to Z</option>
+              </select>
+            </div>
           </div>
         </div>
       
@@ -762,7 +857,25 @@ const SearchPage: React.FC = () => {
         
         {/* Search Results */}
         <div className="lg:col-span-3">
-          {loading ? (
+          {viewMode === 'map' ? (
+            <Suspense
+              fallback={<div className="h-[32rem] rounded-lg bg-gray-100 animate-pulse" />}
+            >
+              <EventsMap
+                items={mapItems}
+                area={searchArea}
+                defaultRadius={searchRadius}
+                onAreaChange={handleAreaChange}
+                loading={loading}
+                className="h-[32rem] lg:h-[40rem]"
+              />
+              {pagination?.hasNextPage && (
+                <p className="text-sm text-gray-500 mt-3">
+                  Showing the first {events.length} of {pagination.totalEvents} results. Zoom in or set a search area to narrow them down.
+                </p>
+              )}
+            </Suspense>
+          ) : loading ? (
             <div className="text-center py-16 bg-white rounded-lg shadow-sm">
               <motion.div 
                 animate={{ rotate: 360 }}
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Calendar, MapPin, Ticket, User } from 'lucide-react';
+import SEO from '../components/common/SEO';
+import bookingAPI from '../services/api/bookingAPI';
+import type { TicketTransferInvite, TicketTransferStatus } from '../types/transfer';
+import { getEventImage } from '../utils/imageFallbacks';
+
+const CLOSED_MESSAGES: Record<Exclude<TicketTransferStatus, 'pending'>, string> = {
+  accepted: 'This ticket has already been accepted.',
+  declined: 'This transfer was declined. The ticket stayed with the sender.',
+  cancelled: 'The sender cancelled this transfer.',
+  expired: 'This transfer link has expired. Ask the sender to send it again.',
+};
+
+/**
+ * Landing page for the link sent to a ticket transfer's recipient. Accepting reissues the ticket
+ * to the signed-in account with a new QR code.
+ */
+const TicketTransferPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<TicketTransferInvite | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isResponding, setIsResponding] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadInvite = async () => {
+      try {
+        setLoading(true);
+        setInvite(await bookingAPI.getTransferInvite(token));
+        setError(null);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'This transfer link is invalid or has already been used.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!invite) return;
+
+    try {
+      setIsResponding(true);
+      await bookingAPI.acceptTicketTransfer(invite.token);
+      toast.success('Ticket accepted. It is now in My Tickets.');
+      navigate('/tickets');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || 'Failed to accept the ticket');
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!invite || !window.confirm(`Decline this ticket? It will stay with ${invite.senderName}.`)) return;
+
+    try {
+      setIsResponding(true);
+      await bookingAPI.declineTicketTransfer(invite.token);
+      setInvite({ ...invite, status: 'declined' });
+      toast.success('Transfer declined');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || 'Failed to decline the ticket');
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !invite) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-3">Transfer unavailable</h1>
+        <p className="text-gray-600 mb-6">{error || 'This transfer link is invalid or has already been used.'}</p>
+        <Link to="/tickets" className="text-primary font-medium hover:underline">
+          Go to my tickets
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <SEO title={`Ticket from ${invite.senderName} - ${invite.event.title} | Gema Events`} noIndex={true} noFollow={true} />
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <img
+            src={getEventImage(invite.event.images, invite.event.title, 800, 300)}
+            alt={invite.event.title}
+            className="w-full h-48 object-cover"
+          />
+          <div className="p-6 space-y-5">
+            <div>
+              <p className="text-sm font-semibold text-primary uppercase tracking-wide mb-1">
+                Ticket from {invite.senderName}
+              </p>
+              <h1 className="text-2xl font-bold text-gray-900">{invite.event.title}</h1>
+            </div>
+
+            {invite.message && (
+              <blockquote className="border-l-4 border-primary/40 pl-4 text-gray-700 italic">{invite.message}</blockquote>
+            )}
+
+            <div className="space-y-2 text-gray-700">
+              {invite.schedule && (
+                <p className="flex items-center">
+                  <Calendar className="w-5 h-5 me-2 text-gray-400" />
+                  {format(new Date(invite.schedule.startDateTime), 'EEEE, MMM d, yyyy · h:mm a')}
+                </p>
+              )}
+              {invite.event.location?.city && (
+                <p className="flex items-center">
+                  <MapPin className="w-5 h-5 me-2 text-gray-400" />
+                  {[invite.event.location.address, invite.event.location.city].filter(Boolean).join(', ')}
+                </p>
+              )}
+              <p className="flex items-center">
+                <User className="w-5 h-5 me-2 text-gray-400" />
+                Attendee: {invite.ticket.attendeeName}
+              </p>
+              <p className="flex items-center">
+                <Ticket className="w-5 h-5 me-2 text-gray-400" />
+                {invite.ticket.ticketType || 'Ticket'} #{invite.ticket.ticketNumber.slice(-8)}
+              </p>
+            </div>
+
+            {invite.status === 'pending' ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  Accepting moves the ticket to your account with a new QR code for entry.
+                  {invite.expiresAt && ` Accept by ${format(new Date(invite.expiresAt), 'MMM d, h:mm a')}.`}
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    type="button"
+                    onClick={handleAccept}
+                    disabled={isResponding}
+                    className="flex-1 py-3 rounded-lg bg-primary text-white font-semibold hover:bg-primary-dark disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isResponding ? 'Accepting...' : 'Accept ticket'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDecline}
+                    disabled={isResponding}
+                    className="py-3 px-6 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="rounded-lg px-4 py-3 bg-gray-50 text-gray-700">
+                {CLOSED_MESSAGES[invite.status]}
+                {invite.status === 'accepted' && (
+                  <Link to="/tickets" className="ms-2 text-primary font-medium hover:underline">
+                    View my tickets
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TicketTransferPage;
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Calendar, Clock, MapPin, Users } from 'lucide-react';
+import SEO from '../components/common/SEO';
+import waitlistAPI from '../services/api/waitlistAPI';
+import type { WaitlistClaim } from '../types/waitlist';
+import { formatTimeRemaining, getOfferTimeRemaining } from '../utils/waitlistUtils';
+import { getEventImage } from '../utils/imageFallbacks';
+
+/**
+ * Landing page for the claim link sent when waitlisted seats are offered
+ */
+const WaitlistClaimPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [claim, setClaim] = useState<WaitlistClaim | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadClaim = async () => {
+      try {
+        setLoading(true);
+        setClaim(await waitlistAPI.getClaim(token));
+        setError(null);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'This claim link is invalid or has already been used.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadClaim();
+  }, [token]);
+
+  // Keep the countdown current
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 30000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const remaining = getOfferTimeRemaining(claim?.expiresAt, now);
+
+  const handleContinue = () => {
+    if (!claim) return;
+
+    navigate(`/booking/${claim.event._id}`, {
+      state: {
+        quantity: claim.participants,
+        selectedDate: claim.schedule.startDateTime,
+        schedule: claim.schedule,
+        scheduleId: claim.schedule._id,
+        currency: claim.event.currency,
+        waitlistClaim: {
+          token: claim.token,
+          dateScheduleId: claim.schedule._id,
+          seats: claim.participants,
+          expiresAt: claim.expiresAt,
+        },
+      },
+    });
+  };
+
+  const handleDecline = async () => {
+    if (!claim || !window.confirm('Release these seats to the next family on the waitlist?')) return;
+
+    try {
+      setIsDeclining(true);
+      await waitlistAPI.declineClaim(claim.token);
+      toast.success('Offer declined. The seats have been released.');
+      navigate('/bookings');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || 'Failed to decline the offer');
+    } finally {
+      setIsDeclining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !claim) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-lg text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-3">Offer unavailable</h1>
+        <p className="text-gray-600 mb-6">{error || 'This claim link is invalid or has already been used.'}</p>
+        <Link to="/bookings" className="text-primary font-medium hover:underline">
+          Go to my bookings
+        </Link>
+      </div>
+    );
+  }
+
+  const expired = remaining <= 0;
+
+  return (
+    <>
+      <SEO title={`Claim your seats - ${claim.event.title} | Gema Events`} noIndex={true} noFollow={true} />
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <img
+            src={getEventImage(claim.event.images, claim.event.title, 800, 300)}
+            alt={claim.event.title}
+            className="w-full h-48 object-cover"
+          />
+          <div className="p-6 space-y-5">
+            <div>
+              <p className="text-sm font-semibold text-green-700 uppercase tracking-wide mb-1">Waitlist offer</p>
+              <h1 className="text-2xl font-bold text-gray-900">{claim.event.title}</h1>
+            </div>
+
+            <div className="space-y-2 text-gray-700">
+              <p className="flex items-center">
+                <Calendar className="w-5 h-5 me-2 text-gray-400" />
+                {format(new Date(claim.schedule.startDateTime), 'EEEE, MMM d, yyyy · h:mm a')}
+              </p>
+              {claim.event.location?.city && (
+                <p className="flex items-center">
+                  <MapPin className="w-5 h-5 me-2 text-gray-400" />
+                  {[claim.event.location.address, claim.event.location.city].filter(Boolean).join(', ')}
+                </p>
+              )}
+              <p className="flex items-center">
+                <Users className="w-5 h-5 me-2 text-gray-400" />
+                {claim.participants} {claim.participants === 1 ? 'seat' : 'seats'} held for you
+              </p>
+            </div>
+
+            <div
+              className={`flex items-center rounded-lg px-4 py-3 ${
+                expired ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-800'
+              }`}
+            >
+              <Clock className="w-5 h-5 me-2" />
+              {expired ? (
+                <span>This offer has expired and the seats have moved to the next family.</span>
+              ) : (
+                <span>
+                  Book within <strong>{formatTimeRemaining(remaining)}</strong> (until{' '}
+                  {format(new Date(claim.expiresAt), 'MMM d, h:mm a')})
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                type="button"
+                onClick={handleContinue}
+                disabled={expired}
+                className="flex-1 py-3 rounded-lg bg-primary text-white font-semibold hover:bg-primary-dark disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue to booking
+              </button>
+              <button
+                type="button"
+                onClick={handleDecline}
+                disabled={expired || isDeclining}
+                className="py-3 px-6 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isDeclining ? 'Declining...' : 'No thanks'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default WaitlistClaimPage;
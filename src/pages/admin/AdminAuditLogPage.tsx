@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Search } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+
+import AuditChangeList from '../../components/admin/AuditChangeList';
+import auditAPI from '../../services/api/auditAPI';
+import type { AuditEntityType, AuditLogEntry, AuditLogFilters } from '../../types/audit';
+import { AUDIT_ENTITY_LABELS, buildAuditCsvRows, formatAuditAction } from '../../utils/auditUtils';
+import { downloadCsv } from '../../utils/spreadsheetUtils';
+
+const PAGE_SIZE = 25;
+// Upper bound on entries fetched for one export; narrow the filters for more
+const EXPORT_LIMIT = 5000;
+
+const AdminAuditLogPage: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [actor, setActor] = useState('');
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [entityId, setEntityId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  const getFilters = useCallback((): AuditLogFilters => {
+    const filters: AuditLogFilters = {};
+    if (actor.trim()) filters.actor = actor.trim();
+    if (entityType) filters.entityType = entityType;
+    if (entityId.trim()) filters.entityId = entityId.trim();
+    if (from) filters.from = from;
+    if (to) filters.to = to;
+    return filters;
+  }, [actor, entityType, entityId, from, to]);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const page = await auditAPI.getAuditLogs({ ...getFilters(), page: currentPage, limit: PAGE_SIZE });
+      setEntries(page.entries);
+      setTotalPages(page.pagination.totalPages || 1);
+      setTotal(page.pagination.total);
+    } catch (error: any) {
+      console.error('Error fetching audit log:', error);
+      toast.error(error.response?.data?.message || 'Failed to fetch audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getFilters, currentPage]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(1);
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const page = await auditAPI.getAuditLogs({ ...getFilters(), page: 1, limit: EXPORT_LIMIT });
+      downloadCsv(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, buildAuditCsvRows(page.entries));
+      if (page.pagination.total > page.entries.length) {
+        toast(`Exported the latest ${page.entries.length} of ${page.pagination.total} entries. Narrow the filters to export the rest.`);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to export audit log');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent bg-white text-gray-900';
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+          <p className="mt-2 text-gray-600">Who changed what, when and why, across every admin action</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4 me-2" />
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Actor name or email"
+              value={actor}
+              onChange={(e) => updateFilter(setActor)(e.target.value)}
+              className={`${inputClass} pl-10`}
+            />
+          </div>
+          <select
+            value={entityType}
+            onChange={(e) => updateFilter(setEntityType)(e.target.value as AuditEntityType | '')}
+            className={inputClass}
+          >
+            <option value="">All entity types</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+              <option key={type} value={type}>
+                {AUDIT_ENTITY_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Entity ID"
+            value={entityId}
+            onChange={(e) => updateFilter(setEntityId)(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            aria-label="From date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => updateFilter(setFrom)(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            aria-label="To date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => updateFilter(setTo)(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-12 text-center text-gray-500">No audit entries match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => {
+                  const isExpanded = expandedId === entry._id;
+                  return (
+                    <React.Fragment key={entry._id}>
+                      <tr className="hover:bg-gray-50 align-top">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <p className="font-medium text-gray-900">{entry.actor?.name || 'System'}</p>
+                          {entry.actor?.email && <p className="text-gray-500">{entry.actor.email}</p>}
+                          {entry.actor?.impersonatorId && (
+                            <p className="text-xs text-amber-700">During an admin &quot;view as&quot; session</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{formatAuditAction(entry.action)}</td>
+                        <td className="px-6 py-4 text-sm">
+                          <p className="text-gray-900">{entry.entityLabel || entry.entityId}</p>
+                          <p className="text-gray-500">{AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType}</p>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700 max-w-xs">{entry.reason || '—'}</td>
+                        <td className="px-6 py-4 text-right">
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : entry._id)}
+                            className="inline-flex items-center text-sm text-primary hover:text-primary-dark"
+                            aria-expanded={isExpanded}
+                          >
+                            Changes
+                            {isExpanded ? <ChevronUp className="w-4 h-4 ms-1" /> : <ChevronDown className="w-4 h-4 ms-1" />}
+                          </button>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-6 py-4">
+                            <AuditChangeList entry={entry} />
+                            {entry.ipAddress && <p className="mt-2 text-xs text-gray-500">IP address: {entry.ipAddress}</p>}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <button
+              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+              disabled={currentPage === 1}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {currentPage} of {totalPages} ({total} entries)
+            </span>
+            <button
+              onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+              disabled={currentPage === totalPages}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminAuditLogPage;
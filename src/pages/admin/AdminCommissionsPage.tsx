@@ -20,6 +20,9 @@ import {
 } from '../../store/slices/adminSlice';
 import type { AppDispatch } from '../../store';
 import type { CommissionConfig, CommissionTransaction, CommissionRule } from '../../store/slices/adminSlice';
+import AuditReasonField from '../../components/admin/AuditReasonField';
+import { validateAuditReason } from '../../utils/auditUtils';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface CommissionFilters {
   status: string;
@@ -31,6 +34,8 @@ interface CommissionFilters {
 
 const AdminCommissionsPage: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
+  const { hasPermission } = usePermissions();
+  const canManageCommissions = hasPermission('commissions.manage');
   
   const commissionConfigs = useSelector(selectCommissionConfigs);
   const commissionTransactions = useSelector(selectCommissionTransactions);
@@ -55,6 +60,8 @@ const AdminCommissionsPage: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [editingConfig, setEditingConfig] = useState<CommissionConfig | null>(null);
   const [configToDelete, setConfigToDelete] = useState<CommissionConfig | null>(null);
+  const [auditReason, setAuditReason] = useState('');
+  const [auditReasonError, setAuditReasonError] = useState<string | null>(null);
 
   // Form state for commission config
   const [configForm, setConfigForm] = useState({
@@ -139,6 +146,8 @@ const AdminCommissionsPage: React.FC = () => {
 
   const handleEditConfig = (config: CommissionConfig) => {
     setEditingConfig(config);
+    setAuditReason('');
+    setAuditReasonError(null);
     setConfigForm({
       name: config.name,
       description: config.description || '',
@@ -153,9 +162,15 @@ const AdminCommissionsPage: React.FC = () => {
   const handleSaveConfig = async () => {
     try {
       if (editingConfig) {
+        const reasonError = validateAuditReason(auditReason);
+        if (reasonError) {
+          setAuditReasonError(reasonError);
+          return;
+        }
         await dispatch(updateCommissionConfig({
           id: editingConfig.id,
-          configData: configForm
+          configData: configForm,
+          reason: auditReason
         })).unwrap();
         toast.success('Commission configuration updated successfully!');
       } else {
@@ -170,9 +185,15 @@ const AdminCommissionsPage: React.FC = () => {
 
   const handleDeleteConfig = async () => {
     if (!configToDelete) return;
-    
+
+    const reasonError = validateAuditReason(auditReason);
+    if (reasonError) {
+      setAuditReasonError(reasonError);
+      return;
+    }
+
     try {
-      await dispatch(deleteCommissionConfig(configToDelete.id)).unwrap();
+      await dispatch(deleteCommissionConfig({ id: configToDelete.id, reason: auditReason })).unwrap();
       toast.success('Commission configuration deleted successfully!');
       setShowDeleteModal(false);
       setConfigToDelete(null);
@@ -281,7 +302,7 @@ const AdminCommissionsPage: React.FC = () => {
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-4 md:mb-0">Commission Management</h1>
           <div className="flex space-x-3">
-            {activeTab === 'configs' && (
+            {canManageCommissions && activeTab === 'configs' && (
               <button
                 onClick={handleCreateConfig}
                 className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
@@ -290,7 +311,7 @@ const AdminCommissionsPage: React.FC = () => {
                 Create Configuration
               </button>
             )}
-            {activeTab === 'transactions' && (
+            {canManageCommissions && activeTab === 'transactions' && (
               <button
                 onClick={handleApproveSelected}
                 disabled={selectedTransactions.length === 0}
@@ -486,25 +507,29 @@ const AdminCommissionsPage: React.FC = () => {
                             </span>
                           )}
                         </div>
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => handleEditConfig(config)}
-                            className="text-blue-600 hover:text-blue-800"
-                          >
-                            ✏️
-                          </button>
-                          {!config.isDefault && (
+                        {canManageCommissions && (
+                          <div className="flex space-x-2">
                             <button
-                              onClick={() => {
-                                setConfigToDelete(config);
-                                setShowDeleteModal(true);
-                              }}
-                              className="text-red-600 hover:text-red-800"
+                              onClick={() => handleEditConfig(config)}
+                              className="text-blue-600 hover:text-blue-800"
                             >
-                              🗑️
+                              ✏️
                             </button>
-                          )}
-                        </div>
+                            {!config.isDefault && (
+                              <button
+                                onClick={() => {
+                                  setConfigToDelete(config);
+                                  setAuditReason('');
+                                  setAuditReasonError(null);
+                                  setShowDeleteModal(true);
+                                }}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                🗑️
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
 
                       <div className="space-y-3">
@@ -555,12 +580,14 @@ const AdminCommissionsPage: React.FC = () => {
                     <div className="text-gray-400 text-6xl mb-4">⚙️</div>
                     <h3 className="text-lg font-medium text-gray-900 mb-2">No commission configurations</h3>
                     <p className="text-gray-500 mb-4">Create your first commission configuration to get started.</p>
-                    <button
-                      onClick={handleCreateConfig}
-                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                    >
-                      Create Configuration
-                    </button>
+                    {canManageCommissions && (
+                      <button
+                        onClick={handleCreateConfig}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      >
+                        Create Configuration
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -660,7 +687,7 @@ const AdminCommissionsPage: React.FC = () => {
                               >
                                 View
                               </Link>
-                              {transaction.status === 'calculated' && (
+                              {canManageCommissions && transaction.status === 'calculated' && (
                                 <button
                                   onClick={() => handleApproveSelected()}
                                   className="text-green-600 hover:text-green-900"
@@ -978,6 +1005,18 @@ const AdminCommissionsPage: React.FC = () => {
                       </div>
                     )}
                   </div>
+
+                  {editingConfig && (
+                    <AuditReasonField
+                      id="commission-config-reason"
+                      value={auditReason}
+                      onChange={(value) => {
+                        setAuditReason(value);
+                        setAuditReasonError(null);
+                      }}
+                      error={auditReasonError}
+                    />
+                  )}
                 </div>
 
                 <div className="flex justify-end space-x-3 mt-6">
@@ -1015,6 +1054,17 @@ const AdminCommissionsPage: React.FC = () => {
                     <strong>"{configToDelete.name}"</strong>? This action cannot be undone.
                   </p>
                 </div>
+                <div className="text-left">
+                  <AuditReasonField
+                    id="commission-delete-reason"
+                    value={auditReason}
+                    onChange={(value) => {
+                      setAuditReason(value);
+                      setAuditReasonError(null);
+                    }}
+                    error={auditReasonError}
+                  />
+                </div>
                 <div className="flex justify-center space-x-3 mt-4">
                   <button
                     onClick={handleDeleteConfig}
@@ -6,6 +6,11 @@ import categoriesAPI from '../../services/api/categoriesAPI';
 import FormBuilder from '@/components/registration/FormBuilder';
 import BasicInfoTab from '../../components/admin/BasicInfoTab';
 import SchedulePricingTab from '../../components/admin/SchedulePricingTab';
+import { useScheduleSeries } from '../../hooks/useScheduleSeries';
+import type { EventTicketType } from '../../types/event';
+import type { EventSeatingSettings } from '../../types/seating';
+import { formatScheduleTicketPrices, parseScheduleTicketPrices, validateTicketTypes } from '../../utils/ticketTypeUtils';
+import { validateSeatingSettings } from '../../utils/seatMapUtils';
 import AdvancedTab from '../../components/admin/AdvancedTab';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import MediaPickerModal from '@/components/admin/media/MediaPickerModal';
@@ -28,6 +33,8 @@ interface Schedule {
   specialDates?: string[];
   priority?: number;
   isOverride?: boolean;
+  seriesId?: string;
+  ticketPrices?: Record<string, string>;
 }
 
 interface FAQ {
@@ -104,6 +111,10 @@ const AdminEditEventPage: React.FC = () => {
 
   const [activeTab, setActiveTab] = useState<TabType>('basic');
   const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const { recurrenceRules, setRecurrenceRules, applySeries, removeSeries, removeOccurrence, resetOccurrence } =
+    useScheduleSeries(setSchedules);
+  const [ticketTypes, setTicketTypes] = useState<EventTicketType[]>([]);
+  const [seating, setSeating] = useState<EventSeatingSettings>({ reservedSeating: false });
   const [selectedImageAssets, setSelectedImageAssets] = useState<MediaAsset[]>([]);
   const [showMediaPicker, setShowMediaPicker] = useState(false);
 
@@ -260,9 +271,15 @@ const AdminEditEventPage: React.FC = () => {
               new Date(d).toISOString().split('T')[0]
             ) || [],
             priority: schedule.priority || 0,
-            isOverride: schedule.isOverride || false
+            isOverride: schedule.isOverride || false,
+            seriesId: schedule.seriesId,
+            ticketPrices: formatScheduleTicketPrices(schedule.ticketPrices)
           }));
 
+          setRecurrenceRules(eventData.recurrenceRules || []);
+          setTicketTypes(eventData.ticketTypes || []);
+          setSeating({ reservedSeating: !!eventData.reservedSeating, venueId: eventData.venueId });
+
           setSchedules(transformedSchedules.length > 0 ? transformedSchedules : [{
             id: 'schedule-1',
             startDate: '',
@@ -358,7 +375,11 @@ const AdminEditEventPage: React.FC = () => {
   };
 
   // Schedule management
-  const handleScheduleChange = (index: number, field: keyof Schedule, value: string | boolean | string[] | number) => {
+  const handleScheduleChange = (
+    index: number,
+    field: keyof Schedule,
+    value: string | boolean | string[] | number | Record<string, string>
+  ) => {
     setSchedules(prev => {
       const updated = [...prev];
       updated[index] = { ...updated[index], [field]: value };
@@ -495,6 +516,9 @@ const AdminEditEventPage: React.FC = () => {
           newErrors[`schedule_${index}_price`] = 'Price is required';
         }
       });
+
+      Object.assign(newErrors, validateTicketTypes(ticketTypes));
+      Object.assign(newErrors, validateSeatingSettings(seating));
     }
 
     // Advanced tab validation
@@ -618,8 +642,14 @@ const AdminEditEventPage: React.FC = () => {
           isSpecialDate: schedule.isSpecialDate || false,
           specialDates: schedule.specialDates || [],
           priority: schedule.priority || 0,
-          isOverride: schedule.isOverride || false
+          isOverride: schedule.isOverride || false,
+          seriesId: schedule.seriesId,
+          ticketPrices: parseScheduleTicketPrices(schedule.ticketPrices)
         })),
+        recurrenceRules,
+        ticketTypes,
+        reservedSeating: seating.reservedSeating,
+        venueId: seating.reservedSeating ? seating.venueId : undefined,
 
         imageAssets: formData.images,  // Send MediaAsset IDs
 
@@ -842,6 +872,15 @@ const AdminEditEventPage: React.FC = () => {
                   onCurrencyChange={handleInputChange}
                   onCapacityChange={handleInputChange}
                   onBasePriceChange={handleInputChange}
+                  recurrenceRules={recurrenceRules}
+                  onSaveSeries={applySeries}
+                  onRemoveSeries={removeSeries}
+                  onRemoveOccurrence={(index) => removeOccurrence(schedules[index])}
+                  onResetOccurrence={(index) => resetOccurrence(schedules[index])}
+                  ticketTypes={ticketTypes}
+                  onTicketTypesChange={setTicketTypes}
+                  seating={seating}
+                  onSeatingChange={setSeating}
                 />
               )
             )}
@@ -4,6 +4,8 @@ import { useNavigate } from 'react-router-dom';
 import DOMPurify from 'isomorphic-dompurify';
 import adminAPI from '../../services/api/adminAPI';
 import EventEditModal from '../../components/admin/EventEditModal';
+import AuditHistory from '../../components/admin/AuditHistory';
+import { usePermissions } from '../../hooks/usePermissions';
 import categoriesAPI, { Category } from '../../services/api/categoriesAPI';
 
 interface Event {
@@ -67,6 +69,9 @@ interface Event {
 
 const AdminEventsPage: React.FC = () => {
   const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const canManageEvents = hasPermission('events.manage');
+  const canModerateEvents = hasPermission('events.moderate');
   const [events, setEvents] = useState<Event[]>([]);
   const [filteredEvents, setFilteredEvents] = useState<Event[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -305,13 +310,15 @@ const AdminEventsPage: React.FC = () => {
               <h1 className="text-3xl font-bold text-gray-900 mb-2">Events Management</h1>
               <p className="text-gray-600">Manage and moderate events from vendors</p>
             </div>
-            <button
-              onClick={() => navigate('/admin/events/create')}
-              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <FaPlus className="mr-2" />
-              Create New Event
-            </button>
+            {canManageEvents && (
+              <button
+                onClick={() => navigate('/admin/events/create')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <FaPlus className="mr-2" />
+                Create New Event
+              </button>
+            )}
           </div>
 
           {/* Error Banner */}
@@ -426,11 +433,19 @@ const AdminEventsPage: React.FC = () => {
                     className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900"
                   >
                     <option value="">Select action...</option>
-                    <option value="approve">Approve</option>
-                    <option value="reject">Reject</option>
-                    <option value="feature">Mark as Featured</option>
-                    <option value="unfeature">Remove Featured</option>
-                    <option value="delete">Soft Delete</option>
+                    {canModerateEvents && (
+                      <>
+                        <option value="approve">Approve</option>
+                        <option value="reject">Reject</option>
+                      </>
+                    )}
+                    {canManageEvents && (
+                      <>
+                        <option value="feature">Mark as Featured</option>
+                        <option value="unfeature">Remove Featured</option>
+                        <option value="delete">Soft Delete</option>
+                      </>
+                    )}
                   </select>
                   <button
                     onClick={() => setShowBulkConfirm(true)}
@@ -570,15 +585,17 @@ const AdminEventsPage: React.FC = () => {
 
                           {!event.isDeleted && (
                             <>
-                              <button
-                                onClick={() => navigate(`/admin/events/${event.id}/edit`)}
-                                className="text-indigo-600 hover:text-indigo-900"
-                                title="Edit Event"
-                              >
-                                <FaEdit className="w-4 h-4" />
-                              </button>
-
-                              {!event.isApproved && (
+                              {canManageEvents && (
+                                <button
+                                  onClick={() => navigate(`/admin/events/${event.id}/edit`)}
+                                  className="text-indigo-600 hover:text-indigo-900"
+                                  title="Edit Event"
+                                >
+                                  <FaEdit className="w-4 h-4" />
+                                </button>
+                              )}
+
+                              {canModerateEvents && !event.isApproved && (
                                 <button
                                   onClick={() => {
                                     setEventToApprove(event.id);
@@ -592,36 +609,40 @@ const AdminEventsPage: React.FC = () => {
                                 </button>
                               )}
 
-                              <button
-                                onClick={() => handleToggleFeatured(event.id)}
-                                className={`${event.isFeatured ? 'text-yellow-500' : 'text-gray-400'} hover:text-yellow-600`}
-                                title="Toggle Featured"
-                              >
-                                <FaStar className="w-4 h-4" />
-                              </button>
-
-                              <button
-                                onClick={() => navigate(`/admin/events/${event.id}/registration/builder`)}
-                                className="text-purple-600 hover:text-purple-900"
-                                title="Form Builder"
-                              >
-                                <FaWpforms className="w-4 h-4" />
-                              </button>
-
-                              <button
-                                onClick={() => {
-                                  setEventToDelete(event.id);
-                                  setIsDeleteModalOpen(true);
-                                }}
-                                className="text-red-600 hover:text-red-900"
-                                title="Delete Event"
-                              >
-                                <FaTrash className="w-4 h-4" />
-                              </button>
+                              {canManageEvents && (
+                                <>
+                                  <button
+                                    onClick={() => handleToggleFeatured(event.id)}
+                                    className={`${event.isFeatured ? 'text-yellow-500' : 'text-gray-400'} hover:text-yellow-600`}
+                                    title="Toggle Featured"
+                                  >
+                                    <FaStar className="w-4 h-4" />
+                                  </button>
+
+                                  <button
+                                    onClick={() => navigate(`/admin/events/${event.id}/registration/builder`)}
+                                    className="text-purple-600 hover:text-purple-900"
+                                    title="Form Builder"
+                                  >
+                                    <FaWpforms className="w-4 h-4" />
+                                  </button>
+
+                                  <button
+                                    onClick={() => {
+                                      setEventToDelete(event.id);
+                                      setIsDeleteModalOpen(true);
+                                    }}
+                                    className="text-red-600 hover:text-red-900"
+                                    title="Delete Event"
+                                  >
+                                    <FaTrash className="w-4 h-4" />
+                                  </button>
+                                </>
+                              )}
                             </>
                           )}
 
-                          {event.isDeleted && (
+                          {canManageEvents && event.isDeleted && (
                             <button
                               onClick={() => handleRestoreEvent(event.id)}
                               className="text-blue-600 hover:text-blue-900"
@@ -909,6 +930,12 @@ const AdminEventsPage: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Audit History */}
+                  <div className="mb-4">
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">Audit History</h4>
+                    <AuditHistory entityType="event" entityId={selectedEvent.id} />
+                  </div>
+
                   {/* Timestamps */}
                   <div className="mb-4 text-xs text-gray-500">
                     <p>Created: {new Date(selectedEvent.createdAt).toLocaleString()}</p>
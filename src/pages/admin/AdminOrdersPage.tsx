@@ -2,10 +2,16 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import adminAPI from '../../services/api/adminAPI';
 import { IOrder, GetOrdersParams } from '../../types/order';
-import { Search, Filter, ChevronDown, ChevronUp, Check, X, RefreshCw, Trash2, DollarSign, Eye } from 'lucide-react';
+import { Search, Filter, ChevronDown, ChevronUp, Check, X, RefreshCw, Trash2, DollarSign, Eye, History } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import AuditHistory from '../../components/admin/AuditHistory';
+import TaxDocumentsButton from '../../components/order/TaxDocumentsButton';
+import { usePermissions } from '../../hooks/usePermissions';
 
 const AdminOrdersPage: React.FC = () => {
+  const { hasPermission } = usePermissions();
+  const canManageOrders = hasPermission('orders.manage');
+  const canRefundOrders = hasPermission('orders.refund');
   const [orders, setOrders] = useState<IOrder[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [searchTerm, setSearchTerm] = useState<string>('');
@@ -19,6 +25,7 @@ const AdminOrdersPage: React.FC = () => {
   const [orderToAction, setOrderToAction] = useState<string | null>(null);
   const [refundAmount, setRefundAmount] = useState<string>('');
   const [refundReason, setRefundReason] = useState<string>('');
+  const [historyOrder, setHistoryOrder] = useState<IOrder | null>(null);
 
   // Pagination
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -339,27 +346,33 @@ const AdminOrdersPage: React.FC = () => {
                 {selectedOrders.length} order{selectedOrders.length > 1 ? 's' : ''} selected
               </p>
               <div className="flex gap-2">
-                <button
-                  onClick={() => handleBulkAction('confirm')}
-                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
-                >
-                  <Check className="w-4 h-4" />
-                  Confirm All
-                </button>
-                <button
-                  onClick={() => handleBulkAction('cancel')}
-                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
-                >
-                  <X className="w-4 h-4" />
-                  Cancel All
-                </button>
-                <button
-                  onClick={() => handleBulkAction('refund')}
-                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center gap-2"
-                >
-                  <DollarSign className="w-4 h-4" />
-                  Refund All
-                </button>
+                {canManageOrders && (
+                  <>
+                    <button
+                      onClick={() => handleBulkAction('confirm')}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+                    >
+                      <Check className="w-4 h-4" />
+                      Confirm All
+                    </button>
+                    <button
+                      onClick={() => handleBulkAction('cancel')}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
+                    >
+                      <X className="w-4 h-4" />
+                      Cancel All
+                    </button>
+                  </>
+                )}
+                {canRefundOrders && (
+                  <button
+                    onClick={() => handleBulkAction('refund')}
+                    className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center gap-2"
+                  >
+                    <DollarSign className="w-4 h-4" />
+                    Refund All
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -473,7 +486,22 @@ const AdminOrdersPage: React.FC = () => {
                         >
                           <Eye className="w-4 h-4" />
                         </Link>
-                        {order.status === 'pending' && (
+                        <button
+                          onClick={() => setHistoryOrder(order)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Audit history"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                        {(order.paymentStatus === 'paid' || order.paymentStatus === 'refunded') && (
+                          <TaxDocumentsButton
+                            orderId={order._id}
+                            iconOnly
+                            label="Tax invoice and credit notes"
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                          />
+                        )}
+                        {canManageOrders && order.status === 'pending' && (
                           <button
                             onClick={() => handleActionClick(order._id, 'confirm')}
                             className="text-green-600 hover:text-green-900"
@@ -481,7 +509,7 @@ const AdminOrdersPage: React.FC = () => {
                             <Check className="w-4 h-4" />
                           </button>
                         )}
-                        {(order.status === 'pending' || order.status === 'confirmed') && (
+                        {canManageOrders && (order.status === 'pending' || order.status === 'confirmed') && (
                           <button
                             onClick={() => handleActionClick(order._id, 'cancel')}
                             className="text-red-600 hover:text-red-900"
@@ -489,7 +517,7 @@ const AdminOrdersPage: React.FC = () => {
                             <X className="w-4 h-4" />
                           </button>
                         )}
-                        {order.paymentStatus === 'paid' && order.status !== 'refunded' && (
+                        {canRefundOrders && order.paymentStatus === 'paid' && order.status !== 'refunded' && (
                           <button
                             onClick={() => handleActionClick(order._id, 'refund')}
                             className="text-orange-600 hover:text-orange-900"
@@ -497,7 +525,7 @@ const AdminOrdersPage: React.FC = () => {
                             <DollarSign className="w-4 h-4" />
                           </button>
                         )}
-                        {(order.status === 'pending' || order.status === 'cancelled') && (
+                        {canManageOrders && (order.status === 'pending' || order.status === 'cancelled') && (
                           <button
                             onClick={() => handleActionClick(order._id, 'delete')}
                             className="text-red-600 hover:text-red-900"
@@ -662,6 +690,27 @@ const AdminOrdersPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Audit History Modal */}
+      {historyOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Audit History</h3>
+            <p className="text-sm text-gray-600 mb-4">Order {historyOrder.orderNumber}</p>
+            <div className="max-h-96 overflow-y-auto mb-4">
+              <AuditHistory entityType="order" entityId={historyOrder._id} />
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setHistoryOrder(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -20,6 +20,8 @@ import {
 } from '../../store/slices/adminSlice';
 import type { AppDispatch, RootState } from '../../store';
 import type { PayoutRequest, VendorEarning } from '../../store/slices/adminSlice';
+import AuditReasonField from '../../components/admin/AuditReasonField';
+import { usePermissions } from '../../hooks/usePermissions';
 
 interface PayoutFilters {
   status: string;
@@ -32,6 +34,8 @@ interface PayoutFilters {
 
 const AdminPayoutsPage: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
+  const { hasPermission } = usePermissions();
+  const canManagePayouts = hasPermission('payouts.manage');
   
   const vendorEarnings = useSelector(selectVendorEarnings);
   const payoutRequests = useSelector(selectPayoutRequests);
@@ -58,6 +62,7 @@ const AdminPayoutsPage: React.FC = () => {
   const [showProcessModal, setShowProcessModal] = useState(false);
   const [selectedPayout, setSelectedPayout] = useState<PayoutRequest | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [approvalReason, setApprovalReason] = useState('');
   const [paymentData, setPaymentData] = useState({
     paymentMethod: 'bank_transfer',
     transactionId: '',
@@ -114,9 +119,10 @@ const AdminPayoutsPage: React.FC = () => {
 
   const handleApprovePayout = async (payout: PayoutRequest) => {
     try {
-      await dispatch(approvePayoutRequest({ id: payout.id })).unwrap();
+      await dispatch(approvePayoutRequest({ id: payout.id, reason: approvalReason })).unwrap();
       setShowApprovalModal(false);
       setSelectedPayout(null);
+      setApprovalReason('');
     } catch (error) {
       console.error('Failed to approve payout:', error);
     }
@@ -244,14 +250,16 @@ const AdminPayoutsPage: React.FC = () => {
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-4 md:mb-0">Payout Management</h1>
           <div className="flex space-x-3">
-            <button
-              onClick={handleApproveSelected}
-              disabled={selectedPayouts.length === 0}
-              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              <span className="mr-2">✓</span>
-              Approve Selected ({selectedPayouts.length})
-            </button>
+            {canManagePayouts && (
+              <button
+                onClick={handleApproveSelected}
+                disabled={selectedPayouts.length === 0}
+                className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <span className="mr-2">✓</span>
+                Approve Selected ({selectedPayouts.length})
+              </button>
+            )}
             <Link
               to="/admin/payouts/export"
               className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
@@ -500,11 +508,12 @@ const AdminPayoutsPage: React.FC = () => {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <div className="flex justify-end space-x-2">
-                              {payout.status === 'pending' && (
+                              {canManagePayouts && payout.status === 'pending' && (
                                 <>
                                   <button
                                     onClick={() => {
                                       setSelectedPayout(payout);
+                                      setApprovalReason('');
                                       setShowApprovalModal(true);
                                     }}
                                     className="text-green-600 hover:text-green-900"
@@ -522,7 +531,7 @@ const AdminPayoutsPage: React.FC = () => {
                                   </button>
                                 </>
                               )}
-                              {payout.status === 'approved' && (
+                              {canManagePayouts && payout.status === 'approved' && (
                                 <button
                                   onClick={() => {
                                     setSelectedPayout(payout);
@@ -725,6 +734,14 @@ const AdminPayoutsPage: React.FC = () => {
                     <strong>{selectedPayout.vendorName}</strong>?
                   </p>
                 </div>
+                <div className="text-left">
+                  <AuditReasonField
+                    id="payout-approval-reason"
+                    value={approvalReason}
+                    onChange={setApprovalReason}
+                    required={false}
+                  />
+                </div>
                 <div className="flex justify-center space-x-3 mt-4">
                   <button
                     onClick={() => handleApprovePayout(selectedPayout)}
@@ -0,0 +1,306 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, Shield, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+
+import AuditReasonField from '../../components/admin/AuditReasonField';
+import ConfirmDialog from '../../components/common/ConfirmDialog';
+import rolesAPI from '../../services/api/rolesAPI';
+import type { AdminRole, AdminRoleInput, Permission } from '../../types/permission';
+import { validateAuditReason } from '../../utils/auditUtils';
+import { PERMISSION_CATALOGUE, ROLE_PRESETS } from '../../utils/permissions';
+
+const EMPTY_ROLE: AdminRoleInput = { name: '', description: '', permissions: [] };
+
+const AdminRolesPage: React.FC = () => {
+  const [roles, setRoles] = useState<AdminRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // null while creating a new role
+  const [selectedRoleId, setSelectedRoleId] = useState<string | null>(null);
+  const [form, setForm] = useState<AdminRoleInput>(EMPTY_ROLE);
+  const [reason, setReason] = useState('');
+  const [reasonError, setReasonError] = useState<string | null>(null);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  const selectedRole = roles.find((role) => role._id === selectedRoleId) || null;
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRoles(await rolesAPI.getRoles());
+    } catch (error: any) {
+      console.error('Error fetching roles:', error);
+      toast.error(error.response?.data?.message || 'Failed to fetch roles');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const selectRole = (role: AdminRole | null) => {
+    setSelectedRoleId(role?._id || null);
+    setForm(role ? { name: role.name, description: role.description || '', permissions: role.permissions } : EMPTY_ROLE);
+    setReason('');
+    setReasonError(null);
+  };
+
+  const togglePermissions = (keys: Permission[], enabled: boolean) => {
+    setForm((current) => ({
+      ...current,
+      permissions: enabled
+        ? Array.from(new Set([...current.permissions, ...keys]))
+        : current.permissions.filter((permission) => !keys.includes(permission)),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Please give the role a name');
+      return;
+    }
+    if (form.permissions.length === 0) {
+      toast.error('Please choose at least one permission');
+      return;
+    }
+
+    // Changing an existing role changes what its members can do, so it needs a reason
+    if (selectedRole) {
+      const error = validateAuditReason(reason);
+      if (error) {
+        setReasonError(error);
+        return;
+      }
+    }
+
+    try {
+      setIsSaving(true);
+      const payload = { ...form, name: form.name.trim(), description: form.description?.trim() };
+      const saved = selectedRole
+        ? await rolesAPI.updateRole(selectedRole._id, payload, reason)
+        : await rolesAPI.createRole(payload);
+      toast.success(selectedRole ? 'Role updated' : 'Role created');
+      await fetchRoles();
+      selectRole(saved);
+    } catch (error: any) {
+      console.error('Error saving role:', error);
+      toast.error(error.response?.data?.message || 'Failed to save role');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (deleteReason: string) => {
+    if (!selectedRole) return;
+
+    try {
+      setIsSaving(true);
+      await rolesAPI.deleteRole(selectedRole._id, deleteReason);
+      toast.success('Role deleted');
+      setShowDeleteConfirm(false);
+      selectRole(null);
+      await fetchRoles();
+    } catch (error: any) {
+      console.error('Error deleting role:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete role');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Roles & Permissions</h1>
+        <p className="text-gray-600 mt-1">
+          Build admin roles from individual permissions and assign them to staff on the Users page.
+          Admins without a role have full access.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Role list */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="flex items-center justify-between p-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Roles</h2>
+            <button
+              onClick={() => selectRole(null)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:bg-primary-dark"
+            >
+              <Plus className="w-4 h-4" />
+              New role
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : roles.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No roles yet. Every admin has full access.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {roles.map((role) => (
+                <li key={role._id}>
+                  <button
+                    onClick={() => selectRole(role)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                      role._id === selectedRoleId ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900">{role.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {role.permissions.length} permission{role.permissions.length === 1 ? '' : 's'}
+                      {role.userCount !== undefined && ` · ${role.userCount} member${role.userCount === 1 ? '' : 's'}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Role editor */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow p-6 space-y-6">
+          <div className="flex items-center gap-3">
+            <Shield className="w-6 h-6 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">
+              {selectedRole ? `Edit ${selectedRole.name}` : 'New role'}
+            </h2>
+          </div>
+
+          {!selectedRole && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Start from a preset</p>
+              <div className="flex flex-wrap gap-2">
+                {ROLE_PRESETS.map((preset) => (
+                  <button
+                    key={preset.name}
+                    onClick={() => setForm({ name: preset.name, description: preset.description, permissions: preset.permissions })}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-full hover:bg-gray-50"
+                    title={preset.description}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="role-name" className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                id="role-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="role-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                id="role-description"
+                type="text"
+                value={form.description || ''}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {PERMISSION_CATALOGUE.map((group) => {
+              const keys = group.permissions.map((permission) => permission.key);
+              const allSelected = keys.every((key) => form.permissions.includes(key));
+
+              return (
+                <fieldset key={group.id} className="border border-gray-200 rounded-lg p-4">
+                  <legend className="px-1 text-sm font-semibold text-gray-900">{group.label}</legend>
+                  <label className="flex items-center gap-2 text-xs text-gray-600 mb-3">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={(e) => togglePermissions(keys, e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Select all
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {group.permissions.map((permission) => (
+                      <label key={permission.key} className="flex items-start gap-2">
+                        <input
+                          type="checkbox"
+                          checked={form.permissions.includes(permission.key)}
+                          onChange={(e) => togglePermissions([permission.key], e.target.checked)}
+                          className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-gray-900">{permission.label}</span>
+                          <span className="block text-xs text-gray-500">{permission.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              );
+            })}
+          </div>
+
+          {selectedRole && (
+            <AuditReasonField
+              id="role-reason"
+              value={reason}
+              onChange={(value) => {
+                setReason(value);
+                setReasonError(null);
+              }}
+              error={reasonError}
+            />
+          )}
+
+          <div className="flex justify-between">
+            {selectedRole ? (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                disabled={isSaving}
+                className="flex items-center gap-1 px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete role
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : selectedRole ? 'Save changes' : 'Create role'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showDeleteConfirm}
+        onClose={() => setShowDeleteConfirm(false)}
+        onConfirm={handleDelete}
+        title="Delete Role"
+        message={`Delete the "${selectedRole?.name || ''}" role? Roles that still have members can't be deleted; move them to another role first.`}
+        confirmText="Delete"
+        type="danger"
+        isLoading={isSaving}
+        reasonLabel="Reason for deleting this role"
+        validateReason={validateAuditReason}
+      />
+    </div>
+  );
+};
+
+export default AdminRolesPage;
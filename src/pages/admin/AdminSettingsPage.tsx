@@ -4,6 +4,9 @@ import { FiSave, FiRefreshCw, FiAlertTriangle, FiCheckCircle } from 'react-icons
 import adminAPI from '../../services/api/adminAPI';
 import { fetchSocialSettings } from '../../store/slices/settingsSlice';
 import { AppDispatch } from '../../store';
+import ConfirmDialog from '../../components/common/ConfirmDialog';
+import { validateAuditReason } from '../../utils/auditUtils';
+import { isValidTrn, normalizeTrn } from '../../utils/invoiceUtils';
 
 interface SystemSettings {
   siteName: string;
@@ -17,6 +20,10 @@ interface SystemSettings {
   currency: string;
   bookingFeePercentage: number;
   taxPercentage: number;
+  // Printed on tax invoices and credit notes
+  legalName: string;
+  taxRegistrationNumber: string;
+  registeredAddress: string;
   featuredEventCost: number;
   maxImagesPerEvent: number;
   maxEventsPerVendor: number;
@@ -67,6 +74,7 @@ const AdminSettingsPage: React.FC = () => {
   const [isSaving, setIsSaving] = useState<boolean>(false);
   const [saveSuccess, setSaveSuccess] = useState<boolean>(false);
   const [saveError, setSaveError] = useState<string>('');
+  const [showSaveConfirm, setShowSaveConfirm] = useState<boolean>(false);
   const [isTestingEmail, setIsTestingEmail] = useState<boolean>(false);
   const [emailTestResult, setEmailTestResult] = useState<string>('');
   
@@ -83,6 +91,9 @@ const AdminSettingsPage: React.FC = () => {
     currency: 'USD',
     bookingFeePercentage: 5,
     taxPercentage: 7.5,
+    legalName: '',
+    taxRegistrationNumber: '',
+    registeredAddress: '',
     featuredEventCost: 49.99,
     maxImagesPerEvent: 10,
     maxEventsPerVendor: 50,
@@ -192,7 +203,8 @@ const AdminSettingsPage: React.FC = () => {
     }));
   };
 
-  const handleSaveSettings = async () => {
+  const handleSaveSettings = async (reason: string) => {
+    setShowSaveConfirm(false);
     setIsSaving(true);
     setSaveSuccess(false);
     setSaveError('');
@@ -207,7 +219,7 @@ const AdminSettingsPage: React.FC = () => {
       };
       
       // Call the API to update settings
-      const response = await adminAPI.updateAppSettings(settingsData);
+      const response = await adminAPI.updateAppSettings(settingsData, reason);
 
       if (response.success) {
         setSaveSuccess(true);
@@ -287,12 +299,24 @@ const AdminSettingsPage: React.FC = () => {
     }
   };
 
+  const handleSaveClick = () => {
+    const trn = systemSettings.taxRegistrationNumber.trim();
+    if (trn && !isValidTrn(trn)) {
+      setSaveError('The Tax Registration Number (TRN) must be 15 digits');
+      setTimeout(() => setSaveError(''), 5000);
+      return;
+    }
+
+    setSystemSettings(prev => ({ ...prev, taxRegistrationNumber: normalizeTrn(trn) }));
+    setShowSaveConfirm(true);
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Admin Settings</h1>
         <button
-          onClick={handleSaveSettings}
+          onClick={handleSaveClick}
           disabled={isSaving}
           className="flex items-center px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
@@ -477,6 +501,49 @@ const AdminSettingsPage: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-1">Tax Invoicing</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                  Printed as the platform's details on VAT tax invoices and credit notes. Vendors add their own TRN in their profile.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Legal Name</label>
+                    <input
+                      type="text"
+                      name="legalName"
+                      value={systemSettings.legalName}
+                      onChange={handleSystemSettingsChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary bg-white text-gray-900"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tax Registration Number (TRN)</label>
+                    <input
+                      type="text"
+                      name="taxRegistrationNumber"
+                      value={systemSettings.taxRegistrationNumber}
+                      onChange={handleSystemSettingsChange}
+                      inputMode="numeric"
+                      placeholder="15 digits"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary bg-white text-gray-900"
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Registered Address</label>
+                    <textarea
+                      name="registeredAddress"
+                      value={systemSettings.registeredAddress}
+                      onChange={handleSystemSettingsChange}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary bg-white text-gray-900"
+                    />
+                  </div>
+                </div>
+              </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-4">
@@ -976,6 +1043,18 @@ const AdminSettingsPage: React.FC = () => {
           )}
         </div>
       </div>
+
+      <ConfirmDialog
+        isOpen={showSaveConfirm}
+        onClose={() => setShowSaveConfirm(false)}
+        onConfirm={handleSaveSettings}
+        title="Save Settings"
+        message="These settings apply to the whole platform. The change and your reason are recorded in the audit log."
+        confirmText="Save Settings"
+        type="info"
+        reasonLabel="Reason for this change"
+        validateReason={validateAuditReason}
+      />
     </div>
   );
 };
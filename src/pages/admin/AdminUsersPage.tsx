@@ -1,9 +1,21 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { FaSearch, FaEdit, FaTrash, FaPlus, FaSort, FaEye, FaUsers, FaChevronLeft, FaChevronRight, FaShieldAlt, FaCreditCard, FaHistory, FaDatabase, FaCheck, FaTimes, FaKey } from 'react-icons/fa';
+import { useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { FaSearch, FaEdit, FaTrash, FaPlus, FaSort, FaEye, FaUsers, FaChevronLeft, FaChevronRight, FaShieldAlt, FaCreditCard, FaHistory, FaDatabase, FaCheck, FaTimes, FaKey, FaClipboardList, FaUserSecret } from 'react-icons/fa';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import adminAPI from '@services/api/adminAPI';
 import { AdminUser } from '@/types/auth';
+import AuditHistory from '@/components/admin/AuditHistory';
+import AuditReasonField from '@/components/admin/AuditReasonField';
+import { validateAuditReason } from '@/utils/auditUtils';
+import { DEFAULT_IMPERSONATION_MINUTES, IMPERSONATION_DURATION_OPTIONS } from '@/utils/impersonationUtils';
+import { getRoleBasedRedirectPath } from '@/utils/roleRedirect';
+import { startImpersonation } from '@/store/slices/authSlice';
+import type { AppDispatch } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import rolesAPI from '@services/api/rolesAPI';
+import type { AdminRole } from '@/types/permission';
 
 interface PaginationInfo {
   currentPage: number;
@@ -13,6 +25,11 @@ interface PaginationInfo {
 }
 
 const AdminUsersPage: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const canManageUsers = hasPermission('users.manage');
+  const canManageRoles = hasPermission('roles.manage');
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [searchTerm, setSearchTerm] = useState<string>('');
@@ -49,6 +66,17 @@ const AdminUsersPage: React.FC = () => {
   const [newPassword, setNewPassword] = useState<string>('');
   const [confirmPassword, setConfirmPassword] = useState<string>('');
 
+  // Reason recorded in the audit log for deletes and password resets
+  const [auditReason, setAuditReason] = useState<string>('');
+  const [auditReasonError, setAuditReasonError] = useState<string | null>(null);
+
+  // "View as user" session
+  const [impersonationUser, setImpersonationUser] = useState<AdminUser | null>(null);
+  const [impersonationMinutes, setImpersonationMinutes] = useState<number>(DEFAULT_IMPERSONATION_MINUTES);
+
+  // Admin roles for the role select; only loaded for admins who can manage roles
+  const [adminRoles, setAdminRoles] = useState<AdminRole[]>([]);
+
   // Debounce search input
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -105,6 +133,14 @@ const AdminUsersPage: React.FC = () => {
     fetchUsers();
   }, [fetchUsers]);
 
+  useEffect(() => {
+    if (!canManageRoles || (!isCreateModalOpen && !isEditModalOpen)) return;
+
+    rolesAPI.getRoles()
+      .then(setAdminRoles)
+      .catch((error) => console.error('Error fetching admin roles:', error));
+  }, [canManageRoles, isCreateModalOpen, isEditModalOpen]);
+
   const handleSort = (key: keyof AdminUser) => {
     // Map fullName to firstName for backend compatibility
     const sortKey = key === 'fullName' ? 'firstName' : key;
@@ -119,9 +155,15 @@ const AdminUsersPage: React.FC = () => {
   };
 
   const handleDeleteUser = async (userId: string) => {
+    const reasonError = validateAuditReason(auditReason);
+    if (reasonError) {
+      setAuditReasonError(reasonError);
+      return;
+    }
+
     try {
       setActionLoading({ ...actionLoading, [`delete_${userId}`]: true });
-      const response = await adminAPI.deleteUser(userId);
+      const response = await adminAPI.deleteUser(userId, auditReason);
 
       if (response.success) {
         toast.success('User deleted successfully');
@@ -139,6 +181,7 @@ const AdminUsersPage: React.FC = () => {
 
   const handleEditUser = (user: AdminUser) => {
     setSelectedUser(user);
+    setSelectedRole(user.role);
     setEditModalTab('basic');
     setIsEditModalOpen(true);
   };
@@ -155,21 +198,63 @@ const AdminUsersPage: React.FC = () => {
     setIsCreateModalOpen(true);
   };
 
+  const handleOpenImpersonation = (user: AdminUser) => {
+    setImpersonationUser(user);
+    setImpersonationMinutes(DEFAULT_IMPERSONATION_MINUTES);
+    setAuditReason('');
+    setAuditReasonError(null);
+  };
+
+  const handleStartImpersonation = async () => {
+    if (!impersonationUser) return;
+
+    const reasonError = validateAuditReason(auditReason);
+    if (reasonError) {
+      setAuditReasonError(reasonError);
+      return;
+    }
+
+    try {
+      setActionLoading({ ...actionLoading, impersonate: true });
+      const { user } = await dispatch(startImpersonation({
+        userId: impersonationUser.id,
+        reason: auditReason,
+        durationMinutes: impersonationMinutes,
+      })).unwrap();
+
+      setImpersonationUser(null);
+      setIsViewModalOpen(false);
+      navigate(getRoleBasedRedirectPath(user.role));
+    } catch (error) {
+      console.error('Error starting impersonation:', error);
+    } finally {
+      setActionLoading({ ...actionLoading, impersonate: false });
+    }
+  };
+
   const handleResetPassword = (user: AdminUser) => {
     setPasswordResetUser(user);
     setPasswordResetStep('init');
     setOtpCode('');
     setNewPassword('');
     setConfirmPassword('');
+    setAuditReason('');
+    setAuditReasonError(null);
     setShowPasswordResetModal(true);
   };
 
   const handleInitiatePasswordReset = async () => {
     if (!passwordResetUser) return;
 
+    const reasonError = validateAuditReason(auditReason);
+    if (reasonError) {
+      setAuditReasonError(reasonError);
+      return;
+    }
+
     try {
       setActionLoading({ ...actionLoading, password_reset_initiate: true });
-      const response = await adminAPI.initiatePasswordReset(passwordResetUser.id);
+      const response = await adminAPI.initiatePasswordReset(passwordResetUser.id, auditReason);
 
       if (response.success) {
         toast.success(response.message || 'Verification code sent to your email');
@@ -204,7 +289,7 @@ const AdminUsersPage: React.FC = () => {
 
     try {
       setActionLoading({ ...actionLoading, password_reset_confirm: true });
-      const response = await adminAPI.confirmPasswordReset(passwordResetUser.id, otpCode, newPassword);
+      const response = await adminAPI.confirmPasswordReset(passwordResetUser.id, otpCode, newPassword, auditReason);
 
       if (response.success) {
         toast.success(response.message || 'Password updated successfully');
@@ -291,13 +376,15 @@ const AdminUsersPage: React.FC = () => {
           </h1>
           <p className="text-lg text-gray-600">Manage users, roles, and permissions across the platform</p>
         </div>
-        <button
-          className="mt-4 md:mt-0 inline-flex items-center px-6 py-3 rounded-xl shadow-lg text-sm font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-600 hover:shadow-xl hover:shadow-blue-500/25 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-300 transform hover:scale-105 hover:-translate-y-1"
-          onClick={handleCreateUser}
-        >
-          <FaPlus className="mr-2" />
-          Add User
-        </button>
+        {canManageUsers && (
+          <button
+            className="mt-4 md:mt-0 inline-flex items-center px-6 py-3 rounded-xl shadow-lg text-sm font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-600 hover:shadow-xl hover:shadow-blue-500/25 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-300 transform hover:scale-105 hover:-translate-y-1"
+            onClick={handleCreateUser}
+          >
+            <FaPlus className="mr-2" />
+            Add User
+          </button>
+        )}
       </div>
 
       {/* Filters */}
@@ -471,31 +558,37 @@ const AdminUsersPage: React.FC = () => {
                         >
                           <FaEye className="w-4 h-4" />
                         </button>
-                        <button
-                          className="p-2.5 bg-green-50 text-green-600 hover:text-white hover:bg-green-600 rounded-lg transition-all duration-200 hover:scale-105 hover:shadow-md border border-green-200"
-                          onClick={() => handleEditUser(user)}
-                          title="Edit User"
-                        >
-                          <FaEdit className="w-4 h-4" />
-                        </button>
-                        <button
-                          className="p-2.5 bg-orange-50 text-orange-600 hover:text-white hover:bg-orange-600 rounded-lg transition-all duration-200 hover:scale-105 hover:shadow-md border border-orange-200"
-                          onClick={() => handleResetPassword(user)}
-                          title="Reset Password"
-                        >
-                          <FaKey className="w-4 h-4" />
-                        </button>
-                        <button
-                          className="p-2.5 bg-red-50 text-red-600 hover:text-white hover:bg-red-600 rounded-lg transition-all duration-200 hover:scale-105 hover:shadow-md border border-red-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                          onClick={() => {
-                            setUserToDelete(user.id);
-                            setIsDeleteModalOpen(true);
-                          }}
-                          disabled={actionLoading[`delete_${user.id}`]}
-                          title="Delete User"
-                        >
-                          <FaTrash className="w-4 h-4" />
-                        </button>
+                        {canManageUsers && (
+                          <>
+                            <button
+                              className="p-2.5 bg-green-50 text-green-600 hover:text-white hover:bg-green-600 rounded-lg transition-all duration-200 hover:scale-105 hover:shadow-md border border-green-200"
+                              onClick={() => handleEditUser(user)}
+                              title="Edit User"
+                            >
+                              <FaEdit className="w-4 h-4" />
+                            </button>
+                            <button
+                              className="p-2.5 bg-orange-50 text-orange-600 hover:text-white hover:bg-orange-600 rounded-lg transition-all duration-200 hover:scale-105 hover:shadow-md border border-orange-200"
+                              onClick={() => handleResetPassword(user)}
+                              title="Reset Password"
+                            >
+                              <FaKey className="w-4 h-4" />
+                            </button>
+                            <button
+                              className="p-2.5 bg-red-50 text-red-600 hover:text-white hover:bg-red-600 rounded-lg transition-all duration-200 hover:scale-105 hover:shadow-md border border-red-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                              onClick={() => {
+                                setUserToDelete(user.id);
+                                setAuditReason('');
+                                setAuditReasonError(null);
+                                setIsDeleteModalOpen(true);
+                              }}
+                              disabled={actionLoading[`delete_${user.id}`]}
+                              title="Delete User"
+                            >
+                              <FaTrash className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -568,9 +661,20 @@ const AdminUsersPage: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
             <h3 className="text-lg font-medium mb-4">Confirm Delete</h3>
-            <p className="text-gray-600 mb-6">
+            <p className="text-gray-600 mb-4">
               Are you sure you want to delete this user? This action cannot be undone.
             </p>
+            <div className="mb-6">
+              <AuditReasonField
+                id="user-delete-reason"
+                value={auditReason}
+                onChange={(value) => {
+                  setAuditReason(value);
+                  setAuditReasonError(null);
+                }}
+                error={auditReasonError}
+              />
+            </div>
             <div className="flex justify-end gap-2">
               <button
                 onClick={() => {
@@ -611,12 +715,23 @@ const AdminUsersPage: React.FC = () => {
                   <p className="text-sm text-gray-600">{selectedUser.email}</p>
                 </div>
               </div>
-              <button
-                onClick={() => setIsViewModalOpen(false)}
-                className="text-gray-400 hover:text-gray-600 text-2xl"
-              >
-                ×
-              </button>
+              <div className="flex items-center gap-3">
+                {hasPermission('users.impersonate') && (selectedUser.role === 'customer' || selectedUser.role === 'vendor') && (
+                  <button
+                    onClick={() => handleOpenImpersonation(selectedUser)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-amber-50 text-amber-700 border border-amber-200 rounded-lg hover:bg-amber-100"
+                  >
+                    <FaUserSecret className="w-4 h-4" />
+                    View as user
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsViewModalOpen(false)}
+                  className="text-gray-400 hover:text-gray-600 text-2xl"
+                >
+                  ×
+                </button>
+              </div>
             </div>
 
             {/* Tab Navigation */}
@@ -677,6 +792,17 @@ const AdminUsersPage: React.FC = () => {
                 <FaDatabase className="w-4 h-4" />
                 Related Data
               </button>
+              <button
+                onClick={() => setViewModalTab('audit')}
+                className={`px-4 py-3 font-medium transition-colors flex items-center gap-2 ${
+                  viewModalTab === 'audit'
+                    ? 'border-b-2 border-blue-600 text-blue-600'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <FaClipboardList className="w-4 h-4" />
+                Audit Trail
+              </button>
             </div>
 
             {/* Tab Content */}
@@ -902,6 +1028,11 @@ const AdminUsersPage: React.FC = () => {
                 </div>
               )}
 
+              {/* Audit Trail Tab */}
+              {viewModalTab === 'audit' && (
+                <AuditHistory entityType="user" entityId={selectedUser.id} />
+              )}
+
               {/* Related Data Tab */}
               {viewModalTab === 'related' && (
                 <div className="space-y-6">
@@ -983,15 +1114,17 @@ const AdminUsersPage: React.FC = () => {
               >
                 Close
               </button>
-              <button
-                onClick={() => {
-                  setIsViewModalOpen(false);
-                  handleEditUser(selectedUser);
-                }}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Edit User
-              </button>
+              {canManageUsers && (
+                <button
+                  onClick={() => {
+                    setIsViewModalOpen(false);
+                    handleEditUser(selectedUser);
+                  }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Edit User
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1161,6 +1294,7 @@ const AdminUsersPage: React.FC = () => {
                 if (isCreateModalOpen) {
                   const createData = {
                     ...userData,
+                    adminRoleId: role === 'admin' ? (formData.get('adminRoleId') as string) || undefined : undefined,
                     password: (formData.get('password') as string || '').trim() || 'TempPass123!'
                   };
                   const response = await adminAPI.createUser(createData);
@@ -1171,6 +1305,13 @@ const AdminUsersPage: React.FC = () => {
                   }
                 } else if (selectedUser) {
                   const response = await adminAPI.updateUser(selectedUser.id, userData);
+
+                  // Role assignment has its own endpoint so the change shows up in the audit log
+                  const adminRoleId = formData.get('adminRoleId');
+                  if (role === 'admin' && adminRoleId !== null && adminRoleId !== (selectedUser.adminRoleId || '')) {
+                    await rolesAPI.assignRole(selectedUser.id, (adminRoleId as string) || null);
+                  }
+
                   if (response.success) {
                     toast.success('User updated successfully');
                     setIsEditModalOpen(false);
@@ -1360,6 +1501,23 @@ const AdminUsersPage: React.FC = () => {
                             <option value="suspended">Suspended</option>
                           </select>
                         </div>
+
+                        {selectedRole === 'admin' && canManageRoles && (
+                          <div className="md:col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Admin role</label>
+                            <select
+                              name="adminRoleId"
+                              defaultValue={selectedUser?.adminRoleId || ''}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+                            >
+                              <option value="">Full access</option>
+                              {adminRoles.map((role) => (
+                                <option key={role._id} value={role._id}>{role.name}</option>
+                              ))}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">Limits which admin pages and actions this account can use.</p>
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -1770,6 +1928,16 @@ const AdminUsersPage: React.FC = () => {
                     </p>
                   </div>
 
+                  <AuditReasonField
+                    id="password-reset-reason"
+                    value={auditReason}
+                    onChange={(value) => {
+                      setAuditReason(value);
+                      setAuditReasonError(null);
+                    }}
+                    error={auditReasonError}
+                  />
+
                   <div className="flex gap-3 mt-6">
                     <button
                       onClick={() => {
@@ -1864,6 +2032,71 @@ const AdminUsersPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* View As User Modal */}
+      {impersonationUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[55] p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center">
+              <div className="w-12 h-12 bg-amber-100 rounded-full flex items-center justify-center mr-4">
+                <FaUserSecret className="w-6 h-6 text-amber-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">View as {impersonationUser.firstName} {impersonationUser.lastName}</h3>
+                <p className="text-sm text-gray-500">{impersonationUser.email}</p>
+              </div>
+            </div>
+
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+              You will see the app exactly as this {impersonationUser.role} does. The session is read-only
+              (no payments, bookings, cancellations or other changes) and is recorded in the audit log.
+            </div>
+
+            <div>
+              <label htmlFor="impersonation-duration" className="block text-sm font-medium text-gray-700 mb-1">
+                Session length
+              </label>
+              <select
+                id="impersonation-duration"
+                value={impersonationMinutes}
+                onChange={(e) => setImpersonationMinutes(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {IMPERSONATION_DURATION_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+
+            <AuditReasonField
+              id="impersonation-reason"
+              value={auditReason}
+              onChange={(value) => {
+                setAuditReason(value);
+                setAuditReasonError(null);
+              }}
+              error={auditReasonError}
+            />
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setImpersonationUser(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                disabled={actionLoading.impersonate}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStartImpersonation}
+                disabled={actionLoading.impersonate}
+                className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50"
+              >
+                {actionLoading.impersonate ? 'Starting...' : 'Start session'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
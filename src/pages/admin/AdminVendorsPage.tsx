@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import api from '../../services/api';
+import { withAuditReason } from '../../services/api/auditAPI';
+import AuditHistory from '../../components/admin/AuditHistory';
+import AuditReasonField from '../../components/admin/AuditReasonField';
+import { validateAuditReason } from '../../utils/auditUtils';
 
 interface Vendor {
   id: string;
@@ -36,7 +40,7 @@ const AdminVendorsPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedVendor, setSelectedVendor] = useState<Vendor | null>(null);
   const [showModal, setShowModal] = useState(false);
-  const [modalMode, setModalMode] = useState<'paymentMode' | 'status'>('paymentMode');
+  const [modalMode, setModalMode] = useState<'paymentMode' | 'status' | 'history'>('paymentMode');
 
   // Form state
   const [paymentMode, setPaymentMode] = useState<'platform_stripe' | 'custom_stripe'>('platform_stripe');
@@ -45,6 +49,8 @@ const AdminVendorsPage: React.FC = () => {
   const [isActive, setIsActive] = useState(true);
   const [isSuspended, setIsSuspended] = useState(false);
   const [suspensionReason, setSuspensionReason] = useState('');
+  const [auditReason, setAuditReason] = useState('');
+  const [auditReasonError, setAuditReasonError] = useState<string | null>(null);
 
   // Filters
   const [search, setSearch] = useState('');
@@ -91,6 +97,8 @@ const AdminVendorsPage: React.FC = () => {
     setSelectedVendor(vendor);
     setPaymentMode(vendor.paymentMode);
     setCommissionRate(vendor.commissionRate);
+    setAuditReason('');
+    setAuditReasonError(null);
     setModalMode('paymentMode');
     setShowModal(true);
   };
@@ -100,19 +108,33 @@ const AdminVendorsPage: React.FC = () => {
     setIsActive(vendor.isActive);
     setIsSuspended(vendor.isSuspended);
     setSuspensionReason('');
+    setAuditReason('');
+    setAuditReasonError(null);
     setModalMode('status');
     setShowModal(true);
   };
 
+  const openHistoryModal = (vendor: Vendor) => {
+    setSelectedVendor(vendor);
+    setModalMode('history');
+    setShowModal(true);
+  };
+
   const handleUpdatePaymentMode = async () => {
     if (!selectedVendor) return;
 
+    const reasonError = validateAuditReason(auditReason);
+    if (reasonError) {
+      setAuditReasonError(reasonError);
+      return;
+    }
+
     try {
       await api.put(`/admin/vendors/${selectedVendor.id}/payment-mode`, {
         paymentMode,
         commissionRate: paymentMode === 'platform_stripe' ? commissionRate : undefined,
         subscriptionAmount: paymentMode === 'custom_stripe' ? subscriptionAmount : undefined,
-      });
+      }, withAuditReason(auditReason));
 
       toast.success(`Vendor payment mode updated to ${paymentMode === 'platform_stripe' ? 'Commission' : 'Subscription'}`);
       setShowModal(false);
@@ -126,12 +148,18 @@ const AdminVendorsPage: React.FC = () => {
   const handleUpdateStatus = async () => {
     if (!selectedVendor) return;
 
+    const reasonError = validateAuditReason(auditReason);
+    if (reasonError) {
+      setAuditReasonError(reasonError);
+      return;
+    }
+
     try {
       await api.put(`/admin/vendors/${selectedVendor.id}/status`, {
         isActive,
         isSuspended,
         suspensionReason: isSuspended ? suspensionReason : undefined,
-      });
+      }, withAuditReason(auditReason));
 
       toast.success('Vendor status updated successfully');
       setShowModal(false);
@@ -334,6 +362,12 @@ const AdminVendorsPage: React.FC = () => {
                           >
                             Status
                           </button>
+                          <button
+                            onClick={() => openHistoryModal(vendor)}
+                            className="text-gray-600 hover:text-gray-800 font-medium"
+                          >
+                            History
+                          </button>
                           {vendor.paymentMode === 'custom_stripe' && (
                             <button
                               onClick={() => handleAddManualPayment(vendor.id)}
@@ -445,6 +479,18 @@ const AdminVendorsPage: React.FC = () => {
                   </p>
                 </div>
 
+                <div className="mb-4">
+                  <AuditReasonField
+                    id="vendor-payment-mode-reason"
+                    value={auditReason}
+                    onChange={(value) => {
+                      setAuditReason(value);
+                      setAuditReasonError(null);
+                    }}
+                    error={auditReasonError}
+                  />
+                </div>
+
                 <div className="flex gap-3">
                   <button
                     onClick={handleUpdatePaymentMode}
@@ -460,7 +506,7 @@ const AdminVendorsPage: React.FC = () => {
                   </button>
                 </div>
               </>
-            ) : (
+            ) : modalMode === 'status' ? (
               <>
                 <h2 className="text-xl font-bold text-gray-900 mb-4">
                   Update Vendor Status
@@ -509,6 +555,18 @@ const AdminVendorsPage: React.FC = () => {
                   </div>
                 )}
 
+                <div className="mb-4">
+                  <AuditReasonField
+                    id="vendor-status-reason"
+                    value={auditReason}
+                    onChange={(value) => {
+                      setAuditReason(value);
+                      setAuditReasonError(null);
+                    }}
+                    error={auditReasonError}
+                  />
+                </div>
+
                 <div className="flex gap-3">
                   <button
                     onClick={handleUpdateStatus}
@@ -524,6 +582,26 @@ const AdminVendorsPage: React.FC = () => {
                   </button>
                 </div>
               </>
+            ) : (
+              <>
+                <h2 className="text-xl font-bold text-gray-900 mb-4">
+                  Audit History
+                </h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Vendor: <strong>{selectedVendor.businessName}</strong>
+                </p>
+
+                <div className="max-h-96 overflow-y-auto mb-4">
+                  <AuditHistory entityType="vendor" entityId={selectedVendor.id} />
+                </div>
+
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="w-full bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  Close
+                </button>
+              </>
             )}
           </div>
         </div>
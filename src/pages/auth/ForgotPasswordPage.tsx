@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
+import { Trans, useTranslation } from 'react-i18next';
 import { authAPI } from '../../services/api/authAPI';
 
 interface ForgotPasswordFormData {
@@ -7,6 +8,7 @@ interface ForgotPasswordFormData {
 }
 
 const ForgotPasswordPage: React.FC = () => {
+  const { t } = useTranslation('auth');
   const [formData, setFormData] = useState<ForgotPasswordFormData>({
     email: ''
   });
@@ -20,10 +22,10 @@ const ForgotPasswordPage: React.FC = () => {
     let isValid = true;
 
     if (!formData.email) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('validation.emailRequired');
       isValid = false;
     } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Email is invalid';
+      newErrors.email = t('validation.emailInvalid');
       isValid = false;
     }
 
@@ -68,7 +70,7 @@ const ForgotPasswordPage: React.FC = () => {
       setRequestSuccess(true);
     } catch (error: any) {
       console.error('Password reset request error:', error);
-      setRequestError(error?.response?.data?.message || error.message || 'An unexpected error occurred');
+      setRequestError(error?.response?.data?.message || error.message || t('unexpectedError'));
     } finally {
       setIsLoading(false);
     }
@@ -80,9 +82,9 @@ const ForgotPasswordPage: React.FC = () => {
         <div className="bg-white p-8 rounded-xl shadow-medium border border-neutral-200">
           <div className="text-center">
             <img src="/assets/animations/loading.svg" alt="Logo" className="h-12 w-12 mx-auto mb-4" />
-            <h2 className="text-center text-2xl font-bold text-neutral-800">Reset your password</h2>
+            <h2 className="text-center text-2xl font-bold text-neutral-800">{t('forgotPasswordPage.title')}</h2>
             <p className="mt-2 text-center text-sm text-neutral-600">
-              Enter your email address and we'll send you a verification code to reset your password.
+              {t('forgotPasswordPage.subtitle')}
             </p>
           </div>
         
@@ -102,16 +104,18 @@ const ForgotPasswordPage: React.FC = () => {
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
               </svg>
               <div className="ml-3">
-                <h3 className="text-sm font-medium text-success-800">Verification code sent!</h3>
+                <h3 className="text-sm font-medium text-success-800">{t('forgotPasswordPage.codeSent')}</h3>
                 <p className="mt-2 text-sm text-success-700">
-                  We've sent a verification code to <strong>{formData.email}</strong>. Please check your inbox and use the code to reset your password.
+                  <Trans t={t} i18nKey="forgotPasswordPage.codeSentHelp" values={{ email: formData.email }}>
+                    We've sent a verification code to <strong>{'{{email}}'}</strong>. Please check your inbox and use the code to reset your password.
+                  </Trans>
                 </p>
                 <div className="mt-4">
                   <Link to="/reset-password" className="font-medium text-primary-600 hover:text-primary-700 transition-colors flex items-center">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
                     </svg>
-                    Continue to reset password
+                    {t('forgotPasswordPage.continueToReset')}
                   </Link>
                 </div>
               </div>
@@ -120,7 +124,7 @@ const ForgotPasswordPage: React.FC = () => {
         ) : (
           <form className="mt-6 space-y-6" onSubmit={handleSubmit}>
             <div className="form-group">
-              <label htmlFor="email" className="form-label text-sm font-medium text-neutral-700">Email address</label>
+              <label htmlFor="email" className="form-label text-sm font-medium text-neutral-700">{t('emailAddress')}</label>
               <div className="relative mt-1">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -157,7 +161,7 @@ const ForgotPasswordPage: React.FC = () => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    <span>Sending...</span>
+                    <span>{t('forgotPasswordPage.sending')}</span>
                   </>
                 ) : (
                   <>
@@ -165,7 +169,7 @@ const ForgotPasswordPage: React.FC = () => {
                       <path d="M3 4a2 2 0 00-2 2v1.161l8.441 4.221a1.25 1.25 0 001.118 0L19 7.162V6a2 2 0 00-2-2H3z" />
                       <path d="M19 8.839l-7.77 3.885a2.75 2.75 0 01-2.46 0L1 8.839V14a2 2 0 002 2h14a2 2 0 002-2V8.839z" />
                     </svg>
-                    <span>Send verification code</span>
+                    <span>{t('forgotPasswordPage.sendCode')}</span>
                   </>
                 )}
               </button>
@@ -179,7 +183,7 @@ const ForgotPasswordPage: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
                 </svg>
-                Back to login
+                {t('backToLogin')}
               </Link>
             </div>
           </form>
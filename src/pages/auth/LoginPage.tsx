@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useDispatch } from 'react-redux';
+import { useTranslation } from 'react-i18next';
 import { loginWithGoogle } from '@/services/firebaseAuth';
 import { redirectToRoleDashboard, type UserRole } from '@/utils/roleRedirect';
 import { loginUser, loginWithGoogleThunk } from '@/store/slices/authSlice';
@@ -29,6 +30,7 @@ const TEST_ACCOUNTS: TestAccount[] = [
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { t } = useTranslation('auth');
   const dispatch = useDispatch<AppDispatch>();
   const [formData, setFormData] = useState<LoginFormData>({
     email: '',
@@ -38,6 +40,8 @@ const LoginPage: React.FC = () => {
   const [errors, setErrors] = useState<Partial<LoginFormData>>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loginError, setLoginError] = useState<string | null>(null);
+  // Connection and server errors offer a retry
+  const [canRetry, setCanRetry] = useState<boolean>(false);
   const [loginStatus, setLoginStatus] = useState<string>('');
   const [showTestAccounts, setShowTestAccounts] = useState<boolean>(false);
   const [backendStatus, setBackendStatus] = useState<'connected' | 'connecting' | 'error'>('connecting');
@@ -71,7 +75,8 @@ const LoginPage: React.FC = () => {
     try {
       setIsLoading(true);
       setLoginError(null);
-      setLoginStatus('Signing in with Google...');
+      setCanRetry(false);
+      setLoginStatus(t('loginPage.signingInWithGoogle'));
       
       // Use Redux action for Google login
       const result = await dispatch(loginWithGoogleThunk(navigate));
@@ -92,11 +97,11 @@ const LoginPage: React.FC = () => {
           localStorage.setItem('rememberMe', 'true');
         }
       } else {
-        setLoginError(result.payload as string || 'Failed to sign in with Google');
+        setLoginError(result.payload as string || t('loginPage.googleFailed'));
       }
     } catch (error) {
       console.error('Google sign-in error:', error);
-      setLoginError(error instanceof Error ? error.message : 'Failed to sign in with Google');
+      setLoginError(error instanceof Error ? error.message : t('loginPage.googleFailed'));
     } finally {
       setIsLoading(false);
       setLoginStatus('');
@@ -108,18 +113,18 @@ const LoginPage: React.FC = () => {
     let isValid = true;
 
     if (!formData.email) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('validation.emailRequired');
       isValid = false;
     } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Email is invalid';
+      newErrors.email = t('validation.emailInvalid');
       isValid = false;
     }
 
     if (!formData.password) {
-      newErrors.password = 'Password is required';
+      newErrors.password = t('validation.passwordRequired');
       isValid = false;
     } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+      newErrors.password = t('validation.passwordLength');
       isValid = false;
     }
 
@@ -157,11 +162,12 @@ const LoginPage: React.FC = () => {
 
     setIsLoading(true);
     setLoginError(null);
-    setLoginStatus('Authenticating...');
+    setCanRetry(false);
+    setLoginStatus(t('loginPage.authenticating'));
 
     try {
       // Use Redux action for login
-      setLoginStatus('Verifying credentials...');
+      setLoginStatus(t('loginPage.verifyingCredentials'));
       const result = await dispatch(loginUser({
         email: formData.email,
         password: formData.password,
@@ -172,7 +178,7 @@ const LoginPage: React.FC = () => {
       if (loginUser.fulfilled.match(result)) {
         const response = result.payload;
 
-        setLoginStatus('Login successful! Redirecting...');
+        setLoginStatus(t('loginPage.redirecting'));
 
         // Store auth data consistently with backend response
         const tokens = response.tokens || {
@@ -187,32 +193,36 @@ const LoginPage: React.FC = () => {
           localStorage.setItem('rememberMe', 'true');
         }
       } else {
-        const errorMessage = result.payload as string || 'An unexpected error occurred';
+        const errorMessage = result.payload as string || t('unexpectedError');
         setLoginError(errorMessage);
 
         // Provide more helpful error messages
         if (errorMessage.includes('credentials')) {
-          setLoginError('Invalid email or password. Please check your credentials and try again.');
+          setLoginError(t('loginPage.invalidCredentials'));
         } else if (errorMessage.includes('network') || errorMessage.includes('timeout')) {
-          setLoginError('Network error. Please check your internet connection and try again.');
+          setLoginError(t('loginPage.networkError'));
+          setCanRetry(true);
         } else if (errorMessage.includes('warming up')) {
-          setLoginError('Backend server is starting up. Please wait a moment and try again.');
+          setLoginError(t('loginPage.serverStarting'));
+          setCanRetry(true);
         }
       }
 
     } catch (error: any) {
       console.error('Login error:', error);
-      const errorMessage = error.response?.data?.message || error.message || 'An unexpected error occurred';
+      const errorMessage = error.response?.data?.message || error.message || t('unexpectedError');
 
       // Provide context-specific error messages
       if (error.code === 'ERR_NETWORK') {
-        setLoginError('Unable to reach the server. Please check your internet connection.');
+        setLoginError(t('loginPage.serverUnreachable'));
+        setCanRetry(true);
       } else if (error.response?.status === 401) {
-        setLoginError('Invalid email or password. Please try again.');
+        setLoginError(t('loginPage.invalidEmailOrPassword'));
       } else if (error.response?.status === 429) {
-        setLoginError('Too many login attempts. Please wait a few minutes and try again.');
+        setLoginError(t('loginPage.tooManyAttempts'));
       } else if (error.response?.status >= 500) {
-        setLoginError('Server error. Please try again in a few moments.');
+        setLoginError(t('loginPage.serverError'));
+        setCanRetry(true);
       } else {
         setLoginError(errorMessage);
       }
@@ -229,14 +239,14 @@ const LoginPage: React.FC = () => {
           <div className="flex justify-center mb-4">
             <img src="/assets/animations/loading.svg" alt="Logo" className="h-16 w-auto" />
           </div>
-          <h2 className="text-center text-3xl font-extrabold text-gradient">Welcome Back!</h2>
+          <h2 className="text-center text-3xl font-extrabold text-gradient">{t('loginPage.title')}</h2>
           <p className="mt-2 text-center text-base text-neutral-600">
-            Sign in to continue to your account
+            {t('loginPage.subtitle')}
           </p>
           <p className="mt-1 text-center text-sm text-neutral-500">
-            Don't have an account?{' '}
+            {t('dontHaveAccount')}{' '}
             <Link to="/register" className="font-medium text-primary-600 hover:text-primary-700 transition-colors">
-              Create one now
+              {t('loginPage.createOne')}
             </Link>
           </p>
         </div>
@@ -246,11 +256,11 @@ const LoginPage: React.FC = () => {
           <div className="space-y-2">
             {/* Backend Status */}
             <div className="flex items-center justify-between p-3 bg-neutral-50 rounded-lg border border-neutral-200 text-xs">
-              <span className="text-neutral-600">Backend Status:</span>
+              <span className="text-neutral-600">{t('loginPage.backendStatus')}</span>
               <div className="flex items-center space-x-2">
                 <div className={`w-2 h-2 rounded-full ${backendStatus === 'connected' ? 'bg-success-500' : backendStatus === 'connecting' ? 'bg-warning-500' : 'bg-error-500'}`}></div>
                 <span className="font-medium text-neutral-700">
-                  {backendStatus === 'connected' ? '🟢 Connected' : backendStatus === 'connecting' ? '🟡 Connecting' : '🔴 Error'}
+                  {backendStatus === 'connected' ? `🟢 ${t('loginPage.connected')}` : backendStatus === 'connecting' ? `🟡 ${t('loginPage.connecting')}` : `🔴 ${t('loginPage.connectionError')}`}
                 </span>
               </div>
             </div>
@@ -266,7 +276,7 @@ const LoginPage: React.FC = () => {
                   <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
                   </svg>
-                  <span>Quick Test Login</span>
+                  <span>{t('loginPage.quickTestLogin')}</span>
                 </span>
                 <svg className={`h-4 w-4 transition-transform duration-200 ${showTestAccounts ? 'transform rotate-180' : ''}`} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -325,9 +335,9 @@ const LoginPage: React.FC = () => {
                 </svg>
               </div>
               <div className="ml-3 flex-1">
-                <h3 className="text-sm font-medium text-error-800">Login Failed</h3>
+                <h3 className="text-sm font-medium text-error-800">{t('loginPage.failed')}</h3>
                 <p className="text-sm text-error-700 mt-1">{loginError}</p>
-                {(loginError.includes('server') || loginError.includes('network') || loginError.includes('warming up')) && (
+                {canRetry && (
                   <button
                     type="button"
                     onClick={() => {
@@ -338,7 +348,7 @@ const LoginPage: React.FC = () => {
                     }}
                     className="mt-2 text-sm font-medium text-error-700 hover:text-error-800 underline transition-colors"
                   >
-                    Retry Now
+                    {t('loginPage.retry')}
                   </button>
                 )}
               </div>
@@ -358,7 +368,7 @@ const LoginPage: React.FC = () => {
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="space-y-4">
             <div className="form-group">
-              <label htmlFor="email" className="form-label">Email address</label>
+              <label htmlFor="email" className="form-label">{t('emailAddress')}</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-neutral-400" viewBox="0 0 20 20" fill="currentColor">
@@ -383,7 +393,7 @@ const LoginPage: React.FC = () => {
               )}
             </div>
             <div className="form-group">
-              <label htmlFor="password" className="form-label">Password</label>
+              <label htmlFor="password" className="form-label">{t('password')}</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-neutral-400" viewBox="0 0 20 20" fill="currentColor">
@@ -419,11 +429,11 @@ const LoginPage: React.FC = () => {
                 onChange={handleInputChange}
               />
               <label htmlFor="remember-me" className="ml-2 block text-sm text-neutral-700 cursor-pointer">
-                Remember me
+                {t('rememberMe')}
               </label>
               {/* Tooltip */}
               <div className="absolute left-0 top-full mt-1 hidden group-hover:block z-20 w-48 p-2 bg-neutral-800 text-white text-xs rounded shadow-lg">
-                Keep me signed in on this device
+                {t('loginPage.rememberMeHint')}
                 <div className="absolute -top-1 left-4 w-2 h-2 bg-neutral-800 transform rotate-45"></div>
               </div>
             </div>
@@ -436,7 +446,7 @@ const LoginPage: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
                 </svg>
-                Forgot password?
+                {t('loginPage.forgotPassword')}
               </Link>
             </div>
           </div>
@@ -457,14 +467,14 @@ const LoginPage: React.FC = () => {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  <span>{loginStatus || 'Signing in...'}</span>
+                  <span>{loginStatus || t('loginPage.signingIn')}</span>
                 </>
               ) : (
                 <>
                   <svg className="h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
                   </svg>
-                  <span>Sign in</span>
+                  <span>{t('loginPage.submit')}</span>
                 </>
               )}
             </button>
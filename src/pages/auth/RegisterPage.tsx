@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import { Trans, useTranslation } from 'react-i18next';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { registerUser, verifyEmailWithOTP, resendVerificationEmail, loginWithGoogleThunk, clearError } from '@/store/slices/authSlice';
 import { loginWithGoogle } from '@/services/firebaseAuth';
@@ -26,6 +27,7 @@ type RegistrationStep = 1 | 2;
 const RegisterPage: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useAppDispatch();
+  const { t } = useTranslation('auth');
   const { isLoading, error } = useAppSelector((state) => state.auth);
   const [currentStep, setCurrentStep] = useState<RegistrationStep>(1);
   const [formData, setFormData] = useState<RegisterFormData>({
@@ -64,52 +66,52 @@ const RegisterPage: React.FC = () => {
     let isValid = true;
 
     if (!formData.firstName.trim()) {
-      newErrors.firstName = 'First name is required';
+      newErrors.firstName = t('validation.firstNameRequired');
       isValid = false;
     }
 
     if (!formData.lastName.trim()) {
-      newErrors.lastName = 'Last name is required';
+      newErrors.lastName = t('validation.lastNameRequired');
       isValid = false;
     }
 
     if (!formData.email) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('validation.emailRequired');
       isValid = false;
     } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Email is invalid';
+      newErrors.email = t('validation.emailInvalid');
       isValid = false;
     }
 
     if (!formData.password) {
-      newErrors.password = 'Password is required';
+      newErrors.password = t('validation.passwordRequired');
       isValid = false;
     } else if (formData.password.length < 8) {
-      newErrors.password = 'Password must be at least 8 characters long';
+      newErrors.password = t('validation.passwordMinLength');
       isValid = false;
     } else if (!/^(?=.*\d)(?=.*[a-z])(?=.*[A-Z])(?=.*[!@#$%^&*])/.test(formData.password)) {
-      newErrors.password = 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character';
+      newErrors.password = t('validation.passwordStrength');
       isValid = false;
     }
 
     if (!formData.confirmPassword) {
-      newErrors.confirmPassword = 'Please confirm your password';
+      newErrors.confirmPassword = t('validation.confirmPasswordRequired');
       isValid = false;
     } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
+      newErrors.confirmPassword = t('validation.passwordsMismatch');
       isValid = false;
     }
 
     if (!formData.countryCode) {
-      newErrors.countryCode = 'Country code is required';
+      newErrors.countryCode = t('validation.countryCodeRequired');
       isValid = false;
     }
 
     if (!formData.phoneNumber) {
-      newErrors.phoneNumber = 'Phone number is required';
+      newErrors.phoneNumber = t('validation.phoneRequired');
       isValid = false;
     } else if (formData.phoneNumber.length < 7 || formData.phoneNumber.length > 14) {
-      newErrors.phoneNumber = 'Phone number must be between 7 and 14 digits';
+      newErrors.phoneNumber = t('validation.phoneLength');
       isValid = false;
     }
 
@@ -208,7 +210,7 @@ const RegisterPage: React.FC = () => {
     e.preventDefault();
 
     if (!otpData.otp || otpData.otp.length !== 4) {
-      setOtpError('Please enter a valid 4-digit OTP');
+      setOtpError(t('validation.codeLength'));
       return;
     }
 
@@ -220,13 +222,13 @@ const RegisterPage: React.FC = () => {
       // Redirect to home page after successful verification
       navigate('/', {
         state: {
-          message: 'Registration completed successfully! Your email has been verified.',
+          message: t('registerPage.completedVerified'),
           type: 'success'
         }
       });
     } catch (error: any) {
       console.error('OTP verification error:', error);
-      setOtpError(error || 'Invalid OTP. Please try again.');
+      setOtpError(error || t('verifyEmailPage.invalidCode'));
     }
   };
 
@@ -234,7 +236,7 @@ const RegisterPage: React.FC = () => {
     // Skip verification and go to home page
     navigate('/', {
       state: {
-        message: 'Registration completed successfully! You can verify your email later.',
+        message: t('registerPage.completedUnverified'),
         type: 'info'
       }
     });
@@ -246,7 +248,7 @@ const RegisterPage: React.FC = () => {
       setOtpError('');
     } catch (error: any) {
       console.error('Resend OTP error:', error);
-      setOtpError(error || 'Failed to resend OTP');
+      setOtpError(error || t('registerPage.resendFailed'));
     }
   };
 
@@ -257,10 +259,11 @@ const RegisterPage: React.FC = () => {
           <div className="bg-white p-8 rounded-xl shadow-medium border border-neutral-200">
             <div className="text-center">
               <img src="/assets/animations/loading.svg" alt="Logo" className="h-12 w-12 mx-auto mb-4" />
-              <h2 className="text-center text-2xl font-bold text-neutral-800">Verify Your Email</h2>
+              <h2 className="text-center text-2xl font-bold text-neutral-800">{t('verifyEmailPage.otpTitle')}</h2>
               <p className="mt-2 text-center text-sm text-neutral-600">
-                We've sent a 4-digit verification code to{' '}
-                <span className="font-medium text-primary-600">{formData.email}</span>
+                <Trans t={t} i18nKey="registerPage.codeSent" values={{ email: formData.email }}>
+                  We've sent a 4-digit verification code to <span className="font-medium text-primary-600">{'{{email}}'}</span>
+                </Trans>
               </p>
             </div>
 
@@ -275,7 +278,7 @@ const RegisterPage: React.FC = () => {
 
           <form className="mt-6 space-y-6" onSubmit={handleOtpSubmit}>
             <div className="form-group">
-              <label htmlFor="otp" className="form-label">Verification Code</label>
+              <label htmlFor="otp" className="form-label">{t('verificationCode')}</label>
               <div className="relative">
                 <input
                   id="otp"
@@ -307,10 +310,10 @@ const RegisterPage: React.FC = () => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    <span>Verifying...</span>
+                    <span>{t('verifyEmailPage.verifyingShort')}</span>
                   </>
                 ) : (
-                  <span>Verify Email</span>
+                  <span>{t('verifyEmailPage.submit')}</span>
                 )}
               </button>
 
@@ -319,21 +322,21 @@ const RegisterPage: React.FC = () => {
                 onClick={handleSkipVerification}
                 className="btn btn-lg w-full border-2 border-neutral-200 bg-white text-neutral-700 hover:bg-neutral-50 font-medium rounded-lg transition-all duration-200"
               >
-                Skip Verification
+                {t('registerPage.skipVerification')}
               </button>
             </div>
           </form>
 
           <div className="text-center">
             <p className="text-sm text-neutral-600">
-              Didn't receive the code?{' '}
+              {t('verifyEmailPage.noCode')}{' '}
               <button
                 type="button"
                 onClick={handleResendOtp}
                 disabled={isLoading}
                 className="font-medium text-primary-600 hover:text-primary-700 transition-colors disabled:text-primary-400"
               >
-                Resend Code
+                {t('registerPage.resendCode')}
               </button>
             </p>
           </div>
@@ -349,12 +352,11 @@ const RegisterPage: React.FC = () => {
         <div className="bg-white p-8 rounded-xl shadow-medium border border-neutral-200">
           <div className="text-center">
             <img src="/assets/animations/loading.svg" alt="Logo" className="h-12 w-12 mx-auto mb-4" />
-            <h2 className="text-center text-2xl font-bold text-neutral-800">Create your account</h2>
+            <h2 className="text-center text-2xl font-bold text-neutral-800">{t('registerPage.title')}</h2>
             <p className="mt-2 text-center text-sm text-neutral-600">
-              Or{' '}
-              <Link to="/login" className="font-medium text-primary-600 hover:text-primary-700 transition-colors">
-                sign in to your existing account
-              </Link>
+              <Trans t={t} i18nKey="registerPage.signInInstead">
+                Or <Link to="/login" className="font-medium text-primary-600 hover:text-primary-700 transition-colors">sign in to your existing account</Link>
+              </Trans>
             </p>
           </div>
 
@@ -371,7 +373,7 @@ const RegisterPage: React.FC = () => {
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="form-group">
-                <label htmlFor="firstName" className="form-label">First name</label>
+                <label htmlFor="firstName" className="form-label">{t('firstName')}</label>
                 <input
                   id="firstName"
                   name="firstName"
@@ -389,7 +391,7 @@ const RegisterPage: React.FC = () => {
               </div>
 
               <div className="form-group">
-                <label htmlFor="lastName" className="form-label">Last name</label>
+                <label htmlFor="lastName" className="form-label">{t('lastName')}</label>
                 <input
                   id="lastName"
                   name="lastName"
@@ -408,7 +410,7 @@ const RegisterPage: React.FC = () => {
             </div>
 
             <div className="form-group">
-              <label className="form-label">I am registering as</label>
+              <label className="form-label">{t('registerPage.registeringAs')}</label>
               <div className="grid grid-cols-2 gap-3">
                 <button
                   type="button"
@@ -423,7 +425,7 @@ const RegisterPage: React.FC = () => {
                     <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                       <path d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" />
                     </svg>
-                    <span>Customer</span>
+                    <span>{t('registerPage.customer')}</span>
                   </div>
                 </button>
                 <button
@@ -439,19 +441,19 @@ const RegisterPage: React.FC = () => {
                     <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M4 4a2 2 0 012-2h8a2 2 0 012 2v12a1 1 0 110 2h-3a1 1 0 01-1-1v-2a1 1 0 00-1-1H9a1 1 0 00-1 1v2a1 1 0 01-1 1H4a1 1 0 110-2V4zm3 1h2v2H7V5zm2 4H7v2h2V9zm2-4h2v2h-2V5zm2 4h-2v2h2V9z" clipRule="evenodd" />
                     </svg>
-                    <span>Vendor</span>
+                    <span>{t('registerPage.vendor')}</span>
                   </div>
                 </button>
               </div>
               <p className="mt-1 text-xs text-neutral-500">
                 {formData.role === 'customer'
-                  ? 'Book events and manage your tickets'
-                  : 'List events, manage venues, and grow your business'}
+                  ? t('registerPage.customerHint')
+                  : t('registerPage.vendorHint')}
               </p>
             </div>
 
             <div className="form-group">
-              <label htmlFor="email" className="form-label">Email address</label>
+              <label htmlFor="email" className="form-label">{t('emailAddress')}</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -487,7 +489,7 @@ const RegisterPage: React.FC = () => {
             />
 
             <div className="form-group">
-              <label htmlFor="password" className="form-label">Password</label>
+              <label htmlFor="password" className="form-label">{t('password')}</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -512,7 +514,7 @@ const RegisterPage: React.FC = () => {
             </div>
 
             <div className="form-group">
-              <label htmlFor="confirmPassword" className="form-label">Confirm password</label>
+              <label htmlFor="confirmPassword" className="form-label">{t('confirmPassword')}</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -548,18 +550,18 @@ const RegisterPage: React.FC = () => {
               required
             />
             <label htmlFor="agree-terms" className="ml-2 block text-sm text-neutral-700">
-              I agree to the{' '}
-              <Link to="/terms" className="font-medium text-primary-600 hover:text-primary-700 transition-colors">
-                Terms of Service
-              </Link>{' '}
-              and{' '}
-              <Link to="/privacy" className="font-medium text-primary-600 hover:text-primary-700 transition-colors">
-                Privacy Policy
-              </Link>
+              <Trans
+                t={t}
+                i18nKey="registerPage.agreeToTerms"
+                components={{
+                  terms: <Link to="/terms" className="font-medium text-primary-600 hover:text-primary-700 transition-colors" />,
+                  privacy: <Link to="/privacy" className="font-medium text-primary-600 hover:text-primary-700 transition-colors" />,
+                }}
+              />
             </label>
           </div>
           {errors.agreeToTerms && (
-            <p className="form-error mt-1">You must agree to the terms and conditions</p>
+            <p className="form-error mt-1">{t('validation.termsRequired')}</p>
           )}
 
           <div className="mt-2">
@@ -574,14 +576,14 @@ const RegisterPage: React.FC = () => {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  <span>Creating account...</span>
+                  <span>{t('registerPage.creating')}</span>
                 </>
               ) : (
                 <>
                   <svg className="h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                   </svg>
-                  <span>Create account</span>
+                  <span>{t('createAccount')}</span>
                 </>
               )}
             </button>
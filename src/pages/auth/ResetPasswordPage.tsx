@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 import { authAPI } from '../../services/api/authAPI';
 
 interface ResetPasswordFormData {
@@ -11,6 +12,7 @@ interface ResetPasswordFormData {
 
 const ResetPasswordPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation('auth');
   const [formData, setFormData] = useState<ResetPasswordFormData>({
     email: '',
     otp: '',
@@ -27,34 +29,34 @@ const ResetPasswordPage: React.FC = () => {
     let isValid = true;
 
     if (!formData.email) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('validation.emailRequired');
       isValid = false;
     } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Email is invalid';
+      newErrors.email = t('validation.emailInvalid');
       isValid = false;
     }
 
     if (!formData.otp) {
-      newErrors.otp = 'Verification code is required';
+      newErrors.otp = t('validation.codeRequired');
       isValid = false;
     } else if (formData.otp.length !== 4) {
-      newErrors.otp = 'Verification code must be 4 digits';
+      newErrors.otp = t('validation.codeLength');
       isValid = false;
     }
 
     if (!formData.password) {
-      newErrors.password = 'Password is required';
+      newErrors.password = t('validation.passwordRequired');
       isValid = false;
     } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+      newErrors.password = t('validation.passwordLength');
       isValid = false;
     }
 
     if (!formData.confirmPassword) {
-      newErrors.confirmPassword = 'Please confirm your password';
+      newErrors.confirmPassword = t('validation.confirmPasswordRequired');
       isValid = false;
     } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
+      newErrors.confirmPassword = t('validation.passwordsMismatch');
       isValid = false;
     }
 
@@ -103,7 +105,7 @@ const ResetPasswordPage: React.FC = () => {
       }, 2000);
     } catch (error: any) {
       console.error('Password reset error:', error);
-      setResetError(error?.response?.data?.message || error.message || 'An unexpected error occurred');
+      setResetError(error?.response?.data?.message || error.message || t('unexpectedError'));
     } finally {
       setIsLoading(false);
     }
@@ -115,9 +117,9 @@ const ResetPasswordPage: React.FC = () => {
         <div className="bg-white p-8 rounded-xl shadow-medium border border-neutral-200">
           <div className="text-center">
             <img src="/assets/animations/loading.svg" alt="Logo" className="h-12 w-12 mx-auto mb-4" />
-            <h2 className="text-center text-2xl font-bold text-neutral-800">Reset your password</h2>
+            <h2 className="text-center text-2xl font-bold text-neutral-800">{t('resetPasswordPage.title')}</h2>
             <p className="mt-2 text-center text-sm text-neutral-600">
-              Enter your email, verification code, and new password below.
+              {t('resetPasswordPage.subtitle')}
             </p>
           </div>
         
@@ -137,16 +139,16 @@ const ResetPasswordPage: React.FC = () => {
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
               </svg>
               <div className="ml-3">
-                <h3 className="text-sm font-medium text-success-800">Password reset successful!</h3>
+                <h3 className="text-sm font-medium text-success-800">{t('resetPasswordPage.success')}</h3>
                 <p className="mt-2 text-sm text-success-700">
-                  Your password has been reset successfully. You can now log in with your new password.
+                  {t('resetPasswordPage.successHelp')}
                 </p>
                 <div className="mt-4">
                   <Link to="/login" className="font-medium text-primary-600 hover:text-primary-700 transition-colors flex items-center">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M10.293 5.293a1 1 0 011.414 0l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414-1.414L12.586 11H5a1 1 0 110-2h7.586l-2.293-2.293a1 1 0 010-1.414z" clipRule="evenodd" />
                     </svg>
-                    Go to login
+                    {t('resetPasswordPage.goToLogin')}
                   </Link>
                 </div>
               </div>
@@ -155,7 +157,7 @@ const ResetPasswordPage: React.FC = () => {
         ) : (
           <form className="mt-6 space-y-6" onSubmit={handleSubmit}>
             <div className="form-group">
-              <label htmlFor="email" className="form-label text-sm font-medium text-neutral-700">Email address</label>
+              <label htmlFor="email" className="form-label text-sm font-medium text-neutral-700">{t('emailAddress')}</label>
               <div className="relative mt-1">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -181,7 +183,7 @@ const ResetPasswordPage: React.FC = () => {
             </div>
 
             <div className="form-group">
-              <label htmlFor="otp" className="form-label text-sm font-medium text-neutral-700">Verification code</label>
+              <label htmlFor="otp" className="form-label text-sm font-medium text-neutral-700">{t('verificationCode')}</label>
               <div className="relative mt-1">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -197,7 +199,7 @@ const ResetPasswordPage: React.FC = () => {
                   maxLength={4}
                   required
                   className={`input pl-10 w-full ${errors.otp ? 'input-error' : 'border-neutral-300'}`}
-                  placeholder="Enter 4-digit code"
+                  placeholder={t('codePlaceholder')}
                   value={formData.otp}
                   onChange={handleInputChange}
                 />
@@ -208,7 +210,7 @@ const ResetPasswordPage: React.FC = () => {
             </div>
 
             <div className="form-group">
-              <label htmlFor="password" className="form-label text-sm font-medium text-neutral-700">New password</label>
+              <label htmlFor="password" className="form-label text-sm font-medium text-neutral-700">{t('resetPasswordPage.newPassword')}</label>
               <div className="relative mt-1">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -222,7 +224,7 @@ const ResetPasswordPage: React.FC = () => {
                   autoComplete="new-password"
                   required
                   className={`input pl-10 w-full ${errors.password ? 'input-error' : 'border-neutral-300'}`}
-                  placeholder="Enter new password"
+                  placeholder={t('resetPasswordPage.newPasswordPlaceholder')}
                   value={formData.password}
                   onChange={handleInputChange}
                 />
@@ -233,7 +235,7 @@ const ResetPasswordPage: React.FC = () => {
             </div>
 
             <div className="form-group">
-              <label htmlFor="confirmPassword" className="form-label text-sm font-medium text-neutral-700">Confirm new password</label>
+              <label htmlFor="confirmPassword" className="form-label text-sm font-medium text-neutral-700">{t('resetPasswordPage.confirmNewPassword')}</label>
               <div className="relative mt-1">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <svg className="h-5 w-5 text-neutral-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -247,7 +249,7 @@ const ResetPasswordPage: React.FC = () => {
                   autoComplete="new-password"
                   required
                   className={`input pl-10 w-full ${errors.confirmPassword ? 'input-error' : 'border-neutral-300'}`}
-                  placeholder="Confirm new password"
+                  placeholder={t('resetPasswordPage.confirmNewPassword')}
                   value={formData.confirmPassword}
                   onChange={handleInputChange}
                 />
@@ -269,14 +271,14 @@ const ResetPasswordPage: React.FC = () => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    <span>Resetting password...</span>
+                    <span>{t('resetPasswordPage.resetting')}</span>
                   </>
                 ) : (
                   <>
                     <svg className="h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
                     </svg>
-                    <span>Reset password</span>
+                    <span>{t('resetPasswordPage.submit')}</span>
                   </>
                 )}
               </button>
@@ -290,7 +292,7 @@ const ResetPasswordPage: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
                 </svg>
-                Back to login
+                {t('backToLogin')}
               </Link>
             </div>
           </form>
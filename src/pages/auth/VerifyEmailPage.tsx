@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 
 const VerifyEmailPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation('auth');
   const location = useLocation();
   const [token, setToken] = useState<string | null>(null);
   const [otp, setOtp] = useState<string>('');
@@ -37,14 +39,14 @@ const VerifyEmailPage: React.FC = () => {
       } catch (error) {
         console.error('Email verification error:', error);
         setVerificationStatus('error');
-        setErrorMessage(error instanceof Error ? error.message : 'Email verification failed');
+        setErrorMessage(error instanceof Error ? error.message : t('verifyEmailPage.failed'));
       } finally {
         setIsLoading(false);
       }
     };
 
     verifyWithToken();
-  }, [location]);
+  }, [location, t]);
 
   const handleOtpChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value.replace(/\D/g, '').slice(0, 4); // Only digits, max 4
@@ -56,7 +58,7 @@ const VerifyEmailPage: React.FC = () => {
     e.preventDefault();
 
     if (!otp || otp.length !== 4) {
-      setErrorMessage('Please enter a valid 4-digit OTP');
+      setErrorMessage(t('validation.codeLength'));
       return;
     }
 
@@ -69,7 +71,7 @@ const VerifyEmailPage: React.FC = () => {
       setVerificationStatus('success');
     } catch (error: any) {
       console.error('OTP verification error:', error);
-      setErrorMessage(error.response?.data?.message || error.message || 'Invalid OTP. Please try again.');
+      setErrorMessage(error.response?.data?.message || error.message || t('verifyEmailPage.invalidCode'));
     } finally {
       setIsLoading(false);
     }
@@ -78,7 +80,7 @@ const VerifyEmailPage: React.FC = () => {
   const handleRedirectToLogin = () => {
     navigate('/login', {
       state: {
-        message: 'Your email has been verified. You can now log in.',
+        message: t('verifyEmailPage.verifiedLoginMessage'),
         type: 'success'
       }
     });
@@ -89,9 +91,9 @@ const VerifyEmailPage: React.FC = () => {
       setIsLoading(true);
       // For this to work, we'd need the user's email - this could come from URL params or user state
       // For now, show a message asking user to check their email
-      setErrorMessage('Please check your email for a new verification code, or contact support if you need help.');
+      setErrorMessage(t('verifyEmailPage.resendHelp'));
     } catch (error: any) {
-      setErrorMessage('Failed to resend verification code. Please try again or contact support.');
+      setErrorMessage(t('verifyEmailPage.resendFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -104,13 +106,13 @@ const VerifyEmailPage: React.FC = () => {
           <div className="text-center">
             <img src="/assets/animations/loading.svg" alt="Logo" className="h-12 w-12 mx-auto mb-4" />
             <h2 className="text-center text-2xl font-bold text-neutral-800">
-              {verificationMode === 'otp' ? 'Verify Your Email' : 'Email Verification'}
+              {verificationMode === 'otp' ? t('verifyEmailPage.otpTitle') : t('verifyEmailPage.title')}
             </h2>
             <p className="mt-2 text-center text-sm text-neutral-600">
-              {isLoading ? 'Verifying your email address...' :
-                verificationStatus === 'success' ? 'Your email has been verified!' :
-                verificationStatus === 'otp-required' ? 'Enter the 4-digit code sent to your email' :
-                'There was a problem verifying your email.'}
+              {isLoading ? t('verifyEmailPage.verifying') :
+                verificationStatus === 'success' ? t('verifyEmailPage.verified') :
+                verificationStatus === 'otp-required' ? t('verifyEmailPage.enterCode') :
+                t('verifyEmailPage.problem')}
             </p>
           </div>
 
@@ -129,8 +131,8 @@ const VerifyEmailPage: React.FC = () => {
               </svg>
             </div>
             <div>
-              <p className="font-medium text-green-800">Success!</p>
-              <p className="text-sm text-green-700">Your email address has been successfully verified. You can now access all features of your account.</p>
+              <p className="font-medium text-green-800">{t('verifyEmailPage.success')}</p>
+              <p className="text-sm text-green-700">{t('verifyEmailPage.successHelp')}</p>
               <div className="mt-4">
                 <button
                   onClick={handleRedirectToLogin}
@@ -139,7 +141,7 @@ const VerifyEmailPage: React.FC = () => {
                   <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M3 3a1 1 0 00-1 1v12a1 1 0 102 0V4a1 1 0 00-1-1zm10.293 9.293a1 1 0 001.414 1.414l3-3a1 1 0 000-1.414l-3-3a1 1 0 10-1.414 1.414L14.586 9H7a1 1 0 100 2h7.586l-1.293 1.293z" clipRule="evenodd" />
                   </svg>
-                  <span>Continue to login</span>
+                  <span>{t('verifyEmailPage.continueToLogin')}</span>
                 </button>
               </div>
             </div>
@@ -157,7 +159,7 @@ const VerifyEmailPage: React.FC = () => {
 
             <form className="mt-6 space-y-6" onSubmit={handleOtpSubmit}>
               <div className="form-group">
-                <label htmlFor="otp" className="form-label">Verification Code</label>
+                <label htmlFor="otp" className="form-label">{t('verificationCode')}</label>
                 <div className="relative">
                   <input
                     id="otp"
@@ -189,10 +191,10 @@ const VerifyEmailPage: React.FC = () => {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      <span>Verifying...</span>
+                      <span>{t('verifyEmailPage.verifyingShort')}</span>
                     </>
                   ) : (
-                    <span>Verify Email</span>
+                    <span>{t('verifyEmailPage.submit')}</span>
                   )}
                 </button>
               </div>
@@ -200,14 +202,14 @@ const VerifyEmailPage: React.FC = () => {
 
             <div className="text-center">
               <p className="text-sm text-neutral-600">
-                Didn't receive the code?{' '}
+                {t('verifyEmailPage.noCode')}{' '}
                 <button
                   type="button"
                   onClick={handleResendOtp}
                   disabled={isLoading}
                   className="font-medium text-primary-600 hover:text-primary-700 transition-colors disabled:text-primary-400"
                 >
-                  Request new code
+                  {t('verifyEmailPage.requestCode')}
                 </button>
               </p>
               <div className="mt-4">
@@ -215,7 +217,7 @@ const VerifyEmailPage: React.FC = () => {
                   <svg className="h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
                   </svg>
-                  <span className="font-medium">Back to login</span>
+                  <span className="font-medium">{t('backToLogin')}</span>
                 </Link>
               </div>
             </div>
@@ -228,19 +230,19 @@ const VerifyEmailPage: React.FC = () => {
               </svg>
             </div>
             <div>
-              <p className="font-medium text-red-800">Verification failed</p>
-              <p className="text-sm text-red-700">{errorMessage || 'There was a problem verifying your email address.'}</p>
+              <p className="font-medium text-red-800">{t('verifyEmailPage.failedTitle')}</p>
+              <p className="text-sm text-red-700">{errorMessage || t('verifyEmailPage.problemAddress')}</p>
               <div className="mt-4 space-y-4">
                 <div>
                   <Link to="/login" className="flex items-center text-primary-600 hover:text-primary-700 transition-colors duration-200">
                     <svg className="h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
                     </svg>
-                    <span className="font-medium">Return to login</span>
+                    <span className="font-medium">{t('verifyEmailPage.returnToLogin')}</span>
                   </Link>
                 </div>
                 <div>
-                  <p className="text-sm text-neutral-600">If you're having trouble, please contact our support team.</p>
+                  <p className="text-sm text-neutral-600">{t('verifyEmailPage.contactSupport')}</p>
                 </div>
               </div>
             </div>
@@ -26,13 +26,17 @@ import { AppDispatch, RootState } from '@/store';
 import { fetchTicketsByOrder, generateMissingTickets } from '@/store/slices/ticketsSlice';
 import { generateQRCodesForBooking } from '@/store/slices/bookingsSlice';
 import bookingAPI from '@/services/api/bookingAPI';
+import AddToCalendarButton from '@/components/booking/AddToCalendarButton';
 import TicketCard from '@/components/booking/TicketCard';
 import TicketModal from '@/components/booking/TicketModal';
 import QRCodeModal from '@/components/booking/QRCodeModal';
 import CancelOrderModal from '@/components/order/CancelOrderModal';
 import RefundStatusTracker from '@/components/order/RefundStatusTracker';
+import TaxDocumentsButton from '@/components/order/TaxDocumentsButton';
 import { Ticket } from '@/services/api/ticketAPI';
 import { generateOrderQRData, extractEventDates } from '@/utils/qrcode.utils';
+import { buildBookingCalendarEvent, CalendarEvent } from '@/utils/icalUtils';
+import { downloadTicketsPdf, toTicketDocument } from '@/utils/ticketPdfUtils';
 import formatPrice from '@/utils/currencyUtils';
 import { useCurrencyContext } from '@/contexts/CurrencyContext';
 
@@ -105,6 +109,7 @@ const BookingDetailPage: React.FC = () => {
   const [showOrderQRModal, setShowOrderQRModal] = useState(false);
   const [showTicketQRModal, setShowTicketQRModal] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
+  const [isDownloadingTickets, setIsDownloadingTickets] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -164,11 +169,34 @@ const BookingDetailPage: React.FC = () => {
     setIsTicketModalOpen(true);
   };
 
-  const handleDownloadTicket = async (ticket: Ticket) => {
-    // TODO: Implement ticket download functionality
-    toast.success('Ticket download started');
+  const toOrderTicketDocument = (ticket: Ticket) =>
+    toTicketDocument(ticket, {
+      orderNumber: booking?.orderNumber,
+      participants: booking?.participants?.map((participant) => participant.name),
+    });
+
+  const handleDownloadTickets = async (ticketsToDownload: Ticket[]) => {
+    const printable = ticketsToDownload.filter((ticket) => ticket.status !== 'transferred');
+    if (printable.length === 0) return;
+
+    try {
+      setIsDownloadingTickets(true);
+      await downloadTicketsPdf(
+        printable.map(toOrderTicketDocument),
+        printable.length === 1
+          ? `ticket-${printable[0].ticketNumber}.pdf`
+          : `tickets-${booking?.orderNumber || id}.pdf`
+      );
+    } catch (err: any) {
+      console.error('Error creating ticket PDF:', err);
+      toast.error('Failed to create ticket PDF');
+    } finally {
+      setIsDownloadingTickets(false);
+    }
   };
 
+  const handleDownloadTicket = (ticket: Ticket) => handleDownloadTickets([ticket]);
+
   const handleShowTicketQR = (ticket: Ticket) => {
     setSelectedTicket(ticket);
     setShowTicketQRModal(true);
@@ -339,6 +367,23 @@ const BookingDetailPage: React.FC = () => {
   const firstItem = booking?.items?.[0];
   const event = firstItem?.eventId;
 
+  // One calendar entry per booked item, on the date that was booked
+  const calendarEvents = (booking?.items || [])
+    .map((item) =>
+      buildBookingCalendarEvent({
+        id: `${booking?._id}-${item._id}`,
+        title: item.eventId?.title || 'Booking',
+        schedule:
+          item.eventId?.dateSchedule?.find((schedule) => schedule.startDate === item.scheduleDate) ||
+          (item.scheduleDate ? { startDate: item.scheduleDate } : item.eventId?.dateSchedule?.[0]),
+        location: item.eventId?.location,
+        description: `Booking ${booking?.orderNumber}, ${item.quantity} ticket${item.quantity === 1 ? '' : 's'}`,
+        url: `${window.location.origin}/bookings/${booking?._id}`,
+        cancelled: booking?.status === 'cancelled',
+      })
+    )
+    .filter((calendarEvent): calendarEvent is CalendarEvent => calendarEvent !== null);
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-4xl mx-auto">
@@ -439,7 +484,19 @@ const BookingDetailPage: React.FC = () => {
             {/* Tickets Section */}
             <div className="bg-white rounded-lg shadow-md border border-gray-200">
               <div className="p-6">
-                <h2 className="text-xl font-semibold text-gray-900 mb-4">Event Tickets</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Event Tickets</h2>
+                  {bookingTickets.length > 1 && (
+                    <button
+                      onClick={() => handleDownloadTickets(bookingTickets)}
+                      disabled={isDownloadingTickets}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      {isDownloadingTickets ? 'Preparing PDF...' : 'Download all (PDF)'}
+                    </button>
+                  )}
+                </div>
                 {ticketsLoading ? (
                   <div className="text-center py-4">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
@@ -601,6 +658,17 @@ const BookingDetailPage: React.FC = () => {
                     </button>
                   )}
 
+                  {booking?.status !== 'cancelled' && calendarEvents.length > 0 && (
+                    <AddToCalendarButton
+                      events={calendarEvents}
+                      fileName={`booking-${booking?.orderNumber}.ics`}
+                    />
+                  )}
+
+                  {(booking?.paymentStatus === 'paid' || booking?.paymentStatus === 'refunded') && (
+                    <TaxDocumentsButton orderId={booking._id} />
+                  )}
+
                   <Link
                     to={`/events/${event?._id}`}
                     className="w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -4,9 +4,12 @@ import { useDispatch, useSelector } from 'react-redux';
 import { QrCode } from 'lucide-react';
 import { AppDispatch, RootState } from '@/store';
 import { fetchBookings } from '@/store/slices/bookingsSlice';
+import { fetchMyWaitlist, selectWaitlistEntries } from '@/store/slices/waitlistSlice';
+import { isOpenEntry } from '@/utils/waitlistUtils';
 import QRCodeModal from '@/components/booking/QRCodeModal';
 import CancelOrderModal from '@/components/order/CancelOrderModal';
 import RefundStatusTracker from '@/components/order/RefundStatusTracker';
+import WaitlistEntryList from '@/components/booking/WaitlistEntryList';
 
 interface Booking {
   id: string;
@@ -25,7 +28,9 @@ interface Booking {
 const BookingsPage: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { bookings, isLoading, error } = useSelector((state: RootState) => state.bookings);
-  const [activeTab, setActiveTab] = useState<'upcoming' | 'past' | 'cancelled'>('upcoming');
+  const waitlistEntries = useSelector(selectWaitlistEntries);
+  const openWaitlistCount = waitlistEntries.filter(isOpenEntry).length;
+  const [activeTab, setActiveTab] = useState<'upcoming' | 'past' | 'cancelled' | 'waitlist'>('upcoming');
   const [selectedBookingForQR, setSelectedBookingForQR] = useState<Booking | null>(null);
   const [isQRModalOpen, setIsQRModalOpen] = useState(false);
   const [selectedBookingForCancel, setSelectedBookingForCancel] = useState<any | null>(null);
@@ -33,6 +38,7 @@ const BookingsPage: React.FC = () => {
 
   useEffect(() => {
     dispatch(fetchBookings({}));
+    dispatch(fetchMyWaitlist());
   }, [dispatch]);
 
   const formatDate = (dateString: string): string => {
@@ -101,27 +107,35 @@ const BookingsPage: React.FC = () => {
             <nav className="-mb-px flex">
               <button
                 onClick={() => setActiveTab('upcoming')}
-                className={`w-1/3 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'upcoming' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+                className={`w-1/4 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'upcoming' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
               >
                 Upcoming
               </button>
               <button
                 onClick={() => setActiveTab('past')}
-                className={`w-1/3 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'past' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+                className={`w-1/4 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'past' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
               >
                 Past
               </button>
               <button
                 onClick={() => setActiveTab('cancelled')}
-                className={`w-1/3 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'cancelled' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+                className={`w-1/4 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'cancelled' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
               >
                 Cancelled
               </button>
+              <button
+                onClick={() => setActiveTab('waitlist')}
+                className={`w-1/4 py-4 px-1 text-center border-b-2 font-medium text-sm ${activeTab === 'waitlist' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+              >
+                Waitlist{openWaitlistCount > 0 && ` (${openWaitlistCount})`}
+              </button>
             </nav>
           </div>
           
           <div className="p-6">
-            {filteredBookings.length === 0 ? (
+            {activeTab === 'waitlist' ? (
+              <WaitlistEntryList />
+            ) : filteredBookings.length === 0 ? (
               <div className="text-center py-8">
                 <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Download, Calendar, MapPin, Clock, User, Ticket, QrCode, Share } from 'lucide-react';
+import { Download, Calendar, MapPin, Clock, User, Ticket, QrCode, Share, UserPlus } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { ApiService } from '../../services/api';
 import QRCode from 'qrcode.react';
+import AddToCalendarButton from '../../components/booking/AddToCalendarButton';
+import CalendarFeedCard from '../../components/booking/CalendarFeedCard';
+import TicketResendButton from '../../components/booking/TicketResendButton';
+import TicketTransferModal from '../../components/booking/TicketTransferModal';
+import { buildBookingCalendarEvent } from '../../utils/icalUtils';
+import { downloadTicketsPdf, toTicketDocument } from '../../utils/ticketPdfUtils';
 
 interface TicketData {
   id: string;
@@ -14,7 +20,7 @@ interface TicketData {
   seatNumber?: string;
   price: number;
   currency: string;
-  status: 'active' | 'used' | 'expired' | 'cancelled';
+  status: 'active' | 'used' | 'expired' | 'cancelled' | 'transferred';
   qrCode: string;
   qrCodeImage: string;
   checkInDetails?: {
@@ -45,6 +51,8 @@ const MyTicketsPage: React.FC = () => {
   const [filter, setFilter] = useState<'all' | 'upcoming' | 'past' | 'active' | 'used'>('upcoming');
   const [selectedTicket, setSelectedTicket] = useState<TicketData | null>(null);
   const [showQRModal, setShowQRModal] = useState(false);
+  const [ticketToTransfer, setTicketToTransfer] = useState<TicketData | null>(null);
+  const [downloadingTicketId, setDownloadingTicketId] = useState<string | null>(null);
 
   // Fetch user tickets
   useEffect(() => {
@@ -118,24 +126,16 @@ const MyTicketsPage: React.FC = () => {
     }
   });
 
-  // Download ticket
-  const handleDownloadTicket = async (ticketId: string) => {
+  // Download ticket as a PDF generated in the browser
+  const handleDownloadTicket = async (ticket: TicketData) => {
     try {
-      const response = await ApiService.get(`/tickets/${ticketId}/download`);
-      
-      // For now, we'll create a simple ticket download
-      // In a real implementation, you'd generate a PDF
-      const ticketData = response.data.ticket;
-      const element = document.createElement('a');
-      const file = new Blob([JSON.stringify(ticketData, null, 2)], { type: 'application/json' });
-      element.href = URL.createObjectURL(file);
-      element.download = `ticket-${ticketData.ticketNumber}.json`;
-      document.body.appendChild(element);
-      element.click();
-      document.body.removeChild(element);
+      setDownloadingTicketId(ticket.id);
+      await downloadTicketsPdf([toTicketDocument(ticket)], `ticket-${ticket.ticketNumber}.pdf`);
     } catch (error) {
       console.error('Error downloading ticket:', error);
       alert('Failed to download ticket. Please try again.');
+    } finally {
+      setDownloadingTicketId(null);
     }
   };
 
@@ -150,6 +150,8 @@ const MyTicketsPage: React.FC = () => {
         return 'bg-gray-100 text-gray-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'transferred':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -307,6 +309,14 @@ const MyTicketsPage: React.FC = () => {
                   </div>
                 )}
 
+                {ticket.status === 'transferred' && (
+                  <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 mb-4">
+                    <p className="text-sm text-purple-800">
+                      This ticket was transferred. Its QR code no longer works.
+                    </p>
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex space-x-2">
                   <button
@@ -314,26 +324,74 @@ const MyTicketsPage: React.FC = () => {
                       setSelectedTicket(ticket);
                       setShowQRModal(true);
                     }}
-                    className="flex-1 bg-primary text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors flex items-center justify-center"
+                    disabled={ticket.status === 'transferred'}
+                    className="flex-1 disabled:opacity-50 disabled:cursor-not-allowed bg-primary text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors flex items-center justify-center"
                   >
                     <QrCode className="h-4 w-4 mr-2" />
                     Show QR
                   </button>
                   
                   <button
-                    onClick={() => handleDownloadTicket(ticket.id)}
-                    className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-700 transition-colors flex items-center justify-center"
+                    onClick={() => handleDownloadTicket(ticket)}
+                    disabled={ticket.status === 'transferred' || downloadingTicketId === ticket.id}
+                    className="flex-1 disabled:opacity-50 disabled:cursor-not-allowed bg-gray-600 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-700 transition-colors flex items-center justify-center"
                   >
                     <Download className="h-4 w-4 mr-2" />
                     Download
                   </button>
                 </div>
+
+                {ticket.status === 'active' && (
+                  <AddToCalendarButton
+                    events={[
+                      buildBookingCalendarEvent({
+                        id: ticket.id,
+                        title: ticket.eventId.title,
+                        schedule: ticket.eventId.dateSchedule?.[0],
+                        location: ticket.eventId.location,
+                        description: `Ticket ${ticket.ticketNumber} for ${ticket.attendeeName}`,
+                      }),
+                    ].filter((event) => event !== null)}
+                    className="w-full mt-2 border border-gray-300 text-gray-700 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center justify-center"
+                  />
+                )}
+
+                {ticket.status === 'active' && !ticket.checkInDetails?.isCheckedIn && (
+                  <div className="space-y-2 mt-2">
+                    <button
+                      onClick={() => setTicketToTransfer(ticket)}
+                      className="w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center justify-center"
+                    >
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Transfer
+                    </button>
+                    <TicketResendButton ticketId={ticket.id} />
+                  </div>
+                )}
               </div>
             </motion.div>
           ))}
         </div>
       )}
 
+      <CalendarFeedCard
+        scope="bookings"
+        title="Subscribe to your bookings"
+        description="Add all your upcoming bookings to your phone or shared family calendar. New bookings appear automatically."
+        className="mt-8"
+      />
+
+      {/* Transfer Modal */}
+      {ticketToTransfer && (
+        <TicketTransferModal
+          ticket={ticketToTransfer}
+          eventTitle={ticketToTransfer.eventId.title}
+          eventStart={ticketToTransfer.eventId.dateSchedule?.[0]?.date}
+          isOpen={!!ticketToTransfer}
+          onClose={() => setTicketToTransfer(null)}
+        />
+      )}
+
       {/* QR Code Modal */}
       {showQRModal && selectedTicket && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'react-hot-toast';
@@ -27,7 +27,8 @@ import {
   FaExclamationTriangle,
   FaCheck,
   FaTimes,
-  FaSpinner
+  FaSpinner,
+  FaChild
 } from 'react-icons/fa';
 import {
   FadeIn,
@@ -59,6 +60,7 @@ import {
 } from '@/store/slices/authSlice';
 import EmailVerificationSection from '@/components/profile/EmailVerificationSection';
 import PhoneVerificationSection from '@/components/profile/PhoneVerificationSection';
+import FamilyTab from '@/components/profile/FamilyTab';
 import ConfirmDialog from '@/components/common/ConfirmDialog';
 import PhoneInput, { Country } from 'react-phone-number-input';
 import 'react-phone-number-input/style.css';
@@ -1078,13 +1080,15 @@ const PreferencesTab: React.FC<{
 const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useDispatch();
+  const [searchParams] = useSearchParams();
 
   const userProfile = useSelector(selectUserProfile);
   const isLoading = useSelector(selectIsProfileLoading);
   const error = useSelector(selectProfileError);
   const user = useSelector(selectUser);
 
-  const [activeTab, setActiveTab] = useState('personal');
+  // Links such as /profile?tab=family open straight on a tab
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'personal');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadStage, setUploadStage] = useState('');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -1226,6 +1230,7 @@ const ProfilePage: React.FC = () => {
     { id: 'personal', label: 'Personal Info', icon: <FaUser /> },
     { id: 'verification', label: 'Verification', icon: <FaCheck /> },
     { id: 'addresses', label: 'Addresses', icon: <FaMapMarkerAlt /> },
+    { id: 'family', label: 'Family', icon: <FaChild /> },
     { id: 'security', label: 'Security', icon: <FaShieldAlt /> },
     { id: 'preferences', label: 'Preferences', icon: <FaCog /> },
   ];
@@ -1362,6 +1367,18 @@ const ProfilePage: React.FC = () => {
                     </motion.div>
                   )}
 
+                  {activeTab === 'family' && (
+                    <motion.div
+                      key="family"
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <FamilyTab />
+                    </motion.div>
+                  )}
+
                   {activeTab === 'security' && (
                     <motion.div
                       key="security"
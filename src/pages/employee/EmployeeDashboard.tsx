@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 import { ApiService } from '@/services/api';
+import { usePermissions } from '@/hooks/usePermissions';
+import { STAFF_PERMISSION_CATALOGUE } from '@/utils/staffPermissions';
 
 interface CheckinStats {
   totalCheckins: number;
@@ -28,6 +31,8 @@ interface CheckinLog {
 }
 
 const EmployeeDashboard: React.FC = () => {
+  const { isEmployee, staffGrants, hasStaffPermission } = usePermissions();
+  const canScan = hasStaffPermission('tickets.scan');
   const [stats, setStats] = useState<CheckinStats | null>(null);
   const [events, setEvents] = useState<Event[]>([]);
   const [recentCheckins, setRecentCheckins] = useState<CheckinLog[]>([]);
@@ -96,6 +101,12 @@ const EmployeeDashboard: React.FC = () => {
     }
   };
 
+  // Staff only see the events one of their permissions covers
+  const visibleEvents = isEmployee()
+    ? events.filter((event) => staffGrants.some((grant) => hasStaffPermission(grant.action, event._id)))
+    : events;
+  const tabs = canScan ? ['events', 'checkins', 'scanner'] : ['events'];
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-[50vh]">
@@ -112,14 +123,43 @@ const EmployeeDashboard: React.FC = () => {
           <p className="text-gray-600">Check-in management and event monitoring</p>
         </div>
         
-        <button 
-          onClick={() => setScannerActive(!scannerActive)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          📱 {scannerActive ? 'Stop Scanner' : 'Start QR Scanner'}
-        </button>
+        {canScan && (
+          <button 
+            onClick={() => setScannerActive(!scannerActive)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            📱 {scannerActive ? 'Stop Scanner' : 'Start QR Scanner'}
+          </button>
+        )}
       </div>
 
+      {/* What this account can do */}
+      {isEmployee() && (
+        <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700 me-2">Your access:</span>
+          {staffGrants.length === 0 ? (
+            <span className="text-sm text-gray-500">No permissions yet. Ask your manager for access.</span>
+          ) : (
+            STAFF_PERMISSION_CATALOGUE.filter((permission) => staffGrants.some((grant) => grant.action === permission.key)).map((permission) => (
+              <span key={permission.key} className="px-2 py-1 rounded-full bg-gray-100 text-xs text-gray-700">
+                {permission.label}
+                {staffGrants.find((grant) => grant.action === permission.key)?.scope === 'assigned' && ' (assigned events)'}
+              </span>
+            ))
+          )}
+          {hasStaffPermission('bookings.view') && (
+            <Link to="/vendor/bookings" className="ms-auto text-sm text-blue-600 hover:text-blue-800">
+              Bookings
+            </Link>
+          )}
+          {hasStaffPermission('revenue.view') && (
+            <Link to="/vendor/analytics" className="text-sm text-blue-600 hover:text-blue-800">
+              Revenue
+            </Link>
+          )}
+        </div>
+      )}
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow p-6">
@@ -171,7 +211,7 @@ const EmployeeDashboard: React.FC = () => {
       <div className="bg-white rounded-lg shadow">
         <div className="border-b border-gray-200">
           <nav className="flex space-x-8 px-6">
-            {['events', 'checkins', 'scanner'].map((tab) => (
+            {tabs.map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -192,14 +232,14 @@ const EmployeeDashboard: React.FC = () => {
           {activeTab === 'events' && (
             <div>
               <h3 className="text-lg font-medium mb-4">Upcoming Events</h3>
-              {events.length === 0 ? (
+              {visibleEvents.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   <div className="text-4xl mb-4">📅</div>
                   <p>No upcoming events</p>
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {events.map((event) => (
+                  {visibleEvents.map((event) => (
                     <div
                       key={event._id}
                       className="flex items-center justify-between p-4 border rounded-lg"
@@ -218,6 +258,14 @@ const EmployeeDashboard: React.FC = () => {
                         <div className="text-sm text-gray-600 mt-1">
                           {((event.checkedInCount / event.ticketsCount) * 100).toFixed(1)}% completion
                         </div>
+                        {hasStaffPermission('registrations.view', event._id) && (
+                          <Link
+                            to={`/vendor/events/${event._id}/registrations`}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            Registrations
+                          </Link>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -227,7 +275,7 @@ const EmployeeDashboard: React.FC = () => {
           )}
 
           {/* Check-ins Tab */}
-          {activeTab === 'checkins' && (
+          {canScan && activeTab === 'checkins' && (
             <div>
               <h3 className="text-lg font-medium mb-4">Recent Check-ins</h3>
               {recentCheckins.length === 0 ? (
@@ -269,7 +317,7 @@ const EmployeeDashboard: React.FC = () => {
           )}
 
           {/* Scanner Tab */}
-          {activeTab === 'scanner' && (
+          {canScan && activeTab === 'scanner' && (
             <div>
               <h3 className="text-lg font-medium mb-4">QR Code Scanner</h3>
               {scannerActive ? (
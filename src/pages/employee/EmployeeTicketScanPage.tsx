@@ -1,17 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { QrCode, Users, CheckCircle, XCircle, Clock, Search, Filter } from 'lucide-react';
+import { QrCode, Users, CheckCircle, XCircle, Clock, Search, Filter, Download, Trash2, AlertTriangle } from 'lucide-react';
 import QRCodeScanner from '../../components/employee/QRCodeScanner';
+import CheckInSyncStatus from '../../components/employee/CheckInSyncStatus';
 import employeeAPI from '../../services/api/employeeAPI';
+import eventsAPI from '../../services/api/eventsAPI';
 import { ApiService } from '../../services/api';
+import { useOfflineCheckIn } from '../../hooks/useOfflineCheckIn';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { TicketVerificationResult } from '../../types/checkIn';
 
 interface TicketScanRecord {
   id: string;
+  ticketId?: string;
   ticketNumber: string;
   attendeeName: string;
   eventTitle: string;
   status: 'verified' | 'expired' | 'invalid' | 'already_used' | 'not_yet_valid';
   scannedAt: string;
   checkedIn: boolean;
+  offline?: boolean; // Verified against the downloaded manifest
 }
 
 interface Event {
@@ -23,19 +30,58 @@ interface Event {
   checkedInTickets: number;
 }
 
+/**
+ * Loads an assigned event for the selector. An event that can't be loaded is still listed by id,
+ * so staff can keep scanning for it.
+ */
+const loadAssignedEvent = async (eventId: string): Promise<Event> => {
+  try {
+    const event = await eventsAPI.getEventById(eventId);
+    const schedules: any[] = event?.dateSchedule || [];
+
+    return {
+      id: eventId,
+      title: event?.title || `Event ${eventId}`,
+      date: schedules[0]?.startDateTime || schedules[0]?.date || '',
+      location: event?.location?.address || event?.location?.city || '',
+      totalTickets: schedules.reduce((sum, schedule) => sum + (schedule.soldSeats || 0), 0),
+      checkedInTickets: 0,
+    };
+  } catch (error) {
+    console.error(`Error fetching assigned event ${eventId}:`, error);
+    return { id: eventId, title: `Event ${eventId}`, date: '', location: '', totalTickets: 0, checkedInTickets: 0 };
+  }
+};
+
 const EmployeeTicketScanPage: React.FC = () => {
+  const { hasStaffPermission, filterEventsForStaff, getStaffEventScope } = usePermissions();
+  const scanScope = getStaffEventScope('tickets.scan');
+  // Staff limited to assigned events pick one of them instead of scanning for all events
+  const canScanAllEvents = scanScope === 'all';
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [selectedEventId, setSelectedEventId] = useState<string>('');
   const [events, setEvents] = useState<Event[]>([]);
   const [scanRecords, setScanRecords] = useState<TicketScanRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'verified' | 'invalid' | 'used'>('all');
+  const offline = useOfflineCheckIn(selectedEventId || undefined);
 
   // Fetch events for selection
   useEffect(() => {
     const fetchEvents = async () => {
       try {
         setIsLoading(true);
+
+        // Staff limited to their assigned events scan for those, loaded from the events API
+        if (Array.isArray(scanScope)) {
+          const assignedEvents = await Promise.all(scanScope.map(loadAssignedEvent));
+          setEvents(assignedEvents);
+          if (assignedEvents.length > 0) {
+            setSelectedEventId(assignedEvents[0].id);
+          }
+          return;
+        }
+
         // You would call your events API here
         // For now, using mock data
         const mockEvents: Event[] = [
@@ -56,7 +102,7 @@ const EmployeeTicketScanPage: React.FC = () => {
             checkedInTickets: 12,
           },
         ];
-        setEvents(mockEvents);
+        setEvents(filterEventsForStaff(mockEvents, 'tickets.scan', event => event.id));
       } catch (error) {
         console.error('Error fetching events:', error);
       } finally {
@@ -68,41 +114,72 @@ const EmployeeTicketScanPage: React.FC = () => {
   }, []);
 
   // Handle QR verification result
-  const handleVerificationResult = (result: any) => {
+  const handleVerificationResult = (result: TicketVerificationResult) => {
     const newRecord: TicketScanRecord = {
       id: Date.now().toString(),
+      ticketId: result.data?.ticket?.id,
       ticketNumber: result.data?.ticket?.ticketNumber || 'Unknown',
       attendeeName: result.data?.ticket?.attendeeName || 'Unknown',
       eventTitle: result.data?.ticket?.eventTitle || 'Unknown Event',
       status: result.status,
       scannedAt: new Date().toISOString(),
       checkedIn: false,
+      offline: result.offline,
     };
 
     setScanRecords(prev => [newRecord, ...prev]);
   };
 
+  const markCheckedIn = (ticketId: string) => {
+    setScanRecords(prev =>
+      prev.map(record =>
+        record.ticketId === ticketId || record.id === ticketId ? { ...record, checkedIn: true } : record
+      )
+    );
+  };
+
   // Handle check-in
-  const handleCheckIn = async (ticketId: string) => {
+  const handleCheckIn = async (ticketId: string): Promise<boolean> => {
+    const location = selectedEventId ? events.find(e => e.id === selectedEventId)?.location : undefined;
+
+    // With a downloaded manifest, check-ins are queued locally and synced in the background
+    if (offline.manifest) {
+      try {
+        await offline.checkIn(ticketId, location);
+        markCheckedIn(ticketId);
+        return true;
+      } catch (error: any) {
+        console.error('Error queueing offline check-in:', error);
+        alert(error.message || 'Failed to check in ticket. Please try again.');
+        return false;
+      }
+    }
+
     try {
-      const response = await ApiService.post(`/tickets/${ticketId}/checkin`, {
-        location: selectedEventId ? events.find(e => e.id === selectedEventId)?.location : undefined,
-      });
+      const response = await ApiService.post(`/tickets/${ticketId}/checkin`, { location });
 
       if (response.success) {
         // Update scan records
-        setScanRecords(prev => 
-          prev.map(record => 
-            record.id === ticketId ? { ...record, checkedIn: true } : record
-          )
-        );
+        markCheckedIn(ticketId);
 
         // Show success message
         alert('Ticket checked in successfully!');
+        return true;
       }
+      return false;
     } catch (error) {
       console.error('Error checking in ticket:', error);
       alert('Failed to check in ticket. Please try again.');
+      return false;
+    }
+  };
+
+  const handleDownloadManifest = async () => {
+    try {
+      await offline.downloadManifest();
+    } catch (error: any) {
+      console.error('Error downloading ticket manifest:', error);
+      alert(error.message || 'Failed to download the ticket list. Please try again.');
     }
   };
 
@@ -144,6 +221,14 @@ const EmployeeTicketScanPage: React.FC = () => {
     }
   };
 
+  if (!hasStaffPermission('tickets.scan')) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center text-gray-600">
+        Your account isn't allowed to scan tickets. Ask your manager for access.
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -161,6 +246,15 @@ const EmployeeTicketScanPage: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Ticket Scanner</h1>
           <p className="text-gray-600 mt-1">Scan QR codes to verify and check-in attendees</p>
+          <div className="mt-3">
+            <CheckInSyncStatus
+              connectionState={offline.connectionState}
+              pendingCount={offline.pendingCount}
+              conflictCount={offline.conflicts.length}
+              lastSyncedAt={offline.lastSyncedAt}
+              onSyncNow={() => offline.syncNow().catch(() => undefined)}
+            />
+          </div>
         </div>
         
         <div className="flex items-center space-x-4 mt-4 md:mt-0">
@@ -170,7 +264,7 @@ const EmployeeTicketScanPage: React.FC = () => {
             onChange={(e) => setSelectedEventId(e.target.value)}
             className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
           >
-            <option value="">All Events</option>
+            {canScanAllEvents && <option value="">All Events</option>}
             {events.map(event => (
               <option key={event.id} value={event.id}>
                 {event.title}
@@ -181,7 +275,8 @@ const EmployeeTicketScanPage: React.FC = () => {
           {/* Scan Button */}
           <button
             onClick={() => setIsScannerOpen(true)}
-            className="inline-flex items-center px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
+            disabled={!canScanAllEvents && !selectedEventId}
+            className="inline-flex items-center px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <QrCode className="h-5 w-5 mr-2" />
             Scan QR Code
@@ -189,12 +284,85 @@ const EmployeeTicketScanPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Offline Ticket List */}
+      <div className="bg-white rounded-lg shadow p-4 mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Offline scanning</h2>
+          <p className="text-sm text-gray-600">
+            {!selectedEventId
+              ? 'Select an event to download its ticket list before doors open.'
+              : offline.manifest
+                ? `${offline.manifest.tickets.length} tickets downloaded at ${new Date(offline.manifest.downloadedAt).toLocaleString()}. Scans are verified on this device.`
+                : 'Download the ticket list so scans keep working if the Wi-Fi drops.'}
+          </p>
+        </div>
+        {selectedEventId && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleDownloadManifest}
+              disabled={!offline.isOnline || offline.isDownloading}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="h-4 w-4 me-2" />
+              {offline.isDownloading ? 'Downloading...' : offline.manifest ? 'Refresh List' : 'Download Ticket List'}
+            </button>
+            {offline.manifest && (
+              <button
+                onClick={() => offline.removeManifest()}
+                disabled={offline.pendingCount > 0}
+                title={offline.pendingCount > 0 ? 'Sync pending check-ins first' : 'Remove downloaded ticket list'}
+                className="p-2 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Check-ins needing review */}
+      {offline.conflicts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+          <h2 className="flex items-center text-sm font-semibold text-red-800 mb-3">
+            <AlertTriangle className="h-4 w-4 me-2" />
+            Check-ins that need review
+          </h2>
+          <ul className="space-y-2">
+            {offline.conflicts.map(item => (
+              <li key={item.id} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{item.ticketNumber}</span>
+                  <span className="text-gray-600"> · {item.attendeeName}</span>
+                  <p className="text-red-700">
+                    {item.status === 'conflict'
+                      ? `Already checked in on another device at ${new Date(item.conflict?.checkedInAt || item.scannedAt).toLocaleTimeString()} (scanned here at ${new Date(item.scannedAt).toLocaleTimeString()})`
+                      : item.lastError}
+                  </p>
+                </div>
+                <button
+                  onClick={() => offline.dismissQueueItem(item.id)}
+                  className="text-sm font-medium text-gray-600 hover:text-gray-900 whitespace-nowrap"
+                >
+                  Dismiss
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Event Statistics */}
       {selectedEventId && (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           {(() => {
             const event = events.find(e => e.id === selectedEventId);
             if (!event) return null;
+
+            // Prefer live counts from the downloaded manifest, which include local check-ins
+            const totalTickets = offline.manifest?.tickets.length ?? event.totalTickets;
+            const checkedInTickets = offline.manifest
+              ? offline.manifest.tickets.filter(ticket => ticket.checkedInAt).length
+              : event.checkedInTickets;
             
             return (
               <>
@@ -205,7 +373,7 @@ const EmployeeTicketScanPage: React.FC = () => {
                     </div>
                     <div>
                       <p className="text-sm font-medium text-gray-600">Total Tickets</p>
-                      <p className="text-2xl font-semibold text-gray-900">{event.totalTickets}</p>
+                      <p className="text-2xl font-semibold text-gray-900">{totalTickets}</p>
                     </div>
                   </div>
                 </div>
@@ -217,7 +385,7 @@ const EmployeeTicketScanPage: React.FC = () => {
                     </div>
                     <div>
                       <p className="text-sm font-medium text-gray-600">Checked In</p>
-                      <p className="text-2xl font-semibold text-gray-900">{event.checkedInTickets}</p>
+                      <p className="text-2xl font-semibold text-gray-900">{checkedInTickets}</p>
                     </div>
                   </div>
                 </div>
@@ -230,7 +398,7 @@ const EmployeeTicketScanPage: React.FC = () => {
                     <div>
                       <p className="text-sm font-medium text-gray-600">Check-in Rate</p>
                       <p className="text-2xl font-semibold text-gray-900">
-                        {Math.round((event.checkedInTickets / event.totalTickets) * 100)}%
+                        {totalTickets > 0 ? Math.round((checkedInTickets / totalTickets) * 100) : 0}%
                       </p>
                     </div>
                   </div>
@@ -316,11 +484,12 @@ const EmployeeTicketScanPage: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {new Date(record.scannedAt).toLocaleString()}
+                      {record.offline && <span className="ms-2 text-xs text-gray-400">(offline)</span>}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       {record.status === 'verified' && !record.checkedIn ? (
                         <button
-                          onClick={() => handleCheckIn(record.id)}
+                          onClick={() => handleCheckIn(record.ticketId || record.id)}
                           className="text-green-600 hover:text-green-900"
                         >
                           Check In
@@ -344,6 +513,7 @@ const EmployeeTicketScanPage: React.FC = () => {
         eventId={selectedEventId}
         onVerificationResult={handleVerificationResult}
         onCheckIn={handleCheckIn}
+        verifyTicket={offline.verify}
         isOpen={isScannerOpen}
         onClose={() => setIsScannerOpen(false)}
       />
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { store } from '../store';
 import { logoutUser, refreshToken } from '../store/slices/authSlice';
+import { IMPERSONATION_BLOCKED_MESSAGE, isBlockedWhileImpersonating } from '../utils/impersonationUtils';
 
 // API Configuration - using main backend server
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || import.meta.env.VITE_API_URL || 'https://gema-project.onrender.com/api';
@@ -55,6 +56,15 @@ api.interceptors.request.use(
       });
     }
 
+    // Safety rail: an impersonation session is read-only, so nothing is changed on the user's behalf.
+    // The error mirrors a 403 response so callers show the message like any server error.
+    if (store.getState().auth.impersonation && isBlockedWhileImpersonating(config.method, config.url)) {
+      return Promise.reject(Object.assign(new Error(IMPERSONATION_BLOCKED_MESSAGE), {
+        config,
+        response: { status: 403, data: { success: false, message: IMPERSONATION_BLOCKED_MESSAGE } },
+      }));
+    }
+
     // Add request deduplication for GET requests (stats/dashboard endpoints)
     if (config.method?.toLowerCase() === 'get' && (
       config.url?.includes('/admin/') ||
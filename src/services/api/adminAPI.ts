@@ -1,4 +1,5 @@
 import { ApiService } from '../api';
+import { withAuditReason } from './auditAPI';
 
 const adminAPI = {
   // Dashboard stats
@@ -65,27 +66,27 @@ const adminAPI = {
     }
   },
 
-  deleteUser: async (id: string) => {
+  deleteUser: async (id: string, reason?: string) => {
     try {
-      const response = await ApiService.delete(`/admin/users/${id}`);
+      const response = await ApiService.delete(`/admin/users/${id}`, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
     }
   },
 
-  updateUserStatus: async (id: string, status: string) => {
+  updateUserStatus: async (id: string, status: string, reason?: string) => {
     try {
-      const response = await ApiService.patch(`/admin/users/${id}/status`, { status });
+      const response = await ApiService.patch(`/admin/users/${id}/status`, { status }, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
     }
   },
 
-  updateUserRole: async (id: string, role: string) => {
+  updateUserRole: async (id: string, role: string, reason?: string) => {
     try {
-      const response = await ApiService.patch(`/admin/users/${id}/role`, { role });
+      const response = await ApiService.patch(`/admin/users/${id}/role`, { role }, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
@@ -102,21 +103,21 @@ const adminAPI = {
   },
 
   // Admin password reset with OTP verification
-  initiatePasswordReset: async (userId: string) => {
+  initiatePasswordReset: async (userId: string, reason?: string) => {
     try {
-      const response = await ApiService.post(`/admin/users/${userId}/reset-password/initiate`);
+      const response = await ApiService.post(`/admin/users/${userId}/reset-password/initiate`, undefined, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
     }
   },
 
-  confirmPasswordReset: async (userId: string, otp: string, newPassword: string) => {
+  confirmPasswordReset: async (userId: string, otp: string, newPassword: string, reason?: string) => {
     try {
       const response = await ApiService.post(`/admin/users/${userId}/reset-password/confirm`, {
         otp,
         newPassword
-      });
+      }, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
@@ -251,9 +252,9 @@ const adminAPI = {
     }
   },
 
-  approveEvent: async (id: string) => {
+  approveEvent: async (id: string, notes?: string) => {
     try {
-      const response = await ApiService.put(`/admin/events/${id}/approve`);
+      const response = await ApiService.put(`/admin/events/${id}/approve`, undefined, withAuditReason(notes));
       return response.data;
     } catch (error) {
       throw error;
@@ -262,7 +263,7 @@ const adminAPI = {
 
   rejectEvent: async (id: string, reason: string) => {
     try {
-      const response = await ApiService.put(`/admin/events/${id}/reject`, { reason });
+      const response = await ApiService.put(`/admin/events/${id}/reject`, { reason }, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
@@ -335,7 +336,7 @@ const adminAPI = {
 
   refundOrder: async (id: string, amount?: number, reason?: string) => {
     try {
-      const response = await ApiService.post(`/orders/admin/${id}/refund`, { amount, reason });
+      const response = await ApiService.post(`/orders/admin/${id}/refund`, { amount, reason }, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
@@ -546,9 +547,9 @@ const adminAPI = {
     }
   },
 
-  updateSettings: async (settings: any) => {
+  updateSettings: async (settings: any, reason?: string) => {
     try {
-      const response = await ApiService.put('/admin/settings', settings);
+      const response = await ApiService.put('/admin/settings', settings, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
@@ -565,9 +566,9 @@ const adminAPI = {
     }
   },
 
-  updateAppSettings: async (settings: any) => {
+  updateAppSettings: async (settings: any, reason?: string) => {
     try {
-      const response = await ApiService.put('/admin/app-settings', settings);
+      const response = await ApiService.put('/admin/app-settings', settings, withAuditReason(reason));
       return response;
     } catch (error) {
       throw error;
@@ -583,9 +584,9 @@ const adminAPI = {
     }
   },
 
-  updateSystemSettings: async (systemSettings: any) => {
+  updateSystemSettings: async (systemSettings: any, reason?: string) => {
     try {
-      const response = await ApiService.put('/admin/settings/system', systemSettings);
+      const response = await ApiService.put('/admin/settings/system', systemSettings, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
@@ -678,18 +679,18 @@ const adminAPI = {
     }
   },
 
-  updateCommissionConfig: async (id: string, configData: any) => {
+  updateCommissionConfig: async (id: string, configData: any, reason?: string) => {
     try {
-      const response = await ApiService.put(`/admin/commissions/${id}`, configData);
+      const response = await ApiService.put(`/admin/commissions/${id}`, configData, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
     }
   },
 
-  deleteCommissionConfig: async (id: string) => {
+  deleteCommissionConfig: async (id: string, reason?: string) => {
     try {
-      const response = await ApiService.delete(`/admin/commissions/${id}`);
+      const response = await ApiService.delete(`/admin/commissions/${id}`, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
@@ -882,9 +883,9 @@ const adminAPI = {
     }
   },
 
-  approvePayoutRequest: async (id: string, approvalData?: any) => {
+  approvePayoutRequest: async (id: string, approvalData?: any, reason?: string) => {
     try {
-      const response = await ApiService.put(`/admin/payout-requests/${id}/approve`, approvalData);
+      const response = await ApiService.put(`/admin/payout-requests/${id}/approve`, approvalData, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
@@ -893,16 +894,16 @@ const adminAPI = {
 
   rejectPayoutRequest: async (id: string, reason: string) => {
     try {
-      const response = await ApiService.put(`/admin/payout-requests/${id}/reject`, { reason });
+      const response = await ApiService.put(`/admin/payout-requests/${id}/reject`, { reason }, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
     }
   },
 
-  processPayoutRequest: async (id: string, paymentData: any) => {
+  processPayoutRequest: async (id: string, paymentData: any, reason?: string) => {
     try {
-      const response = await ApiService.put(`/admin/payout-requests/${id}/process`, paymentData);
+      const response = await ApiService.put(`/admin/payout-requests/${id}/process`, paymentData, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
@@ -920,7 +921,7 @@ const adminAPI = {
 
   bulkRejectPayouts: async (payoutIds: string[], reason: string) => {
     try {
-      const response = await ApiService.post('/admin/payout-requests/bulk-reject', { payoutIds, reason });
+      const response = await ApiService.post('/admin/payout-requests/bulk-reject', { payoutIds, reason }, withAuditReason(reason));
       return response.data;
     } catch (error) {
       throw error;
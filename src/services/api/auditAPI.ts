@@ -0,0 +1,54 @@
+import type { AxiosRequestConfig } from 'axios';
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { AuditEntityType, AuditLogEntry, AuditLogFilters, AuditLogPage } from '../../types/audit';
+
+export const AUDIT_REASON_HEADER = 'X-Audit-Reason';
+
+/**
+ * Request config that sends the admin's reason for the audit log. The header is URI-encoded
+ * because header values must be Latin-1 and reasons may be written in Arabic.
+ */
+export const withAuditReason = (reason?: string, config: AxiosRequestConfig = {}): AxiosRequestConfig => {
+  const trimmed = reason?.trim();
+  if (!trimmed) return config;
+  return { ...config, headers: { ...config.headers, [AUDIT_REASON_HEADER]: encodeURIComponent(trimmed) } };
+};
+
+const auditAPI = {
+  getAuditLogs: async (filters: AuditLogFilters = {}): Promise<AuditLogPage> => {
+    try {
+      const response = await ApiService.get('/admin/audit-logs', { params: filters });
+      logApiResponse('GET /admin/audit-logs', response);
+      const data = extractApiData(response);
+      const entries: AuditLogEntry[] = data.entries || data.logs || [];
+      return {
+        entries,
+        pagination: data.pagination || {
+          page: filters.page || 1,
+          limit: filters.limit || entries.length,
+          total: entries.length,
+          totalPages: 1,
+        },
+      };
+    } catch (error) {
+      logApiResponse('GET /admin/audit-logs', null, error);
+      throw error;
+    }
+  },
+
+  // Everything done to one user, vendor, event or order, newest first
+  getEntityAuditLog: async (entityType: AuditEntityType, entityId: string): Promise<AuditLogEntry[]> => {
+    try {
+      const response = await ApiService.get(`/admin/audit-logs/${entityType}/${entityId}`);
+      logApiResponse(`GET /admin/audit-logs/${entityType}/${entityId}`, response);
+      const data = extractApiData(response);
+      return data.entries || data.logs || [];
+    } catch (error) {
+      logApiResponse(`GET /admin/audit-logs/${entityType}/${entityId}`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default auditAPI;
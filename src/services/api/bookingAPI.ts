@@ -1,5 +1,12 @@
 import { ApiService } from '../api';
 import { extractApiData, extractBookingData, logApiResponse } from '../../utils/apiResponseHandler';
+import { toTicketRequest, TicketRequestItem, TicketSelection } from '../../utils/ticketTypeUtils';
+import type {
+  TicketDeliveryMethod,
+  TicketTransfer,
+  TicketTransferData,
+  TicketTransferInvite,
+} from '../../types/transfer';
 
 export interface InitiateBookingData {
   eventId: string;
@@ -7,6 +14,9 @@ export interface InitiateBookingData {
   seats: number;
   paymentMethod?: 'stripe' | 'paypal' | 'test';
   participants?: BookingParticipant[];
+  waitlistClaimToken?: string; // Books the seats held by a waitlist offer
+  tickets?: TicketRequestItem[]; // Seats per ticket type; seats must equal their sum
+  seatIds?: string[]; // Specific seats for events with reserved seating
 }
 
 export interface ConfirmBookingData {
@@ -27,6 +37,8 @@ export interface BookingParticipant {
   };
   specialRequirements?: string;
   dietaryRestrictions?: string[];
+  ticketTypeId?: string;
+  childProfileId?: string; // Saved child the details were filled from
   // Dynamic registration form data
   registrationData?: Array<{
     fieldId: string;
@@ -172,16 +184,75 @@ const bookingAPI = {
     }
   },
 
-  transferTicket: async (id: string, transferData: any) => {
+  // Sends the recipient an acceptance link; the ticket stays with the sender until they accept
+  transferTicket: async (id: string, transferData: TicketTransferData): Promise<TicketTransfer> => {
     try {
       const response = await ApiService.post(`/tickets/${id}/transfer`, transferData);
+      logApiResponse(`POST /tickets/${id}/transfer`, response);
+      return extractApiData(response).transfer;
+    } catch (error) {
+      logApiResponse(`POST /tickets/${id}/transfer`, null, error);
+      throw error;
+    }
+  },
+
+  getTicketTransfers: async (id: string): Promise<TicketTransfer[]> => {
+    try {
+      const response = await ApiService.get(`/tickets/${id}/transfers`);
+      logApiResponse(`GET /tickets/${id}/transfers`, response);
+      return extractApiData(response).transfers || [];
+    } catch (error) {
+      logApiResponse(`GET /tickets/${id}/transfers`, null, error);
+      throw error;
+    }
+  },
+
+  cancelTicketTransfer: async (id: string, transferId: string) => {
+    try {
+      const response = await ApiService.delete(`/tickets/${id}/transfers/${transferId}`);
+      logApiResponse(`DELETE /tickets/${id}/transfers/${transferId}`, response);
+      return response.data;
+    } catch (error) {
+      logApiResponse(`DELETE /tickets/${id}/transfers/${transferId}`, null, error);
+      throw error;
+    }
+  },
+
+  getTransferInvite: async (token: string): Promise<TicketTransferInvite> => {
+    try {
+      const response = await ApiService.get(`/tickets/transfers/${token}`);
+      logApiResponse(`GET /tickets/transfers/${token}`, response);
+      return extractApiData(response).invite;
+    } catch (error) {
+      logApiResponse(`GET /tickets/transfers/${token}`, null, error);
+      throw error;
+    }
+  },
+
+  // Reissues the ticket to the signed-in recipient and voids the sender's QR
+  acceptTicketTransfer: async (token: string) => {
+    try {
+      const response = await ApiService.post(`/tickets/transfers/${token}/accept`);
+      logApiResponse(`POST /tickets/transfers/${token}/accept`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`POST /tickets/transfers/${token}/accept`, null, error);
+      throw error;
+    }
+  },
+
+  declineTicketTransfer: async (token: string) => {
+    try {
+      const response = await ApiService.post(`/tickets/transfers/${token}/decline`);
+      logApiResponse(`POST /tickets/transfers/${token}/decline`, response);
       return response.data;
     } catch (error) {
+      logApiResponse(`POST /tickets/transfers/${token}/decline`, null, error);
       throw error;
     }
   },
 
-  resendTicket: async (id: string, method: 'email' | 'sms') => {
+  resendTicket: async (id: string, method: TicketDeliveryMethod) => {
     try {
       const response = await ApiService.post(`/tickets/${id}/resend`, { method });
       return response.data;
@@ -197,13 +268,19 @@ const bookingAPI = {
     dateScheduleId?: string;
     couponCode?: string;
     currency?: string; // Add currency parameter
+    waitlistClaimToken?: string;
+    ticketSelection?: TicketSelection;
+    seatIds?: string[];
   }) => {
     try {
       const bookingParams = {
         eventId: params.eventId,
         dateScheduleId: params.dateScheduleId,
         seats: params.participants,
-        paymentMethod: 'stripe'
+        paymentMethod: 'stripe',
+        waitlistClaimToken: params.waitlistClaimToken,
+        tickets: params.ticketSelection ? toTicketRequest(params.ticketSelection) : undefined,
+        seatIds: params.seatIds
       };
       const response = await ApiService.post('/bookings/initiate', bookingParams);
       logApiResponse('POST /bookings/initiate', response);
@@ -0,0 +1,41 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { CalendarFeed, CalendarFeedScope } from '../../types/calendar';
+
+const calendarAPI = {
+  getFeed: async (scope: CalendarFeedScope): Promise<CalendarFeed | null> => {
+    try {
+      const response = await ApiService.get(`/calendar/feeds/${scope}`);
+      logApiResponse(`GET /calendar/feeds/${scope}`, response);
+      return extractApiData(response).feed || null;
+    } catch (error) {
+      logApiResponse(`GET /calendar/feeds/${scope}`, null, error);
+      throw error;
+    }
+  },
+
+  // Creates the feed, or replaces its URL and revokes the old one if it already exists
+  createFeed: async (scope: CalendarFeedScope): Promise<CalendarFeed> => {
+    try {
+      const response = await ApiService.post(`/calendar/feeds/${scope}`);
+      logApiResponse(`POST /calendar/feeds/${scope}`, response);
+      return extractApiData(response).feed;
+    } catch (error) {
+      logApiResponse(`POST /calendar/feeds/${scope}`, null, error);
+      throw error;
+    }
+  },
+
+  revokeFeed: async (scope: CalendarFeedScope) => {
+    try {
+      const response = await ApiService.delete(`/calendar/feeds/${scope}`);
+      logApiResponse(`DELETE /calendar/feeds/${scope}`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`DELETE /calendar/feeds/${scope}`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default calendarAPI;
@@ -0,0 +1,51 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { ChildProfile, ChildProfileData } from '../../types/family';
+
+const familyAPI = {
+  getChildren: async (): Promise<ChildProfile[]> => {
+    try {
+      const response = await ApiService.get('/auth/children');
+      logApiResponse('GET /auth/children', response);
+      return extractApiData(response).children || [];
+    } catch (error) {
+      logApiResponse('GET /auth/children', null, error);
+      throw error;
+    }
+  },
+
+  createChild: async (data: ChildProfileData): Promise<ChildProfile> => {
+    try {
+      const response = await ApiService.post('/auth/children', data);
+      logApiResponse('POST /auth/children', response);
+      return extractApiData(response).child;
+    } catch (error) {
+      logApiResponse('POST /auth/children', null, error);
+      throw error;
+    }
+  },
+
+  updateChild: async (id: string, data: Partial<ChildProfileData>): Promise<ChildProfile> => {
+    try {
+      const response = await ApiService.put(`/auth/children/${id}`, data);
+      logApiResponse(`PUT /auth/children/${id}`, response);
+      return extractApiData(response).child;
+    } catch (error) {
+      logApiResponse(`PUT /auth/children/${id}`, null, error);
+      throw error;
+    }
+  },
+
+  deleteChild: async (id: string) => {
+    try {
+      const response = await ApiService.delete(`/auth/children/${id}`);
+      logApiResponse(`DELETE /auth/children/${id}`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`DELETE /auth/children/${id}`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default familyAPI;
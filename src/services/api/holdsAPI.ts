@@ -0,0 +1,42 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { CreateSeatHoldData, SeatHold } from '../../types/hold';
+
+// Holds reserve seats on a date schedule until they expire; updating one resizes it and
+// restarts its timer. The server refuses a hold (409) when not enough seats are left.
+const holdsAPI = {
+  createHold: async (data: CreateSeatHoldData): Promise<SeatHold> => {
+    try {
+      const response = await ApiService.post('/holds', data);
+      logApiResponse('POST /holds', response);
+      return extractApiData(response).hold;
+    } catch (error) {
+      logApiResponse('POST /holds', null, error);
+      throw error;
+    }
+  },
+
+  updateHold: async (id: string, quantity: number): Promise<SeatHold> => {
+    try {
+      const response = await ApiService.patch(`/holds/${id}`, { quantity });
+      logApiResponse(`PATCH /holds/${id}`, response);
+      return extractApiData(response).hold;
+    } catch (error) {
+      logApiResponse(`PATCH /holds/${id}`, null, error);
+      throw error;
+    }
+  },
+
+  releaseHold: async (id: string) => {
+    try {
+      const response = await ApiService.delete(`/holds/${id}`);
+      logApiResponse(`DELETE /holds/${id}`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`DELETE /holds/${id}`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default holdsAPI;
@@ -0,0 +1,38 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { User } from '../../types/auth';
+import type { ImpersonationSession, StartImpersonationData } from '../../types/impersonation';
+
+export interface ImpersonationStartResponse {
+  session: ImpersonationSession;
+  user: User;
+}
+
+const impersonationAPI = {
+  // The server records the session and swaps the auth cookies to the target user
+  startImpersonation: async ({ userId, reason, durationMinutes }: StartImpersonationData): Promise<ImpersonationStartResponse> => {
+    try {
+      const response = await ApiService.post(`/admin/users/${userId}/impersonate`, { reason, durationMinutes });
+      logApiResponse(`POST /admin/users/${userId}/impersonate`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`POST /admin/users/${userId}/impersonate`, null, error);
+      throw error;
+    }
+  },
+
+  // Restores the admin's own session and returns the admin user
+  endImpersonation: async (): Promise<User> => {
+    try {
+      const response = await ApiService.post('/auth/impersonation/end');
+      logApiResponse('POST /auth/impersonation/end', response);
+      const data = extractApiData(response);
+      return data.user || data;
+    } catch (error) {
+      logApiResponse('POST /auth/impersonation/end', null, error);
+      throw error;
+    }
+  },
+};
+
+export default impersonationAPI;
@@ -13,9 +13,18 @@ export { default as venuesAPI } from './venuesAPI';
 // Booking & Payment APIs
 export { default as bookingAPI } from './bookingAPI';
 export { default as paymentAPI } from './paymentAPI';
+export { default as waitlistAPI } from './waitlistAPI';
+export { default as seatingAPI } from './seatingAPI';
+export { default as holdsAPI } from './holdsAPI';
+export { default as calendarAPI } from './calendarAPI';
+export { default as invoiceAPI } from './invoiceAPI';
 
 // User Management APIs
 export { default as adminAPI } from './adminAPI';
+export { default as auditAPI } from './auditAPI';
+export { default as impersonationAPI } from './impersonationAPI';
+export { default as rolesAPI } from './rolesAPI';
+export { default as familyAPI } from './familyAPI';
 export { default as vendorAPI } from './vendorAPI';
 export { default as employeeAPI } from './employeeAPI';
 
@@ -0,0 +1,21 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { OrderTaxDocuments } from '../../types/invoice';
+
+const invoiceAPI = {
+  // The order's tax invoice and any credit notes, oldest first. Open to the customer who placed
+  // the order and to admins; the backend issues the invoice on first request for paid orders.
+  getOrderTaxDocuments: async (orderId: string): Promise<OrderTaxDocuments> => {
+    try {
+      const response = await ApiService.get(`/orders/${orderId}/tax-documents`);
+      logApiResponse(`GET /orders/${orderId}/tax-documents`, response);
+      const data = extractApiData(response);
+      return { order: data.order, documents: data.documents || [] };
+    } catch (error) {
+      logApiResponse(`GET /orders/${orderId}/tax-documents`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default invoiceAPI;
@@ -117,14 +117,21 @@ const registrationAPI = {
   },
 
   /**
-   * Update a draft registration
+   * Update a draft registration, or submit it with saveAsDraft: false
    */
-  updateRegistration: async (data: UpdateRegistrationRequest): Promise<{ success: boolean; message: string; data: { registration: Registration } }> => {
+  updateRegistration: async (data: UpdateRegistrationRequest): Promise<{
+    success: boolean;
+    message: string;
+    data: { registration: Registration; payment?: SubmitRegistrationResponse['data']['payment'] };
+  }> => {
     try {
       const formData = new FormData();
 
       // Add registration data
       formData.append('registrationData', JSON.stringify(data.registrationData));
+      if (data.saveAsDraft !== undefined) {
+        formData.append('saveAsDraft', String(data.saveAsDraft));
+      }
 
       // Add new files if present
       if (data.files && data.files.length > 0) {
@@ -0,0 +1,64 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import { withAuditReason } from './auditAPI';
+import type { AdminRole, AdminRoleInput } from '../../types/permission';
+
+const rolesAPI = {
+  getRoles: async (): Promise<AdminRole[]> => {
+    try {
+      const response = await ApiService.get('/admin/roles');
+      logApiResponse('GET /admin/roles', response);
+      const data = extractApiData(response);
+      return Array.isArray(data) ? data : data.roles || [];
+    } catch (error) {
+      logApiResponse('GET /admin/roles', null, error);
+      throw error;
+    }
+  },
+
+  createRole: async (role: AdminRoleInput, reason?: string): Promise<AdminRole> => {
+    try {
+      const response = await ApiService.post('/admin/roles', role, withAuditReason(reason));
+      logApiResponse('POST /admin/roles', response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse('POST /admin/roles', null, error);
+      throw error;
+    }
+  },
+
+  updateRole: async (id: string, role: AdminRoleInput, reason?: string): Promise<AdminRole> => {
+    try {
+      const response = await ApiService.put(`/admin/roles/${id}`, role, withAuditReason(reason));
+      logApiResponse(`PUT /admin/roles/${id}`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`PUT /admin/roles/${id}`, null, error);
+      throw error;
+    }
+  },
+
+  deleteRole: async (id: string, reason?: string): Promise<void> => {
+    try {
+      const response = await ApiService.delete(`/admin/roles/${id}`, withAuditReason(reason));
+      logApiResponse(`DELETE /admin/roles/${id}`, response);
+    } catch (error) {
+      logApiResponse(`DELETE /admin/roles/${id}`, null, error);
+      throw error;
+    }
+  },
+
+  // A null role gives the admin full access again
+  assignRole: async (userId: string, roleId: string | null, reason?: string) => {
+    try {
+      const response = await ApiService.put(`/admin/users/${userId}/admin-role`, { roleId }, withAuditReason(reason));
+      logApiResponse(`PUT /admin/users/${userId}/admin-role`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`PUT /admin/users/${userId}/admin-role`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default rolesAPI;
@@ -0,0 +1,43 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { ScheduleSeatAvailability, VenueSeatMap } from '../../types/seating';
+
+export interface SeatedVenue {
+  _id: string;
+  name: string;
+  address?: {
+    city?: string;
+  };
+  seatMap: VenueSeatMap;
+}
+
+// Seat maps are saved with the venue; sold and reserved seats are tracked per date schedule by the backend
+const seatingAPI = {
+  getScheduleSeats: async (eventId: string, dateScheduleId: string): Promise<ScheduleSeatAvailability> => {
+    try {
+      const response = await ApiService.get(`/events/${eventId}/schedules/${dateScheduleId}/seats`);
+      logApiResponse('GET /events/schedules/seats', response);
+      const data = extractApiData(response);
+      return { seatMap: data.seatMap, unavailable: data.unavailable || {} };
+    } catch (error) {
+      logApiResponse('GET /events/schedules/seats', null, error);
+      throw error;
+    }
+  },
+
+  // Venues an event can use for reserved seating
+  getSeatedVenues: async (): Promise<SeatedVenue[]> => {
+    try {
+      const response = await ApiService.get('/venues', { params: { hasSeatMap: true } });
+      logApiResponse('GET /venues?hasSeatMap', response);
+      const data = extractApiData(response);
+      const venues: SeatedVenue[] = Array.isArray(data) ? data : data.venues || [];
+      return venues.filter(venue => venue.seatMap?.sections?.length > 0);
+    } catch (error) {
+      logApiResponse('GET /venues?hasSeatMap', null, error);
+      throw error;
+    }
+  },
+};
+
+export default seatingAPI;
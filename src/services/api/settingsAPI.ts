@@ -11,6 +11,18 @@ const settingsAPI = {
     } catch (error) {
       throw error;
     }
+  },
+
+  /**
+   * Get pricing settings used for fee, VAT and rounding calculations (public endpoint)
+   */
+  getPricingSettings: async () => {
+    try {
+      const response = await ApiService.get('/public/settings/pricing');
+      return response;
+    } catch (error) {
+      throw error;
+    }
   }
 };
 
@@ -1,4 +1,6 @@
 import api from '../api';
+import type { CheckInManifest, CheckInSyncResult, QueuedCheckIn } from '../../types/checkIn';
+import type { QRSigningKey } from '../../utils/qrSignature';
 
 export interface Ticket {
   _id: string;
@@ -9,7 +11,7 @@ export interface Ticket {
   attendeeEmail: string;
   price: number;
   currency: string;
-  status: 'active' | 'used' | 'cancelled' | 'expired';
+  status: 'active' | 'used' | 'cancelled' | 'expired' | 'transferred';
   validFrom: string;
   validUntil: string;
   eventId: {
@@ -116,6 +118,49 @@ class TicketAPI {
       throw new Error(error.response?.data?.message || 'Failed to generate tickets');
     }
   }
+
+  // Public keys for verifying signed ticket QR codes (current and recently rotated-out keys)
+  async getSigningKeys(): Promise<QRSigningKey[]> {
+    try {
+      const response = await api.get('/tickets/signing-keys');
+      return response.data.data?.keys || [];
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || 'Failed to load ticket signing keys');
+    }
+  }
+
+  // Everything a scanner needs to verify an event's tickets without a connection
+  async getCheckInManifest(eventId: string): Promise<Omit<CheckInManifest, 'downloadedAt'>> {
+    try {
+      const response = await api.get(`/tickets/events/${eventId}/manifest`);
+      return response.data.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || 'Failed to download ticket manifest');
+    }
+  }
+
+  async syncCheckIns(checkIns: QueuedCheckIn[]): Promise<CheckInSyncResult[]> {
+    try {
+      const response = await api.post('/tickets/checkins/sync', {
+        checkIns: checkIns.map(({ id, eventId, ticketId, deviceId, scannedAt, location }) => ({
+          clientId: id,
+          eventId,
+          ticketId,
+          deviceId,
+          scannedAt,
+          location,
+        })),
+      });
+      return response.data.data?.results || [];
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || 'Failed to sync check-ins');
+    }
+  }
+
+  // Absolute sync endpoint, stored with queued check-ins so the service worker can replay them
+  getCheckInSyncUrl(): string {
+    return `${api.defaults.baseURL}/tickets/checkins/sync`;
+  }
 }
 
 export const ticketAPI = new TicketAPI();
@@ -1,5 +1,6 @@
 import { ApiService } from '../api';
 import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type { BookingImportRecord, BookingImportResult } from '../../types/bookingImport';
 
 export interface VendorPaymentInfo {
   hasCustomStripeAccount: boolean;
@@ -130,11 +131,15 @@ const vendorAPI = {
     }
   },
 
-  importVendorBookings: async (csvData: any[]) => {
+  // With dryRun the server validates the rows and reports failures without creating bookings
+  importVendorBookings: async (
+    csvData: BookingImportRecord[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<BookingImportResult> => {
     try {
-      const response = await ApiService.post('/vendors/bookings/import', { csvData });
+      const response = await ApiService.post('/vendors/bookings/import', { csvData, dryRun: options.dryRun || false });
       logApiResponse('POST /vendors/bookings/import', response);
-      return extractApiData(response);
+      return extractApiData<BookingImportResult>(response);
     } catch (error) {
       logApiResponse('POST /vendors/bookings/import', null, error);
       throw error;
@@ -0,0 +1,104 @@
+import { ApiService } from '../api';
+import { extractApiData, logApiResponse } from '../../utils/apiResponseHandler';
+import type {
+  JoinWaitlistData,
+  WaitlistClaim,
+  WaitlistEntry,
+  WaitlistOfferOptions,
+} from '../../types/waitlist';
+
+// Seats freed by cancellations or capacity increases are offered to the queue by the backend;
+// the vendor endpoints here are for reviewing the queue and promoting entries by hand.
+const waitlistAPI = {
+  joinWaitlist: async (data: JoinWaitlistData): Promise<WaitlistEntry> => {
+    try {
+      const response = await ApiService.post('/waitlist', data);
+      logApiResponse('POST /waitlist', response);
+      return extractApiData(response).entry;
+    } catch (error) {
+      logApiResponse('POST /waitlist', null, error);
+      throw error;
+    }
+  },
+
+  getMyWaitlist: async (): Promise<WaitlistEntry[]> => {
+    try {
+      const response = await ApiService.get('/waitlist/me');
+      logApiResponse('GET /waitlist/me', response);
+      return extractApiData(response).entries || [];
+    } catch (error) {
+      logApiResponse('GET /waitlist/me', null, error);
+      throw error;
+    }
+  },
+
+  leaveWaitlist: async (id: string) => {
+    try {
+      const response = await ApiService.delete(`/waitlist/${id}`);
+      logApiResponse(`DELETE /waitlist/${id}`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`DELETE /waitlist/${id}`, null, error);
+      throw error;
+    }
+  },
+
+  // Claim links
+  getClaim: async (token: string): Promise<WaitlistClaim> => {
+    try {
+      const response = await ApiService.get(`/waitlist/claim/${token}`);
+      logApiResponse('GET /waitlist/claim', response);
+      return extractApiData(response).claim;
+    } catch (error) {
+      logApiResponse('GET /waitlist/claim', null, error);
+      throw error;
+    }
+  },
+
+  declineClaim: async (token: string) => {
+    try {
+      const response = await ApiService.post(`/waitlist/claim/${token}/decline`);
+      logApiResponse('POST /waitlist/claim/decline', response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse('POST /waitlist/claim/decline', null, error);
+      throw error;
+    }
+  },
+
+  // Vendor management
+  getEventWaitlist: async (eventId: string, params?: { dateScheduleId?: string; status?: string }): Promise<WaitlistEntry[]> => {
+    try {
+      const response = await ApiService.get(`/vendors/events/${eventId}/waitlist`, { params });
+      logApiResponse(`GET /vendors/events/${eventId}/waitlist`, response);
+      return extractApiData(response).entries || [];
+    } catch (error) {
+      logApiResponse(`GET /vendors/events/${eventId}/waitlist`, null, error);
+      throw error;
+    }
+  },
+
+  offerSeats: async (id: string, options: WaitlistOfferOptions): Promise<WaitlistEntry> => {
+    try {
+      const response = await ApiService.post(`/vendors/waitlist/${id}/offer`, options);
+      logApiResponse(`POST /vendors/waitlist/${id}/offer`, response);
+      return extractApiData(response).entry;
+    } catch (error) {
+      logApiResponse(`POST /vendors/waitlist/${id}/offer`, null, error);
+      throw error;
+    }
+  },
+
+  removeEntry: async (id: string, reason?: string) => {
+    try {
+      const response = await ApiService.delete(`/vendors/waitlist/${id}`, { data: { reason } });
+      logApiResponse(`DELETE /vendors/waitlist/${id}`, response);
+      return extractApiData(response);
+    } catch (error) {
+      logApiResponse(`DELETE /vendors/waitlist/${id}`, null, error);
+      throw error;
+    }
+  },
+};
+
+export default waitlistAPI;
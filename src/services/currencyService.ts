@@ -0,0 +1,171 @@
+/**
+ * Currency Service
+ * Fetches exchange rates, caches them in memory and localStorage, and reports how fresh they are
+ */
+
+import { ApiService } from './api';
+import { logger } from '../utils/logger';
+import {
+  BASE_CURRENCY,
+  CurrencyCode,
+  ExchangeRates,
+  FALLBACK_EXCHANGE_RATES,
+  convertCurrency,
+  isValidCurrency,
+  normalizeCurrencyCode
+} from '../utils/currencyUtils';
+
+export interface ExchangeRateSnapshot {
+  base: CurrencyCode;
+  rates: ExchangeRates;
+  fetchedAt: string | null;
+  source: 'live' | 'cache' | 'fallback';
+}
+
+export type RateFreshness = 'fresh' | 'stale' | 'fallback';
+
+const STORAGE_KEY = 'currencyRates';
+const REFRESH_AFTER = 60 * 60 * 1000; // refetch hourly
+export const RATES_STALE_AFTER = 24 * 60 * 60 * 1000; // flag rates older than a day
+
+const FALLBACK_SNAPSHOT: ExchangeRateSnapshot = {
+  base: BASE_CURRENCY,
+  rates: FALLBACK_EXCHANGE_RATES,
+  fetchedAt: null,
+  source: 'fallback',
+};
+
+/**
+ * How much the rates in a snapshot can be trusted for display
+ */
+export const getRateFreshness = (
+  snapshot: ExchangeRateSnapshot,
+  now: number = Date.now(),
+  staleAfter: number = RATES_STALE_AFTER
+): RateFreshness => {
+  if (snapshot.source === 'fallback' || !snapshot.fetchedAt) {
+    return 'fallback';
+  }
+  return now - new Date(snapshot.fetchedAt).getTime() > staleAfter ? 'stale' : 'fresh';
+};
+
+// Rebase rates so they are always expressed per 1 BASE_CURRENCY
+const rebaseRates = (rates: Record<string, number>, base: string): ExchangeRates => {
+  const result: ExchangeRates = {};
+  const baseRate = base === BASE_CURRENCY ? 1 : rates[BASE_CURRENCY];
+  if (!baseRate) {
+    return result;
+  }
+
+  Object.entries(rates).forEach(([code, rate]) => {
+    if (isValidCurrency(code) && typeof rate === 'number' && rate > 0) {
+      result[code] = rate / baseRate;
+    }
+  });
+  result[BASE_CURRENCY] = 1;
+  return result;
+};
+
+class CurrencyService {
+  private snapshot: ExchangeRateSnapshot = FALLBACK_SNAPSHOT;
+  private pendingRequest: Promise<ExchangeRateSnapshot> | null = null;
+
+  constructor() {
+    this.snapshot = this.readCache() || FALLBACK_SNAPSHOT;
+  }
+
+  /**
+   * Current rates without hitting the network
+   */
+  getSnapshot(): ExchangeRateSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Get rates, refetching when the cached copy is older than an hour (or when forced)
+   */
+  async getRates(force: boolean = false): Promise<ExchangeRateSnapshot> {
+    const age = this.snapshot.fetchedAt ? Date.now() - new Date(this.snapshot.fetchedAt).getTime() : Infinity;
+    if (!force && this.snapshot.source !== 'fallback' && age < REFRESH_AFTER) {
+      return this.snapshot;
+    }
+
+    if (this.pendingRequest) {
+      return this.pendingRequest;
+    }
+
+    this.pendingRequest = this.fetchRates().finally(() => {
+      this.pendingRequest = null;
+    });
+    return this.pendingRequest;
+  }
+
+  /**
+   * Convert using the current snapshot (null when a rate is missing)
+   */
+  convert(amount: number, from: string, to: string): number | null {
+    return convertCurrency(amount, from, to, this.snapshot.rates);
+  }
+
+  /**
+   * Ask the API which currency suits the visitor's location
+   */
+  async detectCurrency(): Promise<CurrencyCode | null> {
+    try {
+      const response = await ApiService.get('/currency/detect', { timeout: 5000 });
+      const code = (response.data as any)?.currency || (response as any)?.currency;
+      return isValidCurrency(code) ? code : null;
+    } catch (error) {
+      logger.warn('Currency auto-detection unavailable', { error });
+      return null;
+    }
+  }
+
+  private async fetchRates(): Promise<ExchangeRateSnapshot> {
+    try {
+      const response = await ApiService.get('/currency/rates', { timeout: 5000 });
+      // Accept both { rates, base } and { success, data: { rates, base } }
+      const payload: any = (response as any)?.rates ? response : response.data;
+
+      if (!payload?.rates) {
+        throw new Error('Invalid exchange rate response');
+      }
+
+      const rates = rebaseRates(payload.rates, normalizeCurrencyCode(payload.base || BASE_CURRENCY));
+      this.snapshot = {
+        base: BASE_CURRENCY,
+        rates: { ...FALLBACK_EXCHANGE_RATES, ...rates },
+        fetchedAt: payload.updatedAt || payload.timestamp || new Date().toISOString(),
+        source: 'live',
+      };
+      this.writeCache(this.snapshot);
+    } catch (error) {
+      logger.warn('Exchange rates unavailable, keeping last known rates', { error });
+    }
+
+    return this.snapshot;
+  }
+
+  private readCache(): ExchangeRateSnapshot | null {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      if (!raw) return null;
+      const cached = JSON.parse(raw) as ExchangeRateSnapshot;
+      return cached?.rates ? { ...cached, source: 'cache' } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCache(snapshot: ExchangeRateSnapshot) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+    } catch {
+      // Storage full or unavailable; the in-memory copy still works
+    }
+  }
+}
+
+// Export singleton instance
+export const currencyService = new CurrencyService();
+export default currencyService;
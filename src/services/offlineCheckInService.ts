@@ -0,0 +1,312 @@
+/**
+ * Offline Check-In Service
+ * Keeps downloaded ticket manifests and a queue of pending check-ins in IndexedDB so venue
+ * staff can keep scanning on flaky Wi-Fi. The queue is flushed from the page when it is open
+ * and online, and by the service worker's background sync ('ticket-checkins') otherwise.
+ * Each check-in carries a client id, so replays from both sides are idempotent on the server.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ticketAPI } from './api/ticketAPI';
+import ticketSignatureService from './ticketSignatureService';
+import { logger } from '../utils/logger';
+import { applyCheckInSyncResults, verifyTicketOffline } from '../utils/checkInUtils';
+import type { CheckInManifest, QueuedCheckIn, TicketVerificationResult } from '../types/checkIn';
+
+// Shared with public/sw.js - bump both together when adding stores
+const DB_NAME = 'GemaOfflineDB';
+const DB_VERSION = 2;
+const MANIFEST_STORE = 'checkin_manifests';
+const QUEUE_STORE = 'checkin_queue';
+const CHECKIN_SYNC_TAG = 'ticket-checkins';
+const DEVICE_ID_KEY = 'checkInDeviceId';
+
+type QueueListener = () => void;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OfflineCheckInService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners: QueueListener[] = [];
+  private activeSync: Promise<void> | null = null;
+  private lastSyncedAt: string | null = null;
+
+  constructor() {
+    window.addEventListener('online', () => {
+      this.syncQueue().catch(() => undefined);
+    });
+
+    // The service worker reports back after a background sync so open scanners refresh
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        if (event.data?.type === 'CHECKIN_SYNC_COMPLETE') {
+          this.lastSyncedAt = new Date().toISOString();
+          this.notifyListeners();
+        }
+      });
+    }
+  }
+
+  // Device id lets the server tell which scanner won when a ticket is scanned twice
+  getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = uuidv4();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  getLastSyncedAt(): string | null {
+    return this.lastSyncedAt;
+  }
+
+  isSyncing(): boolean {
+    return this.activeSync !== null;
+  }
+
+  // Manifests
+
+  async downloadManifest(eventId: string): Promise<CheckInManifest> {
+    const manifest: CheckInManifest = {
+      ...(await ticketAPI.getCheckInManifest(eventId)),
+      downloadedAt: new Date().toISOString(),
+    };
+
+    // Keep check-ins this device hasn't synced yet marked as used
+    const pending = await this.getQueue(eventId);
+    pending.forEach((item) => {
+      const ticket = manifest.tickets.find((entry) => entry.id === item.ticketId);
+      if (ticket && !ticket.checkedInAt) {
+        ticket.checkedInAt = item.scannedAt;
+      }
+    });
+
+    await this.put(MANIFEST_STORE, manifest);
+    // Fresh signing keys go with the manifest so signed codes verify once the Wi-Fi drops
+    await ticketSignatureService.getKeys(true);
+    logger.info(`[CheckIn] Downloaded manifest for ${eventId} (${manifest.tickets.length} tickets)`);
+    this.notifyListeners();
+    return manifest;
+  }
+
+  async getManifest(eventId: string): Promise<CheckInManifest | undefined> {
+    const db = await this.openDB();
+    return promisifyRequest<CheckInManifest | undefined>(
+      db.transaction(MANIFEST_STORE, 'readonly').objectStore(MANIFEST_STORE).get(eventId)
+    );
+  }
+
+  async removeManifest(eventId: string): Promise<void> {
+    const db = await this.openDB();
+    await promisifyRequest(db.transaction(MANIFEST_STORE, 'readwrite').objectStore(MANIFEST_STORE).delete(eventId));
+    this.notifyListeners();
+  }
+
+  /**
+   * Verify a scan against the downloaded manifest. Resolves to null when the event has no
+   * manifest, so callers can fall back to online verification.
+   */
+  async verify(eventId: string, qrData: string): Promise<TicketVerificationResult | null> {
+    const manifest = await this.getManifest(eventId);
+    return manifest ? verifyTicketOffline(manifest, qrData) : null;
+  }
+
+  // Queue
+
+  async queueCheckIn(eventId: string, ticketId: string, location?: string): Promise<QueuedCheckIn> {
+    const manifest = await this.getManifest(eventId);
+    const ticket = manifest?.tickets.find((entry) => entry.id === ticketId);
+    if (!manifest || !ticket) {
+      throw new Error('Ticket is not in the downloaded manifest');
+    }
+    if (ticket.checkedInAt) {
+      throw new Error('Ticket has already been checked in');
+    }
+
+    const scannedAt = new Date().toISOString();
+    const item: QueuedCheckIn = {
+      id: uuidv4(),
+      eventId,
+      ticketId: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      attendeeName: ticket.attendeeName,
+      deviceId: this.getDeviceId(),
+      scannedAt,
+      location,
+      status: 'pending',
+      syncUrl: ticketAPI.getCheckInSyncUrl(),
+      attempts: 0,
+    };
+
+    // Mark the ticket as used locally so a second scan on this device is caught straight away
+    ticket.checkedInAt = scannedAt;
+    ticket.checkedInBy = item.deviceId;
+    ticket.scanCount += 1;
+
+    const db = await this.openDB();
+    const tx = db.transaction([MANIFEST_STORE, QUEUE_STORE], 'readwrite');
+    tx.objectStore(MANIFEST_STORE).put(manifest);
+    tx.objectStore(QUEUE_STORE).put(item);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+
+    this.notifyListeners();
+    await this.requestBackgroundSync();
+    if (navigator.onLine) {
+      this.syncQueue().catch(() => undefined);
+    }
+    return item;
+  }
+
+  async getQueue(eventId?: string): Promise<QueuedCheckIn[]> {
+    const db = await this.openDB();
+    const items = await promisifyRequest<QueuedCheckIn[]>(
+      db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll()
+    );
+    return items
+      .filter((item) => !eventId || item.eventId === eventId)
+      .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+  }
+
+  // Staff acknowledged a conflict or rejection
+  async dismissQueueItem(id: string): Promise<void> {
+    const db = await this.openDB();
+    await promisifyRequest(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).delete(id));
+    this.notifyListeners();
+  }
+
+  /**
+   * Send pending check-ins to the server. Concurrent calls share one request.
+   */
+  syncQueue(): Promise<void> {
+    if (!this.activeSync) {
+      this.activeSync = this.runSync().finally(() => {
+        this.activeSync = null;
+        this.notifyListeners();
+      });
+      this.notifyListeners();
+    }
+    return this.activeSync;
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((existing) => existing !== listener);
+    };
+  }
+
+  // Private methods
+
+  private async runSync(): Promise<void> {
+    const pending = (await this.getQueue()).filter((item) => item.status === 'pending');
+    if (pending.length === 0 || !navigator.onLine) return;
+
+    try {
+      const results = await ticketAPI.syncCheckIns(pending);
+      const { remaining, syncedIds } = applyCheckInSyncResults(pending, results);
+
+      const db = await this.openDB();
+      const tx = db.transaction(QUEUE_STORE, 'readwrite');
+      const queueStore = tx.objectStore(QUEUE_STORE);
+      syncedIds.forEach((id) => queueStore.delete(id));
+      remaining.forEach((item) => queueStore.put(item));
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+
+      // The server's check-in time wins over ours when another device got there first
+      await Promise.all(
+        remaining
+          .filter((item) => item.status === 'conflict' && item.conflict)
+          .map((item) => this.applyConflictToManifest(item))
+      );
+
+      this.lastSyncedAt = new Date().toISOString();
+      logger.info(`[CheckIn] Synced ${syncedIds.length} check-ins, ${remaining.length} still queued`);
+    } catch (error) {
+      logger.warn('[CheckIn] Sync failed, will retry', error);
+      throw error;
+    }
+  }
+
+  private async applyConflictToManifest(item: QueuedCheckIn): Promise<void> {
+    const manifest = await this.getManifest(item.eventId);
+    const ticket = manifest?.tickets.find((entry) => entry.id === item.ticketId);
+    if (!manifest || !ticket || !item.conflict) return;
+
+    ticket.checkedInAt = item.conflict.checkedInAt;
+    ticket.checkedInBy = item.conflict.checkedInBy || item.conflict.deviceId;
+    await this.put(MANIFEST_STORE, manifest);
+  }
+
+  private async requestBackgroundSync(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const sync = (registration as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } })?.sync;
+      await sync?.register(CHECKIN_SYNC_TAG);
+    } catch (error) {
+      // Background sync is best effort; the page syncs on reconnect either way
+      logger.warn('[CheckIn] Background sync registration failed', error);
+    }
+  }
+
+  private async put(storeName: string, value: unknown): Promise<void> {
+    const db = await this.openDB();
+    await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+
+        // Mirrors the upgrade in public/sw.js, whichever side opens the database first
+        request.onupgradeneeded = () => {
+          const db = request.result;
+
+          if (!db.objectStoreNames.contains('failed_requests')) {
+            const store = db.createObjectStore('failed_requests', { keyPath: 'id', autoIncrement: true });
+            store.createIndex('timestamp', 'timestamp', { unique: false });
+          }
+          if (!db.objectStoreNames.contains(MANIFEST_STORE)) {
+            db.createObjectStore(MANIFEST_STORE, { keyPath: 'eventId' });
+          }
+          if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+            const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+            store.createIndex('eventId', 'eventId', { unique: false });
+          }
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('[CheckIn] Error in queue listener', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+export const offlineCheckInService = new OfflineCheckInService();
+
+export default offlineCheckInService;
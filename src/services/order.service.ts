@@ -1,5 +1,6 @@
 import { ApiService } from './api';
 import { CartItem, CartSummary } from '../store/slices/cartSlice';
+import type { TicketRequestItem } from '../utils/ticketTypeUtils';
 
 // Types
 export interface BillingInfo {
@@ -27,6 +28,8 @@ export interface OrderItem {
     age?: number;
     specialRequirements?: string;
   }>;
+  tickets?: TicketRequestItem[]; // Quantities per ticket type, for events sold that way
+  holdId?: string; // Seat hold taken in the cart; the order converts it into the booking
 }
 
 export interface OrderData {
@@ -88,7 +91,9 @@ class OrderService {
           unitPrice: item.unitPrice,
           totalPrice: item.totalPrice,
           currency: item.currency,
-          participants: item.participants || []
+          participants: item.participants || [],
+          tickets: item.ticketLines?.map(({ ticketTypeId, quantity }) => ({ ticketTypeId, quantity })),
+          holdId: item.hold?.id
         })),
         billingAddress: billingInfo,
         paymentMethod: 'stripe',
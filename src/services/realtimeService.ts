@@ -0,0 +1,290 @@
+/**
+ * Real-Time Service
+ * WebSocket client for live notifications, booking changes, seat availability and payout status.
+ * Authenticates with a short-lived ticket (or the httpOnly session cookie) and reconnects with
+ * exponential backoff. When sockets are unavailable the status switches to 'polling' so callers
+ * can fall back to REST polling.
+ */
+
+import { ApiService } from './api';
+import { logger } from '../utils/logger';
+import { getReconnectDelay, parseRealTimeMessage } from '../utils/realtimeUtils';
+import type { Notification } from './api/notificationAPI';
+import type { PayoutRequest } from './api/vendorPayoutAPI';
+import type { Booking } from '../store/slices/bookingsSlice';
+
+// Message schema
+
+export interface SeatAvailabilityUpdate {
+  eventId: string;
+  scheduleId?: string;
+  availableSeats: number;
+  totalSeats?: number;
+  soldSeats?: number;
+  reservedSeats?: number;
+}
+
+export interface PayoutStatusUpdate {
+  payoutId: string;
+  status: PayoutRequest['status'];
+  amount?: number;
+  currency?: string;
+  failureReason?: string;
+  rejectionReason?: string;
+  updatedAt: string;
+}
+
+export interface BookingChange {
+  booking: Booking;
+  // 'customer' when the recipient made the booking, 'vendor' when it was made for one of their events
+  scope: 'customer' | 'vendor';
+}
+
+interface RealTimeMessageMap {
+  'notification.created': Notification;
+  'notification.read': { notificationId: string };
+  'booking.created': BookingChange;
+  'booking.updated': BookingChange;
+  'event.seats_updated': SeatAvailabilityUpdate;
+  'payout.status_changed': PayoutStatusUpdate;
+}
+
+export type RealTimeMessageType = keyof RealTimeMessageMap;
+
+export type RealTimeMessage = {
+  [K in RealTimeMessageType]: {
+    id?: string;
+    type: K;
+    payload: RealTimeMessageMap[K];
+    timestamp: string;
+  };
+}[RealTimeMessageType];
+
+export type RealTimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'polling';
+
+type MessageListener = (message: RealTimeMessage) => void;
+type StatusListener = (status: RealTimeStatus) => void;
+
+// Close codes sent by the server when the session is not (or no longer) authorised
+const AUTH_CLOSE_CODES = [4401, 4403];
+
+const resolveSocketUrl = (): string => {
+  if (import.meta.env.VITE_WS_URL) {
+    return import.meta.env.VITE_WS_URL;
+  }
+
+  const apiUrl = import.meta.env.VITE_API_BASE_URL || import.meta.env.VITE_API_URL || 'https://gema-project.onrender.com/api';
+  return apiUrl.replace(/^http/, 'ws').replace(/\/api\/?$/, '') + '/ws';
+};
+
+class RealTimeService {
+  private socket: WebSocket | null = null;
+  private status: RealTimeStatus = 'idle';
+  private messageListeners = new Set<MessageListener>();
+  private statusListeners = new Set<StatusListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private shouldConnect = false;
+  // Set while the ticket is fetched, before the socket exists
+  private isConnecting = false;
+
+  private readonly BASE_RECONNECT_DELAY = 1000;
+  private readonly MAX_RECONNECT_DELAY = 30 * 1000;
+  private readonly MAX_RECONNECT_ATTEMPTS = 6;
+  private readonly FALLBACK_RETRY_DELAY = 5 * 60 * 1000; // retry sockets every 5 minutes while polling
+
+  /**
+   * Open the connection (no-op if already open or connecting)
+   */
+  async connect(): Promise<void> {
+    this.shouldConnect = true;
+
+    if (this.isConnecting) {
+      return;
+    }
+    if (this.socket && (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING)) {
+      return;
+    }
+
+    if (typeof window === 'undefined' || typeof WebSocket === 'undefined') {
+      this.setStatus('polling');
+      return;
+    }
+
+    this.clearReconnectTimer();
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    this.isConnecting = true;
+    let ticket: string | null;
+    try {
+      ticket = await this.fetchTicket();
+    } finally {
+      this.isConnecting = false;
+    }
+    if (!this.shouldConnect) {
+      return;
+    }
+
+    const url = ticket ? `${resolveSocketUrl()}?ticket=${encodeURIComponent(ticket)}` : resolveSocketUrl();
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      logger.warn('Unable to open real-time connection', { error });
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      logger.info('Real-time connection established');
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+    };
+
+    socket.onmessage = (event) => {
+      const message = parseRealTimeMessage(event.data);
+      if (!message) {
+        logger.debug('Ignoring unknown real-time message', { data: event.data });
+        return;
+      }
+      this.messageListeners.forEach(listener => listener(message));
+    };
+
+    socket.onclose = (event) => {
+      // A socket replaced by a newer connection must not touch the current one
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+
+      if (!this.shouldConnect) {
+        this.setStatus('idle');
+        return;
+      }
+
+      if (AUTH_CLOSE_CODES.includes(event.code)) {
+        logger.warn('Real-time connection rejected, falling back to polling', { code: event.code });
+        this.fallbackToPolling();
+        return;
+      }
+
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      logger.debug('Real-time connection error');
+    };
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  disconnect(): void {
+    this.shouldConnect = false;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+
+    if (this.socket) {
+      // Detach first so the closing socket's late events are not mistaken for the next connection's
+      this.socket.onopen = null;
+      this.socket.onmessage = null;
+      this.socket.onclose = null;
+      this.socket.onerror = null;
+      this.socket.close(1000, 'Client disconnect');
+      this.socket = null;
+    }
+
+    this.setStatus('idle');
+  }
+
+  /**
+   * Send a message to the server (dropped when not connected)
+   */
+  send(message: Record<string, unknown>): boolean {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }
+
+  subscribe(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getStatus(): RealTimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Exchange the session cookie for a short-lived socket ticket. Returns null when the
+   * ticket endpoint is unavailable; the handshake then relies on the cookie alone.
+   */
+  private async fetchTicket(): Promise<string | null> {
+    try {
+      const response = await ApiService.post<{ ticket: string; expiresAt: string }>('/realtime/ticket');
+      return response.data?.ticket || null;
+    } catch (error) {
+      logger.debug('Real-time ticket unavailable, using session cookie', { error });
+      return null;
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempts >= this.MAX_RECONNECT_ATTEMPTS) {
+      this.fallbackToPolling();
+      return;
+    }
+
+    const delay = getReconnectDelay(this.reconnectAttempts, this.BASE_RECONNECT_DELAY, this.MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.connect();
+    }, delay);
+  }
+
+  private fallbackToPolling() {
+    this.setStatus('polling');
+    this.reconnectAttempts = 0;
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.connect();
+    }, this.FALLBACK_RETRY_DELAY);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: RealTimeStatus) {
+    if (this.status === status) {
+      return;
+    }
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+// Export singleton instance
+export const realTimeService = new RealTimeService();
+export default realTimeService;
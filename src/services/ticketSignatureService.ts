@@ -0,0 +1,94 @@
+/**
+ * Ticket Signature Service
+ * Verifies backend-signed QR codes at the door. Public keys are fetched from the API and
+ * cached in localStorage so scanners keep verifying offline; an unknown key id triggers one
+ * refresh, which is how key rotation reaches devices that are already running.
+ */
+
+import { ticketAPI } from './api/ticketAPI';
+import { logger } from '../utils/logger';
+import { createQRReplayGuard, QRSigningKey } from '../utils/qrSignature';
+import { QRValidationResult, SecureQRData, validateQRData } from '../utils/qrcode.utils';
+
+const KEYS_STORAGE_KEY = 'ticketSigningKeys';
+const KEYS_MAX_AGE = 12 * 60 * 60 * 1000; // Refresh cached keys twice a day when online
+
+interface CachedSigningKeys {
+  keys: QRSigningKey[];
+  fetchedAt: number;
+}
+
+class TicketSignatureService {
+  private cache: CachedSigningKeys | null = null;
+  private pendingRefresh: Promise<QRSigningKey[]> | null = null;
+  private replayGuard = createQRReplayGuard(localStorage, 'usedTicketQRCodes');
+
+  constructor() {
+    try {
+      this.cache = JSON.parse(localStorage.getItem(KEYS_STORAGE_KEY) || 'null');
+    } catch {
+      this.cache = null;
+    }
+  }
+
+  async getKeys(forceRefresh: boolean = false): Promise<QRSigningKey[]> {
+    const isStale = !this.cache || Date.now() - this.cache.fetchedAt > KEYS_MAX_AGE;
+
+    if ((forceRefresh || isStale) && navigator.onLine) {
+      try {
+        return await this.refreshKeys();
+      } catch (error) {
+        logger.warn('[QR] Could not refresh signing keys, using cached keys', error);
+      }
+    }
+
+    return this.cache?.keys || [];
+  }
+
+  /**
+   * Verify a scanned code. Codes this device has already checked in are reported as replayed.
+   */
+  async verify(qrData: string): Promise<QRValidationResult> {
+    const result = await validateQRData(qrData, {
+      keys: await this.getKeys(),
+      replayGuard: this.replayGuard,
+    });
+
+    if (result.reason !== 'unknown_key' || !navigator.onLine) {
+      return result;
+    }
+
+    // Possibly signed with a key rotated in since we last fetched
+    return validateQRData(qrData, {
+      keys: await this.getKeys(true),
+      replayGuard: this.replayGuard,
+    });
+  }
+
+  // Call once a signed code has been used for check-in so a copy of it is caught
+  markUsed(data: SecureQRData): void {
+    if (!data.signed || !data.nonce) return;
+    this.replayGuard.markUsed(data.nonce, Math.floor(new Date(data.expiresAt).getTime() / 1000));
+  }
+
+  private refreshKeys(): Promise<QRSigningKey[]> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = ticketAPI
+        .getSigningKeys()
+        .then((keys) => {
+          this.cache = { keys, fetchedAt: Date.now() };
+          localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(this.cache));
+          return keys;
+        })
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+    return this.pendingRefresh;
+  }
+}
+
+// Create singleton instance
+export const ticketSignatureService = new TicketSignatureService();
+
+export default ticketSignatureService;
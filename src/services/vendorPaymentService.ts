@@ -6,6 +6,7 @@
 import { loadStripe, Stripe } from '@stripe/stripe-js';
 import { ApiService } from './api';
 import { logger } from '../utils/logger';
+import { calculatePricing, DEFAULT_PRICING_SETTINGS, PricingSettings } from '../utils/pricingUtils';
 
 export interface VendorPaymentInfo {
   vendorId: string;
@@ -23,13 +24,21 @@ interface CachedVendorPayment {
 
 class VendorPaymentService {
   private cache: Map<string, CachedVendorPayment> = new Map();
-  private pendingRequests: Map<string, Promise<VendorPaymentInfo>> = new Map();
+  private pendingRequests: Map<string, Promise<VendorPaymentInfo | null>> = new Map();
   private readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes
 
   /**
-   * Get vendor payment information with request deduplication
+   * Get vendor payment information, falling back to the platform defaults when the lookup fails
    */
   async getVendorPaymentInfo(vendorId: string): Promise<VendorPaymentInfo> {
+    return (await this.findVendorPaymentInfo(vendorId)) || this.getPlatformDefaults(vendorId);
+  }
+
+  /**
+   * Get vendor payment information with request deduplication, or null when the lookup fails or
+   * the response is malformed
+   */
+  async findVendorPaymentInfo(vendorId: string): Promise<VendorPaymentInfo | null> {
     try {
       // Check cache first
       const cached = this.cache.get(vendorId);
@@ -58,21 +67,27 @@ class VendorPaymentService {
       }
     } catch (error) {
       logger.error('Failed to get vendor payment info', { vendorId, error });
-      // Return platform defaults on error
-      return {
-        vendorId,
-        hasCustomStripe: false,
-        stripePublishableKey: null,
-        serviceFeeRate: 5,
-        usePlatformStripe: true,
-      };
+      return null;
     }
   }
 
+  /**
+   * Platform Stripe and the default service fee, for vendors whose payment info can't be loaded
+   */
+  private getPlatformDefaults(vendorId: string): VendorPaymentInfo {
+    return {
+      vendorId,
+      hasCustomStripe: false,
+      stripePublishableKey: null,
+      serviceFeeRate: 5,
+      usePlatformStripe: true,
+    };
+  }
+
   /**
    * Internal method to fetch from API
    */
-  private async fetchVendorPaymentInfoFromAPI(vendorId: string): Promise<VendorPaymentInfo> {
+  private async fetchVendorPaymentInfoFromAPI(vendorId: string): Promise<VendorPaymentInfo | null> {
     // Fetch from API
     logger.info('Fetching vendor payment info from API', { vendorId });
     const response = await ApiService.get(`/vendors/${vendorId}/payment-info`);
@@ -90,29 +105,17 @@ class VendorPaymentService {
       info = response.data;
     } else {
       // Invalid response structure
-      logger.warn('Invalid payment info response structure, using defaults', {
+      logger.warn('Invalid payment info response structure', {
         vendorId,
         responseKeys: Object.keys(response.data || {})
       });
-      return {
-        vendorId,
-        hasCustomStripe: false,
-        stripePublishableKey: null,
-        serviceFeeRate: 5,
-        usePlatformStripe: true,
-      };
+      return null;
     }
 
     // Validate the response has required fields
     if (!info || !info.vendorId) {
-      logger.warn('Invalid payment info data, using defaults', { vendorId, info });
-      return {
-        vendorId,
-        hasCustomStripe: false,
-        stripePublishableKey: null,
-        serviceFeeRate: 5,
-        usePlatformStripe: true,
-      };
+      logger.warn('Invalid payment info data', { vendorId, info });
+      return null;
     }
 
     logger.debug('Successfully fetched vendor payment info', {
@@ -203,26 +206,37 @@ class VendorPaymentService {
   }
 
   /**
-   * Calculate total price with service fee
+   * Calculate total price with service fee (delegates to the shared pricing engine)
    */
-  calculateTotalWithFees(subtotal: number, vendorPaymentInfo: VendorPaymentInfo): {
+  calculateTotalWithFees(
+    subtotal: number,
+    vendorPaymentInfo: VendorPaymentInfo,
+    settings: PricingSettings = DEFAULT_PRICING_SETTINGS
+  ): {
     subtotal: number;
     serviceFee: number;
     tax: number;
     total: number;
   } {
-    const serviceFee = vendorPaymentInfo.usePlatformStripe
-      ? subtotal * (vendorPaymentInfo.serviceFeeRate / 100)
-      : 0;
-
-    const tax = subtotal * 0.05; // 5% tax
-    const total = subtotal + serviceFee + tax;
+    const breakdown = calculatePricing(
+      [{ id: vendorPaymentInfo.vendorId, vendorId: vendorPaymentInfo.vendorId, unitPrice: subtotal, quantity: 1 }],
+      {
+        settings,
+        vendorOverrides: {
+          [vendorPaymentInfo.vendorId]: {
+            vendorId: vendorPaymentInfo.vendorId,
+            serviceFeePercentage: vendorPaymentInfo.serviceFeeRate,
+            serviceFeeExempt: !vendorPaymentInfo.usePlatformStripe,
+          },
+        },
+      }
+    );
 
     return {
-      subtotal,
-      serviceFee,
-      tax,
-      total,
+      subtotal: breakdown.subtotal,
+      serviceFee: breakdown.serviceFee,
+      tax: breakdown.tax,
+      total: breakdown.total,
     };
   }
 
@@ -15,7 +15,7 @@ import bookingsSlice from './slices/bookingsSlice';
 import vendorSlice from './slices/vendorSlice';
 import vendorPayoutSlice from './slices/vendorPayoutSlice';
 import adminSlice from './slices/adminSlice';
-// import notificationsSlice from './slices/notificationsSlice'; // Commented out - notification system disabled
+import notificationsSlice from './slices/notificationsSlice';
 import couponsSlice from './slices/couponsSlice';
 import affiliatesSlice from './slices/affiliatesSlice';
 import paymentsSlice from './slices/paymentsSlice';
@@ -24,6 +24,8 @@ import blogSlice from './slices/blogSlice';
 import registrationsSlice from './slices/registrationsSlice';
 import settingsSlice from './slices/settingsSlice';
 import mediaSlice from './slices/mediaSlice';
+import waitlistSlice from './slices/waitlistSlice';
+import familySlice from './slices/familySlice';
 
 // Persist configuration
 const persistConfig = {
@@ -31,7 +33,7 @@ const persistConfig = {
   storage,
   // Note: auth and cart use custom persist configs below, so exclude them here
   whitelist: ['favorites', 'ui', 'settings'], // Only persist these slices
-  blacklist: ['events', 'categories', 'search', 'bookings', 'vendor', 'vendorPayout', 'admin', 'coupons', 'affiliates', 'payments', 'tickets', 'blog', 'registrations', 'media'], // Don't persist these (notifications removed - system disabled)
+  blacklist: ['events', 'categories', 'search', 'bookings', 'vendor', 'vendorPayout', 'admin', 'coupons', 'affiliates', 'payments', 'tickets', 'blog', 'registrations', 'media', 'notifications', 'waitlist', 'family'], // Don't persist these
 };
 
 // Auth persist config (separate for sensitive data)
@@ -65,7 +67,7 @@ const rootReducer = combineReducers({
   vendor: vendorSlice,
   vendorPayout: vendorPayoutSlice,
   admin: adminSlice,
-  // notifications: notificationsSlice, // Commented out - notification system disabled
+  notifications: notificationsSlice,
   coupons: couponsSlice,
   affiliates: affiliatesSlice,
   payments: paymentsSlice,
@@ -74,6 +76,8 @@ const rootReducer = combineReducers({
   registrations: registrationsSlice,
   settings: settingsSlice,
   media: mediaSlice,
+  waitlist: waitlistSlice,
+  family: familySlice,
 });
 
 // Create persisted reducer
@@ -125,11 +129,12 @@ export * from './slices/bookingsSlice';
 export * from './slices/vendorSlice';
 export * from './slices/vendorPayoutSlice';
 export * from './slices/adminSlice';
-// export * from './slices/notificationsSlice'; // Commented out - notification system disabled
 export * from './slices/couponsSlice';
 export * from './slices/affiliatesSlice';
 export * from './slices/paymentsSlice';
 export * from './slices/ticketsSlice';
 export * from './slices/blogSlice';
 export * from './slices/registrationsSlice';
-export * from './slices/settingsSlice';
\ No newline at end of file
+export * from './slices/settingsSlice';
+export * from './slices/waitlistSlice';
+export * from './slices/familySlice';
\ No newline at end of file
@@ -561,9 +561,10 @@ export const updateCommissionConfig = createAsyncThunk(
   async (params: {
     id: string;
     configData: Partial<CommissionConfig>;
+    reason: string; // Recorded in the audit log
   }, { rejectWithValue }) => {
     try {
-      const response = await adminAPI.updateCommissionConfig(params.id, params.configData);
+      const response = await adminAPI.updateCommissionConfig(params.id, params.configData, params.reason);
       toast.success('Commission configuration updated successfully!');
       return response;
     } catch (error: any) {
@@ -576,11 +577,11 @@ export const updateCommissionConfig = createAsyncThunk(
 
 export const deleteCommissionConfig = createAsyncThunk(
   'admin/deleteCommissionConfig',
-  async (id: string, { rejectWithValue }) => {
+  async (params: { id: string; reason: string }, { rejectWithValue }) => {
     try {
-      await adminAPI.deleteCommissionConfig(id);
+      await adminAPI.deleteCommissionConfig(params.id, params.reason);
       toast.success('Commission configuration deleted successfully!');
-      return id;
+      return params.id;
     } catch (error: any) {
       const message = error.response?.data?.message || 'Failed to delete commission config';
       toast.error(message);
@@ -683,9 +684,10 @@ export const approvePayoutRequest = createAsyncThunk(
   async (params: {
     id: string;
     approvalData?: any;
+    reason?: string;
   }, { rejectWithValue }) => {
     try {
-      const response = await adminAPI.approvePayoutRequest(params.id, params.approvalData);
+      const response = await adminAPI.approvePayoutRequest(params.id, params.approvalData, params.reason);
       toast.success('Payout request approved successfully!');
       return response;
     } catch (error: any) {
@@ -719,9 +721,10 @@ export const processPayoutRequest = createAsyncThunk(
   async (params: {
     id: string;
     paymentData: any;
+    reason?: string;
   }, { rejectWithValue }) => {
     try {
-      const response = await adminAPI.processPayoutRequest(params.id, params.paymentData);
+      const response = await adminAPI.processPayoutRequest(params.id, params.paymentData, params.reason);
       toast.success('Payout request processed successfully!');
       return response;
     } catch (error: any) {
@@ -810,7 +813,7 @@ export const updateUserStatus = createAsyncThunk(
   async (params: {
     userId: string;
     status: string;
-    reason?: string;
+    reason: string; // Recorded in the audit log
   }, { rejectWithValue }) => {
     try {
       const response = await adminAPI.updateUserStatus(params.userId, params.status, params.reason);
@@ -970,9 +973,9 @@ export const fetchSystemSettings = createAsyncThunk(
 
 export const updateSystemSettings = createAsyncThunk(
   'admin/updateSystemSettings',
-  async (settings: Partial<SystemSettings>, { rejectWithValue }) => {
+  async (params: { settings: Partial<SystemSettings>; reason: string }, { rejectWithValue }) => {
     try {
-      const response = await adminAPI.updateSystemSettings(settings);
+      const response = await adminAPI.updateSystemSettings(params.settings, params.reason);
       toast.success('System settings updated successfully!');
       return response;
     } catch (error: any) {
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import authAPI from '@services/api/authAPI';
+import impersonationAPI from '@services/api/impersonationAPI';
 import {
   User,
   LoginCredentials,
@@ -10,6 +11,7 @@ import {
   AvatarUploadData,
   Address
 } from '@types/auth';
+import type { ImpersonationSession, StartImpersonationData } from '@/types/impersonation';
 import { toast } from 'react-hot-toast';
 import { loginWithGoogle } from '@/services/firebaseAuth';
 import { redirectToRoleDashboard, type UserRole } from '@/utils/roleRedirect';
@@ -28,6 +30,7 @@ interface AuthState {
   isEmailVerified: boolean;
   lastLoginTime: string | null;
   profileCompletion: number;
+  impersonation: ImpersonationSession | null; // Set while an admin is viewing the app as this user
 }
 
 const initialState: AuthState = {
@@ -42,6 +45,7 @@ const initialState: AuthState = {
   isEmailVerified: false,
   lastLoginTime: null,
   profileCompletion: 0,
+  impersonation: null,
 };
 
 // Async thunks
@@ -374,6 +378,34 @@ export const getCurrentUser = createAsyncThunk(
   }
 );
 
+export const startImpersonation = createAsyncThunk(
+  'auth/startImpersonation',
+  async (data: StartImpersonationData, { rejectWithValue }) => {
+    try {
+      return await impersonationAPI.startImpersonation(data);
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to start impersonation';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const endImpersonation = createAsyncThunk(
+  'auth/endImpersonation',
+  async (_, { rejectWithValue }) => {
+    try {
+      const user = await impersonationAPI.endImpersonation();
+      toast.success('Returned to your admin account');
+      return user;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to end impersonation';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const loginWithGoogleThunk = createAsyncThunk(
   'auth/loginWithGoogle',
   async (navigate?: any, { rejectWithValue }) => {
@@ -439,6 +471,7 @@ const authSlice = createSlice({
       state.lastLoginTime = null;
       state.error = null;
       state.isInitialized = true; // Keep initialized - auth cleared intentionally
+      state.impersonation = null;
       // Note: Cookies are cleared by the server logout endpoint
     },
   },
@@ -491,9 +524,28 @@ const authSlice = createSlice({
         state.error = null;
         state.isLoading = false;
         state.isInitialized = true; // Keep initialized - logout is intentional, no need to re-verify
+        state.impersonation = null;
         // Note: Cookies are cleared by the server logout endpoint
       })
 
+      // Impersonation
+      .addCase(startImpersonation.fulfilled, (state, action) => {
+        state.user = action.payload.user;
+        state.userProfile = null;
+        state.isEmailVerified = action.payload.user.isEmailVerified;
+        state.impersonation = action.payload.session;
+      })
+      .addCase(endImpersonation.fulfilled, (state, action: PayloadAction<User>) => {
+        state.user = action.payload;
+        state.userProfile = null;
+        state.isEmailVerified = action.payload.isEmailVerified;
+        state.impersonation = null;
+      })
+      // The server may already have ended the session; the banner re-fetches the current user
+      .addCase(endImpersonation.rejected, (state) => {
+        state.impersonation = null;
+      })
+
       // Refresh Token
       .addCase(refreshToken.fulfilled, (state, action: PayloadAction<AuthResponse>) => {
         state.user = action.payload.user;
@@ -505,6 +557,7 @@ const authSlice = createSlice({
         state.user = null;
         state.isAuthenticated = false;
         state.isEmailVerified = false;
+        state.impersonation = null;
         // Note: Invalid cookies are cleared by the server
       })
       
@@ -663,6 +716,7 @@ const authSlice = createSlice({
         state.user = action.payload;
         state.isAuthenticated = true;
         state.isEmailVerified = action.payload.isEmailVerified;
+        state.impersonation = action.payload.impersonation || null;
         state.error = null;
       })
       .addCase(getCurrentUser.rejected, (state) => {
@@ -671,6 +725,7 @@ const authSlice = createSlice({
         state.user = null;
         state.isAuthenticated = false;
         state.isEmailVerified = false;
+        state.impersonation = null;
         state.error = null; // Explicitly clear errors for failed auth checks
         // Note: Invalid cookies should be cleared by calling logout
       });
@@ -703,6 +758,7 @@ export const selectError = (state: { auth: AuthState }) => state.auth.error;
 export const selectProfileError = (state: { auth: AuthState }) => state.auth.profileError;
 export const selectIsEmailVerified = (state: { auth: AuthState }) => state.auth.isEmailVerified;
 export const selectProfileCompletion = (state: { auth: AuthState }) => state.auth.profileCompletion;
+export const selectImpersonation = (state: { auth: AuthState }) => state.auth.impersonation;
 // Note: selectToken removed - tokens are now in httpOnly cookies
 
 // Helper selectors
@@ -2,6 +2,9 @@ import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import bookingAPI from '@services/api/bookingAPI';
 import { Event } from '../../types/event';
 import { toast } from 'react-hot-toast';
+import type { PricingDiscountInput } from '@utils/pricingUtils';
+import type { WaitlistBookingClaim } from '../../types/waitlist';
+import type { TicketSelection } from '@utils/ticketTypeUtils';
 import { generateBookingQRWithEventData, generateOrderQRWithEventData } from '@/utils/qrcode.utils';
 
 export interface BookingParticipant {
@@ -18,6 +21,8 @@ export interface BookingParticipant {
   };
   specialRequirements?: string;
   dietaryRestrictions?: string[];
+  ticketTypeId?: string; // Set when the event sells several ticket types
+  childProfileId?: string; // Saved child the details were filled from
   // Dynamic registration form data
   registrationData?: { fieldId: string; fieldLabel: string; fieldType: string; value: any; }[];
 }
@@ -150,7 +155,11 @@ interface BookingsState {
     paymentMethod: string | null;
     specialRequests: string;
     couponCode: string;
+    couponDiscount: PricingDiscountInput | null;
     agreedToTerms: boolean;
+    waitlistClaim: WaitlistBookingClaim | null; // Seats held for this family by a waitlist offer
+    ticketSelection: TicketSelection; // Quantity per ticket type; empty for single-price events
+    seatIds: string[]; // Picked seats for events with reserved seating
   };
   
   // Checkout state
@@ -198,7 +207,11 @@ const initialState: BookingsState = {
     paymentMethod: null,
     specialRequests: '',
     couponCode: '',
+    couponDiscount: null,
     agreedToTerms: false,
+    waitlistClaim: null,
+    ticketSelection: {},
+    seatIds: [],
   },
   
   checkout: {
@@ -359,6 +372,9 @@ export const createPaymentIntent = createAsyncThunk(
       dateScheduleId?: string;
       couponCode?: string;
       currency?: string; // Add currency parameter
+      waitlistClaimToken?: string;
+      ticketSelection?: TicketSelection;
+      seatIds?: string[];
     },
     { rejectWithValue }
   ) => {
@@ -371,6 +387,9 @@ export const createPaymentIntent = createAsyncThunk(
         dateScheduleId: params.dateScheduleId,
         couponCode: params.couponCode,
         currency: params.currency, // Pass currency to the API
+        waitlistClaimToken: params.waitlistClaimToken,
+        ticketSelection: params.ticketSelection,
+        seatIds: params.seatIds,
       });
       return response;
     } catch (error: any) {
@@ -502,10 +521,26 @@ const bookingsSlice = createSlice({
     setCouponCode: (state, action: PayloadAction<string>) => {
       state.bookingFlow.couponCode = action.payload;
     },
+
+    setCouponDiscount: (state, action: PayloadAction<PricingDiscountInput | null>) => {
+      state.bookingFlow.couponDiscount = action.payload;
+    },
     
     setAgreedToTerms: (state, action: PayloadAction<boolean>) => {
       state.bookingFlow.agreedToTerms = action.payload;
     },
+
+    setBookingWaitlistClaim: (state, action: PayloadAction<WaitlistBookingClaim | null>) => {
+      state.bookingFlow.waitlistClaim = action.payload;
+    },
+
+    setBookingTicketSelection: (state, action: PayloadAction<TicketSelection>) => {
+      state.bookingFlow.ticketSelection = action.payload;
+    },
+
+    setBookingSeats: (state, action: PayloadAction<string[]>) => {
+      state.bookingFlow.seatIds = action.payload;
+    },
     
     resetBookingFlow: (state) => {
       state.bookingFlow = {
@@ -516,7 +551,11 @@ const bookingsSlice = createSlice({
         paymentMethod: null,
         specialRequests: '',
         couponCode: '',
+        couponDiscount: null,
         agreedToTerms: false,
+        waitlistClaim: null,
+        ticketSelection: {},
+        seatIds: [],
       };
       state.checkout = {
         isProcessing: false,
@@ -553,6 +592,21 @@ const bookingsSlice = createSlice({
       }
     },
     
+    // Insert or replace a booking pushed by the real-time channel
+    upsertBooking: (state, action: PayloadAction<Booking>) => {
+      const index = state.bookings.findIndex(booking => booking.id === action.payload.id);
+      if (index !== -1) {
+        state.bookings[index] = action.payload;
+      } else {
+        state.bookings.unshift(action.payload);
+        state.pagination.total += 1;
+      }
+
+      if (state.currentBooking?.id === action.payload.id) {
+        state.currentBooking = action.payload;
+      }
+    },
+    
     removeBookingFromList: (state, action: PayloadAction<string>) => {
       state.bookings = state.bookings.filter(booking => booking.id !== action.payload);
 
@@ -756,12 +810,17 @@ export const {
   setPaymentMethod,
   setSpecialRequests,
   setCouponCode,
+  setCouponDiscount,
   setAgreedToTerms,
+  setBookingWaitlistClaim,
+  setBookingTicketSelection,
+  setBookingSeats,
   resetBookingFlow,
   setFilters,
   setPagination,
   setCurrentBooking,
   updateBookingInList,
+  upsertBooking,
   removeBookingFromList,
   generateQRCodesForBooking,
   clearErrors,
@@ -784,7 +843,11 @@ export const selectBookingFlow = (state: { bookings: BookingsState }) => state.b
   paymentMethod: null,
   specialRequests: '',
   couponCode: '',
+  couponDiscount: null,
   agreedToTerms: false,
+  waitlistClaim: null,
+  ticketSelection: {},
+  seatIds: [],
 };
 export const selectBookingStep = (state: { bookings: BookingsState }) => state.bookings?.bookingFlow?.step || 'details';
 export const selectBookingParticipants = (state: { bookings: BookingsState }) => state.bookings?.bookingFlow?.participants || [];
@@ -1,6 +1,19 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Event } from '@types/event';
 import { toast } from 'react-hot-toast';
+import {
+  calculatePricing,
+  DEFAULT_PRICING_CONFIG,
+  PricingBreakdown,
+  PricingConfig,
+  roundMoney
+} from '@utils/pricingUtils';
+import { normalizeCurrencyCode } from '@utils/currencyUtils';
+import { getTicketLinesQuantity, getTicketLinesTotal, TicketLine, toPricingLines } from '@utils/ticketTypeUtils';
+import { getCartHoldSummary, getHoldChange, isHoldActive } from '@utils/holdUtils';
+import { CouponCartLine, CouponEvaluation, CouponRuleFields, evaluateCoupon } from '@utils/couponUtils';
+import holdsAPI from '@services/api/holdsAPI';
+import type { CartItemHold } from '../../types/hold';
 
 export interface CartItem {
   id: string;
@@ -17,75 +30,204 @@ export interface CartItem {
   totalPrice: number;
   currency: string;
   addedAt: string;
+  ticketLines?: TicketLine[]; // Set for events sold as ticket types; quantity is then their sum
+  dateScheduleId?: string; // Items booked on a date schedule hold their seats
+  hold?: CartItemHold;
+  holdError?: string; // Why the last hold attempt failed, e.g. not enough seats left
+  holdPending?: boolean; // A hold request for the item is in flight
 }
 
-export interface CartSummary {
-  subtotal: number;
-  tax: number;
-  serviceFee: number;
+export type CartSummary = PricingBreakdown;
+
+export interface AppliedCartCoupon {
+  code: string;
   discount: number;
-  total: number;
-  currency: string;
+  type: 'percentage' | 'fixed';
+  maxDiscount?: number;
+  rules?: CouponRuleFields; // Public coupon rules; the discount then only covers qualifying items
 }
 
 interface CartState {
   items: CartItem[];
   summary: CartSummary;
-  appliedCoupon: {
-    code: string;
-    discount: number;
-    type: 'percentage' | 'fixed';
-  } | null;
+  appliedCoupon: AppliedCartCoupon | null;
+  pricingConfig: PricingConfig;
   isLoading: boolean;
   error: string | null;
 }
 
 const initialState: CartState = {
   items: [],
-  summary: {
-    subtotal: 0,
-    tax: 0,
-    serviceFee: 0,
-    discount: 0,
-    total: 0,
-    currency: 'AED',
-  },
+  summary: calculatePricing([], DEFAULT_PRICING_CONFIG),
   appliedCoupon: null,
+  pricingConfig: DEFAULT_PRICING_CONFIG,
   isLoading: false,
   error: null,
 };
 
 // Helper functions
 const calculateItemTotal = (item: CartItem): number => {
+  if (item.ticketLines?.length) {
+    return getTicketLinesTotal(item.ticketLines);
+  }
   return item.unitPrice * item.quantity;
 };
 
-const calculateCartSummary = (items: CartItem[], appliedCoupon: CartState['appliedCoupon']): CartSummary => {
-  const subtotal = items.reduce((sum, item) => sum + calculateItemTotal(item), 0);
-  const serviceFee = subtotal * 0.05; // 5% service fee
-  const tax = (subtotal + serviceFee) * 0.05; // 5% tax
-  
-  let discount = 0;
-  if (appliedCoupon) {
-    if (appliedCoupon.type === 'percentage') {
-      discount = subtotal * (appliedCoupon.discount / 100);
+// Adds quantities of the same ticket type together, keeping the latest price
+const mergeTicketLines = (existing: TicketLine[], added: TicketLine[]): TicketLine[] => {
+  const merged = existing.map(line => ({ ...line }));
+
+  added.forEach(line => {
+    const match = merged.find(m => m.ticketTypeId === line.ticketTypeId);
+    if (match) {
+      match.quantity += line.quantity;
+      match.unitPrice = line.unitPrice;
+      match.tierLabel = line.tierLabel;
+      match.total = roundMoney(match.unitPrice * match.quantity);
     } else {
-      discount = appliedCoupon.discount;
+      merged.push({ ...line });
     }
+  });
+
+  return merged;
+};
+
+/**
+ * Distinct settlement currencies in the cart. A cart with more than one cannot be
+ * checked out as a single payment.
+ */
+export const getCartCurrencies = (items: CartItem[]): string[] => {
+  return Array.from(new Set(items.map(item => normalizeCurrencyCode(item.currency))));
+};
+
+/**
+ * Cart items as coupon lines, with the average ticket price of items sold as ticket types
+ */
+export const getCouponCartLines = (items: CartItem[]): CouponCartLine[] =>
+  items.map(item => ({
+    id: item.id,
+    eventId: item.event._id,
+    title: item.event.title,
+    category: item.event.category,
+    eventType: item.event.type,
+    vendorId: item.event.vendorId?._id,
+    unitPrice: item.quantity > 0 ? roundMoney(calculateItemTotal(item) / item.quantity) : item.unitPrice,
+    quantity: item.quantity,
+  }));
+
+/**
+ * Explains per cart item why the applied coupon covers it or not. Null for coupons applied
+ * without their rules.
+ */
+export const getCartCouponEvaluation = (
+  items: CartItem[],
+  appliedCoupon: AppliedCartCoupon | null
+): CouponEvaluation | null =>
+  appliedCoupon?.rules ? evaluateCoupon(appliedCoupon.rules, getCouponCartLines(items)) : null;
+
+const getCartDiscount = (items: CartItem[], appliedCoupon: AppliedCartCoupon | null) => {
+  if (!appliedCoupon) return null;
+
+  const evaluation = getCartCouponEvaluation(items, appliedCoupon);
+  if (evaluation) {
+    return evaluation.isValid ? { type: 'fixed' as const, value: evaluation.discountAmount, code: appliedCoupon.code } : null;
   }
-  
-  const total = Math.max(0, subtotal + serviceFee + tax - discount);
-  
-  return {
-    subtotal,
-    tax,
-    serviceFee,
-    discount,
-    total,
-    currency: items[0]?.currency || 'AED',
-  };
+  return { type: appliedCoupon.type, value: appliedCoupon.discount, maxDiscount: appliedCoupon.maxDiscount, code: appliedCoupon.code };
 };
 
+const calculateCartSummary = (
+  items: CartItem[],
+  appliedCoupon: CartState['appliedCoupon'],
+  pricingConfig: PricingConfig = DEFAULT_PRICING_CONFIG
+): CartSummary => {
+  return calculatePricing(
+    items.flatMap(item =>
+      item.ticketLines?.length
+        ? toPricingLines(item.ticketLines, item.id, item.event.vendorId?._id)
+        : [{
+            id: item.id,
+            vendorId: item.event.vendorId?._id,
+            unitPrice: item.unitPrice,
+            quantity: item.quantity,
+          }]
+    ),
+    pricingConfig,
+    getCartDiscount(items, appliedCoupon),
+    // Mixed-currency carts have no meaningful combined total; checkout is refused for them
+    getCartCurrencies(items).length === 1 ? getCartCurrencies(items)[0] : undefined
+  );
+};
+
+/**
+ * Creates, resizes or renews the seat hold for a cart item so it covers the item's quantity
+ */
+// One hold request per item at a time, so a second request can't create a hold that orphans the first
+const pendingHoldSyncs = new Map<string, Promise<unknown>>();
+
+const queueHoldSync = <T>(itemId: string, task: () => Promise<T>): Promise<T> => {
+  const run = (pendingHoldSyncs.get(itemId) || Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  pendingHoldSyncs.set(itemId, settled);
+  settled.then(() => {
+    if (pendingHoldSyncs.get(itemId) === settled) pendingHoldSyncs.delete(itemId);
+  });
+  return run;
+};
+
+export const syncItemHold = createAsyncThunk(
+  'cart/syncItemHold',
+  (itemId: string, { getState, dispatch, rejectWithValue }) =>
+    queueHoldSync(itemId, async () => {
+      const item = (getState() as { cart: CartState }).cart.items.find(item => item.id === itemId);
+      const change = item ? getHoldChange(item) : 'none';
+      if (!item?.dateScheduleId || change === 'none') return item?.hold || null;
+
+      try {
+        const hold = change === 'update' && item.hold
+          ? await holdsAPI.updateHold(item.hold.id, item.quantity)
+          : await holdsAPI.createHold({
+              eventId: item.event._id,
+              dateScheduleId: item.dateScheduleId,
+              quantity: item.quantity,
+            });
+        const itemHold: CartItemHold = { id: hold._id, quantity: hold.quantity, expiresAt: hold.expiresAt };
+        // Recorded before the next queued request for the item reads it
+        dispatch(cartSlice.actions.setItemHold({ itemId, hold: itemHold }));
+        return itemHold;
+      } catch (error: any) {
+        const message = error.response?.data?.message || `Could not hold seats for "${item.event.title}"`;
+        toast.error(message);
+        return rejectWithValue(message);
+      }
+    })
+);
+
+/**
+ * Holds seats for every item that needs it; resolves to whether the whole cart is now held
+ */
+export const holdCartItems = createAsyncThunk(
+  'cart/holdCartItems',
+  async (_, { getState, dispatch }) => {
+    const { items } = (getState() as { cart: CartState }).cart;
+    await Promise.all(
+      items.filter(item => getHoldChange(item) !== 'none').map(item => dispatch(syncItemHold(item.id)))
+    );
+    return getCartHoldSummary((getState() as { cart: CartState }).cart.items).allHeld;
+  }
+);
+
+/**
+ * Gives held seats back, e.g. when items leave the cart. Failures are ignored because
+ * the server releases the hold anyway once it expires.
+ */
+export const releaseHolds = createAsyncThunk(
+  'cart/releaseHolds',
+  async (holdIds: string[]) => {
+    await Promise.allSettled(holdIds.map(id => holdsAPI.releaseHold(id)));
+    return holdIds;
+  }
+);
+
 const cartSlice = createSlice({
   name: 'cart',
   initialState,
@@ -96,8 +238,11 @@ const cartSlice = createSlice({
       selectedDate?: string;
       selectedTimeSlot?: string;
       participants: CartItem['participants'];
+      ticketLines?: TicketLine[];
+      dateScheduleId?: string;
     }>) => {
-      const { event, quantity, selectedDate, selectedTimeSlot, participants } = action.payload;
+      const { event, selectedDate, selectedTimeSlot, participants, ticketLines, dateScheduleId } = action.payload;
+      const quantity = ticketLines?.length ? getTicketLinesQuantity(ticketLines) : action.payload.quantity;
       
       // Check if item already exists in cart
       const existingItemIndex = state.items.findIndex(
@@ -107,13 +252,16 @@ const cartSlice = createSlice({
       );
       
       const unitPrice = event.pricing?.basePrice || event.price || 0;
-      const totalPrice = unitPrice * quantity;
+      const totalPrice = ticketLines?.length ? getTicketLinesTotal(ticketLines) : unitPrice * quantity;
       
       if (existingItemIndex >= 0) {
         // Update existing item
         const existingItem = state.items[existingItemIndex];
         existingItem.quantity += quantity;
         existingItem.participants = [...existingItem.participants, ...participants];
+        if (ticketLines?.length) {
+          existingItem.ticketLines = mergeTicketLines(existingItem.ticketLines || [], ticketLines);
+        }
         existingItem.totalPrice = calculateItemTotal(existingItem);
       } else {
         // Add new item
@@ -126,14 +274,16 @@ const cartSlice = createSlice({
           participants,
           unitPrice,
           totalPrice,
-          currency: event.pricing?.currency || event.currency || 'AED',
+          currency: normalizeCurrencyCode(event.pricing?.currency || event.currency),
           addedAt: new Date().toISOString(),
+          ticketLines: ticketLines?.length ? ticketLines : undefined,
+          dateScheduleId,
         };
         state.items.push(newItem);
       }
       
       // Recalculate summary
-      state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+      state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
       
       toast.success('Added to cart!');
     },
@@ -143,7 +293,7 @@ const cartSlice = createSlice({
       state.items = state.items.filter(item => item.id !== itemId);
       
       // Recalculate summary
-      state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+      state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
       
       toast.success('Removed from cart');
     },
@@ -163,7 +313,32 @@ const cartSlice = createSlice({
         }
         
         // Recalculate summary
-        state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+        state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
+      }
+    },
+    
+    updateTicketQuantity: (state, action: PayloadAction<{ itemId: string; ticketTypeId: string; quantity: number }>) => {
+      const { itemId, ticketTypeId, quantity } = action.payload;
+      const item = state.items.find(item => item.id === itemId);
+
+      if (item?.ticketLines) {
+        item.ticketLines = item.ticketLines
+          .map(line => line.ticketTypeId === ticketTypeId
+            ? { ...line, quantity, total: roundMoney(line.unitPrice * quantity) }
+            : line)
+          .filter(line => line.quantity > 0);
+
+        if (item.ticketLines.length === 0) {
+          // Last ticket removed, so the item goes too
+          state.items = state.items.filter(item => item.id !== itemId);
+          toast.success('Removed from cart');
+        } else {
+          item.quantity = getTicketLinesQuantity(item.ticketLines);
+          item.totalPrice = calculateItemTotal(item);
+        }
+
+        // Recalculate summary
+        state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
       }
     },
     
@@ -177,24 +352,20 @@ const cartSlice = createSlice({
         item.totalPrice = calculateItemTotal(item);
         
         // Recalculate summary
-        state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+        state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
       }
     },
     
-    applyCoupon: (state, action: PayloadAction<{
-      code: string;
-      discount: number;
-      type: 'percentage' | 'fixed';
-    }>) => {
+    applyCoupon: (state, action: PayloadAction<AppliedCartCoupon>) => {
       state.appliedCoupon = action.payload;
-      state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+      state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
       toast.success(`Coupon "${action.payload.code}" applied!`);
     },
     
     removeCoupon: (state) => {
       const couponCode = state.appliedCoupon?.code;
       state.appliedCoupon = null;
-      state.summary = calculateCartSummary(state.items, null);
+      state.summary = calculateCartSummary(state.items, null, state.pricingConfig);
       if (couponCode) {
         toast.success(`Coupon "${couponCode}" removed`);
       }
@@ -203,9 +374,35 @@ const cartSlice = createSlice({
     clearCart: (state) => {
       state.items = [];
       state.appliedCoupon = null;
-      state.summary = initialState.summary;
+      state.summary = calculateCartSummary([], null, state.pricingConfig);
       state.error = null;
     },
+
+    // Drops holds the server has already let go of, e.g. after the cart was left for a while
+    expireHolds: (state) => {
+      state.items.forEach(item => {
+        if (item.hold && !isHoldActive(item.hold)) {
+          item.hold = undefined;
+        }
+        // A request still marked pending in a restored cart never finished
+        if (item.holdPending && !pendingHoldSyncs.has(item.id)) {
+          item.holdPending = false;
+        }
+      });
+    },
+
+    setItemHold: (state, action: PayloadAction<{ itemId: string; hold: CartItemHold }>) => {
+      const item = state.items.find(item => item.id === action.payload.itemId);
+      if (item) {
+        item.hold = action.payload.hold;
+        item.holdError = undefined;
+      }
+    },
+
+    setPricingConfig: (state, action: PayloadAction<PricingConfig>) => {
+      state.pricingConfig = action.payload;
+      state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
+    },
     
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
@@ -215,21 +412,10 @@ const cartSlice = createSlice({
       state.error = action.payload;
     },
     
-    updateCurrency: (state, action: PayloadAction<string>) => {
-      const newCurrency = action.payload;
-      
-      // Update currency for all items and summary
-      state.items.forEach(item => {
-        item.currency = newCurrency;
-      });
-      
-      state.summary.currency = newCurrency;
-    },
-    
     syncCartWithServer: (state, action: PayloadAction<CartItem[]>) => {
       // Sync cart with server data (useful after login)
       state.items = action.payload;
-      state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+      state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
     },
     
     moveToWishlist: (state, action: PayloadAction<string>) => {
@@ -238,7 +424,7 @@ const cartSlice = createSlice({
       
       if (item) {
         state.items = state.items.filter(item => item.id !== itemId);
-        state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+        state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
         toast.success('Moved to wishlist');
       }
     },
@@ -267,23 +453,51 @@ const cartSlice = createSlice({
       
       if (validItems.length !== state.items.length) {
         state.items = validItems;
-        state.summary = calculateCartSummary(state.items, state.appliedCoupon);
+        state.summary = calculateCartSummary(state.items, state.appliedCoupon, state.pricingConfig);
       }
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(syncItemHold.pending, (state, action) => {
+        const item = state.items.find(item => item.id === action.meta.arg);
+        if (item) {
+          item.holdPending = true;
+        }
+      })
+      .addCase(syncItemHold.fulfilled, (state, action) => {
+        const item = state.items.find(item => item.id === action.meta.arg);
+        if (item) {
+          item.holdPending = false;
+          if (action.payload) {
+            item.hold = action.payload;
+            item.holdError = undefined;
+          }
+        }
+      })
+      .addCase(syncItemHold.rejected, (state, action) => {
+        const item = state.items.find(item => item.id === action.meta.arg);
+        if (item) {
+          item.holdPending = false;
+          item.holdError = action.payload as string;
+        }
+      });
+  },
 });
 
 export const {
   addToCart,
   removeFromCart,
   updateQuantity,
+  updateTicketQuantity,
   updateParticipants,
   applyCoupon,
   removeCoupon,
   clearCart,
+  expireHolds,
+  setPricingConfig,
   setLoading,
   setError,
-  updateCurrency,
   syncCartWithServer,
   moveToWishlist,
   validateCartItems,
@@ -333,6 +547,14 @@ export const selectCartCurrency = (state: { cart: CartState }) => {
   return state.cart.summary.currency;
 };
 
+export const selectCartCurrencies = (state: { cart: CartState }) => {
+  return getCartCurrencies(state.cart.items);
+};
+
+export const selectHasMixedCurrencies = (state: { cart: CartState }) => {
+  return getCartCurrencies(state.cart.items).length > 1;
+};
+
 export const selectIsCartEmpty = (state: { cart: CartState }) => {
   return state.cart.items.length === 0;
 };
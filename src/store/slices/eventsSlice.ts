@@ -2,6 +2,8 @@ import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import eventsAPI from '@services/api/eventsAPI';
 import { Event, EventFilters, EventsResponse, CreateEventData, UpdateEventData } from '@types/event';
 import { toast } from 'react-hot-toast';
+import type { SeatAvailabilityUpdate } from '@services/realtimeService';
+import { applySeatAvailability } from '@utils/realtimeUtils';
 
 interface EventsState {
   events: Event[];
@@ -287,6 +289,17 @@ const eventsSlice = createSlice({
       state.events = state.events.filter(event => event._id !== action.payload);
       state.totalEvents = Math.max(0, state.totalEvents - 1);
     },
+    updateEventSeats: (state, action: PayloadAction<SeatAvailabilityUpdate>) => {
+      const applySeats = (event: Event | null) => {
+        if (!event || event._id !== action.payload.eventId || !Array.isArray(event.dateSchedule)) return;
+        event.dateSchedule = applySeatAvailability(event.dateSchedule, action.payload);
+      };
+
+      state.events.forEach(applySeats);
+      state.featuredEvents.forEach(applySeats);
+      state.relatedEvents.forEach(applySeats);
+      applySeats(state.currentEvent);
+    },
   },
   extraReducers: (builder) => {
     // Fetch Events
@@ -466,6 +479,7 @@ export const {
   clearEvents,
   updateEventInList,
   removeEventFromList,
+  updateEventSeats,
 } = eventsSlice.actions;
 
 export default eventsSlice.reducer;
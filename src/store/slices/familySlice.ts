@@ -0,0 +1,159 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { toast } from 'react-hot-toast';
+import familyAPI from '../../services/api/familyAPI';
+import type { ChildProfile, ChildProfileData } from '../../types/family';
+
+interface FamilyState {
+  children: ChildProfile[];
+  hasLoaded: boolean;
+  loadFailed: boolean; // The last fetch failed; only an explicit retry fetches again
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const initialState: FamilyState = {
+  children: [],
+  hasLoaded: false,
+  loadFailed: false,
+  isLoading: false,
+  isSaving: false,
+  error: null,
+};
+
+export const fetchChildProfiles = createAsyncThunk(
+  'family/fetchChildProfiles',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await familyAPI.getChildren();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load your children');
+    }
+  }
+);
+
+export const createChildProfile = createAsyncThunk(
+  'family/createChildProfile',
+  async (data: ChildProfileData, { rejectWithValue }) => {
+    try {
+      const child = await familyAPI.createChild(data);
+      toast.success(`${child.name} added to your family`);
+      return child;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to add child';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateChildProfile = createAsyncThunk(
+  'family/updateChildProfile',
+  async ({ id, data }: { id: string; data: Partial<ChildProfileData> }, { rejectWithValue }) => {
+    try {
+      const child = await familyAPI.updateChild(id, data);
+      toast.success('Child details updated');
+      return child;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to update child';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteChildProfile = createAsyncThunk(
+  'family/deleteChildProfile',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await familyAPI.deleteChild(id);
+      toast.success('Child removed');
+      return id;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to remove child';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const familySlice = createSlice({
+  name: 'family',
+  initialState,
+  reducers: {
+    clearFamilyError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchChildProfiles.pending, (state) => {
+        state.isLoading = true;
+        state.loadFailed = false;
+        state.error = null;
+      })
+      .addCase(fetchChildProfiles.fulfilled, (state, action: PayloadAction<ChildProfile[]>) => {
+        state.isLoading = false;
+        state.hasLoaded = true;
+        state.children = action.payload;
+      })
+      .addCase(fetchChildProfiles.rejected, (state, action) => {
+        state.isLoading = false;
+        state.loadFailed = true;
+        state.error = action.payload as string;
+      })
+
+      .addCase(createChildProfile.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(createChildProfile.fulfilled, (state, action: PayloadAction<ChildProfile>) => {
+        state.isSaving = false;
+        state.children.push(action.payload);
+      })
+      .addCase(createChildProfile.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(updateChildProfile.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(updateChildProfile.fulfilled, (state, action: PayloadAction<ChildProfile>) => {
+        state.isSaving = false;
+        state.children = state.children.map((child) =>
+          child._id === action.payload._id ? action.payload : child
+        );
+      })
+      .addCase(updateChildProfile.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(deleteChildProfile.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(deleteChildProfile.fulfilled, (state, action: PayloadAction<string>) => {
+        state.isSaving = false;
+        state.children = state.children.filter((child) => child._id !== action.payload);
+      })
+      .addCase(deleteChildProfile.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearFamilyError } = familySlice.actions;
+
+// Selectors
+export const selectChildProfiles = (state: { family: FamilyState }) => state.family?.children || [];
+export const selectChildProfilesLoaded = (state: { family: FamilyState }) => state.family?.hasLoaded || false;
+export const selectChildProfilesLoadFailed = (state: { family: FamilyState }) => state.family?.loadFailed || false;
+export const selectIsChildProfilesLoading = (state: { family: FamilyState }) => state.family?.isLoading || false;
+export const selectIsSavingChildProfile = (state: { family: FamilyState }) => state.family?.isSaving || false;
+export const selectFamilyError = (state: { family: FamilyState }) => state.family?.error || null;
+
+export default familySlice.reducer;
@@ -422,7 +422,9 @@ const notificationsSlice = createSlice({
 
       // Fetch Unread Count
       .addCase(fetchUnreadCount.fulfilled, (state, action) => {
-        state.unreadCount = action.payload;
+        // API returns either the bare count or { count }
+        const payload = action.payload;
+        state.unreadCount = typeof payload === 'number' ? payload : Number(payload?.count ?? payload?.unreadCount ?? 0);
       })
 
       // Fetch Notification by ID
@@ -10,7 +10,9 @@ import {
   FormField,
   RegistrationConfig,
   RegistrationData,
+  SubmitRegistrationResponse,
 } from '@/types/registration';
+import { registrationDataToFormValues } from '@/utils/registrationFormUtils';
 
 interface RegistrationsState {
   // Registrations data
@@ -58,6 +60,11 @@ interface RegistrationsState {
     files: Record<string, File>;
     isDraft: boolean;
     config: RegistrationConfig | null;
+    // Autosaved draft (saveAsDraft submissions) so a long form can be resumed later
+    draftId: string | null;
+    isSavingDraft: boolean;
+    lastSavedAt: string | null;
+    draftError: string | null;
   };
 
   // Payment state
@@ -110,6 +117,10 @@ const initialState: RegistrationsState = {
     files: {},
     isDraft: false,
     config: null,
+    draftId: null,
+    isSavingDraft: false,
+    lastSavedAt: null,
+    draftError: null,
   },
 
   payment: {
@@ -130,6 +141,66 @@ const initialState: RegistrationsState = {
 
 // Async thunks
 
+interface SendRegistrationParams {
+  eventId: string;
+  registrationData: RegistrationData[];
+  files?: File[];
+  saveAsDraft: boolean;
+}
+
+// Draft saves and the final submit run one at a time, so a save never starts before the previous
+// one has recorded the draft's id and two drafts can't be created for the same form
+let registrationQueue: Promise<unknown> = Promise.resolve();
+
+const queueRegistrationSave = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = registrationQueue.then(task);
+  registrationQueue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Creates the registration, or updates the draft already saved for this form (finalising it when
+ * saveAsDraft is false). A newly created draft's id is recorded before the next save runs.
+ */
+const sendRegistration = (
+  params: SendRegistrationParams,
+  getState: () => unknown,
+  dispatch: (action: PayloadAction<string>) => unknown
+): Promise<SubmitRegistrationResponse> =>
+  queueRegistrationSave(async () => {
+    const { draftId } = (getState() as { registrations: RegistrationsState }).registrations.registrationForm;
+
+    if (!draftId) {
+      const response = await registrationAPI.submitRegistration(params);
+      const registrationId = response.data?.registration?.id;
+      if (params.saveAsDraft && registrationId) {
+        dispatch(registrationsSlice.actions.setRegistrationDraftId(registrationId));
+      }
+      return response;
+    }
+
+    const response = await registrationAPI.updateRegistration({
+      registrationId: draftId,
+      registrationData: params.registrationData,
+      files: params.files,
+      saveAsDraft: params.saveAsDraft,
+    });
+    const { registration, payment } = response.data;
+    return {
+      success: response.success,
+      message: response.message,
+      data: {
+        registration: {
+          id: registration._id,
+          confirmationNumber: registration.confirmationNumber || '',
+          status: registration.status,
+          paymentStatus: registration.payment?.status,
+        },
+        payment,
+      },
+    };
+  });
+
 export const submitRegistration = createAsyncThunk(
   'registrations/submit',
   async (params: {
@@ -137,14 +208,9 @@ export const submitRegistration = createAsyncThunk(
     registrationData: RegistrationData[];
     files?: File[];
     saveAsDraft?: boolean;
-  }, { rejectWithValue }) => {
+  }, { rejectWithValue, getState, dispatch }) => {
     try {
-      const response = await registrationAPI.submitRegistration({
-        eventId: params.eventId,
-        registrationData: params.registrationData,
-        files: params.files,
-        saveAsDraft: params.saveAsDraft,
-      });
+      const response = await sendRegistration({ ...params, saveAsDraft: !!params.saveAsDraft }, getState, dispatch);
 
       if (params.saveAsDraft) {
         toast.success('Registration saved as draft');
@@ -161,6 +227,47 @@ export const submitRegistration = createAsyncThunk(
   }
 );
 
+// Quiet variant of submitRegistration used for autosave; no toasts, files are only sent on explicit saves
+export const saveRegistrationDraft = createAsyncThunk(
+  'registrations/saveDraft',
+  async (params: {
+    eventId: string;
+    registrationData: RegistrationData[];
+    files?: File[];
+  }, { rejectWithValue, getState, dispatch }) => {
+    try {
+      const response = await sendRegistration({ ...params, saveAsDraft: true }, getState, dispatch);
+      return {
+        registrationId: response.data?.registration?.id || null,
+        savedAt: new Date().toISOString(),
+      };
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to save draft';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+// Find the current user's saved draft for an event, if any
+export const fetchRegistrationDraft = createAsyncThunk(
+  'registrations/fetchDraft',
+  async (eventId: string, { rejectWithValue }) => {
+    try {
+      const response = await registrationAPI.getUserRegistrations({ status: RegistrationStatus.DRAFT, limit: 50 });
+      const draft = response.data?.registrations?.find((registration) => {
+        const registrationEventId = typeof registration.eventId === 'object'
+          ? (registration.eventId as any)?._id
+          : registration.eventId;
+        return registrationEventId === eventId;
+      });
+      return draft || null;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to load saved draft';
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const confirmRegistrationPayment = createAsyncThunk(
   'registrations/confirmPayment',
   async (params: { registrationId: string; paymentIntentId: string }, { rejectWithValue }) => {
@@ -396,18 +503,17 @@ const registrationsSlice = createSlice({
       state.registrationForm.isDraft = action.payload;
     },
 
+    setRegistrationDraftId: (state, action: PayloadAction<string>) => {
+      state.registrationForm.isDraft = true;
+      state.registrationForm.draftId = action.payload;
+    },
+
     setRegistrationConfig: (state, action: PayloadAction<RegistrationConfig>) => {
       state.registrationForm.config = action.payload;
     },
 
     resetRegistrationForm: (state) => {
-      state.registrationForm = {
-        eventId: null,
-        formData: {},
-        files: {},
-        isDraft: false,
-        config: null,
-      };
+      state.registrationForm = { ...initialState.registrationForm };
       state.payment = {
         isProcessing: false,
         paymentIntentId: null,
@@ -453,7 +559,18 @@ const registrationsSlice = createSlice({
 
     removeFormBuilderField: (state, action: PayloadAction<number>) => {
       if (state.formBuilder.config) {
-        state.formBuilder.config.fields.splice(action.payload, 1);
+        const [removed] = state.formBuilder.config.fields.splice(action.payload, 1);
+        // Drop conditions that pointed at the removed field
+        state.formBuilder.config.fields.forEach((field) => {
+          (['visibleWhen', 'requiredWhen'] as const).forEach((rule) => {
+            const group = field[rule];
+            if (!group) return;
+            group.conditions = group.conditions.filter((condition) => condition.fieldId !== removed?.id);
+            if (group.conditions.length === 0) {
+              delete field[rule];
+            }
+          });
+        });
         state.formBuilder.isDirty = true;
       }
     },
@@ -559,8 +676,13 @@ const registrationsSlice = createSlice({
         state.isSubmitting = false;
         state.submitError = null;
 
-        // Set payment info if payment is required
-        if (action.payload.data.payment) {
+        // A manual draft save keeps the form open so the parent can carry on
+        if (action.meta.arg.saveAsDraft) {
+          state.registrationForm.isDraft = true;
+          state.registrationForm.draftId = action.payload.data?.registration?.id || state.registrationForm.draftId;
+          state.registrationForm.lastSavedAt = new Date().toISOString();
+        } else if (action.payload.data.payment) {
+          // Set payment info if payment is required
           state.payment = {
             isProcessing: false,
             paymentIntentId: action.payload.data.payment.paymentIntentId,
@@ -679,6 +801,36 @@ const registrationsSlice = createSlice({
         state.error = action.payload as string;
       })
 
+      // Draft autosave
+      .addCase(saveRegistrationDraft.pending, (state) => {
+        state.registrationForm.isSavingDraft = true;
+        state.registrationForm.draftError = null;
+      })
+      .addCase(saveRegistrationDraft.fulfilled, (state, action) => {
+        state.registrationForm.isSavingDraft = false;
+        state.registrationForm.isDraft = true;
+        state.registrationForm.draftId = action.payload.registrationId || state.registrationForm.draftId;
+        state.registrationForm.lastSavedAt = action.payload.savedAt;
+      })
+      .addCase(saveRegistrationDraft.rejected, (state, action) => {
+        state.registrationForm.isSavingDraft = false;
+        state.registrationForm.draftError = action.payload as string;
+      })
+
+      // Resume a saved draft
+      .addCase(fetchRegistrationDraft.fulfilled, (state, action) => {
+        const draft = action.payload;
+        if (!draft) return;
+        state.registrationForm.isDraft = true;
+        state.registrationForm.draftId = draft._id;
+        state.registrationForm.lastSavedAt = String(draft.metadata?.lastModifiedAt || draft.updatedAt);
+        // Anything typed before the draft loaded wins over the saved answer
+        state.registrationForm.formData = {
+          ...registrationDataToFormValues(draft.registrationData || []),
+          ...state.registrationForm.formData,
+        };
+      })
+
       // Fetch Registration Config
       .addCase(fetchRegistrationConfig.pending, (state) => {
         state.formBuilder.isLoading = true;
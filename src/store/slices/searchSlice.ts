@@ -282,6 +282,18 @@ const searchSlice = createSlice({
       (state.currentFilters as any)[key] = value;
     },
     
+    // Map radius filter; the chosen radius becomes the default for the next area search
+    setSearchArea: (state, action: PayloadAction<{ lat: number; lng: number; radius: number } | null>) => {
+      if (!action.payload) {
+        if (state.currentFilters.location) {
+          delete state.currentFilters.location.coordinates;
+        }
+        return;
+      }
+      state.currentFilters.location = { ...state.currentFilters.location, coordinates: action.payload };
+      state.preferences.searchRadius = action.payload.radius;
+    },
+    
     clearFilters: (state) => {
       state.currentFilters = {
         query: state.currentQuery,
@@ -472,6 +484,7 @@ export const {
   setQuery,
   setFilters,
   updateFilter,
+  setSearchArea,
   clearFilters,
   clearSearch,
   addToHistory,
@@ -492,6 +505,7 @@ export default searchSlice.reducer;
 // Selectors
 export const selectCurrentQuery = (state: { search: SearchState }) => state.search.currentQuery;
 export const selectCurrentFilters = (state: { search: SearchState }) => state.search.currentFilters;
+export const selectSearchArea = (state: { search: SearchState }) => state.search.currentFilters.location?.coordinates;
 export const selectSearchResults = (state: { search: SearchState }) => state.search.results;
 export const selectIsSearching = (state: { search: SearchState }) => state.search.isSearching;
 export const selectHasSearched = (state: { search: SearchState }) => state.search.hasSearched;
@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import settingsAPI from '@services/api/settingsAPI';
 import { RootState } from '../index';
+import { DEFAULT_PRICING_SETTINGS, PricingSettings } from '@utils/pricingUtils';
 
 interface SocialSettings {
   facebookUrl: string;
@@ -12,6 +13,8 @@ interface SocialSettings {
 
 interface SettingsState {
   socialSettings: SocialSettings;
+  pricingSettings: PricingSettings;
+  pricingLastFetched: number | null;
   isLoading: boolean;
   error: string | null;
   lastFetched: number | null;
@@ -25,6 +28,8 @@ const initialState: SettingsState = {
     youtubeUrl: '',
     linkedinUrl: ''
   },
+  pricingSettings: DEFAULT_PRICING_SETTINGS,
+  pricingLastFetched: null,
   isLoading: false,
   error: null,
   lastFetched: null
@@ -44,6 +49,27 @@ export const fetchSocialSettings = createAsyncThunk(
   }
 );
 
+export const fetchPricingSettings = createAsyncThunk(
+  'settings/fetchPricingSettings',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await settingsAPI.getPricingSettings();
+      const data = response.data || {};
+
+      // Admin settings store the fee as bookingFeePercentage
+      return {
+        serviceFeePercentage: Number(data.serviceFeePercentage ?? data.bookingFeePercentage ?? DEFAULT_PRICING_SETTINGS.serviceFeePercentage),
+        taxPercentage: Number(data.taxPercentage ?? DEFAULT_PRICING_SETTINGS.taxPercentage),
+        roundingIncrement: Number(data.roundingIncrement ?? DEFAULT_PRICING_SETTINGS.roundingIncrement),
+        currency: data.currency || DEFAULT_PRICING_SETTINGS.currency,
+      } as PricingSettings;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to fetch pricing settings';
+      return rejectWithValue(message);
+    }
+  }
+);
+
 const settingsSlice = createSlice({
   name: 'settings',
   initialState,
@@ -67,6 +93,15 @@ const settingsSlice = createSlice({
       .addCase(fetchSocialSettings.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
+      })
+
+      // Fetch pricing settings (defaults stay in place on failure)
+      .addCase(fetchPricingSettings.fulfilled, (state, action) => {
+        state.pricingSettings = action.payload;
+        state.pricingLastFetched = Date.now();
+      })
+      .addCase(fetchPricingSettings.rejected, (state) => {
+        state.pricingLastFetched = Date.now();
       });
   }
 });
@@ -76,6 +111,8 @@ export const { clearSettingsError } = settingsSlice.actions;
 
 // Selectors
 export const selectSocialSettings = (state: RootState) => state.settings.socialSettings;
+export const selectPricingSettings = (state: RootState) => state.settings.pricingSettings || DEFAULT_PRICING_SETTINGS;
+export const selectPricingSettingsLastFetched = (state: RootState) => state.settings.pricingLastFetched;
 export const selectSettingsLoading = (state: RootState) => state.settings.isLoading;
 export const selectSettingsError = (state: RootState) => state.settings.error;
 export const selectSettingsLastFetched = (state: RootState) => state.settings.lastFetched;
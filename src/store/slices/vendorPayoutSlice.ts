@@ -6,6 +6,7 @@ import vendorPayoutAPI, {
   PaymentSettings,
   PayoutDashboardData
 } from '../../services/api/vendorPayoutAPI';
+import type { PayoutStatusUpdate } from '../../services/realtimeService';
 import { RootState } from '../index';
 
 interface VendorPayoutState {
@@ -174,6 +175,30 @@ const vendorPayoutSlice = createSlice({
       state.settingsError = null;
     },
     resetPayoutState: () => initialState,
+    // Apply a payout status change pushed by the real-time channel
+    updatePayoutStatus: (state, action: PayloadAction<PayoutStatusUpdate>) => {
+      const { payoutId, status, failureReason, rejectionReason } = action.payload;
+
+      const payout = state.payoutHistory.find(p => p.id === payoutId);
+      if (payout) {
+        payout.status = status;
+        if (failureReason) payout.failureReason = failureReason;
+        if (rejectionReason) payout.rejectionReason = rejectionReason;
+      }
+
+      const request = state.pendingRequests.find((r: any) => r.id === payoutId);
+      if (request) {
+        request.status = status;
+      }
+      if (!['pending', 'approved', 'processing'].includes(status)) {
+        state.pendingRequests = state.pendingRequests.filter((r: any) => r.id !== payoutId);
+      }
+
+      const recent = state.recentPayouts.find((r: any) => r.id === payoutId);
+      if (recent) {
+        recent.status = status;
+      }
+    },
   },
   extraReducers: (builder) => {
     // Fetch Dashboard
@@ -291,7 +316,7 @@ const vendorPayoutSlice = createSlice({
 });
 
 // Actions
-export const { clearError, resetPayoutState } = vendorPayoutSlice.actions;
+export const { clearError, resetPayoutState, updatePayoutStatus } = vendorPayoutSlice.actions;
 
 // Selectors
 export const selectEarnings = (state: RootState) => state.vendorPayout.earnings;
@@ -541,6 +541,16 @@ const vendorSlice = createSlice({
       }
     },
     
+    // Insert or replace a booking pushed by the real-time channel
+    upsertVendorBooking: (state, action: PayloadAction<Booking>) => {
+      const index = state.bookings.findIndex(booking => booking.id === action.payload.id);
+      if (index !== -1) {
+        state.bookings[index] = action.payload;
+      } else {
+        state.bookings.unshift(action.payload);
+      }
+    },
+    
     // Notifications
     addNotification: (state, action: PayloadAction<VendorNotification>) => {
       state.notifications.unshift(action.payload);
@@ -744,6 +754,7 @@ export const {
   setBookingsPagination,
   updateEventInList,
   updateBookingInList,
+  upsertVendorBooking,
   addNotification,
   markNotificationAsReadLocal,
   markAllNotificationsAsReadLocal,
@@ -0,0 +1,129 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { toast } from 'react-hot-toast';
+import waitlistAPI from '../../services/api/waitlistAPI';
+import type { JoinWaitlistData, WaitlistEntry } from '../../types/waitlist';
+
+interface WaitlistState {
+  entries: WaitlistEntry[];
+  hasLoaded: boolean;
+  isLoading: boolean;
+  isJoining: boolean;
+  leavingId: string | null;
+  error: string | null;
+}
+
+const initialState: WaitlistState = {
+  entries: [],
+  hasLoaded: false,
+  isLoading: false,
+  isJoining: false,
+  leavingId: null,
+  error: null,
+};
+
+export const fetchMyWaitlist = createAsyncThunk(
+  'waitlist/fetchMyWaitlist',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await waitlistAPI.getMyWaitlist();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load your waitlist');
+    }
+  }
+);
+
+export const joinWaitlist = createAsyncThunk(
+  'waitlist/joinWaitlist',
+  async (data: JoinWaitlistData, { rejectWithValue }) => {
+    try {
+      const entry = await waitlistAPI.joinWaitlist(data);
+      toast.success(`You're on the waitlist at position ${entry.position}`);
+      return entry;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to join the waitlist';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const leaveWaitlist = createAsyncThunk(
+  'waitlist/leaveWaitlist',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await waitlistAPI.leaveWaitlist(id);
+      toast.success('You have left the waitlist');
+      return id;
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to leave the waitlist';
+      toast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const waitlistSlice = createSlice({
+  name: 'waitlist',
+  initialState,
+  reducers: {
+    clearWaitlistError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchMyWaitlist.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchMyWaitlist.fulfilled, (state, action: PayloadAction<WaitlistEntry[]>) => {
+        state.isLoading = false;
+        state.hasLoaded = true;
+        state.entries = action.payload;
+      })
+      .addCase(fetchMyWaitlist.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(joinWaitlist.pending, (state) => {
+        state.isJoining = true;
+        state.error = null;
+      })
+      .addCase(joinWaitlist.fulfilled, (state, action: PayloadAction<WaitlistEntry>) => {
+        state.isJoining = false;
+        state.entries = [action.payload, ...state.entries.filter(({ _id }) => _id !== action.payload._id)];
+      })
+      .addCase(joinWaitlist.rejected, (state, action) => {
+        state.isJoining = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(leaveWaitlist.pending, (state, action) => {
+        state.leavingId = action.meta.arg;
+        state.error = null;
+      })
+      .addCase(leaveWaitlist.fulfilled, (state, action: PayloadAction<string>) => {
+        state.leavingId = null;
+        state.entries = state.entries.map((entry) =>
+          entry._id === action.payload ? { ...entry, status: 'cancelled', position: 0 } : entry
+        );
+      })
+      .addCase(leaveWaitlist.rejected, (state, action) => {
+        state.leavingId = null;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearWaitlistError } = waitlistSlice.actions;
+
+// Selectors
+export const selectWaitlistEntries = (state: { waitlist: WaitlistState }) => state.waitlist?.entries || [];
+export const selectWaitlistHasLoaded = (state: { waitlist: WaitlistState }) => state.waitlist?.hasLoaded || false;
+export const selectIsWaitlistLoading = (state: { waitlist: WaitlistState }) => state.waitlist?.isLoading || false;
+export const selectIsJoiningWaitlist = (state: { waitlist: WaitlistState }) => state.waitlist?.isJoining || false;
+export const selectLeavingWaitlistId = (state: { waitlist: WaitlistState }) => state.waitlist?.leavingId || null;
+export const selectWaitlistError = (state: { waitlist: WaitlistState }) => state.waitlist?.error || null;
+
+export default waitlistSlice.reducer;
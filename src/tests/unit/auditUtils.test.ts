@@ -0,0 +1,104 @@
+/**
+ * Audit Utilities Tests
+ * Covers before/after diffs, action and value formatting, reason validation and the CSV export rows
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { AuditLogEntry } from '../../types/audit';
+import {
+  AUDIT_CSV_HEADERS,
+  buildAuditCsvRows,
+  formatAuditAction,
+  formatAuditValue,
+  getAuditChanges,
+  validateAuditReason,
+} from '../../utils/auditUtils';
+
+describe('getAuditChanges', () => {
+  it('lists changed fields with nested objects flattened to dot paths', () => {
+    const before = {
+      status: 'active',
+      commissionRate: 10,
+      features: { reviewSystem: true, bookingSystem: true },
+      tags: ['a'],
+      updatedAt: '2026-01-01',
+    };
+    const after = {
+      status: 'suspended',
+      commissionRate: 10,
+      features: { reviewSystem: false, bookingSystem: true },
+      tags: ['a', 'b'],
+      updatedAt: '2026-02-01',
+    };
+
+    expect(getAuditChanges(before, after)).toEqual([
+      { path: 'features.reviewSystem', before: true, after: false },
+      { path: 'status', before: 'active', after: 'suspended' },
+      { path: 'tags', before: ['a'], after: ['a', 'b'] },
+    ]);
+  });
+
+  it('treats a missing snapshot as every field added or removed', () => {
+    expect(getAuditChanges(null, { name: 'Summer rate' })).toEqual([
+      { path: 'name', before: undefined, after: 'Summer rate' },
+    ]);
+    expect(getAuditChanges({ name: 'Summer rate' }, undefined)).toEqual([
+      { path: 'name', before: 'Summer rate', after: undefined },
+    ]);
+  });
+});
+
+describe('formatting', () => {
+  it('turns action keys into sentences', () => {
+    expect(formatAuditAction('user.status_changed')).toBe('User status changed');
+    expect(formatAuditAction('payout.approved')).toBe('Payout approved');
+  });
+
+  it('formats values for display', () => {
+    expect(formatAuditValue(undefined)).toBe('—');
+    expect(formatAuditValue(true)).toBe('Yes');
+    expect(formatAuditValue(12.5)).toBe('12.5');
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}');
+  });
+});
+
+describe('validateAuditReason', () => {
+  it('requires a reason of a few words', () => {
+    expect(validateAuditReason('  ')).toMatch(/give a reason/);
+    expect(validateAuditReason('ok')).toMatch(/few more words/);
+    expect(validateAuditReason('Vendor asked to pause sales')).toBeNull();
+  });
+});
+
+describe('buildAuditCsvRows', () => {
+  it('writes one row per entry with its changes and reason', () => {
+    const entry: AuditLogEntry = {
+      _id: 'a1',
+      action: 'commission.updated',
+      actor: { _id: 'admin-1', name: 'Mona Admin', email: 'mona@example.com' },
+      entityType: 'commission',
+      entityId: 'c1',
+      entityLabel: 'Default rate',
+      before: { rate: 10 },
+      after: { rate: 12 },
+      reason: 'Annual review',
+      createdAt: '2026-03-01T10:00:00.000Z',
+    };
+
+    expect(buildAuditCsvRows([entry])).toEqual([
+      AUDIT_CSV_HEADERS,
+      [
+        '2026-03-01T10:00:00.000Z',
+        'Mona Admin',
+        'mona@example.com',
+        'commission.updated',
+        'commission',
+        'c1',
+        'Default rate',
+        'rate: 10 -> 12',
+        'Annual review',
+        '',
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Booking Import Utilities Tests
+ * Covers CSV and XLSX worksheet parsing, column mapping, locale-aware number and date parsing,
+ * the dry-run validation report and the rejected-rows download
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyServerFailures,
+  autoMapColumns,
+  buildRejectedRows,
+  getDefaultParseOptions,
+  getSavedMapping,
+  getUnmappedRequiredFields,
+  getValidRecords,
+  parseImportDate,
+  parseImportNumber,
+  validateImportRows,
+} from '../../utils/bookingImportUtils';
+import { parseCsv, parseSharedStringsXml, parseWorksheetXml, toCsv } from '../../utils/spreadsheetUtils';
+
+const headers = ['Name', 'Email', 'Event', 'Date', 'Qty', 'Amount', 'Children'];
+const mapping = autoMapColumns(headers);
+const options = { dateOrder: 'DMY' as const, decimalSeparator: '.' as const };
+const events = [
+  {
+    _id: 'event-1',
+    title: 'Junior Coding Camp',
+    dateSchedule: [{ _id: 'schedule-1', date: '2025-01-15T00:00:00.000Z' }],
+  },
+];
+
+const row = (overrides: Partial<Record<string, string>> = {}) => {
+  const values: Record<string, string> = {
+    Name: 'Sara Ali',
+    Email: 'sara@example.com',
+    Event: 'Junior Coding Camp',
+    Date: '15/01/2025',
+    Qty: '2',
+    Amount: '500',
+    Children: 'Omar; Lina',
+    ...overrides,
+  };
+  return headers.map((header) => values[header]);
+};
+
+describe('spreadsheet parsing', () => {
+  it('parses quoted CSV cells with delimiters, quotes and line breaks', () => {
+    const text = '\uFEFFName,Notes\r\n"Doe, Jane","Said ""hi""\nthen left"\r\n\r\nSam,\n';
+    expect(parseCsv(text)).toEqual([
+      ['Name', 'Notes'],
+      ['Doe, Jane', 'Said "hi"\nthen left'],
+      ['Sam', ''],
+    ]);
+  });
+
+  it('detects semicolon-separated files from locales with a decimal comma', () => {
+    expect(parseCsv('Name;Amount\nSara;1.234,50')).toEqual([
+      ['Name', 'Amount'],
+      ['Sara', '1.234,50'],
+    ]);
+  });
+
+  it('round-trips rows through CSV', () => {
+    const rows = [['a,b', 'say "x"', 'plain']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('reads worksheet XML with shared strings, inline strings and gaps', () => {
+    const sharedStrings = parseSharedStringsXml(
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<si><t>Name</t></si><si><r><t>Sara </t></r><r><t>Ali</t></r></si></sst>'
+    );
+    const sheet =
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Date</t></is></c></row>' +
+      '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2"><v>45672</v></c></row>' +
+      '</sheetData></worksheet>';
+
+    expect(parseWorksheetXml(sheet, sharedStrings)).toEqual([
+      ['Name', '', 'Date'],
+      ['Sara Ali', '', '45672'],
+    ]);
+  });
+});
+
+describe('column mapping', () => {
+  it('maps headers by field name and aliases', () => {
+    expect(mapping).toEqual({
+      customerName: 'Name',
+      customerEmail: 'Email',
+      eventTitle: 'Event',
+      eventDate: 'Date',
+      quantity: 'Qty',
+      totalAmount: 'Amount',
+      participantNames: 'Children',
+    });
+    expect(getUnmappedRequiredFields(mapping)).toEqual([]);
+  });
+
+  it('prefers a saved mapping for the same header layout', () => {
+    const saved = { ...mapping, customerName: 'Email', customerEmail: 'Name' };
+    const savedMappings = { 'amount|children|date|email|event|name|qty': saved };
+
+    expect(getSavedMapping(['name', 'EMAIL', 'Event', 'Date', 'Qty', 'Amount', 'Children', 'Errors'], savedMappings)).toBe(saved);
+    expect(autoMapColumns(headers, saved).customerName).toBe('Email');
+  });
+});
+
+describe('locale-aware parsing', () => {
+  it('picks the date order and decimal separator from the locale', () => {
+    expect(getDefaultParseOptions('en-US')).toEqual({ dateOrder: 'MDY', decimalSeparator: '.' });
+    expect(getDefaultParseOptions('de-DE')).toEqual({ dateOrder: 'DMY', decimalSeparator: ',' });
+  });
+
+  it('parses numbers with group separators, currency and Arabic digits', () => {
+    expect(parseImportNumber('1,234.50', '.')).toBe(1234.5);
+    expect(parseImportNumber('1.234,50', ',')).toBe(1234.5);
+    expect(parseImportNumber('AED 500', '.')).toBe(500);
+    expect(parseImportNumber('٥٠٠', '.')).toBe(500);
+    expect(parseImportNumber('n/a', '.')).toBeNull();
+    expect(parseImportNumber('1.2.3', '.')).toBeNull();
+  });
+
+  it('parses dates in the given order, ISO, Excel serials and month names', () => {
+    expect(parseImportDate('03/04/2025', 'DMY')).toBe('2025-04-03');
+    expect(parseImportDate('03/04/2025', 'MDY')).toBe('2025-03-04');
+    expect(parseImportDate('15.01.25', 'DMY')).toBe('2025-01-15');
+    expect(parseImportDate('2025-01-15T09:00:00Z', 'MDY')).toBe('2025-01-15');
+    expect(parseImportDate('45672', 'DMY')).toBe('2025-01-15');
+    expect(parseImportDate('Jan 15, 2025', 'DMY')).toBe('2025-01-15');
+    expect(parseImportDate('15 January 2025', 'MDY')).toBe('2025-01-15');
+    expect(parseImportDate('31/02/2025', 'DMY')).toBeNull();
+  });
+});
+
+describe('validateImportRows', () => {
+  it('turns valid rows into import records linked to the event and schedule', () => {
+    const report = validateImportRows(headers, [row()], mapping, events, options);
+
+    expect(report.validCount).toBe(1);
+    expect(report.rows[0].record).toEqual({
+      rowNumber: 2,
+      customerName: 'Sara Ali',
+      customerEmail: 'sara@example.com',
+      customerPhone: undefined,
+      eventTitle: 'Junior Coding Camp',
+      eventId: 'event-1',
+      scheduleId: 'schedule-1',
+      eventDate: '2025-01-15',
+      quantity: 2,
+      totalAmount: 500,
+      currency: undefined,
+      status: undefined,
+      paymentStatus: undefined,
+      participantNames: 'Omar; Lina',
+    });
+  });
+
+  it('reports unknown events, missing schedules, bad values and duplicate participants', () => {
+    const report = validateImportRows(
+      headers,
+      [
+        row(),
+        row({ Event: 'Pottery Club' }),
+        row({ Date: '16/01/2025' }),
+        row({ Email: 'not-an-email', Qty: '0', Date: 'soon' }),
+        row({ Children: 'Lina; Yusuf; yusuf' }),
+      ],
+      mapping,
+      events,
+      options
+    );
+
+    expect(report.validCount).toBe(1);
+    expect(report.rejectedCount).toBe(4);
+    expect(report.rows[1].issues.map((issue) => issue.code)).toEqual(['unknown_event']);
+    expect(report.rows[2].issues.map((issue) => issue.code)).toEqual(['missing_schedule']);
+    expect(report.rows[3].issues.map((issue) => issue.code)).toEqual(['invalid_email', 'invalid_number', 'invalid_date']);
+    expect(report.rows[4].issues.map((issue) => issue.message)).toEqual([
+      'Lina is already booked on row 2 for the same event and date',
+      'yusuf is listed twice',
+    ]);
+  });
+
+  it('skips event checks when events could not be loaded', () => {
+    const report = validateImportRows(headers, [row({ Event: 'Pottery Club' })], mapping, null, options);
+    expect(report.validCount).toBe(1);
+  });
+
+  it('adds server rejections and downloads rejected rows with their errors', () => {
+    const report = validateImportRows(headers, [row(), row({ Event: 'Pottery Club', Children: '' })], mapping, events, options);
+    const sent = getValidRecords(report);
+    const merged = applyServerFailures(report, sent, [{ row: 1, reason: 'Customer already has this booking' }]);
+
+    expect(merged.validCount).toBe(0);
+    expect(buildRejectedRows([...headers, 'Errors'], merged)).toEqual([
+      [...headers, 'Errors'],
+      [...row(), 'Customer already has this booking'],
+      [...row({ Event: 'Pottery Club', Children: '' }), 'No event called "Pottery Club"'],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Offline Check-In Tests
+ * Covers verifying scans against a downloaded manifest and applying server sync results to the queue
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyCheckInSyncResults,
+  extractTicketReference,
+  verifyTicketOffline,
+} from '../../utils/checkInUtils';
+import type { CheckInManifest, ManifestTicket, QueuedCheckIn } from '../../types/checkIn';
+
+const NOW = new Date('2025-08-15T10:00:00Z');
+
+const buildTicket = (overrides: Partial<ManifestTicket> = {}): ManifestTicket => ({
+  id: 'ticket-1',
+  ticketNumber: 'TKT-001',
+  qrCode: JSON.stringify({ type: 'ticket', ticketNumber: 'TKT-001', eventId: 'event-1' }),
+  attendeeName: 'Sam Lee',
+  attendeeEmail: 'sam@example.com',
+  ticketType: 'General',
+  price: 50,
+  currency: 'AED',
+  status: 'active',
+  validFrom: '2025-08-15T08:00:00Z',
+  validUntil: '2025-08-15T18:00:00Z',
+  scanCount: 0,
+  ...overrides,
+});
+
+const buildManifest = (tickets: ManifestTicket[]): CheckInManifest => ({
+  eventId: 'event-1',
+  eventTitle: 'Summer Art Camp',
+  eventDate: '2025-08-15',
+  eventLocation: 'Creative Arts Center',
+  generatedAt: '2025-08-15T07:00:00Z',
+  downloadedAt: '2025-08-15T07:05:00Z',
+  tickets,
+});
+
+const buildQueued = (overrides: Partial<QueuedCheckIn> = {}): QueuedCheckIn => ({
+  id: 'client-1',
+  eventId: 'event-1',
+  ticketId: 'ticket-1',
+  ticketNumber: 'TKT-001',
+  attendeeName: 'Sam Lee',
+  deviceId: 'device-a',
+  scannedAt: '2025-08-15T09:00:00Z',
+  status: 'pending',
+  syncUrl: 'https://api.example.com/api/tickets/checkins/sync',
+  attempts: 0,
+  ...overrides,
+});
+
+describe('extractTicketReference', () => {
+  it('reads JSON payloads and plain ticket numbers', () => {
+    expect(extractTicketReference('{"ticketNumber":"TKT-9"}')).toEqual({ ticketNumber: 'TKT-9', ticketId: undefined });
+    expect(extractTicketReference(' TKT-9 ')).toEqual({ ticketNumber: 'TKT-9' });
+  });
+});
+
+describe('verifyTicketOffline', () => {
+  it('verifies a valid ticket by its QR payload or ticket number', () => {
+    const ticket = buildTicket();
+    const manifest = buildManifest([ticket]);
+
+    expect(verifyTicketOffline(manifest, ticket.qrCode, NOW)).toMatchObject({ status: 'verified', offline: true });
+    expect(verifyTicketOffline(manifest, 'TKT-001', NOW).data?.ticket.eventTitle).toBe('Summer Art Camp');
+  });
+
+  it('flags unknown, used, early and expired tickets', () => {
+    const manifest = buildManifest([
+      buildTicket(),
+      buildTicket({ id: 'ticket-2', ticketNumber: 'TKT-002', qrCode: '', checkedInAt: '2025-08-15T09:30:00Z' }),
+      buildTicket({ id: 'ticket-3', ticketNumber: 'TKT-003', qrCode: '', validFrom: '2025-08-16T08:00:00Z' }),
+      buildTicket({ id: 'ticket-4', ticketNumber: 'TKT-004', qrCode: '', validUntil: '2025-08-14T18:00:00Z' }),
+    ]);
+
+    expect(verifyTicketOffline(manifest, 'TKT-404', NOW).status).toBe('invalid');
+    expect(verifyTicketOffline(manifest, 'TKT-002', NOW).status).toBe('already_used');
+    expect(verifyTicketOffline(manifest, 'TKT-003', NOW).status).toBe('not_yet_valid');
+    expect(verifyTicketOffline(manifest, 'TKT-004', NOW).status).toBe('expired');
+  });
+
+  it('rejects the original QR of a transferred ticket', () => {
+    const manifest = buildManifest([buildTicket({ status: 'transferred' })]);
+
+    expect(verifyTicketOffline(manifest, 'TKT-001', NOW)).toMatchObject({
+      success: false,
+      status: 'invalid',
+      message: 'This ticket was transferred; the new holder has a new QR code',
+    });
+  });
+});
+
+describe('applyCheckInSyncResults', () => {
+  it('drops accepted check-ins and keeps conflicts for review', () => {
+    const queue = [
+      buildQueued(),
+      buildQueued({ id: 'client-2', ticketId: 'ticket-2' }),
+      buildQueued({ id: 'client-3', ticketId: 'ticket-3' }),
+      buildQueued({ id: 'client-4', ticketId: 'ticket-4' }),
+    ];
+
+    const { remaining, syncedIds } = applyCheckInSyncResults(queue, [
+      { clientId: 'client-1', status: 'accepted' },
+      { clientId: 'client-2', status: 'duplicate' },
+      {
+        clientId: 'client-3',
+        status: 'conflict',
+        message: 'Scanned on another device',
+        existingCheckIn: { checkedInAt: '2025-08-15T08:59:00Z', deviceId: 'device-b' },
+      },
+    ]);
+
+    expect(syncedIds).toEqual(['client-1', 'client-2']);
+    expect(remaining).toHaveLength(2);
+    expect(remaining[0]).toMatchObject({ id: 'client-3', status: 'conflict', conflict: { deviceId: 'device-b' } });
+    expect(remaining[1]).toMatchObject({ id: 'client-4', status: 'pending', attempts: 1 });
+  });
+});
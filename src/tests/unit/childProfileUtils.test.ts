@@ -0,0 +1,110 @@
+/**
+ * Child Profile Utilities Tests
+ * Covers ages on the event date, age range checks, the date ages are checked on,
+ * and filling participant and registration fields from a saved child
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  checkAgeRange,
+  childToParticipant,
+  getAgeOnDate,
+  getChildEligibility,
+  getEventAgeDate,
+  mapChildToRegistrationFields,
+} from '../../utils/childProfileUtils';
+import type { ChildProfile } from '../../types/family';
+
+const mia: ChildProfile = {
+  _id: 'child-1',
+  name: 'Mia Haddad',
+  dateOfBirth: '2019-07-15',
+  gender: 'female',
+  allergies: ['Peanuts', 'Shellfish'],
+  medicalConditions: ['Asthma'],
+  emergencyContact: { name: 'Rana Haddad', relationship: 'parent', phone: '+971501234567' },
+  specialRequirements: 'Carries an inhaler',
+};
+
+describe('Child Profile Utilities', () => {
+  describe('getAgeOnDate', () => {
+    it('should only count a year once the birthday has passed', () => {
+      expect(getAgeOnDate('2019-07-15', new Date(2026, 6, 14))).toBe(6);
+      expect(getAgeOnDate('2019-07-15', new Date(2026, 6, 15))).toBe(7);
+      expect(getAgeOnDate('2019-07-15', new Date(2026, 11, 1))).toBe(7);
+    });
+  });
+
+  describe('age range', () => {
+    it('should check ages against the event range', () => {
+      expect(checkAgeRange(7, [5, 10])).toBeNull();
+      expect(checkAgeRange(4, [5, 10])).toBe('Age must be between 5 and 10 years');
+      expect(checkAgeRange(40)).toBeNull();
+    });
+
+    it('should judge a child on the event date rather than today', () => {
+      expect(getChildEligibility(mia, [7, 12], new Date(2026, 6, 1))).toEqual({
+        age: 6,
+        error: 'Age must be between 7 and 12 years',
+      });
+      expect(getChildEligibility(mia, [7, 12], new Date(2026, 7, 1)).error).toBeNull();
+    });
+  });
+
+  describe('getEventAgeDate', () => {
+    const now = new Date(2026, 5, 1);
+    const schedules = [
+      { _id: 'past', startDate: '2026-05-01T09:00:00' },
+      { _id: 'later', startDate: '2026-09-01T09:00:00' },
+      { _id: 'next', startDate: '2026-07-01T09:00:00' },
+    ];
+
+    it('should use the chosen schedule, else the next one to start', () => {
+      expect(getEventAgeDate(schedules, 'later', now)).toEqual(new Date('2026-09-01T09:00:00'));
+      expect(getEventAgeDate(schedules, null, now)).toEqual(new Date('2026-07-01T09:00:00'));
+    });
+
+    it('should fall back to today without upcoming schedules', () => {
+      expect(getEventAgeDate([], undefined, now)).toBe(now);
+    });
+  });
+
+  describe('childToParticipant', () => {
+    it('should carry the age on the event date and fold health notes into requirements', () => {
+      expect(childToParticipant(mia, new Date(2026, 7, 1))).toEqual({
+        childProfileId: 'child-1',
+        name: 'Mia Haddad',
+        age: 7,
+        gender: 'female',
+        emergencyContact: mia.emergencyContact,
+        specialRequirements: 'Carries an inhaler\nAllergies: Peanuts, Shellfish\nMedical conditions: Asthma',
+      });
+    });
+  });
+
+  describe('mapChildToRegistrationFields', () => {
+    it('should answer fields whose labels match child details', () => {
+      const fields = [
+        { id: 'f1', label: "Child's full name", type: 'text' as const },
+        { id: 'f2', label: 'Date of birth', type: 'date' as const },
+        { id: 'f3', label: 'Age', type: 'number' as const },
+        { id: 'f4', label: 'Gender', type: 'radio' as const, options: ['Male', 'Female'] },
+        { id: 'f5', label: 'Known allergies', type: 'textarea' as const },
+        { id: 'f6', label: 'Emergency contact phone', type: 'tel' as const },
+        { id: 'f7', label: 'Emergency contact name', type: 'text' as const },
+        { id: 'f8', label: 'Parent name', type: 'text' as const },
+        { id: 'f9', label: 'T-shirt size', type: 'dropdown' as const, options: ['S', 'M'] },
+      ];
+
+      expect(mapChildToRegistrationFields(mia, fields, new Date(2026, 7, 1))).toEqual({
+        f1: 'Mia Haddad',
+        f2: '2019-07-15',
+        f3: 7,
+        f4: 'Female',
+        f5: 'Peanuts, Shellfish',
+        f6: '+971501234567',
+        f7: 'Rana Haddad',
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Coupon Rule Evaluator Tests
+ * Covers the order-level and per-line rules used to preview a coupon before server validation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluateCoupon,
+  evaluateCouponLine,
+  findCouponByCode,
+  getCouponPricingDiscount,
+  CouponCartLine,
+  CouponRuleFields
+} from '../../utils/couponUtils';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const buildCoupon = (overrides: Partial<CouponRuleFields> = {}): CouponRuleFields => ({
+  code: 'SUMMER20',
+  type: 'percentage',
+  value: 20,
+  currency: 'AED',
+  validFrom: '2025-06-01T00:00:00Z',
+  validUntil: '2025-06-30T23:59:59Z',
+  usageCount: 0,
+  isActive: true,
+  status: 'active',
+  applicableEvents: [],
+  applicableCategories: [],
+  excludedEvents: [],
+  excludedCategories: [],
+  applicableVendors: [],
+  excludedVendors: [],
+  applicableEventTypes: [],
+  firstTimeOnly: false,
+  ...overrides,
+});
+
+const buildLine = (overrides: Partial<CouponCartLine> = {}): CouponCartLine => ({
+  id: 'line-1',
+  eventId: 'event-1',
+  title: 'Art Camp',
+  category: 'Arts',
+  eventType: 'Camp',
+  vendorId: 'vendor-1',
+  unitPrice: 100,
+  quantity: 1,
+  ...overrides,
+});
+
+describe('Coupon Rule Evaluator', () => {
+  describe('line rules', () => {
+    it('should accept a line when the coupon has no restrictions', () => {
+      expect(evaluateCouponLine(buildCoupon(), buildLine())).toEqual([]);
+    });
+
+    it('should explain excluded categories', () => {
+      const issues = evaluateCouponLine(buildCoupon({ excludedCategories: ['arts'] }), buildLine());
+
+      expect(issues.map(issue => issue.reason)).toEqual(['excluded_category']);
+      expect(issues[0].message).toContain('Arts');
+    });
+
+    it('should reject lines outside the applicable events, vendors and event types', () => {
+      const issues = evaluateCouponLine(buildCoupon({
+        applicableEvents: ['event-2'],
+        applicableVendors: ['vendor-2'],
+        applicableEventTypes: ['Workshop'],
+      }), buildLine());
+
+      expect(issues.map(issue => issue.reason)).toEqual([
+        'event_not_applicable',
+        'vendor_not_applicable',
+        'event_type_not_applicable',
+      ]);
+    });
+
+    it('should check the ticket price against the price range', () => {
+      const coupon = buildCoupon({ priceRange: { min: 50, max: 150 } });
+
+      expect(evaluateCouponLine(coupon, buildLine({ unitPrice: 40 }))[0].reason).toBe('below_price_range');
+      expect(evaluateCouponLine(coupon, buildLine({ unitPrice: 200 }))[0].reason).toBe('above_price_range');
+      expect(evaluateCouponLine(coupon, buildLine({ unitPrice: 100 }))).toEqual([]);
+    });
+  });
+
+  describe('order rules', () => {
+    it('should report inactive, expired and exhausted coupons', () => {
+      const result = evaluateCoupon(buildCoupon({
+        isActive: false,
+        validUntil: '2025-06-10T00:00:00Z',
+        usageLimit: 10,
+        usageCount: 10,
+      }), [buildLine()], {}, NOW);
+
+      expect(result.isValid).toBe(false);
+      expect(result.orderIssues.map(issue => issue.reason)).toEqual(['inactive', 'expired', 'usage_limit_reached']);
+      expect(result.discountAmount).toBe(0);
+    });
+
+    it('should apply per-customer limits and first-time-only rules', () => {
+      const result = evaluateCoupon(
+        buildCoupon({ userUsageLimit: 1, firstTimeOnly: true }),
+        [buildLine()],
+        { previousUses: 1, hasPreviousOrders: true },
+        NOW
+      );
+
+      expect(result.orderIssues.map(issue => issue.reason)).toEqual(['user_usage_limit_reached', 'first_time_only']);
+    });
+
+    it('should check the minimum amount against eligible items only', () => {
+      const result = evaluateCoupon(buildCoupon({ minimumAmount: 150, excludedCategories: ['Sports'] }), [
+        buildLine(),
+        buildLine({ id: 'line-2', eventId: 'event-2', category: 'Sports', unitPrice: 200 }),
+      ], {}, NOW);
+
+      expect(result.eligibleSubtotal).toBe(100);
+      expect(result.orderIssues.map(issue => issue.reason)).toEqual(['below_minimum']);
+    });
+
+    it('should report when no line qualifies', () => {
+      const result = evaluateCoupon(buildCoupon({ excludedEvents: ['event-1'] }), [buildLine()], {}, NOW);
+
+      expect(result.orderIssues.map(issue => issue.reason)).toEqual(['no_eligible_items']);
+      expect(result.lines[0].eligible).toBe(false);
+    });
+  });
+
+  describe('discount', () => {
+    it('should discount eligible lines only and spread it proportionally', () => {
+      const result = evaluateCoupon(buildCoupon({ excludedCategories: ['Sports'] }), [
+        buildLine({ unitPrice: 100, quantity: 1 }),
+        buildLine({ id: 'line-2', eventId: 'event-2', unitPrice: 50, quantity: 2 }),
+        buildLine({ id: 'line-3', eventId: 'event-3', category: 'Sports', unitPrice: 300 }),
+      ], {}, NOW);
+
+      expect(result.isValid).toBe(true);
+      expect(result.eligibleSubtotal).toBe(200);
+      expect(result.discountAmount).toBe(40);
+      expect(result.lines.map(line => line.discount)).toEqual([20, 20, 0]);
+    });
+
+    it('should cap the discount at maximumDiscount', () => {
+      const result = evaluateCoupon(buildCoupon({ maximumDiscount: 15 }), [buildLine()], {}, NOW);
+
+      expect(result.discountAmount).toBe(15);
+      expect(result.isCapped).toBe(true);
+    });
+
+    it('should treat fixed_amount coupons as fixed discounts', () => {
+      const result = evaluateCoupon(buildCoupon({ type: 'fixed_amount', value: 30 }), [buildLine()], {}, NOW);
+
+      expect(result.discountAmount).toBe(30);
+      expect(getCouponPricingDiscount({ code: 'X', type: 'fixed_amount', value: 30 })).toEqual({
+        type: 'fixed',
+        value: 30,
+        maxDiscount: undefined,
+        code: 'X',
+      });
+      expect(getCouponPricingDiscount({ code: 'SHIP', type: 'free_shipping', value: 0 })).toBeNull();
+    });
+  });
+
+  describe('findCouponByCode', () => {
+    it('should match codes case-insensitively', () => {
+      const coupons = [buildCoupon()];
+
+      expect(findCouponByCode(coupons, ' summer20 ')).toBe(coupons[0]);
+      expect(findCouponByCode(coupons, 'WINTER')).toBeNull();
+      expect(findCouponByCode(coupons, '')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Currency Registry Tests
+ * Covers the supported currency registry and rate-based conversion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  convertCurrency,
+  getSupportedCurrencies,
+  isValidCurrency,
+  normalizeCurrencyCode,
+  SUPPORTED_CURRENCY_CODES
+} from '../../utils/currencyUtils';
+
+describe('Currency Registry', () => {
+  it('should expose every supported currency once', () => {
+    const codes = getSupportedCurrencies().map(currency => currency.code);
+
+    expect(codes).toEqual([...SUPPORTED_CURRENCY_CODES]);
+    expect(codes).toEqual(expect.arrayContaining(['AED', 'USD', 'EUR', 'GBP', 'INR', 'EGP', 'CAD']));
+  });
+
+  it('should normalise codes and fall back to the default currency', () => {
+    expect(normalizeCurrencyCode(' usd ')).toBe('USD');
+    expect(normalizeCurrencyCode('XYZ')).toBe('AED');
+    expect(normalizeCurrencyCode(undefined)).toBe('AED');
+    expect(isValidCurrency('EGP')).toBe(true);
+    expect(isValidCurrency('JPY')).toBe(false);
+  });
+
+  describe('convertCurrency', () => {
+    const rates = { AED: 1, USD: 0.25, EUR: 0.2 };
+
+    it('should convert through the base currency', () => {
+      expect(convertCurrency(100, 'AED', 'USD', rates)).toBe(25);
+      expect(convertCurrency(25, 'USD', 'AED', rates)).toBe(100);
+      expect(convertCurrency(10, 'USD', 'EUR', rates)).toBe(8);
+    });
+
+    it('should return the amount unchanged for the same currency', () => {
+      expect(convertCurrency(12.34, 'GBP', 'GBP', rates)).toBe(12.34);
+    });
+
+    it('should return null when a rate is missing', () => {
+      expect(convertCurrency(100, 'AED', 'GBP', rates)).toBeNull();
+    });
+  });
+});
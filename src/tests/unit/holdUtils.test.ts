@@ -0,0 +1,96 @@
+/**
+ * Seat Hold Utilities Tests
+ * Covers hold expiry, countdown formatting, when a cart item's hold needs creating or resizing,
+ * and the cart-wide hold summary
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatCountdown,
+  getCartHoldSummary,
+  getHoldChange,
+  getHoldSecondsLeft,
+  isHoldActive,
+} from '../../utils/holdUtils';
+
+const now = new Date('2026-06-01T10:00:00Z').getTime();
+const inMinutes = (minutes: number) => new Date(now + minutes * 60 * 1000).toISOString();
+
+const hold = (quantity: number, minutes: number) => ({ id: `hold-${minutes}`, quantity, expiresAt: inMinutes(minutes) });
+
+describe('Seat Hold Utilities', () => {
+  describe('expiry', () => {
+    it('should treat holds past their expiry as inactive', () => {
+      expect(isHoldActive(hold(2, 5), now)).toBe(true);
+      expect(isHoldActive(hold(2, -1), now)).toBe(false);
+      expect(isHoldActive(undefined, now)).toBe(false);
+    });
+
+    it('should count whole seconds down to zero', () => {
+      expect(getHoldSecondsLeft(inMinutes(1.5), now)).toBe(90);
+      expect(getHoldSecondsLeft(inMinutes(-2), now)).toBe(0);
+    });
+  });
+
+  describe('formatCountdown', () => {
+    it('should show minutes and padded seconds', () => {
+      expect(formatCountdown(545)).toBe('9:05');
+      expect(formatCountdown(59)).toBe('0:59');
+      expect(formatCountdown(4500)).toBe('75:00');
+      expect(formatCountdown(-3)).toBe('0:00');
+    });
+  });
+
+  describe('getHoldChange', () => {
+    it('should create a hold for scheduled items without a live one', () => {
+      expect(getHoldChange({ quantity: 2, dateScheduleId: 's1' }, now)).toBe('create');
+      expect(getHoldChange({ quantity: 2, dateScheduleId: 's1', hold: hold(2, -1) }, now)).toBe('create');
+    });
+
+    it('should resize a live hold when the quantity changed', () => {
+      expect(getHoldChange({ quantity: 3, dateScheduleId: 's1', hold: hold(2, 5) }, now)).toBe('update');
+      expect(getHoldChange({ quantity: 2, dateScheduleId: 's1', hold: hold(2, 5) }, now)).toBe('none');
+    });
+
+    it('should never hold items without a date schedule', () => {
+      expect(getHoldChange({ quantity: 2 }, now)).toBe('none');
+    });
+  });
+
+  describe('getCartHoldSummary', () => {
+    it('should report the first hold to expire once every item is held', () => {
+      expect(
+        getCartHoldSummary(
+          [
+            { quantity: 2, dateScheduleId: 's1', hold: hold(2, 8) },
+            { quantity: 1, dateScheduleId: 's2', hold: hold(1, 3) },
+            { quantity: 4 },
+          ],
+          now
+        )
+      ).toEqual({ needsHolds: true, allHeld: true, expiresAt: inMinutes(3), isPending: false });
+    });
+
+    it('should flag carts with lapsed or undersized holds', () => {
+      const summary = getCartHoldSummary(
+        [
+          { quantity: 2, dateScheduleId: 's1', hold: hold(2, -1) },
+          { quantity: 3, dateScheduleId: 's2', hold: hold(2, 6) },
+        ],
+        now
+      );
+
+      expect(summary).toEqual({ needsHolds: true, allHeld: false, expiresAt: inMinutes(6), isPending: false });
+    });
+
+    it('should not need holds for carts without scheduled items', () => {
+      expect(getCartHoldSummary([{ quantity: 1 }], now)).toEqual({ needsHolds: false, allHeld: true, expiresAt: null, isPending: false });
+    });
+
+    it('should report a first hold that is still being requested as pending', () => {
+      const summary = getCartHoldSummary([{ quantity: 2, dateScheduleId: 's1', holdPending: true }], now);
+
+      expect(summary).toEqual({ needsHolds: true, allHeld: false, expiresAt: null, isPending: true });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Calendar Export Utilities Tests
+ * Covers iCal text escaping and line folding, Asia/Dubai wall-clock times, venue locations,
+ * mapping bookings to calendar entries, and the generated VCALENDAR
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildBookingCalendarEvent,
+  buildFixedOffsetTimezone,
+  buildICalendar,
+  escapeICalText,
+  foldICalLine,
+  formatEventLocation,
+  formatICalDateTime,
+  getCalendarFileName,
+  getTimezoneOffsetMinutes,
+  toWebcalUrl,
+} from '../../utils/icalUtils';
+
+const now = new Date('2026-06-01T08:00:00Z');
+const timezone = 'Asia/Dubai';
+const octets = (text: string) => encodeURIComponent(text).replace(/%[0-9A-F]{2}/g, '_').length;
+
+describe('Calendar Export Utilities', () => {
+  describe('text', () => {
+    it('should escape commas, semicolons, backslashes and newlines', () => {
+      expect(escapeICalText('Art, craft; paint\\draw\nBring a smock')).toBe(
+        'Art\\, craft\\; paint\\\\draw\\nBring a smock'
+      );
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const line = `SUMMARY:${'a'.repeat(100)}`;
+      const folded = foldICalLine(line).split('\r\n');
+
+      expect(folded[0]).toHaveLength(75);
+      expect(folded[1].startsWith(' ')).toBe(true);
+      expect(folded.map((part, index) => (index ? part.slice(1) : part)).join('')).toBe(line);
+    });
+
+    it('should not split multi-byte characters when folding', () => {
+      const folded = foldICalLine(`SUMMARY:${'ورشة '.repeat(20)}`).split('\r\n');
+      folded.forEach(part => expect(octets(part)).toBeLessThanOrEqual(75));
+    });
+  });
+
+  describe('dates', () => {
+    it('should format UTC times with a Z suffix', () => {
+      expect(formatICalDateTime('2026-06-15T05:30:00Z')).toBe('20260615T053000Z');
+    });
+
+    it('should format Asia/Dubai wall-clock times four hours ahead of UTC', () => {
+      expect(formatICalDateTime('2026-06-15T05:30:00Z', 'Asia/Dubai')).toBe('20260615T093000');
+      expect(formatICalDateTime('2026-06-15T22:00:00Z', 'Asia/Dubai')).toBe('20260616T020000');
+    });
+
+    it('should work out timezone offsets', () => {
+      expect(getTimezoneOffsetMinutes('Asia/Dubai', now)).toBe(240);
+      expect(getTimezoneOffsetMinutes('Asia/Kolkata', now)).toBe(330);
+      expect(getTimezoneOffsetMinutes('UTC', now)).toBe(0);
+    });
+
+    it('should only describe timezones without daylight saving', () => {
+      expect(buildFixedOffsetTimezone('Asia/Dubai', 2026)).toContain('TZOFFSETTO:+0400');
+      expect(buildFixedOffsetTimezone('Europe/London', 2026)).toBeNull();
+    });
+  });
+
+  describe('locations', () => {
+    it('should join the address parts and skip blanks and repeats', () => {
+      expect(formatEventLocation({ address: 'Kids Hub, Al Barsha', city: 'Dubai', country: 'Dubai' })).toBe(
+        'Kids Hub, Al Barsha, Dubai'
+      );
+      expect(formatEventLocation({ address: ' ', city: 'Sharjah' })).toBe('Sharjah');
+      expect(formatEventLocation(null)).toBe('');
+    });
+  });
+
+  describe('buildBookingCalendarEvent', () => {
+    it('should read start and end from any schedule shape', () => {
+      const fromDateTimes = buildBookingCalendarEvent({
+        id: 'b1',
+        title: 'Swim',
+        schedule: { startDateTime: '2026-06-15T05:30:00Z', endDateTime: '2026-06-15T06:30:00Z' },
+      });
+      const fromDate = buildBookingCalendarEvent({ id: 'b2', title: 'Swim', schedule: { date: '2026-06-15' } });
+
+      expect(fromDateTimes).toMatchObject({ uid: 'b1@kidrove.com', start: '2026-06-15T05:30:00Z', end: '2026-06-15T06:30:00Z' });
+      expect(fromDate).toMatchObject({ start: '2026-06-15', end: null });
+    });
+
+    it('should skip bookings without a usable start', () => {
+      expect(buildBookingCalendarEvent({ id: 'b1', title: 'Swim', schedule: null })).toBeNull();
+      expect(buildBookingCalendarEvent({ id: 'b1', title: 'Swim', schedule: { startDate: 'TBD' } })).toBeNull();
+    });
+
+    it('should read GeoJSON and lat/lng venue coordinates', () => {
+      const schedule = { startDate: '2026-06-15T05:30:00Z' };
+
+      expect(
+        buildBookingCalendarEvent({ id: 'b1', title: 'Swim', schedule, location: { city: 'Dubai', coordinates: [55.2, 25.11] } })
+      ).toMatchObject({ location: 'Dubai', geo: { lat: 25.11, lng: 55.2 } });
+      expect(
+        buildBookingCalendarEvent({ id: 'b1', title: 'Swim', schedule, location: { coordinates: { lat: 0, lng: 0 } } })?.geo
+      ).toBeNull();
+    });
+
+    it('should mark cancelled bookings', () => {
+      const event = buildBookingCalendarEvent({
+        id: 'b1',
+        title: 'Swim',
+        schedule: { startDate: '2026-06-15T05:30:00Z' },
+        cancelled: true,
+      });
+      expect(event?.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('buildICalendar', () => {
+    const event = {
+      uid: 'booking-1@kidrove.com',
+      title: 'Junior Robotics',
+      start: '2026-06-15T05:30:00Z',
+      end: '2026-06-15T07:00:00Z',
+      location: 'Kids Hub, Dubai',
+      geo: { lat: 25.11, lng: 55.2 },
+    };
+
+    it('should write Dubai times with a TZID and include the timezone definition', () => {
+      const ics = buildICalendar([event], { now, timezone });
+
+      expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:Asia/Dubai');
+      expect(ics).toContain('DTSTART;TZID=Asia/Dubai:20260615T093000');
+      expect(ics).toContain('DTEND;TZID=Asia/Dubai:20260615T110000');
+      expect(ics).toContain('DTSTAMP:20260601T080000Z');
+      expect(ics).toContain('LOCATION:Kids Hub\\, Dubai');
+      expect(ics).toContain('GEO:25.11;55.2');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should default to an hour long when there is no end time', () => {
+      const ics = buildICalendar([{ ...event, end: undefined }], { now, timezone });
+      expect(ics).toContain('DTEND;TZID=Asia/Dubai:20260615T103000');
+    });
+
+    it('should fall back to UTC for timezones with daylight saving', () => {
+      const ics = buildICalendar([event], { now, timezone: 'Europe/London' });
+
+      expect(ics).not.toContain('VTIMEZONE');
+      expect(ics).toContain('DTSTART:20260615T053000Z');
+    });
+
+    it('should include one event per booking and the calendar name', () => {
+      const ics = buildICalendar([event, { ...event, uid: 'booking-2@kidrove.com' }], {
+        now,
+        timezone,
+        name: 'My bookings',
+      });
+
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(ics).toContain('X-WR-CALNAME:My bookings');
+    });
+  });
+
+  describe('links', () => {
+    it('should build a safe file name from the event title', () => {
+      expect(getCalendarFileName('Art & Craft: Summer Camp!')).toBe('art-craft-summer-camp.ics');
+      expect(getCalendarFileName('!!!')).toBe('booking.ics');
+    });
+
+    it('should turn feed URLs into webcal links', () => {
+      expect(toWebcalUrl('https://api.kidrove.com/calendar/abc.ics')).toBe('webcal://api.kidrove.com/calendar/abc.ics');
+    });
+  });
+});
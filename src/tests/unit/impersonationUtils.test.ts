@@ -0,0 +1,43 @@
+/**
+ * Impersonation Utilities Tests
+ * Covers the write guard with its allowlist and the session countdown
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatImpersonationCountdown,
+  getImpersonationSecondsLeft,
+  isBlockedWhileImpersonating,
+} from '../../utils/impersonationUtils';
+
+describe('isBlockedWhileImpersonating', () => {
+  it('blocks every write, including bookings, cancellations and transfers', () => {
+    expect(isBlockedWhileImpersonating('post', '/payments/create-intent')).toBe(true);
+    expect(isBlockedWhileImpersonating('PUT', '/auth/change-password')).toBe(true);
+    expect(isBlockedWhileImpersonating('post', '/bookings/initiate')).toBe(true);
+    expect(isBlockedWhileImpersonating('post', '/bookings/confirm')).toBe(true);
+    expect(isBlockedWhileImpersonating('post', '/orders')).toBe(true);
+    expect(isBlockedWhileImpersonating('post', '/bookings/b1/cancel')).toBe(true);
+    expect(isBlockedWhileImpersonating('post', '/tickets/t1/transfer')).toBe(true);
+    expect(isBlockedWhileImpersonating('delete', '/favorites/e1')).toBe(true);
+  });
+
+  it('allows reads and the writes that keep the session working', () => {
+    expect(isBlockedWhileImpersonating('get', '/payments/methods')).toBe(false);
+    expect(isBlockedWhileImpersonating(undefined, '/vendors/payouts')).toBe(false);
+    expect(isBlockedWhileImpersonating('post', '/auth/impersonation/end')).toBe(false);
+    expect(isBlockedWhileImpersonating('post', '/auth/refresh-token?retry=1')).toBe(false);
+    expect(isBlockedWhileImpersonating('post', '/auth/logout')).toBe(false);
+  });
+});
+
+describe('session countdown', () => {
+  it('counts down to zero and formats minutes and seconds', () => {
+    const now = Date.parse('2026-05-01T10:00:00.000Z');
+
+    expect(getImpersonationSecondsLeft({ expiresAt: '2026-05-01T10:12:34.000Z' }, now)).toBe(754);
+    expect(getImpersonationSecondsLeft({ expiresAt: '2026-05-01T09:59:00.000Z' }, now)).toBe(0);
+    expect(formatImpersonationCountdown(754)).toBe('12:34');
+    expect(formatImpersonationCountdown(5)).toBe('0:05');
+  });
+});
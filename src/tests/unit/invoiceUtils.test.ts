@@ -0,0 +1,97 @@
+/**
+ * Tax Invoice Tests
+ * Covers the VAT breakdown of invoices and credit notes, TRN validation and document file names
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  allocateVat,
+  buildCreditNoteLines,
+  buildInvoiceLines,
+  formatTaxAmount,
+  getOrderVatRate,
+  getTaxDocumentFileName,
+  isValidTrn,
+  sumTaxDocumentLines,
+} from '../../utils/invoiceUtils';
+import type { TaxableOrder } from '../../types/invoice';
+
+const item = (eventTitle: string, quantity: number, unitPrice: number) => ({
+  eventId: eventTitle.toLowerCase(),
+  eventTitle,
+  scheduleDate: '2026-11-01',
+  quantity,
+  unitPrice,
+  totalPrice: quantity * unitPrice,
+  currency: 'AED',
+});
+
+// 300 + 33.33 fee - 20 discount = 313.33 taxable, 5% VAT
+const order: TaxableOrder = {
+  orderNumber: 'ORD-1001',
+  items: [item('Robotics Camp', 2, 100), item('Art Class', 1, 100)],
+  subtotal: 300,
+  serviceFee: 33.33,
+  discount: 20,
+  tax: 15.67,
+  total: 329,
+  currency: 'AED',
+  createdAt: '2026-10-01T10:00:00.000Z',
+};
+
+describe('buildInvoiceLines', () => {
+  it('lists each event, the service fee and the discount with their VAT', () => {
+    const lines = buildInvoiceLines(order);
+
+    expect(lines.map((line) => line.taxableAmount)).toEqual([200, 100, 33.33, -20]);
+    expect(lines[3].vatAmount).toBeLessThan(0);
+    expect(getOrderVatRate(order)).toBe(5);
+  });
+
+  it('adds up to the VAT and total the order was charged', () => {
+    const totals = sumTaxDocumentLines(buildInvoiceLines(order), getOrderVatRate(order));
+
+    expect(totals.taxableAmount).toBe(313.33);
+    expect(totals.vatAmount).toBe(15.67);
+    expect(totals.totalAmount).toBe(329);
+  });
+});
+
+describe('allocateVat', () => {
+  it('settles rounding on the largest line', () => {
+    expect(allocateVat([10, 10, 10], 1)).toEqual([0.34, 0.33, 0.33]);
+    expect(allocateVat([0, 0], 5)).toEqual([0, 0]);
+  });
+});
+
+describe('buildCreditNoteLines', () => {
+  it('splits a partial refund in the order VAT proportion', () => {
+    const [line] = buildCreditNoteLines(order, { amount: 164.5 });
+
+    expect(line.vatAmount).toBe(7.84);
+    expect(line.taxableAmount).toBe(156.66);
+    expect(line.totalAmount).toBe(164.5);
+  });
+
+  it('credits the whole order when no amount is recorded', () => {
+    const [line] = buildCreditNoteLines(order, {});
+
+    expect(line.vatAmount).toBe(15.67);
+    expect(line.totalAmount).toBe(329);
+  });
+});
+
+describe('tax document formatting', () => {
+  it('accepts 15-digit TRNs, ignoring spaces and dashes', () => {
+    expect(isValidTrn('100 1234 5678 9003')).toBe(true);
+    expect(isValidTrn('100-123456789-003')).toBe(true);
+    expect(isValidTrn('12345')).toBe(false);
+    expect(isValidTrn('10012345678900A')).toBe(false);
+  });
+
+  it('formats amounts and file names', () => {
+    expect(formatTaxAmount(1234.5, 'aed')).toBe('AED 1,234.50');
+    expect(getTaxDocumentFileName({ type: 'tax_invoice', number: 'INV-2026-000123' })).toBe('tax-invoice-INV-2026-000123.pdf');
+    expect(getTaxDocumentFileName({ type: 'credit_note', number: 'CN-2026-000045' })).toBe('credit-note-CN-2026-000045.pdf');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Map Utilities Tests
+ * Covers coordinate validation, distance maths and marker clustering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  clampRadius,
+  clusterMarkers,
+  destinationPoint,
+  distanceKm,
+  isValidCoordinates,
+  isWithinArea,
+  MapMarker,
+} from '../../utils/mapUtils';
+
+const DUBAI_MALL = { lat: 25.1972, lng: 55.2744 };
+const BURJ_AL_ARAB = { lat: 25.1412, lng: 55.1853 };
+const ABU_DHABI = { lat: 24.4539, lng: 54.3773 };
+
+const marker = (id: string, position: { lat: number; lng: number }): MapMarker<string> => ({ id, position, data: id });
+
+describe('isValidCoordinates', () => {
+  it('accepts real coordinates', () => {
+    expect(isValidCoordinates(DUBAI_MALL)).toBe(true);
+  });
+
+  it('rejects missing, out-of-range and unset (0,0) coordinates', () => {
+    expect(isValidCoordinates(undefined)).toBe(false);
+    expect(isValidCoordinates({ lat: 0, lng: 0 })).toBe(false);
+    expect(isValidCoordinates({ lat: 95, lng: 10 })).toBe(false);
+    expect(isValidCoordinates({ lat: NaN, lng: 10 })).toBe(false);
+  });
+});
+
+describe('distance helpers', () => {
+  it('measures great-circle distance in km', () => {
+    expect(distanceKm(DUBAI_MALL, BURJ_AL_ARAB)).toBeCloseTo(11, 0);
+    expect(distanceKm(DUBAI_MALL, ABU_DHABI)).toBeGreaterThan(120);
+  });
+
+  it('places a point at the given distance and bearing', () => {
+    const east = destinationPoint(DUBAI_MALL, 10, 90);
+
+    expect(distanceKm(DUBAI_MALL, east)).toBeCloseTo(10, 3);
+    expect(east.lng).toBeGreaterThan(DUBAI_MALL.lng);
+  });
+
+  it('checks points against a search area', () => {
+    const area = { ...DUBAI_MALL, radius: 15 };
+
+    expect(isWithinArea(BURJ_AL_ARAB, area)).toBe(true);
+    expect(isWithinArea(ABU_DHABI, area)).toBe(false);
+  });
+
+  it('keeps the radius within the allowed range', () => {
+    expect(clampRadius(0.2)).toBe(1);
+    expect(clampRadius(12.6)).toBe(13);
+    expect(clampRadius(500)).toBe(100);
+  });
+});
+
+describe('clusterMarkers', () => {
+  const markers = [marker('mall', DUBAI_MALL), marker('burj', BURJ_AL_ARAB), marker('abu-dhabi', ABU_DHABI)];
+
+  it('groups nearby markers when zoomed out', () => {
+    const clusters = clusterMarkers(markers, 6);
+    const dubai = clusters.find((cluster) => cluster.markers.some(({ id }) => id === 'mall'));
+
+    expect(dubai?.markers.map(({ id }) => id).sort()).toEqual(['burj', 'mall']);
+    expect(clusters).toHaveLength(2);
+  });
+
+  it('splits clusters apart when zoomed in', () => {
+    expect(clusterMarkers(markers, 14)).toHaveLength(3);
+  });
+
+  it('skips markers without usable coordinates', () => {
+    const clusters = clusterMarkers([...markers, marker('unset', { lat: 0, lng: 0 })], 14);
+
+    expect(clusters.flatMap(({ markers: members }) => members).map(({ id }) => id)).not.toContain('unset');
+  });
+});
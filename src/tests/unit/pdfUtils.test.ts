@@ -0,0 +1,52 @@
+/**
+ * PDF Utilities Tests
+ * Covers the image-page PDF writer: page tree, embedded JPEG streams, the cross-reference table
+ * and Unicode document titles
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { A4_PAGE_SIZE, buildImagePdf, dataUrlToBytes, toPdfTextString } from '../../utils/pdfUtils';
+
+const fakeJpeg = (marker: number) => new Uint8Array([0xff, 0xd8, marker, 0x00, 0xff, 0xd9]);
+const asText = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+
+describe('PDF Utilities', () => {
+  it('should write one page per image with the JPEG bytes embedded unchanged', () => {
+    const pdf = asText(
+      buildImagePdf([
+        { jpeg: fakeJpeg(1), width: 1240, height: 1754 },
+        { jpeg: fakeJpeg(2), width: 1240, height: 1754 },
+      ])
+    );
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Type /Pages /Kids [4 0 R 7 0 R] /Count 2');
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(2);
+    expect(pdf).toContain('/Width 1240 /Height 1754');
+    expect(pdf).toContain(`/MediaBox [0 0 ${A4_PAGE_SIZE.width} ${A4_PAGE_SIZE.height}]`);
+    expect(pdf).toContain(`stream\n${asText(fakeJpeg(2))}\nendstream`);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  it('should point every cross-reference entry at its object', () => {
+    const pdf = asText(buildImagePdf([{ jpeg: fakeJpeg(1), width: 10, height: 10 }]));
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    const entries = pdf.slice(xrefStart).split('\n').slice(3, 9);
+
+    expect(pdf.slice(xrefStart, xrefStart + 4)).toBe('xref');
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('should encode titles as UTF-16 so any script survives', () => {
+    expect(toPdfTextString('Hi')).toBe('<FEFF00480069>');
+    expect(toPdfTextString('تذكرة')).toBe('<FEFF062A0630064306310629>');
+    expect(asText(buildImagePdf([], { title: 'Hi' }))).toContain('/Title <FEFF00480069>');
+  });
+
+  it('should decode base64 data URLs to bytes', () => {
+    expect(Array.from(dataUrlToBytes('data:image/jpeg;base64,/9j/'))).toEqual([0xff, 0xd8, 0xff]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Admin Permission Tests
+ * Covers permission lookup for admin roles, the admin route map and the landing page for staff roles
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ALL_PERMISSIONS,
+  ROLE_PRESETS,
+  canAccessAdminPath,
+  getAdminPermissions,
+  getAdminRoutePermissions,
+  getDefaultAdminPath,
+  hasPermission,
+} from '../../utils/permissions';
+
+const presetUser = (name: string) => ({
+  role: 'admin' as const,
+  permissions: ROLE_PRESETS.find((preset) => preset.name === name)!.permissions,
+});
+
+describe('getAdminPermissions', () => {
+  it('gives admins without a role full access and everyone else none', () => {
+    expect(getAdminPermissions({ role: 'admin' })).toEqual(ALL_PERMISSIONS);
+    expect(getAdminPermissions({ role: 'vendor', permissions: ['users.view'] })).toEqual([]);
+    expect(getAdminPermissions(null)).toEqual([]);
+  });
+
+  it('treats an empty list as no permissions only when a role is assigned', () => {
+    expect(getAdminPermissions({ role: 'admin', permissions: [] })).toEqual(ALL_PERMISSIONS);
+    expect(getAdminPermissions({ role: 'admin', permissions: [], adminRoleId: null })).toEqual(ALL_PERMISSIONS);
+    expect(getAdminPermissions({ role: 'admin', permissions: [], adminRoleId: 'role-1' })).toEqual([]);
+    expect(getAdminPermissions({ role: 'admin', adminRoleId: 'role-1' })).toEqual([]);
+  });
+
+  it('limits role-based admins to their role', () => {
+    const finance = presetUser('Finance');
+
+    expect(hasPermission(finance, 'payouts.manage')).toBe(true);
+    expect(hasPermission(finance, 'users.manage')).toBe(false);
+  });
+});
+
+describe('admin route permissions', () => {
+  it('separates the events list from event editing', () => {
+    expect(getAdminRoutePermissions('/admin/events')).toEqual(['events.view']);
+    expect(getAdminRoutePermissions('/admin/events/')).toEqual(['events.view']);
+    expect(getAdminRoutePermissions('/admin/events/e1/edit')).toEqual(['events.manage']);
+    expect(getAdminRoutePermissions('/admin/blog-categories')).toEqual(['blogs.manage']);
+  });
+
+  it('only opens unmapped pages to full-access admins', () => {
+    expect(getAdminRoutePermissions('/admin/something-new')).toBeNull();
+    expect(canAccessAdminPath({ role: 'admin' }, '/admin/something-new')).toBe(true);
+    expect(canAccessAdminPath(presetUser('Support'), '/admin/something-new')).toBe(false);
+  });
+
+  it('checks a role against the section it opens', () => {
+    const support = presetUser('Support');
+
+    expect(canAccessAdminPath(support, '/admin/events')).toBe(true);
+    expect(canAccessAdminPath(support, '/admin/events/create')).toBe(false);
+    expect(canAccessAdminPath(support, '/admin/payouts')).toBe(false);
+  });
+});
+
+describe('getDefaultAdminPath', () => {
+  it('lands on the dashboard or the first section the role can open', () => {
+    expect(getDefaultAdminPath(presetUser('Finance'))).toBe('/admin');
+    expect(getDefaultAdminPath(presetUser('Content editor'))).toBe('/admin/blog-categories');
+    expect(getDefaultAdminPath({ role: 'admin', permissions: [], adminRoleId: 'role-1' })).toBeNull();
+  });
+});
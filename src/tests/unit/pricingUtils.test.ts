@@ -0,0 +1,162 @@
+/**
+ * Pricing Engine Tests
+ * Covers each rule of the shared cart/checkout/booking pricing calculation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculatePricing,
+  calculateDiscountAmount,
+  getServiceFeeRate,
+  getEffectiveServiceFeeRate,
+  roundMoney,
+  roundToIncrement,
+  DEFAULT_PRICING_SETTINGS,
+  PricingConfig
+} from '../../utils/pricingUtils';
+
+const buildConfig = (overrides: Partial<PricingConfig['settings']> = {}, vendorOverrides: PricingConfig['vendorOverrides'] = {}): PricingConfig => ({
+  settings: { ...DEFAULT_PRICING_SETTINGS, ...overrides },
+  vendorOverrides,
+});
+
+describe('Pricing Engine', () => {
+  describe('subtotal', () => {
+    it('should sum unit price × quantity across lines', () => {
+      const result = calculatePricing([
+        { id: 'a', unitPrice: 100, quantity: 2 },
+        { id: 'b', unitPrice: 50, quantity: 1 },
+      ], buildConfig());
+
+      expect(result.subtotal).toBe(250);
+    });
+
+    it('should ignore negative prices and quantities', () => {
+      const result = calculatePricing([
+        { id: 'a', unitPrice: -10, quantity: 2 },
+        { id: 'b', unitPrice: 10, quantity: -1 },
+      ], buildConfig());
+
+      expect(result.subtotal).toBe(0);
+      expect(result.total).toBe(0);
+    });
+
+    it('should return an empty breakdown for no lines', () => {
+      const result = calculatePricing([], buildConfig());
+
+      expect(result.subtotal).toBe(0);
+      expect(result.serviceFee).toBe(0);
+      expect(result.vendorFees).toHaveLength(0);
+      expect(result.total).toBe(0);
+      expect(result.currency).toBe('AED');
+    });
+  });
+
+  describe('service fee', () => {
+    it('should use the system rate from settings', () => {
+      const result = calculatePricing([{ id: 'a', unitPrice: 200, quantity: 1 }], buildConfig({ serviceFeePercentage: 10 }));
+
+      expect(result.serviceFee).toBe(20);
+      expect(result.vendorFees[0].rate).toBe(10);
+    });
+
+    it('should charge each vendor at its own override rate', () => {
+      const config = buildConfig({ serviceFeePercentage: 5 }, {
+        v1: { vendorId: 'v1', serviceFeePercentage: 8 },
+      });
+
+      const result = calculatePricing([
+        { id: 'a', vendorId: 'v1', unitPrice: 100, quantity: 1 },
+        { id: 'b', vendorId: 'v2', unitPrice: 100, quantity: 1 },
+      ], config);
+
+      expect(result.vendorFees).toEqual([
+        { vendorId: 'v1', subtotal: 100, rate: 8, amount: 8 },
+        { vendorId: 'v2', subtotal: 100, rate: 5, amount: 5 },
+      ]);
+      expect(result.serviceFee).toBe(13);
+      expect(getEffectiveServiceFeeRate(result)).toBe(6.5);
+    });
+
+    it('should not charge a fee for exempt vendors', () => {
+      const config = buildConfig({}, { v1: { vendorId: 'v1', serviceFeePercentage: 8, serviceFeeExempt: true } });
+
+      expect(getServiceFeeRate(config, 'v1')).toBe(0);
+      expect(calculatePricing([{ id: 'a', vendorId: 'v1', unitPrice: 100, quantity: 1 }], config).serviceFee).toBe(0);
+    });
+  });
+
+  describe('discount', () => {
+    it('should apply percentage discounts to the subtotal only', () => {
+      const result = calculatePricing(
+        [{ id: 'a', unitPrice: 100, quantity: 1 }],
+        buildConfig({ serviceFeePercentage: 10, taxPercentage: 0 }),
+        { type: 'percentage', value: 10, code: 'TEN' }
+      );
+
+      expect(result.discount).toBe(10);
+      expect(result.serviceFee).toBe(10);
+      expect(result.discountCode).toBe('TEN');
+      expect(result.total).toBe(100);
+    });
+
+    it('should cap discounts at maxDiscount and at the subtotal', () => {
+      expect(calculateDiscountAmount(200, { type: 'percentage', value: 50, maxDiscount: 30 })).toBe(30);
+      expect(calculateDiscountAmount(40, { type: 'fixed', value: 100 })).toBe(40);
+      expect(calculateDiscountAmount(40, null)).toBe(0);
+    });
+  });
+
+  describe('VAT', () => {
+    it('should apply VAT after the discount, on subtotal plus fees', () => {
+      const result = calculatePricing(
+        [{ id: 'a', unitPrice: 100, quantity: 1 }],
+        buildConfig({ serviceFeePercentage: 5, taxPercentage: 5 }),
+        { type: 'fixed', value: 20 }
+      );
+
+      // (100 - 20 + 5) × 5% = 4.25
+      expect(result.taxableAmount).toBe(85);
+      expect(result.tax).toBe(4.25);
+      expect(result.taxRate).toBe(5);
+      expect(result.total).toBe(89.25);
+    });
+
+    it('should use the configured tax rate', () => {
+      const result = calculatePricing([{ id: 'a', unitPrice: 100, quantity: 1 }], buildConfig({ serviceFeePercentage: 0, taxPercentage: 7.5 }));
+
+      expect(result.tax).toBe(7.5);
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round money to 2 decimal places', () => {
+      expect(roundMoney(1.005)).toBe(1.01);
+      expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    });
+
+    it('should round to the configured increment', () => {
+      expect(roundToIncrement(10.12, 0.05)).toBe(10.1);
+      expect(roundToIncrement(10.13, 0.05)).toBe(10.15);
+      expect(roundToIncrement(10.126, 0)).toBe(10.13);
+    });
+
+    it('should report the rounding adjustment as its own line', () => {
+      const exact = calculatePricing(
+        [{ id: 'a', unitPrice: 10, quantity: 1 }],
+        buildConfig({ serviceFeePercentage: 0, taxPercentage: 5, roundingIncrement: 0.25 })
+      );
+
+      expect(exact.total).toBe(10.5);
+      expect(exact.rounding).toBe(0);
+
+      const adjusted = calculatePricing(
+        [{ id: 'a', unitPrice: 10.1, quantity: 1 }],
+        buildConfig({ serviceFeePercentage: 0, taxPercentage: 0, roundingIncrement: 0.25 })
+      );
+
+      expect(adjusted.total).toBe(10);
+      expect(adjusted.rounding).toBe(-0.1);
+    });
+  });
+});
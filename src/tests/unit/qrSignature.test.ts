@@ -0,0 +1,136 @@
+/**
+ * Signed QR Code Tests
+ * Covers verifying backend-signed ticket codes: valid, forged, expired, replayed and rotated keys
+ */
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { webcrypto } from 'crypto';
+import {
+  createQRReplayGuard,
+  decodeSignedQRToken,
+  QRSigningKey,
+  SignedQRClaims,
+  verifySignedQRToken,
+} from '../../utils/qrSignature';
+import { generateTicketQRData, parseQRData, validateQRData } from '../../utils/qrcode.utils';
+
+const subtle = webcrypto.subtle as unknown as SubtleCrypto;
+const NOW = new Date('2025-08-15T10:00:00Z');
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+const toBase64Url = (bytes: Uint8Array | string) =>
+  Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+interface TestKey {
+  publicKey: QRSigningKey;
+  privateKey: CryptoKey;
+}
+
+const createKey = async (kid: string): Promise<TestKey> => {
+  const pair = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const jwk = await subtle.exportKey('jwk', pair.publicKey);
+  return { publicKey: { ...jwk, kid }, privateKey: pair.privateKey };
+};
+
+// Mirrors what the backend issues
+const signToken = async (key: TestKey, overrides: Partial<SignedQRClaims> = {}): Promise<string> => {
+  const claims: SignedQRClaims = {
+    typ: 'ticket',
+    id: 'TKT-001',
+    evt: 'event-1',
+    iat: NOW_SECONDS - 3600,
+    exp: NOW_SECONDS + 3600,
+    jti: 'nonce-1',
+    ...overrides,
+  };
+  const signingInput = `GQ1.${key.publicKey.kid}.${toBase64Url(JSON.stringify(claims))}`;
+  const signature = await subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key.privateKey,
+    Buffer.from(signingInput, 'ascii')
+  );
+  return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+let current: TestKey;
+let previous: TestKey;
+
+beforeAll(async () => {
+  current = await createKey('2025-08');
+  previous = await createKey('2025-07');
+});
+
+describe('verifySignedQRToken', () => {
+  it('accepts a code signed with a published key', async () => {
+    const token = await signToken(current);
+    const result = await verifySignedQRToken(token, { keys: [current.publicKey], now: NOW, subtle });
+
+    expect(result.isValid).toBe(true);
+    expect(result.claims?.id).toBe('TKT-001');
+  });
+
+  it('picks the key by id so rotated-out keys keep working', async () => {
+    const token = await signToken(previous);
+    const result = await verifySignedQRToken(token, { keys: [current.publicKey, previous.publicKey], now: NOW, subtle });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('rejects forged codes', async () => {
+    const token = await signToken(current);
+    const [prefix, kid, , signature] = token.split('.');
+    const tampered = `${prefix}.${kid}.${toBase64Url(JSON.stringify({ ...decodeSignedQRToken(token)!.claims, id: 'TKT-999' }))}.${signature}`;
+
+    const forged = await verifySignedQRToken(tampered, { keys: [current.publicKey], now: NOW, subtle });
+    const wrongKey = await verifySignedQRToken(
+      token.replace(`.${current.publicKey.kid}.`, `.${previous.publicKey.kid}.`),
+      { keys: [previous.publicKey], now: NOW, subtle }
+    );
+
+    expect(forged.reason).toBe('forged');
+    expect(wrongKey.reason).toBe('forged');
+  });
+
+  it('reports unknown keys and malformed tokens', async () => {
+    const token = await signToken(current);
+
+    expect((await verifySignedQRToken(token, { keys: [previous.publicKey], now: NOW, subtle })).reason).toBe('unknown_key');
+    expect((await verifySignedQRToken('GQ1.k.not-json.sig', { keys: [], now: NOW, subtle })).reason).toBe('malformed');
+  });
+
+  it('rejects expired and not-yet-valid codes', async () => {
+    const expired = await signToken(current, { exp: NOW_SECONDS - 600 });
+    const early = await signToken(current, { nbf: NOW_SECONDS + 600 });
+
+    expect((await verifySignedQRToken(expired, { keys: [current.publicKey], now: NOW, subtle })).reason).toBe('expired');
+    expect((await verifySignedQRToken(early, { keys: [current.publicKey], now: NOW, subtle })).reason).toBe('not_yet_valid');
+  });
+
+  it('rejects replayed codes once marked as used', async () => {
+    const token = await signToken(current);
+    const replayGuard = createQRReplayGuard(undefined, 'usedQRCodes', () => NOW.getTime());
+
+    expect((await verifySignedQRToken(token, { keys: [current.publicKey], now: NOW, subtle, replayGuard })).isValid).toBe(true);
+    replayGuard.markUsed('nonce-1', NOW_SECONDS + 3600);
+    expect((await verifySignedQRToken(token, { keys: [current.publicKey], now: NOW, subtle, replayGuard })).reason).toBe('replayed');
+  });
+});
+
+describe('validateQRData', () => {
+  it('maps signed claims to QR data', async () => {
+    const token = await signToken(current, { typ: 'booking', id: 'booking-1' });
+    const result = await validateQRData(token, { keys: [current.publicKey], now: NOW, subtle });
+
+    expect(result.isValid).toBe(true);
+    expect(result.data).toMatchObject({ type: 'booking', bookingId: 'booking-1', signed: true, keyId: '2025-08' });
+  });
+
+  it('treats locally generated codes as unsigned', async () => {
+    const legacy = generateTicketQRData('TKT-001', 'event-1');
+    const result = await validateQRData(legacy, { keys: [current.publicKey], subtle });
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toBe('unsigned');
+    expect(parseQRData(legacy)?.ticketNumber).toBe('TKT-001');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Real-Time Message Tests
+ * Covers parsing of socket frames, the reconnect backoff and seat updates
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { applySeatAvailability, getReconnectDelay, parseRealTimeMessage } from '../../utils/realtimeUtils';
+
+describe('parseRealTimeMessage', () => {
+  it('parses a message from the schema', () => {
+    const message = parseRealTimeMessage(JSON.stringify({
+      id: 'msg-1',
+      type: 'event.seats_updated',
+      payload: { eventId: 'evt-1', availableSeats: 12 },
+      timestamp: '2026-10-01T10:00:00.000Z',
+    }));
+
+    expect(message).toEqual({
+      id: 'msg-1',
+      type: 'event.seats_updated',
+      payload: { eventId: 'evt-1', availableSeats: 12 },
+      timestamp: '2026-10-01T10:00:00.000Z',
+    });
+  });
+
+  it('stamps messages that arrive without a timestamp', () => {
+    const message = parseRealTimeMessage(JSON.stringify({ type: 'notification.read', payload: { notificationId: 'n-1' } }));
+
+    expect(message?.type).toBe('notification.read');
+    expect(typeof message?.timestamp).toBe('string');
+  });
+
+  it('ignores unknown types, missing payloads and invalid JSON', () => {
+    expect(parseRealTimeMessage(JSON.stringify({ type: 'chat.message', payload: {} }))).toBeNull();
+    expect(parseRealTimeMessage(JSON.stringify({ type: 'booking.created' }))).toBeNull();
+    expect(parseRealTimeMessage('null')).toBeNull();
+    expect(parseRealTimeMessage('not json')).toBeNull();
+  });
+});
+
+describe('getReconnectDelay', () => {
+  it('doubles the delay per attempt up to the maximum', () => {
+    const noJitter = () => 0;
+
+    expect(getReconnectDelay(0, 1000, 30000, noJitter)).toBe(1000);
+    expect(getReconnectDelay(3, 1000, 30000, noJitter)).toBe(8000);
+    expect(getReconnectDelay(10, 1000, 30000, noJitter)).toBe(30000);
+  });
+
+  it('adds up to 20% jitter', () => {
+    expect(getReconnectDelay(1, 1000, 30000, () => 0.5)).toBe(2200);
+    expect(getReconnectDelay(10, 1000, 30000, () => 1)).toBe(36000);
+  });
+});
+
+describe('applySeatAvailability', () => {
+  const schedules = [
+    { _id: 's1', availableSeats: 10, soldSeats: 5 },
+    { _id: 's2', availableSeats: 20, soldSeats: 0 },
+  ];
+
+  it('updates the schedule the message names', () => {
+    expect(applySeatAvailability(schedules, { eventId: 'evt-1', scheduleId: 's2', availableSeats: 18, soldSeats: 2 })).toEqual([
+      { _id: 's1', availableSeats: 10, soldSeats: 5 },
+      { _id: 's2', availableSeats: 18, soldSeats: 2 },
+    ]);
+  });
+
+  it('updates every schedule without a scheduleId and keeps counts the message leaves out', () => {
+    expect(applySeatAvailability(schedules, { eventId: 'evt-1', availableSeats: 0 })).toEqual([
+      { _id: 's1', availableSeats: 0, soldSeats: 5 },
+      { _id: 's2', availableSeats: 0, soldSeats: 0 },
+    ]);
+  });
+});
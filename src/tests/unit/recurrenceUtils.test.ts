@@ -0,0 +1,188 @@
+/**
+ * Recurrence Utilities Tests
+ * Covers expanding series rules into dates, summaries, validation and keeping rows in step with a rule
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyRecurrenceRule,
+  describeRecurrence,
+  excludeOccurrence,
+  expandRecurrence,
+  removeSeriesRows,
+  SeriesScheduleRow,
+  validateRecurrence,
+} from '../../utils/recurrenceUtils';
+import type { ScheduleRecurrenceRule } from '../../types/event';
+
+// 2026-06-06 is a Saturday
+const rule = (overrides: Partial<ScheduleRecurrenceRule> = {}): ScheduleRecurrenceRule => ({
+  id: 'series-1',
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: [6],
+  startDate: '2026-06-06',
+  count: 12,
+  excludedDates: [],
+  startTime: '10:00',
+  endTime: '11:00',
+  availableSeats: 20,
+  price: 50,
+  unlimitedSeats: false,
+  ...overrides,
+});
+
+const row = (overrides: Partial<SeriesScheduleRow>): SeriesScheduleRow => ({
+  id: 'row',
+  startDate: '',
+  endDate: '',
+  availableSeats: '',
+  price: '',
+  ...overrides,
+});
+
+describe('Recurrence Utilities', () => {
+  describe('expandRecurrence', () => {
+    it('should repeat weekly on the start date weekday', () => {
+      const dates = expandRecurrence(rule());
+
+      expect(dates).toHaveLength(12);
+      expect(dates[0]).toBe('2026-06-06');
+      expect(dates[1]).toBe('2026-06-13');
+      expect(dates[11]).toBe('2026-08-22');
+    });
+
+    it('should skip excluded dates without shortening a counted series', () => {
+      const dates = expandRecurrence(rule({ excludedDates: ['2026-06-13'] }));
+
+      expect(dates).toHaveLength(12);
+      expect(dates).not.toContain('2026-06-13');
+      expect(dates[11]).toBe('2026-08-29');
+    });
+
+    it('should repeat on chosen weekdays every other week', () => {
+      const dates = expandRecurrence(
+        rule({ frequency: 'custom', interval: 2, weekdays: [1, 3], startDate: '2026-06-01', count: 4 })
+      );
+
+      expect(dates).toEqual(['2026-06-01', '2026-06-03', '2026-06-15', '2026-06-17']);
+    });
+
+    it('should stop at the end date', () => {
+      const dates = expandRecurrence(
+        rule({ frequency: 'daily', interval: 2, startDate: '2026-06-01', count: undefined, endDate: '2026-06-07' })
+      );
+
+      expect(dates).toEqual(['2026-06-01', '2026-06-03', '2026-06-05', '2026-06-07']);
+    });
+
+    it('should return nothing without a start date or an end', () => {
+      expect(expandRecurrence(rule({ startDate: '' }))).toEqual([]);
+      expect(expandRecurrence(rule({ count: undefined, endDate: undefined }))).toEqual([]);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should summarize a counted weekly series', () => {
+      expect(describeRecurrence(rule())).toBe('Every Saturday, 12 times');
+    });
+
+    it('should summarize custom weekdays with an end date and skipped dates', () => {
+      const summary = describeRecurrence(
+        rule({
+          frequency: 'custom',
+          interval: 2,
+          weekdays: [3, 1],
+          count: undefined,
+          endDate: '2026-06-30',
+          excludedDates: ['2026-06-15'],
+        })
+      );
+
+      expect(summary).toBe('Every 2 weeks on Mon, Wed until Jun 30, 2026 (1 date skipped)');
+    });
+  });
+
+  describe('validateRecurrence', () => {
+    it('should accept a complete rule', () => {
+      expect(validateRecurrence(rule())).toEqual({});
+    });
+
+    it('should flag missing days, seats and inverted times', () => {
+      const errors = validateRecurrence(
+        rule({ frequency: 'custom', weekdays: [], availableSeats: 0, startTime: '12:00', endTime: '09:00' })
+      );
+
+      expect(Object.keys(errors).sort()).toEqual(['availableSeats', 'endTime', 'weekdays']);
+    });
+
+    it('should not require seats for unlimited series', () => {
+      expect(validateRecurrence(rule({ availableSeats: 0, unlimitedSeats: true }))).toEqual({});
+    });
+  });
+
+  describe('applyRecurrenceRule', () => {
+    it('should replace the blank placeholder row with the generated dates', () => {
+      const rows = applyRecurrenceRule([row({ id: 'blank' })], rule({ count: 2 }));
+
+      expect(rows.map((r) => r.startDate)).toEqual(['2026-06-06', '2026-06-13']);
+      expect(rows[0]).toMatchObject({ seriesId: 'series-1', availableSeats: '20', price: '50', startTime: '10:00' });
+    });
+
+    it('should keep saved rows and exceptions while dropping dates the rule no longer produces', () => {
+      const rows = [
+        row({ id: 'one-off', startDate: '2026-05-01', endDate: '2026-05-01', price: '30' }),
+        row({ id: 'a', _id: 'db-a', seriesId: 'series-1', startDate: '2026-06-06', endDate: '2026-06-06', price: '50' }),
+        row({ id: 'b', seriesId: 'series-1', startDate: '2026-06-13', endDate: '2026-06-13', price: '80', isOverride: true }),
+        row({ id: 'c', seriesId: 'series-1', startDate: '2026-06-20', endDate: '2026-06-20', price: '50' }),
+      ];
+
+      const updated = applyRecurrenceRule(rows, rule({ count: 2, price: 60 }));
+
+      expect(updated.map((r) => r.id)).toEqual(['one-off', 'a', 'b']);
+      expect(updated[1]).toMatchObject({ _id: 'db-a', price: '60' });
+      expect(updated[2]).toMatchObject({ price: '80', isOverride: true });
+    });
+
+    it('should keep saved rows and exceptions the rule no longer produces as one-off dates', () => {
+      const rows = [
+        row({ id: 'a', _id: 'db-a', seriesId: 'series-1', startDate: '2026-06-06', endDate: '2026-06-06' }),
+        row({ id: 'b', _id: 'db-b', seriesId: 'series-1', startDate: '2026-06-13', endDate: '2026-06-13' }),
+        row({ id: 'c', seriesId: 'series-1', startDate: '2026-06-20', endDate: '2026-06-20', isOverride: true }),
+        row({ id: 'd', seriesId: 'series-1', startDate: '2026-06-27', endDate: '2026-06-27' }),
+      ];
+
+      const updated = applyRecurrenceRule(rows, rule({ count: 1 }));
+
+      expect(updated.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+      expect(updated[0]).toMatchObject({ _id: 'db-a', seriesId: 'series-1' });
+      expect(updated[1]).toMatchObject({ _id: 'db-b', seriesId: undefined, isOverride: true });
+      expect(updated[2]).toMatchObject({ seriesId: undefined, isOverride: true });
+    });
+  });
+
+  describe('removeSeriesRows', () => {
+    it('should keep saved rows and exceptions as one-off dates', () => {
+      const rows = [
+        row({ id: 'one-off', startDate: '2026-05-01', endDate: '2026-05-01' }),
+        row({ id: 'a', _id: 'db-a', seriesId: 'series-1', startDate: '2026-06-06', endDate: '2026-06-06' }),
+        row({ id: 'b', seriesId: 'series-1', startDate: '2026-06-13', endDate: '2026-06-13' }),
+      ];
+
+      const updated = removeSeriesRows(rows, 'series-1');
+
+      expect(updated.map((r) => r.id)).toEqual(['one-off', 'a']);
+      expect(updated[1]).toMatchObject({ seriesId: undefined, isOverride: true });
+    });
+  });
+
+  describe('excludeOccurrence', () => {
+    it('should record the date and shorten a counted series', () => {
+      const updated = excludeOccurrence(rule(), '2026-06-13');
+
+      expect(updated.excludedDates).toEqual(['2026-06-13']);
+      expect(updated.count).toBe(11);
+      expect(expandRecurrence(updated)).toHaveLength(11);
+    });
+  });
+});
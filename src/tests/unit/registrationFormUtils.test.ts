@@ -0,0 +1,160 @@
+/**
+ * Registration Form Utility Tests
+ * Covers splitting a form into steps at pagebreaks, conditional show/require rules,
+ * per-step validation and draft serialisation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildRegistrationData,
+  evaluateCondition,
+  findFirstIncompleteStep,
+  getHiddenFieldIds,
+  getVisibleFields,
+  registrationDataToFormValues,
+  splitFieldsIntoSteps,
+  validateField,
+  validateFields,
+} from '../../utils/registrationFormUtils';
+import type { FormField } from '../../types/registration';
+
+const buildField = (overrides: Partial<FormField> = {}): FormField => ({
+  id: 'field',
+  label: 'Field',
+  type: 'text',
+  required: false,
+  order: 0,
+  ...overrides,
+});
+
+const FIELDS: FormField[] = [
+  buildField({ id: 'childName', label: 'Child Name', required: true, order: 0 }),
+  buildField({ id: 'break1', label: 'Medical Details', type: 'pagebreak', order: 1 }),
+  buildField({ id: 'allergies', label: 'Allergies', type: 'textarea', order: 2 }),
+  buildField({ id: 'break2', label: 'Page Break', type: 'pagebreak', order: 3 }),
+  buildField({ id: 'parentEmail', label: 'Parent Email', type: 'email', required: true, order: 4 }),
+];
+
+describe('splitFieldsIntoSteps', () => {
+  it('splits at pagebreaks and titles steps from the pagebreak label', () => {
+    const steps = splitFieldsIntoSteps(FIELDS);
+
+    expect(steps).toHaveLength(3);
+    expect(steps.map(step => step.title)).toEqual(['Step 1', 'Medical Details', 'Step 3']);
+    expect(steps[2].fields.map(field => field.id)).toEqual(['parentEmail']);
+  });
+
+  it('sorts by order and drops empty steps', () => {
+    const steps = splitFieldsIntoSteps([
+      buildField({ id: 'b', order: 3 }),
+      buildField({ id: 'break', type: 'pagebreak', order: 0 }),
+      buildField({ id: 'a', order: 1 }),
+    ]);
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].fields.map(field => field.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('validateField', () => {
+  it('requires a value for required fields', () => {
+    const field = buildField({ label: 'Name', required: true });
+
+    expect(validateField(field, '  ')).toBe('Name is required');
+    expect(validateField(field, 'Sam')).toBeNull();
+  });
+
+  it('checks email format and length rules', () => {
+    expect(validateField(buildField({ type: 'email' }), 'not-an-email')).toBe('Please enter a valid email address');
+    expect(validateField(buildField({ validation: { minLength: 3 } }), 'ab')).toBe('Minimum 3 characters required');
+  });
+
+  it('treats an empty address as missing', () => {
+    const field = buildField({ label: 'Address', type: 'address', required: true });
+
+    expect(validateField(field, { address: '' })).toBe('Address is required');
+  });
+
+  it('ignores layout fields', () => {
+    expect(validateField(buildField({ type: 'pagebreak', required: true }), undefined)).toBeNull();
+  });
+});
+
+describe('validateFields / findFirstIncompleteStep', () => {
+  it('collects errors by field id', () => {
+    const errors = validateFields(FIELDS, { childName: 'Sam', parentEmail: 'bad' });
+
+    expect(errors).toEqual({ parentEmail: 'Please enter a valid email address' });
+  });
+
+  it('resumes at the first step with a missing answer', () => {
+    const steps = splitFieldsIntoSteps(FIELDS);
+
+    expect(findFirstIncompleteStep(steps, {})).toBe(0);
+    expect(findFirstIncompleteStep(steps, { childName: 'Sam' })).toBe(2);
+    expect(findFirstIncompleteStep(steps, { childName: 'Sam', parentEmail: 'a@b.co' })).toBe(2);
+  });
+});
+
+describe('conditional fields', () => {
+  const CONDITIONAL_FIELDS: FormField[] = [
+    buildField({ id: 'hasAllergies', label: 'Has allergies', type: 'radio', options: ['Yes', 'No'], order: 0 }),
+    buildField({
+      id: 'allergyDetails',
+      label: 'Allergy details',
+      required: true,
+      order: 1,
+      visibleWhen: { match: 'all', conditions: [{ fieldId: 'hasAllergies', operator: 'equals', value: 'Yes' }] },
+    }),
+    buildField({
+      id: 'epiPen',
+      label: 'EpiPen',
+      order: 2,
+      visibleWhen: { match: 'all', conditions: [{ fieldId: 'allergyDetails', operator: 'is_not_empty' }] },
+    }),
+    buildField({
+      id: 'ageProof',
+      label: 'Age proof',
+      order: 3,
+      requiredWhen: { match: 'any', conditions: [{ fieldId: 'age', operator: 'less_than', value: '5' }] },
+    }),
+    buildField({ id: 'age', label: 'Age', type: 'number', order: 4 }),
+  ];
+
+  it('evaluates operators against single and multi-select answers', () => {
+    expect(evaluateCondition({ fieldId: 'x', operator: 'equals', value: 'yes' }, 'Yes')).toBe(true);
+    expect(evaluateCondition({ fieldId: 'x', operator: 'equals', value: 'Nuts' }, ['Dairy', 'Nuts'])).toBe(true);
+    expect(evaluateCondition({ fieldId: 'x', operator: 'is_not_empty' }, false)).toBe(false);
+    expect(evaluateCondition({ fieldId: 'x', operator: 'greater_than', value: '10' }, '12')).toBe(true);
+  });
+
+  it('hides dependent fields and chains through hidden parents', () => {
+    const hidden = getHiddenFieldIds(CONDITIONAL_FIELDS, { hasAllergies: 'No', allergyDetails: 'Peanuts' });
+
+    expect([...hidden]).toEqual(['allergyDetails', 'epiPen']);
+    expect(getHiddenFieldIds(CONDITIONAL_FIELDS, { hasAllergies: 'Yes', allergyDetails: 'Peanuts' }).size).toBe(0);
+  });
+
+  it('resolves requiredWhen and skips hidden fields in validation', () => {
+    const visible = getVisibleFields(CONDITIONAL_FIELDS, { hasAllergies: 'No', age: 3 });
+    const errors = validateFields(visible, { hasAllergies: 'No', age: 3 });
+
+    expect(errors).toEqual({ ageProof: 'Age proof is required' });
+  });
+
+  it('leaves hidden answers out of the submitted data', () => {
+    const data = buildRegistrationData(CONDITIONAL_FIELDS, { hasAllergies: 'No', allergyDetails: 'Peanuts' });
+
+    expect(data.map(entry => entry.fieldId)).toEqual(['hasAllergies', 'ageProof', 'age']);
+  });
+});
+
+describe('buildRegistrationData', () => {
+  it('skips layout fields and round-trips through form values', () => {
+    const data = buildRegistrationData(FIELDS, { childName: 'Sam' });
+
+    expect(data.map(entry => entry.fieldId)).toEqual(['childName', 'allergies', 'parentEmail']);
+    expect(data[1].value).toBeNull();
+    expect(registrationDataToFormValues(data)).toEqual({ childName: 'Sam' });
+  });
+});
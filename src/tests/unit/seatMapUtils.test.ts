@@ -0,0 +1,127 @@
+/**
+ * Seat Map Utilities Tests
+ * Covers row labelling, generating and editing sections, validation and applying a schedule's seat availability
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applySeatAvailability,
+  createSeatMap,
+  createSeatSection,
+  formatSeatList,
+  generateSectionSeats,
+  getRowLabel,
+  getSeatMapCapacity,
+  SEAT_GAP,
+  SEAT_SIZE,
+  toggleAccessibleSeat,
+  updateSeatSection,
+  validateSeatMap,
+  validateSeatingSettings,
+} from '../../utils/seatMapUtils';
+import type { VenueSeatMap, VenueSeatSection } from '../../types/seating';
+
+const layout = (overrides: Partial<Omit<VenueSeatSection, 'seats'>> = {}): Omit<VenueSeatSection, 'seats'> => ({
+  id: 'stalls',
+  name: 'Stalls',
+  type: 'standard',
+  color: '#3b82f6',
+  rowStart: 'A',
+  rows: 2,
+  seatsPerRow: 3,
+  x: 40,
+  y: 120,
+  ...overrides,
+});
+
+const section = (overrides: Partial<Omit<VenueSeatSection, 'seats'>> = {}): VenueSeatSection => {
+  const base = layout(overrides);
+  return { ...base, seats: generateSectionSeats(base) };
+};
+
+const map = (sections: VenueSeatSection[]): VenueSeatMap => ({ ...createSeatMap(), sections });
+
+describe('Seat Map Utilities', () => {
+  describe('getRowLabel', () => {
+    it('should continue letters past Z and count numeric rows', () => {
+      expect(getRowLabel('A', 2)).toBe('C');
+      expect(getRowLabel('Y', 3)).toBe('AB');
+      expect(getRowLabel('10', 2)).toBe('12');
+      expect(getRowLabel('', 0)).toBe('A');
+    });
+  });
+
+  describe('generateSectionSeats', () => {
+    it('should lay seats out in rows from the section position', () => {
+      const seats = generateSectionSeats(layout());
+
+      expect(seats).toHaveLength(6);
+      expect(seats[0]).toEqual({ id: 'A-1', row: 'A', number: 1, type: 'standard', x: 40, y: 120 });
+      expect(seats[5]).toMatchObject({ id: 'B-3', x: 40 + 2 * (SEAT_SIZE + SEAT_GAP), y: 120 + SEAT_SIZE + SEAT_GAP });
+    });
+
+    it('should keep accessible seats when the layout changes', () => {
+      const stalls = toggleAccessibleSeat(section(), 'A-2');
+      const updated = updateSeatSection(stalls, { seatsPerRow: 4, type: 'premium' });
+
+      expect(updated.color).toBe('#f59e0b');
+      expect(updated.seats).toHaveLength(8);
+      expect(updated.seats.find((seat) => seat.id === 'A-2')?.type).toBe('accessible');
+      expect(updated.seats.find((seat) => seat.id === 'A-1')?.type).toBe('premium');
+    });
+  });
+
+  describe('createSeatSection', () => {
+    it('should continue the row lettering below the last section', () => {
+      const next = createSeatSection(map([section()]));
+
+      expect(next.rowStart).toBe('C');
+      expect(next.y).toBe(120 + SEAT_SIZE + SEAT_GAP + SEAT_SIZE + 40);
+      expect(getSeatMapCapacity(map([section(), next]))).toBe(6 + 50);
+    });
+  });
+
+  describe('validateSeatMap', () => {
+    it('should flag missing names, empty layouts and clashing rows', () => {
+      const errors = validateSeatMap(
+        map([section(), section({ id: 'balcony', name: '', rowStart: 'B', y: 300 }), section({ id: 'box', rows: 0 })])
+      );
+
+      expect(errors).toEqual({
+        seatSection_1_name: 'Section name is required',
+        seatSection_1_rowStart: 'Row B is already used by Stalls',
+        seatSection_2_rows: 'At least one row is required',
+      });
+    });
+
+    it('should require a venue when reserved seating is on', () => {
+      expect(validateSeatingSettings({ reservedSeating: true })).toHaveProperty('seatingVenue');
+      expect(validateSeatingSettings({ reservedSeating: true, venueId: 'v1' })).toEqual({});
+      expect(validateSeatingSettings({ reservedSeating: false })).toEqual({});
+    });
+  });
+
+  describe('applySeatAvailability', () => {
+    it('should mark sold, reserved and selected seats and price every seat', () => {
+      const [stalls] = applySeatAvailability(
+        { seatMap: map([section()]), unavailable: { 'A-1': 'sold', 'A-2': 'reserved' } },
+        75,
+        ['B-1']
+      );
+
+      expect(stalls.seats.map((seat) => seat.status)).toEqual([
+        'sold',
+        'reserved',
+        'available',
+        'selected',
+        'available',
+        'available',
+      ]);
+      expect(stalls.seats[0]).toMatchObject({ section: 'Stalls', price: 75 });
+    });
+  });
+
+  it('should list seats in row and number order', () => {
+    expect(formatSeatList(['B-2', 'A-10', 'A-2'])).toBe('A-2, A-10, B-2');
+  });
+});
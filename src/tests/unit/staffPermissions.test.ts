@@ -0,0 +1,66 @@
+/**
+ * Vendor Staff Permission Tests
+ * Covers role presets, saved permissions and event scoping for vendor employees
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  STAFF_ROLE_PRESETS,
+  filterEventsForStaff,
+  getStaffEventScope,
+  getStaffGrants,
+  hasStaffPermission,
+} from '../../utils/staffPermissions';
+import type { StaffPermissionGrant } from '../../types/permission';
+
+describe('getStaffGrants', () => {
+  it('falls back to the role preset when nothing is saved', () => {
+    expect(getStaffGrants({ employeeRole: 'scanner', permissions: [] })).toEqual(STAFF_ROLE_PRESETS.scanner);
+    expect(getStaffGrants(null)).toEqual([]);
+  });
+
+  it('uses saved permissions and drops free-text actions', () => {
+    const permissions = [
+      { action: 'bookings.view', scope: 'all' },
+      { action: 'scan_tickets', scope: 'assigned' },
+    ] as unknown as StaffPermissionGrant[];
+
+    expect(getStaffGrants({ employeeRole: 'manager', permissions })).toEqual([{ action: 'bookings.view', scope: 'all' }]);
+  });
+});
+
+describe('event scoping', () => {
+  const coordinator = {
+    employeeRole: 'coordinator' as const,
+    permissions: [
+      { action: 'bookings.view', scope: 'all' },
+      { action: 'registrations.approve', scope: 'assigned' },
+    ] as StaffPermissionGrant[],
+    assignedEvents: ['e1'],
+  };
+
+  it('limits assigned permissions to assigned events', () => {
+    expect(getStaffEventScope(coordinator, 'bookings.view')).toBe('all');
+    expect(getStaffEventScope(coordinator, 'registrations.approve')).toEqual(['e1']);
+    expect(getStaffEventScope(coordinator, 'revenue.view')).toBeNull();
+
+    expect(hasStaffPermission(coordinator, 'registrations.approve', 'e1')).toBe(true);
+    expect(hasStaffPermission(coordinator, 'registrations.approve', 'e2')).toBe(false);
+    expect(hasStaffPermission(coordinator, 'bookings.view', 'e2')).toBe(true);
+  });
+
+  it('needs at least one assigned event for an assigned permission', () => {
+    const scanner = { employeeRole: 'scanner' as const, permissions: [], assignedEvents: [] };
+
+    expect(hasStaffPermission(scanner, 'tickets.scan')).toBe(false);
+    expect(hasStaffPermission({ ...scanner, assignedEvents: ['e3'] }, 'tickets.scan')).toBe(true);
+  });
+
+  it('filters event lists by scope', () => {
+    const events = [{ id: 'e1' }, { id: 'e2' }];
+
+    expect(filterEventsForStaff(events, coordinator, 'registrations.approve', (event) => event.id)).toEqual([{ id: 'e1' }]);
+    expect(filterEventsForStaff(events, coordinator, 'bookings.view', (event) => event.id)).toEqual(events);
+    expect(filterEventsForStaff(events, coordinator, 'tickets.scan', (event) => event.id)).toEqual([]);
+  });
+});
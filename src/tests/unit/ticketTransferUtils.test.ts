@@ -0,0 +1,119 @@
+/**
+ * Ticket Transfer Utilities Tests
+ * Covers when a ticket can be transferred, recipient validation for email and SMS delivery,
+ * request normalization, and transfer history ordering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { TicketTransfer } from '../../types/transfer';
+import {
+  getPendingTransfer,
+  getTransferBlocker,
+  getTransferRecipientContact,
+  normalizeTransferData,
+  sortTransferHistory,
+  validateTransferRecipient,
+} from '../../utils/ticketTransferUtils';
+
+const now = new Date('2026-06-01T10:00:00Z');
+
+const transfer = (overrides: Partial<TicketTransfer> = {}): TicketTransfer => ({
+  _id: 't1',
+  ticketId: 'ticket-1',
+  method: 'email',
+  recipientName: 'Grandma',
+  recipientEmail: 'grandma@example.com',
+  status: 'pending',
+  createdAt: '2026-05-30T10:00:00Z',
+  ...overrides,
+});
+
+describe('Ticket Transfer Utilities', () => {
+  describe('getTransferBlocker', () => {
+    const ticket = { status: 'active' };
+
+    it('should allow active tickets for upcoming events', () => {
+      expect(getTransferBlocker(ticket, [], '2026-06-10T10:00:00Z', now)).toBeNull();
+    });
+
+    it('should block inactive, transferred and checked-in tickets', () => {
+      expect(getTransferBlocker({ status: 'used' }, [], null, now)).toBe('Only active tickets can be transferred');
+      expect(getTransferBlocker({ status: 'transferred' }, [], null, now)).toBe('This ticket has already been transferred');
+      expect(getTransferBlocker({ status: 'active', checkInDetails: { isCheckedIn: true } }, [], null, now)).toBe(
+        'Checked-in tickets cannot be transferred'
+      );
+    });
+
+    it('should block once the event has started', () => {
+      expect(getTransferBlocker(ticket, [], '2026-06-01T09:00:00Z', now)).toMatch(/event has started/);
+    });
+
+    it('should block while another transfer is pending', () => {
+      expect(getTransferBlocker(ticket, [transfer()], null, now)).toBe('Already waiting for Grandma to accept');
+      expect(getTransferBlocker(ticket, [transfer({ status: 'declined' })], null, now)).toBeNull();
+    });
+  });
+
+  describe('validateTransferRecipient', () => {
+    it('should require a name and a valid email for email delivery', () => {
+      expect(validateTransferRecipient({ method: 'email', recipientName: ' ', recipientEmail: 'nope' })).toEqual({
+        recipientName: "Recipient's name is required",
+        recipientEmail: 'Please enter a valid email address',
+      });
+      expect(
+        validateTransferRecipient({ method: 'email', recipientName: 'Grandma', recipientEmail: 'grandma@example.com' })
+      ).toEqual({});
+    });
+
+    it("should reject the sender's own email", () => {
+      const errors = validateTransferRecipient(
+        { method: 'email', recipientName: 'Me', recipientEmail: 'Parent@Example.com' },
+        'parent@example.com'
+      );
+      expect(errors.recipientEmail).toMatch(/not your own/);
+    });
+
+    it('should require a mobile number for SMS delivery', () => {
+      expect(validateTransferRecipient({ method: 'sms', recipientName: 'Grandpa' }).recipientPhone).toBe(
+        "Recipient's mobile number is required"
+      );
+      expect(validateTransferRecipient({ method: 'sms', recipientName: 'Grandpa', recipientPhone: '050 123 4567' })).toEqual({});
+      expect(validateTransferRecipient({ method: 'sms', recipientName: 'Grandpa', recipientPhone: '123' }).recipientPhone).toBeTruthy();
+    });
+  });
+
+  describe('normalizeTransferData', () => {
+    it('should keep only the contact detail for the chosen method', () => {
+      expect(
+        normalizeTransferData({
+          method: 'sms',
+          recipientName: ' Grandpa ',
+          recipientEmail: 'ignored@example.com',
+          recipientPhone: '050 123 4567',
+          message: '  ',
+        })
+      ).toEqual({ method: 'sms', recipientName: 'Grandpa', recipientPhone: '+971501234567' });
+    });
+
+    it('should lower-case emails and keep a message', () => {
+      expect(
+        normalizeTransferData({ method: 'email', recipientName: 'Grandma', recipientEmail: ' Grandma@Example.com ', message: ' Enjoy! ' })
+      ).toEqual({ method: 'email', recipientName: 'Grandma', recipientEmail: 'grandma@example.com', message: 'Enjoy!' });
+    });
+  });
+
+  describe('history', () => {
+    it('should find the pending transfer and sort newest first', () => {
+      const older = transfer({ _id: 'old', status: 'declined', createdAt: '2026-05-01T10:00:00Z' });
+      const newer = transfer({ _id: 'new' });
+
+      expect(getPendingTransfer([older, newer])?._id).toBe('new');
+      expect(sortTransferHistory([older, newer]).map(item => item._id)).toEqual(['new', 'old']);
+    });
+
+    it('should show the contact used for delivery', () => {
+      expect(getTransferRecipientContact(transfer())).toBe('grandma@example.com');
+      expect(getTransferRecipientContact(transfer({ method: 'sms', recipientPhone: '+971501234567' }))).toBe('+971501234567');
+    });
+  });
+});
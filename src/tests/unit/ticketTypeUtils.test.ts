@@ -0,0 +1,179 @@
+/**
+ * Ticket Type Utilities Tests
+ * Covers price precedence and tiers, per-type capacity, quantity caps, age limits, selection lines and validation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildTicketLines,
+  canAddTicket,
+  describeAgeLimit,
+  expandTicketSelection,
+  formatScheduleTicketPrices,
+  formatTicketSummary,
+  getMaxTickets,
+  getTicketLinesTotal,
+  getTicketTypePrice,
+  getTicketTypeRemaining,
+  isAgeAllowed,
+  parseScheduleTicketPrices,
+  toPricingLines,
+  toTicketSelection,
+  validateTicketSelection,
+  validateTicketTypes,
+} from '../../utils/ticketTypeUtils';
+import type { EventTicketType } from '../../types/event';
+
+const child: EventTicketType = {
+  id: 'child',
+  name: 'Child',
+  price: 50,
+  capacity: 10,
+  minAge: 3,
+  maxAge: 12,
+  priceTiers: [
+    { id: 'late', label: 'Last minute', price: 45, endsAt: '2026-07-31' },
+    { id: 'early', label: 'Early bird', price: 35, endsAt: '2026-06-15' },
+  ],
+};
+
+const adult: EventTicketType = { id: 'adult', _id: 'db-adult', name: 'Accompanying adult', price: 20, minAge: 18 };
+
+const schedule = (overrides = {}) => ({
+  availableSeats: 8,
+  unlimitedSeats: false,
+  ...overrides,
+});
+
+const june1 = new Date(2026, 5, 1);
+const july1 = new Date(2026, 6, 1);
+
+describe('Ticket Type Utilities', () => {
+  describe('getTicketTypePrice', () => {
+    it('should use the earliest tier that has not ended', () => {
+      expect(getTicketTypePrice(child, null, june1)).toEqual({ price: 35, tierLabel: 'Early bird' });
+      expect(getTicketTypePrice(child, null, july1)).toEqual({ price: 45, tierLabel: 'Last minute' });
+    });
+
+    it('should fall back to the ticket price once every tier has ended', () => {
+      expect(getTicketTypePrice(child, null, new Date(2026, 7, 1))).toEqual({ price: 50 });
+    });
+
+    it('should prefer a price set on the schedule for the type', () => {
+      expect(getTicketTypePrice(child, schedule({ ticketPrices: { child: 60 } }), june1)).toEqual({ price: 60 });
+      expect(getTicketTypePrice(adult, schedule({ ticketPrices: { 'db-adult': 0 } }), june1)).toEqual({ price: 0 });
+    });
+  });
+
+  describe('getTicketTypeRemaining', () => {
+    it('should subtract sold tickets and cap at the seats left on the date', () => {
+      expect(getTicketTypeRemaining(child, schedule({ ticketTypeSold: { child: 4 } }))).toBe(6);
+      expect(getTicketTypeRemaining(child, schedule({ availableSeats: 3 }))).toBe(3);
+    });
+
+    it('should ignore the date seats when they are unlimited and return undefined without a share', () => {
+      expect(getTicketTypeRemaining(child, schedule({ availableSeats: 0, unlimitedSeats: true }))).toBe(10);
+      expect(getTicketTypeRemaining(adult, schedule())).toBeUndefined();
+    });
+  });
+
+  describe('age limits', () => {
+    it('should check ages against the type', () => {
+      expect(isAgeAllowed(child, 5)).toBe(true);
+      expect(isAgeAllowed(child, 13)).toBe(false);
+      expect(isAgeAllowed(adult, 16)).toBe(false);
+      expect(isAgeAllowed(child, undefined)).toBe(true);
+    });
+
+    it('should describe the limits', () => {
+      expect(describeAgeLimit(child)).toBe('Ages 3–12');
+      expect(describeAgeLimit(adult)).toBe('Ages 18+');
+      expect(describeAgeLimit({ ...adult, minAge: undefined, maxAge: 2 })).toBe('Up to 2 years');
+      expect(describeAgeLimit({ ...adult, minAge: undefined })).toBeNull();
+    });
+  });
+
+  describe('selection lines', () => {
+    const selection = { 'db-adult': 1, child: 2 };
+
+    it('should price each selected type in event order', () => {
+      const lines = buildTicketLines([child, adult], selection, null, june1);
+
+      expect(lines).toEqual([
+        { ticketTypeId: 'child', name: 'Child', quantity: 2, unitPrice: 35, total: 70, tierLabel: 'Early bird' },
+        { ticketTypeId: 'db-adult', name: 'Accompanying adult', quantity: 1, unitPrice: 20, total: 20, tierLabel: undefined },
+      ]);
+      expect(getTicketLinesTotal(lines)).toBe(90);
+      expect(formatTicketSummary(lines)).toBe('2 × Child, 1 × Accompanying adult');
+      expect(toPricingLines(lines, 'event-1', 'vendor-1')[0]).toEqual({
+        id: 'event-1-child',
+        vendorId: 'vendor-1',
+        unitPrice: 35,
+        quantity: 2,
+      });
+    });
+
+    it('should give each seat its ticket type', () => {
+      expect(expandTicketSelection([child, adult], selection)).toEqual(['child', 'child', 'db-adult']);
+    });
+  });
+
+  describe('validateTicketSelection', () => {
+    it('should accept a selection that fits', () => {
+      expect(validateTicketSelection([child, adult], { child: 2, 'db-adult': 1 }, schedule(), 10)).toBeNull();
+    });
+
+    it('should reject empty, oversized and over-share selections', () => {
+      expect(validateTicketSelection([child], {}, schedule())).toBe('Please choose at least one ticket');
+      expect(validateTicketSelection([child], { child: 9 }, schedule())).toBe('Only 8 seats available for this date');
+      expect(validateTicketSelection([child], { child: 11 }, schedule(), 10)).toBe('Maximum 10 tickets per booking');
+      expect(
+        validateTicketSelection([child], { child: 3 }, schedule({ ticketTypeSold: { child: 8 } }))
+      ).toBe('Only 2 Child tickets left for this date');
+    });
+  });
+
+  describe('validateTicketTypes', () => {
+    it('should flag duplicate names, inverted ages and incomplete tiers', () => {
+      const errors = validateTicketTypes([
+        child,
+        { ...adult, name: ' child ', minAge: 20, maxAge: 18, priceTiers: [{ id: 't', label: '', price: 10, endsAt: '' }] },
+      ]);
+
+      expect(Object.keys(errors).sort()).toEqual([
+        'ticketType_1_maxAge',
+        'ticketType_1_name',
+        'ticketType_1_tier_0_endsAt',
+      ]);
+    });
+  });
+
+  describe('schedule ticket prices', () => {
+    it('should drop blank prices and round-trip the rest', () => {
+      expect(parseScheduleTicketPrices({ child: '40', adult: '' })).toEqual({ child: 40 });
+      expect(parseScheduleTicketPrices({ adult: '' })).toBeUndefined();
+      expect(formatScheduleTicketPrices({ child: 40 })).toEqual({ child: '40' });
+    });
+  });
+
+  describe('quantity caps', () => {
+    it('should cap a booking at the seats left, up to the per-booking maximum', () => {
+      expect(getMaxTickets(schedule())).toBe(8);
+      expect(getMaxTickets(schedule({ availableSeats: 40 }))).toBe(10);
+      expect(getMaxTickets(schedule({ unlimitedSeats: true }))).toBe(10);
+    });
+
+    it('should stop adding once the booking, the date or the type is full', () => {
+      expect(canAddTicket(child, { child: 2, 'db-adult': 1 }, schedule())).toBe(true);
+      expect(canAddTicket(adult, { child: 5, 'db-adult': 3 }, schedule())).toBe(false);
+      expect(canAddTicket(child, { child: 3 }, schedule({ availableSeats: 40, ticketTypeSold: { child: 7 } }))).toBe(false);
+    });
+
+    it('should turn cart lines into a selection', () => {
+      expect(toTicketSelection([
+        { ticketTypeId: 'child', name: 'Child', quantity: 2, unitPrice: 35, total: 70 },
+        { ticketTypeId: 'db-adult', name: 'Accompanying adult', quantity: 1, unitPrice: 20, total: 20 },
+      ])).toEqual({ child: 2, 'db-adult': 1 });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Waitlist Utilities Tests
+ * Covers offer countdowns, finding a family's open entry and grouping for vendors
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatTimeRemaining,
+  getActiveWaitlistEntry,
+  getOfferTimeRemaining,
+  groupWaitlistBySchedule,
+  isOfferActive,
+  summarizeWaitlist,
+} from '../../utils/waitlistUtils';
+import type { WaitlistEntry } from '../../types/waitlist';
+
+const NOW = new Date('2026-03-01T10:00:00Z');
+
+const entry = (overrides: Partial<WaitlistEntry>): WaitlistEntry => ({
+  _id: 'entry',
+  eventId: 'event-1',
+  dateScheduleId: 'schedule-1',
+  participants: 2,
+  status: 'waiting',
+  position: 1,
+  createdAt: '2026-02-20T10:00:00Z',
+  updatedAt: '2026-02-20T10:00:00Z',
+  ...overrides,
+});
+
+describe('offer countdown', () => {
+  it('treats an offer as active only until it expires', () => {
+    expect(isOfferActive(entry({ status: 'offered', offerExpiresAt: '2026-03-01T12:00:00Z' }), NOW)).toBe(true);
+    expect(isOfferActive(entry({ status: 'offered', offerExpiresAt: '2026-03-01T09:00:00Z' }), NOW)).toBe(false);
+    expect(isOfferActive(entry({ status: 'waiting' }), NOW)).toBe(false);
+  });
+
+  it('formats the time left on an offer', () => {
+    expect(formatTimeRemaining(getOfferTimeRemaining('2026-03-02T13:00:00Z', NOW))).toBe('1d 3h');
+    expect(formatTimeRemaining(getOfferTimeRemaining('2026-03-01T12:15:00Z', NOW))).toBe('2h 15m');
+    expect(formatTimeRemaining(getOfferTimeRemaining('2026-03-01T10:04:00Z', NOW))).toBe('4m');
+    expect(formatTimeRemaining(getOfferTimeRemaining('2026-03-01T09:00:00Z', NOW))).toBe('Expired');
+  });
+});
+
+describe('getActiveWaitlistEntry', () => {
+  it('finds the open entry for the schedule and ignores closed ones', () => {
+    const entries = [
+      entry({ _id: 'old', status: 'expired' }),
+      entry({ _id: 'other', dateScheduleId: 'schedule-2' }),
+      entry({ _id: 'current', status: 'offered' }),
+    ];
+
+    expect(getActiveWaitlistEntry(entries, 'event-1', 'schedule-1')?._id).toBe('current');
+    expect(getActiveWaitlistEntry(entries, 'event-2', 'schedule-1')).toBeUndefined();
+  });
+});
+
+describe('vendor grouping', () => {
+  const entries = [
+    entry({ _id: 'late-2', dateScheduleId: 'late', position: 2, schedule: { _id: 'late', startDateTime: '2026-04-10T09:00:00Z' } }),
+    entry({ _id: 'late-done', dateScheduleId: 'late', status: 'claimed', position: 0, schedule: { _id: 'late', startDateTime: '2026-04-10T09:00:00Z' } }),
+    entry({ _id: 'late-1', dateScheduleId: 'late', position: 1, participants: 3, schedule: { _id: 'late', startDateTime: '2026-04-10T09:00:00Z' } }),
+    entry({
+      _id: 'early-offer',
+      dateScheduleId: 'early',
+      status: 'offered',
+      position: 0,
+      offerExpiresAt: '2026-03-01T20:00:00Z',
+      schedule: { _id: 'early', startDateTime: '2026-03-15T09:00:00Z' },
+    }),
+  ];
+
+  it('orders schedules by date and entries by queue position', () => {
+    const groups = groupWaitlistBySchedule(entries);
+
+    expect(groups.map(({ dateScheduleId }) => dateScheduleId)).toEqual(['early', 'late']);
+    expect(groups[1].entries.map(({ _id }) => _id)).toEqual(['late-1', 'late-2', 'late-done']);
+  });
+
+  it('counts waiting families, seats and live offers', () => {
+    expect(summarizeWaitlist(entries, NOW)).toEqual({ waiting: 2, offered: 1, participantsWaiting: 5 });
+  });
+});
@@ -0,0 +1,63 @@
+// Audit log types
+// The server records every privileged admin action with who did it, what it changed and why.
+// Actions that need a justification send it with the request as the audit reason.
+
+export type AuditEntityType =
+  | 'user'
+  | 'vendor'
+  | 'event'
+  | 'order'
+  | 'payout'
+  | 'commission'
+  | 'venue'
+  | 'settings';
+
+export interface AuditActor {
+  _id: string;
+  name: string;
+  email?: string;
+  role?: string;
+  impersonatorId?: string; // Set when an admin acted while signed in as another user
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  action: string; // e.g. 'user.status_changed', 'payout.approved'
+  actor: AuditActor;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string; // Name, email or number of the target when it was changed
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  reason?: string;
+  ipAddress?: string;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  actor?: string; // Name, email or id of the admin who acted
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface AuditFieldChange {
+  path: string; // Dot path of the changed field, e.g. 'features.reviewSystem'
+  before: unknown;
+  after: unknown;
+}
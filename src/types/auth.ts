@@ -1,5 +1,8 @@
 // Auth Types
 
+import type { ImpersonationSession } from './impersonation';
+import type { EmployeeRole, Permission, StaffPermissionGrant } from './permission';
+
 // User type definition
 export interface User {
   id: string;
@@ -26,6 +29,10 @@ export interface User {
   };
   createdAt: string;
   updatedAt: string;
+  impersonation?: ImpersonationSession | null; // Set by /auth/me while an admin is viewing as this user
+  adminRoleId?: string | null;
+  permissions?: Permission[]; // Resolved from the admin role; absent for admins with full access
+  employeeDetails?: EmployeeDetails;
 }
 
 // Login credentials type
@@ -303,11 +310,8 @@ export interface SocialMedia {
 export interface EmployeeDetails {
   employeeId: string;
   vendorId: string;
-  employeeRole: 'manager' | 'scanner' | 'coordinator' | 'security';
-  permissions?: Array<{
-    action: string;
-    scope: 'all' | 'assigned';
-  }>;
+  employeeRole: EmployeeRole;
+  permissions?: StaffPermissionGrant[]; // Empty means the role preset applies
   assignedEvents?: string[];
   assignedVenues?: string[];
   emergencyContact?: {
@@ -354,6 +358,7 @@ export interface AdminUser {
   socialLogins?: SocialLogin[];
   loginAttempts?: LoginAttempt[];
   employeeDetails?: EmployeeDetails;
+  adminRoleId?: string | null;
   lastLogin?: string;
   createdAt: string;
   updatedAt: string;
@@ -382,9 +387,9 @@ export interface CreateUserRequest {
 
   // Employee-specific
   employeeId?: string;
-  employeeRole?: 'manager' | 'scanner' | 'coordinator' | 'security';
+  employeeRole?: EmployeeRole;
   vendorId?: string;
-  permissions?: Array<{ action: string; scope: 'all' | 'assigned' }>;
+  permissions?: StaffPermissionGrant[];
   emergencyContact?: {
     name: string;
     phone: string;
@@ -0,0 +1,86 @@
+// Booking import types
+// Vendors moving from spreadsheets upload a CSV or XLSX file, map its columns to booking fields,
+// and get a dry-run report before anything is created. Rejected rows can be downloaded, fixed and
+// uploaded again with the same mapping.
+
+export type BookingImportFieldKey =
+  | 'customerName'
+  | 'customerEmail'
+  | 'customerPhone'
+  | 'eventTitle'
+  | 'eventDate'
+  | 'quantity'
+  | 'totalAmount'
+  | 'currency'
+  | 'status'
+  | 'paymentStatus'
+  | 'participantNames';
+
+// Spreadsheet header chosen for each booking field; unmapped fields are left out
+export type BookingImportMapping = Partial<Record<BookingImportFieldKey, string>>;
+
+export type BookingImportDateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface BookingImportParseOptions {
+  dateOrder: BookingImportDateOrder; // How ambiguous dates such as 03/04/2025 are read
+  decimalSeparator: '.' | ',';
+}
+
+export type BookingImportIssueCode =
+  | 'missing_value'
+  | 'invalid_number'
+  | 'invalid_date'
+  | 'invalid_email'
+  | 'unknown_event'
+  | 'missing_schedule'
+  | 'duplicate_participant'
+  | 'server_rejected';
+
+export interface BookingImportIssue {
+  code: BookingImportIssueCode;
+  field?: BookingImportFieldKey;
+  message: string;
+}
+
+// The row sent to POST /vendors/bookings/import
+export interface BookingImportRecord {
+  rowNumber: number; // Row in the uploaded sheet, counting the header as row 1
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  eventTitle: string;
+  eventId?: string;
+  scheduleId?: string;
+  eventDate: string; // yyyy-MM-dd
+  quantity: number;
+  totalAmount: number;
+  currency?: string;
+  status?: string;
+  paymentStatus?: string;
+  participantNames?: string; // Names separated by "; "
+}
+
+export interface BookingImportRow {
+  rowNumber: number;
+  cells: string[]; // As uploaded, so rejected rows download unchanged
+  record: BookingImportRecord | null; // Null when the row has issues
+  issues: BookingImportIssue[];
+}
+
+export interface BookingImportReport {
+  rows: BookingImportRow[];
+  validCount: number;
+  rejectedCount: number;
+}
+
+export interface BookingImportFailure {
+  row?: number;
+  rowNumber?: number;
+  reason: string;
+}
+
+export interface BookingImportResult {
+  successful: any[];
+  failed: BookingImportFailure[];
+  dryRun?: boolean;
+}
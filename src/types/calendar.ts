@@ -0,0 +1,14 @@
+// Calendar types
+// Private iCal subscription feeds. A feed URL carries a secret token, so resetting a feed issues a
+// new URL and the old one stops working; turning a feed off revokes it without a replacement.
+
+export type CalendarFeedScope =
+  | 'bookings' // The signed-in user's upcoming bookings
+  | 'vendor'; // Every date schedule across the vendor's events
+
+export interface CalendarFeed {
+  scope: CalendarFeedScope;
+  url: string;
+  createdAt: string;
+  lastAccessedAt?: string;
+}
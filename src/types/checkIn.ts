@@ -0,0 +1,103 @@
+// Ticket check-in types shared by the scanner, the offline manifest and the sync queue
+
+export type TicketVerificationStatus = 'verified' | 'expired' | 'invalid' | 'already_used' | 'not_yet_valid';
+
+export interface VerifiedTicket {
+  id: string;
+  ticketNumber: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  attendeePhone?: string;
+  ticketType: string;
+  seatNumber?: string;
+  price: number;
+  currency: string;
+  eventTitle: string;
+  eventDate: string;
+  eventLocation: string;
+  scanCount: number;
+  validUntil: string;
+  checkInTime?: string;
+  usedAt?: string;
+  usedBy?: string;
+  expiredAt?: string;
+  validFrom?: string;
+}
+
+export interface TicketVerificationResult {
+  success: boolean;
+  status: TicketVerificationStatus;
+  message: string;
+  offline?: boolean; // Verified against the downloaded manifest rather than the server
+  data?: {
+    ticket: VerifiedTicket;
+  };
+}
+
+// A ticket as downloaded for offline scanning
+export interface ManifestTicket {
+  id: string;
+  ticketNumber: string;
+  qrCode: string; // Raw QR payload the ticket was issued with
+  orderId?: string;
+  bookingId?: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  attendeePhone?: string;
+  ticketType: string;
+  seatNumber?: string;
+  price: number;
+  currency: string;
+  status: 'active' | 'used' | 'cancelled' | 'expired' | 'transferred'; // Transferred tickets were reissued with a new QR
+  validFrom?: string;
+  validUntil: string;
+  checkedInAt?: string; // Set by the server, or locally once queued on this device
+  checkedInBy?: string;
+  scanCount: number;
+}
+
+export interface CheckInManifest {
+  eventId: string;
+  eventTitle: string;
+  eventDate: string;
+  eventLocation: string;
+  generatedAt: string; // Server time the manifest was built
+  downloadedAt: string;
+  tickets: ManifestTicket[];
+}
+
+export type QueuedCheckInStatus = 'pending' | 'conflict' | 'rejected';
+
+export interface QueuedCheckIn {
+  id: string; // Client-generated so retries are idempotent on the server
+  eventId: string;
+  ticketId: string;
+  ticketNumber: string;
+  attendeeName: string;
+  deviceId: string;
+  scannedAt: string;
+  location?: string;
+  status: QueuedCheckInStatus;
+  syncUrl: string; // Absolute endpoint so the service worker can replay it
+  attempts: number;
+  lastError?: string;
+  conflict?: {
+    checkedInAt: string;
+    deviceId?: string;
+    checkedInBy?: string;
+  };
+}
+
+// Per check-in outcome returned by the sync endpoint
+export interface CheckInSyncResult {
+  clientId: string;
+  status: 'accepted' | 'duplicate' | 'conflict' | 'rejected';
+  message?: string;
+  existingCheckIn?: {
+    checkedInAt: string;
+    deviceId?: string;
+    checkedInBy?: string;
+  };
+}
+
+export type CheckInConnectionState = 'online' | 'offline' | 'syncing';
@@ -1,3 +1,6 @@
+import type { CurrencyCode } from '../utils/currencyUtils';
+import type { FieldConditionGroup } from './registration';
+
 export interface EventLocation {
   coordinates: {
     lat: number;
@@ -33,6 +36,52 @@ export interface EventDateSchedule {
   price?: number;
   unlimitedSeats?: boolean;
   isOverride?: boolean;
+  seriesId?: string; // Set on rows generated from a ScheduleRecurrenceRule
+  ticketPrices?: Record<string, number>; // Per-date price for a ticket type, keyed by ticket type id
+  ticketTypeSold?: Record<string, number>; // Seats sold per ticket type, for capacity shares
+}
+
+// Time-based price for a ticket type, e.g. early-bird until a date. The earliest tier that
+// hasn't ended applies; once all have ended the ticket type's own price is used.
+export interface EventTicketPriceTier {
+  id: string;
+  label: string;
+  price: number;
+  endsAt: string; // yyyy-MM-dd, last day the tier applies
+}
+
+// Kind of ticket sold for an event (child, accompanying adult, sibling, member...). An event
+// without ticket types is sold at a single price per seat as before.
+export interface EventTicketType {
+  id: string;
+  _id?: string;
+  name: string;
+  description?: string;
+  price: number;
+  capacity?: number; // Max seats of this type per date; unset shares the date's seats
+  minAge?: number;
+  maxAge?: number;
+  priceTiers?: EventTicketPriceTier[];
+}
+
+export type ScheduleRecurrenceFrequency = 'daily' | 'weekly' | 'custom';
+
+// Series rule for courses and weekly classes; it expands into dateSchedule rows that carry its id
+// as seriesId. Rows marked isOverride are one-off exceptions and keep their own seats/price/times.
+export interface ScheduleRecurrenceRule {
+  id: string;
+  frequency: ScheduleRecurrenceFrequency;
+  interval: number; // Every N days (daily) or weeks (weekly/custom)
+  weekdays: number[]; // 0 = Sunday; used by 'custom'
+  startDate: string; // yyyy-MM-dd, first possible occurrence
+  endDate?: string; // Stop after this date...
+  count?: number; // ...or after this many occurrences
+  excludedDates: string[]; // Skipped dates such as public holidays
+  startTime?: string;
+  endTime?: string;
+  availableSeats: number;
+  price: number;
+  unlimitedSeats?: boolean;
 }
 
 export interface EventFaq {
@@ -60,6 +109,8 @@ export interface RegistrationField {
   section?: string;
   order: number;
   helpText?: string;
+  visibleWhen?: FieldConditionGroup;
+  requiredWhen?: FieldConditionGroup;
 }
 
 export interface RegistrationConfig {
@@ -122,11 +173,16 @@ export interface Event {
   seoMeta: EventSeoMeta;
   vendorId: EventVendor;
   price: number;
-  currency: 'AED' | 'EGP' | 'CAD' | 'USD';
+  currency: CurrencyCode;
   isApproved: boolean;
   status: 'draft' | 'published' | 'archived' | 'pending' | 'rejected';
   tags: string[];
   dateSchedule: EventDateSchedule[];
+  recurrenceRules?: ScheduleRecurrenceRule[];
+  ticketTypes?: EventTicketType[];
+  // Reserved seating: families pick seats from the seat map of this venue
+  reservedSeating?: boolean;
+  venueId?: string;
   faqs: EventFaq[];
   viewsCount: number;
   isFeatured: boolean;
@@ -187,7 +243,7 @@ export interface EventSearchFilters {
   city?: string;
   minPrice?: number;
   maxPrice?: number;
-  currency?: 'AED' | 'EGP' | 'CAD' | 'USD';
+  currency?: CurrencyCode;
   ageMin?: number;
   ageMax?: number;
   featured?: boolean;
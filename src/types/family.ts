@@ -0,0 +1,14 @@
+// Family types
+// Children saved on a parent's account and reused to fill participant and registration forms.
+// Ages are never stored; they are worked out from the date of birth on the event date.
+
+import type { IParticipant } from './order';
+
+export interface ChildProfile extends Omit<IParticipant, 'age'> {
+  _id: string;
+  dateOfBirth: string; // yyyy-MM-dd
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type ChildProfileData = Omit<ChildProfile, '_id' | 'createdAt' | 'updatedAt'>;
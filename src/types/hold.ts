@@ -0,0 +1,27 @@
+// Seat hold types
+// Adding to the cart (or entering checkout) holds seats on a date schedule for a few minutes so two
+// families can't both pay for the last seats. The server releases a hold once it expires.
+
+export type SeatHoldStatus = 'active' | 'released' | 'expired' | 'converted';
+
+export interface SeatHold {
+  _id: string;
+  eventId: string;
+  dateScheduleId: string;
+  quantity: number;
+  expiresAt: string;
+  status: SeatHoldStatus;
+}
+
+export interface CreateSeatHoldData {
+  eventId: string;
+  dateScheduleId: string;
+  quantity: number;
+}
+
+// The part of a hold the cart keeps on each item
+export interface CartItemHold {
+  id: string;
+  quantity: number;
+  expiresAt: string;
+}
@@ -0,0 +1,22 @@
+// Impersonation types
+// Support staff can view the app as a customer or vendor for a limited time. The server swaps
+// the session cookies and records every session with the admin who started it and why.
+
+export interface ImpersonationSession {
+  _id: string;
+  impersonator: {
+    _id: string;
+    name: string;
+    email?: string;
+  };
+  targetUserId: string;
+  reason: string;
+  startedAt: string;
+  expiresAt: string;
+}
+
+export interface StartImpersonationData {
+  userId: string;
+  reason: string;
+  durationMinutes: number;
+}
@@ -3,4 +3,16 @@ export * from './event';
 export * from './review';
 export * from './blog';
 export * from './order';
-export * from './registration';
\ No newline at end of file
+export * from './registration';
+export * from './checkIn';
+export * from './waitlist';
+export * from './seating';
+export * from './hold';
+export * from './family';
+export * from './calendar';
+export * from './transfer';
+export * from './bookingImport';
+export * from './audit';
+export * from './impersonation';
+export * from './permission';
+export * from './invoice';
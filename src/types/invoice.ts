@@ -0,0 +1,58 @@
+// Tax invoice types
+// UAE VAT tax invoices and credit notes for orders. The backend numbers each document in issue
+// order (invoices and credit notes in separate sequences) and snapshots the platform and vendor
+// details at that moment; the amounts are worked out from the order when the PDF is drawn.
+
+import type { IOrder } from './order';
+
+export type TaxDocumentType =
+  | 'tax_invoice'  // Issued once the order is paid
+  | 'credit_note'; // Issued for each refund, against the original invoice
+
+export interface TaxParty {
+  name: string;
+  trn?: string; // 15-digit VAT Tax Registration Number
+  address?: string;
+  email?: string;
+}
+
+export interface TaxDocumentRecord {
+  _id: string;
+  type: TaxDocumentType;
+  number: string; // e.g. INV-2026-000123 or CN-2026-000045
+  orderId: string;
+  issuedAt: string;
+  platform: TaxParty; // Kidrove, which collects the payment and charges the service fee
+  vendor: TaxParty;   // Supplier of the booked events
+  invoiceNumber?: string; // Credit notes: the invoice being credited
+  amount?: number;        // Credit notes: amount refunded, including VAT
+  reason?: string;        // Credit notes: reason for the refund
+}
+
+// The order fields a tax document is built from
+export type TaxableOrder = Pick<
+  IOrder,
+  'orderNumber' | 'items' | 'subtotal' | 'tax' | 'discount' | 'total' | 'currency' | 'createdAt'
+> &
+  Partial<Pick<IOrder, 'serviceFee' | 'billingAddress' | 'refundAmount' | 'refundReason'>>;
+
+export interface OrderTaxDocuments {
+  order: TaxableOrder;
+  documents: TaxDocumentRecord[];
+}
+
+export interface TaxDocumentLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxableAmount: number; // Excluding VAT; negative for discounts
+  vatAmount: number;
+  totalAmount: number;
+}
+
+export interface TaxDocumentTotals {
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  vatRate: number; // Percent, e.g. 5
+}
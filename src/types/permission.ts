@@ -0,0 +1,90 @@
+// Permission types
+// Admin access is granted per permission. Staff accounts get their permissions from an admin role
+// built in the role editor; admins without a role keep full access.
+
+export type Permission =
+  | 'dashboard.view'
+  | 'users.view'
+  | 'users.manage'
+  | 'users.impersonate'
+  | 'vendors.view'
+  | 'vendors.manage'
+  | 'events.view'
+  | 'events.manage'
+  | 'events.moderate'
+  | 'venues.manage'
+  | 'categories.manage'
+  | 'orders.view'
+  | 'orders.manage'
+  | 'orders.refund'
+  | 'blogs.manage'
+  | 'collections.manage'
+  | 'media.manage'
+  | 'coupons.manage'
+  | 'partnerships.manage'
+  | 'payouts.view'
+  | 'payouts.manage'
+  | 'commissions.view'
+  | 'commissions.manage'
+  | 'employees.manage'
+  | 'analytics.view'
+  | 'audit.view'
+  | 'settings.manage'
+  | 'roles.manage';
+
+export interface PermissionDefinition {
+  key: Permission;
+  label: string;
+  description: string;
+}
+
+export interface PermissionGroup {
+  id: string;
+  label: string;
+  permissions: PermissionDefinition[];
+}
+
+export interface AdminRole {
+  _id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  userCount?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AdminRoleInput {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+// Vendor staff permissions
+// Vendors grant these to their employees, either for all of the vendor's events or only the events
+// the employee is assigned to.
+
+export type StaffPermission =
+  | 'tickets.scan'
+  | 'bookings.view'
+  | 'bookings.edit'
+  | 'bookings.export'
+  | 'registrations.view'
+  | 'registrations.approve'
+  | 'attendees.message'
+  | 'revenue.view';
+
+export type StaffPermissionScope = 'all' | 'assigned';
+
+export interface StaffPermissionGrant {
+  action: StaffPermission;
+  scope: StaffPermissionScope;
+}
+
+export interface StaffPermissionDefinition {
+  key: StaffPermission;
+  label: string;
+  description: string;
+}
+
+export type EmployeeRole = 'manager' | 'scanner' | 'coordinator' | 'security';
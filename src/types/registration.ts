@@ -52,6 +52,27 @@ export interface FieldValidation {
   max?: number;
 }
 
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than';
+
+export interface FieldCondition {
+  fieldId: string; // The field whose answer is checked
+  operator: ConditionOperator;
+  value?: string; // Not used by is_empty / is_not_empty
+}
+
+export interface FieldConditionGroup {
+  match: 'all' | 'any';
+  conditions: FieldCondition[];
+}
+
 export interface FormField {
   id: string;
   label: string;
@@ -65,6 +86,8 @@ export interface FormField {
   section?: string;
   order: number;
   helpText?: string;
+  visibleWhen?: FieldConditionGroup; // Hidden (and skipped on submit) unless these match
+  requiredWhen?: FieldConditionGroup; // Required only when these match
 }
 
 export interface EmailNotifications {
@@ -213,6 +236,7 @@ export interface UpdateRegistrationRequest {
   registrationId: string;
   registrationData: RegistrationData[];
   files?: File[];
+  saveAsDraft?: boolean; // Drafts only: false submits the draft
 }
 
 export interface WithdrawRegistrationRequest {
@@ -69,6 +69,10 @@ export interface SearchFilters {
   featured?: boolean;
   dateFrom?: string;
   dateTo?: string;
+  // Search area from the map (km radius around lat/lng)
+  lat?: number;
+  lng?: number;
+  radius?: number;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   page?: number;
@@ -0,0 +1,63 @@
+// Reserved seating types
+// A venue can carry a seat map (sections of rows laid out on a plan); events held there can opt into
+// reserved seating so families pick specific seats for a date schedule instead of just a quantity.
+
+export type SeatType = 'standard' | 'premium' | 'vip' | 'accessible';
+
+export type SeatStatus =
+  | 'available'
+  | 'selected' // Chosen in the current booking (client-side only)
+  | 'reserved' // Held by another booking that hasn't been paid yet
+  | 'sold';
+
+export interface VenueSeat {
+  id: string; // Stable across edits, e.g. "A3-5"
+  row: string;
+  number: number;
+  type: SeatType;
+  x: number;
+  y: number;
+}
+
+export interface VenueSeatSection {
+  id: string;
+  name: string;
+  type: Exclude<SeatType, 'accessible'>;
+  color: string;
+  // Layout used to generate the seats; individual seats can still be marked accessible
+  rowStart: string; // Label of the first row, e.g. "A"
+  rows: number;
+  seatsPerRow: number;
+  x: number;
+  y: number;
+  seats: VenueSeat[];
+}
+
+export interface VenueSeatMap {
+  width: number;
+  height: number;
+  stageLabel?: string;
+  sections: VenueSeatSection[];
+}
+
+// Seats that can't be picked for one date schedule; every other seat on the map is available
+export interface ScheduleSeatAvailability {
+  seatMap: VenueSeatMap;
+  unavailable: Record<string, Exclude<SeatStatus, 'available' | 'selected'>>;
+}
+
+// A seat as shown in the booking picker
+export interface BookableSeat extends VenueSeat {
+  section: string;
+  status: SeatStatus;
+  price: number;
+}
+
+export interface BookableSeatSection extends Omit<VenueSeatSection, 'seats'> {
+  seats: BookableSeat[];
+}
+
+export interface EventSeatingSettings {
+  reservedSeating: boolean;
+  venueId?: string;
+}
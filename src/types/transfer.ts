@@ -0,0 +1,64 @@
+// Ticket transfer types
+// A parent can hand a ticket to someone else (e.g. a grandparent taking the child). The recipient
+// accepts through a link sent by email or SMS; on acceptance the ticket is reissued to them with a
+// new QR code and the original QR stops scanning.
+
+export type TicketDeliveryMethod = 'email' | 'sms';
+
+export type TicketTransferStatus =
+  | 'pending'   // Sent, waiting for the recipient; the original QR still works
+  | 'accepted'  // Reissued to the recipient; the original QR is void
+  | 'declined'  // Recipient turned it down; the ticket stays with the sender
+  | 'cancelled' // Sender withdrew it before acceptance
+  | 'expired';  // Not accepted in time; the ticket stays with the sender
+
+export interface TicketTransfer {
+  _id: string;
+  ticketId: string;
+  method: TicketDeliveryMethod;
+  recipientName: string;
+  recipientEmail?: string;
+  recipientPhone?: string;
+  message?: string;
+  status: TicketTransferStatus;
+  createdAt: string;
+  expiresAt?: string;
+  respondedAt?: string;
+  newTicketNumber?: string; // Ticket issued to the recipient once accepted
+}
+
+export interface TicketTransferData {
+  method: TicketDeliveryMethod;
+  recipientName: string;
+  recipientEmail?: string;
+  recipientPhone?: string;
+  message?: string;
+}
+
+// What the recipient sees on the acceptance link
+export interface TicketTransferInvite {
+  token: string;
+  status: TicketTransferStatus;
+  senderName: string;
+  recipientName: string;
+  message?: string;
+  expiresAt?: string;
+  ticket: {
+    ticketNumber: string;
+    attendeeName: string;
+    ticketType?: string;
+  };
+  event: {
+    _id: string;
+    title: string;
+    images?: string[];
+    location?: {
+      address?: string;
+      city?: string;
+    };
+  };
+  schedule?: {
+    startDateTime: string;
+    endDateTime?: string;
+  };
+}
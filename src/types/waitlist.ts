@@ -0,0 +1,87 @@
+// Waitlist types for sold-out event schedules
+// Families queue per EventDateSchedule; when seats free up (cancellations or a capacity increase)
+// the backend offers them to the next entries with a time-limited claim link.
+
+export type WaitlistStatus =
+  | 'waiting'   // In the queue
+  | 'offered'   // Seats are held until offerExpiresAt
+  | 'claimed'   // Offer was used to book
+  | 'expired'   // Offer ran out; seats moved on to the next entry
+  | 'declined'  // Family turned the offer down
+  | 'cancelled' // Family left the waitlist
+  | 'removed';  // Vendor removed the entry
+
+export interface WaitlistUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+}
+
+export interface WaitlistEventSummary {
+  _id: string;
+  title: string;
+  images?: string[];
+  location?: {
+    city?: string;
+    address?: string;
+  };
+}
+
+export interface WaitlistScheduleSummary {
+  _id: string;
+  startDateTime: string;
+  endDateTime?: string;
+  availableSeats?: number;
+  totalSeats?: number;
+}
+
+export interface WaitlistEntry {
+  _id: string;
+  eventId: string;
+  dateScheduleId: string;
+  participants: number;
+  status: WaitlistStatus;
+  position: number; // 1-based place among waiting entries for the schedule, 0 once no longer waiting
+  offerExpiresAt?: string;
+  offeredAt?: string;
+  offeredBy?: 'auto' | 'vendor';
+  claimToken?: string; // Only returned on the family's own entries
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  event?: WaitlistEventSummary;
+  schedule?: WaitlistScheduleSummary;
+  user?: WaitlistUser; // Populated for vendors
+}
+
+export interface JoinWaitlistData {
+  eventId: string;
+  dateScheduleId: string;
+  participants: number;
+  notes?: string;
+}
+
+// Claim link payload: what the offer holds and until when
+export interface WaitlistClaim {
+  token: string;
+  entry: WaitlistEntry;
+  event: WaitlistEventSummary & { currency?: string; price?: number };
+  schedule: WaitlistScheduleSummary & { price?: number };
+  participants: number;
+  expiresAt: string;
+}
+
+export interface WaitlistOfferOptions {
+  offerHours: number;
+  seats?: number; // Defaults to the entry's participant count
+}
+
+// Seat hold carried through the booking flow after following a claim link
+export interface WaitlistBookingClaim {
+  token: string;
+  dateScheduleId: string;
+  seats: number;
+  expiresAt: string;
+}
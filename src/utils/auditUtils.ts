@@ -0,0 +1,108 @@
+// Audit log utilities
+// Field-level diffs between an entity's before and after snapshots, readable action names, and
+// the rows of the audit log CSV export.
+
+import type { AuditEntityType, AuditFieldChange, AuditLogEntry } from '../types/audit';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'User',
+  vendor: 'Vendor',
+  event: 'Event',
+  order: 'Order',
+  payout: 'Payout',
+  commission: 'Commission config',
+  venue: 'Venue',
+  settings: 'Settings',
+};
+
+export const MIN_AUDIT_REASON_LENGTH = 5;
+
+// Snapshot fields that change on every save and would only add noise to a diff
+const IGNORED_FIELDS = new Set(['updatedAt', '__v']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 'user.status_changed' -> 'User status changed'
+ */
+export const formatAuditAction = (action: string): string => {
+  const text = action.replace(/[._]+/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Changed fields between two snapshots as dot paths. Nested objects are compared field by field;
+ * arrays are compared as a whole.
+ */
+export const getAuditChanges = (
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null,
+  prefix = ''
+): AuditFieldChange[] => {
+  const changes: AuditFieldChange[] = [];
+  const keys = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})])).sort();
+
+  keys.forEach((key) => {
+    if (IGNORED_FIELDS.has(key)) return;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    const previous = before?.[key];
+    const next = after?.[key];
+
+    if (isPlainObject(previous) && isPlainObject(next)) {
+      changes.push(...getAuditChanges(previous, next, path));
+    } else if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ path, before: previous, after: next });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * A reason is required for actions that change money, access or moderation decisions
+ */
+export const validateAuditReason = (reason: string): string | null => {
+  if (!reason.trim()) return 'Please give a reason; it is recorded in the audit log';
+  if (reason.trim().length < MIN_AUDIT_REASON_LENGTH) return 'Please describe the reason in a few more words';
+  return null;
+};
+
+export const AUDIT_CSV_HEADERS = [
+  'Timestamp',
+  'Actor',
+  'Actor Email',
+  'Action',
+  'Entity Type',
+  'Entity ID',
+  'Entity',
+  'Changes',
+  'Reason',
+  'IP Address',
+];
+
+export const buildAuditCsvRows = (entries: AuditLogEntry[]): string[][] => [
+  AUDIT_CSV_HEADERS,
+  ...entries.map((entry) => [
+    entry.createdAt,
+    entry.actor?.name || '',
+    entry.actor?.email || '',
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.entityLabel || '',
+    getAuditChanges(entry.before, entry.after)
+      .map((change) => `${change.path}: ${formatAuditValue(change.before)} -> ${formatAuditValue(change.after)}`)
+      .join('; '),
+    entry.reason || '',
+    entry.ipAddress || '',
+  ]),
+];
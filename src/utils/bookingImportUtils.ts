@@ -0,0 +1,371 @@
+// Booking import utilities
+// Maps spreadsheet columns to booking fields, parses numbers and dates the way the vendor's locale
+// writes them, and validates every row against the vendor's events before anything is imported.
+
+import type {
+  BookingImportDateOrder,
+  BookingImportFailure,
+  BookingImportFieldKey,
+  BookingImportIssue,
+  BookingImportMapping,
+  BookingImportParseOptions,
+  BookingImportRecord,
+  BookingImportReport,
+  BookingImportRow,
+} from '../types/bookingImport';
+
+export interface BookingImportField {
+  key: BookingImportFieldKey;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Other header names recognised when columns are mapped automatically
+}
+
+export const BOOKING_IMPORT_FIELDS: BookingImportField[] = [
+  { key: 'customerName', label: 'Customer Name', required: true, aliases: ['name', 'customer', 'parent name', 'full name'] },
+  { key: 'customerEmail', label: 'Customer Email', required: true, aliases: ['email', 'e-mail', 'email address'] },
+  { key: 'customerPhone', label: 'Customer Phone', required: false, aliases: ['phone', 'mobile', 'phone number', 'telephone'] },
+  { key: 'eventTitle', label: 'Event Title', required: true, aliases: ['event', 'event name', 'activity', 'class'] },
+  { key: 'eventDate', label: 'Event Date', required: true, aliases: ['date', 'session date', 'booking date'] },
+  { key: 'quantity', label: 'Quantity', required: true, aliases: ['qty', 'tickets', 'seats', 'number of tickets'] },
+  { key: 'totalAmount', label: 'Total Amount', required: true, aliases: ['amount', 'total', 'price', 'paid'] },
+  { key: 'currency', label: 'Currency', required: false, aliases: [] },
+  { key: 'status', label: 'Status', required: false, aliases: ['booking status'] },
+  { key: 'paymentStatus', label: 'Payment Status', required: false, aliases: ['payment'] },
+  { key: 'participantNames', label: 'Participant Names', required: false, aliases: ['participants', 'children', 'child names', 'attendees'] },
+];
+
+// The vendor's events with the schedule dates a booking can be imported into
+export interface BookingImportEvent {
+  _id: string;
+  title: string;
+  dateSchedule?: Array<{ _id?: string; date?: string; startDate?: string; startDateTime?: string }>;
+}
+
+const MAPPINGS_STORAGE_KEY = 'bookingImportMappings';
+export const REJECTED_ROWS_ERRORS_HEADER = 'Errors';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Arabic-Indic and Persian digits to ASCII, so sheets typed in Arabic parse like any other
+const normalizeDigits = (value: string) =>
+  value
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, '.')
+    .replace(/٬/g, ',');
+
+/**
+ * Defaults for reading dates and numbers typed by someone using this locale: en-US writes
+ * month first, most other locales day first, and many use a decimal comma.
+ */
+export const getDefaultParseOptions = (locale: string): BookingImportParseOptions => {
+  let decimal = '.';
+  try {
+    decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value || '.';
+  } catch {
+    // Unknown locale; keep the decimal point
+  }
+
+  const dateOrder: BookingImportDateOrder = /^en-(US|PH)$/i.test(locale) ? 'MDY' : /^(zh|ja|ko|hu|lt)\b/i.test(locale) ? 'YMD' : 'DMY';
+  return { dateOrder, decimalSeparator: decimal === ',' ? ',' : '.' };
+};
+
+/**
+ * Saved mappings are keyed by the sheet's normalized headers, so "Event Date" and "event_date"
+ * are the same column and a re-uploaded rejected-rows file matches its original
+ */
+const getMappingSignature = (headers: string[]) =>
+  headers
+    .map(normalizeHeader)
+    .filter((header) => header && header !== normalizeHeader(REJECTED_ROWS_ERRORS_HEADER))
+    .sort()
+    .join('|');
+
+export const loadSavedMappings = (): Record<string, BookingImportMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveMapping = (headers: string[], mapping: BookingImportMapping): void => {
+  try {
+    const mappings = loadSavedMappings();
+    mappings[getMappingSignature(headers)] = mapping;
+    localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+  } catch {
+    // Storage full or disabled; the mapping just won't be remembered
+  }
+};
+
+export const getSavedMapping = (
+  headers: string[],
+  savedMappings: Record<string, BookingImportMapping> = loadSavedMappings()
+): BookingImportMapping | null => savedMappings[getMappingSignature(headers)] || null;
+
+/**
+ * Picks a column for each field: the saved mapping for this header layout if there is one,
+ * otherwise headers that match the field's key, label or aliases
+ */
+export const autoMapColumns = (headers: string[], savedMapping?: BookingImportMapping | null): BookingImportMapping => {
+  const mapping: BookingImportMapping = {};
+  const used = new Set<string>();
+
+  BOOKING_IMPORT_FIELDS.forEach((field) => {
+    const saved = savedMapping?.[field.key];
+    if (saved && headers.includes(saved)) {
+      mapping[field.key] = saved;
+      used.add(saved);
+      return;
+    }
+
+    const names = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const match = headers.find((header) => !used.has(header) && names.includes(normalizeHeader(header)));
+    if (match) {
+      mapping[field.key] = match;
+      used.add(match);
+    }
+  });
+
+  return mapping;
+};
+
+export const getUnmappedRequiredFields = (mapping: BookingImportMapping): BookingImportField[] =>
+  BOOKING_IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key]);
+
+/**
+ * Reads "1,234.50", "1.234,50", "AED 500" or "٥٠٠"; returns null when the text is not a number
+ */
+export const parseImportNumber = (value: string, decimalSeparator: '.' | ','): number | null => {
+  let text = normalizeDigits(value).replace(/[\s']/g, '').replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+  text = text.split(groupSeparator).join('');
+  if (decimalSeparator === ',') text = text.replace(',', '.');
+
+  if (!/^-?\d*\.?\d+$/.test(text) && !/^-?\d+\.$/.test(text)) return null;
+  return Number(text);
+};
+
+const toDateString = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const toFullYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+/**
+ * A calendar date as yyyy-MM-dd, or null. Accepts ISO dates, Excel serial numbers, numeric
+ * dates in the given order (03/04/2025 is 3 April for DMY) and dates with English month names.
+ */
+export const parseImportDate = (value: string, dateOrder: BookingImportDateOrder): string | null => {
+  const text = normalizeDigits(value).trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return toDateString(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const date = new Date(EXCEL_EPOCH_MS + Math.floor(Number(text)) * DAY_MS);
+    return date.toISOString().slice(0, 10);
+  }
+
+  const numeric = text.match(/^(\d{1,4})[/.\-\s](\d{1,2})[/.\-\s](\d{1,4})$/);
+  if (numeric) {
+    const [a, b, c] = numeric.slice(1).map(Number);
+    if (numeric[1].length === 4 || dateOrder === 'YMD') return toDateString(toFullYear(a), b, c);
+    return dateOrder === 'MDY' ? toDateString(toFullYear(c), a, b) : toDateString(toFullYear(c), b, a);
+  }
+
+  // "15 Jan 2025", "January 15, 2025"
+  const monthIndex = MONTHS.findIndex((month) => new RegExp(`\\b${month}`, 'i').test(text));
+  const numbers = text.match(/\d+/g)?.map(Number) || [];
+  if (monthIndex >= 0 && numbers.length === 2) {
+    const [day, year] = numbers[0] > 31 ? [numbers[1], numbers[0]] : numbers;
+    return toDateString(toFullYear(year), monthIndex + 1, day);
+  }
+
+  return null;
+};
+
+export const splitParticipantNames = (value: string): string[] =>
+  value
+    .split(/[;|\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+const getScheduleDate = (schedule: NonNullable<BookingImportEvent['dateSchedule']>[number]) =>
+  (schedule.date || schedule.startDate || schedule.startDateTime || '').slice(0, 10);
+
+/**
+ * The dry run: parses every row with the mapping and reports why each rejected row can't be
+ * imported. Rows are numbered as in the sheet, with the header as row 1. Pass events as null to
+ * skip the event and schedule checks when the vendor's events couldn't be loaded.
+ */
+export const validateImportRows = (
+  headers: string[],
+  dataRows: string[][],
+  mapping: BookingImportMapping,
+  events: BookingImportEvent[] | null,
+  options: BookingImportParseOptions
+): BookingImportReport => {
+  const columnIndexes = Object.fromEntries(
+    Object.entries(mapping).map(([key, header]) => [key, header ? headers.indexOf(header) : -1])
+  ) as Partial<Record<BookingImportFieldKey, number>>;
+  const eventsByTitle = new Map((events || []).map((event) => [event.title.trim().toLowerCase(), event]));
+  const labels = Object.fromEntries(BOOKING_IMPORT_FIELDS.map((field) => [field.key, field.label]));
+  // "event|date|participant" -> first row it appeared on
+  const participantRows = new Map<string, number>();
+
+  const rows = dataRows.map((cells, index): BookingImportRow => {
+    const rowNumber = index + 2;
+    const issues: BookingImportIssue[] = [];
+    const read = (key: BookingImportFieldKey) => {
+      const column = columnIndexes[key];
+      return column !== undefined && column >= 0 ? (cells[column] || '').trim() : '';
+    };
+
+    BOOKING_IMPORT_FIELDS.filter((field) => field.required && !read(field.key)).forEach((field) =>
+      issues.push({ code: 'missing_value', field: field.key, message: `${field.label} is missing` })
+    );
+
+    const customerEmail = read('customerEmail');
+    if (customerEmail && !EMAIL_PATTERN.test(customerEmail)) {
+      issues.push({ code: 'invalid_email', field: 'customerEmail', message: `"${customerEmail}" is not a valid email` });
+    }
+
+    const parseNumberField = (key: 'quantity' | 'totalAmount') => {
+      const text = read(key);
+      if (!text) return null;
+      const value = parseImportNumber(text, options.decimalSeparator);
+      const valid = value !== null && value >= 0 && (key !== 'quantity' || (Number.isInteger(value) && value > 0));
+      if (!valid) issues.push({ code: 'invalid_number', field: key, message: `${labels[key]} "${text}" is not a valid number` });
+      return valid ? value : null;
+    };
+    const quantity = parseNumberField('quantity');
+    const totalAmount = parseNumberField('totalAmount');
+
+    const dateText = read('eventDate');
+    const eventDate = dateText ? parseImportDate(dateText, options.dateOrder) : null;
+    if (dateText && !eventDate) {
+      issues.push({ code: 'invalid_date', field: 'eventDate', message: `Event Date "${dateText}" is not a date` });
+    }
+
+    const eventTitle = read('eventTitle');
+    const event = eventsByTitle.get(eventTitle.toLowerCase());
+    const schedule = event && eventDate ? event.dateSchedule?.find((item) => getScheduleDate(item) === eventDate) : undefined;
+    if (events && eventTitle && !event) {
+      issues.push({ code: 'unknown_event', field: 'eventTitle', message: `No event called "${eventTitle}"` });
+    } else if (events && event && eventDate && !schedule) {
+      issues.push({ code: 'missing_schedule', field: 'eventDate', message: `"${event.title}" has no session on ${eventDate}` });
+    }
+
+    const participants = splitParticipantNames(read('participantNames'));
+    participants.forEach((name) => {
+      const key = `${eventTitle.toLowerCase()}|${eventDate}|${name.toLowerCase()}`;
+      const firstRow = participantRows.get(key);
+      if (firstRow === undefined) {
+        participantRows.set(key, rowNumber);
+      } else {
+        issues.push({
+          code: 'duplicate_participant',
+          field: 'participantNames',
+          message:
+            firstRow === rowNumber
+              ? `${name} is listed twice`
+              : `${name} is already booked on row ${firstRow} for the same event and date`,
+        });
+      }
+    });
+
+    if (issues.length > 0 || quantity === null || totalAmount === null || !eventDate) {
+      return { rowNumber, cells, record: null, issues };
+    }
+
+    const optional = (key: BookingImportFieldKey) => read(key) || undefined;
+    return {
+      rowNumber,
+      cells,
+      issues,
+      record: {
+        rowNumber,
+        customerName: read('customerName'),
+        customerEmail,
+        customerPhone: optional('customerPhone'),
+        eventTitle: event?.title || eventTitle,
+        eventId: event?._id,
+        scheduleId: schedule?._id,
+        eventDate,
+        quantity,
+        totalAmount,
+        currency: optional('currency')?.toUpperCase(),
+        status: optional('status')?.toLowerCase(),
+        paymentStatus: optional('paymentStatus')?.toLowerCase(),
+        participantNames: participants.length > 0 ? participants.join('; ') : undefined,
+      },
+    };
+  });
+
+  return summarizeImportRows(rows);
+};
+
+const summarizeImportRows = (rows: BookingImportRow[]): BookingImportReport => {
+  const validCount = rows.filter((row) => row.record).length;
+  return { rows, validCount, rejectedCount: rows.length - validCount };
+};
+
+/**
+ * Marks rows the server rejected. Failures name the sheet row when the server echoes rowNumber;
+ * otherwise row is the 1-based position in the records that were sent.
+ */
+export const applyServerFailures = (
+  report: BookingImportReport,
+  sent: BookingImportRecord[],
+  failures: BookingImportFailure[] = []
+): BookingImportReport => {
+  if (failures.length === 0) return report;
+
+  const reasons = new Map<number, string[]>();
+  failures.forEach((failure) => {
+    const rowNumber = failure.rowNumber ?? (failure.row !== undefined ? sent[failure.row - 1]?.rowNumber : undefined);
+    if (rowNumber !== undefined) reasons.set(rowNumber, [...(reasons.get(rowNumber) || []), failure.reason]);
+  });
+
+  return summarizeImportRows(
+    report.rows.map((row) => {
+      const rowReasons = reasons.get(row.rowNumber);
+      if (!rowReasons) return row;
+      return {
+        ...row,
+        record: null,
+        issues: [...row.issues, ...rowReasons.map((message) => ({ code: 'server_rejected' as const, message }))],
+      };
+    })
+  );
+};
+
+export const getValidRecords = (report: BookingImportReport): BookingImportRecord[] =>
+  report.rows.flatMap((row) => (row.record ? [row.record] : []));
+
+/**
+ * Rejected rows as uploaded, with an Errors column, so they can be fixed and uploaded again
+ * with the same mapping
+ */
+export const buildRejectedRows = (headers: string[], report: BookingImportReport): string[][] => [
+  [...headers.filter((header) => header !== REJECTED_ROWS_ERRORS_HEADER), REJECTED_ROWS_ERRORS_HEADER],
+  ...report.rows
+    .filter((row) => !row.record)
+    .map((row) => [
+      ...headers.flatMap((header, index) => (header === REJECTED_ROWS_ERRORS_HEADER ? [] : [row.cells[index] || ''])),
+      row.issues.map((issue) => issue.message).join('; '),
+    ]),
+];
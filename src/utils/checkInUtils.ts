@@ -0,0 +1,174 @@
+// Offline check-in utilities
+// Verifies scanned QR codes against a downloaded ticket manifest and folds sync results back
+// into the local check-in queue
+
+import type {
+  CheckInManifest,
+  CheckInSyncResult,
+  ManifestTicket,
+  QueuedCheckIn,
+  TicketVerificationResult,
+} from '../types/checkIn';
+import { decodeSignedQRToken, isSignedQRToken } from './qrSignature';
+
+interface TicketReference {
+  ticketNumber?: string;
+  ticketId?: string;
+}
+
+/**
+ * Pull the ticket identifiers out of a QR payload: a signed token (see qrSignature), a legacy
+ * JSON payload, or a plain ticket number on older printouts.
+ */
+export const extractTicketReference = (qrData: string): TicketReference => {
+  const trimmed = qrData.trim();
+
+  if (isSignedQRToken(trimmed)) {
+    const decoded = decodeSignedQRToken(trimmed);
+    return decoded?.claims.typ === 'ticket' ? { ticketNumber: decoded.claims.id } : {};
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (parsed && typeof parsed === 'object') {
+      return {
+        ticketNumber: parsed.ticketNumber,
+        ticketId: parsed.ticketId || parsed.id,
+      };
+    }
+  } catch {
+    // Not JSON - fall through to a plain ticket number
+  }
+  return { ticketNumber: trimmed };
+};
+
+export const findManifestTicket = (manifest: CheckInManifest, qrData: string): ManifestTicket | undefined => {
+  const exact = manifest.tickets.find((ticket) => ticket.qrCode && ticket.qrCode === qrData);
+  if (exact) return exact;
+
+  const { ticketNumber, ticketId } = extractTicketReference(qrData);
+  return manifest.tickets.find(
+    (ticket) => (ticketNumber && ticket.ticketNumber === ticketNumber) || (ticketId && ticket.id === ticketId)
+  );
+};
+
+const toVerifiedTicket = (ticket: ManifestTicket, manifest: CheckInManifest) => ({
+  id: ticket.id,
+  ticketNumber: ticket.ticketNumber,
+  attendeeName: ticket.attendeeName,
+  attendeeEmail: ticket.attendeeEmail,
+  attendeePhone: ticket.attendeePhone,
+  ticketType: ticket.ticketType,
+  seatNumber: ticket.seatNumber,
+  price: ticket.price,
+  currency: ticket.currency,
+  eventTitle: manifest.eventTitle,
+  eventDate: manifest.eventDate,
+  eventLocation: manifest.eventLocation,
+  scanCount: ticket.scanCount,
+  validFrom: ticket.validFrom,
+  validUntil: ticket.validUntil,
+  checkInTime: ticket.checkedInAt,
+  usedAt: ticket.checkedInAt,
+  usedBy: ticket.checkedInBy,
+});
+
+/**
+ * Verify a scan against the manifest, mirroring the statuses the verify-qr endpoint returns
+ */
+export const verifyTicketOffline = (
+  manifest: CheckInManifest,
+  qrData: string,
+  now: Date = new Date()
+): TicketVerificationResult => {
+  const ticket = findManifestTicket(manifest, qrData);
+
+  if (!ticket) {
+    return {
+      success: false,
+      status: 'invalid',
+      message: 'Ticket not found for this event',
+      offline: true,
+    };
+  }
+
+  const data = { ticket: toVerifiedTicket(ticket, manifest) };
+
+  if (ticket.status === 'cancelled') {
+    return { success: false, status: 'invalid', message: 'This ticket has been cancelled', offline: true, data };
+  }
+
+  if (ticket.status === 'transferred') {
+    return {
+      success: false,
+      status: 'invalid',
+      message: 'This ticket was transferred; the new holder has a new QR code',
+      offline: true,
+      data,
+    };
+  }
+
+  if (ticket.checkedInAt || ticket.status === 'used') {
+    return {
+      success: false,
+      status: 'already_used',
+      message: ticket.checkedInAt
+        ? `Already checked in at ${new Date(ticket.checkedInAt).toLocaleTimeString()}`
+        : 'This ticket has already been used',
+      offline: true,
+      data,
+    };
+  }
+
+  if (ticket.validFrom && now < new Date(ticket.validFrom)) {
+    return { success: false, status: 'not_yet_valid', message: 'This ticket is not valid yet', offline: true, data };
+  }
+
+  if (ticket.status === 'expired' || (ticket.validUntil && now > new Date(ticket.validUntil))) {
+    return { success: false, status: 'expired', message: 'This ticket has expired', offline: true, data };
+  }
+
+  return { success: true, status: 'verified', message: 'Ticket is valid', offline: true, data };
+};
+
+/**
+ * Apply the server's per-item sync results to the queue. Accepted (and duplicate) check-ins
+ * leave the queue; conflicts and rejections stay so staff can review them. Items the server
+ * did not answer for stay pending.
+ */
+export const applyCheckInSyncResults = (
+  queue: QueuedCheckIn[],
+  results: CheckInSyncResult[]
+): { remaining: QueuedCheckIn[]; syncedIds: string[] } => {
+  const resultsById = new Map(results.map((result) => [result.clientId, result]));
+  const remaining: QueuedCheckIn[] = [];
+  const syncedIds: string[] = [];
+
+  queue.forEach((item) => {
+    const result = resultsById.get(item.id);
+
+    if (!result) {
+      remaining.push({ ...item, attempts: item.attempts + 1 });
+      return;
+    }
+
+    switch (result.status) {
+      case 'accepted':
+      case 'duplicate':
+        syncedIds.push(item.id);
+        break;
+      case 'conflict':
+        remaining.push({
+          ...item,
+          status: 'conflict',
+          lastError: result.message,
+          conflict: result.existingCheckIn,
+        });
+        break;
+      default:
+        remaining.push({ ...item, status: 'rejected', lastError: result.message || 'Check-in rejected' });
+    }
+  });
+
+  return { remaining, syncedIds };
+};
@@ -0,0 +1,138 @@
+// Child profile utilities
+// Ages on the event date, eligibility against an event's age range, and filling participant and
+// registration forms from a child saved on the parent's account.
+
+import type { ChildProfile } from '../types/family';
+import type { FormField } from '../types/registration';
+
+interface AgeDateSchedule {
+  _id?: string;
+  startDate?: string | Date;
+  date?: string | Date;
+}
+
+export interface ChildEligibility {
+  age: number;
+  error: string | null;
+}
+
+/**
+ * Whole years old on the given date. Dates of birth are calendar dates, so they are read
+ * without a timezone to avoid a birthday shifting by a day.
+ */
+export const getAgeOnDate = (dateOfBirth: string, on: Date | string): number => {
+  const [year, month, day] = dateOfBirth.slice(0, 10).split('-').map(Number);
+  const date = new Date(on);
+  let age = date.getFullYear() - year;
+
+  if (date.getMonth() + 1 < month || (date.getMonth() + 1 === month && date.getDate() < day)) {
+    age--;
+  }
+  return age;
+};
+
+/**
+ * The date ages are checked on: the chosen schedule, else the next one to start, else today
+ */
+export const getEventAgeDate = (
+  dateSchedule: AgeDateSchedule[] = [],
+  scheduleId?: string | null,
+  now = new Date()
+): Date => {
+  const scheduleDate = (schedule: AgeDateSchedule) => new Date(schedule.startDate || schedule.date || now);
+
+  const chosen = scheduleId ? dateSchedule.find(schedule => schedule._id === scheduleId) : undefined;
+  if (chosen) return scheduleDate(chosen);
+
+  const upcoming = dateSchedule
+    .map(scheduleDate)
+    .filter(date => date.getTime() >= now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+  return upcoming[0] || now;
+};
+
+export const checkAgeRange = (age: number, ageRange?: [number, number]): string | null => {
+  if (!ageRange || (age >= ageRange[0] && age <= ageRange[1])) return null;
+  return `Age must be between ${ageRange[0]} and ${ageRange[1]} years`;
+};
+
+export const getChildEligibility = (
+  child: Pick<ChildProfile, 'dateOfBirth'>,
+  ageRange: [number, number] | undefined,
+  on: Date | string
+): ChildEligibility => {
+  const age = getAgeOnDate(child.dateOfBirth, on);
+  return { age, error: checkAgeRange(age, ageRange) };
+};
+
+/**
+ * Free-text notes for forms that only have one box: the child's requirements, allergies and conditions
+ */
+export const describeChildNeeds = (child: ChildProfile): string =>
+  [
+    child.specialRequirements?.trim(),
+    child.allergies?.length ? `Allergies: ${child.allergies.join(', ')}` : '',
+    child.medicalConditions?.length ? `Medical conditions: ${child.medicalConditions.join(', ')}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Participant fields filled from a child, with the age worked out on the event date
+ */
+export const childToParticipant = (child: ChildProfile, on: Date | string) => ({
+  childProfileId: child._id,
+  name: child.name,
+  age: getAgeOnDate(child.dateOfBirth, on),
+  gender: child.gender,
+  emergencyContact: child.emergencyContact,
+  specialRequirements: describeChildNeeds(child),
+});
+
+const matchOption = (options: string[] | undefined, value: string): string =>
+  options?.find(option => option.toLowerCase() === value.toLowerCase()) || value;
+
+/**
+ * Answers for a vendor's registration fields, matched on their labels. Fields that don't look
+ * like child details (or ask about the parent) are left alone.
+ */
+export const mapChildToRegistrationFields = (
+  child: ChildProfile,
+  fields: Pick<FormField, 'id' | 'label' | 'type' | 'options'>[],
+  on: Date | string
+): Record<string, any> => {
+  const values: Record<string, any> = {};
+
+  fields.forEach(field => {
+    const label = field.label.toLowerCase();
+    let value: any;
+
+    if (label.includes('emergency')) {
+      if (/relation/.test(label)) value = child.emergencyContact?.relationship;
+      else if (/phone|mobile|number/.test(label)) value = child.emergencyContact?.phone;
+      else if (/name|contact/.test(label)) value = child.emergencyContact?.name;
+    } else if (/parent|guardian/.test(label)) {
+      return;
+    } else if (/allerg/.test(label)) {
+      value = child.allergies?.join(', ');
+    } else if (/medical|condition/.test(label)) {
+      value = child.medicalConditions?.join(', ');
+    } else if (/birth|\bdob\b/.test(label) && field.type === 'date') {
+      value = child.dateOfBirth.slice(0, 10);
+    } else if (/\bage\b/.test(label) && field.type === 'number') {
+      value = getAgeOnDate(child.dateOfBirth, on);
+    } else if (/gender|\bsex\b/.test(label) && child.gender) {
+      value = matchOption(field.options, child.gender);
+    } else if (/special|requirement|needs/.test(label)) {
+      value = child.specialRequirements;
+    } else if (/name/.test(label) && ['text', 'textarea'].includes(field.type)) {
+      value = child.name;
+    }
+
+    if (value !== undefined && value !== '') {
+      values[field.id] = value;
+    }
+  });
+
+  return values;
+};
@@ -1,129 +1,290 @@
 // Coupon utility functions for consistent discount calculations
+// Evaluates the rules of a real Coupon against the cart before the server validates it
 
-export interface CouponInfo {
+import type { Coupon } from '../services/api/couponAPI';
+import { calculateDiscountAmount, PricingDiscountInput, roundMoney } from './pricingUtils';
+
+export type CouponRuleFields = Pick<
+  Coupon,
+  | 'code'
+  | 'type'
+  | 'value'
+  | 'currency'
+  | 'minimumAmount'
+  | 'maximumDiscount'
+  | 'validFrom'
+  | 'validUntil'
+  | 'usageLimit'
+  | 'usageCount'
+  | 'userUsageLimit'
+  | 'isActive'
+  | 'status'
+  | 'applicableEvents'
+  | 'applicableCategories'
+  | 'excludedEvents'
+  | 'excludedCategories'
+  | 'applicableVendors'
+  | 'excludedVendors'
+  | 'applicableEventTypes'
+  | 'priceRange'
+  | 'firstTimeOnly'
+>;
+
+export interface CouponCartLine {
+  id: string;
+  eventId: string;
+  title?: string;
+  category?: string;
+  eventType?: string;
+  vendorId?: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface CouponCustomerContext {
+  hasPreviousOrders?: boolean;
+  previousUses?: number;
+}
+
+export type CouponLineReason =
+  | 'excluded_event'
+  | 'event_not_applicable'
+  | 'excluded_category'
+  | 'category_not_applicable'
+  | 'excluded_vendor'
+  | 'vendor_not_applicable'
+  | 'event_type_not_applicable'
+  | 'below_price_range'
+  | 'above_price_range';
+
+export type CouponOrderReason =
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit_reached'
+  | 'user_usage_limit_reached'
+  | 'first_time_only'
+  | 'below_minimum'
+  | 'no_eligible_items';
+
+export interface CouponIssue<T extends string> {
+  reason: T;
+  message: string;
+}
+
+export interface CouponLineEvaluation {
+  lineId: string;
+  title?: string;
+  eligible: boolean;
+  issues: CouponIssue<CouponLineReason>[];
+  lineTotal: number;
+  discount: number;
+}
+
+export interface CouponEvaluation {
   code: string;
-  discountPercentage: number;
-  description: string;
-  minAmount?: number;
-  maxDiscount?: number;
+  isValid: boolean;
+  orderIssues: CouponIssue<CouponOrderReason>[];
+  lines: CouponLineEvaluation[];
+  eligibleSubtotal: number;
+  discountAmount: number;
+  isCapped: boolean;
 }
 
-// Mock coupon database - in production, this would come from API
-export const VALID_COUPONS: Record<string, CouponInfo> = {
-  'WELCOME10': {
-    code: 'WELCOME10',
-    discountPercentage: 10,
-    description: '10% off for new customers',
-    minAmount: 0,
-  },
-  'SAVE20': {
-    code: 'SAVE20',
-    discountPercentage: 20,
-    description: '20% off on your booking',
-    minAmount: 50,
-  },
-  'EARLYBIRD': {
-    code: 'EARLYBIRD',
-    discountPercentage: 15,
-    description: '15% off for early bookings',
-    minAmount: 0,
-  },
-};
+const formatAmount = (amount: number, currency?: string) => `${currency || 'AED'} ${amount.toFixed(2)}`;
+
+const hasRule = (list?: string[]) => Array.isArray(list) && list.length > 0;
+
+const includesId = (list: string[] | undefined, value?: string) =>
+  !!value && Array.isArray(list) && list.some(item => item === value || item.toLowerCase() === value.toLowerCase());
 
 /**
- * Validates a coupon code and returns coupon info if valid
- * @param code - The coupon code to validate
- * @returns CouponInfo if valid, null if invalid
+ * Converts a coupon into the discount input understood by the pricing engine
+ * @param coupon - The coupon (or validated coupon summary) to convert
+ * @returns Pricing discount input, or null when the coupon carries no monetary discount
  */
-export const validateCoupon = (code: string): CouponInfo | null => {
-  const upperCode = code.toUpperCase().trim();
-  return VALID_COUPONS[upperCode] || null;
+export const getCouponPricingDiscount = (
+  coupon: { code: string; type: string; value: number; maximumDiscount?: number }
+): PricingDiscountInput | null => {
+  if (coupon.type === 'free_shipping' || !coupon.value) {
+    return null;
+  }
+
+  return {
+    type: coupon.type === 'percentage' ? 'percentage' : 'fixed',
+    value: coupon.value,
+    maxDiscount: coupon.maximumDiscount,
+    code: coupon.code,
+  };
 };
 
 /**
- * Calculates discount amount based on coupon and subtotal
- * @param couponCode - The coupon code
- * @param subtotal - The subtotal amount
- * @returns Object with discount amount and coupon info
+ * Checks a single cart line against the coupon's item-level rules
+ * @param coupon - The coupon rules
+ * @param line - The cart line to check
+ * @returns Every rule the line fails (empty when the coupon applies)
  */
-export const calculateDiscount = (couponCode: string, subtotal: number) => {
-  const coupon = validateCoupon(couponCode);
+export const evaluateCouponLine = (
+  coupon: CouponRuleFields,
+  line: CouponCartLine
+): CouponIssue<CouponLineReason>[] => {
+  const issues: CouponIssue<CouponLineReason>[] = [];
 
-  if (!coupon) {
-    return {
-      discountAmount: 0,
-      discountPercentage: 0,
-      coupon: null,
-      isValid: false
-    };
+  if (includesId(coupon.excludedEvents, line.eventId)) {
+    issues.push({ reason: 'excluded_event', message: 'This event is excluded from the coupon' });
+  } else if (hasRule(coupon.applicableEvents) && !includesId(coupon.applicableEvents, line.eventId)) {
+    issues.push({ reason: 'event_not_applicable', message: 'Coupon is limited to other events' });
   }
 
-  // Check minimum amount requirement
-  if (coupon.minAmount && subtotal < coupon.minAmount) {
-    return {
-      discountAmount: 0,
-      discountPercentage: 0,
-      coupon,
-      isValid: false,
-      error: `Minimum order amount of ${coupon.minAmount} required for this coupon`
-    };
+  if (includesId(coupon.excludedCategories, line.category)) {
+    issues.push({ reason: 'excluded_category', message: `Excluded category (${line.category})` });
+  } else if (hasRule(coupon.applicableCategories) && !includesId(coupon.applicableCategories, line.category)) {
+    issues.push({ reason: 'category_not_applicable', message: 'Coupon is limited to other categories' });
   }
 
-  let discountAmount = (subtotal * coupon.discountPercentage) / 100;
+  if (includesId(coupon.excludedVendors, line.vendorId)) {
+    issues.push({ reason: 'excluded_vendor', message: 'This organiser is excluded from the coupon' });
+  } else if (hasRule(coupon.applicableVendors) && !includesId(coupon.applicableVendors, line.vendorId)) {
+    issues.push({ reason: 'vendor_not_applicable', message: 'Coupon is limited to other organisers' });
+  }
 
-  // Apply maximum discount limit if specified
-  if (coupon.maxDiscount && discountAmount > coupon.maxDiscount) {
-    discountAmount = coupon.maxDiscount;
+  if (hasRule(coupon.applicableEventTypes) && !includesId(coupon.applicableEventTypes, line.eventType)) {
+    issues.push({
+      reason: 'event_type_not_applicable',
+      message: `Only valid for ${coupon.applicableEventTypes.join(', ')}`
+    });
   }
 
-  return {
-    discountAmount: Math.round(discountAmount * 100) / 100, // Round to 2 decimal places
-    discountPercentage: coupon.discountPercentage,
-    coupon,
-    isValid: true
-  };
+  const min = coupon.priceRange?.min;
+  const max = coupon.priceRange?.max;
+  if (min !== undefined && min !== null && line.unitPrice < min) {
+    issues.push({
+      reason: 'below_price_range',
+      message: `Ticket price below minimum of ${formatAmount(min, coupon.currency)}`
+    });
+  }
+  if (max !== undefined && max !== null && line.unitPrice > max) {
+    issues.push({
+      reason: 'above_price_range',
+      message: `Ticket price above maximum of ${formatAmount(max, coupon.currency)}`
+    });
+  }
+
+  return issues;
 };
 
 /**
- * Calculates final pricing with discount applied
- * @param subtotal - The subtotal amount
- * @param couponCode - The coupon code (optional)
- * @param serviceFeeRate - The service fee rate (0-100, default 5)
- * @param hasServiceFee - Whether service fee applies (default true)
- * @returns Complete pricing breakdown
+ * Evaluates a coupon against the cart contents and explains, per line item,
+ * why the coupon applies or not. This is a preview only: the server remains
+ * the source of truth and must still validate the coupon.
+ * @param coupon - The coupon rules
+ * @param lines - The cart lines
+ * @param customer - What is known about the customer (usage history, first order)
+ * @param now - Evaluation time (defaults to now)
+ * @returns The evaluation with order-level issues, per-line results and the estimated discount
  */
-export const calculatePricingWithDiscount = (
-  subtotal: number,
-  couponCode?: string,
-  serviceFeeRate: number = 5,
-  hasServiceFee: boolean = true
-) => {
-  const discountResult = couponCode ? calculateDiscount(couponCode, subtotal) : {
-    discountAmount: 0,
-    discountPercentage: 0,
-    coupon: null,
-    isValid: false
-  };
+export const evaluateCoupon = (
+  coupon: CouponRuleFields,
+  lines: CouponCartLine[],
+  customer: CouponCustomerContext = {},
+  now: Date = new Date()
+): CouponEvaluation => {
+  const orderIssues: CouponIssue<CouponOrderReason>[] = [];
+
+  if (!coupon.isActive || coupon.status === 'inactive') {
+    orderIssues.push({ reason: 'inactive', message: 'This coupon is not active' });
+  }
+
+  if (coupon.validFrom && new Date(coupon.validFrom) > now) {
+    orderIssues.push({
+      reason: 'not_started',
+      message: `Valid from ${new Date(coupon.validFrom).toLocaleDateString()}`
+    });
+  }
+
+  if (coupon.status === 'expired' || (coupon.validUntil && new Date(coupon.validUntil) < now)) {
+    orderIssues.push({ reason: 'expired', message: 'This coupon has expired' });
+  }
+
+  if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+    orderIssues.push({ reason: 'usage_limit_reached', message: 'This coupon has reached its usage limit' });
+  }
+
+  if (coupon.userUsageLimit && (customer.previousUses || 0) >= coupon.userUsageLimit) {
+    orderIssues.push({
+      reason: 'user_usage_limit_reached',
+      message: `You have already used this coupon ${coupon.userUsageLimit} time(s)`
+    });
+  }
 
-  // Calculate service fee if applicable
-  const serviceFee = hasServiceFee ? (subtotal * serviceFeeRate) / 100 : 0;
+  if (coupon.firstTimeOnly && customer.hasPreviousOrders) {
+    orderIssues.push({ reason: 'first_time_only', message: 'Only valid on your first booking' });
+  }
 
-  // Calculate tax on subtotal + service fee - discount
-  const taxableAmount = Math.max(0, subtotal + serviceFee - discountResult.discountAmount);
-  const tax = taxableAmount * 0.05; // 5% tax
+  const lineResults: CouponLineEvaluation[] = lines.map(line => {
+    const issues = evaluateCouponLine(coupon, line);
+    return {
+      lineId: line.id,
+      title: line.title,
+      eligible: issues.length === 0,
+      issues,
+      lineTotal: roundMoney(line.unitPrice * line.quantity),
+      discount: 0,
+    };
+  });
 
-  const total = Math.max(0, subtotal + serviceFee - discountResult.discountAmount + tax);
+  const eligibleSubtotal = roundMoney(
+    lineResults.filter(line => line.eligible).reduce((sum, line) => sum + line.lineTotal, 0)
+  );
+
+  if (lines.length > 0 && eligibleSubtotal === 0) {
+    orderIssues.push({ reason: 'no_eligible_items', message: 'No items in your cart qualify for this coupon' });
+  } else if (coupon.minimumAmount && eligibleSubtotal < coupon.minimumAmount) {
+    orderIssues.push({
+      reason: 'below_minimum',
+      message: `Qualifying items total ${formatAmount(eligibleSubtotal, coupon.currency)}, below the minimum of ${formatAmount(coupon.minimumAmount, coupon.currency)}`
+    });
+  }
+
+  const isValid = orderIssues.length === 0 && lines.length > 0;
+  const pricingDiscount = getCouponPricingDiscount(coupon);
+  const uncappedDiscount = isValid && pricingDiscount
+    ? calculateDiscountAmount(eligibleSubtotal, { ...pricingDiscount, maxDiscount: undefined })
+    : 0;
+  const discountAmount = isValid ? calculateDiscountAmount(eligibleSubtotal, pricingDiscount) : 0;
+
+  // Spread the discount across eligible lines in proportion to their value
+  if (discountAmount > 0) {
+    let remaining = discountAmount;
+    const eligibleLines = lineResults.filter(line => line.eligible);
+    eligibleLines.forEach((line, index) => {
+      const share = index === eligibleLines.length - 1
+        ? remaining
+        : roundMoney(discountAmount * (line.lineTotal / eligibleSubtotal));
+      line.discount = share;
+      remaining = roundMoney(remaining - share);
+    });
+  }
 
   return {
-    subtotal,
-    discount: discountResult.discountAmount,
-    discountPercentage: discountResult.discountPercentage,
-    serviceFee,
-    tax,
-    total,
-    coupon: discountResult.coupon,
-    isValidCoupon: discountResult.isValid,
-    couponError: discountResult.error || null,
-    hasServiceFee
+    code: coupon.code,
+    isValid,
+    orderIssues,
+    lines: lineResults,
+    eligibleSubtotal,
+    discountAmount,
+    isCapped: discountAmount < uncappedDiscount,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Finds a coupon by code (case-insensitive) in a list of known coupons
+ * @param coupons - Known coupons, e.g. the public active coupons
+ * @param code - The code entered by the customer
+ * @returns The matching coupon, or null
+ */
+export const findCouponByCode = <T extends { code: string }>(coupons: T[], code: string): T | null => {
+  const normalized = code.trim().toUpperCase();
+  if (!normalized) return null;
+  return coupons.find(coupon => coupon.code.toUpperCase() === normalized) || null;
+};
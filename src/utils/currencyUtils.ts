@@ -1,32 +1,61 @@
 // Currency utilities for multi-currency support
-// Handles formatting, conversion, and display with INR as base currency
+// Single registry of supported currencies, plus formatting and rate-based conversion
+
+export const SUPPORTED_CURRENCY_CODES = ['AED', 'USD', 'EUR', 'GBP', 'INR', 'EGP', 'CAD'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCY_CODES[number];
 
 export interface CurrencyConfig {
-  code: string;
+  code: CurrencyCode;
   symbol: string;
   name: string;
+  flag: string;
   decimals: number;
   locale: string;
   position: 'before' | 'after';
 }
 
-export const SUPPORTED_CURRENCIES: Record<string, CurrencyConfig> = {
-  AED: {
-    code: 'AED',
-    symbol: 'د.إ',
-    name: 'UAE Dirham',
-    decimals: 2,
-    locale: 'ar-AE',
-    position: 'before',
-  },
+// Exchange rates expressed as units of each currency per 1 unit of BASE_CURRENCY
+export type ExchangeRates = Partial<Record<CurrencyCode, number>>;
+
+export const BASE_CURRENCY: CurrencyCode = 'AED';
+
+export const SUPPORTED_CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+  AED: { code: 'AED', symbol: 'د.إ', name: 'UAE Dirham', flag: '🇦🇪', decimals: 2, locale: 'ar-AE', position: 'before' },
+  USD: { code: 'USD', symbol: '$', name: 'US Dollar', flag: '🇺🇸', decimals: 2, locale: 'en-US', position: 'before' },
+  EUR: { code: 'EUR', symbol: '€', name: 'Euro', flag: '🇪🇺', decimals: 2, locale: 'en-IE', position: 'before' },
+  GBP: { code: 'GBP', symbol: '£', name: 'British Pound', flag: '🇬🇧', decimals: 2, locale: 'en-GB', position: 'before' },
+  INR: { code: 'INR', symbol: '₹', name: 'Indian Rupee', flag: '🇮🇳', decimals: 2, locale: 'en-IN', position: 'before' },
+  EGP: { code: 'EGP', symbol: 'E£', name: 'Egyptian Pound', flag: '🇪🇬', decimals: 2, locale: 'en-EG', position: 'before' },
+  CAD: { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar', flag: '🇨🇦', decimals: 2, locale: 'en-CA', position: 'before' },
 };
 
-export const getDefaultCurrency = (): string => {
-  return 'AED';
+// Used until live rates have been fetched at least once
+export const FALLBACK_EXCHANGE_RATES: Record<CurrencyCode, number> = {
+  AED: 1,
+  USD: 0.2723,
+  EUR: 0.25,
+  GBP: 0.21,
+  INR: 22.5,
+  EGP: 13.2,
+  CAD: 0.37,
+};
+
+export const getDefaultCurrency = (): CurrencyCode => {
+  return BASE_CURRENCY;
+};
+
+export const isValidCurrency = (currencyCode?: string | null): currencyCode is CurrencyCode => {
+  return !!currencyCode && currencyCode in SUPPORTED_CURRENCIES;
+};
+
+export const normalizeCurrencyCode = (currencyCode?: string | null): CurrencyCode => {
+  const code = currencyCode?.trim().toUpperCase();
+  return isValidCurrency(code) ? code : getDefaultCurrency();
 };
 
 export const getCurrencyConfig = (currencyCode: string): CurrencyConfig => {
-  return SUPPORTED_CURRENCIES[currencyCode] || SUPPORTED_CURRENCIES.AED;
+  return SUPPORTED_CURRENCIES[normalizeCurrencyCode(currencyCode)];
 };
 
 export const formatCurrency = (
@@ -153,11 +182,7 @@ export const getCurrencyName = (currencyCode: string): string => {
 };
 
 export const getSupportedCurrencies = (): CurrencyConfig[] => {
-  return [getCurrencyConfig('AED')];
-};
-
-export const isValidCurrency = (currencyCode: string): boolean => {
-  return currencyCode in SUPPORTED_CURRENCIES;
+  return SUPPORTED_CURRENCY_CODES.map(code => SUPPORTED_CURRENCIES[code]);
 };
 
 // Format currency for Stripe (amount in smallest currency unit)
@@ -178,16 +203,35 @@ export const formatCurrencyFromStripe = (
   return amount / Math.pow(10, config.decimals);
 };
 
+/**
+ * Converts an amount between currencies using base-relative exchange rates
+ * @param amount - Amount in the source currency
+ * @param fromCurrencyCode - Source currency
+ * @param toCurrencyCode - Target currency
+ * @param rates - Units of each currency per 1 BASE_CURRENCY (defaults to the fallback table)
+ * @returns Converted amount rounded to the target currency's decimals, or null when a rate is missing
+ */
 export const convertCurrency = (
   amount: number,
   fromCurrencyCode: string,
-  toCurrencyCode: string
-): number => {
-  // Placeholder for currency conversion logic
-  // In a real application, this would involve fetching exchange rates
-  // and performing the conversion.
-  console.warn(`Currency conversion from ${fromCurrencyCode} to ${toCurrencyCode} is not yet implemented. Returning original amount.`);
-  return amount;
+  toCurrencyCode: string,
+  rates: ExchangeRates = FALLBACK_EXCHANGE_RATES
+): number | null => {
+  const from = normalizeCurrencyCode(fromCurrencyCode);
+  const to = normalizeCurrencyCode(toCurrencyCode);
+
+  if (from === to) {
+    return amount;
+  }
+
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) {
+    return null;
+  }
+
+  const factor = Math.pow(10, SUPPORTED_CURRENCIES[to].decimals);
+  return Math.round((amount / fromRate) * toRate * factor) / factor;
 };
 
 export default {
@@ -195,6 +239,7 @@ export default {
   formatCurrencyCompact,
   parseCurrencyAmount,
   convertCurrency,
+  normalizeCurrencyCode,
   validateCurrencyAmount,
   getCurrencySymbol,
   getCurrencyName,
@@ -16,8 +16,27 @@ export const getDefaultTimezone = (): string => {
   return import.meta.env.VITE_DEFAULT_TIMEZONE || UAE_TIMEZONE;
 };
 
+// UI language, kept in sync by LanguageContext; falls back to VITE_DEFAULT_LANGUAGE
+let activeLanguage: string | undefined;
+
+export const setActiveLanguage = (language: string): void => {
+  activeLanguage = language;
+};
+
+export const getLocaleForLanguage = (language?: string): string => {
+  return language?.toLowerCase().startsWith('ar') ? ARABIC_LOCALE : DEFAULT_LOCALE;
+};
+
 export const getDefaultLocale = (): string => {
-  return import.meta.env.VITE_DEFAULT_LANGUAGE === 'ar' ? ARABIC_LOCALE : DEFAULT_LOCALE;
+  return getLocaleForLanguage(activeLanguage || import.meta.env.VITE_DEFAULT_LANGUAGE);
+};
+
+export const formatNumber = (
+  value: number,
+  options?: Intl.NumberFormatOptions & { locale?: string }
+): string => {
+  const { locale = getDefaultLocale(), ...formatOptions } = options || {};
+  return new Intl.NumberFormat(locale, formatOptions).format(value);
 };
 
 export const formatDateForUAE = (
@@ -166,12 +185,11 @@ export const getTimeUntilEvent = (date: string | Date): string => {
 export const formatRelativeDate = (date: string | Date): string => {
   const eventDate = typeof date === 'string' ? new Date(date) : date;
 
-  if (isEventToday(eventDate)) {
-    return `Today, ${formatEventTime(eventDate)}`;
-  }
-
-  if (isEventTomorrow(eventDate)) {
-    return `Tomorrow, ${formatEventTime(eventDate)}`;
+  if (isEventToday(eventDate) || isEventTomorrow(eventDate)) {
+    // "Today" / "Tomorrow" in the active locale
+    const relativeDay = new Intl.RelativeTimeFormat(getDefaultLocale(), { numeric: 'auto' })
+      .format(isEventToday(eventDate) ? 0 : 1, 'day');
+    return `${relativeDay.charAt(0).toLocaleUpperCase()}${relativeDay.slice(1)}, ${formatEventTime(eventDate)}`;
   }
 
   const now = new Date();
@@ -246,4 +264,7 @@ export default {
   isWeekend,
   getDefaultTimezone,
   getDefaultLocale,
+  getLocaleForLanguage,
+  setActiveLanguage,
+  formatNumber,
 };
\ No newline at end of file
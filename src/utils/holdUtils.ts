@@ -0,0 +1,62 @@
+// Seat hold utilities
+// Cart items booked on a date schedule hold their seats server-side until the hold expires.
+// These helpers decide when a hold needs creating or resizing and drive the checkout countdown.
+
+import type { CartItemHold } from '../types/hold';
+
+// Below this the countdown turns amber
+export const HOLD_WARNING_SECONDS = 120;
+
+interface HoldableItem {
+  quantity: number;
+  dateScheduleId?: string;
+  hold?: CartItemHold;
+  holdPending?: boolean;
+}
+
+export interface CartHoldSummary {
+  needsHolds: boolean; // Some item is booked on a date schedule
+  allHeld: boolean; // Every such item has a live hold covering its quantity
+  expiresAt: string | null; // The first hold to run out
+  isPending: boolean; // A hold request is still on its way, e.g. right after adding to the cart
+}
+
+export const isHoldActive = (hold?: CartItemHold | null, now = Date.now()): hold is CartItemHold =>
+  !!hold && new Date(hold.expiresAt).getTime() > now;
+
+export const getHoldSecondsLeft = (expiresAt: string, now = Date.now()): number =>
+  Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 1000));
+
+/**
+ * "9:05" style countdown; whole minutes past an hour keep counting up ("75:00")
+ */
+export const formatCountdown = (seconds: number): string => {
+  const safe = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(safe / 60)}:${String(safe % 60).padStart(2, '0')}`;
+};
+
+/**
+ * What the item's hold needs: a new hold when it has none (or it lapsed), a resize when the
+ * quantity changed, nothing otherwise. Items without a date schedule are never held.
+ */
+export const getHoldChange = (item: HoldableItem, now = Date.now()): 'create' | 'update' | 'none' => {
+  if (!item.dateScheduleId || item.quantity <= 0) return 'none';
+  if (!isHoldActive(item.hold, now)) return 'create';
+  return item.hold.quantity === item.quantity ? 'none' : 'update';
+};
+
+export const getCartHoldSummary = (items: HoldableItem[], now = Date.now()): CartHoldSummary => {
+  const holdable = items.filter(item => item.dateScheduleId && item.quantity > 0);
+  const expiries = holdable
+    .map(item => item.hold)
+    .filter((hold): hold is CartItemHold => isHoldActive(hold, now))
+    .map(hold => hold.expiresAt)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  return {
+    needsHolds: holdable.length > 0,
+    allHeld: holdable.every(item => getHoldChange(item, now) === 'none'),
+    expiresAt: expiries[0] || null,
+    isPending: holdable.some(item => item.holdPending),
+  };
+};
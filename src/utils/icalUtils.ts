@@ -0,0 +1,277 @@
+// Calendar export utilities
+// Builds RFC 5545 .ics files for bookings so families can add activities to their phone
+// calendars. Times are written in the venue's timezone, normally getDefaultTimezone() from dateUtils.
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  start: Date | string;
+  end?: Date | string | null;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lng: number } | null;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+}
+
+export interface CalendarOptions {
+  timezone: string;
+  name?: string;
+  now?: Date;
+}
+
+interface CalendarLocation {
+  address?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  coordinates?: { lat: number; lng: number } | [number, number]; // Arrays are GeoJSON [lng, lat]
+}
+
+// Schedules come back as startDateTime/endDateTime, startDate/endDate or a bare date
+interface CalendarSchedule {
+  startDateTime?: string | Date;
+  endDateTime?: string | Date;
+  startDate?: string | Date;
+  endDate?: string | Date;
+  date?: string | Date;
+}
+
+export interface BookingCalendarDetails {
+  id: string;
+  title: string;
+  schedule?: CalendarSchedule | null;
+  location?: CalendarLocation | null;
+  description?: string;
+  url?: string;
+  cancelled?: boolean;
+}
+
+// Bookings without an end time are shown as an hour long
+export const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+const PRODUCT_ID = '-//Kidrove//Bookings//EN';
+
+const pad = (value: number | string) => String(value).padStart(2, '0');
+
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Lines longer than 75 octets are folded onto continuation lines starting with a space.
+ * Folds fall between characters so Arabic titles aren't cut mid-character.
+ */
+export const foldICalLine = (line: string): string => {
+  if ([...line].reduce((size, char) => size + utf8Length(char), 0) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74);
+
+  for (const char of line) {
+    const charSize = utf8Length(char);
+    if (size + charSize > limit()) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const getWallClockParts = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value || 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+/**
+ * UTC "20250115T053000Z", or wall-clock "20250115T093000" in the given timezone
+ */
+export const formatICalDateTime = (value: Date | string, timezone?: string): string => {
+  const date = new Date(value);
+
+  if (!timezone) {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(
+      date.getUTCHours()
+    )}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  }
+
+  const { year, month, day, hour, minute, second } = getWallClockParts(date, timezone);
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+};
+
+/**
+ * Minutes the timezone is ahead of UTC at the given moment
+ */
+export const getTimezoneOffsetMinutes = (timezone: string, at: Date | string): number => {
+  const date = new Date(at);
+  const { year, month, day, hour, minute, second } = getWallClockParts(date, timezone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+const formatUtcOffset = (minutes: number): string =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+/**
+ * VTIMEZONE for zones with one offset all year, like Asia/Dubai. Zones with daylight saving
+ * return null and their times are written in UTC instead.
+ */
+export const buildFixedOffsetTimezone = (timezone: string, year: number): string[] | null => {
+  const winter = getTimezoneOffsetMinutes(timezone, new Date(Date.UTC(year, 0, 15)));
+  const summer = getTimezoneOffsetMinutes(timezone, new Date(Date.UTC(year, 6, 15)));
+  if (winter !== summer) return null;
+
+  const offset = formatUtcOffset(winter);
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+};
+
+export const formatEventLocation = (location?: CalendarLocation | null): string =>
+  location
+    ? [location.address, location.city, location.state, location.country]
+        .map(part => part?.trim())
+        .filter((part, index, all): part is string => !!part && all.indexOf(part) === index)
+        .join(', ')
+    : '';
+
+const toCalendarGeo = (coordinates?: CalendarLocation['coordinates']): CalendarEvent['geo'] => {
+  if (!coordinates) return null;
+  const [lng, lat] = Array.isArray(coordinates) ? coordinates : [coordinates.lng, coordinates.lat];
+  return Number.isFinite(lat) && Number.isFinite(lng) && (lat !== 0 || lng !== 0) ? { lat, lng } : null;
+};
+
+/**
+ * The calendar entry for one booked date, or null if the schedule has no start time yet
+ */
+export const buildBookingCalendarEvent = (booking: BookingCalendarDetails): CalendarEvent | null => {
+  const { schedule } = booking;
+  const start = schedule?.startDateTime || schedule?.startDate || schedule?.date;
+  if (!start || Number.isNaN(new Date(start).getTime())) return null;
+
+  return {
+    uid: `${booking.id}@kidrove.com`,
+    title: booking.title,
+    start,
+    end: schedule?.endDateTime || schedule?.endDate || null,
+    description: booking.description,
+    location: formatEventLocation(booking.location) || undefined,
+    geo: toCalendarGeo(booking.location?.coordinates),
+    url: booking.url,
+    status: booking.cancelled ? 'CANCELLED' : 'CONFIRMED',
+  };
+};
+
+const formatDateProperty = (name: string, value: Date | string, timezone: string | null): string =>
+  timezone ? `${name};TZID=${timezone}:${formatICalDateTime(value, timezone)}` : `${name}:${formatICalDateTime(value)}`;
+
+const buildEventLines = (event: CalendarEvent, timezone: string | null, stamp: string): string[] => {
+  const start = new Date(event.start);
+  const end = event.end ? new Date(event.end) : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    formatDateProperty('DTSTART', start, timezone),
+    formatDateProperty('DTEND', end > start ? end : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS), timezone),
+    `SUMMARY:${escapeICalText(event.title)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  if (event.geo) lines.push(`GEO:${event.geo.lat};${event.geo.lng}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`, 'END:VEVENT');
+
+  return lines;
+};
+
+/**
+ * A complete VCALENDAR with one VEVENT per booking. Times in a fixed-offset timezone such as
+ * Asia/Dubai carry a TZID so calendars show the venue's local time; others are written in UTC.
+ */
+export const buildICalendar = (events: CalendarEvent[], options: CalendarOptions): string => {
+  const { name, timezone, now = new Date() } = options;
+  const stamp = formatICalDateTime(now);
+  const vtimezone = buildFixedOffsetTimezone(timezone, now.getUTCFullYear());
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (name) lines.push(`X-WR-CALNAME:${escapeICalText(name)}`);
+  if (vtimezone) {
+    lines.push(`X-WR-TIMEZONE:${timezone}`, ...vtimezone);
+  }
+
+  const eventTimezone = vtimezone ? timezone : null;
+  events.forEach(event => lines.push(...buildEventLines(event, eventTimezone, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+};
+
+export const getCalendarFileName = (title: string): string =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'booking'}.ics`;
+
+/**
+ * Saves the calendar through a temporary link; phones hand .ics files straight to the calendar app
+ */
+export const downloadCalendarFile = (fileName: string, content: string): void => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * webcal:// opens the subscribe dialog in Apple and Outlook calendars instead of downloading
+ */
+export const toWebcalUrl = (feedUrl: string): string => feedUrl.replace(/^https?:\/\//, 'webcal://');
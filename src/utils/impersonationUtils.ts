@@ -0,0 +1,44 @@
+// Impersonation utilities
+// Session timing for the "viewing as" banner and the client-side guard that keeps an admin from
+// making changes (payments, bookings, cancellations, transfers...) on behalf of the impersonated user.
+
+import type { ImpersonationSession } from '../types/impersonation';
+
+export const IMPERSONATION_DURATION_OPTIONS = [15, 30, 60];
+export const DEFAULT_IMPERSONATION_MINUTES = 30;
+
+export const IMPERSONATION_BLOCKED_MESSAGE =
+  'Changes are disabled while viewing as another user';
+
+// Reads stay allowed so the admin sees exactly what the user sees. Every write is blocked except
+// the ones that keep the session itself working; a pattern of "dangerous" paths can't keep up
+// with new endpoints that book, pay, cancel or transfer.
+const ALLOWED_WRITE_PATHS = new Set([
+  '/auth/impersonation/end',
+  '/auth/refresh-token',
+  '/auth/logout',
+]);
+const SAFE_METHODS = new Set(['get', 'head', 'options']);
+
+/**
+ * Whether a request must not be sent while an impersonation session is active
+ */
+export const isBlockedWhileImpersonating = (method: string | undefined, url: string | undefined): boolean => {
+  if (SAFE_METHODS.has((method || 'get').toLowerCase())) return false;
+  const path = (url || '').split('?')[0].replace(/\/+$/, '');
+  return !ALLOWED_WRITE_PATHS.has(path);
+};
+
+export const getImpersonationSecondsLeft = (
+  session: Pick<ImpersonationSession, 'expiresAt'>,
+  now: number = Date.now()
+): number => Math.max(0, Math.floor((new Date(session.expiresAt).getTime() - now) / 1000));
+
+/**
+ * 754 -> '12:34'
+ */
+export const formatImpersonationCountdown = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes}:${String(remainder).padStart(2, '0')}`;
+};
@@ -0,0 +1,343 @@
+// Tax invoice PDF utilities
+// Draws bilingual (English/Arabic) UAE VAT tax invoices and credit notes on A4 canvases and saves
+// them as a PDF. English reads left to right on the left of each row, Arabic right to left on
+// the right, so the same page serves both languages.
+
+import { format } from 'date-fns';
+
+import type { TaxableOrder, TaxDocumentLine, TaxDocumentRecord, TaxParty } from '../types/invoice';
+import {
+  BilingualLabel,
+  INVOICE_LABELS,
+  TAX_DOCUMENT_TITLES,
+  buildTaxDocumentLines,
+  formatTaxAmount,
+  getOrderVatRate,
+  getTaxDocumentFileName,
+  sumTaxDocumentLines,
+} from './invoiceUtils';
+import { buildImagePdf, dataUrlToBytes, downloadPdf } from './pdfUtils';
+
+// A4 at 150 dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 100;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 200;
+const FOOTER_TOP = PAGE_HEIGHT - MARGIN - 60;
+
+const BRAND_COLOR = '#2563eb';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+// Right edges of the numeric columns; the description fills the space before them
+const COLUMNS = {
+  description: { x: MARGIN, width: 400 },
+  quantity: 590,
+  unitPrice: 760,
+  taxableAmount: 920,
+  vat: 1030,
+  total: PAGE_WIDTH - MARGIN,
+};
+
+const ROW_LINE_HEIGHT = 36;
+
+const createPage = (): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  context.textBaseline = 'top';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  return { canvas, context };
+};
+
+const drawText = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  align: CanvasTextAlign = 'left'
+) => {
+  context.textAlign = align;
+  context.fillText(text, x, y);
+  context.textAlign = 'left';
+};
+
+// Arabic is drawn right to left, ending at x
+const drawArabic = (context: CanvasRenderingContext2D, text: string, x: number, y: number) => {
+  context.save();
+  context.direction = 'rtl';
+  context.textAlign = 'right';
+  context.fillText(text, x, y);
+  context.restore();
+};
+
+/**
+ * Splits text into lines that fit maxWidth in the current font
+ */
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * English label on the left, its value beside it and the Arabic label on the right edge
+ */
+const drawLabelledRow = (
+  context: CanvasRenderingContext2D,
+  label: BilingualLabel,
+  value: string,
+  y: number,
+  options: { bold?: boolean } = {}
+): number => {
+  const weight = options.bold ? 'bold ' : '';
+  context.fillStyle = MUTED_COLOR;
+  context.font = `${weight}26px ${FONT_FAMILY}`;
+  drawText(context, label.en, MARGIN, y);
+  drawArabic(context, label.ar, PAGE_WIDTH - MARGIN, y);
+
+  context.fillStyle = TEXT_COLOR;
+  context.font = `${weight}28px ${FONT_FAMILY}`;
+  drawText(context, value, MARGIN + 380, y);
+  return y + 46;
+};
+
+const drawParty = (
+  context: CanvasRenderingContext2D,
+  heading: BilingualLabel,
+  party: TaxParty,
+  x: number,
+  y: number,
+  width: number
+): number => {
+  context.fillStyle = BRAND_COLOR;
+  context.font = `bold 24px ${FONT_FAMILY}`;
+  drawText(context, heading.en.toUpperCase(), x, y);
+  drawArabic(context, heading.ar, x + width, y);
+  y += 40;
+
+  context.fillStyle = TEXT_COLOR;
+  context.font = `bold 28px ${FONT_FAMILY}`;
+  wrapText(context, party.name, width).forEach((line) => {
+    drawText(context, line, x, y);
+    y += 36;
+  });
+
+  context.font = `24px ${FONT_FAMILY}`;
+  if (party.trn) {
+    drawText(context, `${INVOICE_LABELS.trn.en}: ${party.trn}`, x, y);
+    y += 32;
+  }
+  [party.address, party.email].filter(Boolean).forEach((detail) => {
+    context.fillStyle = MUTED_COLOR;
+    wrapText(context, detail as string, width).forEach((line) => {
+      drawText(context, line, x, y);
+      y += 32;
+    });
+  });
+  return y;
+};
+
+const drawTableHeader = (context: CanvasRenderingContext2D, currency: string, y: number): number => {
+  context.fillStyle = '#f3f4f6';
+  context.fillRect(MARGIN, y, CONTENT_WIDTH, 96);
+
+  const headings: Array<[BilingualLabel, number, CanvasTextAlign]> = [
+    [INVOICE_LABELS.description, COLUMNS.description.x + 16, 'left'],
+    [INVOICE_LABELS.quantity, COLUMNS.quantity, 'right'],
+    [INVOICE_LABELS.unitPrice, COLUMNS.unitPrice, 'right'],
+    [INVOICE_LABELS.taxableAmount, COLUMNS.taxableAmount, 'right'],
+    [INVOICE_LABELS.vat, COLUMNS.vat, 'right'],
+    [INVOICE_LABELS.amount, COLUMNS.total - 16, 'right'],
+  ];
+
+  context.fillStyle = TEXT_COLOR;
+  headings.forEach(([label, x, align]) => {
+    context.font = `bold 20px ${FONT_FAMILY}`;
+    drawText(context, label.en, x, y + 16, align);
+    context.font = `20px ${FONT_FAMILY}`;
+    if (align === 'right') {
+      drawArabic(context, label.ar, x, y + 52);
+    } else {
+      drawText(context, label.ar, x, y + 52);
+    }
+  });
+
+  context.fillStyle = MUTED_COLOR;
+  context.font = `20px ${FONT_FAMILY}`;
+  drawText(context, `Amounts in ${currency.toUpperCase()}`, COLUMNS.total, y - 30, 'right');
+  return y + 112;
+};
+
+const formatNumber = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const drawLine = (context: CanvasRenderingContext2D, line: TaxDocumentLine, descriptionLines: string[], y: number): number => {
+  context.fillStyle = TEXT_COLOR;
+  context.font = `26px ${FONT_FAMILY}`;
+  descriptionLines.forEach((text, index) => drawText(context, text, COLUMNS.description.x + 16, y + index * ROW_LINE_HEIGHT));
+
+  drawText(context, String(line.quantity), COLUMNS.quantity, y, 'right');
+  drawText(context, formatNumber(line.unitPrice), COLUMNS.unitPrice, y, 'right');
+  drawText(context, formatNumber(line.taxableAmount), COLUMNS.taxableAmount, y, 'right');
+  drawText(context, formatNumber(line.vatAmount), COLUMNS.vat, y, 'right');
+  drawText(context, formatNumber(line.totalAmount), COLUMNS.total - 16, y, 'right');
+
+  const bottom = y + descriptionLines.length * ROW_LINE_HEIGHT + 16;
+  context.strokeStyle = RULE_COLOR;
+  context.lineWidth = 2;
+  context.beginPath();
+  context.moveTo(MARGIN, bottom);
+  context.lineTo(PAGE_WIDTH - MARGIN, bottom);
+  context.stroke();
+  return bottom + 20;
+};
+
+const drawHeader = (context: CanvasRenderingContext2D, record: TaxDocumentRecord) => {
+  const title = TAX_DOCUMENT_TITLES[record.type];
+
+  context.fillStyle = BRAND_COLOR;
+  context.fillRect(0, 0, PAGE_WIDTH, HEADER_HEIGHT);
+  context.fillStyle = '#ffffff';
+  context.font = `bold 60px ${FONT_FAMILY}`;
+  drawText(context, 'Kidrove', MARGIN, 50);
+  context.font = `bold 40px ${FONT_FAMILY}`;
+  drawText(context, title.en, PAGE_WIDTH - MARGIN, 44, 'right');
+  drawArabic(context, title.ar, PAGE_WIDTH - MARGIN, 106);
+  context.font = `26px ${FONT_FAMILY}`;
+  drawText(context, record.number, MARGIN, 130);
+};
+
+const drawFooter = (context: CanvasRenderingContext2D, pageNumber: number, pageCount: number, vatRate: number) => {
+  context.fillStyle = MUTED_COLOR;
+  context.font = `22px ${FONT_FAMILY}`;
+  drawText(context, `VAT ${vatRate}% - Computer-generated document, valid without signature`, MARGIN, FOOTER_TOP);
+  drawArabic(context, `ضريبة القيمة المضافة ${vatRate}% - مستند صادر إلكترونياً ولا يحتاج إلى توقيع`, PAGE_WIDTH - MARGIN, FOOTER_TOP + 32);
+  drawText(context, `${pageNumber} / ${pageCount}`, MARGIN, FOOTER_TOP + 32);
+};
+
+const formatBuyer = (order: TaxableOrder): TaxParty | null => {
+  const billing = order.billingAddress;
+  if (!billing) return null;
+
+  const address = [billing.address, billing.city, billing.state, billing.zipCode, billing.country]
+    .filter(Boolean)
+    .join(', ');
+  return {
+    name: [billing.firstName, billing.lastName].filter(Boolean).join(' ') || billing.email,
+    address: address || undefined,
+    email: billing.email,
+  };
+};
+
+/**
+ * Pages of a tax invoice or credit note; long orders carry the line table over to further pages
+ */
+export const renderTaxDocumentPages = (order: TaxableOrder, record: TaxDocumentRecord): HTMLCanvasElement[] => {
+  const isCreditNote = record.type === 'credit_note';
+  const vatRate = getOrderVatRate(order);
+  const lines = buildTaxDocumentLines(order, record);
+  const totals = sumTaxDocumentLines(lines, vatRate);
+
+  const pages: Array<{ canvas: HTMLCanvasElement; context: CanvasRenderingContext2D }> = [createPage()];
+  let { context } = pages[0];
+  drawHeader(context, record);
+
+  // Document details
+  let y = HEADER_HEIGHT + 50;
+  y = drawLabelledRow(context, isCreditNote ? INVOICE_LABELS.creditNoteNumber : INVOICE_LABELS.invoiceNumber, record.number, y);
+  y = drawLabelledRow(context, INVOICE_LABELS.issueDate, format(new Date(record.issuedAt), 'dd/MM/yyyy'), y);
+  y = drawLabelledRow(context, INVOICE_LABELS.orderNumber, order.orderNumber, y);
+  if (isCreditNote && record.invoiceNumber) {
+    y = drawLabelledRow(context, INVOICE_LABELS.originalInvoice, record.invoiceNumber, y);
+  }
+  if (isCreditNote && (record.reason || order.refundReason)) {
+    y = drawLabelledRow(context, INVOICE_LABELS.reason, (record.reason || order.refundReason) as string, y);
+  }
+
+  // Supplier and platform side by side, then the customer
+  y += 30;
+  const columnWidth = (CONTENT_WIDTH - 60) / 2;
+  const supplierBottom = drawParty(context, INVOICE_LABELS.supplier, record.vendor, MARGIN, y, columnWidth);
+  const platformBottom = drawParty(context, INVOICE_LABELS.collectedBy, record.platform, MARGIN + columnWidth + 60, y, columnWidth);
+  y = Math.max(supplierBottom, platformBottom) + 30;
+
+  const buyer = formatBuyer(order);
+  if (buyer) {
+    y = drawParty(context, INVOICE_LABELS.billedTo, buyer, MARGIN, y, CONTENT_WIDTH) + 30;
+  }
+
+  // Lines
+  y = drawTableHeader(context, order.currency, y + 40);
+  context.font = `26px ${FONT_FAMILY}`;
+  lines.forEach((line) => {
+    const descriptionLines = wrapText(context, line.description, COLUMNS.description.width);
+    if (y + descriptionLines.length * ROW_LINE_HEIGHT > FOOTER_TOP - 80) {
+      pages.push(createPage());
+      context = pages[pages.length - 1].context;
+      drawHeader(context, record);
+      y = drawTableHeader(context, order.currency, HEADER_HEIGHT + 80);
+      context.font = `26px ${FONT_FAMILY}`;
+    }
+    y = drawLine(context, line, descriptionLines, y);
+  });
+
+  // Totals, moved to a new page when they don't fit under the table
+  if (y + 200 > FOOTER_TOP - 40) {
+    pages.push(createPage());
+    context = pages[pages.length - 1].context;
+    drawHeader(context, record);
+    y = HEADER_HEIGHT + 50;
+  }
+  y += 20;
+  y = drawLabelledRow(context, INVOICE_LABELS.totalExcludingVat, formatTaxAmount(totals.taxableAmount, order.currency), y);
+  y = drawLabelledRow(
+    context,
+    { en: `${INVOICE_LABELS.totalVat.en} (${vatRate}%)`, ar: `${INVOICE_LABELS.totalVat.ar} (${vatRate}%)` },
+    formatTaxAmount(totals.vatAmount, order.currency),
+    y
+  );
+  drawLabelledRow(
+    context,
+    isCreditNote ? INVOICE_LABELS.totalCredited : INVOICE_LABELS.totalIncludingVat,
+    formatTaxAmount(totals.totalAmount, order.currency),
+    y + 10,
+    { bold: true }
+  );
+
+  pages.forEach((page, index) => drawFooter(page.context, index + 1, pages.length, vatRate));
+  return pages.map((page) => page.canvas);
+};
+
+export const downloadTaxDocumentPdf = (order: TaxableOrder, record: TaxDocumentRecord): void => {
+  const pages = renderTaxDocumentPages(order, record).map((canvas) => ({
+    jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.92)),
+    width: canvas.width,
+    height: canvas.height,
+  }));
+
+  const title = TAX_DOCUMENT_TITLES[record.type];
+  downloadPdf(
+    getTaxDocumentFileName(record),
+    buildImagePdf(pages, { title: `${title.en} / ${title.ar} ${record.number}` })
+  );
+};
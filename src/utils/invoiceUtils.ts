@@ -0,0 +1,152 @@
+/**
+ * Tax invoice utilities
+ * VAT breakdown, labels and formatting for the bilingual tax invoices and credit notes of an order
+ */
+
+import type {
+  TaxableOrder,
+  TaxDocumentLine,
+  TaxDocumentRecord,
+  TaxDocumentTotals,
+  TaxDocumentType,
+} from '../types/invoice';
+
+export interface BilingualLabel {
+  en: string;
+  ar: string;
+}
+
+export const TAX_DOCUMENT_TITLES: Record<TaxDocumentType, BilingualLabel> = {
+  tax_invoice: { en: 'Tax Invoice', ar: 'فاتورة ضريبية' },
+  credit_note: { en: 'Tax Credit Note', ar: 'إشعار دائن ضريبي' },
+};
+
+export const INVOICE_LABELS = {
+  invoiceNumber: { en: 'Invoice number', ar: 'رقم الفاتورة' },
+  creditNoteNumber: { en: 'Credit note number', ar: 'رقم الإشعار الدائن' },
+  originalInvoice: { en: 'Original invoice', ar: 'الفاتورة الأصلية' },
+  issueDate: { en: 'Date of issue', ar: 'تاريخ الإصدار' },
+  orderNumber: { en: 'Order number', ar: 'رقم الطلب' },
+  supplier: { en: 'Supplier', ar: 'المورد' },
+  collectedBy: { en: 'Issued and collected by', ar: 'صادرة ومحصلة من قبل' },
+  billedTo: { en: 'Billed to', ar: 'فاتورة إلى' },
+  trn: { en: 'TRN', ar: 'رقم التسجيل الضريبي' },
+  description: { en: 'Description', ar: 'الوصف' },
+  quantity: { en: 'Qty', ar: 'الكمية' },
+  unitPrice: { en: 'Unit price', ar: 'سعر الوحدة' },
+  taxableAmount: { en: 'Taxable amount', ar: 'المبلغ الخاضع للضريبة' },
+  vat: { en: 'VAT', ar: 'الضريبة' },
+  amount: { en: 'Amount', ar: 'المبلغ' },
+  serviceFee: { en: 'Service fee', ar: 'رسوم الخدمة' },
+  discount: { en: 'Discount', ar: 'خصم' },
+  refund: { en: 'Refund', ar: 'استرداد' },
+  reason: { en: 'Reason', ar: 'السبب' },
+  totalExcludingVat: { en: 'Total excluding VAT', ar: 'الإجمالي غير شامل الضريبة' },
+  totalVat: { en: 'Total VAT', ar: 'إجمالي ضريبة القيمة المضافة' },
+  totalIncludingVat: { en: 'Total including VAT', ar: 'الإجمالي شامل الضريبة' },
+  totalCredited: { en: 'Total credited', ar: 'إجمالي المبلغ المسترد' },
+};
+
+export const bilingual = (label: BilingualLabel): string => `${label.en} / ${label.ar}`;
+
+export const roundAmount = (amount: number): number => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+/**
+ * UAE TRNs are 15 digits; spaces and dashes people type in are ignored
+ */
+export const normalizeTrn = (trn: string): string => trn.replace(/[\s-]/g, '');
+
+export const isValidTrn = (trn: string): boolean => /^\d{15}$/.test(normalizeTrn(trn));
+
+const getTaxableBase = (order: TaxableOrder): number =>
+  roundAmount(order.subtotal - (order.discount || 0) + (order.serviceFee || 0));
+
+/**
+ * Effective VAT rate of an order in percent, taken from the tax the order was charged
+ */
+export const getOrderVatRate = (order: TaxableOrder): number => {
+  const base = getTaxableBase(order);
+  return base > 0 ? roundAmount((order.tax / base) * 100) : 0;
+};
+
+/**
+ * Splits the order's VAT over its lines in proportion to their taxable amounts. Rounding is
+ * settled on the largest line so the lines always add up to the VAT that was charged.
+ */
+export const allocateVat = (amounts: number[], vat: number): number[] => {
+  const base = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (base === 0 || amounts.length === 0) return amounts.map(() => 0);
+
+  const shares = amounts.map((amount) => roundAmount((amount / base) * vat));
+  const remainder = roundAmount(vat - shares.reduce((sum, share) => sum + share, 0));
+  if (remainder !== 0) {
+    const largest = amounts.reduce((best, amount, index) => (amount > amounts[best] ? index : best), 0);
+    shares[largest] = roundAmount(shares[largest] + remainder);
+  }
+  return shares;
+};
+
+const toLine = (description: string, quantity: number, unitPrice: number, taxableAmount: number, vatAmount: number): TaxDocumentLine => ({
+  description,
+  quantity,
+  unitPrice,
+  taxableAmount,
+  vatAmount,
+  totalAmount: roundAmount(taxableAmount + vatAmount),
+});
+
+/**
+ * Invoice lines: one per booked event, then the service fee and discount
+ */
+export const buildInvoiceLines = (order: TaxableOrder): TaxDocumentLine[] => {
+  const entries = order.items.map((item) => ({
+    description: item.eventTitle,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    amount: item.totalPrice,
+  }));
+
+  if (order.serviceFee) {
+    entries.push({ description: bilingual(INVOICE_LABELS.serviceFee), quantity: 1, unitPrice: order.serviceFee, amount: order.serviceFee });
+  }
+  if (order.discount) {
+    entries.push({ description: bilingual(INVOICE_LABELS.discount), quantity: 1, unitPrice: -order.discount, amount: -order.discount });
+  }
+
+  const vat = allocateVat(entries.map((entry) => entry.amount), order.tax);
+  return entries.map((entry, index) =>
+    toLine(entry.description, entry.quantity, entry.unitPrice, roundAmount(entry.amount), vat[index])
+  );
+};
+
+/**
+ * Credit note line: the refunded amount split into taxable amount and VAT in the same proportion
+ * as the original order
+ */
+export const buildCreditNoteLines = (order: TaxableOrder, record: Pick<TaxDocumentRecord, 'amount'>): TaxDocumentLine[] => {
+  const refunded = roundAmount(record.amount ?? order.refundAmount ?? order.total);
+  const vat = order.total > 0 ? roundAmount((refunded * order.tax) / order.total) : 0;
+  const taxable = roundAmount(refunded - vat);
+  const description = `${bilingual(INVOICE_LABELS.refund)} - ${order.orderNumber}`;
+
+  return [toLine(description, 1, taxable, taxable, vat)];
+};
+
+export const buildTaxDocumentLines = (order: TaxableOrder, record: Pick<TaxDocumentRecord, 'type' | 'amount'>): TaxDocumentLine[] =>
+  record.type === 'credit_note' ? buildCreditNoteLines(order, record) : buildInvoiceLines(order);
+
+export const sumTaxDocumentLines = (lines: TaxDocumentLine[], vatRate: number): TaxDocumentTotals => ({
+  taxableAmount: roundAmount(lines.reduce((sum, line) => sum + line.taxableAmount, 0)),
+  vatAmount: roundAmount(lines.reduce((sum, line) => sum + line.vatAmount, 0)),
+  totalAmount: roundAmount(lines.reduce((sum, line) => sum + line.totalAmount, 0)),
+  vatRate,
+});
+
+/**
+ * Amounts as printed on tax documents: currency code and two decimals, e.g. "AED 1,234.50"
+ */
+export const formatTaxAmount = (amount: number, currency: string): string =>
+  `${currency.toUpperCase()} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const getTaxDocumentFileName = (record: Pick<TaxDocumentRecord, 'type' | 'number'>): string =>
+  `${record.type === 'credit_note' ? 'credit-note' : 'tax-invoice'}-${record.number}.pdf`;
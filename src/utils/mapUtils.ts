@@ -0,0 +1,128 @@
+// Map utilities
+// Coordinate checks, distance maths and grid-based marker clustering for the Leaflet maps
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface SearchArea extends GeoPoint {
+  radius: number; // km
+}
+
+export interface MapMarker<T = unknown> {
+  id: string;
+  position: GeoPoint;
+  data: T;
+}
+
+export interface MarkerCluster<T = unknown> {
+  id: string;
+  position: GeoPoint; // Average of the member positions
+  markers: MapMarker<T>[];
+}
+
+// Dubai - most listings are in the UAE
+export const DEFAULT_MAP_CENTER: GeoPoint = { lat: 25.2048, lng: 55.2708 };
+export const DEFAULT_MAP_ZOOM = 11;
+
+export const SEARCH_RADIUS_LIMITS = { min: 1, max: 100 }; // km
+
+const EARTH_RADIUS_KM = 6371;
+const TILE_SIZE = 256;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Whether a value holds usable coordinates. Events created without a pin are saved as 0,0,
+ * which is treated as missing.
+ */
+export const isValidCoordinates = (point?: Partial<GeoPoint> | null): point is GeoPoint => {
+  if (!point || typeof point.lat !== 'number' || typeof point.lng !== 'number') return false;
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) return false;
+  if (Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180) return false;
+  return !(point.lat === 0 && point.lng === 0);
+};
+
+// Great-circle distance (haversine)
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Point reached by travelling distanceKm from origin on the given bearing (degrees from north)
+export const destinationPoint = (origin: GeoPoint, distance: number, bearing: number): GeoPoint => {
+  const angular = distance / EARTH_RADIUS_KM;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return { lat: toDegrees(lat2), lng: ((toDegrees(lng2) + 540) % 360) - 180 };
+};
+
+export const clampRadius = (radius: number): number =>
+  Math.round(Math.min(SEARCH_RADIUS_LIMITS.max, Math.max(SEARCH_RADIUS_LIMITS.min, radius)));
+
+export const isWithinArea = (point: GeoPoint, area: SearchArea): boolean =>
+  distanceKm(area, point) <= area.radius;
+
+// Web Mercator pixel position at a zoom level, as Leaflet lays out tiles
+const projectToPixels = ({ lat, lng }: GeoPoint, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.min(Math.max(Math.sin(toRadians(lat)), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Group markers that would overlap on screen at the given zoom. Markers falling into the same
+ * gridSize-pixel cell become one cluster; a cluster of one is just that marker.
+ */
+export const clusterMarkers = <T>(
+  markers: MapMarker<T>[],
+  zoom: number,
+  gridSize: number = 60
+): MarkerCluster<T>[] => {
+  const cells = new Map<string, MapMarker<T>[]>();
+
+  markers.forEach((marker) => {
+    if (!isValidCoordinates(marker.position)) return;
+    const { x, y } = projectToPixels(marker.position, zoom);
+    const key = `${Math.floor(x / gridSize)}:${Math.floor(y / gridSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(marker);
+    } else {
+      cells.set(key, [marker]);
+    }
+  });
+
+  return Array.from(cells.values()).map((members) => ({
+    id: members.length === 1 ? members[0].id : `cluster-${members.map((marker) => marker.id).join('-')}`,
+    position: {
+      lat: members.reduce((sum, marker) => sum + marker.position.lat, 0) / members.length,
+      lng: members.reduce((sum, marker) => sum + marker.position.lng, 0) / members.length,
+    },
+    markers: members,
+  }));
+};
+
+export const getDirectionsUrl = ({ lat, lng }: GeoPoint): string =>
+  `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`;
@@ -0,0 +1,133 @@
+// PDF utilities
+// A small PDF writer for documents made of full-page images, such as tickets drawn on a canvas.
+// Each page embeds one JPEG as-is (DCTDecode), so no PDF library is needed in the bundle.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  width: number; // Image size in pixels
+  height: number;
+}
+
+export interface PdfPageSize {
+  width: number; // Points (1/72 inch)
+  height: number;
+}
+
+export const A4_PAGE_SIZE: PdfPageSize = { width: 595.28, height: 841.89 };
+
+// Latin-1 bytes for the PDF syntax itself, which is plain ASCII
+const toBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * UTF-16BE hex string so titles in Arabic (or any script) show correctly in PDF viewers
+ */
+export const toPdfTextString = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0');
+  }
+  return `<${hex}>`;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return toBytes(binary);
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * One page per image, each image stretched to the full page. Images should share the page's
+ * aspect ratio to avoid distortion.
+ */
+export const buildImagePdf = (
+  pages: PdfImagePage[],
+  options: { title?: string; pageSize?: PdfPageSize } = {}
+): Uint8Array => {
+  const { title, pageSize = A4_PAGE_SIZE } = options;
+  const width = formatNumber(pageSize.width);
+  const height = formatNumber(pageSize.height);
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? toBytes(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, 3 info, then page, image and content per page
+  const pageId = (index: number) => 4 + index * 3;
+  const objectCount = 3 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  );
+  writeObject(3, `<< /Producer (Kidrove)${title ? ` /Title ${toPdfTextString(title)}` : ''} >>`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const content = toBytes(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    writeObject(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`
+    );
+    writeObject(
+      id + 1,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+    writeObject(id + 2, `<< /Length ${content.length} >>`, content);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
+
+export const downloadPdf = (fileName: string, pdf: Uint8Array): void => {
+  const blob = new Blob([pdf], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -2,10 +2,13 @@
  * Permission utilities for role-based access control
  */
 
+import type { Permission, PermissionGroup } from '../types/permission';
+
 export interface User {
   id: string;
   role: 'admin' | 'vendor' | 'employee' | 'user';
-  permissions?: string[];
+  permissions?: Permission[];
+  adminRoleId?: string | null;
   vendorId?: string;
 }
 
@@ -23,14 +26,191 @@ export interface Blog {
   };
 }
 
+/**
+ * Every admin permission, grouped the way the role editor shows them
+ */
+export const PERMISSION_CATALOGUE: PermissionGroup[] = [
+  {
+    id: 'general',
+    label: 'General',
+    permissions: [
+      { key: 'dashboard.view', label: 'View dashboard', description: 'Platform overview and key figures' },
+      { key: 'analytics.view', label: 'View analytics', description: 'Sales, traffic and SEO reports' },
+      { key: 'audit.view', label: 'View audit log', description: 'Who changed what, and why' },
+    ],
+  },
+  {
+    id: 'people',
+    label: 'Users & vendors',
+    permissions: [
+      { key: 'users.view', label: 'View users', description: 'Browse user accounts and their history' },
+      { key: 'users.manage', label: 'Manage users', description: 'Create, edit, delete and reset passwords' },
+      { key: 'users.impersonate', label: 'View as user', description: 'Start time-boxed impersonation sessions' },
+      { key: 'vendors.view', label: 'View vendors', description: 'Browse vendor accounts' },
+      { key: 'vendors.manage', label: 'Manage vendors', description: 'Change payment models and suspend vendors' },
+      { key: 'employees.manage', label: 'Manage employees', description: 'Add employees and assign them to events' },
+    ],
+  },
+  {
+    id: 'catalogue',
+    label: 'Events & venues',
+    permissions: [
+      { key: 'events.view', label: 'View events', description: 'Browse all events' },
+      { key: 'events.manage', label: 'Manage events', description: 'Create, edit and delete events' },
+      { key: 'events.moderate', label: 'Moderate events', description: 'Approve, reject and feature events' },
+      { key: 'venues.manage', label: 'Manage venues', description: 'Venues and seat maps' },
+      { key: 'categories.manage', label: 'Manage categories', description: 'Event categories' },
+    ],
+  },
+  {
+    id: 'content',
+    label: 'Content',
+    permissions: [
+      { key: 'blogs.manage', label: 'Manage blogs', description: 'Posts and blog categories' },
+      { key: 'collections.manage', label: 'Manage collections', description: 'Curated event collections' },
+      { key: 'media.manage', label: 'Manage media', description: 'The shared media library' },
+    ],
+  },
+  {
+    id: 'sales',
+    label: 'Sales',
+    permissions: [
+      { key: 'orders.view', label: 'View orders', description: 'Browse orders and bookings' },
+      { key: 'orders.manage', label: 'Manage orders', description: 'Confirm, cancel and delete orders' },
+      { key: 'orders.refund', label: 'Refund orders', description: 'Issue full and partial refunds' },
+      { key: 'coupons.manage', label: 'Manage coupons', description: 'Discount codes' },
+      { key: 'partnerships.manage', label: 'Manage partnerships', description: 'Affiliates and partners' },
+    ],
+  },
+  {
+    id: 'finance',
+    label: 'Finance',
+    permissions: [
+      { key: 'payouts.view', label: 'View payouts', description: 'Vendor earnings and payout requests' },
+      { key: 'payouts.manage', label: 'Manage payouts', description: 'Approve, reject and process payouts' },
+      { key: 'commissions.view', label: 'View commissions', description: 'Commission configurations and transactions' },
+      { key: 'commissions.manage', label: 'Manage commissions', description: 'Create and change commission configurations' },
+    ],
+  },
+  {
+    id: 'system',
+    label: 'System',
+    permissions: [
+      { key: 'settings.manage', label: 'Manage settings', description: 'Platform-wide settings' },
+      { key: 'roles.manage', label: 'Manage roles', description: 'Create admin roles and assign them' },
+    ],
+  },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_CATALOGUE.flatMap((group) =>
+  group.permissions.map((permission) => permission.key)
+);
+
+/**
+ * Starting points offered when creating a role
+ */
+export const ROLE_PRESETS: { name: string; description: string; permissions: Permission[] }[] = [
+  {
+    name: 'Finance',
+    description: 'Payouts, commissions and sales reports',
+    permissions: ['dashboard.view', 'analytics.view', 'orders.view', 'orders.refund', 'payouts.view', 'payouts.manage', 'commissions.view', 'commissions.manage'],
+  },
+  {
+    name: 'Content editor',
+    description: 'Blogs, collections and media',
+    permissions: ['blogs.manage', 'collections.manage', 'media.manage'],
+  },
+  {
+    name: 'Support',
+    description: 'Help customers and vendors with their accounts and orders',
+    permissions: ['dashboard.view', 'users.view', 'users.impersonate', 'vendors.view', 'events.view', 'orders.view'],
+  },
+];
+
+type PermissionUser = Pick<User, 'role' | 'permissions' | 'adminRoleId'>;
+
+/**
+ * Admin permissions of a user. Only admin accounts hold admin permissions; an admin without an
+ * assigned role has every permission. An empty list is what the API sends for those admins, so
+ * it only means "no permissions" when a role is assigned.
+ */
+export const getAdminPermissions = (user: PermissionUser | null): Permission[] => {
+  if (!user || user.role !== 'admin') return [];
+  if (user.permissions?.length) return user.permissions;
+  return user.adminRoleId ? [] : ALL_PERMISSIONS;
+};
+
+export const hasPermission = (user: PermissionUser | null, permission: Permission): boolean =>
+  getAdminPermissions(user).includes(permission);
+
+export const hasAnyPermission = (user: PermissionUser | null, permissions: Permission[]): boolean =>
+  permissions.some((permission) => hasPermission(user, permission));
+
+/**
+ * Permission needed to open each admin section. Paths match their sub-pages unless exact; the
+ * first match wins.
+ */
+export const ADMIN_ROUTE_PERMISSIONS: { path: string; permissions: Permission[]; exact?: boolean }[] = [
+  { path: '/admin/users', permissions: ['users.view'] },
+  { path: '/admin/vendors', permissions: ['vendors.view'] },
+  { path: '/admin/events', permissions: ['events.view'], exact: true },
+  { path: '/admin/events', permissions: ['events.manage'] },
+  { path: '/admin/venues', permissions: ['venues.manage'] },
+  { path: '/admin/categories', permissions: ['categories.manage'] },
+  { path: '/admin/orders', permissions: ['orders.view'] },
+  { path: '/admin/blog-categories', permissions: ['blogs.manage'] },
+  { path: '/admin/blogs', permissions: ['blogs.manage'] },
+  { path: '/admin/collections', permissions: ['collections.manage'] },
+  { path: '/admin/media', permissions: ['media.manage'] },
+  { path: '/admin/files', permissions: ['media.manage'] },
+  { path: '/admin/coupons', permissions: ['coupons.manage'] },
+  { path: '/admin/partnerships', permissions: ['partnerships.manage'] },
+  { path: '/admin/payouts', permissions: ['payouts.view'] },
+  { path: '/admin/commissions', permissions: ['commissions.view'] },
+  { path: '/admin/employees', permissions: ['employees.manage'] },
+  { path: '/admin/analytics', permissions: ['analytics.view'] },
+  { path: '/admin/audit-log', permissions: ['audit.view'] },
+  { path: '/admin/roles', permissions: ['roles.manage'] },
+  { path: '/admin/settings', permissions: ['settings.manage'] },
+  { path: '/admin', permissions: ['dashboard.view'], exact: true },
+];
+
+/**
+ * Permissions that open an admin path (any one of them is enough), or null for pages that are
+ * not in the map and need full access
+ */
+export const getAdminRoutePermissions = (pathname: string): Permission[] | null => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const match = ADMIN_ROUTE_PERMISSIONS.find((route) =>
+    path === route.path || (!route.exact && path.startsWith(`${route.path}/`))
+  );
+  return match ? match.permissions : null;
+};
+
+export const canAccessAdminPath = (user: PermissionUser | null, pathname: string): boolean => {
+  const required = getAdminRoutePermissions(pathname);
+  return required
+    ? hasAnyPermission(user, required)
+    : ALL_PERMISSIONS.every((permission) => hasPermission(user, permission));
+};
+
+/**
+ * Where to send a staff member who opens the admin panel: the dashboard, or their first section
+ */
+export const getDefaultAdminPath = (user: PermissionUser | null): string | null => {
+  if (hasPermission(user, 'dashboard.view')) return '/admin';
+  const route = ADMIN_ROUTE_PERMISSIONS.find((entry) => canAccessAdminPath(user, entry.path));
+  return route ? route.path : null;
+};
+
 /**
  * Check if user can edit SEO for events
  */
 export const canEditEventSEO = (user: User | null, event?: Event): boolean => {
   if (!user) return false;
 
-  // Admin can edit all event SEO
-  if (user.role === 'admin') return true;
+  // Admins with event access can edit all event SEO
+  if (hasPermission(user, 'events.manage')) return true;
 
   // Vendor can only edit SEO for their own events
   if (user.role === 'vendor' && event) {
@@ -50,8 +230,8 @@ export const canEditEventSEO = (user: User | null, event?: Event): boolean => {
 export const canEditBlogSEO = (user: User | null, blog?: Blog): boolean => {
   if (!user) return false;
 
-  // Admin can edit all blog SEO
-  if (user.role === 'admin') return true;
+  // Admins with blog access can edit all blog SEO
+  if (hasPermission(user, 'blogs.manage')) return true;
 
   // Authors can edit their own blog SEO (if implemented)
   if (blog?.author && user.id === blog.author.id) return true;
@@ -64,7 +244,7 @@ export const canEditBlogSEO = (user: User | null, blog?: Blog): boolean => {
  */
 export const canCreateEvent = (user: User | null): boolean => {
   if (!user) return false;
-  return user.role === 'admin' || user.role === 'vendor';
+  return hasPermission(user, 'events.manage') || user.role === 'vendor';
 };
 
 /**
@@ -72,7 +252,7 @@ export const canCreateEvent = (user: User | null): boolean => {
  */
 export const canCreateBlog = (user: User | null): boolean => {
   if (!user) return false;
-  return user.role === 'admin';
+  return hasPermission(user, 'blogs.manage');
 };
 
 /**
@@ -80,7 +260,7 @@ export const canCreateBlog = (user: User | null): boolean => {
  */
 export const canViewSEOAnalytics = (user: User | null): boolean => {
   if (!user) return false;
-  return user.role === 'admin' || user.role === 'vendor';
+  return hasPermission(user, 'analytics.view') || user.role === 'vendor';
 };
 
 /**
@@ -88,7 +268,7 @@ export const canViewSEOAnalytics = (user: User | null): boolean => {
  */
 export const canManageGlobalSEO = (user: User | null): boolean => {
   if (!user) return false;
-  return user.role === 'admin';
+  return hasPermission(user, 'settings.manage');
 };
 
 /**
@@ -97,7 +277,7 @@ export const canManageGlobalSEO = (user: User | null): boolean => {
 export const getSEOPermissionLevel = (user: User | null, contentType: 'event' | 'blog', content?: Event | Blog): 'none' | 'basic' | 'advanced' | 'full' => {
   if (!user) return 'none';
 
-  if (user.role === 'admin') return 'full';
+  if (hasPermission(user, contentType === 'event' ? 'events.manage' : 'blogs.manage')) return 'full';
 
   if (contentType === 'event') {
     if (canEditEventSEO(user, content as Event)) {
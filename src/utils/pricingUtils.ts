@@ -0,0 +1,200 @@
+// Pricing utilities shared by cart, checkout and booking flows
+// Rates come from system settings with optional per-vendor overrides
+
+export interface PricingSettings {
+  serviceFeePercentage: number;
+  taxPercentage: number;
+  roundingIncrement: number;
+  currency: string;
+}
+
+export interface VendorPricingOverride {
+  vendorId: string;
+  serviceFeePercentage?: number;
+  serviceFeeExempt?: boolean;
+}
+
+export interface PricingConfig {
+  settings: PricingSettings;
+  vendorOverrides: Record<string, VendorPricingOverride>;
+}
+
+export interface PricingLineInput {
+  id: string;
+  vendorId?: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface PricingDiscountInput {
+  type: 'percentage' | 'fixed';
+  value: number;
+  maxDiscount?: number;
+  code?: string;
+}
+
+export interface VendorFeeLine {
+  vendorId: string;
+  subtotal: number;
+  rate: number;
+  amount: number;
+}
+
+export interface PricingBreakdown {
+  subtotal: number;
+  serviceFee: number;
+  vendorFees: VendorFeeLine[];
+  discount: number;
+  discountCode?: string;
+  taxableAmount: number;
+  taxRate: number;
+  tax: number;
+  rounding: number;
+  total: number;
+  currency: string;
+}
+
+export const PLATFORM_VENDOR_ID = 'platform';
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  serviceFeePercentage: 5,
+  taxPercentage: 5,
+  roundingIncrement: 0.01,
+  currency: 'AED',
+};
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  settings: DEFAULT_PRICING_SETTINGS,
+  vendorOverrides: {},
+};
+
+/**
+ * Rounds an amount to 2 decimal places, avoiding floating point drift
+ */
+export const roundMoney = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Rounds an amount to the nearest increment (e.g. 0.05 or 0.25)
+ */
+export const roundToIncrement = (amount: number, increment: number): number => {
+  if (!increment || increment <= 0) {
+    return roundMoney(amount);
+  }
+  return roundMoney(Math.round(roundMoney(amount / increment)) * increment);
+};
+
+/**
+ * Resolves the service fee rate for a vendor, falling back to the platform rate
+ */
+export const getServiceFeeRate = (config: PricingConfig, vendorId?: string): number => {
+  const override = vendorId ? config.vendorOverrides[vendorId] : undefined;
+
+  if (override?.serviceFeeExempt) {
+    return 0;
+  }
+
+  return override?.serviceFeePercentage ?? config.settings.serviceFeePercentage;
+};
+
+/**
+ * Calculates the discount amount for a subtotal, capped at the subtotal
+ */
+export const calculateDiscountAmount = (
+  subtotal: number,
+  discount?: PricingDiscountInput | null
+): number => {
+  if (!discount || discount.value <= 0 || subtotal <= 0) {
+    return 0;
+  }
+
+  let amount = discount.type === 'percentage'
+    ? subtotal * (discount.value / 100)
+    : discount.value;
+
+  if (discount.maxDiscount && amount > discount.maxDiscount) {
+    amount = discount.maxDiscount;
+  }
+
+  return roundMoney(Math.min(amount, subtotal));
+};
+
+/**
+ * Calculates a full pricing breakdown.
+ *
+ * Rules, applied in order:
+ * 1. Subtotal is the sum of unit price × quantity for every line
+ * 2. Service fee is charged per vendor on that vendor's subtotal
+ * 3. Discount applies to the subtotal only (never to fees) and is capped at the subtotal
+ * 4. VAT applies to the discounted subtotal plus service fees
+ * 5. The total is rounded to the configured increment and the difference is reported as rounding
+ */
+export const calculatePricing = (
+  lines: PricingLineInput[],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG,
+  discount?: PricingDiscountInput | null,
+  currency?: string
+): PricingBreakdown => {
+  const { settings } = config;
+
+  const vendorSubtotals = new Map<string, number>();
+  lines.forEach(line => {
+    const vendorId = line.vendorId || PLATFORM_VENDOR_ID;
+    const lineTotal = Math.max(0, line.unitPrice) * Math.max(0, line.quantity);
+    vendorSubtotals.set(vendorId, (vendorSubtotals.get(vendorId) || 0) + lineTotal);
+  });
+
+  const vendorFees: VendorFeeLine[] = Array.from(vendorSubtotals.entries()).map(([vendorId, vendorSubtotal]) => {
+    const rate = getServiceFeeRate(config, vendorId);
+    return {
+      vendorId,
+      subtotal: roundMoney(vendorSubtotal),
+      rate,
+      amount: roundMoney(vendorSubtotal * (rate / 100)),
+    };
+  });
+
+  const subtotal = roundMoney(vendorFees.reduce((sum, fee) => sum + fee.subtotal, 0));
+  const serviceFee = roundMoney(vendorFees.reduce((sum, fee) => sum + fee.amount, 0));
+  const discountAmount = calculateDiscountAmount(subtotal, discount);
+
+  const taxableAmount = roundMoney(Math.max(0, subtotal - discountAmount + serviceFee));
+  const tax = roundMoney(taxableAmount * (settings.taxPercentage / 100));
+
+  const unroundedTotal = roundMoney(taxableAmount + tax);
+  const total = roundToIncrement(unroundedTotal, settings.roundingIncrement);
+
+  return {
+    subtotal,
+    serviceFee,
+    vendorFees,
+    discount: discountAmount,
+    discountCode: discount?.code,
+    taxableAmount,
+    taxRate: settings.taxPercentage,
+    tax,
+    rounding: roundMoney(total - unroundedTotal),
+    total,
+    currency: currency || settings.currency,
+  };
+};
+
+/**
+ * Returns the blended service fee rate across all vendors in a breakdown
+ */
+export const getEffectiveServiceFeeRate = (breakdown: PricingBreakdown): number => {
+  if (breakdown.subtotal <= 0) {
+    return 0;
+  }
+  return roundMoney((breakdown.serviceFee / breakdown.subtotal) * 100);
+};
+
+export default {
+  calculatePricing,
+  calculateDiscountAmount,
+  getServiceFeeRate,
+  getEffectiveServiceFeeRate,
+  roundMoney,
+  roundToIncrement,
+};
@@ -0,0 +1,221 @@
+// Signed QR ticket tokens
+// The backend signs ticket, booking and order codes with an ECDSA P-256 key (ES256). Scanners
+// verify them offline against the published public keys, so a code can't be forged by
+// recomputing a checksum.
+//
+// Token format (kept compact so the QR stays at a low version and scans quickly):
+//   GQ1.<kid>.<base64url(JSON claims)>.<base64url(64-byte r||s signature)>
+// The signature covers everything before the last dot.
+
+export const SIGNED_QR_PREFIX = 'GQ1';
+
+// Allowed difference between the scanner's clock and the issuer's
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface SignedQRClaims {
+  typ: 'order' | 'booking' | 'ticket';
+  id: string; // Order id, booking id or ticket number depending on typ
+  evt?: string; // Event id
+  sub?: string; // User id
+  seats?: number;
+  iat: number; // Issued at, unix seconds
+  nbf?: number; // Not valid before, unix seconds
+  exp: number; // Expires at, unix seconds
+  jti: string; // Unique per issued code, used to spot replays
+}
+
+// Public key as published by the backend (JWK plus its key id)
+export interface QRSigningKey extends JsonWebKey {
+  kid: string;
+}
+
+export interface DecodedSignedQR {
+  kid: string;
+  claims: SignedQRClaims;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+export type QRVerificationFailure =
+  | 'malformed'
+  | 'unsigned'
+  | 'unknown_key'
+  | 'forged'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'replayed';
+
+export interface SignedQRVerification {
+  isValid: boolean;
+  claims?: SignedQRClaims;
+  reason?: QRVerificationFailure;
+  error?: string;
+}
+
+// Remembers codes that have already been used on this device
+export interface QRReplayGuard {
+  has(jti: string): boolean;
+  markUsed(jti: string, expiresAt: number): void;
+}
+
+export interface VerifySignedQROptions {
+  keys: QRSigningKey[];
+  now?: Date;
+  replayGuard?: QRReplayGuard;
+  subtle?: SubtleCrypto; // Defaults to the browser's crypto.subtle
+}
+
+// Encoding helpers
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const utf8Decode = (bytes: Uint8Array): string =>
+  decodeURIComponent(Array.from(bytes, (byte) => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+
+// The signing input is base64url and dots only, so it is plain ASCII
+const asciiBytes = (value: string): Uint8Array => Uint8Array.from(value, (char) => char.charCodeAt(0));
+
+export const isSignedQRToken = (value: string): boolean => value.trim().startsWith(`${SIGNED_QR_PREFIX}.`);
+
+/**
+ * Split and decode a signed token without checking the signature. Returns null when the
+ * value is not a well-formed token.
+ */
+export const decodeSignedQRToken = (token: string): DecodedSignedQR | null => {
+  const parts = token.trim().split('.');
+  if (parts.length !== 4 || parts[0] !== SIGNED_QR_PREFIX || !parts[1]) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(utf8Decode(base64UrlToBytes(parts[2]))) as SignedQRClaims;
+    if (!claims || typeof claims !== 'object' || !claims.typ || !claims.id || !claims.exp || !claims.jti) {
+      return null;
+    }
+
+    return {
+      kid: parts[1],
+      claims,
+      signingInput: parts.slice(0, 3).join('.'),
+      signature: base64UrlToBytes(parts[3]),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Imported keys are cached per JWK so rotation only costs one import per key
+const importedKeys = new WeakMap<QRSigningKey, Promise<CryptoKey>>();
+
+const importVerifyKey = (key: QRSigningKey, subtle: SubtleCrypto): Promise<CryptoKey> => {
+  let imported = importedKeys.get(key);
+  if (!imported) {
+    const { kid: _kid, ...jwk } = key;
+    imported = subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    importedKeys.set(key, imported);
+  }
+  return imported;
+};
+
+/**
+ * Verify a signed QR token: signature against the key named by its kid, then the validity
+ * window, then (optionally) whether this device has already accepted it.
+ */
+export const verifySignedQRToken = async (
+  token: string,
+  { keys, now = new Date(), replayGuard, subtle = globalThis.crypto?.subtle }: VerifySignedQROptions
+): Promise<SignedQRVerification> => {
+  if (!isSignedQRToken(token)) {
+    return { isValid: false, reason: 'unsigned', error: 'QR code is not signed' };
+  }
+
+  const decoded = decodeSignedQRToken(token);
+  if (!decoded) {
+    return { isValid: false, reason: 'malformed', error: 'Invalid QR code format' };
+  }
+
+  const key = keys.find((candidate) => candidate.kid === decoded.kid);
+  if (!key) {
+    return { isValid: false, reason: 'unknown_key', error: 'QR code was signed with an unknown key' };
+  }
+
+  if (!subtle) {
+    throw new Error('Web Crypto is not available in this browser');
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = await subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      await importVerifyKey(key, subtle),
+      decoded.signature,
+      asciiBytes(decoded.signingInput)
+    );
+  } catch {
+    signatureValid = false;
+  }
+
+  if (!signatureValid) {
+    return { isValid: false, reason: 'forged', error: 'QR code signature is invalid' };
+  }
+
+  const { claims } = decoded;
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+
+  if (claims.nbf && nowSeconds + CLOCK_SKEW_SECONDS < claims.nbf) {
+    return { isValid: false, reason: 'not_yet_valid', error: 'QR code is not valid yet', claims };
+  }
+
+  if (nowSeconds - CLOCK_SKEW_SECONDS > claims.exp) {
+    return { isValid: false, reason: 'expired', error: 'QR code has expired', claims };
+  }
+
+  if (replayGuard?.has(claims.jti)) {
+    return { isValid: false, reason: 'replayed', error: 'QR code has already been used', claims };
+  }
+
+  return { isValid: true, claims };
+};
+
+/**
+ * Replay guard that remembers used codes until they expire, persisted to the given storage
+ * (e.g. localStorage) so a reload doesn't forget them
+ */
+export const createQRReplayGuard = (
+  storage?: Pick<Storage, 'getItem' | 'setItem'>,
+  storageKey: string = 'usedQRCodes',
+  clock: () => number = () => Date.now()
+): QRReplayGuard => {
+  let used: Record<string, number> = {};
+  try {
+    used = JSON.parse(storage?.getItem(storageKey) || '{}');
+  } catch {
+    used = {};
+  }
+
+  const prune = () => {
+    const nowSeconds = Math.floor(clock() / 1000);
+    Object.keys(used).forEach((jti) => {
+      if (used[jti] + CLOCK_SKEW_SECONDS < nowSeconds) {
+        delete used[jti];
+      }
+    });
+  };
+
+  return {
+    has: (jti) => {
+      prune();
+      return jti in used;
+    },
+    markUsed: (jti, expiresAt) => {
+      prune();
+      used[jti] = expiresAt;
+      storage?.setItem(storageKey, JSON.stringify(used));
+    },
+  };
+};
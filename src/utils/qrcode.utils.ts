@@ -1,8 +1,20 @@
 /**
  * Frontend QR Code Utilities
- * Provides secure QR code data generation and validation for frontend components
+ * Provides QR code data generation for display and signature validation for scanners.
+ * Only the backend can issue scannable codes: it signs them (see qrSignature), and codes
+ * generated here are unsigned fallbacks for showing booking details.
  */
 
+import {
+  decodeSignedQRToken,
+  isSignedQRToken,
+  QRReplayGuard,
+  QRSigningKey,
+  QRVerificationFailure,
+  SignedQRClaims,
+  verifySignedQRToken,
+} from './qrSignature';
+
 export interface QRCodeData {
   orderId?: string;
   bookingId?: string;
@@ -25,7 +37,23 @@ export interface SecureQRData extends QRCodeData {
   generatedAt: string;
   expiresAt: string;
   version: string;
-  checksum: string;
+  signed?: boolean; // True when decoded from a backend-signed token
+  keyId?: string;
+  nonce?: string;
+}
+
+export interface QRValidationOptions {
+  keys: QRSigningKey[]; // Published signing keys
+  now?: Date;
+  replayGuard?: QRReplayGuard;
+  subtle?: SubtleCrypto;
+}
+
+export interface QRValidationResult {
+  isValid: boolean;
+  data?: SecureQRData;
+  error?: string;
+  reason?: QRVerificationFailure;
 }
 
 /**
@@ -65,7 +93,8 @@ export const calculateQRExpiration = (data: QRCodeData): Date => {
 };
 
 /**
- * Generate secure QR code data with smart expiration based on event dates
+ * Generate unsigned QR code data with smart expiration based on event dates. Scanners reject
+ * unsigned codes, so this is only a display fallback until the backend-signed code is loaded.
  */
 export const generateSecureQRData = (data: QRCodeData): string => {
   const timestamp = new Date().toISOString();
@@ -74,55 +103,77 @@ export const generateSecureQRData = (data: QRCodeData): string => {
   const expirationDate = calculateQRExpiration(data);
   const expiresAt = expirationDate.toISOString();
 
-  // Create unique identifier based on data type
-  const identifier = data.orderId || data.bookingId || data.ticketNumber || 'unknown';
-
   const secureData: SecureQRData = {
     ...data,
     generatedAt: timestamp,
     expiresAt,
     version: '1.0',
-    // Add a simple checksum for basic integrity
-    checksum: btoa(`${identifier}-${data.eventId || 'no-event'}-${timestamp}`).slice(0, 8)
+    signed: false
   };
 
   return JSON.stringify(secureData);
 };
 
+const claimsToQRData = (claims: SignedQRClaims, keyId: string): SecureQRData => ({
+  type: claims.typ,
+  orderId: claims.typ === 'order' ? claims.id : undefined,
+  bookingId: claims.typ === 'booking' ? claims.id : undefined,
+  ticketNumber: claims.typ === 'ticket' ? claims.id : undefined,
+  eventId: claims.evt,
+  userId: claims.sub,
+  seatsAllocated: claims.seats,
+  generatedAt: new Date(claims.iat * 1000).toISOString(),
+  expiresAt: new Date(claims.exp * 1000).toISOString(),
+  version: '2.0',
+  signed: true,
+  keyId,
+  nonce: claims.jti
+});
+
 /**
- * Validate QR code data structure and timing
+ * Read QR code data for display without checking its signature
  */
-export const validateQRData = (qrDataString: string): { isValid: boolean; data?: SecureQRData; error?: string } => {
-  try {
-    const data = JSON.parse(qrDataString) as SecureQRData;
+export const parseQRData = (qrDataString: string): SecureQRData | null => {
+  if (isSignedQRToken(qrDataString)) {
+    const decoded = decodeSignedQRToken(qrDataString);
+    return decoded ? claimsToQRData(decoded.claims, decoded.kid) : null;
+  }
 
-    // Check required fields based on type
-    if (data.type === 'order' && !data.orderId) {
-      return { isValid: false, error: 'Missing order ID' };
-    }
-    if (data.type === 'booking' && !data.bookingId) {
-      return { isValid: false, error: 'Missing booking ID' };
-    }
-    if (data.type === 'ticket' && !data.ticketNumber) {
-      return { isValid: false, error: 'Missing ticket number' };
-    }
+  try {
+    return JSON.parse(qrDataString) as SecureQRData;
+  } catch (error) {
+    return null;
+  }
+};
 
-    // Check expiration
-    if (data.expiresAt && new Date() > new Date(data.expiresAt)) {
-      return { isValid: false, error: 'QR code has expired' };
-    }
+/**
+ * Validate a scanned QR code: the backend signature, the validity window and (with a
+ * replay guard) whether this device already accepted it. Unsigned codes are rejected
+ * with reason 'unsigned' so callers can decide whether to fall back to a server lookup.
+ */
+export const validateQRData = async (
+  qrDataString: string,
+  options: QRValidationOptions
+): Promise<QRValidationResult> => {
+  if (!isSignedQRToken(qrDataString)) {
+    const legacy = parseQRData(qrDataString);
+    return {
+      isValid: false,
+      data: legacy || undefined,
+      reason: legacy ? 'unsigned' : 'malformed',
+      error: legacy ? 'QR code is not signed' : 'Invalid QR code format'
+    };
+  }
 
-    // Validate checksum
-    const identifier = data.orderId || data.bookingId || data.ticketNumber || 'unknown';
-    const expectedChecksum = btoa(`${identifier}-${data.eventId || 'no-event'}-${data.generatedAt}`).slice(0, 8);
-    if (data.checksum && data.checksum !== expectedChecksum) {
-      return { isValid: false, error: 'QR code integrity check failed' };
-    }
+  const result = await verifySignedQRToken(qrDataString, options);
+  const decoded = decodeSignedQRToken(qrDataString);
 
-    return { isValid: true, data };
-  } catch (error) {
-    return { isValid: false, error: 'Invalid QR code format' };
-  }
+  return {
+    isValid: result.isValid,
+    data: result.claims && decoded ? claimsToQRData(result.claims, decoded.kid) : undefined,
+    error: result.error,
+    reason: result.reason
+  };
 };
 
 /**
@@ -301,6 +352,7 @@ export const getQRDisplayInfo = (qrData: SecureQRData): { title: string; subtitl
 
 export default {
   generateSecureQRData,
+  parseQRData,
   validateQRData,
   generateOrderQRData,
   generateBookingQRData,
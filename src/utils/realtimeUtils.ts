@@ -0,0 +1,69 @@
+/**
+ * Real-time utilities
+ * Parsing of socket frames, the reconnect backoff used by the real-time service and seat updates
+ */
+
+import type { RealTimeMessage, RealTimeMessageType, SeatAvailabilityUpdate } from '../services/realtimeService';
+
+export const REALTIME_MESSAGE_TYPES: RealTimeMessageType[] = [
+  'notification.created',
+  'notification.read',
+  'booking.created',
+  'booking.updated',
+  'event.seats_updated',
+  'payout.status_changed',
+];
+
+/**
+ * Parses a raw socket frame into a typed message, ignoring anything outside the schema
+ */
+export const parseRealTimeMessage = (raw: string): RealTimeMessage | null => {
+  try {
+    const data = JSON.parse(raw);
+    if (!data || typeof data !== 'object' || !REALTIME_MESSAGE_TYPES.includes(data.type) || !data.payload) {
+      return null;
+    }
+    return {
+      id: data.id,
+      type: data.type,
+      payload: data.payload,
+      timestamp: data.timestamp || new Date().toISOString(),
+    } as RealTimeMessage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Backoff delay for a reconnect attempt: doubles per attempt up to maxDelay, with up to 20% jitter
+ */
+export const getReconnectDelay = (attempt: number, baseDelay: number, maxDelay: number, random: () => number = Math.random) => {
+  const delay = Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
+  return Math.round(delay + delay * 0.2 * random());
+};
+
+interface SeatCounts {
+  _id?: string;
+  id?: string;
+  availableSeats: number;
+  totalSeats?: number;
+  soldSeats?: number;
+  reservedSeats?: number;
+}
+
+/**
+ * Applies a seat update to an event's schedules: the one it names, or every schedule without a scheduleId
+ */
+export const applySeatAvailability = <T extends SeatCounts>(schedules: T[], update: SeatAvailabilityUpdate): T[] =>
+  schedules.map((schedule) => {
+    if (update.scheduleId && schedule._id !== update.scheduleId && schedule.id !== update.scheduleId) {
+      return schedule;
+    }
+    return {
+      ...schedule,
+      availableSeats: update.availableSeats,
+      ...(update.totalSeats !== undefined && { totalSeats: update.totalSeats }),
+      ...(update.soldSeats !== undefined && { soldSeats: update.soldSeats }),
+      ...(update.reservedSeats !== undefined && { reservedSeats: update.reservedSeats }),
+    };
+  });
@@ -0,0 +1,225 @@
+// Recurring schedule utilities
+// Expands a series rule into dated schedule rows and keeps those rows in step when the rule changes.
+// Dates are plain yyyy-MM-dd strings handled in UTC so a series never shifts with the browser timezone.
+
+import type { ScheduleRecurrenceRule } from '../types/event';
+
+export const MAX_SERIES_OCCURRENCES = 366;
+// Upper bound on the days scanned when a series has a count but the pattern rarely matches
+const MAX_SCAN_DAYS = 3 * 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The subset of a schedule form row the series logic reads and writes
+export interface SeriesScheduleRow {
+  id: string;
+  _id?: string;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  availableSeats: string;
+  price: string;
+  unlimitedSeats?: boolean;
+  isOverride?: boolean;
+  seriesId?: string;
+}
+
+const isDateString = (value?: string): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const toUtc = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const toDateString = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const createRecurrenceRule = (startDate = ''): ScheduleRecurrenceRule => ({
+  id: `series-${Date.now().toString(36)}`,
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: isDateString(startDate) ? [new Date(toUtc(startDate)).getUTCDay()] : [],
+  startDate,
+  count: 12,
+  excludedDates: [],
+  startTime: '',
+  endTime: '',
+  availableSeats: 0,
+  price: 0,
+  unlimitedSeats: false,
+});
+
+/**
+ * All dates the rule produces, in order. Excluded dates are skipped and don't count towards
+ * `count`, so a 12-session course with a holiday still gets 12 sessions.
+ */
+export const expandRecurrence = (rule: ScheduleRecurrenceRule): string[] => {
+  if (!isDateString(rule.startDate)) return [];
+
+  const start = toUtc(rule.startDate);
+  const end = isDateString(rule.endDate) ? toUtc(rule.endDate) : undefined;
+  if (end === undefined && !rule.count) return [];
+
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const excluded = new Set(rule.excludedDates);
+  const weekdays = rule.frequency === 'weekly' ? [new Date(start).getUTCDay()] : rule.weekdays;
+  // Weeks are counted from the Sunday of the first week so "every 2 weeks" stays aligned
+  const firstWeekStart = start - new Date(start).getUTCDay() * DAY_MS;
+
+  const dates: string[] = [];
+  for (let day = start; dates.length < limit && day - start <= MAX_SCAN_DAYS * DAY_MS; day += DAY_MS) {
+    if (end !== undefined && day > end) break;
+
+    const matches =
+      rule.frequency === 'daily'
+        ? Math.round((day - start) / DAY_MS) % interval === 0
+        : weekdays.includes(new Date(day).getUTCDay()) &&
+          Math.floor(Math.round((day - firstWeekStart) / DAY_MS) / 7) % interval === 0;
+
+    const date = toDateString(day);
+    if (matches && !excluded.has(date)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+};
+
+const formatDate = (date: string): string =>
+  new Date(toUtc(date)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Human-readable summary, e.g. "Every Saturday, 12 times" or "Every 2 weeks on Mon, Wed until Jun 30, 2026"
+ */
+export const describeRecurrence = (rule: ScheduleRecurrenceRule): string => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  let pattern: string;
+
+  if (rule.frequency === 'daily') {
+    pattern = interval === 1 ? 'Every day' : `Every ${interval} days`;
+  } else {
+    const days =
+      rule.frequency === 'weekly'
+        ? isDateString(rule.startDate)
+          ? [WEEKDAY_NAMES[new Date(toUtc(rule.startDate)).getUTCDay()]]
+          : []
+        : [...rule.weekdays].sort((a, b) => a - b).map((day) => (rule.weekdays.length === 1 ? WEEKDAY_NAMES[day] : WEEKDAY_LABELS[day]));
+    pattern = interval === 1 ? `Every ${days.join(', ')}` : `Every ${interval} weeks on ${days.join(', ')}`;
+  }
+
+  const ending = rule.count
+    ? `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`
+    : isDateString(rule.endDate)
+      ? ` until ${formatDate(rule.endDate)}`
+      : '';
+  const skipped = rule.excludedDates.length
+    ? ` (${rule.excludedDates.length} ${rule.excludedDates.length === 1 ? 'date' : 'dates'} skipped)`
+    : '';
+
+  return `${pattern}${ending}${skipped}`;
+};
+
+/**
+ * Field errors for the recurrence builder, keyed by rule field
+ */
+export const validateRecurrence = (rule: ScheduleRecurrenceRule): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (!isDateString(rule.startDate)) errors.startDate = 'Start date is required';
+  if (!rule.count && !isDateString(rule.endDate)) errors.endDate = 'Choose an end date or a number of sessions';
+  if (isDateString(rule.startDate) && isDateString(rule.endDate) && rule.endDate < rule.startDate) {
+    errors.endDate = 'End date must be after start date';
+  }
+  if (rule.count !== undefined && (rule.count < 1 || rule.count > MAX_SERIES_OCCURRENCES)) {
+    errors.count = `Between 1 and ${MAX_SERIES_OCCURRENCES} sessions`;
+  }
+  if (rule.frequency === 'custom' && rule.weekdays.length === 0) errors.weekdays = 'Pick at least one day';
+  if (!rule.unlimitedSeats && !(rule.availableSeats > 0)) errors.availableSeats = 'Available seats must be greater than 0';
+  if (!(rule.price >= 0)) errors.price = 'Price must be 0 or greater';
+  if (rule.startTime && rule.endTime && rule.endTime <= rule.startTime) errors.endTime = 'End time must be after start time';
+
+  if (Object.keys(errors).length === 0 && expandRecurrence(rule).length === 0) {
+    errors.startDate = 'No dates match this pattern';
+  }
+
+  return errors;
+};
+
+const seriesFields = (rule: ScheduleRecurrenceRule) => ({
+  startTime: rule.startTime || '',
+  endTime: rule.endTime || '',
+  availableSeats: rule.unlimitedSeats ? '' : String(rule.availableSeats),
+  price: String(rule.price),
+  unlimitedSeats: rule.unlimitedSeats || false,
+});
+
+/**
+ * Whether a series row has to outlive its series: saved rows may have bookings, and exceptions
+ * hold values the organiser set by hand
+ */
+const mustKeepRow = (row: SeriesScheduleRow) => Boolean(row._id || row.isOverride);
+
+/**
+ * Turn a series row into a one-off date that no rule regenerates or removes
+ */
+const detachFromSeries = <T extends SeriesScheduleRow>(row: T): T => ({ ...row, seriesId: undefined, isOverride: true });
+
+/**
+ * Regenerate a series' rows from its rule. Rows that still fall on a generated date keep their
+ * _id (so bookings stay attached); exceptions (isOverride) keep their own values. Saved rows and
+ * exceptions on dates the rule no longer produces are kept as one-off dates after the series;
+ * other rows for those dates are dropped. The series stays where its first row was.
+ */
+export const applyRecurrenceRule = <T extends SeriesScheduleRow>(rows: T[], rule: ScheduleRecurrenceRule): T[] => {
+  const existing = new Map(rows.filter((row) => row.seriesId === rule.id).map((row) => [row.startDate, row]));
+  const dates = expandRecurrence(rule);
+  const generated = new Set(dates);
+
+  const seriesRows = dates.map((date) => {
+    const row = existing.get(date);
+    if (row?.isOverride) return row;
+    if (row) return { ...row, ...seriesFields(rule) };
+    return {
+      id: `${rule.id}-${date}`,
+      startDate: date,
+      endDate: date,
+      isOverride: false,
+      seriesId: rule.id,
+      ...seriesFields(rule),
+    } as T;
+  });
+
+  const detached = rows
+    .filter((row) => row.seriesId === rule.id && !generated.has(row.startDate) && mustKeepRow(row))
+    .map(detachFromSeries);
+
+  const insertAt = rows.findIndex((row) => row.seriesId === rule.id);
+  const others = rows.filter((row) => row.seriesId !== rule.id);
+  // Drop the blank placeholder row new events start with
+  const kept = others.filter((row) => row._id || row.startDate || row.endDate || row.price);
+  const position = insertAt === -1 ? kept.length : rows.slice(0, insertAt).filter((row) => kept.includes(row)).length;
+
+  return [...kept.slice(0, position), ...seriesRows, ...detached, ...kept.slice(position)];
+};
+
+/**
+ * Remove a series. Saved rows and exceptions stay as one-off dates, the rest are dropped.
+ */
+export const removeSeriesRows = <T extends SeriesScheduleRow>(rows: T[], seriesId: string): T[] =>
+  rows.flatMap((row) => {
+    if (row.seriesId !== seriesId) return [row];
+    return mustKeepRow(row) ? [detachFromSeries(row)] : [];
+  });
+
+/**
+ * Drop one date from a series when its row is deleted. A counted series loses a session rather
+ * than gaining a replacement date at the end.
+ */
+export const excludeOccurrence = (rule: ScheduleRecurrenceRule, date: string): ScheduleRecurrenceRule => ({
+  ...rule,
+  excludedDates: Array.from(new Set([...rule.excludedDates, date])).sort(),
+  count: rule.count ? Math.max(1, rule.count - 1) : rule.count,
+});
@@ -0,0 +1,286 @@
+// Registration form utilities
+// Splits a registration form into steps at its pagebreak fields, applies conditional
+// show/require rules and validates the answers
+
+import type {
+  ConditionOperator,
+  FieldCondition,
+  FieldConditionGroup,
+  FormField,
+  RegistrationData,
+  RegistrationFormErrors,
+  RegistrationFormValues,
+} from '../types/registration';
+
+export interface RegistrationFormStep {
+  index: number;
+  title: string;
+  fields: FormField[];
+}
+
+// Field types that only shape the layout and never hold an answer
+const LAYOUT_FIELD_TYPES: FormField['type'][] = ['pagebreak', 'html'];
+
+export const isInputField = (field: FormField): boolean => !LAYOUT_FIELD_TYPES.includes(field.type);
+
+/**
+ * Split fields into wizard steps. Each pagebreak closes the current step; its label
+ * (when set) titles the step that follows. Empty steps are dropped.
+ */
+export const splitFieldsIntoSteps = (fields: FormField[]): RegistrationFormStep[] => {
+  const ordered = [...fields].sort((a, b) => a.order - b.order);
+  const steps: RegistrationFormStep[] = [];
+  let current: FormField[] = [];
+  let nextTitle = '';
+
+  const closeStep = () => {
+    if (current.length === 0) return;
+    steps.push({
+      index: steps.length,
+      title: nextTitle || `Step ${steps.length + 1}`,
+      fields: current,
+    });
+    current = [];
+    nextTitle = '';
+  };
+
+  ordered.forEach((field) => {
+    if (field.type === 'pagebreak') {
+      closeStep();
+      if (field.label && field.label !== 'Page Break') {
+        nextTitle = field.label;
+      }
+      return;
+    }
+    current.push(field);
+  });
+  closeStep();
+
+  return steps;
+};
+
+const isEmptyValue = (value: any): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object' && 'address' in value) return !value.address;
+  return false;
+};
+
+// Operators that only look at whether there is an answer
+const VALUELESS_OPERATORS: ConditionOperator[] = ['is_empty', 'is_not_empty'];
+
+export const operatorNeedsValue = (operator: ConditionOperator): boolean => !VALUELESS_OPERATORS.includes(operator);
+
+// An unticked single checkbox counts as "no answer" for conditions
+const hasAnswer = (value: any): boolean => !isEmptyValue(value) && value !== false;
+
+const answerToStrings = (value: any): string[] => {
+  if (Array.isArray(value)) return value.map((item) => String(item).trim().toLowerCase());
+  if (value && typeof value === 'object' && 'address' in value) return [String(value.address).trim().toLowerCase()];
+  return [String(value).trim().toLowerCase()];
+};
+
+/**
+ * Check one condition against the current answer of the field it points at.
+ * Multi-select answers match `equals` when any selected option matches.
+ */
+export const evaluateCondition = (condition: FieldCondition, value: any): boolean => {
+  const expected = (condition.value ?? '').trim().toLowerCase();
+  const answered = hasAnswer(value);
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return !answered;
+    case 'is_not_empty':
+      return answered;
+    case 'equals':
+      return answered && answerToStrings(value).includes(expected);
+    case 'not_equals':
+      return !answered || !answerToStrings(value).includes(expected);
+    case 'contains':
+      return answered && answerToStrings(value).some((answer) => answer.includes(expected));
+    case 'not_contains':
+      return !answered || !answerToStrings(value).some((answer) => answer.includes(expected));
+    case 'greater_than':
+    case 'less_than': {
+      const actual = parseFloat(value);
+      const target = parseFloat(expected);
+      if (!answered || Number.isNaN(actual) || Number.isNaN(target)) return false;
+      return condition.operator === 'greater_than' ? actual > target : actual < target;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate a rule group; an empty group always passes so half-built rules never hide a field
+ */
+export const evaluateConditionGroup = (
+  group: FieldConditionGroup | undefined,
+  getValue: (fieldId: string) => any
+): boolean => {
+  const conditions = group?.conditions.filter((condition) => condition.fieldId) || [];
+  if (conditions.length === 0) return true;
+
+  const results = conditions.map((condition) => evaluateCondition(condition, getValue(condition.fieldId)));
+  return group?.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+};
+
+/**
+ * Ids of fields hidden by their visibility rules. A hidden field's answer is treated as
+ * empty by the fields that depend on it, so rules chain; circular rules never hide a field.
+ */
+export const getHiddenFieldIds = (fields: FormField[], formData: RegistrationFormValues): Set<string> => {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const visibility = new Map<string, boolean>();
+  const resolving = new Set<string>();
+
+  const isVisible = (field: FormField): boolean => {
+    const known = visibility.get(field.id);
+    if (known !== undefined) return known;
+    if (!field.visibleWhen || resolving.has(field.id)) return true;
+
+    resolving.add(field.id);
+    const visible = evaluateConditionGroup(field.visibleWhen, (fieldId) => {
+      const source = fieldsById.get(fieldId);
+      return source && isVisible(source) ? formData[fieldId] : undefined;
+    });
+    resolving.delete(field.id);
+
+    visibility.set(field.id, visible);
+    return visible;
+  };
+
+  return new Set(fields.filter((field) => !isVisible(field)).map((field) => field.id));
+};
+
+/**
+ * Whether a field is required right now, taking its requiredWhen rule into account
+ */
+export const isFieldRequired = (
+  field: FormField,
+  formData: RegistrationFormValues,
+  hiddenFieldIds: Set<string> = new Set()
+): boolean => {
+  if (field.required) return true;
+  if (!field.requiredWhen?.conditions.length) return false;
+  return evaluateConditionGroup(field.requiredWhen, (fieldId) =>
+    hiddenFieldIds.has(fieldId) ? undefined : formData[fieldId]
+  );
+};
+
+/**
+ * The fields to show for the current answers, with `required` resolved from requiredWhen.
+ * Pass the whole form: rules may point at fields in other sections or steps.
+ */
+export const getVisibleFields = <T extends FormField>(fields: T[], formData: RegistrationFormValues): T[] => {
+  const hiddenFieldIds = getHiddenFieldIds(fields, formData);
+  return fields
+    .filter((field) => !hiddenFieldIds.has(field.id))
+    .map((field) => {
+      const required = isFieldRequired(field, formData, hiddenFieldIds);
+      return required === field.required ? field : { ...field, required };
+    });
+};
+
+/**
+ * Validate a single answer against the field's rules
+ */
+export const validateField = (field: FormField, value: any): string | null => {
+  if (!isInputField(field)) return null;
+
+  // Required validation
+  if (field.required && (isEmptyValue(value) || (field.type === 'checkbox' && value === false))) {
+    return `${field.label} is required`;
+  }
+
+  if (isEmptyValue(value)) return null;
+
+  // Email validation
+  if (field.type === 'email') {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(value)) {
+      return 'Please enter a valid email address';
+    }
+  }
+
+  // Min/Max length validation
+  if (typeof value === 'string') {
+    if (field.validation?.minLength && value.length < field.validation.minLength) {
+      return `Minimum ${field.validation.minLength} characters required`;
+    }
+    if (field.validation?.maxLength && value.length > field.validation.maxLength) {
+      return `Maximum ${field.validation.maxLength} characters allowed`;
+    }
+  }
+
+  // Number range validation
+  if (field.type === 'number') {
+    const numValue = parseFloat(value);
+    if (field.validation?.min !== undefined && numValue < field.validation.min) {
+      return `Minimum value is ${field.validation.min}`;
+    }
+    if (field.validation?.max !== undefined && numValue > field.validation.max) {
+      return `Maximum value is ${field.validation.max}`;
+    }
+  }
+
+  // Pattern validation
+  if (field.validation?.pattern && typeof value === 'string') {
+    const regex = new RegExp(field.validation.pattern);
+    if (!regex.test(value)) {
+      return 'Invalid format';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validate a set of fields (one step, or the whole form) and collect the errors by field id.
+ * Expects fields already passed through getVisibleFields.
+ */
+export const validateFields = (fields: FormField[], formData: RegistrationFormValues): RegistrationFormErrors => {
+  return fields.reduce((errors, field) => {
+    const error = validateField(field, formData[field.id]);
+    if (error) {
+      errors[field.id] = error;
+    }
+    return errors;
+  }, {} as RegistrationFormErrors);
+};
+
+/**
+ * Index of the first step with a missing or invalid answer, used to resume a saved draft
+ */
+export const findFirstIncompleteStep = (steps: RegistrationFormStep[], formData: RegistrationFormValues): number => {
+  const index = steps.findIndex(step => Object.keys(validateFields(step.fields, formData)).length > 0);
+  return index === -1 ? Math.max(steps.length - 1, 0) : index;
+};
+
+/**
+ * Serialise answers in the shape the submit endpoint expects. Layout fields and fields
+ * hidden by their visibility rules are left out.
+ */
+export const buildRegistrationData = (fields: FormField[], formData: RegistrationFormValues): RegistrationData[] => {
+  return getVisibleFields(fields, formData).filter(isInputField).map((field) => ({
+    fieldId: field.id,
+    fieldLabel: field.label,
+    fieldType: field.type,
+    value: formData[field.id] ?? null,
+  }));
+};
+
+/**
+ * Restore saved answers (e.g. from a draft) into form values
+ */
+export const registrationDataToFormValues = (data: RegistrationData[]): RegistrationFormValues => {
+  return data.reduce((values, entry) => {
+    if (entry.value !== null && entry.value !== undefined) {
+      values[entry.fieldId] = entry.value;
+    }
+    return values;
+  }, {} as RegistrationFormValues);
+};
@@ -0,0 +1,204 @@
+// Seat map utilities
+// Building venue seat maps from section layouts (rows × seats at a position on the plan) and
+// turning a map plus a date schedule's sold/reserved seats into what the booking picker shows.
+
+import type {
+  BookableSeatSection,
+  EventSeatingSettings,
+  ScheduleSeatAvailability,
+  VenueSeat,
+  VenueSeatMap,
+  VenueSeatSection,
+} from '../types/seating';
+
+export const SEAT_SIZE = 20;
+export const SEAT_GAP = 6;
+const STAGE_BOTTOM = 100; // The picker draws the stage across the top of the plan
+const MAP_MARGIN = 40;
+
+export const SECTION_COLORS: Record<VenueSeatSection['type'], string> = {
+  standard: '#3b82f6',
+  premium: '#f59e0b',
+  vip: '#dc2626',
+};
+
+export const createSeatMap = (): VenueSeatMap => ({
+  width: 800,
+  height: 600,
+  stageLabel: 'STAGE',
+  sections: [],
+});
+
+/**
+ * Label of the row `offset` rows after `start`: letters run A…Z, AA, AB…; numeric starts count up
+ */
+export const getRowLabel = (start: string, offset: number): string => {
+  const trimmed = start.trim().toUpperCase() || 'A';
+
+  if (/^\d+$/.test(trimmed)) {
+    return String(parseInt(trimmed, 10) + offset);
+  }
+
+  // Letters as a bijective base-26 number (A = 1, Z = 26, AA = 27)
+  let index = trimmed.split('').reduce((sum, char) => sum * 26 + (char.charCodeAt(0) - 64), 0) + offset;
+  let label = '';
+  while (index > 0) {
+    const remainder = (index - 1) % 26;
+    label = String.fromCharCode(65 + remainder) + label;
+    index = Math.floor((index - 1) / 26);
+  }
+  return label;
+};
+
+export const getSeatId = (row: string, number: number): string => `${row}-${number}`;
+
+/**
+ * Seats for a section's layout. Seats that existed before keep their accessible marking.
+ */
+export const generateSectionSeats = (
+  section: Omit<VenueSeatSection, 'seats'>,
+  previous: VenueSeat[] = []
+): VenueSeat[] => {
+  const accessible = new Set(previous.filter(seat => seat.type === 'accessible').map(seat => seat.id));
+  const seats: VenueSeat[] = [];
+
+  for (let rowIndex = 0; rowIndex < section.rows; rowIndex++) {
+    const row = getRowLabel(section.rowStart, rowIndex);
+
+    for (let number = 1; number <= section.seatsPerRow; number++) {
+      const id = getSeatId(row, number);
+      seats.push({
+        id,
+        row,
+        number,
+        type: accessible.has(id) ? 'accessible' : section.type,
+        x: section.x + (number - 1) * (SEAT_SIZE + SEAT_GAP),
+        y: section.y + rowIndex * (SEAT_SIZE + SEAT_GAP),
+      });
+    }
+  }
+
+  return seats;
+};
+
+/**
+ * Applies layout changes to a section and regenerates its seats
+ */
+export const updateSeatSection = (
+  section: VenueSeatSection,
+  changes: Partial<Omit<VenueSeatSection, 'seats' | 'id'>>
+): VenueSeatSection => {
+  const updated = { ...section, ...changes };
+  if (changes.type && !changes.color) {
+    updated.color = SECTION_COLORS[changes.type];
+  }
+  return { ...updated, seats: generateSectionSeats(updated, section.seats) };
+};
+
+export const toggleAccessibleSeat = (section: VenueSeatSection, seatId: string): VenueSeatSection => ({
+  ...section,
+  seats: section.seats.map(seat =>
+    seat.id === seatId ? { ...seat, type: seat.type === 'accessible' ? section.type : 'accessible' } : seat
+  ),
+});
+
+/**
+ * A new section below the existing ones, continuing the row lettering
+ */
+export const createSeatSection = (seatMap: VenueSeatMap): VenueSeatSection => {
+  const lastSection = seatMap.sections[seatMap.sections.length - 1];
+  const seatBottoms = seatMap.sections.flatMap(section => section.seats.map(seat => seat.y + SEAT_SIZE));
+  const layout = {
+    id: `section-${Date.now().toString(36)}`,
+    name: '',
+    type: 'standard' as const,
+    color: SECTION_COLORS.standard,
+    rowStart: lastSection ? getRowLabel(lastSection.rowStart, lastSection.rows) : 'A',
+    rows: 5,
+    seatsPerRow: 10,
+    x: MAP_MARGIN,
+    y: seatBottoms.length > 0 ? Math.max(...seatBottoms) + MAP_MARGIN : STAGE_BOTTOM + SEAT_GAP,
+  };
+
+  return { ...layout, seats: generateSectionSeats(layout) };
+};
+
+/**
+ * Plan size that fits every seat plus a margin; never smaller than the default canvas
+ */
+export const getSeatMapBounds = (seatMap: VenueSeatMap): { width: number; height: number } => {
+  const seats = seatMap.sections.flatMap(section => section.seats);
+
+  return {
+    width: Math.max(800, ...seats.map(seat => seat.x + SEAT_SIZE + MAP_MARGIN)),
+    height: Math.max(600, ...seats.map(seat => seat.y + SEAT_SIZE + MAP_MARGIN)),
+  };
+};
+
+export const getSeatMapCapacity = (seatMap?: VenueSeatMap | null): number =>
+  (seatMap?.sections || []).reduce((sum, section) => sum + section.seats.length, 0);
+
+/**
+ * Map ready to save, sized to its seats
+ */
+export const finalizeSeatMap = (seatMap: VenueSeatMap): VenueSeatMap => ({
+  ...seatMap,
+  ...getSeatMapBounds(seatMap),
+});
+
+/**
+ * Field errors for the seat map editor, keyed as seatSection_<index>_<field>
+ */
+export const validateSeatMap = (seatMap: VenueSeatMap): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const seatOwners = new Map<string, number>();
+
+  seatMap.sections.forEach((section, index) => {
+    const key = (field: string) => `seatSection_${index}_${field}`;
+
+    if (!section.name.trim()) errors[key('name')] = 'Section name is required';
+    if (!(section.rows >= 1)) errors[key('rows')] = 'At least one row is required';
+    if (!(section.seatsPerRow >= 1)) errors[key('seatsPerRow')] = 'At least one seat per row is required';
+    if (section.x < 0 || section.y < 0) errors[key('position')] = 'Position must be 0 or greater';
+
+    section.seats.forEach(seat => {
+      const owner = seatOwners.get(seat.id);
+      if (owner !== undefined && owner !== index && !errors[key('rowStart')]) {
+        errors[key('rowStart')] = `Row ${seat.row} is already used by ${seatMap.sections[owner].name || `section ${owner + 1}`}`;
+      }
+      seatOwners.set(seat.id, owner ?? index);
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Sections for the booking picker: every seat priced at the date's price and marked with
+ * the schedule's sold/reserved state and the family's current selection
+ */
+export const applySeatAvailability = (
+  availability: ScheduleSeatAvailability,
+  price: number,
+  selectedSeatIds: string[] = []
+): BookableSeatSection[] =>
+  availability.seatMap.sections.map(section => ({
+    ...section,
+    seats: section.seats.map(seat => ({
+      ...seat,
+      section: section.name,
+      price,
+      status: availability.unavailable[seat.id] || (selectedSeatIds.includes(seat.id) ? 'selected' : 'available'),
+    })),
+  }));
+
+/**
+ * "A-3, A-4, B-1" in row and seat order
+ */
+export const formatSeatList = (seatIds: string[]): string =>
+  [...seatIds]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .join(', ');
+
+export const validateSeatingSettings = (settings: EventSeatingSettings): Record<string, string> =>
+  settings.reservedSeating && !settings.venueId ? { seatingVenue: 'Choose a venue with a seat map' } : {};
@@ -0,0 +1,253 @@
+// Spreadsheet utilities
+// Reads CSV/TSV text and the first worksheet of an .xlsx file into rows of cell strings, and writes
+// rows back out as CSV. XLSX files are zip archives of XML; entries are inflated with the browser's
+// DecompressionStream, so no spreadsheet library is needed in the bundle.
+
+export type SpreadsheetRows = string[][];
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+
+/**
+ * The delimiter used most often outside quotes in the first line. Spreadsheets saved in locales
+ * with a decimal comma export ";"-separated CSV.
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let insideQuotes = false;
+
+  for (const char of firstLine) {
+    if (char === '"') insideQuotes = !insideQuotes;
+    else if (!insideQuotes && char in counts) counts[char]++;
+  }
+
+  return Object.keys(counts).reduce((best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best), ',');
+};
+
+/**
+ * RFC 4180 parsing: quoted cells may contain delimiters, line breaks and doubled quotes.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): SpreadsheetRows => {
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let insideQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (insideQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        insideQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      insideQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: SpreadsheetRows): string =>
+  rows.map((row) => row.map((cell) => escapeCsvCell(cell ?? '')).join(',')).join('\r\n');
+
+// "AB12" -> 27 (zero-based column index)
+const getColumnIndex = (cellReference: string): number => {
+  const letters = cellReference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const getElements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// Text of a shared or inline string, including rich text runs but not phonetic hints
+const getStringItemText = (item: Element): string =>
+  getElements(item, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent || '')
+    .join('');
+
+export const parseSharedStringsXml = (xml: string): string[] => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  return getElements(document, 'si').map(getStringItemText);
+};
+
+/**
+ * Cell values of a worksheet as text. Numbers stay as written in the file, so dates stored as
+ * Excel serial numbers (e.g. 45672) are left for the caller to convert.
+ */
+export const parseWorksheetXml = (xml: string, sharedStrings: string[] = []): SpreadsheetRows => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const rows: SpreadsheetRows = [];
+
+  getElements(document, 'row').forEach((rowElement) => {
+    const row: string[] = [];
+
+    getElements(rowElement, 'c').forEach((cellElement) => {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? getColumnIndex(reference) : row.length;
+      const type = cellElement.getAttribute('t');
+      const rawValue = getElements(cellElement, 'v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(rawValue)] ?? '';
+      else if (type === 'inlineStr') value = getElements(cellElement, 'is').map(getStringItemText).join('');
+      else if (type === 'b') value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      else value = rawValue;
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    });
+
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+  });
+
+  return rows;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read .xlsx files. Save the sheet as CSV and upload that instead.');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Text files in a zip archive by path, read from the central directory. Only the wanted entries
+ * are inflated.
+ */
+const readZipTextEntries = async (buffer: ArrayBuffer, wanted: (path: string) => boolean): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a valid .xlsx workbook');
+
+  const entries = new Map<string, string>();
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(path) || view.getUint32(localOffset, true) !== ZIP_LOCAL_HEADER) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error('The .xlsx file uses an unsupported compression method');
+
+    entries.set(path, decoder.decode(method === 8 ? await inflateRaw(data) : data));
+  }
+
+  return entries;
+};
+
+// Path of the first sheet in the workbook's tab order
+const getFirstWorksheetPath = (workbookXml?: string, relationshipsXml?: string): string => {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  if (!workbookXml || !relationshipsXml) return fallback;
+
+  const parser = new DOMParser();
+  const sheet = getElements(parser.parseFromString(workbookXml, 'application/xml'), 'sheet')[0];
+  const relationshipId = sheet?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  );
+  const relationship = getElements(parser.parseFromString(relationshipsXml, 'application/xml'), 'Relationship').find(
+    (element) => element.getAttribute('Id') === relationshipId
+  );
+  const target = relationship?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+const WORKBOOK_ENTRIES = ['xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/sharedStrings.xml'];
+
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<SpreadsheetRows> => {
+  // Workbooks can carry images and other sheets, so only the parts needed for the first sheet are read
+  const entries = await readZipTextEntries(buffer, (path) => WORKBOOK_ENTRIES.includes(path));
+  const sheetPath = getFirstWorksheetPath(entries.get('xl/workbook.xml'), entries.get('xl/_rels/workbook.xml.rels'));
+  const sheetXml = (await readZipTextEntries(buffer, (path) => path === sheetPath)).get(sheetPath);
+  if (!sheetXml) throw new Error('The workbook has no worksheet to import');
+
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml');
+  return parseWorksheetXml(sheetXml, sharedStringsXml ? parseSharedStringsXml(sharedStringsXml) : []);
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetRows> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.xlsx')) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+  if (name.endsWith('.xls')) {
+    throw new Error('Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and upload that instead.');
+  }
+  return parseCsv(await file.text(), name.endsWith('.tsv') ? '\t' : undefined);
+};
+
+export const downloadCsv = (fileName: string, rows: SpreadsheetRows): void => {
+  // The byte order mark makes Excel open the file as UTF-8
+  const blob = new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,103 @@
+/**
+ * Vendor staff permissions
+ * What a vendor's employees can do, and for which events
+ */
+
+import type { EmployeeDetails } from '../types/auth';
+import type {
+  EmployeeRole,
+  StaffPermission,
+  StaffPermissionDefinition,
+  StaffPermissionGrant,
+} from '../types/permission';
+
+export const STAFF_PERMISSION_CATALOGUE: StaffPermissionDefinition[] = [
+  { key: 'tickets.scan', label: 'Scan tickets', description: 'Verify tickets and check attendees in at the door' },
+  { key: 'bookings.view', label: 'View bookings', description: 'See bookings and participant details' },
+  { key: 'bookings.edit', label: 'Edit bookings', description: 'Update booking status, notes and participants, and import bookings' },
+  { key: 'bookings.export', label: 'Export bookings', description: 'Download bookings as CSV or JSON' },
+  { key: 'registrations.view', label: 'View registrations', description: 'See submitted registration forms' },
+  { key: 'registrations.approve', label: 'Approve registrations', description: 'Approve or reject submitted registrations' },
+  { key: 'attendees.message', label: 'Message attendees', description: 'Send updates to the people booked on an event' },
+  { key: 'revenue.view', label: 'View revenue', description: 'See sales totals and analytics' },
+];
+
+export const STAFF_ROLE_LABELS: Record<EmployeeRole, string> = {
+  manager: 'Manager',
+  scanner: 'Scanner',
+  coordinator: 'Coordinator',
+  security: 'Security',
+};
+
+const grant = (scope: StaffPermissionGrant['scope'], actions: StaffPermission[]): StaffPermissionGrant[] =>
+  actions.map((action) => ({ action, scope }));
+
+/**
+ * Permissions each role starts with. They also apply to employees saved before the catalogue
+ * existed, whose permission list is empty.
+ */
+export const STAFF_ROLE_PRESETS: Record<EmployeeRole, StaffPermissionGrant[]> = {
+  manager: grant('all', STAFF_PERMISSION_CATALOGUE.map((permission) => permission.key)),
+  coordinator: grant('assigned', [
+    'tickets.scan',
+    'bookings.view',
+    'bookings.edit',
+    'registrations.view',
+    'registrations.approve',
+    'attendees.message',
+  ]),
+  scanner: grant('assigned', ['tickets.scan']),
+  security: grant('assigned', ['tickets.scan', 'bookings.view']),
+};
+
+const STAFF_PERMISSION_KEYS = new Set<string>(STAFF_PERMISSION_CATALOGUE.map((permission) => permission.key));
+
+export const isStaffPermission = (action: string): action is StaffPermission => STAFF_PERMISSION_KEYS.has(action);
+
+type StaffDetails = Pick<EmployeeDetails, 'employeeRole' | 'permissions' | 'assignedEvents'> | null | undefined;
+
+/**
+ * Effective grants of an employee: their saved permissions, or the role preset when none are saved.
+ * Free-text actions from older accounts are ignored.
+ */
+export const getStaffGrants = (details: StaffDetails): StaffPermissionGrant[] => {
+  if (!details) return [];
+
+  const saved = (details.permissions || []).filter((entry) => isStaffPermission(entry.action));
+  return saved.length > 0 ? saved : STAFF_ROLE_PRESETS[details.employeeRole] || [];
+};
+
+/**
+ * Events a permission covers: 'all', the employee's assigned event ids, or null without the permission
+ */
+export const getStaffEventScope = (details: StaffDetails, permission: StaffPermission): 'all' | string[] | null => {
+  const grants = getStaffGrants(details).filter((entry) => entry.action === permission);
+  if (grants.length === 0) return null;
+  if (grants.some((entry) => entry.scope === 'all')) return 'all';
+  return details?.assignedEvents || [];
+};
+
+/**
+ * Whether an employee holds a permission, for one event or (without an event) for any event
+ */
+export const hasStaffPermission = (details: StaffDetails, permission: StaffPermission, eventId?: string): boolean => {
+  const scope = getStaffEventScope(details, permission);
+  if (!scope) return false;
+  if (scope === 'all') return true;
+  return eventId ? scope.includes(eventId) : scope.length > 0;
+};
+
+/**
+ * Keeps the events a permission covers
+ */
+export const filterEventsForStaff = <T>(
+  events: T[],
+  details: StaffDetails,
+  permission: StaffPermission,
+  getId: (event: T) => string
+): T[] => {
+  const scope = getStaffEventScope(details, permission);
+  if (!scope) return [];
+  if (scope === 'all') return events;
+  return events.filter((event) => scope.includes(getId(event)));
+};
@@ -0,0 +1,233 @@
+// Ticket PDF utilities
+// Draws branded A4 tickets on a canvas in the browser and saves them as a PDF, one page per
+// ticket, so downloads don't depend on the backend /tickets/:id/download endpoint.
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { QRCodeSVG } from 'qrcode.react';
+
+import { formatEventDate } from './dateUtils';
+import { formatEventLocation } from './icalUtils';
+import { buildImagePdf, dataUrlToBytes, downloadPdf, PdfImagePage } from './pdfUtils';
+
+export interface TicketDocument {
+  ticketNumber: string;
+  qrValue: string;
+  eventTitle: string;
+  start?: string | null;
+  end?: string | null;
+  venue?: string;
+  attendeeName: string;
+  participants?: string[]; // Everyone on the order, when it has more than one person
+  orderNumber?: string;
+  ticketType?: string;
+  seatNumber?: string;
+}
+
+// The ticket shapes returned by /tickets endpoints, which differ in their schedule fields
+interface IssuedTicket {
+  ticketNumber: string;
+  qrCode?: string;
+  attendeeName: string;
+  ticketType?: string;
+  seatNumber?: string;
+  eventId: {
+    title: string;
+    location?: { address?: string; city?: string; state?: string; country?: string };
+    dateSchedule?: Array<{ startDate?: string; endDate?: string; date?: string; startDateTime?: string; endDateTime?: string }>;
+  };
+}
+
+// A4 at 150 dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 100;
+const QR_SIZE = 440;
+
+const BRAND_COLOR = '#2563eb';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+export const formatTicketSchedule = (ticket: Pick<TicketDocument, 'start' | 'end'>): string =>
+  ticket.start ? formatEventDate(ticket.start, ticket.end || undefined, { format: 'full' }) : 'Date to be confirmed';
+
+export const toTicketDocument = (ticket: IssuedTicket, extras: Partial<TicketDocument> = {}): TicketDocument => {
+  const schedule = ticket.eventId.dateSchedule?.[0];
+
+  return {
+    ticketNumber: ticket.ticketNumber,
+    qrValue: ticket.qrCode || ticket.ticketNumber,
+    eventTitle: ticket.eventId.title,
+    start: schedule?.startDateTime || schedule?.startDate || schedule?.date || null,
+    end: schedule?.endDateTime || schedule?.endDate || null,
+    venue: formatEventLocation(ticket.eventId.location) || undefined,
+    attendeeName: ticket.attendeeName,
+    ticketType: ticket.ticketType,
+    seatNumber: ticket.seatNumber,
+    ...extras,
+  };
+};
+
+const loadQrImage = (value: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const svg = renderToStaticMarkup(
+      createElement(QRCodeSVG, { value, size: QR_SIZE, level: 'M', includeMargin: true })
+    );
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to draw ticket QR code'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Writes text over as many lines as it needs within maxWidth; returns the y below the last line
+ */
+const drawWrappedText = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number
+): number => {
+  let line = '';
+
+  text.split(/\s+/).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      context.fillText(line, x, y);
+      line = word;
+      y += lineHeight;
+    } else {
+      line = candidate;
+    }
+  });
+
+  if (line) {
+    context.fillText(line, x, y);
+    y += lineHeight;
+  }
+  return y;
+};
+
+const drawField = (
+  context: CanvasRenderingContext2D,
+  label: string,
+  value: string,
+  x: number,
+  y: number,
+  maxWidth: number
+): number => {
+  context.fillStyle = MUTED_COLOR;
+  context.font = `600 26px ${FONT_FAMILY}`;
+  context.fillText(label.toUpperCase(), x, y);
+
+  context.fillStyle = TEXT_COLOR;
+  context.font = `36px ${FONT_FAMILY}`;
+  return drawWrappedText(context, value, x, y + 48, maxWidth, 46) + 30;
+};
+
+export const renderTicketPage = async (ticket: TicketDocument): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  context.textBaseline = 'top';
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+
+  // Brand header
+  context.fillStyle = BRAND_COLOR;
+  context.fillRect(0, 0, PAGE_WIDTH, 220);
+  context.fillStyle = '#ffffff';
+  context.font = `bold 64px ${FONT_FAMILY}`;
+  context.fillText('Kidrove', MARGIN, 60);
+  context.font = `32px ${FONT_FAMILY}`;
+  context.fillText('Event Ticket', MARGIN, 140);
+  if (ticket.orderNumber) {
+    context.textAlign = 'right';
+    context.fillText(`Order ${ticket.orderNumber}`, PAGE_WIDTH - MARGIN, 140);
+    context.textAlign = 'left';
+  }
+
+  // Event
+  context.fillStyle = TEXT_COLOR;
+  context.font = `bold 56px ${FONT_FAMILY}`;
+  let y = drawWrappedText(context, ticket.eventTitle, MARGIN, 290, contentWidth, 68) + 30;
+
+  y = drawField(context, 'Date & time', formatTicketSchedule(ticket), MARGIN, y, contentWidth);
+  if (ticket.venue) {
+    y = drawField(context, 'Venue', ticket.venue, MARGIN, y, contentWidth);
+  }
+
+  // QR with attendee details beside it
+  const qrTop = y + 20;
+  const qr = await loadQrImage(ticket.qrValue);
+  context.drawImage(qr, MARGIN, qrTop, QR_SIZE, QR_SIZE);
+  context.strokeStyle = '#e5e7eb';
+  context.lineWidth = 4;
+  context.strokeRect(MARGIN, qrTop, QR_SIZE, QR_SIZE);
+
+  const detailsX = MARGIN + QR_SIZE + 60;
+  const detailsWidth = PAGE_WIDTH - MARGIN - detailsX;
+  let detailsY = qrTop + 10;
+  detailsY = drawField(context, 'Attendee', ticket.attendeeName, detailsX, detailsY, detailsWidth);
+  if (ticket.ticketType) {
+    detailsY = drawField(context, 'Ticket type', ticket.ticketType, detailsX, detailsY, detailsWidth);
+  }
+  if (ticket.seatNumber) {
+    detailsY = drawField(context, 'Seat', ticket.seatNumber, detailsX, detailsY, detailsWidth);
+  }
+  drawField(context, 'Ticket number', ticket.ticketNumber, detailsX, detailsY, detailsWidth);
+
+  if (ticket.participants && ticket.participants.length > 1) {
+    const participants = ticket.participants.join(', ');
+    drawField(context, 'Participants on this order', participants, MARGIN, qrTop + QR_SIZE + 60, contentWidth);
+  }
+
+  // Footer
+  context.fillStyle = MUTED_COLOR;
+  context.font = `28px ${FONT_FAMILY}`;
+  drawWrappedText(
+    context,
+    'Show this QR code at the venue entrance, on your phone or printed. Each QR code can only be scanned once.',
+    MARGIN,
+    PAGE_HEIGHT - MARGIN - 80,
+    contentWidth,
+    38
+  );
+
+  return canvas;
+};
+
+/**
+ * Saves every ticket into one PDF, a page each; a whole order downloads as a single file
+ */
+export const downloadTicketsPdf = async (tickets: TicketDocument[], fileName: string): Promise<void> => {
+  if (tickets.length === 0) throw new Error('There are no tickets to download');
+
+  const pages: PdfImagePage[] = [];
+  for (const ticket of tickets) {
+    const canvas = await renderTicketPage(ticket);
+    pages.push({
+      jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.92)),
+      width: canvas.width,
+      height: canvas.height,
+    });
+  }
+
+  downloadPdf(fileName, buildImagePdf(pages, { title: `${tickets[0].eventTitle} - Tickets` }));
+};
@@ -0,0 +1,95 @@
+// Ticket transfer utilities
+// Whether a ticket can be handed to someone else, validating the recipient's contact details for
+// the chosen delivery method, and reading a ticket's transfer history.
+
+import type { TicketTransfer, TicketTransferData } from '../types/transfer';
+import { getPhoneValidationError, isMobilePhone, isValidPhone, toE164 } from './phoneUtils';
+
+// Recipient numbers without a country code are read as UAE numbers
+const DEFAULT_PHONE_COUNTRY = 'AE';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface TransferableTicket {
+  status: string;
+  checkInDetails?: { isCheckedIn: boolean };
+}
+
+export type TransferErrors = Partial<Record<keyof TicketTransferData, string>>;
+
+export const getPendingTransfer = (transfers: TicketTransfer[] = []): TicketTransfer | null =>
+  transfers.find(transfer => transfer.status === 'pending') || null;
+
+/**
+ * Newest first, for the history list
+ */
+export const sortTransferHistory = (transfers: TicketTransfer[] = []): TicketTransfer[] =>
+  [...transfers].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+/**
+ * Why the ticket can't be transferred right now, or null if it can
+ */
+export const getTransferBlocker = (
+  ticket: TransferableTicket,
+  transfers: TicketTransfer[] = [],
+  eventStart?: string | Date | null,
+  now = new Date()
+): string | null => {
+  if (ticket.status === 'transferred') return 'This ticket has already been transferred';
+  if (ticket.status !== 'active') return 'Only active tickets can be transferred';
+  if (ticket.checkInDetails?.isCheckedIn) return 'Checked-in tickets cannot be transferred';
+  if (eventStart && new Date(eventStart).getTime() <= now.getTime()) {
+    return 'Tickets cannot be transferred once the event has started';
+  }
+
+  const pending = getPendingTransfer(transfers);
+  return pending ? `Already waiting for ${pending.recipientName} to accept` : null;
+};
+
+export const validateTransferRecipient = (data: TicketTransferData, senderEmail?: string): TransferErrors => {
+  const errors: TransferErrors = {};
+  const email = data.recipientEmail?.trim() || '';
+  const phone = data.recipientPhone?.trim() || '';
+
+  if (!data.recipientName.trim()) {
+    errors.recipientName = "Recipient's name is required";
+  }
+
+  if (data.method === 'email') {
+    if (!email) {
+      errors.recipientEmail = "Recipient's email is required";
+    } else if (!EMAIL_REGEX.test(email)) {
+      errors.recipientEmail = 'Please enter a valid email address';
+    } else if (senderEmail && email.toLowerCase() === senderEmail.toLowerCase()) {
+      errors.recipientEmail = 'Enter the email of the person receiving the ticket, not your own';
+    }
+  } else if (!phone) {
+    errors.recipientPhone = "Recipient's mobile number is required";
+  } else if (!isValidPhone(phone, DEFAULT_PHONE_COUNTRY)) {
+    errors.recipientPhone = getPhoneValidationError(phone, DEFAULT_PHONE_COUNTRY);
+  } else if (!isMobilePhone(toE164(phone, DEFAULT_PHONE_COUNTRY) || phone)) {
+    errors.recipientPhone = 'SMS can only be sent to a mobile number';
+  }
+
+  return errors;
+};
+
+/**
+ * Trimmed request body with only the contact detail the chosen method uses; phones go as E.164
+ */
+export const normalizeTransferData = (data: TicketTransferData): TicketTransferData => {
+  const phone = data.recipientPhone?.trim() || '';
+
+  return {
+    method: data.method,
+    recipientName: data.recipientName.trim(),
+    ...(data.method === 'email'
+      ? { recipientEmail: data.recipientEmail?.trim().toLowerCase() }
+      : { recipientPhone: toE164(phone, DEFAULT_PHONE_COUNTRY) || phone }),
+    ...(data.message?.trim() ? { message: data.message.trim() } : {}),
+  };
+};
+
+export const getTransferRecipientContact = (
+  transfer: Pick<TicketTransfer, 'method' | 'recipientEmail' | 'recipientPhone'>
+): string => (transfer.method === 'email' ? transfer.recipientEmail : transfer.recipientPhone) || '';
@@ -0,0 +1,290 @@
+// Ticket type utilities
+// Prices, capacity shares and age limits for events sold as several ticket types
+// (child, accompanying adult, sibling, member...) rather than a single price per seat.
+
+import { format } from 'date-fns';
+import type { EventDateSchedule, EventTicketPriceTier, EventTicketType } from '../types/event';
+import { PricingLineInput, roundMoney } from './pricingUtils';
+
+// Quantity chosen per ticket type id
+export type TicketSelection = Record<string, number>;
+
+export interface TicketLine {
+  ticketTypeId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  tierLabel?: string; // Set while a time-based tier such as early-bird applies
+}
+
+// Shape the booking and order endpoints expect
+export interface TicketRequestItem {
+  ticketTypeId: string;
+  quantity: number;
+}
+
+type TicketSchedule = Pick<EventDateSchedule, 'availableSeats' | 'unlimitedSeats' | 'ticketPrices' | 'ticketTypeSold'>;
+
+export const createTicketType = (): EventTicketType => ({
+  id: `ticket-${Date.now().toString(36)}`,
+  name: '',
+  price: 0,
+  priceTiers: [],
+});
+
+export const createPriceTier = (): EventTicketPriceTier => ({
+  id: `tier-${Date.now().toString(36)}`,
+  label: 'Early bird',
+  price: 0,
+  endsAt: '',
+});
+
+export const getTicketTypeId = (ticketType: EventTicketType): string => ticketType._id || ticketType.id;
+
+/**
+ * The tier in effect on a given day: the earliest one that hasn't ended yet
+ */
+export const getActivePriceTier = (
+  ticketType: EventTicketType,
+  at: Date = new Date()
+): EventTicketPriceTier | undefined => {
+  const today = format(at, 'yyyy-MM-dd');
+
+  return [...(ticketType.priceTiers || [])]
+    .filter(tier => tier.endsAt && tier.endsAt >= today)
+    .sort((a, b) => a.endsAt.localeCompare(b.endsAt))[0];
+};
+
+/**
+ * Unit price for a ticket type. A price set on the schedule for this type wins, then the
+ * active tier, then the ticket type's own price.
+ */
+export const getTicketTypePrice = (
+  ticketType: EventTicketType,
+  schedule?: TicketSchedule | null,
+  at: Date = new Date()
+): { price: number; tierLabel?: string } => {
+  const schedulePrice = schedule?.ticketPrices?.[getTicketTypeId(ticketType)];
+  if (schedulePrice !== undefined && schedulePrice !== null) {
+    return { price: schedulePrice };
+  }
+
+  const tier = getActivePriceTier(ticketType, at);
+  if (tier) {
+    return { price: tier.price, tierLabel: tier.label };
+  }
+
+  return { price: ticketType.price };
+};
+
+/**
+ * Seats of this type still available on a date, or undefined when the type has no share of its own
+ */
+export const getTicketTypeRemaining = (
+  ticketType: EventTicketType,
+  schedule?: TicketSchedule | null
+): number | undefined => {
+  if (!ticketType.capacity) return undefined;
+
+  const sold = schedule?.ticketTypeSold?.[getTicketTypeId(ticketType)] || 0;
+  const remaining = Math.max(0, ticketType.capacity - sold);
+
+  return schedule && !schedule.unlimitedSeats ? Math.min(remaining, schedule.availableSeats) : remaining;
+};
+
+export const isAgeAllowed = (ticketType: EventTicketType | undefined, age?: number): boolean => {
+  if (!ticketType || age === undefined || age === null || Number.isNaN(age)) return true;
+  if (ticketType.minAge !== undefined && age < ticketType.minAge) return false;
+  if (ticketType.maxAge !== undefined && age > ticketType.maxAge) return false;
+  return true;
+};
+
+/**
+ * Short age hint, e.g. "Ages 3–12", "Ages 18+" or "Up to 2 years"
+ */
+export const describeAgeLimit = (ticketType: EventTicketType): string | null => {
+  const { minAge, maxAge } = ticketType;
+
+  if (minAge !== undefined && maxAge !== undefined) return `Ages ${minAge}–${maxAge}`;
+  if (minAge !== undefined) return `Ages ${minAge}+`;
+  if (maxAge !== undefined) return `Up to ${maxAge} years`;
+  return null;
+};
+
+export const getSelectionQuantity = (selection: TicketSelection): number =>
+  Object.values(selection).reduce((sum, quantity) => sum + Math.max(0, quantity || 0), 0);
+
+// Most tickets a single booking can take
+export const MAX_TICKETS_PER_BOOKING = 10;
+
+/**
+ * Cap on a booking's tickets for a date: the per-booking limit, or the seats left when fewer
+ */
+export const getMaxTickets = (schedule?: TicketSchedule | null): number =>
+  schedule && !schedule.unlimitedSeats
+    ? Math.min(MAX_TICKETS_PER_BOOKING, schedule.availableSeats)
+    : MAX_TICKETS_PER_BOOKING;
+
+/**
+ * Whether one more ticket of a type fits both the booking cap and the type's own share of seats
+ */
+export const canAddTicket = (
+  ticketType: EventTicketType,
+  selection: TicketSelection,
+  schedule?: TicketSchedule | null,
+  maxTickets: number = getMaxTickets(schedule)
+): boolean => {
+  const quantity = selection[getTicketTypeId(ticketType)] || 0;
+  const remaining = getTicketTypeRemaining(ticketType, schedule);
+
+  return getSelectionQuantity(selection) < maxTickets && (remaining === undefined || quantity < remaining);
+};
+
+/**
+ * The selection a set of ticket lines was built from
+ */
+export const toTicketSelection = (lines: TicketLine[]): TicketSelection =>
+  Object.fromEntries(lines.map(line => [line.ticketTypeId, line.quantity]));
+
+/**
+ * Priced lines for a selection, in the event's ticket type order
+ */
+export const buildTicketLines = (
+  ticketTypes: EventTicketType[],
+  selection: TicketSelection,
+  schedule?: TicketSchedule | null,
+  at: Date = new Date()
+): TicketLine[] =>
+  ticketTypes
+    .filter(ticketType => (selection[getTicketTypeId(ticketType)] || 0) > 0)
+    .map(ticketType => {
+      const ticketTypeId = getTicketTypeId(ticketType);
+      const quantity = selection[ticketTypeId];
+      const { price, tierLabel } = getTicketTypePrice(ticketType, schedule, at);
+
+      return {
+        ticketTypeId,
+        name: ticketType.name,
+        quantity,
+        unitPrice: price,
+        total: roundMoney(price * quantity),
+        tierLabel,
+      };
+    });
+
+export const getTicketLinesTotal = (lines: TicketLine[]): number =>
+  roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+
+export const getTicketLinesQuantity = (lines: TicketLine[]): number =>
+  lines.reduce((sum, line) => sum + line.quantity, 0);
+
+/**
+ * One pricing engine line per ticket type so fees and VAT see the real prices
+ */
+export const toPricingLines = (lines: TicketLine[], idPrefix: string, vendorId?: string): PricingLineInput[] =>
+  lines.map(line => ({
+    id: `${idPrefix}-${line.ticketTypeId}`,
+    vendorId,
+    unitPrice: line.unitPrice,
+    quantity: line.quantity,
+  }));
+
+export const toTicketRequest = (selection: TicketSelection): TicketRequestItem[] =>
+  Object.entries(selection)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([ticketTypeId, quantity]) => ({ ticketTypeId, quantity }));
+
+/**
+ * The ticket type of each seat, in order, so every participant knows which ticket they hold
+ */
+export const expandTicketSelection = (ticketTypes: EventTicketType[], selection: TicketSelection): string[] =>
+  ticketTypes.flatMap(ticketType => {
+    const ticketTypeId = getTicketTypeId(ticketType);
+    return Array.from({ length: Math.max(0, selection[ticketTypeId] || 0) }, () => ticketTypeId);
+  });
+
+/**
+ * "2 × Child, 1 × Accompanying adult"
+ */
+export const formatTicketSummary = (lines: TicketLine[]): string =>
+  lines.map(line => `${line.quantity} × ${line.name}`).join(', ');
+
+/**
+ * First problem with a selection, or null when it can be booked
+ */
+export const validateTicketSelection = (
+  ticketTypes: EventTicketType[],
+  selection: TicketSelection,
+  schedule?: TicketSchedule | null,
+  maxTickets?: number
+): string | null => {
+  const quantity = getSelectionQuantity(selection);
+
+  if (quantity === 0) return 'Please choose at least one ticket';
+  if (maxTickets !== undefined && quantity > maxTickets) return `Maximum ${maxTickets} tickets per booking`;
+  if (schedule && !schedule.unlimitedSeats && quantity > schedule.availableSeats) {
+    return `Only ${schedule.availableSeats} seats available for this date`;
+  }
+
+  for (const ticketType of ticketTypes) {
+    const remaining = getTicketTypeRemaining(ticketType, schedule);
+    const selected = selection[getTicketTypeId(ticketType)] || 0;
+    if (remaining !== undefined && selected > remaining) {
+      return `Only ${remaining} ${ticketType.name} ${remaining === 1 ? 'ticket' : 'tickets'} left for this date`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Field errors for the ticket type editor, keyed as ticketType_<index>_<field>
+ */
+export const validateTicketTypes = (ticketTypes: EventTicketType[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const names = new Set<string>();
+
+  ticketTypes.forEach((ticketType, index) => {
+    const key = (field: string) => `ticketType_${index}_${field}`;
+    const name = ticketType.name.trim().toLowerCase();
+
+    if (!name) {
+      errors[key('name')] = 'Name is required';
+    } else if (names.has(name)) {
+      errors[key('name')] = 'Ticket type names must be unique';
+    }
+    names.add(name);
+
+    if (!(ticketType.price >= 0)) errors[key('price')] = 'Price must be 0 or greater';
+    if (ticketType.capacity !== undefined && !(ticketType.capacity > 0)) {
+      errors[key('capacity')] = 'Capacity must be greater than 0';
+    }
+    if (ticketType.minAge !== undefined && ticketType.maxAge !== undefined && ticketType.minAge > ticketType.maxAge) {
+      errors[key('maxAge')] = 'Maximum age must be at least the minimum age';
+    }
+
+    (ticketType.priceTiers || []).forEach((tier, tierIndex) => {
+      if (!tier.endsAt) errors[key(`tier_${tierIndex}_endsAt`)] = 'End date is required';
+      if (!(tier.price >= 0)) errors[key(`tier_${tierIndex}_price`)] = 'Price must be 0 or greater';
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Per-date ticket prices from the schedule form (strings, blanks meaning "use the ticket price")
+ */
+export const parseScheduleTicketPrices = (
+  values?: Record<string, string>
+): Record<string, number> | undefined => {
+  const entries = Object.entries(values || {})
+    .filter(([, value]) => value !== '' && !Number.isNaN(parseFloat(value)))
+    .map(([ticketTypeId, value]) => [ticketTypeId, parseFloat(value)] as const);
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export const formatScheduleTicketPrices = (values?: Record<string, number>): Record<string, string> =>
+  Object.fromEntries(Object.entries(values || {}).map(([ticketTypeId, price]) => [ticketTypeId, String(price)]));
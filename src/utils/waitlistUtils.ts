@@ -0,0 +1,115 @@
+// Waitlist utilities
+// Offer countdowns and grouping of waitlist entries for the family and vendor views
+
+import type { WaitlistEntry, WaitlistStatus } from '../types/waitlist';
+
+// How long a vendor can hold seats for a promoted entry
+export const WAITLIST_OFFER_HOURS_OPTIONS = [2, 6, 12, 24, 48];
+export const DEFAULT_OFFER_HOURS = 24;
+
+// Entries still in play - the rest are kept for history only
+const OPEN_STATUSES: WaitlistStatus[] = ['waiting', 'offered'];
+
+export const isOpenEntry = (entry: Pick<WaitlistEntry, 'status'>): boolean => OPEN_STATUSES.includes(entry.status);
+
+/**
+ * An offer only counts while its claim window is open; the backend expires it shortly after,
+ * so don't rely on the status alone.
+ */
+export const isOfferActive = (
+  entry: Pick<WaitlistEntry, 'status' | 'offerExpiresAt'>,
+  now: Date = new Date()
+): boolean =>
+  entry.status === 'offered' && !!entry.offerExpiresAt && new Date(entry.offerExpiresAt).getTime() > now.getTime();
+
+export const getOfferTimeRemaining = (expiresAt: string | undefined, now: Date = new Date()): number =>
+  expiresAt ? Math.max(0, new Date(expiresAt).getTime() - now.getTime()) : 0;
+
+// "1d 3h", "2h 15m", "4m" or "Expired"
+export const formatTimeRemaining = (ms: number): string => {
+  if (ms <= 0) return 'Expired';
+
+  const totalMinutes = Math.ceil(ms / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+/**
+ * The family's open entry for a schedule, if they are already queued or holding an offer
+ */
+export const getActiveWaitlistEntry = (
+  entries: WaitlistEntry[],
+  eventId: string,
+  dateScheduleId: string
+): WaitlistEntry | undefined =>
+  entries.find(
+    (entry) => entry.eventId === eventId && entry.dateScheduleId === dateScheduleId && isOpenEntry(entry)
+  );
+
+export const getClaimPath = (token: string): string => `/waitlist/claim/${token}`;
+
+export interface WaitlistScheduleGroup {
+  dateScheduleId: string;
+  startDateTime?: string;
+  entries: WaitlistEntry[];
+}
+
+/**
+ * Group a vendor's waitlist by schedule (earliest date first), open entries in queue order
+ * ahead of closed ones.
+ */
+export const groupWaitlistBySchedule = (entries: WaitlistEntry[]): WaitlistScheduleGroup[] => {
+  const groups = new Map<string, WaitlistScheduleGroup>();
+
+  entries.forEach((entry) => {
+    const group = groups.get(entry.dateScheduleId) || {
+      dateScheduleId: entry.dateScheduleId,
+      startDateTime: entry.schedule?.startDateTime,
+      entries: [],
+    };
+    group.entries.push(entry);
+    groups.set(entry.dateScheduleId, group);
+  });
+
+  const rank = (entry: WaitlistEntry) => (entry.status === 'offered' ? 0 : entry.status === 'waiting' ? 1 : 2);
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      entries: [...group.entries].sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          (a.position || Number.MAX_SAFE_INTEGER) - (b.position || Number.MAX_SAFE_INTEGER) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        new Date(a.startDateTime || 0).getTime() - new Date(b.startDateTime || 0).getTime()
+    );
+};
+
+export interface WaitlistSummary {
+  waiting: number;
+  offered: number;
+  participantsWaiting: number;
+}
+
+export const summarizeWaitlist = (entries: WaitlistEntry[], now: Date = new Date()): WaitlistSummary =>
+  entries.reduce<WaitlistSummary>(
+    (summary, entry) => {
+      if (entry.status === 'waiting') {
+        summary.waiting += 1;
+        summary.participantsWaiting += entry.participants;
+      } else if (isOfferActive(entry, now)) {
+        summary.offered += 1;
+      }
+      return summary;
+    },
+    { waiting: 0, offered: 0, participantsWaiting: 0 }
+  );
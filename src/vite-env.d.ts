@@ -3,8 +3,12 @@
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_API_URL: string
+  readonly VITE_WS_URL?: string
   readonly VITE_STRIPE_PUBLISHABLE_KEY: string
   readonly VITE_GOOGLE_MAPS_API_KEY: string
+  readonly VITE_MAP_TILE_URL?: string
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string
+  readonly VITE_MAP_MAX_ZOOM?: string
   readonly VITE_FIREBASE_API_KEY: string
   readonly VITE_FIREBASE_AUTH_DOMAIN: string
   readonly VITE_FIREBASE_PROJECT_ID: string